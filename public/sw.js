@@ -1,8 +1,10 @@
 // Construction PM — Service Worker
 // Cache-first strategy for static assets, network-first for API/pages
 // Offline mutation support via client messaging
+// Contractor phase pages fall back to the /contractor/offline shell, which
+// renders from the IndexedDB phase cache (lib/offline-phase-cache.ts)
 
-const CACHE_VERSION = "v4";
+const CACHE_VERSION = "v5";
 const STATIC_CACHE = "static-" + CACHE_VERSION;
 const DATA_CACHE = "data-" + CACHE_VERSION;
 
@@ -11,6 +13,7 @@ const PRECACHE_URLS = [
   "/",
   "/dashboard",
   "/contractor",
+  "/contractor/offline",
   "/manifest.json",
   "/icon-192.png",
   "/icon-512.png",
@@ -48,8 +51,36 @@ self.addEventListener("message", (event) => {
   if (event.data && event.data.type === "SKIP_WAITING") {
     self.skipWaiting();
   }
+  // Re-cache shell pages from a signed-in session (install may run before login)
+  if (event.data && event.data.type === "CACHE_URLS" && Array.isArray(event.data.urls)) {
+    event.waitUntil(
+      caches.open(STATIC_CACHE).then((cache) =>
+        Promise.all(
+          event.data.urls.map((u) =>
+            fetch(u, { credentials: "same-origin" })
+              .then((res) => (res.ok && !res.redirected ? cache.put(u, res) : null))
+              .catch(() => null)
+          )
+        )
+      )
+    );
+  }
 });
 
+// Offline shell for contractor pages: a phase page redirects to
+// /contractor/offline?phase=<id>, which renders that phase from the cache;
+// other portal pages use their cached copy, else the shell's phase list
+const CONTRACTOR_PHASE = /^\/contractor\/phases\/([^/]+)\/?$/;
+async function contractorOfflineShell(url, cached) {
+  if (!url.pathname.startsWith("/contractor")) return null;
+  const phase = url.pathname.match(CONTRACTOR_PHASE);
+  if (phase) {
+    return Response.redirect(new URL("/contractor/offline?phase=" + phase[1], self.location.origin).href, 302);
+  }
+  if (cached) return cached;
+  return (await caches.match("/contractor/offline", { ignoreSearch: true })) || null;
+}
+
 // Fetch strategy
 self.addEventListener("fetch", (event) => {
   const { request } = event;
@@ -156,6 +187,10 @@ async function networkFirst(request, cacheName) {
     return response;
   } catch {
     const cached = await caches.match(request);
+    if (request.mode === "navigate") {
+      const shell = await contractorOfflineShell(new URL(request.url), cached);
+      if (shell) return shell;
+    }
     if (cached) return cached;
 
     // Return offline page for navigation requests
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { computeG703Line, rollupG702, validateG703Line } from "@/lib/aia-billing";
+import { renderPayApplicationPdf } from "@/lib/aia-pdf";
+
+const base = { itemNumber: "1", description: "Foundations", retainagePercent: 10 };
+
+describe("AIA G702/G703 billing", () => {
+  it("computes continuation sheet columns and rolls them up into the G702", () => {
+    const lines = [
+      computeG703Line({ ...base, scheduledValue: 100000, previousWork: 40000, workThisPeriod: 20000, materialsStored: 5000 }),
+      computeG703Line({ ...base, itemNumber: "2", description: "Framing", scheduledValue: 50000, previousWork: 0, workThisPeriod: 10000, materialsStored: 0, retainagePercent: 5 }),
+    ];
+    expect(lines[0]).toMatchObject({ completedAndStored: 65000, percentComplete: 65, balanceToFinish: 35000, retainage: 6500 });
+    expect(lines[1].retainage).toBe(500);
+
+    const g702 = rollupG702(lines, 2500, 36000);
+    expect(g702).toMatchObject({
+      originalContractSum: 150000,
+      contractSumToDate: 152500,
+      totalCompletedAndStored: 75000,
+      retainageOnWork: 6500,
+      retainageOnStored: 500,
+      totalRetainage: 7000,
+      totalEarnedLessRetainage: 68000,
+      currentPaymentDue: 32000,
+      balanceToFinish: 84500,
+    });
+
+    const pdf = renderPayApplicationPdf({
+      applicationNumber: 3,
+      applicationDate: new Date("2025-04-01T00:00:00Z"),
+      periodStart: new Date("2025-03-01T00:00:00Z"),
+      periodEnd: new Date("2025-03-31T00:00:00Z"),
+      projectName: "Riverside (Phase 2)",
+      projectAddress: null,
+      contractorName: "Acme Builders",
+      lines,
+      summary: g702,
+    }).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+  });
+
+  it("rejects lines billed past their scheduled value", () => {
+    const over = computeG703Line({ ...base, scheduledValue: 1000, previousWork: 900, workThisPeriod: 150, materialsStored: 0 });
+    expect(validateG703Line(over)).toMatch(/exceeds the scheduled value/);
+    const ok = computeG703Line({ ...base, scheduledValue: 1000, previousWork: 900, workThisPeriod: 100, materialsStored: 0 });
+    expect(validateG703Line(ok)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { NextRequest } from "next/server";
+import { pageArgs, toPage, phaseScope, projectWhere, type ApiContext } from "@/lib/api-v1";
+import { keyCan, normalizeScopes } from "@/lib/api-scopes";
+
+function ctxFor(url: string, projectIds: string[] = []): ApiContext {
+  return {
+    request: new NextRequest(url),
+    orgId: "org_1",
+    keyId: "key_1",
+    userId: null,
+    projectIds,
+    headers: {},
+  };
+}
+
+describe("API v1 helpers", () => {
+  describe("pageArgs()", () => {
+    it("defaults to 50 rows and fetches one extra for look-ahead", () => {
+      const { limit, args } = pageArgs(ctxFor("https://x.test/api/v1/projects"));
+      expect(limit).toBe(50);
+      expect(args.take).toBe(51);
+      expect(args).not.toHaveProperty("cursor");
+    });
+
+    it("clamps limit to the 1–200 range", () => {
+      expect(pageArgs(ctxFor("https://x.test/api/v1/rfis?limit=5000")).limit).toBe(200);
+      expect(pageArgs(ctxFor("https://x.test/api/v1/rfis?limit=0")).limit).toBe(1);
+      expect(pageArgs(ctxFor("https://x.test/api/v1/rfis?limit=abc")).limit).toBe(50);
+    });
+
+    it("skips the cursor row itself when a cursor is given", () => {
+      const { args } = pageArgs(ctxFor("https://x.test/api/v1/rfis?cursor=abc123"));
+      expect(args).toMatchObject({ cursor: { id: "abc123" }, skip: 1 });
+    });
+  });
+
+  describe("toPage()", () => {
+    const rows = [{ id: "a" }, { id: "b" }, { id: "c" }];
+
+    it("returns nextCursor when a look-ahead row exists", () => {
+      expect(toPage(rows, 2)).toEqual({ data: [{ id: "a" }, { id: "b" }], nextCursor: "b" });
+    });
+
+    it("returns a null nextCursor on the last page", () => {
+      expect(toPage(rows, 3)).toEqual({ data: rows, nextCursor: null });
+    });
+  });
+
+  describe("phaseScope()", () => {
+    it("always pins the query to the key's org", () => {
+      const where = phaseScope(ctxFor("https://x.test/api/v1/rfis?projectId=p1&phaseId=ph1"));
+      expect(where).toEqual({
+        phase: { project: { orgId: "org_1", id: { in: ["p1"] } } },
+        phaseId: "ph1",
+      });
+    });
+  });
+
+  describe("projectWhere()", () => {
+    const url = "https://x.test/api/v1/projects";
+
+    it("does not narrow keys without an allow-list", () => {
+      expect(projectWhere(ctxFor(url))).toEqual({ orgId: "org_1" });
+    });
+
+    it("narrows to the allow-list", () => {
+      expect(projectWhere(ctxFor(url, ["p1", "p2"]))).toEqual({
+        orgId: "org_1",
+        id: { in: ["p1", "p2"] },
+      });
+    });
+
+    it("matches nothing when the requested project is outside the allow-list", () => {
+      expect(projectWhere(ctxFor(url, ["p1"]), "p9")).toEqual({ orgId: "org_1", id: { in: [] } });
+    });
+  });
+});
+
+describe("API key scopes", () => {
+  it("maps view to :read and mutations to :write", () => {
+    expect(keyCan(["rfis:read"], "view", "rfi")).toBe(true);
+    expect(keyCan(["rfis:read"], "create", "rfi")).toBe(false);
+    expect(keyCan(["time:write"], "create", "time")).toBe(true);
+  });
+
+  it("lets :write imply :read on the same collection only", () => {
+    expect(keyCan(["projects:write"], "view", "project")).toBe(true);
+    expect(keyCan(["projects:write"], "view", "phase")).toBe(false);
+  });
+
+  it("denies keys with no scopes", () => {
+    expect(keyCan([], "view", "project")).toBe(false);
+  });
+
+  it("drops unknown and duplicate scopes", () => {
+    expect(normalizeScopes(["rfis:write", "bogus:read", "rfis:write", "projects:read"])).toEqual([
+      "projects:read",
+      "rfis:write",
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { computeBaselineVariance, varianceDays } from "@/lib/baseline-variance";
+
+const d = (s: string) => new Date(`${s}T00:00:00Z`);
+
+const baseline = [
+  { phaseId: "a", name: "Foundation", estStart: d("2026-03-02"), estEnd: d("2026-03-20"), estimatedCost: 50000 },
+  { phaseId: "b", name: "Framing", estStart: d("2026-03-23"), estEnd: d("2026-04-17"), estimatedCost: 80000 },
+  { phaseId: "gone", name: "Demolition", estStart: d("2026-02-16"), estEnd: d("2026-02-27"), estimatedCost: 12000 },
+];
+
+describe("baseline variance", () => {
+  it("counts whole days, positive when later", () => {
+    expect(varianceDays(d("2026-03-02"), d("2026-03-05"))).toBe(3);
+    expect(varianceDays(d("2026-03-05"), d("2026-03-02"))).toBe(-3);
+    expect(varianceDays(d("2026-03-02"), new Date("2026-03-02T13:00:00Z"))).toBe(1);
+  });
+
+  it("prefers actual dates over estimates", () => {
+    const [row] = computeBaselineVariance(
+      [{ id: "a", name: "Foundation", estStart: d("2026-03-02"), estEnd: d("2026-03-20"), actualStart: d("2026-03-04"), actualEnd: d("2026-03-18") }],
+      baseline
+    );
+    expect(row).toMatchObject({ currentStart: d("2026-03-04"), currentEnd: d("2026-03-18"), startVarianceDays: 2, finishVarianceDays: -2 });
+  });
+
+  it("signs cost variance as current minus baseline, using actual cost when recorded", () => {
+    const rows = computeBaselineVariance(
+      [
+        { id: "a", name: "Foundation", estStart: d("2026-03-02"), estEnd: d("2026-03-20"), estimatedCost: 45000, actualCost: 56000 },
+        { id: "b", name: "Framing", estStart: d("2026-03-23"), estEnd: d("2026-04-17"), estimatedCost: 75000 },
+      ],
+      baseline
+    );
+    expect(rows[0].costVariance).toBe(6000);
+    expect(rows[1].costVariance).toBe(-5000);
+    expect(computeBaselineVariance([{ id: "b", name: "Framing", estStart: d("2026-03-23"), estEnd: d("2026-04-17") }], baseline)[0].costVariance).toBeNull();
+  });
+
+  it("keeps phases added after the baseline and lists deleted ones last", () => {
+    const rows = computeBaselineVariance(
+      [
+        { id: "new", name: "Landscaping", estStart: d("2026-05-04"), estEnd: d("2026-05-15"), estimatedCost: 9000 },
+        { id: "a", name: "Foundation", estStart: d("2026-03-02"), estEnd: d("2026-03-20") },
+      ],
+      baseline
+    );
+    expect(rows.map((r) => r.phaseId)).toEqual(["new", "a", "b", "gone"]);
+    expect(rows[0]).toMatchObject({ baselineStart: null, baselineEnd: null, startVarianceDays: null, finishVarianceDays: null, costVariance: null });
+    expect(rows[3]).toEqual({
+      phaseId: "gone",
+      name: "Demolition",
+      baselineStart: d("2026-02-16"),
+      baselineEnd: d("2026-02-27"),
+      currentStart: null,
+      currentEnd: null,
+      startVarianceDays: null,
+      finishVarianceDays: null,
+      costVariance: null,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { combineCashFlows, projectCashFlow, spreadByMonth, type CashFlowInput } from "@/lib/cash-flow";
+
+const d = (s: string) => new Date(`${s}T00:00:00Z`);
+const asOf = d("2026-10-15");
+
+const base: CashFlowInput = {
+  receivableLagDays: 45,
+  payableLagDays: 30,
+  retainagePercent: 10,
+  billingFactor: 1,
+  phases: [],
+  commitments: [],
+  receivables: [],
+  payables: [],
+  retainageHeld: { receivable: 0, payable: 0 },
+};
+
+describe("cash flow", () => {
+  it("spreads an amount over months by day", () => {
+    expect([...spreadByMonth(400, d("2026-10-30"), d("2026-11-02"))]).toEqual([["2026-10", 200], ["2026-11", 200]]);
+  });
+
+  it("bills at month end and collects retainage after the last phase", () => {
+    const flow = projectCashFlow(
+      { ...base, phases: [{ id: "p1", estStart: d("2026-11-01"), estEnd: d("2026-11-30"), progress: 0, status: "PENDING", estimate: 100000 }] },
+      asOf
+    );
+    // billed Nov 30: vendors paid Dec 30, owner pays net of 10% on Jan 14 along with the retainage
+    expect(flow.months).toEqual([
+      { month: "2026-12", cashIn: 0, cashOut: 100000, net: -100000, cumulativeIn: 0, cumulativeOut: 100000, cumulativeNet: -100000 },
+      { month: "2027-01", cashIn: 100000, cashOut: 0, net: 100000, cumulativeIn: 100000, cumulativeOut: 100000, cumulativeNet: 0 },
+    ]);
+    expect(flow.totals.lowestBalance).toBe(-100000);
+  });
+
+  it("pays subcontracts net of retainage and schedules overdue billing now", () => {
+    const flow = projectCashFlow(
+      {
+        ...base,
+        receivableLagDays: 0,
+        payableLagDays: 0,
+        phases: [{ id: "p1", estStart: d("2026-10-01"), estEnd: d("2026-10-31"), progress: 50, status: "IN_PROGRESS", estimate: 100000 }],
+        commitments: [{ phaseId: "p1", type: "SUBCONTRACT", remaining: 80000 }],
+        receivables: [{ date: d("2026-09-30"), amount: 45000 }],
+        retainageHeld: { receivable: 5000, payable: 0 },
+      },
+      asOf
+    );
+    // committed balance beats the 50% left of the estimate; 8,000 of it is held back
+    expect(flow.months).toHaveLength(1);
+    expect(flow.months[0]).toMatchObject({ month: "2026-10", cashIn: 45000 + 45000 + 5000 + 5000, cashOut: 72000 + 8000 });
+  });
+
+  it("sums projects month by month for the org", () => {
+    const one = projectCashFlow({ ...base, receivables: [{ date: d("2026-11-01"), amount: 1000 }] }, asOf);
+    const two = projectCashFlow({ ...base, payables: [{ date: d("2026-12-15"), amount: 400 }] }, asOf);
+    const org = combineCashFlows([one, two]);
+    expect(org.months.map((m) => [m.month, m.cashIn, m.cashOut])).toEqual([["2026-12", 1000, 0], ["2027-01", 0, 400]]);
+    expect(org.totals).toEqual({ cashIn: 1000, cashOut: 400, net: 600, lowestBalance: 0 });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  canActOnApproval,
+  nextApprovalState,
+  planApprovals,
+  selectApprovalChain,
+} from "@/lib/change-order-approvals";
+
+const step = (stage: number, name: string, minAmount: number | null = null) => ({
+  stage, name, approverRole: "PROJECT_MANAGER", approverId: null, minAmount,
+});
+
+describe("change order approval chains", () => {
+  it("routes to the active chain with the highest threshold not above the amount", () => {
+    const chains = [
+      { id: "std", minAmount: 0, active: true },
+      { id: "large", minAmount: 10000, active: true },
+      { id: "huge", minAmount: 50000, active: false },
+    ];
+    expect(selectApprovalChain(chains, 2500)?.id).toBe("std");
+    expect(selectApprovalChain(chains, -75000)?.id).toBe("large");
+    expect(selectApprovalChain(chains.slice(1), 500)).toBeNull();
+  });
+
+  it("skips steps below their threshold and opens the first remaining stage", () => {
+    const planned = planApprovals([step(2, "Owner"), step(1, "Finance", 5000), step(2, "Architect"), step(3, "Exec")], 1200);
+    expect(planned.map((p) => [p.name, p.status])).toEqual([
+      ["Finance", "SKIPPED"],
+      ["Owner", "PENDING"],
+      ["Architect", "PENDING"],
+      ["Exec", "WAITING"],
+    ]);
+  });
+
+  it("plans nothing when every step is below its threshold", () => {
+    expect(planApprovals([step(1, "Finance", 5000)], 1000)).toEqual([]);
+    expect(planApprovals([step(1, "Finance", 5000), step(2, "Exec", 25000)], -4999)).toEqual([]);
+    expect(planApprovals([step(1, "Finance", 5000)], 5000).map((p) => p.status)).toEqual(["PENDING"]);
+  });
+
+  it("waits for every parallel step before opening the next stage", () => {
+    expect(nextApprovalState([
+      { id: "a", stage: 1, status: "APPROVED" },
+      { id: "b", stage: 1, status: "PENDING" },
+      { id: "c", stage: 2, status: "WAITING" },
+    ])).toEqual({ outcome: "PENDING", activate: [] });
+    expect(nextApprovalState([
+      { id: "a", stage: 1, status: "APPROVED" },
+      { id: "b", stage: 1, status: "APPROVED" },
+      { id: "c", stage: 2, status: "WAITING" },
+      { id: "d", stage: 3, status: "WAITING" },
+    ])).toEqual({ outcome: "PENDING", activate: ["c"] });
+    expect(nextApprovalState([{ id: "a", stage: 1, status: "APPROVED" }, { id: "b", stage: 2, status: "SKIPPED" }]).outcome).toBe("APPROVED");
+    expect(nextApprovalState([{ id: "a", stage: 1, status: "REJECTED" }, { id: "b", stage: 2, status: "WAITING" }]).outcome).toBe("REJECTED");
+  });
+
+  it("lets the delegate act instead of the original approver", () => {
+    const row = { status: "PENDING" as const, approverId: "u1", approverRole: null, delegatedToId: "u2" };
+    expect(canActOnApproval(row, { id: "u1", role: "PROJECT_MANAGER" })).toBe(false);
+    expect(canActOnApproval(row, { id: "u2", role: "CONTRACTOR" })).toBe(true);
+    expect(canActOnApproval(row, { id: "u9", role: "ADMIN" })).toBe(true);
+    expect(canActOnApproval({ ...row, status: "WAITING" }, { id: "u2", role: "CONTRACTOR" })).toBe(false);
+    expect(canActOnApproval({ ...row, approverId: null, approverRole: "STAKEHOLDER", delegatedToId: null }, { id: "u5", role: "STAKEHOLDER" })).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { changeOrderExposure, priceChangeOrder } from "@/lib/change-order-pricing";
+
+describe("change order pricing", () => {
+  it("rolls line items up by category and applies profit on cost plus overhead", () => {
+    const price = priceChangeOrder(
+      [
+        { category: "LABOR", quantity: 16, unitCost: 62.5 },
+        { category: "MATERIAL", quantity: 3, unitCost: 133.33 },
+        { category: "LABOR", quantity: 2, unitCost: 62.5 },
+      ],
+      10,
+      5
+    );
+    expect(price.byCategory).toMatchObject({ LABOR: 1125, MATERIAL: 399.99, EQUIPMENT: 0 });
+    expect(price.cost).toBe(1524.99);
+    expect(price.overhead).toBe(152.5);
+    expect(price.profit).toBe(83.87);
+    expect(price.total).toBe(1761.36);
+  });
+
+  it("is zero markup when no percentages are set", () => {
+    expect(priceChangeOrder([{ category: "SUBCONTRACT", quantity: 1, unitCost: 4800 }], null, undefined).total).toBe(4800);
+  });
+
+  it("counts each dollar once across the PCO → COR → CO lifecycle", () => {
+    const rows = [
+      { type: "PCO" as const, status: "PENDING" as const, parentId: null, amount: 500 },   // open PCO
+      { type: "PCO" as const, status: "APPROVED" as const, parentId: "cor1", amount: 1200 },
+      { type: "COR" as const, status: "APPROVED" as const, parentId: "co1", amount: 1200 }, // executed below
+      { type: "CO" as const, status: "APPROVED" as const, parentId: null, amount: 1200 },
+      { type: "COR" as const, status: "PENDING" as const, parentId: null, amount: 800 },   // with the owner
+      { type: "COR" as const, status: "APPROVED" as const, parentId: null, amount: 300 },  // awaiting execution
+      { type: "CO" as const, status: "PENDING" as const, parentId: null, amount: 250 },
+      { type: "PCO" as const, status: "REJECTED" as const, parentId: null, amount: 9000 },
+    ];
+    expect(changeOrderExposure(rows)).toEqual({ approved: 1200, pending: 1850 });
+  });
+});
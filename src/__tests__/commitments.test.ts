@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { materialCostedByCommitment, nextCommitmentNumber, summarizeCommitment } from "@/lib/commitments";
+import { costCodeBreakdown } from "@/lib/cost-codes";
+
+const changes = [
+  { amount: 2500, status: "APPROVED" as const },
+  { amount: -400, status: "APPROVED" as const },
+  { amount: 900, status: "PENDING" as const },
+  { amount: 5000, status: "REJECTED" as const },
+];
+
+describe("commitments", () => {
+  it("adds approved change orders to the value and draws it down with invoices", () => {
+    const open = summarizeCommitment({ status: "APPROVED", originalAmount: 40000, changes, invoices: [{ amount: 15000 }, { amount: 6100 }] });
+    expect(open).toEqual({ approvedValue: 42100, pendingChanges: 900, invoiced: 21100, remaining: 21000, committed: 42100 });
+
+    const closed = summarizeCommitment({ status: "CLOSED", originalAmount: 40000, changes, invoices: [{ amount: 39000 }] });
+    expect(closed).toMatchObject({ remaining: 0, committed: 39000 });
+    expect(summarizeCommitment({ status: "DRAFT", originalAmount: 40000, changes: [], invoices: [] }).committed).toBe(0);
+    expect(summarizeCommitment({ status: "VOID", originalAmount: 40000, changes: [], invoices: [] }).committed).toBe(0);
+  });
+
+  it("numbers subcontracts and purchase orders separately per project", () => {
+    expect(nextCommitmentNumber("SUBCONTRACT", [])).toBe("SC-001");
+    expect(nextCommitmentNumber("PURCHASE_ORDER", ["SC-001", "PO-001", "PO-009"])).toBe("PO-010");
+    expect(materialCostedByCommitment("APPROVED")).toBe(true);
+    expect(materialCostedByCommitment("DRAFT")).toBe(false);
+    expect(materialCostedByCommitment(null)).toBe(false);
+  });
+
+  it("counts unbilled commitment balance as committed and invoices as actual", () => {
+    const [row] = costCodeBreakdown({
+      codes: [{ id: "c09", code: "09 00 00", name: "Finishes" }],
+      budgets: [{ costCodeId: "c09", amount: 60000 }],
+      changes: [],
+      materials: [{ costCodeId: "c09", status: "ORDERED", amount: 1200 }],
+      labor: [],
+      commitments: [{ costCodeId: "c09", remaining: 21000, invoiced: 21100 }],
+    });
+    expect(row).toMatchObject({ committed: 22200, actual: 21100, remaining: 16700 });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { costCodeBreakdown, divisionOf, executedChangeLines, matchCostCode } from "@/lib/cost-codes";
+
+const codes = [
+  { id: "c03", code: "03 00 00", name: "Concrete" },
+  { id: "c0330", code: "03 30 00", name: "Cast-in-Place Concrete" },
+  { id: "c26", code: "26 00 00", name: "Electrical" },
+];
+
+describe("cost codes", () => {
+  it("matches free-text codes onto the library regardless of spacing", () => {
+    expect(matchCostCode(codes, "033000")?.id).toBe("c0330");
+    expect(matchCostCode(codes, " 26-00-00 ")?.id).toBe("c26");
+    expect(matchCostCode(codes, "310")).toBeNull();
+    expect(divisionOf("03 30 00")).toBe("03");
+  });
+
+  it("compares budget, committed and actual per code with uncoded records last", () => {
+    const rows = costCodeBreakdown({
+      codes,
+      budgets: [{ costCodeId: "c0330", amount: 20000 }, { costCodeId: "c26", amount: 8000 }],
+      changes: [{ costCodeId: "c0330", amount: 1500 }, { costCodeId: null, amount: 300 }],
+      materials: [
+        { costCodeId: "c0330", status: "ORDERED", amount: 6000 },
+        { costCodeId: "c0330", status: "INSTALLED", amount: 9000 },
+        { costCodeId: "c26", status: "RETURNED", amount: 700 },
+      ],
+      labor: [{ costCodeId: "c0330", hours: 12.5 }, { costCodeId: null, hours: 4 }],
+    });
+    expect(rows.map((r) => r.code)).toEqual(["03 30 00", "26 00 00", ""]);
+    expect(rows[0]).toMatchObject({ revisedBudget: 21500, committed: 6000, actual: 9000, remaining: 6500, laborHours: 12.5 });
+    expect(rows[1]).toMatchObject({ committed: 0, actual: 0, remaining: 8000 });
+    expect(rows[2]).toMatchObject({ costCodeId: null, name: "Uncoded", approvedChanges: 300, remaining: 300, laborHours: 4 });
+  });
+
+  it("takes executed change order cost from the lines beneath a rolled-up CO", () => {
+    const lines = executedChangeLines([
+      { id: "co1", type: "CO", status: "APPROVED", parentId: null, amount: 1300, lines: [] },
+      { id: "cor1", type: "COR", status: "APPROVED", parentId: "co1", amount: 1300, lines: [] },
+      { id: "pco1", type: "PCO", status: "APPROVED", parentId: "cor1", amount: 1300, lines: [{ costCodeId: "c26", amount: 1300 }] },
+      { id: "co2", type: "CO", status: "APPROVED", parentId: null, amount: 250, lines: [] },
+      { id: "co3", type: "CO", status: "PENDING", parentId: null, amount: 900, lines: [{ costCodeId: "c03", amount: 900 }] },
+    ]);
+    expect(lines).toEqual([{ costCodeId: "c26", amount: 1300 }, { costCodeId: null, amount: 250 }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { computeCriticalPath, wouldCreateCycle, type CpmActivity } from "@/lib/critical-path";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+//  A (10d) ──▶ B (5d) ──▶ D (3d)
+//    └──────▶ C (2d) ──────┘
+const activities: CpmActivity[] = [
+  { id: "A", start: d("2025-01-01"), end: d("2025-01-11") },
+  { id: "B", start: d("2025-01-11"), end: d("2025-01-16") },
+  { id: "C", start: d("2025-01-11"), end: d("2025-01-13") },
+  { id: "D", start: d("2025-01-16"), end: d("2025-01-19") },
+];
+const links = [
+  { predecessorId: "A", successorId: "B", lagDays: 0 },
+  { predecessorId: "A", successorId: "C", lagDays: 0 },
+  { predecessorId: "B", successorId: "D", lagDays: 0 },
+  { predecessorId: "C", successorId: "D", lagDays: 0 },
+];
+
+describe("computeCriticalPath()", () => {
+  it("finds the longest chain as the critical path", () => {
+    const result = computeCriticalPath(activities, links);
+    expect(result.criticalPath).toEqual(["A", "B", "D"]);
+    expect(result.projectFinish).toEqual(d("2025-01-19"));
+  });
+
+  it("computes total and free float for non-critical phases", () => {
+    const { phases } = computeCriticalPath(activities, links);
+    expect(phases.C.totalFloat).toBe(3);
+    expect(phases.C.freeFloat).toBe(3);
+    expect(phases.C.lateStart).toEqual(d("2025-01-14"));
+    expect(phases.B.totalFloat).toBe(0);
+  });
+
+  it("pushes successors by lag and never starts before the planned date", () => {
+    const { phases } = computeCriticalPath(activities, [
+      ...links.slice(0, 3),
+      { predecessorId: "C", successorId: "D", lagDays: 6 },
+    ]);
+    expect(phases.D.earlyStart).toEqual(d("2025-01-19"));
+    expect(phases.C.critical).toBe(true);
+    expect(phases.B.totalFloat).toBe(3);
+  });
+
+  it("rejects cyclic graphs", () => {
+    expect(() =>
+      computeCriticalPath(activities, [...links, { predecessorId: "D", successorId: "A", lagDays: 0 }])
+    ).toThrow("cycle");
+  });
+
+  it("honours start-to-start and finish-to-finish links", () => {
+    const { phases } = computeCriticalPath(activities, [
+      { predecessorId: "A", successorId: "B", lagDays: 12, type: "SS" },
+      { predecessorId: "A", successorId: "C", lagDays: 4, type: "FF" },
+      ...links.slice(2),
+    ]);
+    // B starts 12 days after A starts; C finishes 4 days after A finishes
+    expect(phases.B.earlyStart).toEqual(d("2025-01-13"));
+    expect(phases.C.earlyFinish).toEqual(d("2025-01-15"));
+    expect(phases.A.critical).toBe(true);
+    expect(phases.C.totalFloat).toBe(3);
+  });
+});
+
+describe("wouldCreateCycle()", () => {
+  it("rejects edges that close a loop at any depth", () => {
+    expect(wouldCreateCycle(links, "D", "A")).toBe(true);
+    expect(wouldCreateCycle(links, "B", "B")).toBe(true);
+    expect(wouldCreateCycle(links, "C", "B")).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { db } from "@/lib/db";
+import {
+  captureEarnedValueSnapshots,
+  computeProjectEvm,
+  deriveMetrics,
+  MAX_SNAPSHOT_RATIO,
+  plannedPercent,
+  weekStart,
+} from "@/lib/earned-value";
+
+const d = (s: string) => new Date(`${s}T00:00:00Z`);
+
+describe("earned value", () => {
+  it("plans value linearly across the planned window", () => {
+    expect(plannedPercent(d("2026-03-01"), d("2026-03-11"), d("2026-03-06"))).toBe(0.5);
+    expect(plannedPercent(d("2026-03-01"), d("2026-03-11"), d("2026-02-01"))).toBe(0);
+    expect(plannedPercent(d("2026-03-01"), d("2026-03-11"), d("2026-04-01"))).toBe(1);
+    expect(plannedPercent(d("2026-03-01"), d("2026-03-01"), d("2026-03-01"))).toBe(1);
+  });
+
+  it("derives CPI, SPI and the completion forecasts", () => {
+    expect(deriveMetrics(100000, 50000, 40000, 50000)).toEqual({
+      budgetAtCompletion: 100000,
+      plannedValue: 50000,
+      earnedValue: 40000,
+      actualCost: 50000,
+      cpi: 0.8,
+      spi: 0.8,
+      estimateAtCompletion: 125000,
+      estimateToComplete: 75000,
+      varianceAtCompletion: -25000,
+      costVariance: -10000,
+      scheduleVariance: -10000,
+    });
+    // nothing earned yet: no CPI, EAC falls back to the budget (or spend, if higher)
+    expect(deriveMetrics(100000, 0, 0, 0)).toMatchObject({ cpi: null, spi: null, estimateAtCompletion: 100000 });
+    expect(deriveMetrics(100000, 10000, 0, 120000).estimateAtCompletion).toBe(120000);
+  });
+
+  it("sums phases before deriving project ratios", () => {
+    const evm = computeProjectEvm(
+      [
+        { id: "a", name: "Foundation", status: "COMPLETE", progress: 90, plannedStart: d("2026-01-05"), plannedEnd: d("2026-02-04"), budgetAtCompletion: 60000, actualCost: 66000 },
+        { id: "b", name: "Framing", status: "IN_PROGRESS", progress: 25, plannedStart: d("2026-02-04"), plannedEnd: d("2026-03-06"), budgetAtCompletion: 40000, actualCost: 8000 },
+      ],
+      d("2026-02-19")
+    );
+    expect(evm.phases[0]).toMatchObject({ earnedValue: 60000, plannedValue: 60000, cpi: 0.909 });
+    expect(evm.phases[1]).toMatchObject({ earnedValue: 10000, plannedValue: 20000, cpi: 1.25, spi: 0.5 });
+    expect(evm).toMatchObject({ budgetAtCompletion: 100000, plannedValue: 80000, earnedValue: 70000, actualCost: 74000, spi: 0.875, cpi: 0.946 });
+  });
+
+  it("keys snapshots by the Monday of the week", () => {
+    expect(weekStart(new Date("2026-10-18T15:30:00Z")).toISOString()).toBe("2026-10-12T00:00:00.000Z");
+    expect(weekStart(d("2026-10-12")).toISOString()).toBe("2026-10-12T00:00:00.000Z");
+  });
+
+  it("caps stored ratios and keeps snapshotting past a failing project", async () => {
+    const phase = (projectId: string) => ({
+      id: `ph-${projectId}`, name: "Framing", status: "IN_PROGRESS", progress: 50, projectId,
+      estStart: d("2026-10-12"), estEnd: d("2026-12-31"), estimatedCost: 10000, actualCost: 5000,
+    });
+    vi.mocked(db.project.findMany).mockResolvedValue([{ id: "p1" }, { id: "p2" }, { id: "p3" }] as never);
+    vi.mocked(db.phase.findMany).mockResolvedValue([phase("p1"), phase("p2"), phase("p3")] as never);
+    vi.mocked(db.scheduleBaseline.findMany).mockResolvedValue([]);
+    vi.mocked(db.earnedValueSnapshot.upsert)
+      .mockResolvedValueOnce({} as never)
+      .mockRejectedValueOnce(new Error("numeric field overflow"))
+      .mockResolvedValueOnce({} as never);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    // One second into the planned window: PV is almost nothing, so SPI is huge
+    const result = await captureEarnedValueSnapshots(new Date("2026-10-12T00:00:01Z"));
+
+    expect(result).toEqual({ projects: 2, failed: 1 });
+    expect(db.scheduleBaseline.findMany).toHaveBeenCalledWith(expect.objectContaining({ distinct: ["projectId"] }));
+    const upserts = vi.mocked(db.earnedValueSnapshot.upsert).mock.calls;
+    expect(upserts.map(([a]) => a.where.projectId_weekOf?.projectId)).toEqual(["p1", "p2", "p3"]);
+    expect(upserts[0][0].create).toMatchObject({ spi: MAX_SNAPSHOT_RATIO, cpi: 1 });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { checkGeofences, distanceToGeofence, geofenceOutcome, type LatLng } from "@/lib/geofence";
+
+const metresNorth = (m: number) => m / 111_195; // degrees of latitude
+
+const circle = { shape: "CIRCLE" as const, centerLat: 40, centerLng: -74, radius: 100 };
+const square = {
+  shape: "POLYGON" as const,
+  points: [[40, -73.98], [40, -73.97], [40.01, -73.97], [40.01, -73.98]] as LatLng[],
+};
+
+describe("geofence", () => {
+  it("measures distance to circle and polygon edges", () => {
+    expect(distanceToGeofence([40, -74], circle)).toBe(0);
+    expect(distanceToGeofence([40 + metresNorth(150), -74], circle)).toBeCloseTo(50, 0);
+    expect(distanceToGeofence([40.005, -73.975], square)).toBe(0);
+    expect(distanceToGeofence([40 - metresNorth(120), -73.975], square)).toBeCloseTo(120, 0);
+    expect(distanceToGeofence([40, -74], { shape: "POLYGON", points: [[40, -74]] })).toBe(Infinity);
+  });
+
+  it("gives the fix the benefit of its accuracy, up to the cap", () => {
+    const fix = { latitude: 40 + metresNorth(150), longitude: -74 };
+    expect(checkGeofences({ ...fix, accuracy: 60 }, [circle])).toEqual({ check: "INSIDE", distance: 50, nearest: 0 });
+    expect(checkGeofences({ ...fix, accuracy: 20 }, [circle])?.check).toBe("OUTSIDE");
+    expect(checkGeofences({ ...fix, accuracy: 20 }, [square, circle])?.nearest).toBe(1);
+    expect(checkGeofences({ latitude: 40 + metresNorth(1100), longitude: -74, accuracy: 500 }, [circle])?.check).toBe("UNCERTAIN");
+    expect(checkGeofences({ ...fix, accuracy: 20 }, [])).toBeNull();
+  });
+
+  it("flags or blocks per policy, never blocking an uncertain fix", () => {
+    expect(geofenceOutcome("INSIDE", "BLOCK")).toBeNull();
+    expect(geofenceOutcome("OUTSIDE", "FLAG")).toBe("FLAGGED");
+    expect(geofenceOutcome("OUTSIDE", "BLOCK")).toBe("BLOCKED");
+    expect(geofenceOutcome("UNCERTAIN", "BLOCK")).toBe("FLAGGED");
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { buildICalendar, foldLine, type CalendarEvent } from "@/lib/ical";
+
+const updatedAt = new Date("2025-03-01T12:00:00Z");
+
+describe("iCalendar feed", () => {
+  it("emits stable UIDs, all-day due dates and timed inspections", () => {
+    const events: CalendarEvent[] = [
+      { kind: "rfi", sourceId: "r1", summary: "RFI #4 due: Beam size; grid B,3", start: new Date("2025-03-10T00:00:00Z"), allDay: true, updatedAt },
+      { kind: "inspection", sourceId: "i1", summary: "Inspection: Framing", start: new Date("2025-03-12T14:30:00Z"), allDay: false, updatedAt, description: "Line one\nLine two" },
+    ];
+    const ics = buildICalendar("Riverside", events);
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("UID:rfi-r1@accudone");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250310\r\nDTEND;VALUE=DATE:20250311");
+    expect(ics).toContain("SUMMARY:RFI #4 due: Beam size\\; grid B\\,3");
+    expect(ics).toContain("DTSTART:20250312T143000Z\r\nDTEND:20250312T153000Z");
+    expect(ics).toContain("DESCRIPTION:Line one\\nLine two");
+    expect(ics).toContain(`SEQUENCE:${updatedAt.getTime() / 1000}`);
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const folded = foldLine(`SUMMARY:${"é".repeat(60)}`);
+    const lines = folded.split("\r\n");
+    expect(lines.length).toBe(2);
+    expect(lines.every((l) => Buffer.byteLength(l) <= 75)).toBe(true);
+    expect(lines[1].startsWith(" ")).toBe(true);
+    expect(lines.map((l, i) => (i ? l.slice(1) : l)).join("")).toBe(`SUMMARY:${"é".repeat(60)}`);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import { offlineActionSchemas, OFFLINE_ACTION_NAMES } from "@/lib/offline-actions";
+import { REPLAYABLE_ACTIONS, replayOfflineAction } from "@/lib/offline-replay";
+import { clockIn } from "@/actions/gps-time-clock";
+
+vi.mock("@/actions/gps-time-clock", () => ({
+  clockIn: vi.fn().mockResolvedValue({ success: false, error: "Already clocked in" }),
+  clockOut: vi.fn(),
+}));
+
+const SRC = path.resolve(__dirname, "..");
+
+function sourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((e) => {
+    const full = path.join(dir, e.name);
+    if (e.isDirectory()) return e.name === "__tests__" ? [] : sourceFiles(full);
+    return /\.tsx?$/.test(e.name) ? [full] : [];
+  });
+}
+
+/** Action names passed to offlineAction() or queued directly with queueMutation*(). */
+function queuedActionNames(): Map<string, string> {
+  const found = new Map<string, string>();
+  for (const file of sourceFiles(SRC)) {
+    const code = fs.readFileSync(file, "utf8");
+    const rel = path.relative(SRC, file);
+    for (const m of code.matchAll(/\bofflineAction\(\s*"(\w+)"/g)) found.set(m[1], rel);
+    if (/\bqueueMutation(WithBlobs)?\(/.test(code)) {
+      for (const m of code.matchAll(/\baction:\s*"(\w+)"/g)) found.set(m[1], rel);
+    }
+  }
+  return found;
+}
+
+describe("offline action registry", () => {
+  it("can replay every action the app queues", () => {
+    const queued = queuedActionNames();
+    expect(queued.size).toBeGreaterThan(0);
+    for (const [action, file] of queued) {
+      expect(offlineActionSchemas, `${action} (queued in ${file}) has no schema`).toHaveProperty(action);
+      expect(REPLAYABLE_ACTIONS, `${action} (queued in ${file}) has no replayer`).toContain(action);
+    }
+    expect([...REPLAYABLE_ACTIONS].sort()).toEqual([...OFFLINE_ACTION_NAMES].sort());
+  });
+
+  it("rejects unknown actions, invalid payloads and failed results", async () => {
+    await expect(replayOfflineAction("dropTables", {})).rejects.toThrow("Unknown action: dropTables");
+    await expect(replayOfflineAction("updatePhaseStatus", { phaseId: "ph1", status: "DONE" })).rejects.toThrow(
+      "Invalid updatePhaseStatus payload"
+    );
+    await expect(replayOfflineAction("clockIn", { phaseId: "ph1", latitude: 1, longitude: 2 })).rejects.toThrow(
+      "Already clocked in"
+    );
+  });
+
+  it("settles a geofence-blocked clock-in as of the time it was queued", async () => {
+    const queuedAt = new Date("2026-10-18T06:45:00Z");
+    vi.mocked(clockIn).mockResolvedValueOnce({
+      success: false,
+      error: "Outside the project geofence",
+      geofence: { check: "OUTSIDE", distance: 420, outcome: "BLOCKED" },
+    });
+    const payload = { phaseId: "ph1", latitude: 1, longitude: 2 };
+
+    await expect(replayOfflineAction("clockIn", payload, queuedAt)).resolves.toBeUndefined();
+    expect(clockIn).toHaveBeenLastCalledWith(payload, queuedAt);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { db } from "@/lib/db";
+import { detectOfflineConflict, diffFields, sameValue } from "@/lib/offline-conflicts";
+
+const phase = {
+  id: "ph1",
+  name: "Framing",
+  updatedAt: new Date("2026-10-10T12:00:00Z"),
+  status: "COMPLETED",
+  estStart: new Date("2026-10-01T00:00:00Z"),
+  estEnd: new Date("2026-10-20T00:00:00Z"),
+  worstStart: null,
+  worstEnd: null,
+  estimatedCost: 5000,
+  actualCost: null,
+};
+
+describe("offline conflicts", () => {
+  beforeEach(() => {
+    vi.mocked(db.phase.findUnique).mockReset();
+  });
+
+  it("compares payload values with their DB shapes", () => {
+    expect(sameValue("2026-10-01", new Date("2026-10-01T00:00:00Z"))).toBe(true);
+    expect(sameValue("5000", 5000)).toBe(true);
+    expect(sameValue(null, 0)).toBe(false);
+    expect(diffFields({ estStart: "2026-10-01", estEnd: "2026-10-25" }, phase)).toEqual([
+      { field: "estEnd", mine: "2026-10-25", theirs: "2026-10-20T00:00:00.000Z" },
+    ]);
+  });
+
+  it("flags an offline status change made before a newer server change", async () => {
+    vi.mocked(db.phase.findUnique).mockResolvedValue(phase as never);
+    const conflict = await detectOfflineConflict(
+      { action: "updatePhaseStatus", payload: { phaseId: "ph1", status: "IN_PROGRESS" }, baseUpdatedAt: "2026-10-09T08:00:00Z", timestamp: 0 },
+      "u1"
+    );
+    expect(conflict).toMatchObject({
+      entity: "phase",
+      label: "Framing",
+      fields: [{ field: "status", mine: "IN_PROGRESS", theirs: "COMPLETED" }],
+      theirsUpdatedAt: "2026-10-10T12:00:00.000Z",
+    });
+  });
+
+  it("replays when the server copy is older, already matches, or the change is forced", async () => {
+    vi.mocked(db.phase.findUnique).mockResolvedValue(phase as never);
+    const at = (baseUpdatedAt: string, payload: Record<string, unknown>) =>
+      detectOfflineConflict({ action: "updatePhaseStatus", payload: { phaseId: "ph1", ...payload }, baseUpdatedAt, timestamp: 0 }, "u1");
+    expect(await at("2026-10-11T00:00:00Z", { status: "IN_PROGRESS" })).toBeNull();
+    expect(await at("2026-10-09T00:00:00Z", { status: "COMPLETED" })).toBeNull();
+    expect(await at("2026-10-09T00:00:00Z", { status: "IN_PROGRESS", force: true })).toBeNull();
+    expect(await detectOfflineConflict({ action: "createDailyLog", payload: {}, timestamp: 0 }, "u1")).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { db } from "@/lib/db";
+import { FULL_SYNC_AFTER_MS, loadReadModelDelta } from "@/lib/offline-read-model";
+
+const now = new Date("2026-10-18T12:00:00Z");
+const d = (s: string) => new Date(`${s}T00:00:00Z`);
+
+const bundle = (id: string) => ({
+  id,
+  name: `Phase ${id}`,
+  detail: null,
+  status: "IN_PROGRESS",
+  progress: 40,
+  estStart: d("2026-10-01"),
+  estEnd: d("2026-11-01"),
+  project: { id: "proj-1", name: "Smith Residence", address: "12 Oak St" },
+  checklist: { items: [{ id: "ci-1", title: "Pour footing", completed: false, order: 0 }] },
+  punchListItems: [{ id: "pl-1", itemNumber: 1, title: "Patch drywall", status: "OPEN", priority: "LOW", location: null, dueDate: d("2026-10-20") }],
+  drawings: [],
+  rfis: [],
+  photos: [{ id: "photo-1", url: "https://cdn.example.com/1.jpg", caption: null, takenAt: d("2026-10-17") }],
+});
+
+/** Phase ids a query asked for by `where.id.in`. */
+const requested = (call: number) =>
+  (vi.mocked(db.phase.findMany).mock.calls[call][0] as { where: { id: { in: string[] } } }).where.id.in;
+
+describe("offline read model", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const model of [db.checklistItem, db.punchListItem, db.drawing, db.rFI, db.photo]) {
+      vi.mocked(model.findMany).mockResolvedValue([]);
+    }
+  });
+
+  it("sends every phase in scope on the first sync", async () => {
+    vi.mocked(db.phase.findMany)
+      .mockResolvedValueOnce([{ id: "ph-1" }, { id: "ph-2" }] as never)
+      .mockResolvedValueOnce([bundle("ph-1"), bundle("ph-2")] as never);
+
+    const delta = await loadReadModelDelta("user-1", null, now);
+
+    expect(delta).toMatchObject({ cursor: now.toISOString(), userId: "user-1", full: true, phaseIds: ["ph-1", "ph-2"] });
+    expect(requested(1)).toEqual(["ph-1", "ph-2"]);
+    expect(db.punchListItem.findMany).not.toHaveBeenCalled();
+    expect(delta.phases[0]).toMatchObject({
+      projectId: "proj-1",
+      projectName: "Smith Residence",
+      estStart: "2026-10-01T00:00:00.000Z",
+      checklist: [{ id: "ci-1", completed: false }],
+      punchList: [{ id: "pl-1", dueDate: "2026-10-20T00:00:00.000Z" }],
+      photos: [{ id: "photo-1", takenAt: "2026-10-17T00:00:00.000Z" }],
+      syncedAt: now.toISOString(),
+    });
+  });
+
+  it("only re-sends phases whose bundle changed since the cursor", async () => {
+    const since = new Date(now.getTime() - 60 * 60 * 1000);
+    vi.mocked(db.phase.findMany)
+      .mockResolvedValueOnce([{ id: "ph-1" }, { id: "ph-2" }, { id: "ph-3" }] as never)
+      .mockResolvedValueOnce([{ id: "ph-1" }] as never)
+      .mockResolvedValueOnce([bundle("ph-1"), bundle("ph-3")] as never);
+    vi.mocked(db.checklistItem.findMany).mockResolvedValue([{ checklist: { phaseId: "ph-1" } }] as never);
+    vi.mocked(db.rFI.findMany).mockResolvedValue([{ phaseId: "ph-3" }] as never);
+
+    const delta = await loadReadModelDelta("user-1", since, now);
+
+    expect(delta.full).toBe(false);
+    expect(delta.phaseIds).toEqual(["ph-1", "ph-2", "ph-3"]);
+    expect(db.rFI.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: expect.objectContaining({ updatedAt: { gt: since } }) }));
+    expect(requested(2)).toEqual(["ph-1", "ph-3"]);
+    expect(delta.phases.map((p) => p.id)).toEqual(["ph-1", "ph-3"]);
+  });
+
+  it("lists the phases still in scope so removed ones are dropped, without refetching bundles", async () => {
+    const since = new Date(now.getTime() - 60 * 1000);
+    vi.mocked(db.phase.findMany)
+      .mockResolvedValueOnce([{ id: "ph-1" }] as never)
+      .mockResolvedValueOnce([] as never);
+
+    const delta = await loadReadModelDelta("user-1", since, now);
+
+    expect(delta).toMatchObject({ full: false, phaseIds: ["ph-1"], phases: [] });
+    expect(db.phase.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to a full sync when the cursor is stale", async () => {
+    vi.mocked(db.phase.findMany)
+      .mockResolvedValueOnce([{ id: "ph-1" }] as never)
+      .mockResolvedValueOnce([bundle("ph-1")] as never);
+
+    const delta = await loadReadModelDelta("user-1", new Date(now.getTime() - FULL_SYNC_AFTER_MS - 1), now);
+
+    expect(delta.full).toBe(true);
+    expect(requested(1)).toEqual(["ph-1"]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { resolveBlobRefs } from "@/lib/offline-uploads";
+import { blobRef } from "@/lib/offline-queue";
+
+describe("offline uploads", () => {
+  it("swaps queued blob placeholders for uploaded URLs", () => {
+    const urls = new Map([
+      ["a", "https://blob.example/a.jpg"],
+      ["b", "https://blob.example/b.jpg"],
+    ]);
+    const payload = { phaseId: "ph1", photos: [{ url: blobRef("a") }, { url: blobRef("b"), caption: "North wall" }], latitude: 1.5 };
+    expect(resolveBlobRefs(payload, urls)).toEqual({
+      phaseId: "ph1",
+      photos: [{ url: "https://blob.example/a.jpg" }, { url: "https://blob.example/b.jpg", caption: "North wall" }],
+      latitude: 1.5,
+    });
+  });
+
+  it("refuses to replay with a file that was never uploaded", () => {
+    expect(() => resolveBlobRefs({ audioUrl: blobRef("missing") }, new Map())).toThrow("missing");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { loadPdfImage } from "@/lib/pdf";
+import { resolvePdfBranding } from "@/lib/pdf-branding";
+import { renderChangeOrderPdf } from "@/lib/pdf-templates";
+
+/** 2×1 RGBA PNG: one opaque red pixel, one transparent blue pixel (CRCs are not checked). */
+function tinyPng(): Buffer {
+  const chunk = (type: string, body: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    return Buffer.concat([length, Buffer.from(type, "latin1"), body, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(2, 0);
+  ihdr.writeUInt32BE(1, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  const row = Buffer.from([0, 255, 0, 0, 255, 0, 0, 255, 0]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    chunk("IDAT", deflateSync(row)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("branded PDF templates", () => {
+  it("uses custom colours over the preset unless the mode is preset", () => {
+    const settings = {
+      theme: "blue", companyName: null, colorMode: "custom",
+      colorPrimary: "#ff0000", colorSecondary: null, colorTertiary: null,
+    };
+    expect(resolvePdfBranding(settings, "Acme Builders").primary).toEqual([1, 0, 0]);
+    expect(resolvePdfBranding(settings, "Acme Builders").companyName).toBe("Acme Builders");
+    expect(resolvePdfBranding({ ...settings, colorMode: "preset" }, "Acme").primary).not.toEqual([1, 0, 0]);
+  });
+
+  it("decodes a PNG logo with its alpha channel and embeds it", () => {
+    const logo = loadPdfImage(tinyPng());
+    expect(logo).toMatchObject({ width: 2, height: 1, colorSpace: "DeviceRGB", filter: "FlateDecode" });
+    expect(logo?.alpha).toBeDefined();
+    expect(loadPdfImage(Buffer.from("<svg/>"))).toBeNull();
+
+    const pdf = renderChangeOrderPdf(
+      {
+        projectName: "Main St Clinic", projectAddress: null, phaseName: "Framing",
+        number: "CO-004", title: "Add blocking for grab bars", description: null, reason: "Owner request",
+        status: "APPROVED", amount: 1250, requestedBy: "Dana", requestedAt: new Date("2026-03-01"),
+        approvedBy: "Sam", approvedAt: new Date("2026-03-04"),
+      },
+      resolvePdfBranding(null, "Acme Builders", logo)
+    ).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/Subtype /Image /Width 2 /Height 1");
+    expect(pdf).toContain("/SMask");
+    expect(pdf).toContain("/XObject << /Im0");
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { isScheduleDue, tableToCsv, tablesToXlsx } from "@/lib/report-delivery";
+
+// Monday 2025-03-03, 08:00 UTC
+const monday8 = new Date("2025-03-03T08:00:00Z");
+const weekly = { frequency: "WEEKLY" as const, dayOfWeek: 1, dayOfMonth: null, sendHour: 8, lastSentAt: null };
+
+describe("scheduled report delivery", () => {
+  it("fires on the configured day and hour, at most once per 20 hours", () => {
+    expect(isScheduleDue(weekly, monday8)).toBe(true);
+    expect(isScheduleDue(weekly, new Date("2025-03-03T09:00:00Z"))).toBe(false);
+    expect(isScheduleDue({ ...weekly, dayOfWeek: 2 }, monday8)).toBe(false);
+    expect(isScheduleDue({ ...weekly, lastSentAt: new Date("2025-03-02T20:00:00Z") }, monday8)).toBe(false);
+    expect(isScheduleDue({ ...weekly, lastSentAt: new Date("2025-02-24T08:00:00Z") }, monday8)).toBe(true);
+    expect(isScheduleDue({ ...weekly, frequency: "MONTHLY", dayOfMonth: 3 }, monday8)).toBe(true);
+  });
+
+  it("renders tables as quoted CSV and as workbook sheets", () => {
+    const table = { name: "Job P&L", header: ["Project", "Budget"], rows: [['Smith "North", Phase 2', 1200.5]] };
+    expect(tableToCsv(table)).toBe('"Project","Budget"\n"Smith ""North"", Phase 2","1200.5"');
+
+    const workbook = XLSX.read(tablesToXlsx([table]), { type: "buffer" });
+    expect(workbook.SheetNames).toEqual(["Job P&L"]);
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets["Job P&L"], { header: 1 })).toEqual([["Project", "Budget"], ['Smith "North", Phase 2', 1200.5]]);
+  });
+});
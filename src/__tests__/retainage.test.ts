@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { computeG703Line } from "@/lib/aia-billing";
+import { rateForCompletion, summarizeRetainage } from "@/lib/retainage";
+
+describe("retainage ledger", () => {
+  it("steps the rate down by percent billed without shrinking what is held", () => {
+    const tiers = [{ minPercentComplete: 50, ratePercent: 5 }, { minPercentComplete: 0, ratePercent: 10 }];
+    expect(rateForCompletion(tiers, 20)).toBe(10);
+    expect(rateForCompletion(tiers, 50)).toBe(5);
+    expect(rateForCompletion([], 80)).toBeNull();
+
+    // 60k billed and 6k held at 10%; the next 20k is retained at 5%
+    const line = computeG703Line({
+      itemNumber: "1", description: "Sitework", scheduledValue: 100000,
+      previousWork: 60000, workThisPeriod: 20000, materialsStored: 0,
+      retainagePercent: 5, previousRetainage: 6000, previousMaterialsStored: 0,
+    });
+    expect(line.retainage).toBe(7000);
+  });
+
+  it("groups withholding and releases per vendor, contractor first", () => {
+    const balances = summarizeRetainage([
+      { type: "WITHHELD", amount: 5000, vendorName: null, final: false },
+      { type: "WITHHELD", amount: 1200, vendorName: "Acme Framing", final: false },
+      { type: "WITHHELD", amount: 800, vendorName: "acme framing ", final: false },
+      { type: "RELEASED", amount: 2000, vendorName: "ACME Framing", final: true },
+    ]);
+    expect(balances).toEqual([
+      { vendorName: null, withheld: 5000, released: 0, balance: 5000, closed: false },
+      { vendorName: "Acme Framing", withheld: 2000, released: 2000, balance: 0, closed: true },
+    ]);
+  });
+});
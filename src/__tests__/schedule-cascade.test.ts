@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { planCascade, type CascadePhase } from "@/lib/schedule-cascade";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+//  A ──▶ B ──(lag 2)──▶ C      D is unrelated
+const phases: CascadePhase[] = [
+  { id: "A", name: "Framing", estStart: d("2025-03-01"), estEnd: d("2025-03-10") },
+  { id: "B", name: "Roofing", estStart: d("2025-03-10"), estEnd: d("2025-03-15"), worstStart: d("2025-03-12"), worstEnd: d("2025-03-18") },
+  { id: "C", name: "Drywall", estStart: d("2025-03-17"), estEnd: d("2025-03-20") },
+  { id: "D", name: "Permits", estStart: d("2025-03-01"), estEnd: d("2025-03-05") },
+];
+const links = [
+  { predecessorId: "A", successorId: "B", lagDays: 0 },
+  { predecessorId: "B", successorId: "C", lagDays: 2 },
+];
+
+describe("planCascade()", () => {
+  it("shifts every transitive dependent by the slip, keeping durations", () => {
+    const shifts = planCascade(phases, links, "A", { start: d("2025-03-01"), end: d("2025-03-14") });
+    expect(shifts.map((s) => [s.phaseId, s.deltaDays])).toEqual([["B", 4], ["C", 4]]);
+    expect(shifts[0].newEstEnd).toEqual(d("2025-03-19"));
+    expect(shifts[0].newWorstStart).toEqual(d("2025-03-16"));
+    expect(shifts[1].newEstStart).toEqual(d("2025-03-21"));
+  });
+
+  it("lets existing float absorb part of the slip", () => {
+    const withGap = phases.map((p) => (p.id === "C" ? { ...p, estStart: d("2025-03-20"), estEnd: d("2025-03-23") } : p));
+    const shifts = planCascade(withGap, links, "A", { start: d("2025-03-01"), end: d("2025-03-12") });
+    // B moves 2 days (ends 3/17); C needs 3/19 and already starts 3/20
+    expect(shifts.map((s) => s.phaseId)).toEqual(["B"]);
+  });
+
+  it("anchors start-to-start links on the predecessor's start", () => {
+    const ss = [{ predecessorId: "A", successorId: "B", lagDays: -2, type: "SS" as const }];
+    // A now starts 3/12 → B may start 3/10, which it already does
+    expect(planCascade(phases, ss, "A", { start: d("2025-03-12"), end: d("2025-03-21") })).toEqual([]);
+    // A starts 3/15 → B must start 3/13
+    const shifts = planCascade(phases, ss, "A", { start: d("2025-03-15"), end: d("2025-03-24") });
+    expect(shifts.map((s) => [s.phaseId, s.deltaDays])).toEqual([["B", 3]]);
+  });
+
+  it("never pulls successors in when a phase finishes early", () => {
+    expect(planCascade(phases, links, "A", { start: d("2025-03-01"), end: d("2025-03-05") })).toEqual([]);
+  });
+});
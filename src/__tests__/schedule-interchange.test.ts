@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildMspdi, parseMspdi } from "@/lib/mspdi";
+import { buildXer, parseXer } from "@/lib/xer";
+import { planScheduleImport, type InterchangeSchedule } from "@/lib/schedule-interchange";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const schedule: InterchangeSchedule = {
+  name: "Riverside & Co",
+  tasks: [
+    { uid: "1", name: "Foundation", start: d("2025-03-01"), finish: d("2025-03-10"), actualStart: d("2025-03-02"), actualFinish: null, isMilestone: false, percentComplete: 40 },
+    { uid: "2", name: "Framing <east>", start: d("2025-03-08"), finish: d("2025-03-20"), actualStart: null, actualFinish: null, isMilestone: false, percentComplete: 0 },
+    { uid: "3", name: "Dry-in", start: d("2025-03-20"), finish: d("2025-03-20"), actualStart: null, actualFinish: null, isMilestone: true, percentComplete: 0 },
+  ],
+  links: [
+    { predecessorUid: "1", successorUid: "2", type: "SS", lagDays: 5 },
+    { predecessorUid: "2", successorUid: "3", type: "FS", lagDays: -2 },
+  ],
+};
+
+describe("schedule interchange", () => {
+  it("round-trips through MS Project XML", () => {
+    expect(parseMspdi(buildMspdi(schedule))).toEqual(schedule);
+  });
+
+  it("round-trips through Primavera P6 XER", () => {
+    const parsed = parseXer(buildXer(schedule));
+    expect(parsed.tasks).toEqual(schedule.tasks);
+    expect(parsed.links).toEqual(schedule.links);
+  });
+
+  it("skips MSPDI summary tasks and converts elapsed-day lag", () => {
+    const xml = `<Project xmlns="http://schemas.microsoft.com/project"><Title>X</Title><Tasks>
+      <Task><UID>0</UID><Name>X</Name><Start>2025-01-01T08:00:00</Start><Finish>2025-01-09T17:00:00</Finish></Task>
+      <Task><UID>5</UID><Name>Phase A</Name><Summary>1</Summary><Start>2025-01-01T08:00:00</Start><Finish>2025-01-09T17:00:00</Finish></Task>
+      <Task><UID>6</UID><Name>Pour</Name><Start>2025-01-01T08:00:00</Start><Finish>2025-01-03T17:00:00</Finish>
+        <Baseline><Start>2024-12-01T08:00:00</Start></Baseline></Task>
+      <Task><UID>7</UID><Name>Cure</Name><Start>2025-01-06T08:00:00</Start><Finish>2025-01-09T17:00:00</Finish>
+        <PredecessorLink><PredecessorUID>6</PredecessorUID><Type>1</Type><LinkLag>28800</LinkLag><LagFormat>8</LagFormat></PredecessorLink>
+        <PredecessorLink><PredecessorUID>5</PredecessorUID><Type>1</Type></PredecessorLink></Task>
+    </Tasks></Project>`;
+    const parsed = parseMspdi(xml);
+    expect(parsed.tasks.map((t) => [t.uid, t.start])).toEqual([["6", d("2025-01-01")], ["7", d("2025-01-06")]]);
+    expect(parsed.links).toEqual([{ predecessorUid: "6", successorUid: "7", type: "FS", lagDays: 2 }]);
+  });
+
+  it("matches tasks to phases by name and rejects cycles through kept dependencies", () => {
+    const plan = planScheduleImport(schedule, [{ id: "p1", name: " foundation " }, { id: "p9", name: "Punch list" }], []);
+    expect(plan.updates.map((u) => u.phaseId)).toEqual(["p1"]);
+    expect(plan.creates.map((t) => t.uid)).toEqual(["2", "3"]);
+    expect(plan.links[0]).toMatchObject({ predecessorKey: "p1", successorKey: "new:2" });
+
+    const looped = { ...schedule, links: [{ predecessorUid: "1", successorUid: "2", type: "FS" as const, lagDays: 0 }] };
+    const phases = [{ id: "p1", name: "Foundation" }, { id: "p2", name: "Framing <east>" }, { id: "p9", name: "Punch list" }];
+    // p2 → p9 → p1 already exists; importing p1 → p2 would close the loop
+    const deps = [{ dependsOnId: "p2", phaseId: "p9" }, { dependsOnId: "p9", phaseId: "p1" }];
+    expect(() => planScheduleImport(looped, phases, deps)).toThrow("cycle");
+  });
+});
@@ -70,6 +70,7 @@ vi.mock("@/lib/db", () => ({
       create: vi.fn(),
       createMany: vi.fn(),
       findUnique: vi.fn(),
+      findMany: vi.fn(),
       delete: vi.fn(),
       update: vi.fn(),
     },
@@ -84,9 +85,39 @@ vi.mock("@/lib/db", () => ({
     },
     checklistItem: {
       findUnique: vi.fn(),
+      findMany: vi.fn(),
       update: vi.fn(),
       count: vi.fn(),
     },
+    punchListItem: {
+      findMany: vi.fn(),
+    },
+    drawing: {
+      findMany: vi.fn(),
+    },
+    rFI: {
+      findMany: vi.fn(),
+    },
+    scheduleBaseline: {
+      findMany: vi.fn(),
+    },
+    earnedValueSnapshot: {
+      upsert: vi.fn(),
+    },
+    webhook: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    webhookDelivery: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    webhookDeliveryAttempt: {
+      create: vi.fn(),
+    },
     $transaction: vi.fn(),
   },
 }));
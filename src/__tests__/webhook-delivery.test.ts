@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { db } from "@/lib/db";
+import { attemptDelivery, MAX_WEBHOOK_ATTEMPTS, webhookBackoffMs } from "@/lib/webhook-delivery";
+
+const now = new Date("2026-10-18T12:00:00Z");
+
+const delivery = (attemptCount: number) => ({
+  id: "del-1",
+  webhookId: "wh-1",
+  event: "daily_log.created",
+  payload: { id: "log-1" },
+  attemptCount,
+  createdAt: now,
+  webhook: { id: "wh-1", url: "https://example.com/hook", secret: "s3cret", active: true },
+});
+
+/** The data written to the delivery row once the attempt has run. */
+const finalUpdate = () => vi.mocked(db.webhookDelivery.update).mock.calls.at(-1)?.[0].data;
+
+describe("webhook delivery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now, toFake: ["Date"] });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.webhookDelivery.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("backs off exponentially from 30 seconds, capped at 6 hours", () => {
+    expect(webhookBackoffMs(0)).toBe(30_000);
+    expect(webhookBackoffMs(1)).toBe(30_000);
+    expect(webhookBackoffMs(2)).toBe(60_000);
+    expect(webhookBackoffMs(4)).toBe(240_000);
+    expect(webhookBackoffMs(10)).toBe(15_360_000);
+    expect(webhookBackoffMs(11)).toBe(6 * 60 * 60 * 1000);
+    expect(webhookBackoffMs(50)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it("only sends after winning the lease on a due row", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.mocked(db.webhookDelivery.updateMany).mockResolvedValue({ count: 0 });
+
+    await attemptDelivery("del-1");
+
+    expect(db.webhookDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: "del-1", status: "PENDING", nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + 60_000) },
+    });
+    expect(db.webhookDelivery.findUnique).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("signs the body and marks a 2xx response delivered", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    vi.mocked(db.webhookDelivery.findUnique).mockResolvedValue(delivery(0) as never);
+
+    await attemptDelivery("del-1");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://example.com/hook");
+    expect(init.headers["X-Webhook-Signature"]).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(JSON.parse(init.body)).toMatchObject({ id: "del-1", event: "daily_log.created", data: { id: "log-1" } });
+    expect(finalUpdate()).toMatchObject({ attemptCount: 1, lastStatusCode: 200, status: "DELIVERED" });
+  });
+
+  it("reschedules a failed attempt with backoff", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("nope", { status: 503 })));
+    vi.mocked(db.webhookDelivery.findUnique).mockResolvedValue(delivery(2) as never);
+
+    await attemptDelivery("del-1");
+
+    expect(db.webhookDeliveryAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ deliveryId: "del-1", attemptNumber: 3, statusCode: 503, error: "HTTP 503", responseBody: "nope" }),
+    });
+    expect(finalUpdate()).toEqual({
+      attemptCount: 3,
+      lastStatusCode: 503,
+      lastError: "HTTP 503",
+      nextAttemptAt: new Date(now.getTime() + webhookBackoffMs(3)),
+    });
+  });
+
+  it("moves to FAILED after the last attempt", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("ECONNREFUSED")));
+    vi.mocked(db.webhookDelivery.findUnique).mockResolvedValue(delivery(MAX_WEBHOOK_ATTEMPTS - 1) as never);
+
+    await attemptDelivery("del-1");
+
+    expect(finalUpdate()).toEqual({
+      attemptCount: MAX_WEBHOOK_ATTEMPTS,
+      lastStatusCode: null,
+      lastError: "ECONNREFUSED",
+      status: "FAILED",
+    });
+    expect(db.webhook.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ lastStatusCode: 0 }) }));
+  });
+});
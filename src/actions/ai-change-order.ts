@@ -35,7 +35,8 @@ export async function analyzeChangeOrderImpact(
     });
 
     const otherCOs = await dbc.changeOrder.findMany({
-      where: { phaseId: co.phaseId, id: { not: changeOrderId } },
+      // Executed COs only — PCOs and CORs carry the same money until rolled up
+      where: { phaseId: co.phaseId, id: { not: changeOrderId }, type: "CO" },
       select: { title: true, amount: true, status: true },
     });
 
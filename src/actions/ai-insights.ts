@@ -451,8 +451,9 @@ export async function predictBudgetTrend(
       where: { projectId },
       select: { name: true, status: true, budget: true, actualCost: true, progress: true },
     }),
+    // Executed COs only — PCOs and CORs carry the same money until rolled up
     dbc.changeOrder.findMany({
-      where: { phase: { projectId } },
+      where: { phase: { projectId }, type: "CO" },
       select: { title: true, amount: true, status: true, createdAt: true },
       orderBy: { createdAt: "asc" },
     }).catch(() => []),
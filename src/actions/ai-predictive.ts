@@ -7,8 +7,10 @@
  * Phase 4 of the AI Strategy Roadmap — transforms Construction PM from a
  * reactive tracking tool into a proactive prediction engine.
  *
- * - Schedule Risk Prediction: Predict which phases are at risk of delay
- * - Budget Forecasting: Predict final project costs with confidence intervals
+ * - Schedule Risk Prediction: Predict which phases are at risk of delay, grounded in
+ *   CPM float from lib/critical-path.ts (the critical path is computed, not guessed)
+ * - Budget Forecasting: Predict final project costs with confidence intervals, anchored
+ *   on the earned-value EAC from lib/earned-value.ts (BAC ÷ CPI is computed, not guessed)
  * - Change Order Pattern Detection: Flag anomalous CO frequency / magnitude
  * - Weather Impact Analysis: Predict weather-related delays for outdoor phases (Sprint 35)
  */
@@ -16,6 +18,13 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { callAI } from "@/lib/ai";
+import {
+  computeCriticalPath,
+  phasesToActivities,
+  dependenciesToLinks,
+  type CpmResult,
+} from "@/lib/critical-path";
+import { loadProjectEvm, type EvmMetrics } from "@/lib/earned-value";
 
 const dbc = db as any;
 
@@ -43,7 +52,9 @@ interface ScheduleRiskResult {
 
 /**
  * Analyze all phases in a project to predict schedule risks.
- * Uses phase dates, progress, dependencies, and historical patterns.
+ * Uses phase dates, progress, dependencies, and CPM total float per phase.
+ * The returned `criticalPath` comes from the CPM engine; the AI only falls back
+ * to its own guess when the dependency graph is cyclic.
  */
 export async function predictScheduleRisks(
   projectId: string
@@ -64,6 +75,8 @@ export async function predictScheduleRisks(
         progress: true,
         estStart: true,
         estEnd: true,
+        actualStart: true,
+        actualEnd: true,
         isMilestone: true,
       },
     });
@@ -79,11 +92,19 @@ export async function predictScheduleRisks(
         phaseId: true,
         dependsOnId: true,
         lagDays: true,
+        type: true,
       },
     });
 
     const today = new Date().toISOString().split("T")[0];
 
+    let cpm: CpmResult | null = null;
+    try {
+      cpm = computeCriticalPath(phasesToActivities(phases), dependenciesToLinks(deps));
+    } catch {
+      cpm = null; // cyclic graph — let the model reason from dates alone
+    }
+
     const phaseData = phases.map((p: any) => ({
       name: p.name,
       status: p.status,
@@ -91,7 +112,14 @@ export async function predictScheduleRisks(
       estStart: p.estStart ? p.estStart.toISOString().split("T")[0] : null,
       estEnd: p.estEnd ? p.estEnd.toISOString().split("T")[0] : null,
       isMilestone: p.isMilestone,
+      ...(cpm && {
+        totalFloatDays: cpm.phases[p.id].totalFloat,
+        critical: cpm.phases[p.id].critical,
+      }),
     }));
+    const computedCriticalPath = cpm
+      ? cpm.criticalPath.map((id) => phases.find((p) => p.id === id)?.name || "Unknown")
+      : null;
 
     const depData = deps.map((d: any) => {
       const from = phases.find((p: any) => p.id === d.dependsOnId);
@@ -99,6 +127,7 @@ export async function predictScheduleRisks(
       return {
         from: from?.name || "Unknown",
         to: to?.name || "Unknown",
+        type: d.type,
         lagDays: d.lagDays,
       };
     });
@@ -111,6 +140,8 @@ export async function predictScheduleRisks(
 
 Today's date: ${today}
 
+Each phase may include "totalFloatDays" and "critical" from a Critical Path Method calculation. A phase with zero float delays the whole project if it slips by a single day; weigh low-float phases that are behind expected progress as the highest risk. Phases with ample float can absorb delay.
+
 Return a JSON object with:
 - overallRisk: "LOW", "MODERATE", "HIGH", or "CRITICAL"
 - riskScore: Integer 1-10 (10 = highest risk)
@@ -160,7 +191,7 @@ ${JSON.stringify(depData, null, 2)}`,
         overallRisk: result.overallRisk || "MODERATE",
         riskScore: result.riskScore || 5,
         atRiskPhases: result.atRiskPhases || [],
-        criticalPath: result.criticalPath || [],
+        criticalPath: computedCriticalPath ?? result.criticalPath ?? [],
         recommendations: result.recommendations || [],
       },
     };
@@ -198,12 +229,15 @@ interface BudgetForecastResult {
       note: string;
     }[];
     recommendations: string[];
+    /** Project earned value the forecast is anchored on (null with no phases). */
+    earnedValue: EvmMetrics | null;
   };
   error?: string;
 }
 
 /**
  * Forecast final project cost using budget data, change orders, and spending trends.
+ * The earned-value EAC is the baseline; the model explains deviations from it.
  */
 export async function forecastBudget(
   projectId: string
@@ -224,21 +258,15 @@ export async function forecastBudget(
       return { success: false, error: "Project not found" };
     }
 
-    // Fetch phases with budget data
-    const phases = await dbc.phase.findMany({
-      where: { projectId },
-      select: {
-        name: true,
-        status: true,
-        progress: true,
-      },
-    });
+    // Earned value per phase (baseline-planned), the anchor for the forecast
+    const evm = (await loadProjectEvm([projectId])).get(projectId) ?? null;
 
     // Fetch change orders
     let changeOrders: any[] = [];
     try {
+      // Executed COs only — PCOs and CORs carry the same money until rolled up
       changeOrders = await dbc.changeOrder.findMany({
-        where: { phase: { projectId } },
+        where: { phase: { projectId }, type: "CO" },
         select: {
           title: true,
           amount: true,
@@ -277,13 +305,17 @@ export async function forecastBudget(
       // Continue without pay apps
     }
 
-    const budgetData = phases.map((p: any) => ({
+    const budgetData = (evm?.phases ?? []).map((p) => ({
       phase: p.name,
-      status: p.status,
-      progress: p.progress,
-      estimated: null,
-      actual: null,
+      budgetAtCompletion: p.budgetAtCompletion,
+      plannedValue: p.plannedValue,
+      earnedValue: p.earnedValue,
+      actualCost: p.actualCost,
+      cpi: p.cpi,
+      spi: p.spi,
+      estimateAtCompletion: p.estimateAtCompletion,
     }));
+    const money = (n: number) => `$${Math.round(n).toLocaleString()}`;
 
     const coData = changeOrders.map((co: any) => ({
       title: co.title,
@@ -299,7 +331,7 @@ export async function forecastBudget(
           content: `You are a construction cost analyst. Analyze project budget data, change orders, and spending patterns to forecast the final project cost.
 
 Return a JSON object with:
-- projectedFinalCost: String like "$1,250,000" — estimated total cost at completion
+- projectedFinalCost: String like "$1,250,000" — estimated total cost at completion. Start from the earned-value EAC provided and only depart from it when change orders or billing data justify it; say why in forecastAccuracy
 - confidenceLevel: "HIGH", "MODERATE", or "LOW"
 - costVariance: String like "+$50,000 (4.2% over)" or "-$20,000 (1.6% under)"
 - forecastAccuracy: Brief note on data quality affecting forecast reliability
@@ -318,7 +350,12 @@ Project: ${project.name}
 Type: ${project.status || "Unknown"}
 Overall Budget: ${project.budget ? `$${Number(project.budget).toLocaleString()}` : "Not set"}
 
-Phase Budget Data:
+Earned Value (as of ${new Date().toISOString().split("T")[0]}):
+${evm ? `BAC ${money(evm.budgetAtCompletion)} · PV ${money(evm.plannedValue)} · EV ${money(evm.earnedValue)} · AC ${money(evm.actualCost)}
+CPI ${evm.cpi ?? "n/a"} · SPI ${evm.spi ?? "n/a"}
+EAC ${money(evm.estimateAtCompletion)} · ETC ${money(evm.estimateToComplete)} · VAC ${money(evm.varianceAtCompletion)}` : "No phases yet"}
+
+Phase Earned Value:
 ${JSON.stringify(budgetData, null, 2)}
 
 Change Orders (${changeOrders.length} total):
@@ -347,7 +384,7 @@ ${payApps.length > 0 ? `Total billed: $${payApps.reduce((s: number, p: any) => s
     return {
       success: true,
       forecast: {
-        projectedFinalCost: result.projectedFinalCost || "Unknown",
+        projectedFinalCost: result.projectedFinalCost || (evm ? money(evm.estimateAtCompletion) : "Unknown"),
         confidenceLevel: result.confidenceLevel || "LOW",
         costVariance: result.costVariance || "Unknown",
         forecastAccuracy: result.forecastAccuracy || "",
@@ -360,6 +397,7 @@ ${payApps.length > 0 ? `Total billed: $${payApps.reduce((s: number, p: any) => s
         },
         cashFlowProjection: result.cashFlowProjection || [],
         recommendations: result.recommendations || [],
+        earnedValue: evm,
       },
     };
   } catch (err: any) {
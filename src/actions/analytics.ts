@@ -21,6 +21,11 @@
  *   - phaseCompletionTrend:  completed phases per week over the last 8 weeks
  *   - budgetCurve:           cumulative planned vs actual cost (S-curve)
  *   - projectBudgets:        per-project budget vs actual (top 8 by budget size)
+ *   - earnedValue:           live EVM totals, the weekly PV / EV / AC / CPI / SPI
+ *                            trend from EarnedValueSnapshot rows in the range,
+ *                            and per-project CPI / SPI / EAC (lib/earned-value.ts)
+ *   - cashFlow:              monthly cash in / out projected across open
+ *                            projects (not completed or archived), lib/cash-flow.ts
  *
  * Type note: `AnalyticsData` and `AnalyticsDateRange` are defined in
  * `@/lib/analytics-types` to work around the "use server" export restriction.
@@ -28,6 +33,8 @@
 
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { deriveMetrics, loadProjectEvm, weekStart } from "@/lib/earned-value";
+import { combineCashFlows, loadProjectCashFlows } from "@/lib/cash-flow";
 
 // Types live in lib/ to satisfy the "use server" export restriction
 import type { AnalyticsData, AnalyticsDateRange } from "@/lib/analytics-types";
@@ -62,7 +69,7 @@ export async function getAnalytics(range: AnalyticsDateRange = "6m"): Promise<An
   eightWeeksAgo.setDate(eightWeeksAgo.getDate() - 56);
 
   // ── Batch all independent DB queries via Promise.all ──
-  const [projects, phases, assignments, recentPhases, recentDocs, completedPhases] =
+  const [projects, phases, assignments, recentPhases, recentDocs, completedPhases, evmByProject, evmSnapshots] =
     await Promise.all([
       // Project status distribution + per-project budgets and actual spend
       db.project.findMany({
@@ -110,6 +117,13 @@ export async function getAnalytics(range: AnalyticsDateRange = "6m"): Promise<An
         },
         select: { updatedAt: true },
       }),
+      // Earned value: live metrics per project + weekly snapshots in range
+      loadProjectEvm(projectIds),
+      db.earnedValueSnapshot.findMany({
+        where: { projectId: { in: projectIds }, weekOf: { gte: weekStart(rangeStart) } },
+        select: { projectId: true, weekOf: true, plannedValue: true, earnedValue: true, actualCost: true, budgetAtCompletion: true },
+        orderBy: { weekOf: "asc" },
+      }),
     ]);
 
   // ── Aggregate: project status distribution ──
@@ -238,6 +252,60 @@ export async function getAnalytics(range: AnalyticsDateRange = "6m"): Promise<An
     });
   }
 
+  // ── Aggregate: earned value (summed across projects, ratios derived after) ──
+  const liveEvm = [...evmByProject.values()];
+  const sumEvm = (rows: { budgetAtCompletion: number; plannedValue: number; earnedValue: number; actualCost: number }[]) =>
+    deriveMetrics(
+      rows.reduce((s, r) => s + r.budgetAtCompletion, 0),
+      rows.reduce((s, r) => s + r.plannedValue, 0),
+      rows.reduce((s, r) => s + r.earnedValue, 0),
+      rows.reduce((s, r) => s + r.actualCost, 0)
+    );
+  const weekKey = (d: Date) => d.toISOString().slice(0, 10);
+  const snapshotWeeks = new Map<string, { budgetAtCompletion: number; plannedValue: number; earnedValue: number; actualCost: number }[]>();
+  for (const s of evmSnapshots) {
+    const key = weekKey(s.weekOf);
+    snapshotWeeks.set(key, [
+      ...(snapshotWeeks.get(key) ?? []),
+      {
+        budgetAtCompletion: Number(s.budgetAtCompletion),
+        plannedValue: Number(s.plannedValue),
+        earnedValue: Number(s.earnedValue),
+        actualCost: Number(s.actualCost),
+      },
+    ]);
+  }
+  // The current week is always shown live, replacing its snapshot if taken
+  if (liveEvm.length > 0) snapshotWeeks.set(weekKey(weekStart(new Date())), liveEvm);
+  const currentEvm = liveEvm.length > 0 ? sumEvm(liveEvm) : null;
+  const earnedValue = {
+    current: currentEvm && currentEvm.budgetAtCompletion > 0 ? currentEvm : null,
+    trend: [...snapshotWeeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, rows]) => {
+        const m = sumEvm(rows);
+        return { week, plannedValue: m.plannedValue, earnedValue: m.earnedValue, actualCost: m.actualCost, cpi: m.cpi, spi: m.spi };
+      }),
+    projects: projects
+      .filter((p) => (evmByProject.get(p.id)?.budgetAtCompletion ?? 0) > 0)
+      .map((p) => ({ name: p.name.length > 20 ? p.name.slice(0, 20) + "…" : p.name, m: evmByProject.get(p.id)! }))
+      .sort((a, b) => b.m.budgetAtCompletion - a.m.budgetAtCompletion)
+      .slice(0, 8)
+      .map(({ name, m }) => ({
+        name,
+        cpi: m.cpi,
+        spi: m.spi,
+        estimateAtCompletion: m.estimateAtCompletion,
+        varianceAtCompletion: m.varianceAtCompletion,
+      })),
+  };
+
+  // ── Cash flow: open projects in the org, summed by month ──
+  const cashFlowByProject = await loadProjectCashFlows(
+    projects.filter((p) => p.status !== "COMPLETED" && p.status !== "ARCHIVED").map((p) => p.id)
+  );
+  const { months, totals } = combineCashFlows([...cashFlowByProject.values()]);
+
   return {
     projectStatusCounts,
     phaseStatusCounts,
@@ -247,5 +315,7 @@ export async function getAnalytics(range: AnalyticsDateRange = "6m"): Promise<An
     phaseCompletionTrend,
     budgetCurve,
     projectBudgets,
+    earnedValue,
+    cashFlow: { months, totals },
   };
 }
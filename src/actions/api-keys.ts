@@ -11,7 +11,7 @@
  * Security model:
  *   - The raw key is generated once and returned to the caller at creation time.
  *   - ONLY the SHA-256 hash of the full key is stored in the DB — the plaintext
- *     is never persisted. If a key is lost, it must be rotated (delete + recreate).
+ *     is never persisted. If a key is lost, it must be rotated (`rotateApiKey`).
  *   - A safe display hint (last 4 chars) is stored as `prefix` for the UI.
  *   - Expiry is optional; expired keys are rejected by `verifyApiKey` without
  *     being hard-deleted, so they remain auditable.
@@ -20,6 +20,19 @@
  *   `verifyApiKey(rawKey)` is called from the API route middleware. It is exported
  *   from this action file for co-location but is NOT a user-facing action — it
  *   takes the raw key string directly from the Authorization header.
+ *   The `/api/v1` routes use `resolveApiKey` from `lib/api-v1.ts` directly, since
+ *   they also need the key's `orgId` and owning user.
+ *
+ * Attribution: each key records the user who created it (`createdById`). Writes
+ * made through `/api/v1` are attributed to that user.
+ *
+ * Scopes: every key carries `<resource>:<read|write>` scopes (lib/api-scopes.ts)
+ * and an optional project allow-list. Keys issued before scoping existed have
+ * no scopes and are denied by `/api/v1` until edited via `updateApiKeyAccess`.
+ *
+ * Rotation: `rotateApiKey` issues a new secret with the same name, scopes,
+ * allow-list and owner, and shortens the old key's expiry to a grace window so
+ * integrations can switch over without downtime.
  */
 
 import { createHash, randomBytes } from "crypto";
@@ -27,6 +40,12 @@ import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db-types";
 import type { ApiKey } from "@/lib/db-types";
+import { resolveApiKey } from "@/lib/api-v1";
+import { normalizeScopes } from "@/lib/api-scopes";
+
+/** Default overlap during which a rotated-out key keeps working. */
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+const MAX_ROTATION_GRACE_HOURS = 24 * 30;
 
 // ── Auth helper ──
 
@@ -41,6 +60,47 @@ async function requireAuth() {
   return session;
 }
 
+/** Load a key and assert it belongs to the caller's org. */
+async function requireOrgKey(id: string, orgId: string) {
+  const key = await db.apiKey.findFirst({ where: { id, orgId } });
+  if (!key) throw new Error("API key not found");
+  return key;
+}
+
+/**
+ * Validate requested scopes and project allow-list.
+ * At least one scope is required; every project must belong to the org.
+ */
+async function validateAccess(orgId: string, scopes: string[], projectIds: string[]) {
+  const cleanScopes = normalizeScopes(scopes);
+  if (cleanScopes.length === 0) throw new Error("Select at least one scope");
+
+  const uniqueProjects = [...new Set(projectIds)];
+  if (uniqueProjects.length > 0) {
+    const found = await db.project.count({ where: { id: { in: uniqueProjects }, orgId } });
+    if (found !== uniqueProjects.length) throw new Error("Unknown project in allow-list");
+  }
+  return { scopes: cleanScopes, projectIds: uniqueProjects };
+}
+
+/**
+ * Generate a fresh key and its storage fields.
+ *   1. `randomBytes(32)` → 64 hex chars (256 bits of entropy)
+ *   2. Prepend `cpk_` → full key returned to caller
+ *   3. SHA-256 hash of the full key stored in DB as `keyHash`
+ *   4. Last 4 chars of the random portion stored as `prefix` for UI display
+ */
+function generateKey() {
+  const rawKey = randomBytes(32).toString("hex");
+  const fullKey = "cpk_" + rawKey;
+  return {
+    fullKey,
+    keyHash: createHash("sha256").update(fullKey).digest("hex"),
+    // Never expose the full key or hash in the UI
+    prefix: "cpk_..." + rawKey.slice(-4),
+  };
+}
+
 // ── Queries ──
 
 /**
@@ -54,40 +114,47 @@ export async function getApiKeys(): Promise<ApiKey[]> {
     where: { orgId: session.user.orgId! }, orderBy: { createdAt: "desc" } });
 }
 
+/** Org projects offered in the key allow-list picker. */
+export async function getApiKeyProjectOptions(): Promise<{ id: string; name: string }[]> {
+  const session = await requireAuth();
+  return db.project.findMany({
+    where: { orgId: session.user.orgId!, status: { not: "ARCHIVED" } },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+}
+
 // ── Mutations ──
 
 /**
- * Generate a new API key with the given display name and optional expiry.
- *
- * Key generation flow:
- *   1. `randomBytes(32)` → 64 hex chars (256 bits of entropy)
- *   2. Prepend `cpk_` → full key returned to caller
- *   3. SHA-256 hash of the full key stored in DB as `keyHash`
- *   4. Last 4 chars of the random portion stored as `prefix` for UI display
+ * Generate a new API key with the given display name, scopes and optional
+ * expiry / project allow-list. See `generateKey` for the key format.
  *
  * @returns `{ key, id }` — `key` is the plaintext; show it once and discard.
  *   The caller is responsible for presenting it to the user before navigating away.
  */
-export async function createApiKey(name: string, expiresAt?: string): Promise<{ key: string; id: string }> {
+export async function createApiKey(
+  name: string,
+  scopes: string[],
+  opts: { expiresAt?: string; projectIds?: string[] } = {}
+): Promise<{ key: string; id: string }> {
   const session = await requireAuth();
   if (!name.trim()) throw new Error("Name is required");
+  const orgId = session.user.orgId!;
+  const access = await validateAccess(orgId, scopes, opts.projectIds ?? []);
 
-  // Generate key: cpk_ prefix + 64 hex chars (32 random bytes)
-  const rawKey = randomBytes(32).toString("hex");
-  const fullKey = "cpk_" + rawKey;
-  const keyHash = createHash("sha256").update(fullKey).digest("hex");
-  // Store only a safe display hint — last 4 chars of the random suffix
-  // Never expose the full key or hash in the UI
-  const prefix = "cpk_..." + rawKey.slice(-4);
-
+  const { fullKey, keyHash, prefix } = generateKey();
   const record = await db.apiKey.create({
     data: {
-      orgId: session.user.orgId!,
+      orgId,
       name: name.trim(),
       keyHash,
       prefix,
-      expiresAt: expiresAt ? new Date(expiresAt) : null,
+      expiresAt: opts.expiresAt ? new Date(opts.expiresAt) : null,
       active: true,
+      scopes: access.scopes,
+      projectIds: access.projectIds,
+      createdById: session.user.id,
     },
   });
 
@@ -96,12 +163,81 @@ export async function createApiKey(name: string, expiresAt?: string): Promise<{
   return { key: fullKey, id: record.id };
 }
 
+/**
+ * Replace a key's scopes and project allow-list. Takes effect on the next request.
+ */
+export async function updateApiKeyAccess(
+  id: string,
+  scopes: string[],
+  projectIds: string[] = []
+): Promise<void> {
+  const session = await requireAuth();
+  const orgId = session.user.orgId!;
+  await requireOrgKey(id, orgId);
+  const access = await validateAccess(orgId, scopes, projectIds);
+
+  await db.apiKey.update({ where: { id }, data: access });
+  revalidatePath("/dashboard/settings");
+}
+
+/**
+ * Issue a new secret for an existing key. The replacement inherits the name,
+ * scopes, allow-list and expiry; the old key keeps working for `graceHours`
+ * (default 24, 0 = cut over immediately) and then expires.
+ *
+ * @returns `{ key, id }` for the new key — shown once, like `createApiKey`.
+ */
+export async function rotateApiKey(
+  id: string,
+  graceHours: number = DEFAULT_ROTATION_GRACE_HOURS
+): Promise<{ key: string; id: string }> {
+  const session = await requireAuth();
+  const old = await requireOrgKey(id, session.user.orgId!);
+  if (!old.active) throw new Error("Cannot rotate a revoked key");
+  if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+    throw new Error(`Grace period must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours`);
+  }
+
+  const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+  const { fullKey, keyHash, prefix } = generateKey();
+
+  const [record] = await db.$transaction([
+    db.apiKey.create({
+      data: {
+        orgId: old.orgId,
+        name: old.name,
+        keyHash,
+        prefix,
+        expiresAt: old.expiresAt,
+        active: true,
+        scopes: old.scopes,
+        projectIds: old.projectIds,
+        rotatedFromId: old.id,
+        // Keep attributing /api/v1 writes to the key's owner, not whoever rotated it
+        createdById: old.createdById,
+      },
+    }),
+    db.apiKey.update({
+      where: { id: old.id },
+      data: {
+        // Never extend an earlier expiry
+        expiresAt: old.expiresAt && old.expiresAt < graceEnd ? old.expiresAt : graceEnd,
+        ...(graceHours === 0 ? { active: false } : {}),
+      },
+    }),
+  ]);
+
+  revalidatePath("/dashboard/settings");
+  return { key: fullKey, id: record.id };
+}
+
 /**
  * Soft-revoke a key by setting `active = false`.
  * Prefer this over `deleteApiKey` so the key remains auditable in logs.
  */
 export async function revokeApiKey(id: string): Promise<void> {
-  await requireAuth();
+  const session = await requireAuth();
+  await requireOrgKey(id, session.user.orgId!);
   await db.apiKey.update({ where: { id }, data: { active: false } });
   revalidatePath("/dashboard/settings");
 }
@@ -111,7 +247,8 @@ export async function revokeApiKey(id: string): Promise<void> {
  * audit purposes. For temporary suspension, prefer `revokeApiKey` instead.
  */
 export async function deleteApiKey(id: string): Promise<void> {
-  await requireAuth();
+  const session = await requireAuth();
+  await requireOrgKey(id, session.user.orgId!);
   await db.apiKey.delete({ where: { id } });
   revalidatePath("/dashboard/settings");
 }
@@ -122,7 +259,7 @@ export async function deleteApiKey(id: string): Promise<void> {
  * Verify an incoming raw API key from the `Authorization: Bearer cpk_...` header.
  * Called by API route middleware — NOT a user-facing action.
  *
- * Verification flow:
+ * Verification flow (see `resolveApiKey`):
  *   1. Hash the incoming key with SHA-256
  *   2. Look up the hash in the DB (hash is unique index)
  *   3. Reject if: not found, inactive, or expired
@@ -132,11 +269,6 @@ export async function deleteApiKey(id: string): Promise<void> {
  * @returns `true` if the key is valid, active, and unexpired; `false` otherwise.
  */
 export async function verifyApiKey(rawKey: string): Promise<boolean> {
-  const keyHash = createHash("sha256").update(rawKey).digest("hex");
-  const record = await db.apiKey.findUnique({ where: { keyHash } });
-  if (!record || !record.active) return false;
-  if (record.expiresAt && new Date(record.expiresAt) < new Date()) return false;
-  // Update lastUsedAt — fire-and-forget; never block the request on this write
-  db.apiKey.update({ where: { id: record.id }, data: { lastUsedAt: new Date() } }).catch(() => {});
-  return true;
+  // Lookup, expiry check and the fire-and-forget lastUsedAt write live in lib/api-v1
+  return (await resolveApiKey(rawKey)) !== null;
 }
@@ -0,0 +1,155 @@
+"use server";
+
+/**
+ * @file actions/approval-chains.ts
+ * @description Server actions for configuring the org's change order approval
+ * chains (routing rules in lib/change-order-approvals.ts).
+ *
+ * A chain is saved as a whole — name, minimum amount, active flag and its
+ * ordered steps — replacing the previous steps. Change orders already in
+ * flight keep the steps they were submitted with.
+ *
+ * All actions require the `manage phase` permission (ADMIN / PROJECT_MANAGER)
+ * and are scoped to the caller's organization.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { can } from "@/lib/permissions";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const APPROVER_ROLES = ["ADMIN", "PROJECT_MANAGER", "CONTRACTOR", "STAKEHOLDER"] as const;
+
+const StepSchema = z
+  .object({
+    stage: z.number().int().min(1).max(20),
+    name: z.string().trim().min(1).max(100),
+    approverRole: z.enum(APPROVER_ROLES).nullable(),
+    approverId: z.string().min(1).nullable(),
+    minAmount: z.number().min(0).nullable(),
+  })
+  .refine((s) => (s.approverRole === null) !== (s.approverId === null), {
+    message: "Each step needs either an approver or a role",
+  });
+
+const ChainSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1).max(100),
+  minAmount: z.number().min(0),
+  active: z.boolean(),
+  steps: z.array(StepSchema).min(1, "Add at least one step").max(20),
+});
+
+export type ApprovalChainInput = z.input<typeof ChainSchema>;
+
+export interface ApprovalChainSummary {
+  id: string;
+  name: string;
+  minAmount: number;
+  active: boolean;
+  steps: {
+    stage: number;
+    name: string;
+    approverRole: (typeof APPROVER_ROLES)[number] | null;
+    approverId: string | null;
+    approverName: string | null;
+    minAmount: number | null;
+  }[];
+}
+
+// ── Helpers ──
+
+async function requireManager() {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  if (!can(session.user.role || "VIEWER", "manage", "phase")) throw new Error("Forbidden");
+  return session;
+}
+
+// ── Queries ──
+
+/** All approval chains for the org, lowest amount first. */
+export async function getApprovalChains(): Promise<ApprovalChainSummary[]> {
+  const session = await requireManager();
+  const chains = await db.approvalChain.findMany({
+    where: { orgId: session.user.orgId! },
+    include: {
+      steps: {
+        include: { approver: { select: { name: true, email: true } } },
+        orderBy: { stage: "asc" },
+      },
+    },
+    orderBy: { minAmount: "asc" },
+  });
+  return chains.map((c) => ({
+    id: c.id,
+    name: c.name,
+    minAmount: Number(c.minAmount),
+    active: c.active,
+    steps: c.steps.map((s) => ({
+      stage: s.stage,
+      name: s.name,
+      approverRole: s.approverRole as ApprovalChainSummary["steps"][number]["approverRole"],
+      approverId: s.approverId,
+      approverName: s.approver ? s.approver.name || s.approver.email : null,
+      minAmount: s.minAmount === null ? null : Number(s.minAmount),
+    })),
+  }));
+}
+
+/** Org users that can be named as a step approver. */
+export async function getApprovalChainApprovers() {
+  const session = await requireManager();
+  return db.user.findMany({
+    where: { orgId: session.user.orgId!, role: { not: "VIEWER" } },
+    select: { id: true, name: true, email: true, role: true },
+    orderBy: { name: "asc" },
+  });
+}
+
+// ── Mutations ──
+
+/**
+ * Create or update a chain. Stages are renumbered 1..n in order so gaps left
+ * by removed steps do not matter.
+ *
+ * @throws If a named approver is not in the org.
+ */
+export async function saveApprovalChain(data: ApprovalChainInput) {
+  const session = await requireManager();
+  const orgId = session.user.orgId!;
+  const parsed = ChainSchema.parse(data);
+
+  const userIds = [...new Set(parsed.steps.map((s) => s.approverId).filter((id): id is string => !!id))];
+  if (userIds.length > 0) {
+    const found = await db.user.count({ where: { id: { in: userIds }, orgId } });
+    if (found !== userIds.length) throw new Error("Approver not found");
+  }
+
+  const stageNumbers = [...new Set(parsed.steps.map((s) => s.stage))].sort((a, b) => a - b);
+  const steps = parsed.steps.map((s) => ({ ...s, stage: stageNumbers.indexOf(s.stage) + 1 }));
+  const fields = { name: parsed.name, minAmount: parsed.minAmount, active: parsed.active };
+
+  if (parsed.id) {
+    const existing = await db.approvalChain.findFirst({ where: { id: parsed.id, orgId }, select: { id: true } });
+    if (!existing) throw new Error("Approval chain not found");
+    await db.$transaction([
+      db.approvalChainStep.deleteMany({ where: { chainId: existing.id } }),
+      db.approvalChain.update({ where: { id: existing.id }, data: { ...fields, steps: { create: steps } } }),
+    ]);
+  } else {
+    await db.approvalChain.create({ data: { ...fields, orgId, steps: { create: steps } } });
+  }
+  revalidatePath("/dashboard/settings");
+}
+
+/** Delete a chain. Change orders already routed through it are unaffected. */
+export async function deleteApprovalChain(chainId: string) {
+  const session = await requireManager();
+  const { count } = await db.approvalChain.deleteMany({ where: { id: chainId, orgId: session.user.orgId! } });
+  if (count === 0) throw new Error("Approval chain not found");
+  revalidatePath("/dashboard/settings");
+}
@@ -0,0 +1,206 @@
+"use server";
+
+/**
+ * @file actions/baselines.ts
+ * @description Server actions for schedule baselines — named snapshots of a
+ * project's phase dates and costs.
+ *
+ * Phases only hold the current plan, so dragging a bar on the Gantt overwrites
+ * the original dates. A baseline copies every phase's estimated/worst-case dates
+ * and costs into ScheduleBaselinePhase rows so the timeline can overlay the
+ * original plan as ghost bars and report variance against it
+ * (lib/baseline-variance.ts).
+ *
+ * Snapshot rows keep the phase name and ID but are not foreign keys — a baseline
+ * still shows phases that were deleted after it was taken.
+ *
+ * Saving or deleting a baseline requires ADMIN or PROJECT_MANAGER (canManagePhase).
+ * All Decimal costs are coerced to Number before being returned.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canManagePhase } from "@/lib/permissions";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const CreateBaselineSchema = z.object({
+  projectId: z.string().min(1),
+  name: z.string().trim().min(1).max(100),
+});
+
+/** Baseline summary shown in the Gantt baseline picker. */
+export interface BaselineSummary {
+  id: string;
+  name: string;
+  createdAt: Date;
+  createdBy: string | null;
+  phaseCount: number;
+}
+
+/** One phase as it stood when the baseline was saved. */
+export interface BaselinePhaseSnapshot {
+  phaseId: string;
+  name: string;
+  isMilestone: boolean;
+  estStart: Date;
+  estEnd: Date;
+  worstStart: Date | null;
+  worstEnd: Date | null;
+  estimatedCost: number | null;
+  actualCost: number | null;
+}
+
+// ── Mutations ──
+
+/**
+ * Snapshot every phase of a project into a new named baseline.
+ *
+ * @param data.projectId - Project to snapshot.
+ * @param data.name      - Label shown in the baseline picker (e.g. "Contract schedule").
+ * @returns The created baseline summary.
+ */
+export async function createScheduleBaseline(data: z.infer<typeof CreateBaselineSchema>): Promise<BaselineSummary> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  if (!canManagePhase(session.user.role)) throw new Error("Forbidden");
+
+  const parsed = CreateBaselineSchema.parse(data);
+  const project = await db.project.findFirst({
+    where: { id: parsed.projectId, orgId: session.user.orgId! },
+    select: { id: true },
+  });
+  if (!project) throw new Error("Project not found");
+
+  const phases = await db.phase.findMany({
+    where: { projectId: parsed.projectId },
+    select: {
+      id: true,
+      name: true,
+      isMilestone: true,
+      estStart: true,
+      estEnd: true,
+      worstStart: true,
+      worstEnd: true,
+      estimatedCost: true,
+      actualCost: true,
+    },
+    orderBy: { sortOrder: "asc" },
+  });
+  if (phases.length === 0) throw new Error("Project has no phases to baseline");
+
+  const baseline = await db.scheduleBaseline.create({
+    data: {
+      name: parsed.name,
+      projectId: parsed.projectId,
+      createdById: session.user.id!,
+      phases: {
+        create: phases.map(({ id, ...p }) => ({ phaseId: id, ...p })),
+      },
+    },
+  });
+
+  // Fire-and-forget activity log
+  db.activityLog
+    .create({
+      data: {
+        orgId: session.user.orgId!,
+        action: "BASELINE_SAVED",
+        message: `Saved schedule baseline "${parsed.name}"`,
+        projectId: parsed.projectId,
+        userId: session.user.id,
+        data: { baselineId: baseline.id, phaseCount: phases.length },
+      },
+    })
+    .catch(() => {});
+
+  revalidatePath(`/dashboard/projects/${parsed.projectId}/timeline`);
+  return {
+    id: baseline.id,
+    name: baseline.name,
+    createdAt: baseline.createdAt,
+    createdBy: session.user.name ?? null,
+    phaseCount: phases.length,
+  };
+}
+
+/**
+ * Delete a baseline and its snapshot rows.
+ *
+ * @param baselineId - Baseline to remove.
+ */
+export async function deleteScheduleBaseline(baselineId: string) {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  if (!canManagePhase(session.user.role)) throw new Error("Forbidden");
+
+  const baseline = await db.scheduleBaseline.findFirst({
+    where: { id: baselineId, project: { orgId: session.user.orgId! } },
+    select: { id: true, projectId: true },
+  });
+  if (!baseline) throw new Error("Baseline not found");
+
+  await db.scheduleBaseline.delete({ where: { id: baseline.id } });
+
+  revalidatePath(`/dashboard/projects/${baseline.projectId}/timeline`);
+  return { success: true };
+}
+
+// ── Queries ──
+
+/**
+ * List a project's baselines, newest first.
+ *
+ * @param projectId - Project whose baselines to list.
+ */
+export async function getScheduleBaselines(projectId: string): Promise<BaselineSummary[]> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+
+  const baselines = await db.scheduleBaseline.findMany({
+    where: { projectId, project: { orgId: session.user.orgId! } },
+    include: {
+      createdBy: { select: { name: true } },
+      _count: { select: { phases: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return baselines.map((b) => ({
+    id: b.id,
+    name: b.name,
+    createdAt: b.createdAt,
+    createdBy: b.createdBy.name,
+    phaseCount: b._count.phases,
+  }));
+}
+
+/**
+ * Fetch the phase snapshots of one baseline (for the Gantt ghost-bar overlay).
+ *
+ * @param baselineId - Baseline to load.
+ */
+export async function getScheduleBaselinePhases(baselineId: string): Promise<BaselinePhaseSnapshot[]> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+
+  const baseline = await db.scheduleBaseline.findFirst({
+    where: { id: baselineId, project: { orgId: session.user.orgId! } },
+    select: { phases: true },
+  });
+  if (!baseline) throw new Error("Baseline not found");
+
+  return baseline.phases.map((p) => ({
+    phaseId: p.phaseId,
+    name: p.name,
+    isMilestone: p.isMilestone,
+    estStart: p.estStart,
+    estEnd: p.estEnd,
+    worstStart: p.worstStart,
+    worstEnd: p.worstEnd,
+    estimatedCost: p.estimatedCost == null ? null : Number(p.estimatedCost),
+    actualCost: p.actualCost == null ? null : Number(p.actualCost),
+  }));
+}
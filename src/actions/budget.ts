@@ -17,12 +17,26 @@
  *   - adjustedBudget   = projectBudget + totalApprovedCOs
  *   - variance         = totalActual - totalEstimated (positive = over budget)
  *   - adjustedEstimate (per phase) = estimatedCost + phase-level approved COs
+ *   - approvedCOsByCategory = approved CO line items rolled up by cost category
+ *     (labor, material, …), with markup reported separately
+ *   - pendingExposure  = PCOs and CORs not yet executed, plus COs awaiting
+ *     approval (lib/change-order-pricing.ts `changeOrderExposure`)
+ *   - scheduleImpactDays = days approved COs added to each phase's finish
+ *   - committedCost    = value of approved subcontracts and purchase orders
+ *     (lib/commitments.ts), shown next to estimated and actual
  */
 
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { can, verifyProjectAccess, verifyProjectAccessViaPhase } from "@/lib/permissions";
 import { revalidatePath } from "next/cache";
+import { summarizeCommitment } from "@/lib/commitments";
+import {
+  changeOrderExposure,
+  emptyCategoryTotals,
+  priceChangeOrder,
+  type CostCategory,
+} from "@/lib/change-order-pricing";
 
 // ── Mutations ──
 
@@ -101,10 +115,18 @@ export async function updatePhaseCosts(
  *   - projectBudget:    raw budget figure (null if unset)
  *   - totalEstimated:   sum of all phase estimatedCost values
  *   - totalActual:      sum of all phase actualCost values
- *   - totalApprovedCOs: sum of all APPROVED change order amounts across phases
+ *   - totalApprovedCOs: sum of all APPROVED executed change order amounts
+ *                       across phases (PCOs and CORs are not counted)
+ *   - pendingExposure:  value of PCOs, CORs and COs not yet executed
  *   - adjustedBudget:   projectBudget + totalApprovedCOs (null if no budget set)
  *   - variance:         totalActual - totalEstimated (0 if no estimates exist)
- *   - phases:           per-phase breakdown with adjustedEstimate per phase
+ *   - approvedCOsByCategory: approved CO cost per category plus `markup`
+ *     (overhead + profit); COs without line items count as OTHER
+ *   - totalScheduleImpactDays: sum of approved COs' schedule impact
+ *   - totalCommitted:   committed cost of approved/closed commitments
+ *   - phases:           per-phase breakdown with adjustedEstimate,
+ *                       pendingExposure, scheduleImpactDays and
+ *                       committedCost per phase
  *
  * Note: Prisma returns Decimal fields as opaque objects — all cost values are
  * explicitly coerced to Number before being returned to avoid serialization
@@ -132,8 +154,20 @@ export async function getProjectBudgetSummary(projectId: string) {
           estimatedCost: true,
           actualCost: true,
           changeOrders: {
-            where: { status: "APPROVED" }, // Only approved COs affect budget
-            select: { id: true, amount: true, title: true, number: true },
+            where: { status: { not: "REJECTED" } }, // Approved COs and pending exposure
+            select: {
+              id: true, amount: true, title: true, number: true, type: true, status: true, parentId: true,
+              overheadPercent: true, profitPercent: true, scheduleImpactDays: true,
+              lineItems: { select: { category: true, quantity: true, unitCost: true } },
+            },
+          },
+          commitments: {
+            where: { status: { in: ["APPROVED", "CLOSED"] } },
+            select: {
+              status: true, originalAmount: true,
+              changes: { select: { amount: true, status: true } },
+              invoices: { select: { amount: true } },
+            },
           },
         },
         orderBy: { sortOrder: "asc" },
@@ -147,9 +181,30 @@ export async function getProjectBudgetSummary(projectId: string) {
   type PhaseRow = {
     id: string; name: string; status: string;
     estimatedCost: unknown; actualCost: unknown;
-    changeOrders: { id: string; amount: unknown; title: string; number: string }[];
+    changeOrders: {
+      id: string; amount: unknown; title: string; number: string;
+      type: "PCO" | "COR" | "CO"; status: "PENDING" | "APPROVED" | "REJECTED"; parentId: string | null;
+      overheadPercent: unknown; profitPercent: unknown; scheduleImpactDays: number;
+      lineItems: { category: CostCategory; quantity: unknown; unitCost: unknown }[];
+    }[];
+    commitments: {
+      status: "APPROVED" | "CLOSED";
+      originalAmount: unknown;
+      changes: { amount: unknown; status: "PENDING" | "APPROVED" | "REJECTED" }[];
+      invoices: { amount: unknown }[];
+    }[];
   };
   const phases = (project as unknown as { phases: PhaseRow[] }).phases;
+  type CORow = PhaseRow["changeOrders"][number];
+
+  // Only approved executed COs affect the budget; the rest is exposure
+  const exposure = (p: PhaseRow) =>
+    changeOrderExposure(p.changeOrders.map((co) => ({ ...co, amount: co.amount ? Number(co.amount) : null })));
+  const isExecuted = (co: CORow) => co.type === "CO" && co.status === "APPROVED";
+  const childrenOf = new Map<string, CORow[]>();
+  for (const co of phases.flatMap((p) => p.changeOrders)) {
+    if (co.parentId) childrenOf.set(co.parentId, [...(childrenOf.get(co.parentId) ?? []), co]);
+  }
 
   // Aggregate totals across all phases
   const totalEstimated = phases.reduce(
@@ -160,17 +215,46 @@ export async function getProjectBudgetSummary(projectId: string) {
     (sum: number, p: PhaseRow) => sum + (p.actualCost ? Number(p.actualCost) : 0),
     0
   );
-  const totalApprovedCOs = phases.reduce(
-    (sum: number, p: PhaseRow) =>
-      sum +
-      p.changeOrders.reduce(
-        (s: number, co) => s + (co.amount ? Number(co.amount) : 0),
-        0
-      ),
-    0
-  );
+  const totalApprovedCOs = phases.reduce((sum: number, p: PhaseRow) => sum + exposure(p).approved, 0);
+  const pendingExposure = phases.reduce((sum: number, p: PhaseRow) => sum + exposure(p).pending, 0);
   const projectBudget = project.budget ? Number(project.budget) : null;
 
+  // Split approved CO value by cost category. Rolled-up COs are priced from
+  // the line items of the PCOs beneath them; lump sums count as OTHER.
+  const approvedCOsByCategory = { ...emptyCategoryTotals(), markup: 0 };
+  const addToCategories = (co: CORow): void => {
+    const children = childrenOf.get(co.id) ?? [];
+    if (co.lineItems.length === 0 && children.length > 0) return children.forEach(addToCategories);
+    if (co.lineItems.length === 0) {
+      approvedCOsByCategory.OTHER += co.amount ? Number(co.amount) : 0;
+      return;
+    }
+    const price = priceChangeOrder(
+      co.lineItems.map((l) => ({ category: l.category, quantity: Number(l.quantity), unitCost: Number(l.unitCost) })),
+      co.overheadPercent != null ? Number(co.overheadPercent) : null,
+      co.profitPercent != null ? Number(co.profitPercent) : null
+    );
+    for (const [category, value] of Object.entries(price.byCategory) as [CostCategory, number][]) {
+      approvedCOsByCategory[category] += value;
+    }
+    approvedCOsByCategory.markup += price.overhead + price.profit;
+  };
+  phases.flatMap((p) => p.changeOrders).filter(isExecuted).forEach(addToCategories);
+  const phaseScheduleImpact = (p: PhaseRow) =>
+    p.changeOrders.filter(isExecuted).reduce((s, co) => s + co.scheduleImpactDays, 0);
+  const phaseCommitted = (p: PhaseRow) =>
+    p.commitments.reduce(
+      (s, c) =>
+        s +
+        summarizeCommitment({
+          status: c.status,
+          originalAmount: Number(c.originalAmount),
+          changes: c.changes.map((ch) => ({ amount: Number(ch.amount), status: ch.status })),
+          invoices: c.invoices.map((i) => ({ amount: Number(i.amount) })),
+        }).committed,
+      0
+    );
+
   return {
     projectBudget,
     totalEstimated,
@@ -178,11 +262,12 @@ export async function getProjectBudgetSummary(projectId: string) {
     totalApprovedCOs,
     adjustedBudget: projectBudget !== null ? projectBudget + totalApprovedCOs : null,
     variance: totalEstimated > 0 ? totalActual - totalEstimated : 0,
+    pendingExposure,
+    approvedCOsByCategory,
+    totalScheduleImpactDays: phases.reduce((s, p) => s + phaseScheduleImpact(p), 0),
+    totalCommitted: phases.reduce((s, p) => s + phaseCommitted(p), 0),
     phases: phases.map((p: PhaseRow) => {
-      const phaseApprovedCOs = p.changeOrders.reduce(
-        (s: number, co) => s + (co.amount ? Number(co.amount) : 0),
-        0
-      );
+      const { approved: phaseApprovedCOs, pending: phasePendingExposure } = exposure(p);
       return {
         id: p.id,
         name: p.name,
@@ -192,6 +277,9 @@ export async function getProjectBudgetSummary(projectId: string) {
         approvedCOs: phaseApprovedCOs,
         // Adjusted estimate = base estimate + approved change orders for this phase
         adjustedEstimate: (p.estimatedCost ? Number(p.estimatedCost) : 0) + phaseApprovedCOs,
+        pendingExposure: phasePendingExposure,
+        scheduleImpactDays: phaseScheduleImpact(p),
+        committedCost: phaseCommitted(p),
       };
     }),
   };
@@ -0,0 +1,179 @@
+"use server";
+
+/**
+ * @file actions/calendar-feeds.ts
+ * @description Server actions for subscribable iCalendar (.ics) feeds.
+ *
+ * A feed publishes inspections, phase milestones, punch-list due dates and
+ * RFI/submittal due dates to phone and desktop calendars via
+ * `GET /api/calendar/:token.ics` (see lib/ical.ts). Calendar apps cannot sign
+ * in, so the URL itself is the credential — tokens follow the ClientToken
+ * pattern (client-tokens.ts):
+ *   - 24-byte random hex strings generated with `crypto.randomBytes`.
+ *   - Stored as SHA-256 hashes only — the raw token (and so the feed URL) is
+ *     returned ONCE at creation.
+ *   - Soft-revokable (`active: false`) or hard-deletable.
+ *
+ * Feeds belong to the user who created them and are listed on their settings
+ * page. A feed with `projectId` covers one project; without it, every project
+ * the owner is a member of. Membership is re-checked on every fetch, so
+ * removing someone from a project also removes it from their feeds.
+ */
+
+import { revalidatePath } from "next/cache";
+import { randomBytes, createHash } from "crypto";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { z } from "zod";
+
+// ── Zod Schema ──
+
+const CreateFeedSchema = z.object({
+  label: z.string().trim().min(1).max(200),
+  projectId: z.string().min(1).optional(), // omit for a feed across all of the user's projects
+});
+
+/** Feed row shown in the settings list (token hash omitted). */
+export interface CalendarFeedSummary {
+  id: string;
+  label: string;
+  projectId: string | null;
+  projectName: string | null;
+  active: boolean;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+}
+
+// ── Helpers ──
+
+/** SHA-256 of the raw token — the only form that is persisted. */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function requireAuth() {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthenticated");
+  return session;
+}
+
+/** Load a feed owned by the caller or throw. */
+async function requireOwnFeed(feedId: string) {
+  const session = await requireAuth();
+  const feed = await db.calendarFeed.findFirst({ where: { id: feedId, userId: session.user.id } });
+  if (!feed) throw new Error("Calendar feed not found");
+  return feed;
+}
+
+// ── Queries ──
+
+/**
+ * List the caller's calendar feeds, newest first.
+ * Returns [] for unauthenticated callers (safe for server components).
+ */
+export async function getCalendarFeeds(): Promise<CalendarFeedSummary[]> {
+  const session = await auth();
+  if (!session?.user?.id) return [];
+  const feeds = await db.calendarFeed.findMany({
+    where: { userId: session.user.id, orgId: session.user.orgId! },
+    include: { project: { select: { name: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+  return feeds.map((f) => ({
+    id: f.id,
+    label: f.label,
+    projectId: f.projectId,
+    projectName: f.project?.name ?? null,
+    active: f.active,
+    lastAccessedAt: f.lastAccessedAt,
+    createdAt: f.createdAt,
+  }));
+}
+
+/** Projects the caller can scope a feed to (those they are a member of). */
+export async function getCalendarFeedProjectOptions(): Promise<{ id: string; name: string }[]> {
+  const session = await auth();
+  if (!session?.user?.id) return [];
+  return db.project.findMany({
+    where: {
+      orgId: session.user.orgId!,
+      status: { not: "ARCHIVED" },
+      members: { some: { userId: session.user.id } },
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+}
+
+// ── Mutations ──
+
+/**
+ * Create a calendar feed for the caller.
+ *
+ * @param data.label     - Display name (e.g. "My iPhone").
+ * @param data.projectId - Limit the feed to one project; omit for all of the
+ *                         caller's projects.
+ * @returns The feed ID and the raw token — show the feed URL once; it cannot
+ *   be recovered later.
+ * @throws "Not a member of this project" if scoped to a project the caller
+ *   cannot see.
+ */
+export async function createCalendarFeed(data: {
+  label: string;
+  projectId?: string;
+}): Promise<{ id: string; rawToken: string }> {
+  const validated = CreateFeedSchema.parse(data);
+  const session = await requireAuth();
+
+  if (validated.projectId) {
+    const member = await db.projectMember.findFirst({
+      where: {
+        projectId: validated.projectId,
+        userId: session.user.id,
+        project: { orgId: session.user.orgId! },
+      },
+    });
+    if (!member) throw new Error("Not a member of this project");
+  }
+
+  const rawToken = randomBytes(24).toString("hex");
+  const feed = await db.calendarFeed.create({
+    data: {
+      orgId: session.user.orgId!,
+      userId: session.user.id,
+      projectId: validated.projectId ?? null,
+      token: hashToken(rawToken), // Only the hash is persisted
+      label: validated.label,
+    },
+  });
+
+  revalidatePath("/dashboard/settings");
+  return { id: feed.id, rawToken };
+}
+
+/**
+ * Soft-revoke one of the caller's feeds. Subscribed calendars stop receiving
+ * updates (the feed URL returns 404); the row is kept so it still shows as
+ * revoked in settings.
+ */
+export async function revokeCalendarFeed(feedId: string): Promise<void> {
+  const feed = await requireOwnFeed(feedId);
+  await db.calendarFeed.update({ where: { id: feed.id }, data: { active: false } });
+  revalidatePath("/dashboard/settings");
+}
+
+/** Permanently delete one of the caller's feeds. */
+export async function deleteCalendarFeed(feedId: string): Promise<void> {
+  const feed = await requireOwnFeed(feedId);
+  await db.calendarFeed.delete({ where: { id: feed.id } });
+  revalidatePath("/dashboard/settings");
+}
+
+/**
+ * Resolve a raw feed token from the feed URL.
+ *
+ * @returns The active feed, or null when the token is unknown or revoked.
+ */
+export async function verifyCalendarFeed(rawToken: string) {
+  return db.calendarFeed.findFirst({ where: { token: hashToken(rawToken), active: true } });
+}
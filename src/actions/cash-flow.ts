@@ -0,0 +1,51 @@
+"use server";
+
+/**
+ * @file actions/cash-flow.ts
+ * @description Server actions for a project's monthly cash-flow projection and
+ * the payment terms it uses.
+ *
+ * The projection itself is computed in lib/cash-flow.ts; the org-wide roll-up
+ * is part of the analytics payload (actions/analytics.ts) and both download as
+ * XLSX from `GET /api/export/cash-flow`.
+ *
+ * Reading requires project membership; changing the payment lags requires
+ * ADMIN or PROJECT_MANAGER (can manage phase).
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { can, verifyProjectAccess } from "@/lib/permissions";
+import { loadProjectCashFlows, type CashFlowProjection } from "@/lib/cash-flow";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+const TermsSchema = z.object({
+  receivableLagDays: z.number().int().min(0).max(365),
+  payableLagDays: z.number().int().min(0).max(365),
+});
+
+/** Monthly cash in / out for one project, or null when it has no phases. */
+export async function getProjectCashFlow(projectId: string): Promise<CashFlowProjection | null> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  await verifyProjectAccess(session.user.id, projectId, session.user.role);
+
+  const flows = await loadProjectCashFlows([projectId]);
+  return flows.get(projectId) ?? null;
+}
+
+/**
+ * Set how long the owner takes to pay a billing and how long the project takes
+ * to pay its vendors, in days.
+ */
+export async function updateCashFlowTerms(projectId: string, terms: z.input<typeof TermsSchema>) {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  const projectRole = await verifyProjectAccess(session.user.id, projectId, session.user.role);
+  if (!can(projectRole, "manage", "phase")) throw new Error("Forbidden");
+
+  const data = TermsSchema.parse(terms);
+  await db.project.update({ where: { id: projectId }, data });
+  revalidatePath(`/dashboard/projects/${projectId}`);
+}
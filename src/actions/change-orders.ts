@@ -7,45 +7,292 @@
  * Change orders track scope or cost modifications to a phase. They follow a
  * three-state approval workflow: PENDING → APPROVED | REJECTED.
  *
+ * Lifecycle (`type`): a PCO (potential change order) is raised from an RFI or
+ * a field issue and priced internally. Open PCOs are bundled into a COR
+ * (change order request) to the owner; the owner's decision on the COR is
+ * copied to its PCOs. Owner-approved CORs are rolled into an executed CO.
+ * Rolled-up records point at their parent via `parentId`; a rejected CO
+ * releases its CORs so they can be executed again. Standalone COs (the
+ * default type) skip the first two steps. Approval chains and schedule
+ * impact apply to executed COs only.
+ *
+ * Approval chains: when the org has an active chain that applies to the CO's
+ * amount (see lib/change-order-approvals.ts and actions/approval-chains.ts),
+ * submission copies the chain into ChangeOrderApproval rows and the CO stays
+ * PENDING until every stage approves, or any step rejects. Without a chain a
+ * PM or admin decides in one step, as before. Every submission, decision,
+ * delegation and skipped step is recorded as a ChangeOrderApprovalEvent.
+ *
  * Financial impact: approved change orders are included in the budget summary
  * (see budget.ts `getProjectBudgetSummary`) as `totalApprovedCOs`, which
  * adjusts the effective project budget.
  *
+ * Line items: a CO may be broken into labor / material / equipment /
+ * subcontract / other lines with cost codes, plus overhead and profit
+ * percentages. When it has lines, its amount is their marked-up total
+ * (lib/change-order-pricing.ts). `scheduleImpactDays` pushes the phase's
+ * estimated (and worst-case) finish out by that many days on approval.
+ *
  * Notification events fired:
  *   - CHANGE_ORDER_SUBMITTED → all project members on creation
+ *   - CHANGE_ORDER_APPROVAL_REQUESTED → approvers of each stage as it opens,
+ *     and the delegate on delegation
  *   - CHANGE_ORDER_APPROVED / CHANGE_ORDER_REJECTED → the requester on decision
  *
+ * Webhook events enqueued: change_order.submitted / .approved / .rejected
+ *
  * Auth pattern:
  *   - Read/create: any authenticated user
- *   - Approve/reject: ADMIN or PROJECT_MANAGER only
+ *   - Approve/reject: ADMIN or PROJECT_MANAGER only; with a chain, the step's
+ *     approver (user, role or delegate) — ADMINs may act on any step.
+ *     STAKEHOLDERs (owner's reps) may also decide CORs. PCOs can only be
+ *     rejected directly; they are approved through their COR.
+ *   - Bundle PCOs / execute CORs: ADMIN or PROJECT_MANAGER
  *   - Delete: any authenticated user (typically the requester or a PM)
  */
 
-import { db } from "@/lib/db-types";
+import type { UserRole } from "@prisma/client";
+import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { notify, getProjectMemberIds } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
+import {
+  canActOnApproval,
+  nextApprovalState,
+  planApprovals,
+  selectApprovalChain,
+  type ApprovalStepStatus,
+} from "@/lib/change-order-approvals";
+import { priceChangeOrder, type CostCategory } from "@/lib/change-order-pricing";
+import { resolveCostCode } from "@/lib/cost-code-lookup";
+
+/** One step of a change order's approval chain, as shown in the CO list. */
+export interface ChangeOrderApprovalStep {
+  id: string;
+  stage: number;
+  name: string;
+  status: ApprovalStepStatus;
+  approverLabel: string;
+  delegatedTo: string | null;
+  decidedBy: string | null;
+  decidedAt: Date | null;
+  comment: string | null;
+  /** The current user may approve, reject or delegate this step. */
+  canAct: boolean;
+}
+
+/** One cost line of a change order. */
+export interface ChangeOrderLineItemInput {
+  category: CostCategory;
+  /** Org library cost code; `costCode` text is matched onto the library when absent. */
+  costCodeId?: string | null;
+  costCode?: string | null;
+  description: string;
+  quantity: number;
+  unit?: string | null;
+  unitCost: number;
+}
+
+export interface ChangeOrderApprovalHistoryEntry {
+  id: string;
+  action: "SUBMITTED" | "APPROVED" | "REJECTED" | "DELEGATED" | "SKIPPED" | "COMPLETED";
+  stepName: string | null;
+  note: string | null;
+  actor: string | null;
+  createdAt: Date;
+}
 
 // ── Queries ──
 
 /**
  * Fetch all change orders for a phase, newest first.
- * Includes requester and approver user details for the change order table.
+ * Includes requester and approver user details, the approval chain state
+ * (with whether the current user can act on each step) and approval history.
  *
  * Requires: authenticated session.
  */
 export async function getChangeOrders(phaseId: string) {
   const session = await auth();
   if (!session?.user?.id) throw new Error("Unauthorized");
+  const user = { id: session.user.id, role: session.user.role ?? "VIEWER" };
 
-  return db.changeOrder.findMany({
+  const cos = await db.changeOrder.findMany({
     where: { phaseId },
     include: {
       requestedBy: { select: { id: true, name: true, email: true } },
       approvedBy: { select: { id: true, name: true } },
+      lineItems: { orderBy: { sortOrder: "asc" } },
+      rfi: { select: { id: true, rfiNumber: true, subject: true } },
+      parent: { select: { id: true, number: true, type: true } },
+      children: { select: { id: true, number: true }, orderBy: { number: "asc" } },
+      approvals: {
+        include: {
+          approver: { select: { name: true, email: true } },
+          delegatedTo: { select: { name: true, email: true } },
+          decidedBy: { select: { name: true, email: true } },
+        },
+        orderBy: [{ stage: "asc" }, { createdAt: "asc" }],
+      },
+      approvalEvents: {
+        include: { actor: { select: { name: true, email: true } } },
+        orderBy: { createdAt: "asc" },
+      },
     },
     orderBy: { createdAt: "desc" },
   });
+
+  return cos.map(({ approvals, approvalEvents, lineItems, ...co }) => ({
+    ...co,
+    amount: co.amount === null ? null : Number(co.amount),
+    overheadPercent: co.overheadPercent === null ? null : Number(co.overheadPercent),
+    profitPercent: co.profitPercent === null ? null : Number(co.profitPercent),
+    lineItems: lineItems.map((l) => ({
+      id: l.id,
+      category: l.category,
+      costCodeId: l.costCodeId,
+      costCode: l.costCode,
+      description: l.description,
+      quantity: Number(l.quantity),
+      unit: l.unit,
+      unitCost: Number(l.unitCost),
+    })),
+    approvals: approvals.map(
+      (a): ChangeOrderApprovalStep => ({
+        id: a.id,
+        stage: a.stage,
+        name: a.name,
+        status: a.status,
+        approverLabel: a.approver ? a.approver.name || a.approver.email : roleLabel(a.approverRole),
+        delegatedTo: a.delegatedTo ? a.delegatedTo.name || a.delegatedTo.email : null,
+        decidedBy: a.decidedBy ? a.decidedBy.name || a.decidedBy.email : null,
+        decidedAt: a.decidedAt,
+        comment: a.comment,
+        canAct: canActOnApproval(a, user),
+      })
+    ),
+    history: approvalEvents.map(
+      (e): ChangeOrderApprovalHistoryEntry => ({
+        id: e.id,
+        action: e.action,
+        stepName: e.stepName,
+        note: e.note,
+        actor: e.actor ? e.actor.name || e.actor.email : null,
+        createdAt: e.createdAt,
+      })
+    ),
+  }));
+}
+
+// ── Approval chain helpers ──
+
+/** "PROJECT_MANAGER" → "Any project manager". */
+function roleLabel(role: string | null): string {
+  return role ? `Any ${role.toLowerCase().replace(/_/g, " ")}` : "Unassigned";
+}
+
+/** Users who should act on the given approval rows (assignee, delegate or role holders). */
+async function approverIds(
+  orgId: string,
+  rows: { approverId: string | null; approverRole: string | null; delegatedToId: string | null }[]
+): Promise<string[]> {
+  const ids = new Set<string>();
+  const roles = new Set<string>();
+  for (const row of rows) {
+    const assignee = row.delegatedToId ?? row.approverId;
+    if (assignee) ids.add(assignee);
+    else if (row.approverRole) roles.add(row.approverRole);
+  }
+  if (roles.size > 0) {
+    const users = await db.user.findMany({
+      where: { orgId, role: { in: [...roles] as UserRole[] } },
+      select: { id: true },
+    });
+    users.forEach((u) => ids.add(u.id));
+  }
+  return [...ids];
+}
+
+/** Notify the approvers of newly opened steps. */
+async function requestApprovals(
+  orgId: string,
+  co: { id: string; number: string; title: string; phaseId: string },
+  phase: { projectId: string; name: string },
+  rows: { name: string; approverId: string | null; approverRole: string | null; delegatedToId: string | null }[],
+  actorId: string
+) {
+  if (rows.length === 0) return;
+  notify({
+    type: "CHANGE_ORDER_APPROVAL_REQUESTED",
+    title: `Approval needed: Change Order ${co.number}`,
+    message: `"${co.title}" in ${phase.name} is waiting for ${rows.map((r) => r.name).join(", ")}`,
+    recipientIds: await approverIds(orgId, rows),
+    actorId,
+    data: { projectId: phase.projectId, phaseId: co.phaseId, changeOrderId: co.id },
+  });
+}
+
+/**
+ * Copy the applicable approval chain onto a newly submitted change order.
+ * Does nothing when the org has no chain for this amount, or every step of it
+ * is below its threshold — the CO is then decided by a PM in one step.
+ */
+async function startApprovalChain(
+  orgId: string,
+  co: { id: string; number: string; title: string; phaseId: string; amount: number | null },
+  phase: { projectId: string; name: string },
+  actorId: string
+) {
+  const chains = await db.approvalChain.findMany({
+    where: { orgId, active: true },
+    include: { steps: true },
+  });
+  const chain = selectApprovalChain(
+    chains.map((c) => ({ ...c, minAmount: Number(c.minAmount) })),
+    co.amount
+  );
+  if (!chain || chain.steps.length === 0) return;
+
+  const planned = planApprovals(
+    chain.steps.map((s) => ({
+      stage: s.stage,
+      name: s.name,
+      approverRole: s.approverRole,
+      approverId: s.approverId,
+      minAmount: s.minAmount === null ? null : Number(s.minAmount),
+    })),
+    co.amount
+  );
+  if (planned.length === 0) return;
+
+  await db.$transaction([
+    db.changeOrderApproval.createMany({
+      data: planned.map((p) => ({
+        changeOrderId: co.id,
+        stage: p.stage,
+        name: p.name,
+        approverRole: p.approverRole as UserRole | null,
+        approverId: p.approverId,
+        status: p.status,
+      })),
+    }),
+    db.changeOrderApprovalEvent.createMany({
+      data: [
+        { changeOrderId: co.id, action: "SUBMITTED" as const, actorId, note: `Routed through "${chain.name}"` },
+        ...planned
+          .filter((p) => p.status === "SKIPPED")
+          .map((p) => ({ changeOrderId: co.id, action: "SKIPPED" as const, stepName: p.name, note: "Below amount threshold" })),
+      ],
+    }),
+  ]);
+
+  await requestApprovals(
+    orgId,
+    co,
+    phase,
+    planned.filter((p) => p.status === "PENDING").map((p) => ({ ...p, delegatedToId: null })),
+    actorId
+  );
 }
 
 // ── Mutations ──
@@ -55,6 +302,9 @@ export async function getChangeOrders(phaseId: string) {
  * Status defaults to PENDING. The requester is recorded as the current session user.
  * Notifies all project members via SSE.
  *
+ * With `lineItems`, the amount is computed from the lines and markup and any
+ * `amount` passed is ignored.
+ *
  * Requires: authenticated session.
  */
 export async function createChangeOrder(data: {
@@ -64,26 +314,72 @@ export async function createChangeOrder(data: {
   description?: string;
   amount?: number;   // Net cost impact (positive = cost increase)
   reason?: string;   // Justification text
+  lineItems?: ChangeOrderLineItemInput[];
+  overheadPercent?: number | null;
+  profitPercent?: number | null;
+  scheduleImpactDays?: number; // Days added to the phase finish on approval
+  type?: "PCO" | "CO";          // COR and rolled-up COs come from the bundle actions
+  rfiId?: string;               // RFI a PCO was raised from
 }) {
   const session = await auth();
   if (!session?.user?.id) throw new Error("Unauthorized");
 
+  const lines = data.lineItems ?? [];
+  const scheduleImpactDays = data.scheduleImpactDays ?? 0;
+  if (!Number.isInteger(scheduleImpactDays) || scheduleImpactDays < 0) {
+    throw new Error("Schedule impact must be a whole number of days");
+  }
+  for (const pct of [data.overheadPercent, data.profitPercent]) {
+    if (pct != null && (pct < 0 || pct > 100)) throw new Error("Markup must be between 0 and 100%");
+  }
+  if (lines.some((l) => !l.description.trim() || !Number.isFinite(l.quantity * l.unitCost))) {
+    throw new Error("Each line item needs a description, quantity and unit cost");
+  }
+  const amount = lines.length > 0
+    ? priceChangeOrder(lines, data.overheadPercent, data.profitPercent).total
+    : data.amount ?? null;
+
   const phase = await db.phase.findUnique({
     where: { id: data.phaseId },
     select: { id: true, name: true, projectId: true },
   });
   if (!phase) throw new Error("Phase not found");
 
+  const type = data.type ?? "CO";
+  if (data.rfiId) {
+    if (type !== "PCO") throw new Error("Only potential change orders can be raised from an RFI");
+    const rfi = await db.rFI.findFirst({ where: { id: data.rfiId, phaseId: phase.id }, select: { id: true } });
+    if (!rfi) throw new Error("RFI not found");
+  }
+
+  const lineCostCodes = await Promise.all(lines.map((l) => resolveCostCode(session.user.orgId!, l)));
+
   const co = await db.changeOrder.create({
     data: {
+      type,
+      rfiId: data.rfiId ?? null,
       number: data.number,
       title: data.title,
       description: data.description ?? null,
-      amount: data.amount ?? null,
+      amount,
       reason: data.reason ?? null,
+      overheadPercent: data.overheadPercent ?? null,
+      profitPercent: data.profitPercent ?? null,
+      scheduleImpactDays,
       status: "PENDING",
       phaseId: data.phaseId,
       requestedById: session.user.id,
+      lineItems: {
+        create: lines.map((l, i) => ({
+          category: l.category,
+          ...lineCostCodes[i],
+          description: l.description.trim(),
+          quantity: l.quantity,
+          unit: l.unit?.trim() || null,
+          unitCost: l.unitCost,
+          sortOrder: i,
+        })),
+      },
     },
   });
 
@@ -91,23 +387,132 @@ export async function createChangeOrder(data: {
   const memberIds = await getProjectMemberIds(phase.projectId);
   notify({
     type: "CHANGE_ORDER_SUBMITTED",
-    title: `Change Order ${data.number}: ${data.title}`,
-    message: `New change order submitted for ${phase.name}`,
+    title: `${type === "PCO" ? "Potential Change Order" : "Change Order"} ${data.number}: ${data.title}`,
+    message: `New ${type === "PCO" ? "potential change order" : "change order"} submitted for ${phase.name}`,
     recipientIds: memberIds,
     actorId: session.user.id,
     data: { projectId: phase.projectId, phaseId: phase.id, changeOrderId: co.id },
   });
 
+  await emitWebhookEvent(session.user.orgId!, "change_order.submitted", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    changeOrderId: co.id,
+    type,
+    number: co.number,
+    title: co.title,
+    amount,
+    scheduleImpactDays,
+    rfiId: co.rfiId,
+  });
+
+  if (type === "CO") {
+    await startApprovalChain(session.user.orgId!, { ...co, amount }, phase, session.user.id);
+  }
+
   revalidatePath(`/dashboard/projects/${phase.projectId}`);
   return co;
 }
 
+/**
+ * Record the final decision on a change order: status, approver and
+ * timestamp, in one transaction with its knock-on effects:
+ *   - an approved executed CO with a schedule impact extends the phase's
+ *     estimated and worst-case finish
+ *   - a COR's decision is copied to the PCOs it bundles
+ *   - a rejected executed CO releases its CORs for re-execution
+ * Notifies only the original requester (not all members — they were already
+ * notified on submission) and emits the decision webhook.
+ */
+async function finalizeChangeOrder(
+  orgId: string,
+  co: {
+    id: string; type: "PCO" | "COR" | "CO"; number: string; title: string; phaseId: string;
+    requestedById: string; amount: unknown; scheduleImpactDays: number;
+  },
+  phase: { projectId: string; name: string },
+  status: "APPROVED" | "REJECTED",
+  deciderId: string
+) {
+  const decidedAt = new Date();
+  const effects = [];
+  if (co.type === "CO" && status === "APPROVED" && co.scheduleImpactDays > 0) {
+    const target = await db.phase.findUniqueOrThrow({
+      where: { id: co.phaseId },
+      select: { estEnd: true, worstEnd: true },
+    });
+    const extend = (d: Date) => new Date(d.getTime() + co.scheduleImpactDays * 86_400_000);
+    effects.push(
+      db.phase.update({
+        where: { id: co.phaseId },
+        data: {
+          estEnd: extend(target.estEnd),
+          worstEnd: target.worstEnd ? extend(target.worstEnd) : undefined,
+        },
+      })
+    );
+  }
+  if (co.type === "COR") {
+    effects.push(
+      db.changeOrder.updateMany({
+        where: { parentId: co.id },
+        data: { status, approvedById: deciderId, approvedAt: decidedAt },
+      })
+    );
+  }
+  if (co.type === "CO" && status === "REJECTED") {
+    effects.push(db.changeOrder.updateMany({ where: { parentId: co.id }, data: { parentId: null } }));
+  }
+
+  const [updated] = await db.$transaction([
+    db.changeOrder.update({
+      where: { id: co.id },
+      data: {
+        status,
+        approvedById: deciderId,
+        approvedAt: decidedAt,
+      },
+    }),
+    ...effects,
+  ]);
+
+  const notifType = status === "APPROVED" ? "CHANGE_ORDER_APPROVED" : "CHANGE_ORDER_REJECTED";
+  notify({
+    type: notifType,
+    title: `Change Order ${status === "APPROVED" ? "Approved" : "Rejected"}: ${co.title}`,
+    message: `Your change order "${co.title}" in ${phase.name} was ${status.toLowerCase()}`,
+    recipientIds: [co.requestedById],
+    actorId: deciderId,
+    data: { projectId: phase.projectId, phaseId: co.phaseId, changeOrderId: co.id },
+  });
+
+  await emitWebhookEvent(
+    orgId,
+    status === "APPROVED" ? "change_order.approved" : "change_order.rejected",
+    {
+      projectId: phase.projectId,
+      phaseId: co.phaseId,
+      changeOrderId: co.id,
+      type: co.type,
+      number: co.number,
+      title: co.title,
+      amount: co.amount != null ? Number(co.amount) : null,
+      scheduleImpactDays: co.scheduleImpactDays,
+      decidedById: deciderId,
+    }
+  );
+
+  revalidatePath(`/dashboard/projects/${phase.projectId}`);
+  return updated;
+}
+
 /**
  * Approve or reject a pending change order.
- * Records the approver and timestamp. Notifies only the original requester
- * (not all members — they were already notified on submission).
+ * With an approval chain this decides the caller's pending step (see
+ * `decideChangeOrderApproval`); otherwise it decides the change order outright.
  *
- * Requires: ADMIN or PROJECT_MANAGER role.
+ * Requires: ADMIN or PROJECT_MANAGER role, or — with a chain — a pending step
+ * the caller can act on.
  */
 export async function updateChangeOrderStatus(
   changeOrderId: string,
@@ -115,45 +520,287 @@ export async function updateChangeOrderStatus(
 ) {
   const session = await auth();
   if (!session?.user?.id) throw new Error("Unauthorized");
+  const user = { id: session.user.id, role: session.user.role ?? "VIEWER" };
+
+  const co = await db.changeOrder.findFirst({
+    where: { id: changeOrderId, phase: { project: { orgId: session.user.orgId! } } },
+    include: { phase: { select: { projectId: true, name: true } }, approvals: true },
+  });
+  if (!co) throw new Error("Change order not found");
+  if (co.status !== "PENDING") throw new Error("This change order has already been decided");
 
-  // Only PM/Admin can approve or reject
-  const userRole = session.user.role ?? "VIEWER";
-  if (userRole !== "ADMIN" && userRole !== "PROJECT_MANAGER") {
+  if (co.approvals.length > 0) {
+    const step = co.approvals.find((a) => canActOnApproval(a, user));
+    if (!step) throw new Error("You have no pending approval step on this change order");
+    return decideChangeOrderApproval(step.id, status);
+  }
+
+  if (co.parentId) throw new Error(`This change order is part of ${co.type === "PCO" ? "a change order request" : "an executed change order"}`);
+  if (co.type === "PCO" && status === "APPROVED") {
+    throw new Error("Potential change orders are approved through a change order request");
+  }
+  // Only PM/Admin can approve or reject (and the owner's rep, for CORs)
+  const deciders = co.type === "COR" ? ["ADMIN", "PROJECT_MANAGER", "STAKEHOLDER"] : ["ADMIN", "PROJECT_MANAGER"];
+  if (!deciders.includes(user.role)) {
     throw new Error("Only PMs and admins can approve change orders");
   }
+  return finalizeChangeOrder(session.user.orgId!, co, co.phase, status, user.id);
+}
 
-  const co = await db.changeOrder.findUnique({
-    where: { id: changeOrderId },
-    include: { phase: { select: { projectId: true, name: true } }, requestedBy: true },
+/**
+ * Approve or reject one step of a change order's approval chain.
+ *
+ * A rejection rejects the change order and closes the remaining steps. An
+ * approval opens the next stage once every step in the current stage has
+ * approved, and approves the change order after the last stage.
+ *
+ * @param approvalId - ChangeOrderApproval row (must be PENDING).
+ * @param comment    - Optional note kept in the approval history.
+ * @throws If the caller is not the step's approver, delegate or an ADMIN.
+ */
+export async function decideChangeOrderApproval(
+  approvalId: string,
+  decision: "APPROVED" | "REJECTED",
+  comment?: string
+) {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  const user = { id: session.user.id, role: session.user.role ?? "VIEWER" };
+  const orgId = session.user.orgId!;
+
+  const step = await db.changeOrderApproval.findFirst({
+    where: { id: approvalId, changeOrder: { phase: { project: { orgId } } } },
+    include: { changeOrder: { include: { phase: { select: { projectId: true, name: true } } } } },
   });
-  if (!co) throw new Error("Change order not found");
+  if (!step) throw new Error("Approval step not found");
+  if (!canActOnApproval(step, user)) throw new Error("You cannot act on this approval step");
+  const co = step.changeOrder;
+  const note = comment?.trim() || null;
 
-  const updated = await db.changeOrder.update({
-    where: { id: changeOrderId },
+  // Guard against two approvers deciding the same step at once
+  const claimed = await db.changeOrderApproval.updateMany({
+    where: { id: approvalId, status: "PENDING" },
+    data: { status: decision, decidedById: user.id, decidedAt: new Date(), comment: note },
+  });
+  if (claimed.count === 0) throw new Error("This step has already been decided");
+  await db.changeOrderApprovalEvent.create({
+    data: { changeOrderId: co.id, action: decision, stepName: step.name, note, actorId: user.id },
+  });
+
+  const rows = await db.changeOrderApproval.findMany({
+    where: { changeOrderId: co.id },
+    select: { id: true, stage: true, status: true, name: true, approverId: true, approverRole: true, delegatedToId: true },
+  });
+  const next = nextApprovalState(rows);
+
+  if (next.outcome === "REJECTED") {
+    await db.changeOrderApproval.updateMany({
+      where: { changeOrderId: co.id, status: { in: ["PENDING", "WAITING"] } },
+      data: { status: "SKIPPED" },
+    });
+    return finalizeChangeOrder(orgId, co, co.phase, "REJECTED", user.id);
+  }
+  if (next.outcome === "APPROVED") {
+    await db.changeOrderApprovalEvent.create({
+      data: { changeOrderId: co.id, action: "COMPLETED", note: "All approval steps complete" },
+    });
+    return finalizeChangeOrder(orgId, co, co.phase, "APPROVED", user.id);
+  }
+
+  if (next.activate.length > 0) {
+    await db.changeOrderApproval.updateMany({ where: { id: { in: next.activate } }, data: { status: "PENDING" } });
+    await requestApprovals(orgId, co, co.phase, rows.filter((r) => next.activate.includes(r.id)), user.id);
+  }
+  revalidatePath(`/dashboard/projects/${co.phase.projectId}`);
+  return co;
+}
+
+/**
+ * Hand a pending approval step to another user in the org (e.g. while the
+ * approver is away). The delegate is notified and becomes the only
+ * non-admin who can decide the step.
+ *
+ * @throws If the caller cannot act on the step or the delegate is not in the org.
+ */
+export async function delegateChangeOrderApproval(approvalId: string, delegateId: string, note?: string) {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  const user = { id: session.user.id, role: session.user.role ?? "VIEWER" };
+  const orgId = session.user.orgId!;
+
+  const step = await db.changeOrderApproval.findFirst({
+    where: { id: approvalId, changeOrder: { phase: { project: { orgId } } } },
+    include: { changeOrder: { include: { phase: { select: { projectId: true, name: true } } } } },
+  });
+  if (!step) throw new Error("Approval step not found");
+  if (!canActOnApproval(step, user)) throw new Error("You cannot delegate this approval step");
+  if (delegateId === user.id) throw new Error("Choose someone else to delegate to");
+
+  const delegate = await db.user.findFirst({ where: { id: delegateId, orgId }, select: { id: true, name: true, email: true } });
+  if (!delegate) throw new Error("Delegate not found");
+
+  await db.changeOrderApproval.update({ where: { id: approvalId }, data: { delegatedToId: delegate.id } });
+  await db.changeOrderApprovalEvent.create({
     data: {
-      status,
-      approvedById: session.user.id,
-      approvedAt: new Date(),
+      changeOrderId: step.changeOrderId,
+      action: "DELEGATED",
+      stepName: step.name,
+      note: [`Delegated to ${delegate.name || delegate.email}`, note?.trim()].filter(Boolean).join(": "),
+      actorId: user.id,
     },
   });
+  await requestApprovals(orgId, step.changeOrder, step.changeOrder.phase, [{ ...step, delegatedToId: delegate.id }], user.id);
+
+  revalidatePath(`/dashboard/projects/${step.changeOrder.phase.projectId}`);
+}
+
+/** Org members a pending approval step can be delegated to. */
+export async function getApprovalDelegates() {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  return db.user.findMany({
+    where: { orgId: session.user.orgId!, role: { not: "VIEWER" } },
+    select: { id: true, name: true, email: true },
+    orderBy: { name: "asc" },
+  });
+}
+
+// ── PCO → COR → CO roll-up ──
+
+/**
+ * Create a COR or executed CO from existing records of the previous stage on
+ * the same phase. The new record's amount and schedule impact are the sums of
+ * its children, which are linked to it via `parentId`.
+ */
+async function rollUpChangeOrders(
+  type: "COR" | "CO",
+  data: { phaseId: string; childIds: string[]; number: string; title: string; description?: string }
+) {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  const role = session.user.role ?? "VIEWER";
+  if (role !== "ADMIN" && role !== "PROJECT_MANAGER") {
+    throw new Error("Only PMs and admins can bundle change orders");
+  }
+  const orgId = session.user.orgId!;
+  const ids = [...new Set(data.childIds)];
+  if (ids.length === 0) throw new Error("Select at least one item to include");
+
+  const phase = await db.phase.findFirst({
+    where: { id: data.phaseId, project: { orgId } },
+    select: { id: true, name: true, projectId: true },
+  });
+  if (!phase) throw new Error("Phase not found");
+
+  // PCOs must still be open; CORs must be owner-approved
+  const childType = type === "COR" ? "PCO" : "COR";
+  const childStatus = type === "COR" ? "PENDING" : "APPROVED";
+  const children = await db.changeOrder.findMany({
+    where: { id: { in: ids }, phaseId: phase.id, type: childType, status: childStatus, parentId: null },
+    select: { id: true, amount: true, scheduleImpactDays: true },
+  });
+  if (children.length !== ids.length) {
+    throw new Error(
+      type === "COR"
+        ? "Only open, unbundled PCOs on this phase can be bundled"
+        : "Only owner-approved CORs on this phase that are not yet executed can be included"
+    );
+  }
+
+  const amount = children.reduce((sum, c) => sum + Number(c.amount ?? 0), 0);
+  const scheduleImpactDays = children.reduce((sum, c) => sum + c.scheduleImpactDays, 0);
+  const co = await db.$transaction(async (tx) => {
+    const created = await tx.changeOrder.create({
+      data: {
+        type,
+        number: data.number.trim(),
+        title: data.title.trim(),
+        description: data.description?.trim() || null,
+        amount,
+        scheduleImpactDays,
+        status: "PENDING",
+        phaseId: phase.id,
+        requestedById: session.user.id,
+      },
+    });
+    const linked = await tx.changeOrder.updateMany({
+      where: { id: { in: ids }, parentId: null },
+      data: { parentId: created.id },
+    });
+    if (linked.count !== ids.length) throw new Error("Some items were bundled by someone else — refresh and try again");
+    return created;
+  });
 
-  // Notify only the requester of the decision
-  const notifType = status === "APPROVED" ? "CHANGE_ORDER_APPROVED" : "CHANGE_ORDER_REJECTED";
   notify({
-    type: notifType,
-    title: `Change Order ${status === "APPROVED" ? "Approved" : "Rejected"}: ${co.title}`,
-    message: `Your change order "${co.title}" in ${co.phase.name} was ${status.toLowerCase()}`,
-    recipientIds: [co.requestedById],
+    type: "CHANGE_ORDER_SUBMITTED",
+    title: `${type === "COR" ? "Change Order Request" : "Change Order"} ${co.number}: ${co.title}`,
+    message: `${children.length} ${type === "COR" ? "PCO" : "COR"}${children.length === 1 ? "" : "s"} in ${phase.name} ${type === "COR" ? "sent to the owner" : "rolled into an owner change order"}`,
+    recipientIds: await getProjectMemberIds(phase.projectId),
     actorId: session.user.id,
-    data: { projectId: co.phase.projectId, phaseId: co.phaseId, changeOrderId },
+    data: { projectId: phase.projectId, phaseId: phase.id, changeOrderId: co.id },
   });
 
-  revalidatePath(`/dashboard/projects/${co.phase.projectId}`);
-  return updated;
+  await emitWebhookEvent(orgId, "change_order.submitted", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    changeOrderId: co.id,
+    type,
+    number: co.number,
+    title: co.title,
+    amount,
+    scheduleImpactDays,
+    childIds: ids,
+  });
+
+  if (type === "CO") {
+    await startApprovalChain(orgId, { ...co, amount }, phase, session.user.id);
+  }
+
+  revalidatePath(`/dashboard/projects/${phase.projectId}`);
+  return co;
+}
+
+/**
+ * Bundle open PCOs into a change order request (COR) to the owner.
+ *
+ * Requires: ADMIN or PROJECT_MANAGER role.
+ */
+export async function bundleChangeOrderRequest(data: {
+  phaseId: string;
+  pcoIds: string[];
+  number: string;   // e.g. "COR-001"
+  title: string;
+  description?: string;
+}) {
+  const { pcoIds, ...rest } = data;
+  return rollUpChangeOrders("COR", { ...rest, childIds: pcoIds });
+}
+
+/**
+ * Roll owner-approved CORs into an executed change order. The CO goes through
+ * the org's approval chain (or a PM/admin decision) like any other CO.
+ *
+ * Requires: ADMIN or PROJECT_MANAGER role.
+ */
+export async function executeOwnerChangeOrder(data: {
+  phaseId: string;
+  corIds: string[];
+  number: string;   // e.g. "CO-001"
+  title: string;
+  description?: string;
+}) {
+  const { corIds, ...rest } = data;
+  return rollUpChangeOrders("CO", { ...rest, childIds: corIds });
 }
 
 /**
  * Permanently delete a change order (typically used to cancel a pending submission).
+ * Deleting a bundle releases its children so they can be bundled again:
+ *   - a COR's PCOs go back to PENDING, since the owner's decision copied onto
+ *     them is withdrawn with it
+ *   - an owner CO's CORs keep the owner's approval and can be executed again
+ * An approved CO has already adjusted the budget and pushed out the phase
+ * finish, so it cannot be deleted.
  *
  * Requires: authenticated session.
  */
@@ -166,8 +813,21 @@ export async function deleteChangeOrder(changeOrderId: string) {
     include: { phase: { select: { projectId: true } } },
   });
   if (!co) throw new Error("Change order not found");
+  if (co.parentId) throw new Error("Remove the change order it is bundled into first");
+  if (co.type === "CO" && co.status === "APPROVED") {
+    throw new Error("An approved change order has been applied to the budget and schedule and cannot be deleted");
+  }
 
-  await db.changeOrder.delete({ where: { id: changeOrderId } });
+  await db.$transaction([
+    db.changeOrder.updateMany({
+      where: { parentId: co.id },
+      data: {
+        parentId: null,
+        ...(co.type === "COR" ? { status: "PENDING" as const, approvedById: null, approvedAt: null } : {}),
+      },
+    }),
+    db.changeOrder.delete({ where: { id: changeOrderId } }),
+  ]);
   revalidatePath(`/dashboard/projects/${co.phase.projectId}`);
   return { success: true };
 }
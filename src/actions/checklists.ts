@@ -112,9 +112,11 @@ export async function applyChecklistTemplate(
  * which `undoActivity` in activity.ts uses to reverse the operation.
  *
  * @param itemId - ID of the ChecklistItem to toggle.
+ * @param completed - Optional target state (offline replays); when the item
+ *   already has it, nothing changes so a replay never flips it back.
  * @returns The updated ChecklistItem record.
  */
-export async function toggleChecklistItem(itemId: string) {
+export async function toggleChecklistItem(itemId: string, completed?: boolean) {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
   if (!can(session.user.role || "VIEWER", "update", "checklist"))
@@ -129,6 +131,7 @@ export async function toggleChecklistItem(itemId: string) {
     },
   });
   if (!item) throw new Error("Item not found");
+  if (completed !== undefined && item.completed === completed) return item;
 
   const nowCompleting = !item.completed; // Toggle direction
 
@@ -0,0 +1,358 @@
+"use server";
+
+/**
+ * @file actions/commitments.ts
+ * @description Server actions for project commitments — subcontracts and
+ * purchase orders (cost rules in lib/commitments.ts).
+ *
+ * Subcontracts are opened by awarding a bid (actions/subcontractor-bids.ts);
+ * purchase orders are created here from a phase's materials. Lifecycle:
+ *
+ *   DRAFT → APPROVED → CLOSED
+ *     └──────┴──→ VOID   (only while nothing has been invoiced)
+ *
+ * Change orders against the commitment and vendor invoices are recorded on
+ * APPROVED commitments only; an invoice may not bill past the remaining
+ * balance. Drafts can still be re-priced.
+ *
+ * Reads require project membership; mutations require a project OWNER or
+ * MANAGER (`canManagePhase` on the project-level role). Decimal fields are
+ * coerced to Number before being returned.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canManagePhase, verifyProjectAccess, verifyProjectAccessViaPhase } from "@/lib/permissions";
+import { resolveCostCode } from "@/lib/cost-code-lookup";
+import {
+  nextCommitmentNumber,
+  summarizeCommitment,
+  type CommitmentStatus,
+  type CommitmentSummary,
+  type CommitmentType,
+} from "@/lib/commitments";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const PurchaseOrderSchema = z.object({
+  phaseId: z.string().min(1),
+  materialIds: z.array(z.string().min(1)).min(1, "Select at least one material"),
+  vendorName: z.string().trim().max(300).optional(),
+  title: z.string().trim().max(300).optional(),
+});
+
+const UpdateCommitmentSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().trim().min(1).max(300),
+  vendorName: z.string().trim().min(1).max(300),
+  originalAmount: z.number().min(0),
+  costCodeId: z.string().min(1).nullable(),
+});
+
+const ChangeSchema = z.object({
+  commitmentId: z.string().min(1),
+  description: z.string().trim().min(1).max(2000),
+  amount: z.number().refine((n) => n !== 0, "Enter a non-zero amount"),
+});
+
+const InvoiceSchema = z.object({
+  commitmentId: z.string().min(1),
+  number: z.string().trim().min(1).max(100),
+  amount: z.number().positive(),
+  invoiceDate: z.coerce.date(),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export interface ProjectCommitment {
+  id: string;
+  type: CommitmentType;
+  number: string;
+  title: string;
+  vendorName: string;
+  status: CommitmentStatus;
+  originalAmount: number;
+  approvedAt: Date | null;
+  phaseId: string;
+  phaseName: string;
+  costCodeId: string | null;
+  costCode: string | null;
+  /** Awarded bid a subcontract was opened from. */
+  bidId: string | null;
+  materials: { id: string; name: string; quantity: number; unit: string }[];
+  changes: { id: string; number: string; description: string; amount: number; status: "PENDING" | "APPROVED" | "REJECTED"; createdAt: Date }[];
+  invoices: { id: string; number: string; amount: number; invoiceDate: Date; notes: string | null }[];
+  summary: CommitmentSummary;
+}
+
+// ── Helpers ──
+
+/**
+ * Load a commitment and verify the caller manages its project.
+ * @throws "Unauthorized" | "Commitment not found" | "Forbidden"
+ */
+async function requireCommitmentManager(commitmentId: string) {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  const commitment = await db.commitment.findUnique({
+    where: { id: commitmentId },
+    include: { changes: true, invoices: true },
+  });
+  if (!commitment) throw new Error("Commitment not found");
+  const role = await verifyProjectAccess(session.user.id, commitment.projectId, session.user.role);
+  if (!canManagePhase(role)) throw new Error("Forbidden");
+  const summary = summarizeCommitment({
+    status: commitment.status,
+    originalAmount: Number(commitment.originalAmount),
+    changes: commitment.changes.map((c) => ({ amount: Number(c.amount), status: c.status })),
+    invoices: commitment.invoices.map((i) => ({ amount: Number(i.amount) })),
+  });
+  return { session, commitment, summary };
+}
+
+// ── Queries ──
+
+/**
+ * List a project's subcontracts and purchase orders with their change orders,
+ * invoices and balances. Returns [] for callers without access.
+ */
+export async function getProjectCommitments(projectId: string): Promise<ProjectCommitment[]> {
+  const session = await auth();
+  if (!session?.user?.id) return [];
+  try {
+    await verifyProjectAccess(session.user.id, projectId, session.user.role);
+  } catch {
+    return [];
+  }
+
+  const rows = await db.commitment.findMany({
+    where: { projectId },
+    include: {
+      phase: { select: { name: true } },
+      costCode: { select: { code: true } },
+      materials: { select: { id: true, name: true, quantity: true, unit: true }, orderBy: { createdAt: "asc" } },
+      changes: { orderBy: { createdAt: "asc" } },
+      invoices: { orderBy: { invoiceDate: "asc" } },
+    },
+    orderBy: [{ type: "asc" }, { number: "asc" }],
+  });
+
+  return rows.map((c) => {
+    const changes = c.changes.map((ch) => ({
+      id: ch.id,
+      number: ch.number,
+      description: ch.description,
+      amount: Number(ch.amount),
+      status: ch.status,
+      createdAt: ch.createdAt,
+    }));
+    const invoices = c.invoices.map((i) => ({
+      id: i.id,
+      number: i.number,
+      amount: Number(i.amount),
+      invoiceDate: i.invoiceDate,
+      notes: i.notes,
+    }));
+    return {
+      id: c.id,
+      type: c.type,
+      number: c.number,
+      title: c.title,
+      vendorName: c.vendorName,
+      status: c.status,
+      originalAmount: Number(c.originalAmount),
+      approvedAt: c.approvedAt,
+      phaseId: c.phaseId,
+      phaseName: c.phase.name,
+      costCodeId: c.costCodeId,
+      costCode: c.costCode?.code ?? null,
+      bidId: c.bidId,
+      materials: c.materials.map((m) => ({ ...m, quantity: Number(m.quantity) })),
+      changes,
+      invoices,
+      summary: summarizeCommitment({ status: c.status, originalAmount: Number(c.originalAmount), changes, invoices }),
+    };
+  });
+}
+
+// ── Mutations ──
+
+/**
+ * Create a DRAFT purchase order for some of a phase's materials, priced at
+ * quantity × unit cost. The vendor defaults to the materials' supplier and
+ * the cost code to the one they share.
+ *
+ * @throws If a material is already on an open purchase order, or no vendor
+ *         can be determined.
+ */
+export async function createPurchaseOrder(data: z.input<typeof PurchaseOrderSchema>) {
+  const parsed = PurchaseOrderSchema.parse(data);
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  const { projectId, role } = await verifyProjectAccessViaPhase(session.user.id, parsed.phaseId, session.user.role);
+  if (!canManagePhase(role)) throw new Error("Forbidden");
+
+  const materials = await db.material.findMany({
+    where: { id: { in: parsed.materialIds }, phaseId: parsed.phaseId },
+    include: { purchaseOrder: { select: { number: true, status: true } } },
+  });
+  if (materials.length !== new Set(parsed.materialIds).size) throw new Error("Material not found");
+  const onOrder = materials.find((m) => m.purchaseOrder && m.purchaseOrder.status !== "VOID");
+  if (onOrder) throw new Error(`${onOrder.name} is already on ${onOrder.purchaseOrder!.number}`);
+
+  const suppliers = [...new Set(materials.map((m) => m.supplier?.trim()).filter(Boolean))];
+  const vendorName = parsed.vendorName || (suppliers.length === 1 ? suppliers[0]! : "");
+  if (!vendorName) throw new Error("Enter the vendor for this purchase order");
+  const codes = new Set(materials.map((m) => m.costCodeId));
+  const amount = materials.reduce((s, m) => s + Number(m.quantity) * (m.cost ? Number(m.cost) : 0), 0);
+
+  const [phase, existing] = await Promise.all([
+    db.phase.findUniqueOrThrow({ where: { id: parsed.phaseId }, select: { name: true } }),
+    db.commitment.findMany({ where: { projectId }, select: { number: true } }),
+  ]);
+  const number = nextCommitmentNumber("PURCHASE_ORDER", existing.map((c) => c.number));
+  await db.commitment.create({
+    data: {
+      type: "PURCHASE_ORDER",
+      number,
+      title: parsed.title || `${phase.name} materials`,
+      vendorName,
+      originalAmount: Math.round(amount * 100) / 100,
+      projectId,
+      phaseId: parsed.phaseId,
+      costCodeId: codes.size === 1 ? [...codes][0] : null,
+      createdById: session.user.id,
+      materials: { connect: materials.map((m) => ({ id: m.id })) },
+    },
+  });
+  revalidatePath(`/dashboard/projects/${projectId}`);
+  return { number };
+}
+
+/**
+ * Edit a commitment's title, vendor and cost code. The amount can only be
+ * changed while it is a draft — afterwards use a commitment change order.
+ */
+export async function updateCommitment(data: z.input<typeof UpdateCommitmentSchema>) {
+  const parsed = UpdateCommitmentSchema.parse(data);
+  const { session, commitment } = await requireCommitmentManager(parsed.id);
+  if (commitment.status === "VOID" || commitment.status === "CLOSED") {
+    throw new Error(`This commitment is ${commitment.status.toLowerCase()}`);
+  }
+  if (commitment.status !== "DRAFT" && parsed.originalAmount !== Number(commitment.originalAmount)) {
+    throw new Error("Change an approved commitment's value with a change order");
+  }
+  const { costCodeId } = await resolveCostCode(session.user.orgId!, { costCodeId: parsed.costCodeId });
+
+  await db.commitment.update({
+    where: { id: parsed.id },
+    data: {
+      title: parsed.title,
+      vendorName: parsed.vendorName,
+      originalAmount: parsed.originalAmount,
+      costCodeId,
+    },
+  });
+  revalidatePath(`/dashboard/projects/${commitment.projectId}`);
+}
+
+/**
+ * Move a commitment through its lifecycle: approve a draft, close an approved
+ * commitment at what has been invoiced, or void one with no invoices.
+ */
+export async function setCommitmentStatus(commitmentId: string, status: "APPROVED" | "CLOSED" | "VOID") {
+  const { session, commitment } = await requireCommitmentManager(commitmentId);
+  const allowed: Record<CommitmentStatus, CommitmentStatus[]> = {
+    DRAFT: ["APPROVED", "VOID"],
+    APPROVED: ["CLOSED", "VOID"],
+    CLOSED: [],
+    VOID: [],
+  };
+  if (!allowed[commitment.status].includes(status)) {
+    throw new Error(`A ${commitment.status.toLowerCase()} commitment cannot be ${status.toLowerCase()}`);
+  }
+  if (status === "VOID" && commitment.invoices.length > 0) {
+    throw new Error("Invoiced commitments cannot be voided — close it instead");
+  }
+
+  await db.commitment.update({
+    where: { id: commitmentId },
+    data: {
+      status,
+      ...(status === "APPROVED" ? { approvedAt: new Date(), approvedById: session.user.id } : {}),
+    },
+  });
+  revalidatePath(`/dashboard/projects/${commitment.projectId}`);
+}
+
+/** Add a PENDING change order (positive or negative) to an approved commitment. */
+export async function addCommitmentChange(data: z.input<typeof ChangeSchema>) {
+  const parsed = ChangeSchema.parse(data);
+  const { commitment } = await requireCommitmentManager(parsed.commitmentId);
+  if (commitment.status !== "APPROVED") throw new Error("Change orders can only be added to an approved commitment");
+
+  await db.commitmentChange.create({
+    data: {
+      commitmentId: parsed.commitmentId,
+      number: `CO-${String(commitment.changes.length + 1).padStart(2, "0")}`,
+      description: parsed.description,
+      amount: parsed.amount,
+    },
+  });
+  revalidatePath(`/dashboard/projects/${commitment.projectId}`);
+}
+
+/**
+ * Approve or reject a pending commitment change order.
+ * @throws If rejecting a deduct would leave the commitment billed past its value.
+ */
+export async function decideCommitmentChange(changeId: string, approve: boolean) {
+  const change = await db.commitmentChange.findUnique({ where: { id: changeId }, select: { commitmentId: true, status: true, amount: true } });
+  if (!change) throw new Error("Change order not found");
+  const { commitment, summary } = await requireCommitmentManager(change.commitmentId);
+  if (change.status !== "PENDING") throw new Error("This change order has already been decided");
+  if (commitment.status !== "APPROVED") throw new Error("The commitment is no longer open");
+  if (approve && summary.approvedValue + Number(change.amount) < summary.invoiced) {
+    throw new Error("This deduct would bring the commitment below what has been invoiced");
+  }
+
+  await db.commitmentChange.update({
+    where: { id: changeId },
+    data: { status: approve ? "APPROVED" : "REJECTED", decidedAt: new Date() },
+  });
+  revalidatePath(`/dashboard/projects/${commitment.projectId}`);
+}
+
+/**
+ * Record a vendor invoice against an approved commitment.
+ * @throws "Invoice exceeds the remaining balance" when it would overbill.
+ */
+export async function recordCommitmentInvoice(data: z.input<typeof InvoiceSchema>) {
+  const parsed = InvoiceSchema.parse(data);
+  const { commitment, summary } = await requireCommitmentManager(parsed.commitmentId);
+  if (commitment.status !== "APPROVED") throw new Error("Invoices can only be recorded against an approved commitment");
+  if (parsed.amount > summary.remaining + 0.005) throw new Error("Invoice exceeds the remaining balance");
+
+  await db.commitmentInvoice.create({
+    data: {
+      commitmentId: parsed.commitmentId,
+      number: parsed.number,
+      amount: parsed.amount,
+      invoiceDate: parsed.invoiceDate,
+      notes: parsed.notes || null,
+    },
+  });
+  revalidatePath(`/dashboard/projects/${commitment.projectId}`);
+}
+
+/** Remove an invoice recorded in error (open commitments only). */
+export async function deleteCommitmentInvoice(invoiceId: string) {
+  const invoice = await db.commitmentInvoice.findUnique({ where: { id: invoiceId }, select: { commitmentId: true } });
+  if (!invoice) throw new Error("Invoice not found");
+  const { commitment } = await requireCommitmentManager(invoice.commitmentId);
+  if (commitment.status !== "APPROVED") throw new Error("The commitment is no longer open");
+
+  await db.commitmentInvoice.delete({ where: { id: invoiceId } });
+  revalidatePath(`/dashboard/projects/${commitment.projectId}`);
+}
@@ -0,0 +1,219 @@
+"use server";
+
+/**
+ * @file actions/cost-codes.ts
+ * @description Server actions for the org cost code library and project cost
+ * code budgets (job costing rules in lib/cost-codes.ts).
+ *
+ * The library is seeded with the CSI MasterFormat divisions the first time it
+ * is read. Codes referenced by labor, materials, takeoffs, change orders or
+ * budgets cannot be deleted — deactivate them instead, which hides them from
+ * pickers but keeps history intact.
+ *
+ * Library mutations require the `manage phase` permission (ADMIN /
+ * PROJECT_MANAGER) and are scoped to the caller's organization. Budget lines
+ * additionally require membership of the project.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { can, verifyProjectAccess } from "@/lib/permissions";
+import { MASTERFORMAT_DIVISIONS, divisionOf, normalizeCostCode, type CostCodeBreakdownRow } from "@/lib/cost-codes";
+import { queryCostCodeBreakdowns } from "@/lib/report-data";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const CostCodeSchema = z.object({
+  id: z.string().optional(),
+  code: z.string().transform(normalizeCostCode).pipe(z.string().min(1).max(20)),
+  name: z.string().trim().min(1).max(200),
+  active: z.boolean(),
+});
+
+const BudgetLineSchema = z.object({
+  projectId: z.string().min(1),
+  costCodeId: z.string().min(1),
+  amount: z.number().min(0),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export type CostCodeInput = z.input<typeof CostCodeSchema>;
+
+export interface CostCodeOption {
+  id: string;
+  code: string;
+  name: string;
+  division: string;
+  active: boolean;
+}
+
+export interface ProjectCostCodeBudget {
+  lines: { id: string; costCodeId: string; code: string; name: string; amount: number; notes: string | null }[];
+  breakdown: CostCodeBreakdownRow[];
+}
+
+// ── Helpers ──
+
+async function requireManager() {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  if (!can(session.user.role || "VIEWER", "manage", "phase")) throw new Error("Forbidden");
+  return session;
+}
+
+/** Seed an org's library with the MasterFormat divisions if it is empty. */
+async function ensureLibrary(orgId: string) {
+  const count = await db.costCode.count({ where: { orgId } });
+  if (count > 0) return;
+  await db.costCode.createMany({
+    data: MASTERFORMAT_DIVISIONS.map((d) => ({ ...d, division: divisionOf(d.code), orgId })),
+    skipDuplicates: true,
+  });
+}
+
+// ── Queries ──
+
+/**
+ * The org's cost codes in code order. Pickers pass nothing and get active
+ * codes only; the settings editor passes `includeInactive`.
+ */
+export async function getCostCodes(options: { includeInactive?: boolean } = {}): Promise<CostCodeOption[]> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  const orgId = session.user.orgId!;
+  await ensureLibrary(orgId);
+  return db.costCode.findMany({
+    where: { orgId, ...(options.includeInactive ? {} : { active: true }) },
+    select: { id: true, code: true, name: true, division: true, active: true },
+    orderBy: { code: "asc" },
+  });
+}
+
+/**
+ * Per-cost-code budget vs committed vs actual for one project, with the
+ * project's budget lines (ProjectCostCodeBudget).
+ */
+export async function getProjectCostCodeBudget(projectId: string): Promise<ProjectCostCodeBudget> {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  await verifyProjectAccess(session.user.id, projectId, session.user.role);
+  const breakdowns = await queryCostCodeBreakdowns(session.user.orgId!, [projectId]);
+  const lines = await db.costCodeBudget.findMany({
+    where: { projectId },
+    include: { costCode: { select: { code: true, name: true } } },
+    orderBy: { costCode: { code: "asc" } },
+  });
+  return {
+    lines: lines.map((l) => ({
+      id: l.id,
+      costCodeId: l.costCodeId,
+      code: l.costCode.code,
+      name: l.costCode.name,
+      amount: Number(l.amount),
+      notes: l.notes,
+    })),
+    breakdown: breakdowns.get(projectId) ?? [],
+  };
+}
+
+// ── Library mutations ──
+
+/**
+ * Create or update a cost code. The division is derived from the code.
+ *
+ * @throws If another code in the org already uses the same code.
+ */
+export async function saveCostCode(data: CostCodeInput) {
+  const session = await requireManager();
+  const orgId = session.user.orgId!;
+  const parsed = CostCodeSchema.parse(data);
+
+  const clash = await db.costCode.findFirst({
+    where: { orgId, code: parsed.code, ...(parsed.id ? { id: { not: parsed.id } } : {}) },
+    select: { id: true },
+  });
+  if (clash) throw new Error(`Cost code ${parsed.code} already exists`);
+
+  const fields = { code: parsed.code, name: parsed.name, active: parsed.active, division: divisionOf(parsed.code) };
+  if (parsed.id) {
+    const { count } = await db.costCode.updateMany({ where: { id: parsed.id, orgId }, data: fields });
+    if (count === 0) throw new Error("Cost code not found");
+  } else {
+    await db.costCode.create({ data: { ...fields, orgId } });
+  }
+  revalidatePath("/dashboard/settings");
+}
+
+/**
+ * Delete an unused cost code.
+ *
+ * @throws If anything references the code — deactivate it instead.
+ */
+export async function deleteCostCode(costCodeId: string) {
+  const session = await requireManager();
+  const code = await db.costCode.findFirst({
+    where: { id: costCodeId, orgId: session.user.orgId! },
+    select: {
+      id: true,
+      _count: {
+        select: { budgetLines: true, timeEntries: true, materials: true, takeoffItems: true, changeOrderLines: true },
+      },
+    },
+  });
+  if (!code) throw new Error("Cost code not found");
+  if (Object.values(code._count).some((n) => n > 0)) {
+    throw new Error("This cost code is in use — deactivate it instead");
+  }
+  await db.costCode.delete({ where: { id: code.id } });
+  revalidatePath("/dashboard/settings");
+}
+
+/** Add back any MasterFormat divisions missing from the library. */
+export async function restoreMasterFormatDivisions() {
+  const session = await requireManager();
+  const orgId = session.user.orgId!;
+  const { count } = await db.costCode.createMany({
+    data: MASTERFORMAT_DIVISIONS.map((d) => ({ ...d, division: divisionOf(d.code), orgId })),
+    skipDuplicates: true,
+  });
+  revalidatePath("/dashboard/settings");
+  return count;
+}
+
+// ── Project budget lines ──
+
+/** Set a project's budget for a cost code, replacing any existing amount. */
+export async function saveCostCodeBudgetLine(data: z.input<typeof BudgetLineSchema>) {
+  const session = await requireManager();
+  const parsed = BudgetLineSchema.parse(data);
+  await verifyProjectAccess(session.user.id!, parsed.projectId, session.user.role);
+
+  const code = await db.costCode.findFirst({
+    where: { id: parsed.costCodeId, orgId: session.user.orgId! },
+    select: { id: true },
+  });
+  if (!code) throw new Error("Cost code not found");
+
+  const fields = { amount: parsed.amount, notes: parsed.notes || null };
+  await db.costCodeBudget.upsert({
+    where: { projectId_costCodeId: { projectId: parsed.projectId, costCodeId: code.id } },
+    create: { ...fields, projectId: parsed.projectId, costCodeId: code.id },
+    update: fields,
+  });
+  revalidatePath(`/dashboard/projects/${parsed.projectId}`);
+}
+
+/** Remove a cost code budget line from a project. */
+export async function deleteCostCodeBudgetLine(lineId: string) {
+  const session = await requireManager();
+  const line = await db.costCodeBudget.findFirst({
+    where: { id: lineId, project: { orgId: session.user.orgId! } },
+    select: { id: true, projectId: true },
+  });
+  if (!line) throw new Error("Budget line not found");
+  await verifyProjectAccess(session.user.id!, line.projectId, session.user.role);
+  await db.costCodeBudget.delete({ where: { id: line.id } });
+  revalidatePath(`/dashboard/projects/${line.projectId}`);
+}
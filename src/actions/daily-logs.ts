@@ -13,6 +13,8 @@
  *   - Crew count and equipment on site
  *   - Work summary (required), issues encountered, miscellaneous notes
  *
+ * Webhooks: `daily_log.created` is enqueued on creation.
+ *
  * Auth rules:
  *   - Read/create: any authenticated user
  *   - Delete: the log's author OR an ADMIN (prevents tampering by others)
@@ -23,6 +25,7 @@
 
 import { db } from "@/lib/db-types";
 import { auth } from "@/lib/auth";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
@@ -102,6 +105,14 @@ export async function createDailyLog(data: {
     },
   });
 
+  await emitWebhookEvent(session.user.orgId!, "daily_log.created", {
+    projectId: validated.projectId,
+    dailyLogId: log.id,
+    date: validated.date,
+    crewCount: validated.crewCount ?? null,
+    workSummary: validated.workSummary,
+  });
+
   revalidatePath(`/dashboard/projects/${validated.projectId}`);
   return log;
 }
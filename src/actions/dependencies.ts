@@ -2,17 +2,23 @@
 
 /**
  * @file actions/dependencies.ts
- * @description Server actions for phase dependency (finish-to-start) relationships.
+ * @description Server actions for phase dependency relationships.
  *
- * Phase dependencies model the Gantt chart constraint "Phase B cannot start until
- * Phase A is complete." They are stored as a PhaseDependency join table with an
- * optional `lagDays` buffer (e.g. "B starts 3 days after A finishes").
+ * Phase dependencies model Gantt chart constraints such as "Phase B cannot start
+ * until Phase A is complete." They are stored as a PhaseDependency join table
+ * with a link `type` and a `lagDays` offset:
+ *   - FS (default) — B starts after A finishes
+ *   - SS           — B starts after A starts
+ *   - FF           — B finishes after A finishes
+ *   - SF           — B finishes after A starts
+ * Positive lag adds a buffer ("B starts 3 days after A finishes"); negative lag
+ * is a lead ("B starts 2 days before A finishes").
  *
  * Circular dependency detection:
- *   The current implementation performs a single-hop cycle check — it verifies
- *   that the proposed dependency does not immediately reverse an existing edge.
- *   Transitive cycles (A→B→C→A) are NOT caught and must be handled at the UI
- *   layer (e.g. by disabling already-reachable predecessors in the picker).
+ *   Before an edge is created the project's existing edges are walked from the
+ *   dependent phase (`wouldCreateCycle` in lib/critical-path.ts). If the
+ *   prerequisite is reachable at any depth the edge would close a loop
+ *   (A→B→C→A) and is rejected.
  *
  * Cross-project guard:
  *   Both phases are fetched before creation and their `projectId` is compared —
@@ -31,13 +37,15 @@ import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
+import { dependenciesToLinks, wouldCreateCycle } from "@/lib/critical-path";
 
 // ── Zod Schemas ──
 
 const AddDependencySchema = z.object({
   phaseId: z.string().min(1),      // The dependent phase (the one that must wait)
-  dependsOnId: z.string().min(1),  // The prerequisite phase (must be complete first)
-  lagDays: z.number().int().min(0).optional(), // Optional buffer days after predecessor end
+  dependsOnId: z.string().min(1),  // The prerequisite phase
+  type: z.enum(["FS", "SS", "FF", "SF"]).optional(),
+  lagDays: z.number().int().min(-365).max(365).optional(), // Negative = lead
 });
 
 const RemoveDependencySchema = z.object({
@@ -50,20 +58,21 @@ type RemoveDependencyInput = z.infer<typeof RemoveDependencySchema>;
 // ── Mutations ──
 
 /**
- * Create a finish-to-start dependency between two phases in the same project.
+ * Create a dependency between two phases in the same project.
  *
- * Semantics: "phaseId cannot start until dependsOnId is complete, plus lagDays."
+ * Semantics (FS): "phaseId cannot start until dependsOnId is complete, plus lagDays."
  *
  * Guards:
  *   - A phase cannot depend on itself.
  *   - Both phases must exist and belong to the same project.
- *   - A direct (single-hop) cycle is rejected — `dependsOnId` must not already
- *     depend on `phaseId`.
+ *   - Any cycle is rejected — `dependsOnId` must not already depend on
+ *     `phaseId`, directly or through other phases.
  *
  * @param data.phaseId      - The waiting phase (dependent).
  * @param data.dependsOnId  - The prerequisite phase.
- * @param data.lagDays      - Days to wait after dependsOnId ends before phaseId starts
- *                            (default 0 — immediate start).
+ * @param data.type         - Link type (default "FS").
+ * @param data.lagDays      - Offset in days applied to the link (default 0;
+ *                            negative for a lead).
  * @returns The created PhaseDependency record.
  */
 export async function addPhaseDependency(data: AddDependencyInput) {
@@ -93,17 +102,21 @@ export async function addPhaseDependency(data: AddDependencyInput) {
     throw new Error("Phases must belong to the same project");
   }
 
-  // Single-hop cycle detection: does dependsOn already depend on phase?
-  // Note: transitive cycles are the UI's responsibility to prevent
-  const circular = await db.phaseDependency.findFirst({
-    where: { phaseId: parsed.dependsOnId, dependsOnId: parsed.phaseId },
+  // Transitive cycle detection: is dependsOn already downstream of phase?
+  const edges = await db.phaseDependency.findMany({
+    where: { phase: { projectId: phase.projectId } },
+    select: { phaseId: true, dependsOnId: true, lagDays: true },
   });
-  if (circular) throw new Error("Circular dependency detected");
+  if (wouldCreateCycle(dependenciesToLinks(edges), parsed.dependsOnId, parsed.phaseId)) {
+    throw new Error("Circular dependency detected");
+  }
 
+  const type = parsed.type ?? "FS";
   const dep = await db.phaseDependency.create({
     data: {
       phaseId: parsed.phaseId,
       dependsOnId: parsed.dependsOnId,
+      type,
       lagDays: parsed.lagDays ?? 0,
     },
   });
@@ -117,7 +130,7 @@ export async function addPhaseDependency(data: AddDependencyInput) {
         message: `${phase.name} now depends on ${dependsOn.name}`,
         projectId: phase.projectId,
         userId: session.user.id,
-        data: { phaseId: parsed.phaseId, dependsOnId: parsed.dependsOnId },
+        data: { phaseId: parsed.phaseId, dependsOnId: parsed.dependsOnId, type, lagDays: dep.lagDays },
       },
     })
     .catch(() => {});
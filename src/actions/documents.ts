@@ -14,6 +14,7 @@
  * Notification events:
  *   - DOCUMENT_UPLOADED        → all project members on creation
  *   - DOCUMENT_STATUS_CHANGED  → the uploader when their document is approved/rejected
+ *   - `document.uploaded` webhook → enqueued on creation
  *
  * Auth:
  *   - create: any role with "create document" permission
@@ -31,6 +32,7 @@ import { can, verifyProjectAccessViaPhase, verifyProjectAccess } from "@/lib/per
 import { revalidatePath } from "next/cache";
 import { del } from "@vercel/blob";
 import { notify, getProjectMemberIds } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 
 type DocCategory = "PERMIT" | "CONTRACT" | "INVOICE" | "BLUEPRINT" | "INSPECTION" | "OTHER";
 type DocStatus = "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED";
@@ -110,6 +112,16 @@ export async function createDocument(data: {
     data: { projectId: phase.projectId, phaseId: phase.id, documentId: document.id },
   });
 
+  await emitWebhookEvent(session.user.orgId!, "document.uploaded", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    documentId: document.id,
+    name: data.name,
+    category: data.category,
+    mimeType: data.mimeType,
+    url: data.url,
+  });
+
   revalidatePath(`/dashboard/projects/${phase.projectId}`);
   return document;
 }
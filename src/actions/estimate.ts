@@ -31,6 +31,7 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { can } from "@/lib/permissions";
+import { resolveCostCode } from "@/lib/cost-code-lookup";
 import { revalidatePath } from "next/cache";
 
 // Module-level cast — both Estimate and TakeoffItem are not in the generated
@@ -131,6 +132,7 @@ export async function createEstimate(data: {
  * @param data.unit        - Unit of measure (e.g. "SF", "LF", "EA").
  * @param data.unitCost    - Cost per unit.
  * @param data.category    - Optional category (e.g. "Labour", "Materials").
+ * @param data.costCodeId  - Optional org library cost code.
  * @param data.notes       - Optional notes.
  * @returns The newly created TakeoffItem with coerced Decimal fields.
  * @throws "Forbidden" if the caller lacks create:document permission.
@@ -142,6 +144,7 @@ export async function addTakeoffItem(data: {
   unit: string;
   unitCost: number;
   category?: string;
+  costCodeId?: string;
   notes?: string;
 }) {
   const session = await auth();
@@ -150,6 +153,7 @@ export async function addTakeoffItem(data: {
   if (!can(role, "create", "document")) throw new Error("Forbidden");
 
   const totalCost = data.quantity * data.unitCost;  // Computed before DB write
+  const { costCodeId } = await resolveCostCode(session.user.orgId!, { costCodeId: data.costCodeId });
 
   const item = await dbc.takeoffItem.create({
     data: {
@@ -159,6 +163,7 @@ export async function addTakeoffItem(data: {
       unitCost: data.unitCost,
       totalCost,
       category: data.category,
+      costCodeId,
       notes: data.notes,
       estimateId: data.estimateId,
     },
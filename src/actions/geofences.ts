@@ -0,0 +1,274 @@
+"use server";
+
+/**
+ * @file actions/geofences.ts
+ * @description Server actions for project geofences and the PM exception
+ * queue of off-site GPS clock-ins.
+ *
+ * Fences are circles or polygons drawn on the project map (geometry in
+ * lib/geofence.ts). The clock-in check itself runs in actions/gps-time-clock.ts;
+ * it files a GeofenceException for every clock-in that is not on site:
+ *
+ *   FLAGGED  the worker is clocked in; the review is recorded on the
+ *            exception, and the time entry created at clock-out says the
+ *            clock-in was off site until it is approved
+ *   BLOCKED  the clock-in was refused; approving clocks the worker in as of
+ *            the original attempt
+ *
+ * Reads require project membership; everything else requires ADMIN or
+ * PROJECT_MANAGER (can manage phase).
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { can, verifyProjectAccess } from "@/lib/permissions";
+import type {
+  GeofenceCheck,
+  GeofenceOutcome,
+  GeofencePolicy,
+  GeofenceShape,
+  LatLng,
+} from "@/lib/geofence";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const lat = z.number().min(-90).max(90);
+const lng = z.number().min(-180).max(180);
+
+const GeofenceSchema = z.discriminatedUnion("shape", [
+  z.object({
+    shape: z.literal("CIRCLE"),
+    name: z.string().trim().min(1).max(100),
+    centerLat: lat,
+    centerLng: lng,
+    radius: z.number().min(10, "Radius must be at least 10 m").max(10_000),
+  }),
+  z.object({
+    shape: z.literal("POLYGON"),
+    name: z.string().trim().min(1).max(100),
+    points: z.array(z.tuple([lat, lng])).min(3, "Draw at least 3 points").max(200),
+  }),
+]);
+
+const ReviewSchema = z.object({
+  decision: z.enum(["APPROVED", "REJECTED"]),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export interface ProjectGeofence {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+  centerLat: number | null;
+  centerLng: number | null;
+  radius: number | null;
+  points: LatLng[] | null;
+}
+
+export interface GeofenceExceptionRow {
+  id: string;
+  outcome: GeofenceOutcome;
+  check: GeofenceCheck;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  distance: number | null;
+  notes: string | null;
+  createdAt: Date;
+  phase: { id: string; name: string };
+  worker: { id: string; name: string; company: string | null };
+  clockEntryId: string | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+}
+
+// ── Helpers ──
+
+/**
+ * Verify the caller manages the project.
+ * @throws "Unauthorized" | "Forbidden"
+ */
+async function requireProjectManager(projectId: string) {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  const role = await verifyProjectAccess(session.user.id, projectId, session.user.role);
+  if (!can(role, "manage", "phase")) throw new Error("Forbidden");
+  return session;
+}
+
+// ── Queries ──
+
+/** A project's fences and the policy applied to clock-ins outside them. */
+export async function getProjectGeofences(
+  projectId: string
+): Promise<{ policy: GeofencePolicy; fences: ProjectGeofence[] }> {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  await verifyProjectAccess(session.user.id, projectId, session.user.role);
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { geofencePolicy: true, geofences: { orderBy: { createdAt: "asc" } } },
+  });
+  if (!project) throw new Error("Project not found");
+
+  return {
+    policy: project.geofencePolicy,
+    fences: project.geofences.map((f) => ({
+      id: f.id,
+      name: f.name,
+      shape: f.shape,
+      centerLat: f.centerLat,
+      centerLng: f.centerLng,
+      radius: f.radius,
+      points: (f.points as LatLng[] | null) ?? null,
+    })),
+  };
+}
+
+/**
+ * Off-site clock-ins for a project, pending first. Reviewed ones are limited
+ * to the most recent 50.
+ */
+export async function getGeofenceExceptions(projectId: string): Promise<GeofenceExceptionRow[]> {
+  await requireProjectManager(projectId);
+
+  const include = {
+    phase: { select: { id: true, name: true } },
+    worker: { select: { id: true, name: true, company: true } },
+    reviewedBy: { select: { name: true, email: true } },
+  } as const;
+  const [pending, reviewed] = await Promise.all([
+    db.geofenceException.findMany({ where: { projectId, status: "PENDING" }, include, orderBy: { createdAt: "asc" } }),
+    db.geofenceException.findMany({
+      where: { projectId, status: { not: "PENDING" } },
+      include,
+      orderBy: { reviewedAt: "desc" },
+      take: 50,
+    }),
+  ]);
+
+  return [...pending, ...reviewed].map((e) => ({
+    id: e.id,
+    outcome: e.outcome,
+    check: e.check,
+    status: e.status,
+    latitude: e.latitude,
+    longitude: e.longitude,
+    accuracy: e.accuracy,
+    distance: e.distance,
+    notes: e.notes,
+    createdAt: e.createdAt,
+    phase: e.phase,
+    worker: e.worker,
+    clockEntryId: e.clockEntryId,
+    reviewedBy: e.reviewedBy ? e.reviewedBy.name || e.reviewedBy.email : null,
+    reviewedAt: e.reviewedAt,
+    reviewNote: e.reviewNote,
+  }));
+}
+
+// ── Mutations ──
+
+/** Add a fence to a project, or redraw an existing one when `geofenceId` is given. */
+export async function saveGeofence(
+  projectId: string,
+  input: z.input<typeof GeofenceSchema>,
+  geofenceId?: string
+): Promise<{ id: string }> {
+  await requireProjectManager(projectId);
+  const fence = GeofenceSchema.parse(input);
+
+  const data =
+    fence.shape === "CIRCLE"
+      ? { name: fence.name, shape: fence.shape, centerLat: fence.centerLat, centerLng: fence.centerLng, radius: fence.radius, points: Prisma.DbNull }
+      : { name: fence.name, shape: fence.shape, centerLat: null, centerLng: null, radius: null, points: fence.points };
+
+  let id = geofenceId;
+  if (id) {
+    const existing = await db.geofence.findUnique({ where: { id }, select: { projectId: true } });
+    if (!existing || existing.projectId !== projectId) throw new Error("Geofence not found");
+    await db.geofence.update({ where: { id }, data });
+  } else {
+    ({ id } = await db.geofence.create({ data: { ...data, projectId } }));
+  }
+
+  revalidatePath(`/dashboard/projects/${projectId}`);
+  return { id };
+}
+
+export async function deleteGeofence(geofenceId: string) {
+  const fence = await db.geofence.findUnique({ where: { id: geofenceId }, select: { projectId: true } });
+  if (!fence) throw new Error("Geofence not found");
+  await requireProjectManager(fence.projectId);
+
+  await db.geofence.delete({ where: { id: geofenceId } });
+  revalidatePath(`/dashboard/projects/${fence.projectId}`);
+}
+
+/** Choose whether clock-ins outside every fence are flagged or blocked. */
+export async function updateGeofencePolicy(projectId: string, policy: GeofencePolicy) {
+  await requireProjectManager(projectId);
+  await db.project.update({
+    where: { id: projectId },
+    data: { geofencePolicy: z.enum(["FLAG", "BLOCK"]).parse(policy) },
+  });
+  revalidatePath(`/dashboard/projects/${projectId}`);
+}
+
+/**
+ * Approve or reject an off-site clock-in. Approving a BLOCKED attempt clocks
+ * the worker in as of the attempt.
+ */
+export async function reviewGeofenceException(exceptionId: string, input: z.input<typeof ReviewSchema>) {
+  const { decision, note } = ReviewSchema.parse(input);
+  const exception = await db.geofenceException.findUnique({ where: { id: exceptionId } });
+  if (!exception) throw new Error("Exception not found");
+  const session = await requireProjectManager(exception.projectId);
+  if (exception.status !== "PENDING") throw new Error("This exception has already been reviewed");
+
+  await db.$transaction(async (tx) => {
+    let clockEntryId = exception.clockEntryId;
+
+    if (decision === "APPROVED" && exception.outcome === "BLOCKED") {
+      const active = await tx.gpsClockEntry.findFirst({
+        where: { phaseId: exception.phaseId, workerId: exception.workerId, status: "CLOCKED_IN" },
+        select: { id: true },
+      });
+      if (active) throw new Error("The worker is already clocked in to this phase");
+      ({ id: clockEntryId } = await tx.gpsClockEntry.create({
+        data: {
+          phaseId: exception.phaseId,
+          workerId: exception.workerId,
+          clockInAt: exception.createdAt,
+          clockInLat: exception.latitude,
+          clockInLng: exception.longitude,
+          clockInAccuracy: exception.accuracy,
+          geofenceCheck: exception.check,
+          geofenceDistance: exception.distance,
+          status: "CLOCKED_IN",
+          notes: exception.notes,
+          createdById: session.user.id,
+        },
+      }));
+    }
+
+    await tx.geofenceException.update({
+      where: { id: exceptionId },
+      data: {
+        status: decision,
+        clockEntryId,
+        reviewedById: session.user.id,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+      },
+    });
+  });
+
+  revalidatePath(`/dashboard/projects/${exception.projectId}`);
+}
@@ -12,10 +12,25 @@
  *   - Location audit trail for compliance
  *
  * Clock entries flow:  CLOCKED_IN → CLOCKED_OUT → (auto-creates TimeEntry)
+ *
+ * Geofences: clock-ins are checked against the project's fences, allowing for
+ * the fix's reported accuracy (lib/geofence.ts). One that is not on site is
+ * flagged or blocked per the project's `geofencePolicy` and queued as a
+ * GeofenceException for a PM to review (actions/geofences.ts). Projects
+ * without fences are not checked.
  */
 
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { notify } from "@/lib/notifications";
+import {
+  checkGeofences,
+  geofenceOutcome,
+  type GeofenceCheck,
+  type GeofenceOutcome,
+  type GeofenceShapeInput,
+  type LatLng,
+} from "@/lib/geofence";
 import { revalidatePath } from "next/cache";
 
 const dbc = db as any;
@@ -51,9 +66,73 @@ interface GpsClockEntry {
   hoursWorked: number | null;
   status: "CLOCKED_IN" | "CLOCKED_OUT";
   notes: string | null;
+  geofenceCheck: GeofenceCheck | null;
+  geofenceDistance: number | null;
   worker?: { id: string; name: string };
 }
 
+interface GeofenceVerdict {
+  check: GeofenceCheck;
+  /** Metres to the nearest fence edge */
+  distance: number;
+  outcome: GeofenceOutcome | null;
+}
+
+// ── Helpers ──
+
+/**
+ * File an off-site clock-in in the project's exception queue and tell the
+ * project's owners and managers. A repeated BLOCKED attempt while one is
+ * still pending is not queued again.
+ */
+async function queueGeofenceException(
+  data: ClockInInput,
+  verdict: GeofenceVerdict & { outcome: GeofenceOutcome },
+  phase: { projectId: string; name: string },
+  workerId: string,
+  actor: { id: string; name?: string | null; email?: string | null },
+  attemptedAt: Date,
+  clockEntryId?: string
+) {
+  if (verdict.outcome === "BLOCKED") {
+    const pending = await dbc.geofenceException.findFirst({
+      where: { phaseId: data.phaseId, workerId, outcome: "BLOCKED", status: "PENDING" },
+      select: { id: true },
+    });
+    if (pending) return;
+  }
+
+  await dbc.geofenceException.create({
+    data: {
+      outcome: verdict.outcome,
+      check: verdict.check,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      accuracy: data.accuracy ?? null,
+      distance: verdict.distance,
+      notes: data.notes || null,
+      projectId: phase.projectId,
+      phaseId: data.phaseId,
+      workerId,
+      clockEntryId: clockEntryId ?? null,
+      createdAt: attemptedAt,
+    },
+  });
+
+  const managers = await dbc.projectMember.findMany({
+    where: { projectId: phase.projectId, role: { in: ["OWNER", "MANAGER"] } },
+    select: { userId: true },
+  });
+  notify({
+    type: "GEOFENCE_EXCEPTION",
+    title: verdict.outcome === "BLOCKED" ? "Clock-in blocked outside geofence" : "Clock-in outside geofence",
+    message: `${actor.name || actor.email} tried to clock in to ${phase.name} ${verdict.distance} m from the site`,
+    recipientIds: managers.map((m: { userId: string }) => m.userId),
+    actorId: actor.id,
+    data: { projectId: phase.projectId, phaseId: data.phaseId },
+  });
+}
+
 // ── Queries ──
 
 /**
@@ -146,17 +225,27 @@ export async function getActiveClockEntry(phaseId: string): Promise<{
 /**
  * Clock in to a phase with GPS coordinates.
  * Creates a GpsClockEntry with status CLOCKED_IN.
+ *
+ * @param attemptedAt - When the worker tried to clock in, for attempts replayed
+ *                      from the offline queue; recorded on any geofence exception
+ *                      (a PM approving a blocked attempt clocks in as of then).
+ *                      Ignored when in the future.
  */
-export async function clockIn(data: ClockInInput): Promise<{
+export async function clockIn(data: ClockInInput, attemptedAt?: Date): Promise<{
   success: boolean;
   entryId?: string;
   error?: string;
+  /** Present when the project has geofences */
+  geofence?: GeofenceVerdict;
 }> {
   const session = await auth();
   if (!session?.user?.id) {
     return { success: false, error: "Unauthorized" };
   }
 
+  const now = new Date();
+  const attempt = attemptedAt && attemptedAt < now ? attemptedAt : now;
+
   try {
     // Find or create staff record by email (Staff model has no userId)
     let staff = await dbc.staff.findFirst({
@@ -190,6 +279,38 @@ export async function clockIn(data: ClockInInput): Promise<{
       return { success: false, error: "Already clocked in to this phase" };
     }
 
+    const phase = await dbc.phase.findUnique({
+      where: { id: data.phaseId },
+      select: {
+        projectId: true,
+        name: true,
+        project: { select: { geofencePolicy: true, geofences: true } },
+      },
+    });
+
+    // Geofence check — allows for the fix's reported accuracy
+    const result = phase
+      ? checkGeofences(
+          data,
+          phase.project.geofences.map((f: Omit<GeofenceShapeInput, "points"> & { points: unknown }) => ({
+            ...f,
+            points: f.points as LatLng[] | null,
+          }))
+        )
+      : null;
+    const geofence: GeofenceVerdict | undefined = result
+      ? { check: result.check, distance: result.distance, outcome: geofenceOutcome(result.check, phase.project.geofencePolicy) }
+      : undefined;
+
+    if (geofence?.outcome === "BLOCKED") {
+      await queueGeofenceException(data, { ...geofence, outcome: "BLOCKED" }, phase, staff.id, session.user, attempt);
+      return {
+        success: false,
+        error: `Outside the project geofence (${geofence.distance} m away). A project manager has been asked to approve this clock-in.`,
+        geofence,
+      };
+    }
+
     const entry = await dbc.gpsClockEntry.create({
       data: {
         phaseId: data.phaseId,
@@ -198,18 +319,19 @@ export async function clockIn(data: ClockInInput): Promise<{
         clockInLat: data.latitude,
         clockInLng: data.longitude,
         clockInAccuracy: data.accuracy || null,
+        geofenceCheck: geofence?.check ?? null,
+        geofenceDistance: geofence?.distance ?? null,
         status: "CLOCKED_IN",
         notes: data.notes || null,
         createdById: session.user.id,
       },
     });
 
-    // Activity log — fire-and-forget
-    const phase = await dbc.phase.findUnique({
-      where: { id: data.phaseId },
-      select: { projectId: true, name: true },
-    });
+    if (geofence?.outcome === "FLAGGED") {
+      await queueGeofenceException(data, { ...geofence, outcome: "FLAGGED" }, phase, staff.id, session.user, attempt, entry.id);
+    }
 
+    // Activity log — fire-and-forget
     if (phase) {
       dbc.activityLog
         .create({
@@ -231,7 +353,7 @@ export async function clockIn(data: ClockInInput): Promise<{
       revalidatePath(`/dashboard/projects/${phase.projectId}`);
     }
 
-    return { success: true, entryId: entry.id };
+    return { success: true, entryId: entry.id, geofence };
   } catch (err) {
     console.error("clockIn error:", err);
     return {
@@ -258,7 +380,10 @@ export async function clockOut(data: ClockOutInput): Promise<{
   try {
     const entry = await dbc.gpsClockEntry.findUnique({
       where: { id: data.clockEntryId },
-      include: { phase: { select: { projectId: true, name: true } } },
+      include: {
+        phase: { select: { projectId: true, name: true } },
+        geofenceException: { select: { status: true } },
+      },
     });
 
     if (!entry) {
@@ -293,14 +418,18 @@ export async function clockOut(data: ClockOutInput): Promise<{
       },
     });
 
-    // Auto-create a time entry from the clock data
+    // Auto-create a time entry from the clock data; off-site clock-ins not yet
+    // approved are called out for whoever approves the hours
+    const offSite = entry.geofenceException && entry.geofenceException.status !== "APPROVED"
+      ? ` — clocked in off site (${entry.geofenceException.status === "REJECTED" ? "rejected" : "pending review"})`
+      : "";
     await dbc.timeEntry.create({
       data: {
         phaseId: entry.phaseId,
         workerId: entry.workerId,
         date: clockInTime, // Date of clock-in
         hours: hoursWorked,
-        description: `GPS-verified: ${hoursWorked}h (${clockInTime.toLocaleTimeString()} – ${clockOutTime.toLocaleTimeString()})`,
+        description: `GPS-verified: ${hoursWorked}h (${clockInTime.toLocaleTimeString()} – ${clockOutTime.toLocaleTimeString()})${offSite}`,
         status: "PENDING",
         createdById: session.user.id,
       },
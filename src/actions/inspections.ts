@@ -13,6 +13,8 @@
  *   - On schedule: all project members notified via SSE (INSPECTION_SCHEDULED).
  *   - On result: members notified only if `notifyOnResult` is true on the record
  *     (set at creation time, defaults to true).
+ *   - Webhooks: `inspection.scheduled` / `inspection.result` are always enqueued
+ *     (`notifyOnResult` governs in-app notifications only).
  *
  * All mutations require an authenticated session. No additional role checks —
  * any project member can schedule and record inspections.
@@ -22,6 +24,7 @@ import { db } from "@/lib/db-types";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { notify, getProjectMemberIds } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 import { z } from "zod";
 
 // ── Zod Schemas ──
@@ -100,6 +103,15 @@ export async function createInspection(data: {
     data: { projectId: phase.projectId, phaseId: phase.id, inspectionId: inspection.id },
   });
 
+  await emitWebhookEvent(session.user.orgId!, "inspection.scheduled", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    inspectionId: inspection.id,
+    title: inspection.title,
+    inspectorName: inspection.inspectorName,
+    scheduledAt: inspection.scheduledAt.toISOString(),
+  });
+
   revalidatePath(`/dashboard/projects/${phase.projectId}`);
   return inspection;
 }
@@ -146,6 +158,15 @@ export async function recordInspectionResult(
     });
   }
 
+  await emitWebhookEvent(session.user.orgId!, "inspection.result", {
+    projectId: inspection.phase.projectId,
+    phaseId: inspection.phaseId,
+    inspectionId,
+    title: inspection.title,
+    result,
+    notes: notes ?? null,
+  });
+
   revalidatePath(`/dashboard/projects/${inspection.phase.projectId}`);
   return updated;
 }
@@ -36,6 +36,7 @@ import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db-types";
 import type { Material, MaterialStatus } from "@/lib/db-types";
+import { resolveCostCode } from "@/lib/cost-code-lookup";
 import { z } from "zod";
 
 // ── Zod Schemas ──
@@ -48,6 +49,7 @@ const CreateMaterialSchema = z.object({
   cost: z.number().nonnegative().optional(), // Unit cost (not total)
   supplier: z.string().max(300).optional(),
   notes: z.string().max(2000).optional(),
+  costCodeId: z.string().min(1).optional(),
 });
 
 /** Valid material status values — validated before any status update. */
@@ -59,7 +61,7 @@ const MaterialStatusSchema = z.enum([
 
 /**
  * Assert the current user is a member of the project that owns `phaseId`.
- * Returns the userId, member record, and projectId for use by the calling action.
+ * Returns the userId, member record, projectId and orgId for use by the calling action.
  *
  * Note: uses `db as any` to access `phase` because this action file imports
  * db from `@/lib/db-types` which may have a narrower Prisma client type.
@@ -75,7 +77,7 @@ async function requireMember(phaseId: string) {
   if (!phase) throw new Error("Phase not found");
   const member = phase.project.members[0];
   if (!member) throw new Error("Not a project member");
-  return { userId: session.user.id, member, projectId: phase.projectId };
+  return { userId: session.user.id, member, projectId: phase.projectId, orgId: phase.project.orgId as string };
 }
 
 // ── Queries ──
@@ -85,7 +87,8 @@ async function requireMember(phaseId: string) {
  * Returns empty array for unauthenticated callers (safe for server components).
  *
  * `cost` is coerced from Prisma Decimal to Number before return — Decimal is
- * not serialisable across the server→client boundary.
+ * not serialisable across the server→client boundary. Materials ordered on a
+ * purchase order (actions/commitments.ts) carry its number and status.
  *
  * @param phaseId - Phase to fetch materials for.
  */
@@ -95,6 +98,7 @@ export async function getMaterials(phaseId: string): Promise<Material[]> {
   const mats = await db.material.findMany({
     where: { phaseId },
     orderBy: { createdAt: "asc" },
+    include: { purchaseOrder: { select: { id: true, number: true, status: true } } },
   });
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return mats.map((m: any) => ({ ...m, cost: m.cost ? Number(m.cost) : null }));
@@ -115,6 +119,7 @@ export async function getMaterials(phaseId: string): Promise<Material[]> {
  * @param data.cost      - Unit cost in project currency (optional).
  * @param data.supplier  - Supplier name (optional).
  * @param data.notes     - Free-text notes (optional, max 2000 chars).
+ * @param data.costCodeId - Org library cost code for job costing (optional).
  */
 export async function createMaterial(data: {
   phaseId: string;
@@ -124,9 +129,11 @@ export async function createMaterial(data: {
   cost?: number;
   supplier?: string;
   notes?: string;
+  costCodeId?: string;
 }): Promise<void> {
   const validated = CreateMaterialSchema.parse(data);
-  const { projectId } = await requireMember(validated.phaseId);
+  const { projectId, orgId } = await requireMember(validated.phaseId);
+  const { costCodeId } = await resolveCostCode(orgId, { costCodeId: validated.costCodeId });
   await db.material.create({
     data: {
       phaseId: data.phaseId,
@@ -136,6 +143,7 @@ export async function createMaterial(data: {
       cost: data.cost ?? null,
       supplier: data.supplier ?? null,
       notes: data.notes ?? null,
+      costCodeId,
       status: "ORDERED", // All materials start in the ordered state
     },
   });
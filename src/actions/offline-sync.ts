@@ -0,0 +1,25 @@
+"use server";
+
+/**
+ * @file actions/offline-sync.ts
+ * @description Stale-write check for the client-side offline queue.
+ *
+ * `useOfflineSync` calls this before replaying each queued mutation; a
+ * non-null result parks the mutation as a "conflict" for the user to resolve
+ * instead of overwriting a newer server change (lib/offline-conflicts.ts).
+ * The replayed action itself still enforces permissions.
+ */
+
+import { auth } from "@/lib/auth";
+import { detectOfflineConflict, type OfflineConflict } from "@/lib/offline-conflicts";
+
+export async function checkOfflineConflict(mutation: {
+  action: string;
+  payload: Record<string, unknown>;
+  timestamp: number;
+  baseUpdatedAt?: string;
+}): Promise<OfflineConflict | null> {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthorized");
+  return detectOfflineConflict(mutation, session.user.id);
+}
@@ -13,6 +13,10 @@
  *   - Previous payments made
  *   - Current amount due (auto-calculated)
  *
+ * These are phase-level, lump-sum applications. Project-level applications that
+ * roll up a schedule of values line by line live in schedule-of-values.ts and
+ * share the status and delete actions below.
+ *
  * Auto-numbering: `number` is assigned as the previous maximum + 1.
  * Uses `findFirst` with `orderBy: { number: "desc" }` rather than count + 1
  * to handle gaps correctly. Falls back to 1 if no prior applications exist.
@@ -25,6 +29,10 @@
  *
  * Status workflow: DRAFT → SUBMITTED → APPROVED | REJECTED
  * Status changes and deletes require manage:phase permission (higher than update).
+ * Every status change re-syncs the application's retainage ledger entry
+ * (lib/retainage.ts) — approval posts the withholding, rejection removes it.
+ * `vendorName` names the subcontractor billing; the ledger holds its retainage
+ * separately from the contractor's own.
  *
  * Revalidates `/dashboard` (not `/dashboard/projects`) — payment apps surface
  * on the top-level finance dashboard panel.
@@ -35,6 +43,7 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { can } from "@/lib/permissions";
+import { syncRetainageWithholding } from "@/lib/retainage";
 import { revalidatePath } from "next/cache";
 
 // Module-level cast — PaymentApplication is not in generated Prisma client types.
@@ -95,6 +104,7 @@ export async function getPaymentApplications(phaseId: string) {
  * @param data.materialsStored  - Materials stored on site (default 0).
  * @param data.retainage        - Retainage withheld (default 0).
  * @param data.previousPayments - Amount paid in prior applications (default 0).
+ * @param data.vendorName       - Subcontractor billing this application (optional).
  * @param data.notes            - Optional notes.
  * @returns The created payment application with coerced numeric fields.
  * @throws "Forbidden" if the caller lacks update:phase permission.
@@ -108,6 +118,7 @@ export async function createPaymentApplication(data: {
   materialsStored?: number;
   retainage?: number;
   previousPayments?: number;
+  vendorName?: string;
   notes?: string;
 }) {
   const session = await auth();
@@ -142,6 +153,7 @@ export async function createPaymentApplication(data: {
       retainage: data.retainage || 0,
       previousPayments: data.previousPayments || 0,
       currentDue,
+      vendorName: data.vendorName?.trim() || null,
       notes: data.notes || null,
       createdById: session.user.id,
     },
@@ -176,6 +188,7 @@ export async function updatePaymentAppStatus(id: string, status: string) {
     where: { id },
     data: { status },
   });
+  await syncRetainageWithholding(id, session.user.id!);
 
   revalidatePath("/dashboard");
 }
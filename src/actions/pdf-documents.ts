@@ -0,0 +1,344 @@
+"use server";
+
+/**
+ * @file actions/pdf-documents.ts
+ * @description Generate branded PDFs for phase records and file them as
+ * Documents on the phase.
+ *
+ * Supported records: change orders, RFIs, submittals (as a transmittal),
+ * daily logs, inspections and payment applications. Rendering happens on the
+ * server (lib/pdf-templates.ts, lib/aia-pdf.ts) with the organisation's logo
+ * and colours (lib/pdf-branding.ts); the file is uploaded to Vercel Blob under
+ * `documents/generated/` and recorded through `createDocument`, so it gets the
+ * usual DOCUMENT_UPLOADED activity, notifications and webhook.
+ *
+ * Daily logs and schedule-of-values pay applications belong to the project
+ * rather than a phase. They are filed on `phaseId` when given, otherwise on the
+ * phase whose estimated dates cover the record's date, falling back to the
+ * project's first phase.
+ *
+ * Requires the "create document" permission on the project (enforced by
+ * `createDocument`); lookups are scoped to the caller's organization.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { put } from "@vercel/blob";
+import { createDocument } from "@/actions/documents";
+import { getProjectPaymentApplications } from "@/actions/schedule-of-values";
+import { loadPdfBranding } from "@/lib/pdf-branding";
+import { renderPayApplicationPdf } from "@/lib/aia-pdf";
+import { lumpSumG703Line, rollupG702 } from "@/lib/aia-billing";
+import {
+  renderChangeOrderPdf,
+  renderDailyLogPdf,
+  renderInspectionReportPdf,
+  renderRfiPdf,
+  renderSubmittalTransmittalPdf,
+} from "@/lib/pdf-templates";
+
+export type PdfDocumentKind = "changeOrder" | "rfi" | "submittal" | "dailyLog" | "inspection" | "paymentApplication";
+
+type DocCategory = "PERMIT" | "CONTRACT" | "INVOICE" | "BLUEPRINT" | "INSPECTION" | "OTHER";
+
+interface RenderedPdf {
+  pdf: Buffer;
+  name: string;
+  phaseId: string;
+  category: DocCategory;
+}
+
+// ── Helpers ──
+
+const projectHeading = { select: { name: true, address: true, org: { select: { name: true } } } } as const;
+const phaseHeading = { select: { name: true, project: projectHeading } } as const;
+
+/** Pick the phase to file a project-level record on (see file header). */
+async function resolvePhaseId(projectId: string, on: Date, phaseId?: string): Promise<string> {
+  if (phaseId) {
+    const phase = await db.phase.findFirst({ where: { id: phaseId, projectId }, select: { id: true } });
+    if (!phase) throw new Error("Phase not found");
+    return phase.id;
+  }
+  const phase =
+    (await db.phase.findFirst({
+      where: { projectId, estStart: { lte: on }, estEnd: { gte: on } },
+      orderBy: { sortOrder: "asc" },
+      select: { id: true },
+    })) ??
+    (await db.phase.findFirst({ where: { projectId }, orderBy: { sortOrder: "asc" }, select: { id: true } }));
+  if (!phase) throw new Error("Add a phase to the project before generating documents");
+  return phase.id;
+}
+
+async function renderRecord(
+  kind: PdfDocumentKind,
+  id: string,
+  orgId: string,
+  phaseId?: string
+): Promise<RenderedPdf> {
+  const inOrg = { phase: { project: { orgId } } };
+
+  switch (kind) {
+    case "changeOrder": {
+      const co = await db.changeOrder.findFirst({
+        where: { id, ...inOrg },
+        include: {
+          phase: phaseHeading,
+          requestedBy: { select: { name: true } },
+          approvedBy: { select: { name: true } },
+          lineItems: { orderBy: { sortOrder: "asc" } },
+        },
+      });
+      if (!co) throw new Error("Change order not found");
+      const pdf = renderChangeOrderPdf(
+        {
+          projectName: co.phase.project.name,
+          projectAddress: co.phase.project.address,
+          phaseName: co.phase.name,
+          number: co.number,
+          title: co.title,
+          description: co.description,
+          reason: co.reason,
+          status: co.status,
+          amount: co.amount === null ? null : Number(co.amount),
+          requestedBy: co.requestedBy.name ?? "",
+          requestedAt: co.createdAt,
+          approvedBy: co.approvedBy?.name ?? null,
+          approvedAt: co.approvedAt,
+          lineItems: co.lineItems.map((l) => ({
+            category: l.category,
+            costCode: l.costCode,
+            description: l.description,
+            quantity: Number(l.quantity),
+            unit: l.unit,
+            unitCost: Number(l.unitCost),
+          })),
+          overheadPercent: co.overheadPercent === null ? null : Number(co.overheadPercent),
+          profitPercent: co.profitPercent === null ? null : Number(co.profitPercent),
+          scheduleImpactDays: co.scheduleImpactDays,
+        },
+        await loadPdfBranding(co.phase.project.org.name)
+      );
+      return { pdf, name: `Change Order ${co.number} - ${co.title}.pdf`, phaseId: co.phaseId, category: "CONTRACT" };
+    }
+
+    case "rfi": {
+      const rfi = await db.rFI.findFirst({
+        where: { id, ...inOrg },
+        include: {
+          phase: phaseHeading,
+          createdBy: { select: { name: true } },
+          assignedTo: { select: { name: true } },
+        },
+      });
+      if (!rfi) throw new Error("RFI not found");
+      const pdf = renderRfiPdf(
+        {
+          projectName: rfi.phase.project.name,
+          projectAddress: rfi.phase.project.address,
+          phaseName: rfi.phase.name,
+          rfiNumber: rfi.rfiNumber,
+          subject: rfi.subject,
+          question: rfi.question,
+          answer: rfi.answer,
+          status: rfi.status,
+          priority: rfi.priority,
+          dueDate: rfi.dueDate,
+          ballInCourt: rfi.ballInCourt,
+          createdBy: rfi.createdBy.name ?? "",
+          assignedTo: rfi.assignedTo?.name ?? null,
+          createdAt: rfi.createdAt,
+          answeredAt: rfi.answeredAt,
+        },
+        await loadPdfBranding(rfi.phase.project.org.name)
+      );
+      return { pdf, name: `RFI ${rfi.rfiNumber} - ${rfi.subject}.pdf`, phaseId: rfi.phaseId, category: "OTHER" };
+    }
+
+    case "submittal": {
+      const sub = await db.submittal.findFirst({
+        where: { id, ...inOrg },
+        include: {
+          phase: phaseHeading,
+          submittedBy: { select: { name: true } },
+          assignedTo: { select: { name: true } },
+        },
+      });
+      if (!sub) throw new Error("Submittal not found");
+      const pdf = renderSubmittalTransmittalPdf(
+        {
+          projectName: sub.phase.project.name,
+          projectAddress: sub.phase.project.address,
+          phaseName: sub.phase.name,
+          submittalNumber: sub.submittalNumber,
+          revision: sub.revision,
+          title: sub.title,
+          specSection: sub.specSection,
+          description: sub.description,
+          status: sub.status,
+          dueDate: sub.dueDate,
+          submittedBy: sub.submittedBy.name ?? "",
+          assignedTo: sub.assignedTo?.name ?? null,
+          createdAt: sub.createdAt,
+          returnedAt: sub.returnedAt,
+        },
+        await loadPdfBranding(sub.phase.project.org.name)
+      );
+      return {
+        pdf,
+        name: `Submittal ${sub.submittalNumber} Rev ${sub.revision} Transmittal - ${sub.title}.pdf`,
+        phaseId: sub.phaseId,
+        category: "OTHER",
+      };
+    }
+
+    case "dailyLog": {
+      const log = await db.dailyLog.findFirst({
+        where: { id, project: { orgId } },
+        include: {
+          project: projectHeading,
+          author: { select: { name: true } },
+        },
+      });
+      if (!log) throw new Error("Daily log not found");
+      const pdf = renderDailyLogPdf(
+        {
+          projectName: log.project.name,
+          projectAddress: log.project.address,
+          date: log.date,
+          weather: log.weather,
+          tempHigh: log.tempHigh,
+          tempLow: log.tempLow,
+          crewCount: log.crewCount,
+          equipment: log.equipment,
+          workSummary: log.workSummary,
+          issues: log.issues,
+          notes: log.notes,
+          author: log.author.name ?? "",
+        },
+        await loadPdfBranding(log.project.org.name)
+      );
+      return {
+        pdf,
+        name: `Daily Log ${log.date.toISOString().slice(0, 10)}.pdf`,
+        phaseId: await resolvePhaseId(log.projectId, log.date, phaseId),
+        category: "OTHER",
+      };
+    }
+
+    case "inspection": {
+      const inspection = await db.inspection.findFirst({
+        where: { id, ...inOrg },
+        include: {
+          phase: phaseHeading,
+        },
+      });
+      if (!inspection) throw new Error("Inspection not found");
+      const pdf = renderInspectionReportPdf(
+        {
+          projectName: inspection.phase.project.name,
+          projectAddress: inspection.phase.project.address,
+          phaseName: inspection.phase.name,
+          title: inspection.title,
+          inspectorName: inspection.inspectorName,
+          scheduledAt: inspection.scheduledAt,
+          completedAt: inspection.completedAt,
+          result: inspection.result,
+          notes: inspection.notes,
+        },
+        await loadPdfBranding(inspection.phase.project.org.name)
+      );
+      return {
+        pdf,
+        name: `Inspection Report - ${inspection.title}.pdf`,
+        phaseId: inspection.phaseId,
+        category: "INSPECTION",
+      };
+    }
+
+    case "paymentApplication": {
+      const app = await db.paymentApplication.findFirst({
+        where: { id, OR: [inOrg, { project: { orgId } }] },
+        include: {
+          phase: phaseHeading,
+          project: projectHeading,
+        },
+      });
+      const project = app?.project ?? app?.phase?.project;
+      if (!app || !project) throw new Error("Payment application not found");
+      const contractorName = app.vendorName ?? project.org.name;
+
+      let lines, summary;
+      if (app.phase) {
+        // Lump-sum phase application — one G703 line carrying the stored amounts
+        lines = [
+          lumpSumG703Line({
+            description: app.phase.name,
+            scheduledValue: Number(app.scheduledValue),
+            workCompleted: Number(app.workCompleted),
+            materialsStored: Number(app.materialsStored),
+            retainage: Number(app.retainage),
+          }),
+        ];
+        summary = rollupG702(lines, Number(app.netChangeOrders), Number(app.previousPayments));
+      } else {
+        const sov = (await getProjectPaymentApplications(app.projectId!)).find((a) => a.id === id);
+        if (!sov) throw new Error("Payment application not found");
+        ({ lines, summary } = sov);
+      }
+
+      const pdf = renderPayApplicationPdf({
+        applicationNumber: app.number,
+        applicationDate: app.createdAt,
+        periodStart: app.periodStart,
+        periodEnd: app.periodEnd,
+        projectName: project.name,
+        projectAddress: project.address,
+        contractorName,
+        lines,
+        summary,
+        branding: await loadPdfBranding(project.org.name),
+      });
+      return {
+        pdf,
+        name: `Pay Application ${app.number}${app.vendorName ? ` - ${app.vendorName}` : ""}.pdf`,
+        phaseId: app.phaseId ?? (await resolvePhaseId(app.projectId!, app.periodEnd, phaseId)),
+        category: "INVOICE",
+      };
+    }
+  }
+}
+
+// ── Mutations ──
+
+/**
+ * Render a record as a branded PDF and file it as a Document on its phase.
+ *
+ * @param kind    - Which template to use.
+ * @param id      - The record's ID.
+ * @param phaseId - For daily logs and project pay applications: the phase to
+ *                  file on (defaults as described in the file header).
+ * @returns The created Document.
+ */
+export async function generatePdfDocument(kind: PdfDocumentKind, id: string, phaseId?: string) {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+
+  const rendered = await renderRecord(kind, id, session.user.orgId!, phaseId);
+  const fileName = rendered.name.replace(/[\\/:*?"<>|]+/g, "-");
+  const blob = await put(`documents/generated/${Date.now()}-${fileName}`, rendered.pdf, {
+    access: "public",
+    contentType: "application/pdf",
+  });
+
+  return createDocument({
+    phaseId: rendered.phaseId,
+    name: fileName,
+    url: blob.url,
+    size: rendered.pdf.length,
+    mimeType: "application/pdf",
+    category: rendered.category,
+    notes: "Generated PDF",
+  });
+}
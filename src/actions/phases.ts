@@ -15,6 +15,11 @@
  * - createPhase: Auto-assigns sortOrder as (max + 1) to append at end of Gantt.
  * - updatePhaseDates: No cache revalidation — caller must debounce during Gantt drag.
  * - updatePhaseStatus: Records actualStart/actualEnd automatically; fires SSE notifications.
+ * - Cascade mode (`cascade: true` on either of the above): every transitive
+ *   dependent is pushed out by the slip, respecting lagDays (lib/schedule-cascade.ts).
+ *   `previewScheduleCascade` returns the same diff without writing. The changed
+ *   phase and all shifted successors are written in one transaction, followed by
+ *   TIMELINE_SHIFTED notifications and a single PHASE_DATES_CHANGED activity entry.
  * - assignStaffToPhase: Enforces single-owner constraint (demotes previous owner).
  * - getProjectPhases: Returns phases ordered by sortOrder for Gantt rendering.
  *
@@ -29,6 +34,9 @@ import { canManagePhase } from "@/lib/permissions";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { notify, getProjectMemberIds } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
+import { dependenciesToLinks } from "@/lib/critical-path";
+import { planCascade, type CascadeShift } from "@/lib/schedule-cascade";
 
 // ── Zod Schemas ──
 
@@ -52,8 +60,113 @@ const UpdateDatesSchema = z.object({
   estEnd: z.string(),
   worstStart: z.string().optional().nullable(),
   worstEnd: z.string().optional().nullable(),
+  cascade: z.boolean().optional(), // Push dependent phases out by the slip
 });
 
+const PHASE_STATUSES = [
+  "PENDING",
+  "IN_PROGRESS",
+  "REVIEW_REQUESTED",
+  "UNDER_REVIEW",
+  "COMPLETE",
+] as const;
+
+/** A proposed change to preview: either new dates or a status transition. */
+const CascadePreviewSchema = z.object({
+  phaseId: z.string().min(1),
+  estStart: z.string().optional(),
+  estEnd: z.string().optional(),
+  status: z.enum(PHASE_STATUSES).optional(),
+});
+
+// ── Cascade helpers ──
+
+/** Load every phase and dependency edge in a project for cascade planning. */
+async function loadCascadeGraph(projectId: string) {
+  const [phases, deps] = await Promise.all([
+    db.phase.findMany({
+      where: { projectId },
+      select: { id: true, name: true, estStart: true, estEnd: true, worstStart: true, worstEnd: true },
+    }),
+    db.phaseDependency.findMany({
+      where: { phase: { projectId } },
+      select: { phaseId: true, dependsOnId: true, lagDays: true, type: true },
+    }),
+  ]);
+  return { phases, links: dependenciesToLinks(deps) };
+}
+
+/**
+ * Dates implied by a status transition, or null when it does not push the
+ * phase later:
+ *   - COMPLETE finishing after estEnd → finishes today
+ *   - first IN_PROGRESS after estStart → starts today, planned duration kept
+ */
+function statusProjectedDates(
+  phase: { estStart: Date; estEnd: Date; actualStart: Date | null },
+  status: string,
+  now: Date
+): { start: Date; end: Date } | null {
+  if (status === "COMPLETE") {
+    return now > phase.estEnd ? { start: phase.actualStart ?? phase.estStart, end: now } : null;
+  }
+  if (status === "IN_PROGRESS" && !phase.actualStart && now > phase.estStart) {
+    const end = new Date(phase.estEnd.getTime() + (now.getTime() - phase.estStart.getTime()));
+    return { start: now, end };
+  }
+  return null;
+}
+
+/** Prisma update for one planned shift — used inside the cascade transaction. */
+function shiftUpdate(shift: CascadeShift) {
+  return db.phase.update({
+    where: { id: shift.phaseId },
+    data: {
+      estStart: shift.newEstStart,
+      estEnd: shift.newEstEnd,
+      ...(shift.newWorstStart && { worstStart: shift.newWorstStart }),
+      ...(shift.newWorstEnd && { worstEnd: shift.newWorstEnd }),
+    },
+  });
+}
+
+/** Notify project members and write the single activity entry for a cascade. */
+async function announceCascade(
+  actor: { id: string; orgId: string },
+  source: { id: string; name: string; projectId: string },
+  shifts: CascadeShift[]
+) {
+  const maxDays = Math.max(...shifts.map((s) => s.deltaDays));
+  const summary = `${source.name} slipped — ${shifts.length} dependent phase${
+    shifts.length === 1 ? "" : "s"
+  } moved by up to ${maxDays} day${maxDays === 1 ? "" : "s"}`;
+
+  const memberIds = await getProjectMemberIds(source.projectId);
+  notify({
+    type: "TIMELINE_SHIFTED",
+    title: `Schedule shifted: ${source.name}`,
+    message: summary,
+    recipientIds: memberIds,
+    actorId: actor.id,
+    data: { projectId: source.projectId, phaseId: source.id, shiftedCount: shifts.length },
+  });
+
+  db.activityLog.create({
+    data: {
+      orgId: actor.orgId,
+      action: "PHASE_DATES_CHANGED",
+      message: summary,
+      projectId: source.projectId,
+      userId: actor.id,
+      data: {
+        phaseId: source.id,
+        cascade: true,
+        shifts: shifts.map((s) => ({ phaseId: s.phaseId, name: s.name, deltaDays: s.deltaDays })),
+      },
+    },
+  }).catch(() => {}); // fire-and-forget
+}
+
 // ── Mutations ──
 
 /**
@@ -113,17 +226,21 @@ export async function createPhase(data: z.infer<typeof CreatePhaseSchema>) {
  * for debouncing to avoid thrashing the DB on every pixel of drag movement.
  * Intentionally does NOT call revalidatePath so the Gantt stays responsive.
  *
- * Requires: authenticated session (no role check).
+ * With `cascade: true`, dependents are shifted in the same transaction and the
+ * project is revalidated. Cascading requires ADMIN or PROJECT_MANAGER.
+ *
+ * Requires: authenticated session (no role check unless cascading).
+ * @returns The shifts applied to dependent phases (empty without cascade).
  */
 export async function updatePhaseDates(
   data: z.infer<typeof UpdateDatesSchema>
-) {
+): Promise<CascadeShift[]> {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
 
   const parsed = UpdateDatesSchema.parse(data);
 
-  await db.phase.update({
+  const phaseUpdate = db.phase.update({
     where: { id: parsed.phaseId },
     data: {
       estStart: new Date(parsed.estStart),
@@ -133,7 +250,65 @@ export async function updatePhaseDates(
     },
   });
 
-  // Don't revalidate on every drag — caller should debounce
+  if (!parsed.cascade) {
+    await phaseUpdate;
+    // Don't revalidate on every drag — caller should debounce
+    return [];
+  }
+
+  if (!canManagePhase(session.user.role)) throw new Error("Forbidden");
+  const current = await db.phase.findUnique({
+    where: { id: parsed.phaseId },
+    select: { id: true, name: true, projectId: true },
+  });
+  if (!current) throw new Error("Phase not found");
+
+  const graph = await loadCascadeGraph(current.projectId);
+  const shifts = planCascade(graph.phases, graph.links, current.id, {
+    start: new Date(parsed.estStart),
+    end: new Date(parsed.estEnd),
+  });
+  await db.$transaction([phaseUpdate, ...shifts.map(shiftUpdate)]);
+
+  if (shifts.length > 0) {
+    await announceCascade({ id: session.user.id!, orgId: session.user.orgId! }, current, shifts);
+  }
+  revalidatePath(`/dashboard/projects/${current.projectId}`);
+  return shifts;
+}
+
+/**
+ * Preview which dependent phases a date change or status transition would
+ * move in cascade mode. Read-only — nothing is written.
+ *
+ * @param data.phaseId  - The phase being changed
+ * @param data.estStart - Proposed new estimated start and
+ * @param data.estEnd   - finish (Gantt drag), or
+ * @param data.status   - Proposed status (dates implied by today's date)
+ * @returns Planned shifts in dependency order; empty when nothing would move.
+ */
+export async function previewScheduleCascade(
+  data: z.infer<typeof CascadePreviewSchema>
+): Promise<CascadeShift[]> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+
+  const parsed = CascadePreviewSchema.parse(data);
+  const phase = await db.phase.findUnique({
+    where: { id: parsed.phaseId },
+    select: { id: true, projectId: true, estStart: true, estEnd: true, actualStart: true },
+  });
+  if (!phase) throw new Error("Phase not found");
+
+  const moved = parsed.estStart && parsed.estEnd
+    ? { start: new Date(parsed.estStart), end: new Date(parsed.estEnd) }
+    : parsed.status
+      ? statusProjectedDates(phase, parsed.status, new Date())
+      : null;
+  if (!moved) return [];
+
+  const graph = await loadCascadeGraph(phase.projectId);
+  return planCascade(graph.phases, graph.links, phase.id, moved);
 }
 
 /**
@@ -143,6 +318,9 @@ export async function updatePhaseDates(
  *   - Sets actualEnd to now and forces progress=100 on COMPLETE.
  *   - Fires SSE notifications to all project members (fire-and-forget).
  *   - Logs a PHASE_STATUS_CHANGED activity entry.
+ *   - Enqueues a `phase.status_changed` webhook.
+ *   - With `options.cascade`, a late start/finish shifts dependents in the same
+ *     transaction (see `statusProjectedDates`). Requires ADMIN/PROJECT_MANAGER.
  *
  * Role restriction: only ADMIN/PROJECT_MANAGER can set UNDER_REVIEW or COMPLETE.
  *
@@ -150,18 +328,13 @@ export async function updatePhaseDates(
  */
 export async function updatePhaseStatus(
   phaseId: string,
-  status: string
+  status: string,
+  options: { cascade?: boolean } = {}
 ) {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
 
-  const validStatuses = [
-    "PENDING",
-    "IN_PROGRESS",
-    "REVIEW_REQUESTED",
-    "UNDER_REVIEW",
-    "COMPLETE",
-  ];
+  const validStatuses: readonly string[] = PHASE_STATUSES;
   if (!validStatuses.includes(status)) throw new Error("Invalid status");
 
   // Only PM/Admin can approve reviews or mark complete
@@ -173,17 +346,37 @@ export async function updatePhaseStatus(
     throw new Error("Forbidden");
   }
 
-  const phase = await db.phase.update({
+  const now = new Date();
+  const statusUpdate = db.phase.update({
     where: { id: phaseId },
     data: {
-      status: status as "PENDING" | "IN_PROGRESS" | "REVIEW_REQUESTED" | "UNDER_REVIEW" | "COMPLETE",
+      status: status as (typeof PHASE_STATUSES)[number],
       // Auto-set timestamps at status boundaries
-      ...(status === "COMPLETE" ? { progress: 100, actualEnd: new Date() } : {}),
-      ...(status === "IN_PROGRESS" && { actualStart: new Date() }),
+      ...(status === "COMPLETE" ? { progress: 100, actualEnd: now } : {}),
+      ...(status === "IN_PROGRESS" && { actualStart: now }),
     },
     include: { project: true },
   });
 
+  let shifts: CascadeShift[] = [];
+  let phase;
+  if (options.cascade) {
+    if (!canManagePhase(session.user.role)) throw new Error("Forbidden");
+    const before = await db.phase.findUnique({
+      where: { id: phaseId },
+      select: { projectId: true, estStart: true, estEnd: true, actualStart: true },
+    });
+    if (!before) throw new Error("Phase not found");
+    const moved = statusProjectedDates(before, status, now);
+    if (moved) {
+      const graph = await loadCascadeGraph(before.projectId);
+      shifts = planCascade(graph.phases, graph.links, phaseId, moved);
+    }
+    [phase] = await db.$transaction([statusUpdate, ...shifts.map(shiftUpdate)]);
+  } else {
+    phase = await statusUpdate;
+  }
+
   // Human-readable labels for notification copy
   const statusLabels: Record<string, string> = {
     IN_PROGRESS: "started",
@@ -219,6 +412,18 @@ export async function updatePhaseStatus(
     },
   }).catch(() => {}); // fire-and-forget
 
+  if (shifts.length > 0) {
+    await announceCascade({ id: session.user.id!, orgId: session.user.orgId! }, phase, shifts);
+  }
+
+  await emitWebhookEvent(phase.project.orgId, "phase.status_changed", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    name: phase.name,
+    status,
+    progress: phase.progress,
+  });
+
   revalidatePath(`/dashboard/projects/${phase.projectId}`);
   return phase;
 }
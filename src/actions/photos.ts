@@ -11,6 +11,7 @@
  *   - createPhoto:      single photo, used for drag-drop or camera capture.
  *   - createPhotoBatch: multiple photos at once (e.g. bulk upload from device).
  *     Uses `createMany` for efficiency and fires a single batch notification.
+ *   Both enqueue a `photo.uploaded` webhook.
  *
  * Flag workflow (PM+ only):
  *   PM flags a photo (REPLACEMENT_NEEDED, ADDITIONAL_ANGLES, etc.) →
@@ -31,6 +32,7 @@ import { can, verifyProjectAccessViaPhase } from "@/lib/permissions";
 import { revalidatePath } from "next/cache";
 import { del } from "@vercel/blob";
 import { notify, getProjectMemberIds } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 
 /** Valid photo flag reasons a PM can apply. */
 type PhotoFlagType =
@@ -93,6 +95,14 @@ export async function createPhoto(data: {
     },
   }).catch(() => {});
 
+  await emitWebhookEvent(session.user.orgId!, "photo.uploaded", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    photoIds: [photo.id],
+    urls: [photo.url],
+    count: 1,
+  });
+
   revalidatePath(`/dashboard/projects/${phase.projectId}`);
   return photo;
 }
@@ -160,6 +170,14 @@ export async function createPhotoBatch(data: {
     data: { projectId: phase.projectId, phaseId: phase.id },
   });
 
+  // createMany returns no IDs — the batch webhook carries URLs instead
+  await emitWebhookEvent(session.user.orgId!, "photo.uploaded", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    urls: data.photos.map((p) => p.url),
+    count: created.count,
+  });
+
   revalidatePath(`/dashboard/projects/${phase.projectId}`);
   return { count: created.count };
 }
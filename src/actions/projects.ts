@@ -15,6 +15,8 @@
  *   4. Write to DB via Prisma
  *   5. Revalidate Next.js cache paths
  *   6. Redirect or return data
+ *
+ * Webhooks: project.created / project.updated are enqueued before redirecting.
  */
 
 import { db } from "@/lib/db";
@@ -23,6 +25,7 @@ import { canCreateProject } from "@/lib/permissions";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { z } from "zod";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 
 // ── Zod Schemas ──
 
@@ -139,6 +142,12 @@ export async function createProjectWithPhases(data: {
     });
   }
 
+  await emitWebhookEvent(session.user.orgId!, "project.created", {
+    projectId: project.id,
+    name: project.name,
+    phaseCount: parsed.phases?.length ?? 0,
+  });
+
   revalidatePath("/dashboard");
   redirect(`/dashboard/projects/${project.id}/timeline`);
 }
@@ -186,6 +195,12 @@ export async function createProject(formData: FormData) {
     },
   });
 
+  await emitWebhookEvent(session.user.orgId!, "project.created", {
+    projectId: project.id,
+    name: project.name,
+    phaseCount: 0,
+  });
+
   revalidatePath("/dashboard");
   redirect(`/dashboard/projects/${project.id}/timeline`);
 }
@@ -206,7 +221,7 @@ export async function updateProject(projectId: string, formData: FormData) {
   const planApproval = formData.get("planApproval") as string;
   const budget = formData.get("budget") as string;
 
-  await db.project.update({
+  const project = await db.project.update({
     where: { id: projectId },
     data: {
       ...(name ? { name } : {}),
@@ -217,6 +232,13 @@ export async function updateProject(projectId: string, formData: FormData) {
     },
   });
 
+  await emitWebhookEvent(project.orgId, "project.updated", {
+    projectId,
+    name: project.name,
+    status: project.status,
+    budget: project.budget != null ? Number(project.budget) : null,
+  });
+
   revalidatePath(`/dashboard/projects/${projectId}`);
   revalidatePath("/dashboard");
 }
@@ -6,21 +6,18 @@
  *
  * Report schedules allow ADMIN/PM users to configure automatic periodic email
  * delivery of project health summaries to a list of recipients. Schedules are
- * evaluated by a cron job that calls `sendDueReports()` once per hour.
+ * evaluated hourly by `GET /api/cron/reports`, which runs
+ * `deliverDueReports()` (lib/report-delivery.ts) across all orgs.
  *
  * Supported frequencies:
  *   - WEEKLY  — fires on a specific UTC day-of-week (0=Sunday … 6=Saturday)
  *   - MONTHLY — fires on a specific UTC day-of-month (1–31)
  *
- * Duplicate-fire protection:
- *   `isScheduleDue()` checks that `lastSentAt` is more than 20 hours ago before
- *   allowing another delivery. This prevents double-firing if the cron job is
- *   triggered more frequently than the schedule period.
- *
  * Delivery:
- *   `sendDueReports()` marks each due schedule as sent and returns a count.
- *   The actual email delivery (nodemailer / Resend / SendGrid) is intentionally
- *   omitted from this stub and must be wired up by the implementing developer.
+ *   Reports are emailed with CSV or XLSX attachments (`format`) and every send
+ *   is recorded as a ReportDelivery row — `getReportDeliveries()` returns that
+ *   history. Due-date rules and duplicate-fire protection live with the
+ *   delivery code in lib/report-delivery.ts.
  *
  * Note: `requireAdmin()` here is slightly mis-named — it actually allows any
  * authenticated user to manage schedules (the comment in the original code
@@ -31,7 +28,19 @@
 import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db-types";
-import type { ReportSchedule, ReportFrequency } from "@/lib/db-types";
+import type { ReportSchedule, ReportFrequency, ReportFormat } from "@/lib/db-types";
+import { deliverDueReports } from "@/lib/report-delivery";
+
+/** One email in a schedule's delivery history. */
+export interface ReportDeliveryEntry {
+  id: string;
+  scheduleId: string;
+  recipient: string;
+  status: "SENT" | "FAILED";
+  error: string | null;
+  projectCount: number;
+  createdAt: Date;
+}
 
 // ── Auth helper ──
 
@@ -58,6 +67,20 @@ export async function getReportSchedules(): Promise<ReportSchedule[]> {
   return db.reportSchedule.findMany({ where: { orgId: session.user.orgId! }, orderBy: { createdAt: "desc" } });
 }
 
+/**
+ * Fetch the most recent report deliveries across the org's schedules, newest
+ * first. Returns an empty array for unauthenticated callers.
+ */
+export async function getReportDeliveries(limit: number = 100): Promise<ReportDeliveryEntry[]> {
+  const session = await auth();
+  if (!session?.user?.id) return [];
+  return db.reportDelivery.findMany({
+    where: { schedule: { orgId: session.user.orgId! } },
+    orderBy: { createdAt: "desc" },
+    take: Math.min(limit, 500),
+  });
+}
+
 // ── Mutations ──
 
 /**
@@ -70,6 +93,7 @@ export async function getReportSchedules(): Promise<ReportSchedule[]> {
  * @param data.recipients     - Email addresses to send the report to (at least one required).
  * @param data.includeProjects - Optional project IDs to restrict the report scope.
  *                              Empty array or undefined = all projects.
+ * @param data.format         - Attachment format (default XLSX).
  */
 export async function createReportSchedule(data: {
   frequency: ReportFrequency;
@@ -78,6 +102,7 @@ export async function createReportSchedule(data: {
   sendHour: number;
   recipients: string[];
   includeProjects?: string[];
+  format?: ReportFormat;
 }): Promise<void> {
   await requireAdmin();
   const session = await auth();
@@ -92,6 +117,7 @@ export async function createReportSchedule(data: {
       sendHour: data.sendHour,
       recipients: data.recipients,
       includeProjects: data.includeProjects ?? [],
+      format: data.format ?? "XLSX",
       active: true,
     },
   });
@@ -121,75 +147,19 @@ export async function deleteReportSchedule(id: string): Promise<void> {
   revalidatePath("/dashboard/settings");
 }
 
-// ── Cron job entry point ──
+// ── Manual run ──
 
 /**
- * Evaluate all active schedules and send reports for any that are due.
- * Intended to be called by a Vercel Cron job or equivalent scheduled function
- * every hour (e.g. `0 * * * *`).
+ * Deliver any of the caller's org schedules that are due right now.
+ * The hourly cron route does the same for every org without a session; this
+ * is the session-scoped equivalent.
  *
- * For each due schedule:
- *   1. Records `lastSentAt = now` to prevent duplicate delivery.
- *   2. (TODO) Dispatches the actual report email via the configured mailer.
- *
- * @returns `{ sent }` — the number of reports dispatched in this run.
+ * @returns `{ sent }` — the number of schedules delivered in this run.
  */
 export async function sendDueReports(): Promise<{ sent: number }> {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
-  const now = new Date();
-  const schedules: ReportSchedule[] = await db.reportSchedule.findMany({
-    where: { orgId: session.user.orgId!, active: true },
-  });
-
-  let sent = 0;
-  for (const schedule of schedules) {
-    const isDue = isScheduleDue(schedule, now);
-    if (!isDue) continue;
-
-    // Persist the sent timestamp BEFORE dispatching to avoid double-send on retry
-    // TODO: wire up nodemailer / Resend / SendGrid here and send the actual report
-    await db.reportSchedule.update({
-      where: { id: schedule.id },
-      data: { lastSentAt: now },
-    });
-    sent++;
-  }
-  return { sent };
-}
-
-// ── Helpers ──
-
-/**
- * Determine whether a schedule should fire at the given `now` timestamp.
- *
- * Rules (all must pass):
- *   1. Not sent in the last 20 hours — prevents double-fire on frequent cron runs.
- *   2. Current UTC hour matches `sendHour`.
- *   3. For WEEKLY: current UTC day-of-week matches `dayOfWeek` (default Monday=1).
- *   4. For MONTHLY: current UTC date matches `dayOfMonth` (default 1st).
- *
- * @param schedule - The schedule record from the DB.
- * @param now      - Reference timestamp (typically `new Date()` from the caller).
- */
-function isScheduleDue(schedule: ReportSchedule, now: Date): boolean {
-  if (schedule.lastSentAt) {
-    const last = new Date(schedule.lastSentAt);
-    const hoursSince = (now.getTime() - last.getTime()) / 3600000;
-    // 20-hour buffer prevents duplicate delivery on hourly cron runs
-    if (hoursSince < 20) return false;
-  }
-
-  const hour = now.getUTCHours();
-  if (hour !== schedule.sendHour) return false;
-
-  if (schedule.frequency === "WEEKLY") {
-    // dayOfWeek: 0=Sunday, 1=Monday, …, 6=Saturday (UTC)
-    return now.getUTCDay() === (schedule.dayOfWeek ?? 1);
-  }
-  if (schedule.frequency === "MONTHLY") {
-    // dayOfMonth: 1–31 (UTC)
-    return now.getUTCDate() === (schedule.dayOfMonth ?? 1);
-  }
-  return false;
+  const result = await deliverDueReports(new Date(), session.user.orgId!);
+  revalidatePath("/dashboard/settings");
+  return { sent: result.schedules };
 }
@@ -15,15 +15,18 @@
  *   - `getOverdueReport`         — phases past estEnd, not yet COMPLETE
  *   - `getJobPLReport`           — per-project P&L: budget vs actual vs change orders
  *   - `exportJobPLCsv`           — CSV export of the Job P&L data
+ *   - `getScheduleVarianceReport` — per-phase start/finish/cost variance against
+ *                                   each project's latest schedule baseline
  *
  * Contractor Reports — scoped to the current user's assigned work:
  *   - `getContractorPerformance` — merged view of member phases + staff-matched phases
  *
+ * The health, overdue and P&L queries live in lib/report-data.ts so scheduled
+ * report delivery (lib/report-delivery.ts) can run them without a session; the
+ * actions here only resolve the caller's scope.
+ *
  * Key types:
- *   `JobPLRow` — exported interface for the P&L report row shape; lives here because
- *   this is not a `"use server"` restriction violation (it IS in the actions file and
- *   exported types are allowed when the file has async exports). Consuming components
- *   should import it from here.
+ *   `JobPLRow` — P&L report row shape, re-exported from lib/report-data.ts.
  *
  * Decimal coercion:
  *   All Prisma `Decimal` fields (budget, estimatedCost, actualCost, amount) are
@@ -33,79 +36,23 @@
 
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { computeBaselineVariance } from "@/lib/baseline-variance";
+import { queryJobPL, queryOverduePhases, queryProjectHealth, type JobPLRow } from "@/lib/report-data";
+
+export type { JobPLRow } from "@/lib/report-data";
 
 // ── Admin / PM Reports ──
 
 /**
  * Compute a health summary for every project the current user is a member of.
- *
- * Health classification:
- *   - "at-risk"     — any phase is overdue (past estEnd, not COMPLETE)
- *   - "on-track"    — no overdue phases, at least one active phase
- *   - "not-started" — no active or overdue phases
+ * See `queryProjectHealth` (lib/report-data.ts) for the health classification.
  *
  * @returns Array of project summary objects ordered by most recently updated.
  */
 export async function getProjectHealthReport() {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
-
-  const projects = await db.project.findMany({
-    where: { orgId: session.user.orgId!, members: { some: { userId: session.user.id } } },
-    include: {
-      phases: {
-        select: {
-          id: true,
-          name: true,
-          status: true,
-          progress: true,
-          estStart: true,
-          estEnd: true,
-          actualStart: true,
-          actualEnd: true,
-          isMilestone: true,
-        },
-      },
-      _count: { select: { phases: true, members: true } },
-    },
-    orderBy: { updatedAt: "desc" },
-  });
-
-  const now = new Date();
-
-  return projects.map((project: typeof projects[number]) => {
-    const phases = project.phases;
-    const completed = phases.filter((p: typeof phases[number]) => p.status === "COMPLETE").length;
-    const active = phases.filter(
-      (p: typeof phases[number]) =>
-        p.status === "IN_PROGRESS" ||
-        p.status === "REVIEW_REQUESTED" ||
-        p.status === "UNDER_REVIEW"
-    ).length;
-    const overdue = phases.filter(
-      (p: typeof phases[number]) => p.status !== "COMPLETE" && new Date(p.estEnd) < now
-    ).length;
-    const pending = phases.filter((p: typeof phases[number]) => p.status === "PENDING").length;
-    const total = phases.length;
-    const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
-
-    // "at-risk" takes precedence; "not-started" when no phases are moving
-    const health =
-      overdue > 0 ? "at-risk" : active > 0 ? "on-track" : "not-started";
-
-    return {
-      id: project.id,
-      name: project.name,
-      address: project.address,
-      status: project.status,
-      budget: project.budget ? Number(project.budget) : null, // Decimal → number
-      estCompletion: project.estCompletion,
-      memberCount: project._count.members,
-      phases: { total, completed, active, overdue, pending },
-      progress,
-      health,
-    };
-  });
+  return queryProjectHealth({ orgId: session.user.orgId!, memberId: session.user.id });
 }
 
 /**
@@ -298,143 +245,25 @@ export async function getTeamPerformance() {
 export async function getOverdueReport() {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
-
-  const now = new Date();
-
-  const overduePhases = await db.phase.findMany({
-    where: {
-      project: { members: { some: { userId: session.user.id } } },
-      status: { not: "COMPLETE" },
-      estEnd: { lt: now },
-    },
-    include: {
-      project: { select: { id: true, name: true } },
-      assignments: {
-        include: { staff: { select: { name: true, company: true } } },
-        where: { isOwner: true },
-        take: 1, // Only the primary owner
-      },
-    },
-    orderBy: { estEnd: "asc" }, // Most overdue first
-  });
-
-  return overduePhases.map((p: typeof overduePhases[number]) => {
-    const daysOver = Math.ceil(
-      (now.getTime() - new Date(p.estEnd).getTime()) / 86400000
-    );
-    return {
-      id: p.id,
-      name: p.name,
-      status: p.status,
-      projectId: p.project.id,
-      projectName: p.project.name,
-      estEnd: p.estEnd,
-      daysOverdue: daysOver,
-      progress: p.progress,
-      owner: p.assignments[0]?.staff?.name || "Unassigned",
-      ownerCompany: p.assignments[0]?.staff?.company || null,
-    };
-  });
+  return queryOverduePhases({ orgId: session.user.orgId!, memberId: session.user.id });
 }
 
 // ── Job P&L Report ──
 
-/**
- * Row shape for the Job Profit & Loss report.
- * Exported so consuming components can type-annotate report table rows.
- */
-export interface JobPLRow {
-  projectId: string;
-  projectName: string;
-  status: string;
-  /** Original project budget (from project.budget). */
-  budget: number;
-  /** Sum of all phase estimatedCost values. */
-  totalEstimatedCost: number;
-  /** Sum of all phase actualCost values. */
-  totalActualCost: number;
-  /** Sum of all approved change order amounts across all phases. */
-  changeOrderTotal: number;
-  /** budget + changeOrderTotal — the revenue-adjusted contract value. */
-  adjustedBudget: number;
-  /** adjustedBudget - totalActualCost — gross profit before overhead. */
-  grossProfit: number;
-  /** grossProfit / adjustedBudget * 100 — percentage margin. */
-  profitMargin: number;
-  phaseCount: number;
-  completedPhases: number;
-}
-
 /**
  * Build the Job P&L report for all active (non-archived) projects.
- * Aggregates budget, costs, and approved change orders into a single row per project.
- *
- * Note: Only approved change orders are included in `changeOrderTotal` —
- * pending/rejected COs have no financial impact until approved.
- * All Prisma Decimal values are coerced to Number before return.
+ * Aggregates budget, costs, and approved change orders into a single row per
+ * project, each with its budget vs committed vs actual per cost code.
  */
 export async function getJobPLReport(): Promise<JobPLRow[]> {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
-
-  const projects = await db.project.findMany({
-    where: { orgId: session.user.orgId!, status: { not: "ARCHIVED" } },
-    include: {
-      phases: {
-        select: {
-          id: true,
-          status: true,
-          estimatedCost: true,
-          actualCost: true,
-          changeOrders: {
-            where: { status: "APPROVED" }, // Only approved COs affect P&L
-            select: { amount: true },
-          },
-        },
-      },
-    },
-    orderBy: { name: "asc" },
-  });
-
-  return projects.map((project: typeof projects[number]) => {
-    const budget = Number(project.budget || 0);
-    const totalEstimatedCost = project.phases.reduce(
-      (sum: number, p: typeof project.phases[number]) => sum + Number(p.estimatedCost || 0),
-      0
-    );
-    const totalActualCost = project.phases.reduce(
-      (sum: number, p: typeof project.phases[number]) => sum + Number(p.actualCost || 0),
-      0
-    );
-    const changeOrderTotal = project.phases.reduce(
-      (sum: number, p: typeof project.phases[number]) =>
-        sum + p.changeOrders.reduce((s: number, co: typeof p.changeOrders[number]) => s + Number(co.amount || 0), 0),
-      0
-    );
-    const adjustedBudget = budget + changeOrderTotal;
-    const grossProfit = adjustedBudget - totalActualCost;
-    const profitMargin = adjustedBudget > 0 ? (grossProfit / adjustedBudget) * 100 : 0;
-    const completedPhases = project.phases.filter((p: typeof project.phases[number]) => p.status === "COMPLETE").length;
-
-    return {
-      projectId: project.id,
-      projectName: project.name,
-      status: project.status,
-      budget,
-      totalEstimatedCost,
-      totalActualCost,
-      changeOrderTotal,
-      adjustedBudget,
-      grossProfit,
-      profitMargin,
-      phaseCount: project.phases.length,
-      completedPhases,
-    };
-  });
+  return queryJobPL({ orgId: session.user.orgId! });
 }
 
 /**
- * Export the Job P&L report as a CSV string.
+ * Export the Job P&L report as a CSV string: one row per project, then a
+ * second table with one row per project cost code.
  * All string values are double-quote escaped to handle names containing commas.
  *
  * @returns A UTF-8 CSV string ready to be written to a Blob or Response.
@@ -462,7 +291,111 @@ export async function exportJobPLCsv(): Promise<string> {
       .join(",")
   );
 
-  return [header, ...csvRows].join("\n");
+  // Second table: budget vs committed vs actual per cost code
+  const costCodeHeader =
+    "Project,Cost Code,Description,Estimate,Budget,Approved Changes,Revised Budget,Committed,Actual,Remaining,Labor Hours";
+  const costCodeRows = rows.flatMap((r: JobPLRow) =>
+    r.costCodes.map((c) =>
+      [
+        r.projectName,
+        c.code,
+        c.name,
+        c.estimate.toFixed(2),
+        c.budget.toFixed(2),
+        c.approvedChanges.toFixed(2),
+        c.revisedBudget.toFixed(2),
+        c.committed.toFixed(2),
+        c.actual.toFixed(2),
+        c.remaining.toFixed(2),
+        c.laborHours,
+      ]
+        .map((v) => `"${v.toString().replace(/"/g, '""')}"`)
+        .join(",")
+    )
+  );
+
+  return [header, ...csvRows, ...(costCodeRows.length > 0 ? ["", costCodeHeader, ...costCodeRows] : [])].join("\n");
+}
+
+// ── Schedule Variance Report ──
+
+/** One phase of a project compared against the project's latest baseline. */
+export interface ScheduleVarianceRow {
+  projectName: string;
+  baselineName: string;
+  baselineDate: Date;
+  phaseName: string;
+  baselineStart: Date | null;
+  baselineEnd: Date | null;
+  currentStart: Date | null;
+  currentEnd: Date | null;
+  /** Days late (+) or early (−) against the baseline; null if not in both. */
+  startVarianceDays: number | null;
+  finishVarianceDays: number | null;
+  costVariance: number | null;
+}
+
+/**
+ * Compare every active project that has a schedule baseline against its most
+ * recent one. Projects without a baseline are omitted.
+ * Variance rules live in lib/baseline-variance.ts.
+ */
+export async function getScheduleVarianceReport(): Promise<ScheduleVarianceRow[]> {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+
+  const projects = await db.project.findMany({
+    where: { orgId: session.user.orgId!, status: { not: "ARCHIVED" }, baselines: { some: {} } },
+    include: {
+      phases: {
+        select: {
+          id: true,
+          name: true,
+          estStart: true,
+          estEnd: true,
+          actualStart: true,
+          actualEnd: true,
+          estimatedCost: true,
+          actualCost: true,
+        },
+        orderBy: { sortOrder: "asc" },
+      },
+      baselines: {
+        include: { phases: true },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return projects.flatMap((project: typeof projects[number]) => {
+    const baseline = project.baselines[0];
+    const variance = computeBaselineVariance(
+      project.phases.map((p: typeof project.phases[number]) => ({
+        ...p,
+        estimatedCost: p.estimatedCost == null ? null : Number(p.estimatedCost),
+        actualCost: p.actualCost == null ? null : Number(p.actualCost),
+      })),
+      baseline.phases.map((b: typeof baseline.phases[number]) => ({
+        ...b,
+        estimatedCost: b.estimatedCost == null ? null : Number(b.estimatedCost),
+      }))
+    );
+    return variance.map((v) => ({
+      projectName: project.name,
+      baselineName: baseline.name,
+      baselineDate: baseline.createdAt,
+      phaseName: v.name,
+      baselineStart: v.baselineStart,
+      baselineEnd: v.baselineEnd,
+      currentStart: v.currentStart,
+      currentEnd: v.currentEnd,
+      startVarianceDays: v.startVarianceDays,
+      finishVarianceDays: v.finishVarianceDays,
+      costVariance: v.costVariance,
+    }));
+  });
 }
 
 // ── Contractor Reports ──
@@ -0,0 +1,265 @@
+"use server";
+
+/**
+ * @file actions/retainage.ts
+ * @description Server actions for a project's retainage ledger — balances held
+ * per vendor, variable-rate tiers and retainage releases.
+ *
+ * Withholding is posted automatically when pay applications are approved
+ * (lib/retainage.ts); this module reads the ledger and records releases.
+ *
+ * Release gate: every release — partial or final — must reference an APPROVED
+ * `UNCONDITIONAL_FINAL` LienWaiver on one of the project's phases whose
+ * `vendorName` matches the balance being released. The contractor's own
+ * balance (vendorName null) is matched against the organization's name.
+ * A final release pays out the whole remaining balance and closes it.
+ *
+ * All mutations require ADMIN or PROJECT_MANAGER (canManagePhase).
+ * All Decimal fields are coerced to Number before being returned.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canManagePhase } from "@/lib/permissions";
+import { toCents } from "@/lib/aia-billing";
+import { rateForCompletion, sameVendor, summarizeRetainage, type RetainageBalance } from "@/lib/retainage";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const TierSchema = z.object({
+  minPercentComplete: z.number().min(0).max(100),
+  ratePercent: z.number().min(0).max(100),
+});
+
+const ReleaseSchema = z.object({
+  projectId: z.string().min(1),
+  vendorName: z.string().trim().min(1).nullable(),
+  amount: z.number().positive().optional(), // ignored for a final release
+  final: z.boolean(),
+  lienWaiverId: z.string().min(1),
+  note: z.string().max(2000).optional(),
+});
+
+/** One ledger line for the history table. */
+export interface RetainageLedgerEntry {
+  id: string;
+  type: "WITHHELD" | "RELEASED";
+  amount: number;
+  vendorName: string | null;
+  ratePercent: number | null;
+  final: boolean;
+  note: string | null;
+  payAppNumber: number | null;
+  lienWaiverId: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/** An approved unconditional final lien waiver that can back a release. */
+export interface ReleaseWaiverOption {
+  id: string;
+  vendorName: string;
+  phaseName: string;
+  amount: number | null;
+}
+
+export interface RetainageLedger {
+  contractorName: string;
+  /** Per-vendor balances, each with the waivers that can back its release. */
+  balances: (RetainageBalance & { waivers: ReleaseWaiverOption[] })[];
+  entries: RetainageLedgerEntry[];
+  tiers: { minPercentComplete: number; ratePercent: number }[];
+  /** Percent of the schedule of values billed so far (0 without an SOV). */
+  percentComplete: number;
+  /** Tier rate that applies to the next SOV pay application, or null. */
+  currentRate: number | null;
+}
+
+// ── Helpers ──
+
+async function requireManager() {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  if (!canManagePhase(session.user.role)) throw new Error("Forbidden");
+  return session;
+}
+
+// ── Queries ──
+
+/**
+ * Load a project's retainage ledger: balances per vendor, history (newest
+ * first), rate tiers and the waivers that can back a release.
+ * Returns null when the project is not in the caller's org.
+ */
+export async function getRetainageLedger(projectId: string): Promise<RetainageLedger | null> {
+  const session = await auth();
+  if (!session?.user) return null;
+  const project = await db.project.findFirst({
+    where: { id: projectId, orgId: session.user.orgId! },
+    select: { org: { select: { name: true } } },
+  });
+  if (!project) return null;
+
+  const [entries, tiers, sov, waivers] = await Promise.all([
+    db.retainageEntry.findMany({
+      where: { projectId },
+      include: {
+        paymentApplication: { select: { number: true } },
+        createdBy: { select: { name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    db.retainageRateTier.findMany({ where: { projectId }, orderBy: { minPercentComplete: "asc" } }),
+    db.sovLineItem.findMany({
+      where: { projectId },
+      select: {
+        scheduledValue: true,
+        payAppLines: {
+          where: { paymentApplication: { status: { not: "REJECTED" } } },
+          select: { workThisPeriod: true },
+        },
+      },
+    }),
+    db.lienWaiver.findMany({
+      where: { phase: { projectId }, waiverType: "UNCONDITIONAL_FINAL", status: "APPROVED" },
+      select: { id: true, vendorName: true, amount: true, phase: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  const ledger = entries.map((e) => ({
+    id: e.id,
+    type: e.type,
+    amount: Number(e.amount),
+    vendorName: e.vendorName,
+    ratePercent: e.ratePercent === null ? null : Number(e.ratePercent),
+    final: e.final,
+    note: e.note,
+    payAppNumber: e.paymentApplication?.number ?? null,
+    lienWaiverId: e.lienWaiverId,
+    createdBy: e.createdBy?.name ?? null,
+    createdAt: e.createdAt,
+  }));
+  const tierValues = tiers.map((t) => ({ minPercentComplete: Number(t.minPercentComplete), ratePercent: Number(t.ratePercent) }));
+  const contractSum = sov.reduce((s, i) => s + Number(i.scheduledValue), 0);
+  const billed = sov.reduce((s, i) => s + i.payAppLines.reduce((a, l) => a + Number(l.workThisPeriod), 0), 0);
+  const percentComplete = contractSum > 0 ? Math.round((billed / contractSum) * 1000) / 10 : 0;
+
+  const waiverOptions = waivers.map((w) => ({
+    id: w.id,
+    vendorName: w.vendorName,
+    phaseName: w.phase.name,
+    amount: w.amount === null ? null : Number(w.amount),
+  }));
+
+  return {
+    contractorName: project.org.name,
+    balances: summarizeRetainage([...ledger].reverse()).map((b) => ({
+      ...b,
+      waivers: waiverOptions.filter((w) => sameVendor(w.vendorName, b.vendorName ?? project.org.name)),
+    })),
+    entries: ledger,
+    tiers: tierValues,
+    percentComplete,
+    currentRate: rateForCompletion(tierValues, percentComplete),
+  };
+}
+
+// ── Mutations ──
+
+/**
+ * Replace a project's retainage rate tiers (e.g. 0% → 10%, 50% → 5%).
+ * Pass [] to go back to each SOV line's own rate.
+ */
+export async function setRetainageRateTiers(projectId: string, tiers: z.input<typeof TierSchema>[]) {
+  const session = await requireManager();
+  const parsed = z.array(TierSchema).max(10).parse(tiers);
+  if (new Set(parsed.map((t) => t.minPercentComplete)).size !== parsed.length) {
+    throw new Error("Each tier needs a different completion threshold");
+  }
+  const project = await db.project.findFirst({ where: { id: projectId, orgId: session.user.orgId! }, select: { id: true } });
+  if (!project) throw new Error("Project not found");
+
+  await db.$transaction([
+    db.retainageRateTier.deleteMany({ where: { projectId } }),
+    db.retainageRateTier.createMany({ data: parsed.map((t) => ({ ...t, projectId })) }),
+  ]);
+  revalidatePath(`/dashboard/projects/${projectId}`);
+}
+
+/**
+ * Release retainage held for a vendor (or the contractor when `vendorName` is null).
+ *
+ * @param data.amount       - Partial release amount; a final release pays the full balance.
+ * @param data.final        - Close out the balance.
+ * @param data.lienWaiverId - Approved UNCONDITIONAL_FINAL waiver from the same vendor.
+ * @throws If the waiver does not qualify or the amount exceeds the balance held.
+ */
+export async function releaseRetainage(data: z.input<typeof ReleaseSchema>) {
+  const session = await requireManager();
+  const parsed = ReleaseSchema.parse(data);
+  const project = await db.project.findFirst({
+    where: { id: parsed.projectId, orgId: session.user.orgId! },
+    select: { org: { select: { name: true } } },
+  });
+  if (!project) throw new Error("Project not found");
+
+  const vendor = parsed.vendorName ?? project.org.name;
+  const waiver = await db.lienWaiver.findFirst({
+    where: { id: parsed.lienWaiverId, phase: { projectId: parsed.projectId } },
+    select: { waiverType: true, status: true, vendorName: true },
+  });
+  if (
+    !waiver ||
+    waiver.waiverType !== "UNCONDITIONAL_FINAL" ||
+    waiver.status !== "APPROVED" ||
+    !sameVendor(waiver.vendorName, vendor)
+  ) {
+    throw new Error(`Releasing retainage requires an approved unconditional final lien waiver from ${vendor}`);
+  }
+
+  const entries = await db.retainageEntry.findMany({
+    where: { projectId: parsed.projectId },
+    select: { type: true, amount: true, vendorName: true, final: true },
+    orderBy: { createdAt: "asc" },
+  });
+  const balance = summarizeRetainage(entries.map((e) => ({ ...e, amount: Number(e.amount) }))).find((b) =>
+    sameVendor(b.vendorName, parsed.vendorName)
+  );
+  if (!balance || balance.balance <= 0) throw new Error(`No retainage is held for ${vendor}`);
+
+  const amount = parsed.final ? balance.balance : toCents(parsed.amount ?? 0);
+  if (amount <= 0) throw new Error("Enter an amount to release");
+  if (amount > balance.balance) throw new Error("Release exceeds the retainage held");
+
+  await db.retainageEntry.create({
+    data: {
+      type: "RELEASED",
+      amount,
+      vendorName: balance.vendorName,
+      final: parsed.final,
+      note: parsed.note || null,
+      projectId: parsed.projectId,
+      lienWaiverId: parsed.lienWaiverId,
+      createdById: session.user.id!,
+    },
+  });
+
+  // Fire-and-forget activity log
+  db.activityLog
+    .create({
+      data: {
+        orgId: session.user.orgId!,
+        action: "RETAINAGE_RELEASED",
+        message: `Released ${parsed.final ? "final " : ""}retainage of $${amount.toFixed(2)} to ${vendor}`,
+        projectId: parsed.projectId,
+        userId: session.user.id,
+        data: { amount, vendorName: balance.vendorName, final: parsed.final, lienWaiverId: parsed.lienWaiverId },
+      },
+    })
+    .catch(() => {});
+
+  revalidatePath(`/dashboard/projects/${parsed.projectId}`);
+}
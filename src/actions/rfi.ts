@@ -24,12 +24,14 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { can } from "@/lib/permissions";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 import { revalidatePath } from "next/cache";
 
 // ── Queries ──
 
 /**
- * Fetch all RFIs for a phase, including assignee and author details.
+ * Fetch all RFIs for a phase, including assignee and author details and the
+ * potential change orders (PCOs) raised from each RFI.
  *
  * Ordered by status (ASC) then rfiNumber (ASC) so open items surface first
  * and are listed in submission order within each status group.
@@ -49,6 +51,11 @@ export async function getRFIs(phaseId: string) {
     include: {
       assignedTo: { select: { id: true, name: true, company: true } },
       createdBy: { select: { id: true, name: true } },
+      changeOrders: {
+        where: { type: "PCO" },
+        select: { id: true, number: true, title: true, status: true, amount: true, parentId: true },
+        orderBy: { createdAt: "asc" },
+      },
     },
     orderBy: [{ status: "asc" }, { rfiNumber: "asc" }],
   });
@@ -62,6 +69,7 @@ export async function getRFIs(phaseId: string) {
     dueDate: item.dueDate?.toISOString?.() ?? item.dueDate,
     answeredAt: item.answeredAt?.toISOString?.() ?? item.answeredAt,
     closedAt: item.closedAt?.toISOString?.() ?? item.closedAt,
+    changeOrders: item.changeOrders.map((co: any) => ({ ...co, amount: co.amount === null ? null : Number(co.amount) })),
   }));
 }
 
@@ -121,6 +129,17 @@ export async function createRFI(data: {
     },
   });
 
+  const phase = await db.phase.findUnique({ where: { id: data.phaseId }, select: { projectId: true } });
+  await emitWebhookEvent(session.user.orgId!, "rfi.created", {
+    projectId: phase?.projectId ?? null,
+    phaseId: data.phaseId,
+    rfiId: item.id,
+    rfiNumber,
+    subject: item.subject,
+    priority: item.priority,
+    dueDate: item.dueDate?.toISOString() ?? null,
+  });
+
   revalidatePath(`/dashboard/projects`);
   return item;
 }
@@ -0,0 +1,462 @@
+"use server";
+
+/**
+ * @file actions/schedule-of-values.ts
+ * @description Server actions for a project's schedule of values (SOV) and the
+ * project-level AIA G702/G703 pay applications billed against it.
+ *
+ * The SOV breaks the contract sum into line items (SovLineItem), each with its
+ * own scheduled value and retainage %. A project pay application bills every
+ * line for the period — work completed and materials stored — and the G702
+ * totals are rolled up from those lines (lib/aia-billing.ts):
+ *   - Column D (previous work) is the sum of work billed on the line by every
+ *     earlier application that was not REJECTED.
+ *   - G702 line 2 is the sum of APPROVED change orders on the project's phases.
+ *   - G702 line 7 is the sum of `currentDue` on earlier non-rejected applications.
+ *
+ * Retainage: a line's rate defaults to the project's rate tier in force
+ * (lib/retainage.ts), else the SOV line's own rate. Once a line has been
+ * billed, only value added since the previous application is retained at the
+ * current rate, so stepping the rate down never shrinks what is already held.
+ *
+ * Applications are numbered per project like phase applications (max + 1) and
+ * share the status workflow and delete action in paymentApp.ts. Only one
+ * application may be open (DRAFT or SUBMITTED) at a time, because each one's
+ * column D depends on the ones before it; DRAFT lines can be re-billed until
+ * the application is submitted.
+ *
+ * The rolled-up totals are stored on PaymentApplication (scheduledValue,
+ * workCompleted, materialsStored, retainage, previousPayments, currentDue,
+ * netChangeOrders) so finance views and exports keep working unchanged.
+ *
+ * All mutations require ADMIN or PROJECT_MANAGER (canManagePhase).
+ * All Decimal fields are coerced to Number before being returned.
+ */
+
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canManagePhase } from "@/lib/permissions";
+import { computeG703Line, rollupG702, toCents, validateG703Line, type G702Summary, type G703Line } from "@/lib/aia-billing";
+import { rateForCompletion } from "@/lib/retainage";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+// ── Zod Schemas ──
+
+const LineItemSchema = z.object({
+  itemNumber: z.string().trim().min(1).max(20),
+  description: z.string().trim().min(1).max(300),
+  scheduledValue: z.number().min(0),
+  retainagePercent: z.number().min(0).max(100).default(10),
+  phaseId: z.string().min(1).nullable().optional(),
+});
+
+const BilledLineSchema = z.object({
+  lineItemId: z.string().min(1),
+  workThisPeriod: z.number().min(0),
+  materialsStored: z.number().min(0).default(0),
+  retainagePercent: z.number().min(0).max(100).optional(), // defaults to the tier in force, else the SOV line's rate
+});
+
+const CreatePayAppSchema = z.object({
+  projectId: z.string().min(1),
+  periodStart: z.string().min(1),
+  periodEnd: z.string().min(1),
+  lines: z.array(BilledLineSchema),
+  notes: z.string().max(5000).optional(),
+});
+
+/** One SOV line with the amount billed to date across non-rejected applications. */
+export interface SovLineItemSummary {
+  id: string;
+  itemNumber: string;
+  description: string;
+  scheduledValue: number;
+  retainagePercent: number;
+  phaseId: string | null;
+  phaseName: string | null;
+  billedToDate: number;
+  /** Columns I and F on the latest approved application — the base for the next one. */
+  previousRetainage: number | null;
+  previousMaterialsStored: number;
+}
+
+/** A project pay application with its G703 lines and G702 summary. */
+export interface ProjectPayApplication {
+  id: string;
+  number: number;
+  status: string;
+  periodStart: Date;
+  periodEnd: Date;
+  notes: string | null;
+  createdAt: Date;
+  createdBy: string | null;
+  lines: (G703Line & { lineItemId: string })[];
+  summary: G702Summary;
+}
+
+// ── Helpers ──
+
+async function requireManager() {
+  const session = await auth();
+  if (!session?.user) throw new Error("Unauthorized");
+  if (!canManagePhase(session.user.role)) throw new Error("Forbidden");
+  return session;
+}
+
+async function requireOrgProject(projectId: string, orgId: string) {
+  const project = await db.project.findFirst({ where: { id: projectId, orgId }, select: { id: true } });
+  if (!project) throw new Error("Project not found");
+}
+
+/**
+ * Bill every SOV line of a project for one period and roll the result up.
+ *
+ * @param excludeAppId - Application being re-billed; it does not count as "previous".
+ */
+async function billProject(
+  projectId: string,
+  inputs: z.infer<typeof BilledLineSchema>[],
+  excludeAppId?: string
+) {
+  const [items, previousApps, changeOrders, tiers] = await Promise.all([
+    db.sovLineItem.findMany({ where: { projectId }, orderBy: [{ sortOrder: "asc" }, { itemNumber: "asc" }] }),
+    db.paymentApplication.findMany({
+      where: { projectId, status: { not: "REJECTED" }, ...(excludeAppId ? { id: { not: excludeAppId } } : {}) },
+      select: {
+        number: true,
+        currentDue: true,
+        lines: { select: { lineItemId: true, workThisPeriod: true, materialsStored: true, retainage: true } },
+      },
+      orderBy: { number: "asc" },
+    }),
+    db.changeOrder.aggregate({
+      where: { phase: { projectId }, type: "CO", status: "APPROVED" },
+      _sum: { amount: true },
+    }),
+    db.retainageRateTier.findMany({ where: { projectId } }),
+  ]);
+  if (items.length === 0) throw new Error("Add schedule of values line items first");
+
+  const previousWork = new Map<string, number>();
+  for (const app of previousApps) {
+    for (const l of app.lines) {
+      previousWork.set(l.lineItemId, (previousWork.get(l.lineItemId) ?? 0) + Number(l.workThisPeriod));
+    }
+  }
+  // Column F and I carried forward from the latest application (variable-rate retainage)
+  const previousLines = new Map(previousApps.at(-1)?.lines.map((l) => [l.lineItemId, l]));
+
+  // Rate tier in force for the percent of the contract billed before this period
+  const contractSum = items.reduce((s, i) => s + Number(i.scheduledValue), 0);
+  const billedBefore = [...previousWork.values()].reduce((s, v) => s + v, 0);
+  const tierRate = rateForCompletion(
+    tiers.map((t) => ({ minPercentComplete: Number(t.minPercentComplete), ratePercent: Number(t.ratePercent) })),
+    contractSum > 0 ? (billedBefore / contractSum) * 100 : 0
+  );
+  const billed = new Map(inputs.map((l) => [l.lineItemId, l]));
+  for (const id of billed.keys()) {
+    if (!items.some((i) => i.id === id)) throw new Error("Line item not found");
+  }
+
+  const lines = items.map((item) => {
+    const input = billed.get(item.id);
+    const previous = previousLines.get(item.id);
+    const line = computeG703Line({
+      itemNumber: item.itemNumber,
+      description: item.description,
+      scheduledValue: Number(item.scheduledValue),
+      previousWork: toCents(previousWork.get(item.id) ?? 0),
+      workThisPeriod: toCents(input?.workThisPeriod ?? 0),
+      materialsStored: toCents(input?.materialsStored ?? 0),
+      retainagePercent: input?.retainagePercent ?? tierRate ?? Number(item.retainagePercent),
+      ...(previous
+        ? { previousRetainage: Number(previous.retainage), previousMaterialsStored: Number(previous.materialsStored) }
+        : {}),
+    });
+    const error = validateG703Line(line);
+    if (error) throw new Error(error);
+    return { ...line, lineItemId: item.id };
+  });
+
+  const previousCertificates = previousApps.reduce((s, a) => s + Number(a.currentDue), 0);
+  const summary = rollupG702(lines, Number(changeOrders._sum.amount ?? 0), previousCertificates);
+  return { lines, summary };
+}
+
+/** PaymentApplication columns and PayAppLine rows for a billed period. */
+function payAppData({ lines, summary }: Awaited<ReturnType<typeof billProject>>) {
+  return {
+    totals: {
+      scheduledValue: summary.originalContractSum,
+      workCompleted: toCents(lines.reduce((s, l) => s + l.previousWork + l.workThisPeriod, 0)),
+      materialsStored: toCents(lines.reduce((s, l) => s + l.materialsStored, 0)),
+      retainage: summary.totalRetainage,
+      previousPayments: summary.previousCertificates,
+      currentDue: summary.currentPaymentDue,
+      netChangeOrders: summary.netChangeOrders,
+    },
+    rows: lines.map((l) => ({
+      lineItemId: l.lineItemId,
+      scheduledValue: l.scheduledValue,
+      previousWork: l.previousWork,
+      workThisPeriod: l.workThisPeriod,
+      materialsStored: l.materialsStored,
+      retainagePercent: l.retainagePercent,
+      retainage: l.retainage,
+    })),
+  };
+}
+
+// ── Queries ──
+
+/**
+ * Fetch a project's SOV lines in billing order with the amount billed to date.
+ * Returns [] on any error (safe for server-component empty state).
+ */
+export async function getScheduleOfValues(projectId: string): Promise<SovLineItemSummary[]> {
+  try {
+    const session = await auth();
+    if (!session?.user) return [];
+    const items = await db.sovLineItem.findMany({
+      where: { projectId, project: { orgId: session.user.orgId! } },
+      include: {
+        phase: { select: { name: true } },
+        payAppLines: {
+          where: { paymentApplication: { status: { not: "REJECTED" } } },
+          select: {
+            workThisPeriod: true,
+            materialsStored: true,
+            retainage: true,
+            paymentApplication: { select: { number: true, status: true } },
+          },
+        },
+      },
+      orderBy: [{ sortOrder: "asc" }, { itemNumber: "asc" }],
+    });
+    return items.map((i) => {
+      const latest = i.payAppLines
+        .filter((l) => l.paymentApplication.status === "APPROVED" || l.paymentApplication.status === "PAID")
+        .sort((a, b) => b.paymentApplication.number - a.paymentApplication.number)[0];
+      return {
+        id: i.id,
+        itemNumber: i.itemNumber,
+        description: i.description,
+        scheduledValue: Number(i.scheduledValue),
+        retainagePercent: Number(i.retainagePercent),
+        phaseId: i.phaseId,
+        phaseName: i.phase?.name ?? null,
+        billedToDate: toCents(i.payAppLines.reduce((s, l) => s + Number(l.workThisPeriod), 0)),
+        previousRetainage: latest ? Number(latest.retainage) : null,
+        previousMaterialsStored: latest ? Number(latest.materialsStored) : 0,
+      };
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fetch a project's SOV pay applications, newest first, with G703 lines and
+ * the G702 summary rebuilt from the stored line snapshots.
+ * Returns [] on any error (safe for server-component empty state).
+ */
+export async function getProjectPaymentApplications(projectId: string): Promise<ProjectPayApplication[]> {
+  try {
+    const session = await auth();
+    if (!session?.user) return [];
+    const apps = await db.paymentApplication.findMany({
+      where: { projectId, project: { orgId: session.user.orgId! } },
+      include: {
+        createdBy: { select: { name: true } },
+        lines: {
+          include: { lineItem: { select: { itemNumber: true, description: true, sortOrder: true } } },
+        },
+      },
+      orderBy: { number: "desc" },
+    });
+    return apps.map((a) => {
+      const lines = [...a.lines]
+        .sort((x, y) => x.lineItem.sortOrder - y.lineItem.sortOrder || x.lineItem.itemNumber.localeCompare(y.lineItem.itemNumber))
+        .map((l) => ({
+          ...computeG703Line({
+            itemNumber: l.lineItem.itemNumber,
+            description: l.lineItem.description,
+            scheduledValue: Number(l.scheduledValue),
+            previousWork: Number(l.previousWork),
+            workThisPeriod: Number(l.workThisPeriod),
+            materialsStored: Number(l.materialsStored),
+            retainagePercent: Number(l.retainagePercent),
+          }),
+          retainage: Number(l.retainage), // stored I — may follow a variable rate
+          lineItemId: l.lineItemId,
+        }));
+      return {
+        id: a.id,
+        number: a.number,
+        status: a.status,
+        periodStart: a.periodStart,
+        periodEnd: a.periodEnd,
+        notes: a.notes,
+        createdAt: a.createdAt,
+        createdBy: a.createdBy?.name ?? null,
+        lines,
+        summary: rollupG702(lines, Number(a.netChangeOrders), Number(a.previousPayments)),
+      };
+    });
+  } catch {
+    return [];
+  }
+}
+
+// ── SOV mutations ──
+
+/**
+ * Add a line item to the end of a project's schedule of values.
+ *
+ * @param data.projectId - Project the SOV belongs to.
+ * @param data.phaseId   - Optional phase the line tracks.
+ */
+export async function createSovLineItem(data: z.input<typeof LineItemSchema> & { projectId: string }) {
+  const session = await requireManager();
+  await requireOrgProject(data.projectId, session.user.orgId!);
+  const parsed = LineItemSchema.parse(data);
+
+  const last = await db.sovLineItem.findFirst({
+    where: { projectId: data.projectId },
+    orderBy: { sortOrder: "desc" },
+    select: { sortOrder: true },
+  });
+  const item = await db.sovLineItem.create({
+    data: {
+      projectId: data.projectId,
+      itemNumber: parsed.itemNumber,
+      description: parsed.description,
+      scheduledValue: parsed.scheduledValue,
+      retainagePercent: parsed.retainagePercent,
+      phaseId: parsed.phaseId ?? null,
+      sortOrder: (last?.sortOrder ?? -1) + 1,
+    },
+  });
+
+  revalidatePath(`/dashboard/projects/${data.projectId}`);
+  return { id: item.id };
+}
+
+/**
+ * Edit a line item. The scheduled value cannot drop below what has already
+ * been billed against it.
+ */
+export async function updateSovLineItem(id: string, data: z.input<typeof LineItemSchema>) {
+  const session = await requireManager();
+  const parsed = LineItemSchema.parse(data);
+  const item = await db.sovLineItem.findFirst({
+    where: { id, project: { orgId: session.user.orgId! } },
+    include: {
+      payAppLines: {
+        where: { paymentApplication: { status: { not: "REJECTED" } } },
+        select: { workThisPeriod: true },
+      },
+    },
+  });
+  if (!item) throw new Error("Line item not found");
+
+  const billed = item.payAppLines.reduce((s, l) => s + Number(l.workThisPeriod), 0);
+  if (parsed.scheduledValue < toCents(billed)) {
+    throw new Error("Scheduled value cannot be less than the amount already billed");
+  }
+
+  await db.sovLineItem.update({
+    where: { id },
+    data: {
+      itemNumber: parsed.itemNumber,
+      description: parsed.description,
+      scheduledValue: parsed.scheduledValue,
+      retainagePercent: parsed.retainagePercent,
+      phaseId: parsed.phaseId ?? null,
+    },
+  });
+  revalidatePath(`/dashboard/projects/${item.projectId}`);
+}
+
+/** Delete a line item that has not appeared on any pay application. */
+export async function deleteSovLineItem(id: string) {
+  const session = await requireManager();
+  const item = await db.sovLineItem.findFirst({
+    where: { id, project: { orgId: session.user.orgId! } },
+    include: { _count: { select: { payAppLines: true } } },
+  });
+  if (!item) throw new Error("Line item not found");
+  if (item._count.payAppLines > 0) throw new Error("Line item has been billed and cannot be deleted");
+
+  await db.sovLineItem.delete({ where: { id } });
+  revalidatePath(`/dashboard/projects/${item.projectId}`);
+}
+
+// ── Pay application mutations ──
+
+/**
+ * Create a DRAFT pay application billing the project's SOV for a period.
+ * Lines not listed in `data.lines` are billed at zero for the period.
+ *
+ * @throws If another application is still DRAFT or SUBMITTED, or a line would
+ *         bill more than its scheduled value.
+ */
+export async function createProjectPaymentApplication(data: z.input<typeof CreatePayAppSchema>) {
+  const session = await requireManager();
+  const parsed = CreatePayAppSchema.parse(data);
+  await requireOrgProject(parsed.projectId, session.user.orgId!);
+
+  const open = await db.paymentApplication.findFirst({
+    where: { projectId: parsed.projectId, status: { in: ["DRAFT", "SUBMITTED"] } },
+    select: { number: true },
+  });
+  if (open) throw new Error(`Pay application #${open.number} is still open — approve or reject it first`);
+
+  const { totals, rows } = payAppData(await billProject(parsed.projectId, parsed.lines));
+
+  // Use max number + 1 (not count + 1) to handle gaps from deleted applications.
+  const last = await db.paymentApplication.findFirst({
+    where: { projectId: parsed.projectId },
+    orderBy: { number: "desc" },
+    select: { number: true },
+  });
+
+  const app = await db.paymentApplication.create({
+    data: {
+      projectId: parsed.projectId,
+      number: (last?.number ?? 0) + 1,
+      periodStart: new Date(parsed.periodStart),
+      periodEnd: new Date(parsed.periodEnd),
+      ...totals,
+      notes: parsed.notes || null,
+      createdById: session.user.id!,
+      lines: { create: rows },
+    },
+  });
+
+  revalidatePath(`/dashboard/projects/${parsed.projectId}`);
+  revalidatePath("/dashboard");
+  return { id: app.id, number: app.number };
+}
+
+/** Re-bill the lines of a DRAFT project pay application. */
+export async function updateProjectPaymentApplicationLines(id: string, lines: z.input<typeof BilledLineSchema>[]) {
+  const session = await requireManager();
+  const parsed = z.array(BilledLineSchema).parse(lines);
+  const app = await db.paymentApplication.findFirst({
+    where: { id, project: { orgId: session.user.orgId! } },
+    select: { projectId: true, status: true },
+  });
+  if (!app?.projectId) throw new Error("Payment application not found");
+  if (app.status !== "DRAFT") throw new Error("Only draft applications can be edited");
+
+  const { totals, rows } = payAppData(await billProject(app.projectId, parsed, id));
+  await db.$transaction([
+    db.payAppLine.deleteMany({ where: { paymentApplicationId: id } }),
+    db.paymentApplication.update({ where: { id }, data: { ...totals, lines: { create: rows } } }),
+  ]);
+
+  revalidatePath(`/dashboard/projects/${app.projectId}`);
+  revalidatePath("/dashboard");
+}
@@ -6,6 +6,8 @@
  *
  * Tracks competitive bids submitted by subcontractors for a phase scope of work.
  * One bid is typically awarded via `awardBid`; the rest are declined.
+ * Awarding a bid opens a DRAFT subcontract for it (lib/commitments.ts), which
+ * is managed from the project's commitments section.
  *
  * NOTABLE DIFFERENCE FROM OTHER ACTION FILES:
  *   Imports `db` from `@/lib/db-types`, not `@/lib/db`. The SubcontractorBid
@@ -15,10 +17,9 @@
  *
  * Authorization pattern: project-scoped rather than global role checks.
  *   - `requireMember` verifies the caller is a project member.
- *   - `awardBid` and `deleteSubcontractorBid` check ProjectMember.role against
- *     ["PM", "ADMIN"] — these are project-level roles, not the global User.role.
- *   - Note: the role strings "PM" and "ADMIN" differ from the global role enum
- *     values "PROJECT_MANAGER" and "ADMIN" — check the ProjectMember schema.
+ *   - `awardBid` and `deleteSubcontractorBid` require a project OWNER or
+ *     MANAGER (ProjectMember.role mapped through `verifyProjectAccess`, then
+ *     `canManagePhase`) — not the global User.role.
  *
  * `getSubcontractorBids`: returns [] for unauthenticated callers (not throwing).
  * `amount` is a Prisma Decimal — coerced to Number before returning.
@@ -31,6 +32,8 @@ import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db-types";
 import type { SubcontractorBid } from "@/lib/db-types";
+import { canManagePhase, verifyProjectAccessViaPhase } from "@/lib/permissions";
+import { openSubcontractForBid, releaseSubcontractForBid } from "@/lib/commitments";
 
 // ── Internal Helpers ──
 
@@ -59,6 +62,20 @@ async function requireMember(phaseId: string) {
   return { userId: session.user.id, member, projectId: phase.projectId };
 }
 
+/**
+ * Load a bid and verify the caller manages its project.
+ * @throws "Unauthenticated" | "Bid not found" | "Insufficient permissions"
+ */
+async function requireBidManager(bidId: string) {
+  const session = await auth();
+  if (!session?.user?.id) throw new Error("Unauthenticated");
+  const bid = await db.subcontractorBid.findUnique({ where: { id: bidId }, select: { phaseId: true } });
+  if (!bid) throw new Error("Bid not found");
+  const { projectId, role } = await verifyProjectAccessViaPhase(session.user.id, bid.phaseId, session.user.role);
+  if (!canManagePhase(role)) throw new Error("Insufficient permissions");
+  return { userId: session.user.id, projectId };
+}
+
 // ── Queries ──
 
 /**
@@ -68,6 +85,7 @@ async function requireMember(phaseId: string) {
  * components rendering empty state.
  *
  * `amount` is coerced from Prisma Decimal to Number for client serialisation.
+ * Awarded bids carry the number and status of their subcontract.
  *
  * @param phaseId - The phase to fetch bids for.
  * @returns Array of SubcontractorBid records with coerced amount, or [].
@@ -78,6 +96,7 @@ export async function getSubcontractorBids(phaseId: string): Promise<Subcontract
   const bids = await db.subcontractorBid.findMany({
     where: { phaseId },
     orderBy: { submittedAt: "desc" },
+    include: { subcontract: { select: { id: true, number: true, status: true } } },
   });
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return bids.map((b: any) => ({ ...b, amount: Number(b.amount) }));
@@ -127,49 +146,33 @@ export async function createSubcontractorBid(data: {
 /**
  * Award or un-award a bid.
  *
- * Permission check: caller must be a project member with role "PM" or "ADMIN".
- * Note these are ProjectMember role values, not the global User role enum.
+ * Awarding opens a DRAFT subcontract at the bid amount; un-awarding removes
+ * that subcontract again while it is still a draft with no invoices.
  * Typically only one bid should be awarded at a time (enforced by UI only).
  *
  * @param bidId   - Bid to award/un-award.
  * @param awarded - True to award, false to un-award.
- * @throws "Insufficient permissions" if caller is not PM or ADMIN on this project.
+ * @throws "Insufficient permissions" if caller does not manage this project.
  */
 export async function awardBid(bidId: string, awarded: boolean): Promise<void> {
-  const session = await auth();
-  if (!session?.user?.id) throw new Error("Unauthenticated");
-  const bid = await db.subcontractorBid.findUnique({
-    where: { id: bidId },
-    include: { phase: { include: { project: { include: { members: { where: { userId: session.user.id } } } } } } },
+  const { userId, projectId } = await requireBidManager(bidId);
+  // The flag and the subcontract change together, or not at all
+  await db.$transaction(async (tx) => {
+    await tx.subcontractorBid.update({ where: { id: bidId }, data: { awarded } });
+    if (awarded) await openSubcontractForBid(bidId, userId, tx);
+    else await releaseSubcontractForBid(bidId, tx);
   });
-  if (!bid) throw new Error("Bid not found");
-  const member = bid.phase.project.members[0];
-  // ProjectMember.role check (not global User.role) — "PM" and "ADMIN" are project-scoped.
-  if (!member || !["PM", "ADMIN"].includes(member.role)) throw new Error("Insufficient permissions");
-
-  await db.subcontractorBid.update({ where: { id: bidId }, data: { awarded } });
-  revalidatePath(`/dashboard/projects/${bid.phase.projectId}`);
+  revalidatePath(`/dashboard/projects/${projectId}`);
 }
 
 /**
- * Permanently delete a bid.
- *
- * Permission check: caller must be a project member with role "PM" or "ADMIN".
+ * Permanently delete a bid. Its subcontract, if any, is kept (unlinked).
  *
  * @param bidId - Bid to delete.
- * @throws "Insufficient permissions" if caller is not PM or ADMIN on this project.
+ * @throws "Insufficient permissions" if caller does not manage this project.
  */
 export async function deleteSubcontractorBid(bidId: string): Promise<void> {
-  const session = await auth();
-  if (!session?.user?.id) throw new Error("Unauthenticated");
-  const bid = await db.subcontractorBid.findUnique({
-    where: { id: bidId },
-    include: { phase: { include: { project: { include: { members: { where: { userId: session.user.id } } } } } } },
-  });
-  if (!bid) throw new Error("Bid not found");
-  const member = bid.phase.project.members[0];
-  if (!member || !["PM", "ADMIN"].includes(member.role)) throw new Error("Insufficient permissions");
-
+  const { projectId } = await requireBidManager(bidId);
   await db.subcontractorBid.delete({ where: { id: bidId } });
-  revalidatePath(`/dashboard/projects/${bid.phase.projectId}`);
+  revalidatePath(`/dashboard/projects/${projectId}`);
 }
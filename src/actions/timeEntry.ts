@@ -34,6 +34,8 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { can } from "@/lib/permissions";
+import { resolveCostCode } from "@/lib/cost-code-lookup";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
 import { revalidatePath } from "next/cache";
 
 // ── Queries ──
@@ -111,7 +113,9 @@ export async function getTimeSummary(phaseId: string) {
  * @param data.workerId     - Staff ID of the worker.
  * @param data.date         - Work date (ISO date string, e.g. "2025-06-15").
  * @param data.hours        - Hours worked (positive number).
- * @param data.costCode     - Optional cost code for job costing (trimmed).
+ * @param data.costCodeId   - Optional org library cost code for job costing.
+ * @param data.costCode     - Cost code as text, matched onto the library
+ *                            (used when `costCodeId` is not given).
  * @param data.description  - Optional work description (trimmed).
  * @returns The created TimeEntry record.
  */
@@ -120,6 +124,7 @@ export async function createTimeEntry(data: {
   workerId: string;
   date: string;
   hours: number;
+  costCodeId?: string;
   costCode?: string;
   description?: string;
 }) {
@@ -128,6 +133,8 @@ export async function createTimeEntry(data: {
   const role = (session.user as any).role || "VIEWER";
   if (!can(role, "create", "phase")) throw new Error("No permission");
 
+  const costCode = await resolveCostCode(session.user.orgId!, data);
+
   const dbc = db as any;
   const item = await dbc.timeEntry.create({
     data: {
@@ -135,13 +142,23 @@ export async function createTimeEntry(data: {
       workerId: data.workerId,
       date: new Date(data.date),
       hours: data.hours,
-      costCode: data.costCode?.trim() || null,
+      ...costCode,
       description: data.description?.trim() || null,
       status: "PENDING", // Entries require PM approval before contributing to cost reports
       createdById: session.user.id,
     },
   });
 
+  const phase = await db.phase.findUnique({ where: { id: data.phaseId }, select: { projectId: true } });
+  await emitWebhookEvent(session.user.orgId!, "time_entry.created", {
+    projectId: phase?.projectId ?? null,
+    phaseId: data.phaseId,
+    timeEntryId: item.id,
+    workerId: data.workerId,
+    date: data.date,
+    hours: data.hours,
+  });
+
   revalidatePath(`/dashboard/projects`);
   return item;
 }
@@ -14,13 +14,15 @@
  *   - An active/inactive toggle
  *   - lastTriggeredAt and lastStatusCode for delivery monitoring
  *
- * Dispatch (`dispatchWebhook`):
- *   - Called from server actions or the notification pipeline when events fire
- *   - Iterates all active webhooks; skips those not subscribed to the event
- *   - Signs the payload with HMAC-SHA256 using the endpoint's secret
- *   - Fires HTTP POST requests as fire-and-forget (10s timeout)
- *   - Updates lastTriggeredAt/lastStatusCode after each delivery attempt
+ * Dispatch:
+ *   - Domain actions call `emitWebhookEvent` from `@/lib/webhook-delivery`, which
+ *     writes one `WebhookDelivery` outbox row per subscribed endpoint
+ *   - Each row is attempted immediately, then retried by `/api/cron/webhooks`
+ *     with exponential backoff until delivered or attempts are exhausted
+ *   - Every attempt is logged (`WebhookDeliveryAttempt`) with status code,
+ *     error, duration and the first 1 KB of the response body
  *   - A status of 0 indicates a network-level failure (timeout, DNS, etc.)
+ *   - `replayWebhookDelivery` re-sends a past payload as a new delivery
  *
  * Signature verification (by the receiving server):
  *   Compute HMAC-SHA256 of the raw request body using the shared secret.
@@ -30,11 +32,12 @@
  * the "use server" export restriction.
  */
 
-import { createHmac, randomBytes } from "crypto";
+import { randomBytes } from "crypto";
 import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db-types";
 import type { Webhook } from "@/lib/db-types";
+import { emitWebhookEvent, replayDelivery } from "@/lib/webhook-delivery";
 
 /** Internal helper — throws if not authenticated, returns session. */
 async function requireAuth() {
@@ -44,10 +47,19 @@ async function requireAuth() {
 }
 
 // WEBHOOK_EVENTS lives in lib/ to satisfy the "use server" export restriction
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-import { WEBHOOK_EVENTS } from "@/lib/webhook-events";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@/lib/webhook-events";
 export type { WebhookEvent } from "@/lib/webhook-events";
 
+/**
+ * Load a webhook and assert it belongs to the caller's org.
+ * Deliveries carry signed payloads, so cross-org reads must be impossible.
+ */
+async function requireOrgWebhook(webhookId: string, orgId: string) {
+  const wh = await db.webhook.findUnique({ where: { id: webhookId } });
+  if (!wh || wh.orgId !== orgId) throw new Error("Webhook not found");
+  return wh;
+}
+
 // ── Queries ──
 
 /**
@@ -119,20 +131,57 @@ export async function deleteWebhook(id: string): Promise<void> {
   revalidatePath("/dashboard/settings");
 }
 
-// ── Dispatch ──
+// ── Delivery log ──
+
+/**
+ * Fetch the 20 most recent deliveries for an endpoint, with their attempt log.
+ * Used by the expandable "Deliveries" panel in the webhook settings list.
+ *
+ * Requires: authenticated session; webhook must belong to the caller's org.
+ */
+export async function getWebhookDeliveries(webhookId: string) {
+  const session = await requireAuth();
+  await requireOrgWebhook(webhookId, session.user.orgId!);
+
+  return db.webhookDelivery.findMany({
+    where: { webhookId },
+    include: { attempts: { orderBy: { createdAt: "desc" } } },
+    orderBy: { createdAt: "desc" },
+    take: 20,
+  });
+}
 
 /**
- * Deliver a webhook event to all active, subscribed endpoints.
- * Called internally from server actions when significant events occur
- * (e.g. change order approved, phase status changed).
+ * Re-send a past delivery's payload (e.g. after fixing a broken receiver).
+ * Creates a new delivery row linked via `replayOfId` and attempts it
+ * immediately; normal retries apply if it fails again.
  *
- * Delivery is fire-and-forget with a 10-second timeout per endpoint.
- * Each delivery attempt records `lastTriggeredAt` and the HTTP response
- * status code (0 on network failure).
+ * Requires: authenticated session; delivery's webhook must belong to the caller's org.
+ */
+export async function replayWebhookDelivery(deliveryId: string): Promise<void> {
+  const session = await requireAuth();
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { webhookId: true },
+  });
+  if (!delivery) throw new Error("Delivery not found");
+  await requireOrgWebhook(delivery.webhookId, session.user.orgId!);
+
+  await replayDelivery(deliveryId);
+  revalidatePath("/dashboard/settings");
+}
+
+// ── Dispatch ──
+
+/**
+ * Enqueue a webhook event for the current session's org.
+ * Thin session-bound wrapper around `emitWebhookEvent` for callers that do not
+ * already have an orgId in hand; domain actions call `emitWebhookEvent` directly.
  *
  * Payload shape sent to the endpoint:
  * ```json
  * {
+ *   "id": "<delivery id — stable across retries, use for idempotency>",
  *   "event": "change_order.approved",
  *   "timestamp": "2025-01-15T12:00:00.000Z",
  *   "data": { ...eventPayload }
@@ -141,6 +190,7 @@ export async function deleteWebhook(id: string): Promise<void> {
  *
  * Headers sent:
  *   - `X-Webhook-Event`:     the event string
+ *   - `X-Webhook-Delivery`:  the delivery id
  *   - `X-Webhook-Signature`: `sha256=<hmac-hex>` for verification
  *
  * @param event   - Event string from WEBHOOK_EVENTS (e.g. "phase.status_changed")
@@ -149,41 +199,7 @@ export async function deleteWebhook(id: string): Promise<void> {
 export async function dispatchWebhook(event: string, payload: Record<string, unknown>): Promise<void> {
   const session = await auth();
   if (!session?.user) throw new Error("Unauthorized");
-  const webhooks: Webhook[] = await db.webhook.findMany({
-    where: { orgId: session.user.orgId!, active: true },
-  });
+  if (!(WEBHOOK_EVENTS as readonly string[]).includes(event)) throw new Error("Unknown webhook event");
 
-  for (const wh of webhooks) {
-    // Skip endpoints not subscribed to this event ("*" = subscribe to all)
-    if (!wh.events.includes(event) && !wh.events.includes("*")) continue;
-
-    const body = JSON.stringify({ event, timestamp: new Date().toISOString(), data: payload });
-    const sig = createHmac("sha256", wh.secret).update(body).digest("hex");
-
-    // Fire-and-forget POST with HMAC signature header
-    fetch(wh.url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Webhook-Event": event,
-        "X-Webhook-Signature": `sha256=${sig}`,
-      },
-      body,
-      signal: AbortSignal.timeout(10000), // 10-second delivery timeout
-    })
-      .then((res) =>
-        // Record successful delivery with HTTP status code
-        db.webhook.update({
-          where: { id: wh.id },
-          data: { lastTriggeredAt: new Date(), lastStatusCode: res.status },
-        })
-      )
-      .catch(() =>
-        // Record network failure with status 0
-        db.webhook.update({
-          where: { id: wh.id },
-          data: { lastTriggeredAt: new Date(), lastStatusCode: 0 },
-        })
-      );
-  }
+  await emitWebhookEvent(session.user.orgId!, event as WebhookEvent, payload);
 }
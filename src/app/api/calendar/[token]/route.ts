@@ -0,0 +1,145 @@
+/**
+ * @file src/app/api/calendar/[token]/route.ts
+ * @description Subscribable iCalendar feed (see actions/calendar-feeds.ts).
+ *
+ * GET /api/calendar/:token.ics
+ * Public — the unguessable token in the URL is the credential, since calendar
+ * apps cannot sign in. Unknown or revoked tokens get a 404.
+ *
+ * Events: inspections, phase milestones, and due dates of open punch-list
+ * items, open RFIs and submittals awaiting review, from 90 days back onward.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { verifyCalendarFeed } from "@/actions/calendar-feeds";
+import { buildICalendar, type CalendarEvent } from "@/lib/ical";
+import { rateLimitHeaders } from "@/lib/rate-limit";
+
+const HISTORY_DAYS = 90;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const ip = req.headers.get("x-forwarded-for") || "unknown";
+  const rl = await rateLimitHeaders(`calendar:${ip}`, 60, 60_000);
+  if (rl.limited) {
+    return new NextResponse("Too many requests", { status: 429, headers: rl.headers });
+  }
+
+  const { token } = await params;
+  const feed = await verifyCalendarFeed(token.replace(/\.ics$/i, ""));
+  if (!feed) return new NextResponse("Calendar feed not found", { status: 404 });
+
+  // Only projects the owner can still see
+  const projects = await db.project.findMany({
+    where: {
+      orgId: feed.orgId,
+      members: { some: { userId: feed.userId } },
+      ...(feed.projectId ? { id: feed.projectId } : { status: { not: "ARCHIVED" } }),
+    },
+    select: { id: true, name: true, address: true },
+  });
+  const projectById = new Map(projects.map((p) => [p.id, p]));
+  const inProjects = { projectId: { in: projects.map((p) => p.id) } };
+  const since = new Date(Date.now() - HISTORY_DAYS * 86_400_000);
+  const phaseSelect = { select: { name: true, projectId: true } };
+
+  const [inspections, milestones, punchItems, rfis, submittals] = await Promise.all([
+    db.inspection.findMany({
+      where: { phase: inProjects, scheduledAt: { gte: since } },
+      include: { phase: phaseSelect },
+    }),
+    db.phase.findMany({
+      where: { ...inProjects, isMilestone: true, estStart: { gte: since } },
+      select: { id: true, name: true, detail: true, estStart: true, projectId: true, updatedAt: true },
+    }),
+    db.punchListItem.findMany({
+      where: { phase: inProjects, dueDate: { gte: since }, status: { not: "CLOSED" } },
+      include: { phase: phaseSelect },
+    }),
+    db.rFI.findMany({
+      where: { phase: inProjects, dueDate: { gte: since }, status: "OPEN" },
+      include: { phase: phaseSelect },
+    }),
+    db.submittal.findMany({
+      where: {
+        phase: inProjects,
+        dueDate: { gte: since },
+        status: { in: ["PENDING", "UNDER_REVIEW", "REVISE_AND_RESUBMIT"] },
+      },
+      include: { phase: phaseSelect },
+    }),
+  ]);
+
+  const origin = req.nextUrl.origin;
+  const context = (projectId: string, phaseName?: string) => {
+    const project = projectById.get(projectId);
+    return {
+      description: [project?.name, phaseName].filter(Boolean).join(" — "),
+      location: project?.address ?? null,
+      url: `${origin}/dashboard/projects/${projectId}`,
+    };
+  };
+
+  const events: CalendarEvent[] = [
+    ...inspections.map((i) => ({
+      kind: "inspection" as const,
+      sourceId: i.id,
+      summary: `Inspection: ${i.title}${i.result ? ` (${i.result})` : ""}`,
+      start: i.scheduledAt,
+      allDay: false,
+      updatedAt: i.updatedAt,
+      ...context(i.phase.projectId, i.phase.name),
+    })),
+    ...milestones.map((m) => ({
+      kind: "milestone" as const,
+      sourceId: m.id,
+      summary: `◆ ${m.name}`,
+      start: m.estStart,
+      allDay: true,
+      updatedAt: m.updatedAt,
+      ...context(m.projectId),
+      description: [projectById.get(m.projectId)?.name, m.detail].filter(Boolean).join("\n"),
+    })),
+    ...punchItems.map((p) => ({
+      kind: "punch" as const,
+      sourceId: p.id,
+      summary: `Punch #${p.itemNumber} due: ${p.title}`,
+      start: p.dueDate!,
+      allDay: true,
+      updatedAt: p.updatedAt,
+      ...context(p.phase.projectId, p.phase.name),
+      location: p.location ?? projectById.get(p.phase.projectId)?.address ?? null,
+    })),
+    ...rfis.map((r) => ({
+      kind: "rfi" as const,
+      sourceId: r.id,
+      summary: `RFI #${r.rfiNumber} due: ${r.subject}`,
+      start: r.dueDate!,
+      allDay: true,
+      updatedAt: r.updatedAt,
+      ...context(r.phase.projectId, r.phase.name),
+    })),
+    ...submittals.map((s) => ({
+      kind: "submittal" as const,
+      sourceId: s.id,
+      summary: `Submittal #${s.submittalNumber} due: ${s.title}`,
+      start: s.dueDate!,
+      allDay: true,
+      updatedAt: s.updatedAt,
+      ...context(s.phase.projectId, s.phase.name),
+    })),
+  ];
+
+  db.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } }).catch(() => {});
+
+  const name = feed.projectId ? projectById.get(feed.projectId)?.name ?? feed.label : feed.label;
+  return new NextResponse(buildICalendar(name, events), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="calendar.ics"`,
+      "Cache-Control": "no-cache",
+    },
+  });
+}
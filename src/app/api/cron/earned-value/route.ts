@@ -0,0 +1,20 @@
+/**
+ * @file src/app/api/cron/earned-value/route.ts
+ * @description Weekly earned value snapshot. Stores this week's PV / EV / AC,
+ * CPI, SPI and EAC for every active project (lib/earned-value.ts).
+ *
+ * GET /api/cron/earned-value — requires `Authorization: Bearer <CRON_SECRET>`
+ * Returns: { projects: number, failed: number } — snapshots saved / projects skipped on error
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { captureEarnedValueSnapshots } from "@/lib/earned-value";
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await captureEarnedValueSnapshots();
+  return NextResponse.json(result, { headers: { "Cache-Control": "no-store" } });
+}
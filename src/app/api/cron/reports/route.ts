@@ -0,0 +1,20 @@
+/**
+ * @file src/app/api/cron/reports/route.ts
+ * @description Hourly scheduled-report worker. Emails every due ReportSchedule
+ * across all orgs and records each send in the delivery history.
+ *
+ * GET /api/cron/reports — requires `Authorization: Bearer <CRON_SECRET>`
+ * Returns: { schedules: number, sent: number, failed: number }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { deliverDueReports } from "@/lib/report-delivery";
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await deliverDueReports();
+  return NextResponse.json(result, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,20 @@
+/**
+ * @file src/app/api/cron/webhooks/route.ts
+ * @description Scheduled retry worker for the webhook outbox. Picks up PENDING
+ * deliveries whose backoff has elapsed and re-attempts them.
+ *
+ * GET /api/cron/webhooks — requires `Authorization: Bearer <CRON_SECRET>`
+ * Returns: { processed: number }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { processDueDeliveries } from "@/lib/webhook-delivery";
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await processDueDeliveries();
+  return NextResponse.json(result, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,45 @@
+/**
+ * @file src/app/api/export/cash-flow/route.ts
+ * @description Downloads the monthly cash-flow projection as an XLSX workbook.
+ *
+ * GET /api/export/cash-flow?projectId=<id>  one project
+ * GET /api/export/cash-flow                 every open project (not completed
+ *                                           or archived) the caller belongs to
+ *                                           in their org, with a per-project sheet
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { cashFlowWorkbook, combineCashFlows, loadProjectCashFlows } from "@/lib/cash-flow";
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+
+  const projectId = req.nextUrl.searchParams.get("projectId");
+  const projects = await db.project.findMany({
+    where: {
+      orgId: session.user.orgId!,
+      members: { some: { userId: session.user.id } },
+      ...(projectId ? { id: projectId } : { status: { notIn: ["COMPLETED", "ARCHIVED"] } }),
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+  if (projectId && projects.length === 0) return NextResponse.json({ error: "Project not found" }, { status: 404 });
+
+  const flows = await loadProjectCashFlows(projects.map((p) => p.id));
+  const rows = projects.flatMap((p) => {
+    const projection = flows.get(p.id);
+    return projection ? [{ name: p.name, projection }] : [];
+  });
+  const body = cashFlowWorkbook(combineCashFlows(rows.map((r) => r.projection)), rows);
+
+  const base = projectId ? projects[0].name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "") || "project" : "org";
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename="${base}-cash-flow.xlsx"`,
+    },
+  });
+}
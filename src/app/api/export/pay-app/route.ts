@@ -0,0 +1,58 @@
+/**
+ * @file src/app/api/export/pay-app/route.ts
+ * @description Downloads a project pay application as a printable G702/G703 PDF.
+ *
+ * GET /api/export/pay-app?id=<paymentApplicationId>
+ * Returns the PDF as an attachment named after the project and application
+ * number, branded with the organisation logo and colours. Only
+ * schedule-of-values (project-level) applications have G703 lines.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { renderPayApplicationPdf } from "@/lib/aia-pdf";
+import { loadPdfBranding } from "@/lib/pdf-branding";
+import { getProjectPaymentApplications } from "@/actions/schedule-of-values";
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+  const record = await db.paymentApplication.findFirst({
+    where: { id, project: { orgId: session.user.orgId! } },
+    select: {
+      projectId: true,
+      project: { select: { name: true, address: true, org: { select: { name: true } } } },
+    },
+  });
+  if (!record?.projectId || !record.project) {
+    return NextResponse.json({ error: "Payment application not found" }, { status: 404 });
+  }
+
+  const app = (await getProjectPaymentApplications(record.projectId)).find((a) => a.id === id);
+  if (!app) return NextResponse.json({ error: "Payment application not found" }, { status: 404 });
+
+  const pdf = renderPayApplicationPdf({
+    applicationNumber: app.number,
+    applicationDate: app.createdAt,
+    periodStart: app.periodStart,
+    periodEnd: app.periodEnd,
+    projectName: record.project.name,
+    projectAddress: record.project.address,
+    contractorName: record.project.org.name,
+    lines: app.lines,
+    summary: app.summary,
+    branding: await loadPdfBranding(record.project.org.name),
+  });
+  const slug = record.project.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "") || "project";
+
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${slug}-pay-app-${app.number}.pdf"`,
+    },
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * @file src/app/api/export/schedule/route.ts
+ * @description Downloads a project's phases and dependencies as an MS Project
+ * XML (MSPDI) or Primavera P6 (XER) schedule.
+ *
+ * GET /api/export/schedule?projectId=<id>&format=mspdi|xer
+ * Returns the file as an attachment named after the project.
+ *
+ * The output re-imports through `POST /api/import/schedule` (phases are matched
+ * by name), so schedules round-trip through MS Project or P6 without retyping.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { buildMspdi } from "@/lib/mspdi";
+import { buildXer } from "@/lib/xer";
+import { SCHEDULE_FORMATS, phasesToSchedule } from "@/lib/schedule-interchange";
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+
+  const projectId = req.nextUrl.searchParams.get("projectId");
+  const format = req.nextUrl.searchParams.get("format");
+  if (!projectId) return NextResponse.json({ error: "Missing projectId" }, { status: 400 });
+  if (format !== "mspdi" && format !== "xer") {
+    return NextResponse.json({ error: "format must be mspdi or xer" }, { status: 400 });
+  }
+
+  const project = await db.project.findFirst({
+    where: { id: projectId, orgId: session.user.orgId! },
+    select: {
+      name: true,
+      phases: {
+        select: {
+          id: true,
+          name: true,
+          isMilestone: true,
+          progress: true,
+          estStart: true,
+          estEnd: true,
+          actualStart: true,
+          actualEnd: true,
+        },
+        orderBy: { sortOrder: "asc" },
+      },
+    },
+  });
+  if (!project) return NextResponse.json({ error: "Project not found" }, { status: 404 });
+
+  const dependencies = await db.phaseDependency.findMany({
+    where: { phase: { projectId } },
+    select: { phaseId: true, dependsOnId: true, type: true, lagDays: true },
+  });
+
+  const schedule = phasesToSchedule(project.name, project.phases, dependencies);
+  const body = format === "mspdi" ? buildMspdi(schedule) : buildXer(schedule);
+  const { extension, mimeType } = SCHEDULE_FORMATS[format];
+  const filename = `${project.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "") || "schedule"}.${extension}`;
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": `${mimeType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
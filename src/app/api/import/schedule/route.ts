@@ -0,0 +1,179 @@
+/**
+ * @file src/app/api/import/schedule/route.ts
+ * @description Imports an MS Project XML (MSPDI) or Primavera P6 (XER) schedule
+ * into an existing project's phases.
+ *
+ * POST multipart/form-data: file (.xml or .xer), projectId
+ * Returns: { updated, created, dependencies, total }
+ *
+ * Tasks are matched to phases by name (lib/schedule-interchange.ts); matched
+ * phases get the file's dates, milestone flag, progress and actual dates, and
+ * unmatched tasks become new phases appended after the existing ones. Links
+ * between imported tasks replace the dependencies among those phases. Everything
+ * is written in one transaction, so a failed import leaves the project unchanged.
+ * ADMIN and PROJECT_MANAGER only.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canManagePhase } from "@/lib/permissions";
+import { parseMspdi } from "@/lib/mspdi";
+import { parseXer } from "@/lib/xer";
+import {
+  detectScheduleFormat,
+  newTaskKey,
+  planScheduleImport,
+  type InterchangeSchedule,
+  type InterchangeTask,
+} from "@/lib/schedule-interchange";
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_TASKS = 2000;
+/**
+ * New phases go in with one multi-row insert, but matched phases each carry
+ * their own dates and need an update apiece — up to MAX_TASKS of them, far
+ * past Prisma's default 5 s interactive-transaction timeout.
+ */
+const IMPORT_TX_OPTIONS = { maxWait: 10_000, timeout: 10_000 + MAX_TASKS * 25 };
+
+/** Status implied by the task's actual dates, or null to leave it unchanged. */
+function importedStatus(task: InterchangeTask, current?: string) {
+  if (task.actualFinish) return "COMPLETE" as const;
+  if (task.actualStart && (!current || current === "PENDING")) return "IN_PROGRESS" as const;
+  return current ? null : ("PENDING" as const);
+}
+
+function phaseFields(task: InterchangeTask) {
+  return {
+    estStart: task.start,
+    estEnd: task.isMilestone ? task.start : task.finish,
+    actualStart: task.actualStart,
+    actualEnd: task.actualFinish,
+    isMilestone: task.isMilestone,
+    progress: Math.round(task.percentComplete),
+  };
+}
+
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+  if (!canManagePhase(session.user.role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+  const formData = await req.formData();
+  const file = formData.get("file") as File | null;
+  const projectId = formData.get("projectId") as string | null;
+  if (!file) return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+  if (!projectId) return NextResponse.json({ error: "Missing projectId" }, { status: 400 });
+  if (file.size > MAX_FILE_BYTES) return NextResponse.json({ error: "File is larger than 10 MB" }, { status: 400 });
+
+  const format = detectScheduleFormat(file.name);
+  if (!format) {
+    return NextResponse.json({ error: "Only MS Project XML (.xml) and P6 XER (.xer) files are supported" }, { status: 400 });
+  }
+
+  const project = await db.project.findFirst({
+    where: { id: projectId, orgId: session.user.orgId! },
+    select: { id: true },
+  });
+  if (!project) return NextResponse.json({ error: "Project not found" }, { status: 404 });
+
+  let schedule: InterchangeSchedule;
+  try {
+    const text = await file.text();
+    schedule = format === "mspdi" ? parseMspdi(text) : parseXer(text);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Could not read schedule" }, { status: 400 });
+  }
+  if (schedule.tasks.length === 0) return NextResponse.json({ error: "No tasks found in file" }, { status: 400 });
+  if (schedule.tasks.length > MAX_TASKS) {
+    return NextResponse.json({ error: `Maximum ${MAX_TASKS} tasks per import` }, { status: 400 });
+  }
+
+  const [phases, dependencies] = await Promise.all([
+    db.phase.findMany({
+      where: { projectId },
+      select: { id: true, name: true, status: true, sortOrder: true },
+      orderBy: { sortOrder: "asc" },
+    }),
+    db.phaseDependency.findMany({
+      where: { phase: { projectId } },
+      select: { phaseId: true, dependsOnId: true },
+    }),
+  ]);
+
+  let plan: ReturnType<typeof planScheduleImport>;
+  try {
+    plan = planScheduleImport(schedule, phases, dependencies);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Invalid schedule" }, { status: 400 });
+  }
+
+  const statusById = new Map(phases.map((p) => [p.id, p.status]));
+  const nextOrder = phases.reduce((max, p) => Math.max(max, p.sortOrder), -1) + 1;
+
+  await db.$transaction(async (tx) => {
+    const ids = new Map<string, string>();
+    for (const { phaseId, task } of plan.updates) {
+      const status = importedStatus(task, statusById.get(phaseId));
+      await tx.phase.update({
+        where: { id: phaseId },
+        data: { ...phaseFields(task), ...(status ? { status } : {}) },
+      });
+      ids.set(phaseId, phaseId);
+    }
+    // New phases get consecutive sort orders, which map the returned rows back to their tasks
+    const created = await tx.phase.createManyAndReturn({
+      data: plan.creates.map((task, i) => ({
+        projectId,
+        name: task.name,
+        sortOrder: nextOrder + i,
+        status: importedStatus(task)!,
+        ...phaseFields(task),
+      })),
+      select: { id: true, sortOrder: true },
+    });
+    for (const row of created) {
+      ids.set(newTaskKey(plan.creates[row.sortOrder - nextOrder].uid), row.id);
+    }
+
+    // Imported links replace the dependencies among the imported phases
+    const touched = [...ids.values()];
+    await tx.phaseDependency.deleteMany({
+      where: { phaseId: { in: touched }, dependsOnId: { in: touched } },
+    });
+    await tx.phaseDependency.createMany({
+      data: plan.links.map((l) => ({
+        phaseId: ids.get(l.successorKey)!,
+        dependsOnId: ids.get(l.predecessorKey)!,
+        type: l.type,
+        lagDays: l.lagDays,
+      })),
+    });
+  }, IMPORT_TX_OPTIONS);
+
+  // Fire-and-forget activity log
+  db.activityLog
+    .create({
+      data: {
+        orgId: session.user.orgId!,
+        action: "SCHEDULE_IMPORTED",
+        message: `Imported ${schedule.tasks.length} tasks from ${file.name}`,
+        projectId,
+        userId: session.user.id,
+        data: {
+          format,
+          updated: plan.updates.length,
+          created: plan.creates.length,
+          dependencies: plan.links.length,
+        },
+      },
+    })
+    .catch(() => {});
+
+  return NextResponse.json({
+    updated: plan.updates.length,
+    created: plan.creates.length,
+    dependencies: plan.links.length,
+    total: schedule.tasks.length,
+  });
+}
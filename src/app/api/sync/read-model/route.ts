@@ -0,0 +1,26 @@
+/**
+ * @file src/app/api/sync/read-model/route.ts
+ * @description Incremental feed for the contractor app's offline read model
+ * (lib/offline-read-model.ts), stored in IndexedDB by lib/offline-phase-cache.ts.
+ *
+ * GET /api/sync/read-model?since=<cursor>
+ * Returns: ReadModelDelta — the phases changed since the cursor (all of them
+ * without one), every phase id in scope, and the next cursor.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { loadReadModelDelta } from "@/lib/offline-read-model";
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+
+  const sinceParam = req.nextUrl.searchParams.get("since");
+  const since = sinceParam ? new Date(sinceParam) : null;
+  if (since && isNaN(since.getTime())) {
+    return NextResponse.json({ error: "since must be an ISO timestamp" }, { status: 400 });
+  }
+
+  const delta = await loadReadModelDelta(session.user.id, since);
+  return NextResponse.json(delta, { headers: { "Cache-Control": "no-store" } });
+}
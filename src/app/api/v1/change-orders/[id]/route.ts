@@ -0,0 +1,18 @@
+/**
+ * @file src/app/api/v1/change-orders/[id]/route.ts
+ * @description Public REST API — fetch a single change order.
+ *
+ * GET /api/v1/change-orders/:id
+ * Returns: { data: ChangeOrder }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("change_order", async (ctx, { id }) => {
+  const co = await db.changeOrder.findFirst({
+    where: { id, phase: { project: projectWhere(ctx) } },
+  });
+  if (!co) return apiNotFound(ctx, "Change order");
+
+  return apiJson(ctx, { data: co });
+});
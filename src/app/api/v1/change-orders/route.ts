@@ -0,0 +1,24 @@
+/**
+ * @file src/app/api/v1/change-orders/route.ts
+ * @description Public REST API — list change orders across the API key's org.
+ *
+ * GET /api/v1/change-orders?projectId=&phaseId=&status=APPROVED&limit=50&cursor=<id>
+ * Returns: { data: ChangeOrder[], nextCursor: string | null }
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, pageArgs, toPage, phaseScope, queryFilter } from "@/lib/api-v1";
+
+const StatusFilter = z.enum(["PENDING", "APPROVED", "REJECTED"]).optional();
+
+export const GET = withApiKey("change_order", async (ctx) => {
+  const status = StatusFilter.parse(queryFilter(ctx, "status"));
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.changeOrder.findMany({
+    where: { ...phaseScope(ctx), ...(status ? { status } : {}) },
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
@@ -0,0 +1,18 @@
+/**
+ * @file src/app/api/v1/daily-logs/[id]/route.ts
+ * @description Public REST API — fetch a single daily log.
+ *
+ * GET /api/v1/daily-logs/:id
+ * Returns: { data: DailyLog }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("daily_log", async (ctx, { id }) => {
+  const log = await db.dailyLog.findFirst({
+    where: { id, project: projectWhere(ctx) },
+  });
+  if (!log) return apiNotFound(ctx, "Daily log");
+
+  return apiJson(ctx, { data: log });
+});
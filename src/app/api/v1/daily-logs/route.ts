@@ -0,0 +1,102 @@
+/**
+ * @file src/app/api/v1/daily-logs/route.ts
+ * @description Public REST API — list and create project daily logs.
+ *
+ * GET  /api/v1/daily-logs?projectId=<id>&limit=50&cursor=<id>
+ *      Returns: { data: DailyLog[], nextCursor: string | null }
+ * POST /api/v1/daily-logs
+ *      Body: { projectId, date, workSummary, weather?, tempHigh?, tempLow?,
+ *              crewCount?, equipment?, issues?, notes? }
+ *      Returns: 201 { data: DailyLog } — 409 if a log already exists for that date
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  withApiKey,
+  apiJson,
+  apiError,
+  apiNotFound,
+  pageArgs,
+  toPage,
+  projectScope,
+  readJson,
+  requireActor,
+  projectWhere,
+} from "@/lib/api-v1";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
+
+// Mirrors CreateDailyLogSchema in actions/daily-logs.ts (ints match the DB columns)
+const CreateDailyLogSchema = z.object({
+  projectId: z.string().min(1),
+  date: z.string().date(),
+  weather: z.string().max(100).optional(),
+  tempHigh: z.number().int().optional(), // Fahrenheit
+  tempLow: z.number().int().optional(),
+  crewCount: z.number().int().nonnegative().optional(),
+  equipment: z.string().max(2000).optional(),
+  workSummary: z.string().min(1).max(5000),
+  issues: z.string().max(5000).optional(),
+  notes: z.string().max(5000).optional(),
+});
+
+export const GET = withApiKey("daily_log", async (ctx) => {
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.dailyLog.findMany({
+    where: projectScope(ctx),
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
+
+export const POST = withApiKey("daily_log", async (ctx) => {
+  const denied = requireActor(ctx);
+  if (denied) return denied;
+
+  const body = await readJson(ctx.request);
+  if (body === null) return apiError(400, "invalid_json", "Request body must be valid JSON", ctx.headers);
+  const data = CreateDailyLogSchema.parse(body);
+
+  const project = await db.project.findFirst({
+    where: projectWhere(ctx, data.projectId),
+    select: { id: true },
+  });
+  if (!project) return apiNotFound(ctx, "Project");
+
+  const date = new Date(data.date);
+  const existing = await db.dailyLog.findUnique({
+    where: { projectId_date: { projectId: project.id, date } },
+    select: { id: true },
+  });
+  if (existing) {
+    return apiError(409, "conflict", `A daily log already exists for ${data.date}`, ctx.headers);
+  }
+
+  const log = await db.dailyLog.create({
+    data: {
+      projectId: project.id,
+      date,
+      weather: data.weather ?? null,
+      tempHigh: data.tempHigh ?? null,
+      tempLow: data.tempLow ?? null,
+      crewCount: data.crewCount ?? null,
+      equipment: data.equipment ?? null,
+      workSummary: data.workSummary,
+      issues: data.issues ?? null,
+      notes: data.notes ?? null,
+      authorId: ctx.userId!,
+    },
+  });
+
+  // Same event and payload as actions/daily-logs.ts createDailyLog
+  await emitWebhookEvent(ctx.orgId, "daily_log.created", {
+    projectId: project.id,
+    dailyLogId: log.id,
+    date: data.date,
+    crewCount: data.crewCount ?? null,
+    workSummary: data.workSummary,
+  });
+
+  return apiJson(ctx, { data: log }, 201);
+});
@@ -0,0 +1,19 @@
+/**
+ * @file src/app/api/v1/phases/[id]/route.ts
+ * @description Public REST API — fetch a single phase with its dependencies.
+ *
+ * GET /api/v1/phases/:id
+ * Returns: { data: Phase & { dependencies: PhaseDependency[] } }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("phase", async (ctx, { id }) => {
+  const phase = await db.phase.findFirst({
+    where: { id, project: projectWhere(ctx) },
+    include: { dependencies: { select: { id: true, dependsOnId: true, type: true, lagDays: true } } },
+  });
+  if (!phase) return apiNotFound(ctx, "Phase");
+
+  return apiJson(ctx, { data: phase });
+});
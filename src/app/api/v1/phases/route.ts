@@ -0,0 +1,26 @@
+/**
+ * @file src/app/api/v1/phases/route.ts
+ * @description Public REST API — list phases across the API key's org.
+ *
+ * GET /api/v1/phases?projectId=<id>&status=IN_PROGRESS&limit=50&cursor=<id>
+ * Returns: { data: Phase[], nextCursor: string | null }
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, pageArgs, toPage, projectScope, queryFilter } from "@/lib/api-v1";
+
+const StatusFilter = z
+  .enum(["PENDING", "IN_PROGRESS", "REVIEW_REQUESTED", "UNDER_REVIEW", "COMPLETE"])
+  .optional();
+
+export const GET = withApiKey("phase", async (ctx) => {
+  const status = StatusFilter.parse(queryFilter(ctx, "status"));
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.phase.findMany({
+    where: { ...projectScope(ctx), ...(status ? { status } : {}) },
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
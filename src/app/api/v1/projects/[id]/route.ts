@@ -0,0 +1,24 @@
+/**
+ * @file src/app/api/v1/projects/[id]/route.ts
+ * @description Public REST API — fetch a single project with its phase list.
+ *
+ * GET /api/v1/projects/:id
+ * Returns: { data: Project & { phases: PhaseSummary[] } }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("project", async (ctx, { id }) => {
+  const project = await db.project.findFirst({
+    where: projectWhere(ctx, id),
+    include: {
+      phases: {
+        select: { id: true, name: true, status: true, progress: true, estStart: true, estEnd: true },
+        orderBy: { sortOrder: "asc" },
+      },
+    },
+  });
+  if (!project) return apiNotFound(ctx, "Project");
+
+  return apiJson(ctx, { data: project });
+});
@@ -0,0 +1,26 @@
+/**
+ * @file src/app/api/v1/projects/route.ts
+ * @description Public REST API — list the API key's org projects.
+ *
+ * GET /api/v1/projects?status=ACTIVE&limit=50&cursor=<id>
+ * Returns: { data: Project[], nextCursor: string | null }
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, pageArgs, toPage, queryFilter, projectWhere } from "@/lib/api-v1";
+
+const StatusFilter = z
+  .enum(["PLANNING", "ACTIVE", "ON_HOLD", "COMPLETED", "ARCHIVED"])
+  .optional();
+
+export const GET = withApiKey("project", async (ctx) => {
+  const status = StatusFilter.parse(queryFilter(ctx, "status"));
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.project.findMany({
+    where: { ...projectWhere(ctx), ...(status ? { status } : {}) },
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
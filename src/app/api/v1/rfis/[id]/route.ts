@@ -0,0 +1,18 @@
+/**
+ * @file src/app/api/v1/rfis/[id]/route.ts
+ * @description Public REST API — fetch a single RFI.
+ *
+ * GET /api/v1/rfis/:id
+ * Returns: { data: RFI }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("rfi", async (ctx, { id }) => {
+  const rfi = await db.rFI.findFirst({
+    where: { id, phase: { project: projectWhere(ctx) } },
+  });
+  if (!rfi) return apiNotFound(ctx, "RFI");
+
+  return apiJson(ctx, { data: rfi });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file src/app/api/v1/rfis/route.ts
+ * @description Public REST API — list and create RFIs.
+ *
+ * GET  /api/v1/rfis?projectId=&phaseId=&status=OPEN&limit=50&cursor=<id>
+ *      Returns: { data: RFI[], nextCursor: string | null }
+ * POST /api/v1/rfis
+ *      Body: { phaseId, subject, question, priority?, ballInCourt?, dueDate? }
+ *      Returns: 201 { data: RFI } — attributed to the key's owning user
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  withApiKey,
+  apiJson,
+  apiError,
+  apiNotFound,
+  pageArgs,
+  toPage,
+  phaseScope,
+  queryFilter,
+  readJson,
+  requireActor,
+  findOrgPhase,
+} from "@/lib/api-v1";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
+
+const StatusFilter = z.enum(["OPEN", "ANSWERED", "CLOSED", "VOID"]).optional();
+
+const CreateRFISchema = z.object({
+  phaseId: z.string().min(1),
+  subject: z.string().trim().min(1).max(200),
+  question: z.string().trim().min(1).max(10000),
+  priority: z.enum(["URGENT", "HIGH", "NORMAL", "LOW"]).default("NORMAL"),
+  ballInCourt: z.string().trim().max(200).optional(),
+  dueDate: z.string().date().optional(),
+});
+
+export const GET = withApiKey("rfi", async (ctx) => {
+  const status = StatusFilter.parse(queryFilter(ctx, "status"));
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.rFI.findMany({
+    where: { ...phaseScope(ctx), ...(status ? { status } : {}) },
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
+
+export const POST = withApiKey("rfi", async (ctx) => {
+  const denied = requireActor(ctx);
+  if (denied) return denied;
+
+  const body = await readJson(ctx.request);
+  if (body === null) return apiError(400, "invalid_json", "Request body must be valid JSON", ctx.headers);
+  const data = CreateRFISchema.parse(body);
+
+  const phase = await findOrgPhase(ctx, data.phaseId);
+  if (!phase) return apiNotFound(ctx, "Phase");
+
+  // Same sequential display numbering as actions/rfi.ts createRFI
+  const count = await db.rFI.count({ where: { phaseId: phase.id } });
+  const rfi = await db.rFI.create({
+    data: {
+      phaseId: phase.id,
+      rfiNumber: count + 1,
+      subject: data.subject,
+      question: data.question,
+      priority: data.priority,
+      status: "OPEN",
+      ballInCourt: data.ballInCourt || null,
+      dueDate: data.dueDate ? new Date(data.dueDate) : null,
+      createdById: ctx.userId!,
+    },
+  });
+
+  // Same event and payload as actions/rfi.ts createRFI
+  await emitWebhookEvent(ctx.orgId, "rfi.created", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    rfiId: rfi.id,
+    rfiNumber: rfi.rfiNumber,
+    subject: rfi.subject,
+    priority: rfi.priority,
+    dueDate: rfi.dueDate?.toISOString() ?? null,
+  });
+
+  return apiJson(ctx, { data: rfi }, 201);
+});
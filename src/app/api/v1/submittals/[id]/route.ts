@@ -0,0 +1,18 @@
+/**
+ * @file src/app/api/v1/submittals/[id]/route.ts
+ * @description Public REST API — fetch a single submittal.
+ *
+ * GET /api/v1/submittals/:id
+ * Returns: { data: Submittal }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("submittal", async (ctx, { id }) => {
+  const submittal = await db.submittal.findFirst({
+    where: { id, phase: { project: projectWhere(ctx) } },
+  });
+  if (!submittal) return apiNotFound(ctx, "Submittal");
+
+  return apiJson(ctx, { data: submittal });
+});
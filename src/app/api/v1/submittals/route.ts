@@ -0,0 +1,26 @@
+/**
+ * @file src/app/api/v1/submittals/route.ts
+ * @description Public REST API — list submittals across the API key's org.
+ *
+ * GET /api/v1/submittals?projectId=&phaseId=&status=PENDING&limit=50&cursor=<id>
+ * Returns: { data: Submittal[], nextCursor: string | null }
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, pageArgs, toPage, phaseScope, queryFilter } from "@/lib/api-v1";
+
+const StatusFilter = z
+  .enum(["PENDING", "UNDER_REVIEW", "APPROVED", "APPROVED_AS_NOTED", "REVISE_AND_RESUBMIT", "REJECTED"])
+  .optional();
+
+export const GET = withApiKey("submittal", async (ctx) => {
+  const status = StatusFilter.parse(queryFilter(ctx, "status"));
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.submittal.findMany({
+    where: { ...phaseScope(ctx), ...(status ? { status } : {}) },
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
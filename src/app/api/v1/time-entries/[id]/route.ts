@@ -0,0 +1,18 @@
+/**
+ * @file src/app/api/v1/time-entries/[id]/route.ts
+ * @description Public REST API — fetch a single time entry.
+ *
+ * GET /api/v1/time-entries/:id
+ * Returns: { data: TimeEntry }
+ */
+import { db } from "@/lib/db";
+import { withApiKey, apiJson, apiNotFound, projectWhere } from "@/lib/api-v1";
+
+export const GET = withApiKey<{ id: string }>("time", async (ctx, { id }) => {
+  const entry = await db.timeEntry.findFirst({
+    where: { id, phase: { project: projectWhere(ctx) } },
+  });
+  if (!entry) return apiNotFound(ctx, "Time entry");
+
+  return apiJson(ctx, { data: entry });
+});
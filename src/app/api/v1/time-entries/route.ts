@@ -0,0 +1,94 @@
+/**
+ * @file src/app/api/v1/time-entries/route.ts
+ * @description Public REST API — list and create labour time entries.
+ *
+ * GET  /api/v1/time-entries?projectId=&phaseId=&status=APPROVED&limit=50&cursor=<id>
+ *      Returns: { data: TimeEntry[], nextCursor: string | null }
+ * POST /api/v1/time-entries
+ *      Body: { phaseId, workerId, date, hours, costCode?, description? }
+ *      Returns: 201 { data: TimeEntry } — created PENDING, like the in-app action;
+ *      a `costCode` matching the org's cost code library is linked to it
+ */
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { resolveCostCode } from "@/lib/cost-code-lookup";
+import {
+  withApiKey,
+  apiJson,
+  apiError,
+  apiNotFound,
+  pageArgs,
+  toPage,
+  phaseScope,
+  queryFilter,
+  readJson,
+  requireActor,
+  findOrgPhase,
+} from "@/lib/api-v1";
+import { emitWebhookEvent } from "@/lib/webhook-delivery";
+
+const StatusFilter = z.enum(["PENDING", "APPROVED", "REJECTED"]).optional();
+
+const CreateTimeEntrySchema = z.object({
+  phaseId: z.string().min(1),
+  workerId: z.string().min(1),
+  date: z.string().date(),
+  hours: z.number().positive().max(24),
+  costCode: z.string().trim().max(50).optional(),
+  description: z.string().trim().max(2000).optional(),
+});
+
+export const GET = withApiKey("time", async (ctx) => {
+  const status = StatusFilter.parse(queryFilter(ctx, "status"));
+  const { limit, args } = pageArgs(ctx);
+
+  const rows = await db.timeEntry.findMany({
+    where: { ...phaseScope(ctx), ...(status ? { status } : {}) },
+    ...args,
+  });
+
+  return apiJson(ctx, toPage(rows, limit));
+});
+
+export const POST = withApiKey("time", async (ctx) => {
+  const denied = requireActor(ctx);
+  if (denied) return denied;
+
+  const body = await readJson(ctx.request);
+  if (body === null) return apiError(400, "invalid_json", "Request body must be valid JSON", ctx.headers);
+  const data = CreateTimeEntrySchema.parse(body);
+
+  const phase = await findOrgPhase(ctx, data.phaseId);
+  if (!phase) return apiNotFound(ctx, "Phase");
+
+  const worker = await db.staff.findFirst({
+    where: { id: data.workerId, orgId: ctx.orgId },
+    select: { id: true },
+  });
+  if (!worker) return apiNotFound(ctx, "Worker");
+
+  const entry = await db.timeEntry.create({
+    data: {
+      phaseId: phase.id,
+      workerId: worker.id,
+      date: new Date(data.date),
+      hours: data.hours,
+      ...(await resolveCostCode(ctx.orgId, { costCode: data.costCode })),
+      description: data.description || null,
+      status: "PENDING",
+      createdById: ctx.userId!,
+    },
+  });
+
+  // Same event and payload as actions/timeEntry.ts createTimeEntry
+  await emitWebhookEvent(ctx.orgId, "time_entry.created", {
+    projectId: phase.projectId,
+    phaseId: phase.id,
+    timeEntryId: entry.id,
+    workerId: worker.id,
+    date: data.date,
+    hours: data.hours,
+  });
+
+  return apiJson(ctx, { data: entry }, 201);
+});
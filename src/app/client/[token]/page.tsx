@@ -117,7 +117,8 @@ export default async function ClientPortalPage({
             take: 20,
           },
           changeOrders: {
-            select: { id: true, number: true, title: true, status: true, amount: true, createdAt: true },
+            where: { type: { not: "PCO" } }, // PCOs are internal until bundled into a COR
+            select: { id: true, type: true, number: true, title: true, status: true, amount: true, createdAt: true },
             orderBy: { createdAt: "desc" },
           },
           _count: { select: { documents: true, photos: true } },
@@ -140,7 +141,7 @@ export default async function ClientPortalPage({
 
   // Aggregate change orders across all phases
   const allChangeOrders = phases.flatMap((p: any) => (p.changeOrders ?? []).map((co: any) => ({ ...co, phaseName: p.name })));
-  const approvedCOs = allChangeOrders.filter((co: any) => co.status === "APPROVED");
+  const approvedCOs = allChangeOrders.filter((co: any) => co.type === "CO" && co.status === "APPROVED");
   const totalCOAmount = approvedCOs.reduce((sum: number, co: any) => sum + Number(co.amount ?? 0), 0);
 
   // Aggregate recent photos across all phases
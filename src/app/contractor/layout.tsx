@@ -2,7 +2,8 @@
  * @file src/app/contractor/layout.tsx
  * @description Layout shell for the contractor portal. Enforces CONTRACTOR-only
  * access, loads org settings and unread count, applies the theme CSS variable,
- * and renders ContractorNav with OnboardingTour.
+ * and renders ContractorNav with OnboardingTour. OfflinePhaseCacheSync keeps
+ * the offline phase cache current while the portal is open.
  */
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
@@ -11,6 +12,7 @@ import { getOrgSettings } from "@/actions/settings";
 import { getThemeCSS } from "@/lib/themes";
 import { getUnreadCount } from "@/actions/notifications";
 import { OnboardingTour } from "@/components/help/OnboardingTour";
+import { OfflinePhaseCacheSync } from "@/components/contractor/OfflinePhaseCacheSync";
 
 export default async function ContractorLayout({
   children,
@@ -42,6 +44,7 @@ export default async function ContractorLayout({
         userRole={session.user.role || "CONTRACTOR"}
         userName={session.user.name || undefined}
       />
+      <OfflinePhaseCacheSync />
     </div>
   );
 }
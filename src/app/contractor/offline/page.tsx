@@ -0,0 +1,12 @@
+/**
+ * @file src/app/contractor/offline/page.tsx
+ * @description Offline shell for the contractor portal. The service worker
+ * caches this page and serves it for phase pages when there is no signal;
+ * OfflinePhaseView renders the phase (or the list of cached phases) from
+ * IndexedDB.
+ */
+import { OfflinePhaseView } from "@/components/contractor/OfflinePhaseView";
+
+export default function ContractorOfflinePage() {
+  return <OfflinePhaseView />;
+}
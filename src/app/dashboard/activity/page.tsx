@@ -74,6 +74,9 @@ export default async function ActivityPage() {
     "COMMENT_DELETED",
     "DEPENDENCY_ADDED",
     "DEPENDENCY_REMOVED",
+    "BASELINE_SAVED",
+    "SCHEDULE_IMPORTED",
+    "RETAINAGE_RELEASED",
   ];
 
   return (
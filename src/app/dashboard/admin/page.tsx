@@ -88,6 +88,9 @@ export default async function AdminPage() {
     "COMMENT_DELETED",
     "DEPENDENCY_ADDED",
     "DEPENDENCY_REMOVED",
+    "BASELINE_SAVED",
+    "SCHEDULE_IMPORTED",
+    "RETAINAGE_RELEASED",
   ];
 
   // Build the activity log node to embed in the admin panel
@@ -1,8 +1,12 @@
 /**
  * @file src/app/dashboard/projects/[id]/page.tsx
  * @description Full project overview page. Renders budget cards, a progress bar,
- * phase list, TeamSection, ClientTokenSection, DailyLogSection, BudgetSection, and
- * recent activity. Includes BudgetCard and StatCard helper components.
+ * phase list, TeamSection, ClientTokenSection, DailyLogSection, BudgetSection,
+ * CostCodeBudgetSection (job cost by cost code), CommitmentSection (subcontracts
+ * and purchase orders), ScheduleOfValuesSection
+ * (SOV + G702/G703 pay applications), RetainageLedgerSection, GeofenceSection
+ * (GPS clock geofences and off-site clock-in queue, PMs only), and recent activity.
+ * Includes BudgetCard and StatCard helper components.
  */
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
@@ -34,9 +38,22 @@ import { BudgetSection } from "@/components/project/BudgetSection";
 import { TeamSection } from "@/components/project/TeamSection";
 import { ClientTokenSection } from "@/components/project/ClientTokenSection";
 import { DailyLogSection } from "@/components/project/DailyLogSection";
+import { ScheduleOfValuesSection } from "@/components/project/ScheduleOfValuesSection";
+import { RetainageLedgerSection } from "@/components/project/RetainageLedgerSection";
+import { CostCodeBudgetSection } from "@/components/project/CostCodeBudgetSection";
+import { CommitmentSection } from "@/components/project/CommitmentSection";
+import { CashFlowSection } from "@/components/project/CashFlowSection";
+import { GeofenceSection } from "@/components/project/GeofenceSection";
 import { ProjectActions } from "@/components/project/ProjectActions";
 import PredictiveAnalyticsPanel from "@/components/project/PredictiveAnalyticsPanel";
 import { getProjectInvitations } from "@/actions/invitations";
+import { getScheduleOfValues, getProjectPaymentApplications } from "@/actions/schedule-of-values";
+import { getRetainageLedger } from "@/actions/retainage";
+import { getProjectBudgetSummary } from "@/actions/budget";
+import { getCostCodes, getProjectCostCodeBudget } from "@/actions/cost-codes";
+import { getProjectCommitments } from "@/actions/commitments";
+import { getProjectCashFlow } from "@/actions/cash-flow";
+import { getProjectGeofences, getGeofenceExceptions } from "@/actions/geofences";
 
 export default async function ProjectOverviewPage({
   params,
@@ -64,10 +81,6 @@ export default async function ProjectOverviewPage({
                 items: { select: { id: true, completed: true } },
               },
             },
-            changeOrders: {
-              where: { status: "APPROVED" },
-              select: { id: true, amount: true },
-            },
             _count: { select: { documents: true, photos: true } },
           },
           orderBy: { sortOrder: "asc" },
@@ -154,27 +167,32 @@ export default async function ProjectOverviewPage({
     take: 20,
   }).catch(() => []);
 
+  // Schedule of values, the pay applications billed against it, retainage held
+  // and the budget roll-up (approved change orders by phase and cost category,
+  // and budget vs committed vs actual per cost code), the subcontracts and
+  // purchase orders behind committed cost, and the monthly cash-flow projection
+  const [sovLineItems, sovPayApps, retainageLedger, budgetSummary, costCodeBudget, costCodes, commitments, cashFlow] = await Promise.all([
+    getScheduleOfValues(id),
+    getProjectPaymentApplications(id),
+    getRetainageLedger(id),
+    getProjectBudgetSummary(id),
+    getProjectCostCodeBudget(id),
+    getCostCodes(),
+    getProjectCommitments(id),
+    getProjectCashFlow(id),
+  ]);
+
   // Fetch client portal tokens (PM/Admin only)
   const clientTokens = canManageBudget
     ? await (db as any).clientToken.findMany({ where: { projectId: id }, orderBy: { createdAt: "desc" } }).catch(() => [])
     : [];
 
-  const budgetPhases = phases.map((p: any) => {
-    const phaseApprovedCOs = (p.changeOrders || []).reduce(
-      (s: number, co: any) => s + (co.amount ? Number(co.amount) : 0),
-      0
-    );
-    return {
-      id: p.id,
-      name: p.name,
-      status: p.status,
-      estimatedCost: p.estimatedCost ? Number(p.estimatedCost) : null,
-      actualCost: p.actualCost ? Number(p.actualCost) : null,
-      approvedCOs: phaseApprovedCOs,
-      adjustedEstimate: (p.estimatedCost ? Number(p.estimatedCost) : 0) + phaseApprovedCOs,
-    };
-  });
-  const totalApprovedCOs = budgetPhases.reduce((s: number, p: any) => s + p.approvedCOs, 0);
+  // Time-clock geofences and the off-site clock-in queue (PM/Admin only)
+  const [geofences, geofenceExceptions] = canManageBudget
+    ? await Promise.all([getProjectGeofences(id), getGeofenceExceptions(id)]).catch(() => [null, []] as const)
+    : [null, []];
+
+  const { totalApprovedCOs } = budgetSummary;
   const adjustedBudget = totalBudget > 0 ? totalBudget + totalApprovedCOs : null;
 
   return (
@@ -365,12 +383,45 @@ export default async function ProjectOverviewPage({
       <BudgetSection
         projectId={id}
         projectBudget={project.budget ? Number(project.budget) : null}
-        phases={budgetPhases}
+        phases={budgetSummary.phases}
         canManage={canManageBudget}
         totalApprovedCOs={totalApprovedCOs}
         adjustedBudget={adjustedBudget}
+        approvedCOsByCategory={budgetSummary.approvedCOsByCategory}
+        totalScheduleImpactDays={budgetSummary.totalScheduleImpactDays}
+        pendingExposure={budgetSummary.pendingExposure}
       />
 
+      {/* Job cost by cost code */}
+      <CostCodeBudgetSection
+        projectId={id}
+        budget={costCodeBudget}
+        costCodes={costCodes}
+        canManage={canManageBudget}
+      />
+
+      {/* Subcontracts and purchase orders */}
+      <CommitmentSection commitments={commitments} costCodes={costCodes} canManage={canManageBudget} />
+
+      {/* Cash flow projection */}
+      {cashFlow && <CashFlowSection projectId={id} cashFlow={cashFlow} canManage={canManageBudget} />}
+
+      {/* Schedule of Values / pay applications */}
+      <ScheduleOfValuesSection
+        projectId={id}
+        lineItems={sovLineItems}
+        applications={sovPayApps}
+        phases={phases.map((p: typeof phases[0]) => ({ id: p.id, name: p.name }))}
+        netChangeOrders={totalApprovedCOs}
+        retainageRate={retainageLedger?.currentRate ?? null}
+        canManage={canManageBudget}
+      />
+
+      {/* Retainage ledger */}
+      {retainageLedger && (retainageLedger.entries.length > 0 || sovLineItems.length > 0) && (
+        <RetainageLedgerSection projectId={id} ledger={retainageLedger} canManage={canManageBudget} />
+      )}
+
       {/* Daily Logs */}
       <DailyLogSection
         projectId={id}
@@ -378,6 +429,16 @@ export default async function ProjectOverviewPage({
         canCreate={can(userRole, "create", "document")}
       />
 
+      {/* GPS time clock geofences + exception queue */}
+      {geofences && (
+        <GeofenceSection
+          projectId={id}
+          policy={geofences.policy}
+          fences={geofences.fences}
+          exceptions={geofenceExceptions}
+        />
+      )}
+
       {/* Main content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left: Phase list */}
@@ -19,6 +19,8 @@ import { InspectionSection } from "@/components/phase/InspectionSection";
 import { SubcontractorBidSection } from "@/components/phase/SubcontractorBidSection";
 import { MaterialSection } from "@/components/phase/MaterialSection";
 import { ChangeOrderSection } from "@/components/phase/ChangeOrderSection";
+import { getChangeOrders } from "@/actions/change-orders";
+import { getCostCodes } from "@/actions/cost-codes";
 import { getPhaseComments } from "@/actions/comments";
 import { VoiceNoteSection } from "@/components/phase/VoiceNoteSection";
 import { getPhaseVoiceNotes } from "@/actions/voiceNotes";
@@ -101,7 +103,7 @@ export default async function PhaseDetailPage({
 
   const dbc = db as any;
 
-  const [comments, voiceNotes, punchListItems, rfiItems, submittalItems, timeEntries, lienWaivers, paymentApps, drawingItems, estimateItems, allStaff, templates, inspections, bids, materials, changeOrders] = await Promise.all([
+  const [comments, voiceNotes, punchListItems, rfiItems, submittalItems, timeEntries, lienWaivers, paymentApps, drawingItems, estimateItems, allStaff, templates, inspections, bids, materials, changeOrders, costCodes] = await Promise.all([
     getPhaseComments(phaseId),
     getPhaseVoiceNotes(phaseId),
     getPunchListItems(phaseId),
@@ -131,12 +133,8 @@ export default async function PhaseDetailPage({
     }).then((mats: any[]) =>
       mats.map((m: any) => ({ ...m, cost: m.cost ? Number(m.cost) : null }))
     ).catch(() => []),
-    dbc.changeOrder.findMany({
-      where: { phaseId },
-      orderBy: { createdAt: "desc" },
-    }).then((cos: any[]) =>
-      cos.map((co: any) => ({ ...co, amount: co.amount ? Number(co.amount) : null }))
-    ).catch(() => []),
+    getChangeOrders(phaseId).catch(() => []),
+    getCostCodes().catch(() => []),
   ]);
 
   const userRole = session.user.role || "VIEWER";
@@ -219,6 +217,7 @@ export default async function PhaseDetailPage({
           allStaff={allStaff}
           canEdit={canEdit}
           canManage={canManage}
+          costCodes={costCodes}
         />
 
         {canManage && <TimeTrackingAIPanel projectId={projectId} />}
@@ -251,6 +250,7 @@ export default async function PhaseDetailPage({
           phaseId={phaseId}
           materials={materials}
           canManage={canManage}
+          costCodes={costCodes}
         />
 
         {canManage && (
@@ -266,6 +266,8 @@ export default async function PhaseDetailPage({
           changeOrders={changeOrders}
           canCreate={canEdit}
           canApprove={canManage}
+          rfis={rfiItems.map((r: { id: string; rfiNumber: number; subject: string }) => ({ id: r.id, rfiNumber: r.rfiNumber, subject: r.subject }))}
+          costCodes={costCodes}
         />
 
         {canManage && (
@@ -326,6 +328,7 @@ export default async function PhaseDetailPage({
           estimates={estimateItems}
           canEdit={canEdit}
           canManage={canManage}
+          costCodes={costCodes}
         />
 
         {canManage && (
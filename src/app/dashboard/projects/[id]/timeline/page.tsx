@@ -1,16 +1,28 @@
 /**
  * @file src/app/dashboard/projects/[id]/timeline/page.tsx
  * @description Gantt chart timeline page for a project. Renders GanttChart and
- * computes lastEstPhase and lastWorstPhase summary metrics. Includes a SummaryCard
- * helper component.
+ * computes lastEstPhase and lastWorstPhase summary metrics. Runs the CPM engine
+ * (lib/critical-path.ts) over the project's dependencies so the chart can highlight
+ * critical phases and show float, and lists saved schedule baselines for the
+ * chart's baseline overlay. The header offers MS Project / P6 schedule import and
+ * export (ScheduleInterchangeMenu). Includes a SummaryCard helper component.
  */
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { notFound, redirect } from "next/navigation";
 import { GanttChart } from "@/components/timeline/GanttChart";
+import { ScheduleInterchangeMenu } from "@/components/timeline/ScheduleInterchangeMenu";
+import { getScheduleBaselines } from "@/actions/baselines";
+import { canManagePhase } from "@/lib/permissions";
 import Link from "next/link";
 import { ArrowLeft, Settings } from "lucide-react";
 import { cn, statusColor, statusLabel, fmtLong, weeksBetween } from "@/lib/utils";
+import {
+  computeCriticalPath,
+  phasesToActivities,
+  dependenciesToLinks,
+  type CpmResult,
+} from "@/lib/critical-path";
 
 export default async function TimelinePage({
   params,
@@ -46,6 +58,30 @@ export default async function TimelinePage({
 
   if (!project) notFound();
 
+  const dependencies = await db.phaseDependency.findMany({
+    where: { phase: { projectId: id } },
+    select: { id: true, phaseId: true, dependsOnId: true, lagDays: true, type: true },
+  });
+
+  const baselines = await getScheduleBaselines(id);
+  const canManage = canManagePhase(session.user.role);
+
+  // A cyclic graph has no valid schedule — render the chart without CPM overlays
+  let cpm: CpmResult | null = null;
+  try {
+    cpm = computeCriticalPath(phasesToActivities(project.phases), dependenciesToLinks(dependencies));
+  } catch {
+    cpm = null;
+  }
+  const schedule = cpm
+    ? Object.fromEntries(
+        Object.entries(cpm.phases).map(([phaseId, r]) => [
+          phaseId,
+          { totalFloat: r.totalFloat, critical: r.critical },
+        ])
+      )
+    : undefined;
+
   // Calculate summary stats
   const lastEstPhase = project.phases
     .filter((p: typeof project.phases[0]) => !p.isMilestone)
@@ -89,19 +125,23 @@ export default async function TimelinePage({
             )}
           </div>
 
-          {/* Current date */}
-          <div className="text-right">
-            <p className="text-xs text-gray-400 uppercase tracking-wide">
-              Current Date
-            </p>
-            <p className="text-sm font-medium text-green-600">
-              {new Date().toLocaleDateString("en-US", {
-                weekday: "long",
-                month: "long",
-                day: "numeric",
-                year: "numeric",
-              })}
-            </p>
+          <div className="flex items-center gap-4">
+            <ScheduleInterchangeMenu projectId={project.id} canImport={canManage} />
+
+            {/* Current date */}
+            <div className="text-right">
+              <p className="text-xs text-gray-400 uppercase tracking-wide">
+                Current Date
+              </p>
+              <p className="text-sm font-medium text-green-600">
+                {new Date().toLocaleDateString("en-US", {
+                  weekday: "long",
+                  month: "long",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+              </p>
+            </div>
           </div>
         </div>
       </div>
@@ -112,6 +152,10 @@ export default async function TimelinePage({
           projectId={project.id}
           phases={project.phases}
           planApproval={planApproval}
+          schedule={schedule}
+          dependencies={dependencies}
+          baselines={baselines}
+          canManage={canManage}
         />
       </div>
 
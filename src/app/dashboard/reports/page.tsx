@@ -1,8 +1,9 @@
 /**
  * @file src/app/dashboard/reports/page.tsx
- * @description Reports and analytics page. Performs 7 parallel data fetches to
- * render Job P&L summaries, team performance metrics, overdue phases, and an
- * activity sparkline. ADMIN and PROJECT_MANAGER only.
+ * @description Reports and analytics page. Performs 8 parallel data fetches to
+ * render Job P&L summaries (with job cost by cost code), team performance metrics, overdue phases, and an
+ * activity sparkline, and to feed the CSV exports (including schedule variance
+ * vs baseline). ADMIN and PROJECT_MANAGER only.
  */
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
@@ -15,6 +16,7 @@ import {
   getTeamPerformance,
   getOverdueReport,
   getJobPLReport,
+  getScheduleVarianceReport,
 } from "@/actions/reports";
 import { cn, statusColor, statusLabel, fmtShort } from "@/lib/utils";
 import { ExportButton } from "@/components/reports/ExportButton";
@@ -30,6 +32,7 @@ import {
   Shield,
   HardHat,
   DollarSign,
+  Layers,
 } from "lucide-react";
 
 export default async function ReportsPage() {
@@ -51,6 +54,7 @@ export default async function ReportsPage() {
     teamPerformance,
     overdueReport,
     jobPL,
+    scheduleVariance,
   ] = await Promise.all([
     getProjectHealthReport(),
     getPhaseStatusBreakdown(),
@@ -59,6 +63,7 @@ export default async function ReportsPage() {
     canManage ? getTeamPerformance() : Promise.resolve([]),
     getOverdueReport(),
     canManage ? getJobPLReport() : Promise.resolve([]),
+    canManage ? getScheduleVarianceReport() : Promise.resolve([]),
   ]);
 
   const totalPhases = phaseBreakdown.reduce((s, p) => s + p.count, 0);
@@ -127,6 +132,7 @@ export default async function ReportsPage() {
                     overdue: t.overdue,
                   }))
                 : undefined,
+              scheduleVariance: canManage ? scheduleVariance : undefined,
             }}
           />
         </div>
@@ -523,6 +529,80 @@ export default async function ReportsPage() {
         </div>
       )}
 
+      {/* Job cost by cost code — admin/PM only */}
+      {canManage && (jobPL as Awaited<ReturnType<typeof getJobPLReport>>).some((row) => row.costCodes.length > 0) && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+              <Layers className="w-4 h-4 text-gray-500" />
+              Job Cost by Cost Code
+            </h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Budget includes approved change orders. Committed is the unbilled balance of approved subcontracts and purchase orders plus other material on order; actual is what those commitments have invoiced plus other material delivered or installed.
+            </p>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {(jobPL as Awaited<ReturnType<typeof getJobPLReport>>)
+              .filter((row) => row.costCodes.length > 0)
+              .map((row) => (
+                <details key={row.projectId} className="group">
+                  <summary className="px-5 py-3 flex items-center justify-between cursor-pointer hover:bg-gray-50 list-none">
+                    <span className="flex items-center gap-2 font-medium text-gray-900">
+                      <ChevronRight className="w-4 h-4 text-gray-400 group-open:rotate-90 transition-transform" />
+                      {row.projectName}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {row.costCodes.length} cost code{row.costCodes.length === 1 ? "" : "s"}
+                    </span>
+                  </summary>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-gray-50 text-left">
+                          <th className="px-5 py-2 font-medium text-gray-600">Cost Code</th>
+                          <th className="px-3 py-2 font-medium text-gray-600 text-right">Budget</th>
+                          <th className="px-3 py-2 font-medium text-gray-600 text-right">Committed</th>
+                          <th className="px-3 py-2 font-medium text-gray-600 text-right">Actual</th>
+                          <th className="px-3 py-2 font-medium text-gray-600 text-right">Remaining</th>
+                          <th className="px-3 py-2 font-medium text-gray-600 text-right hidden sm:table-cell">Labor Hrs</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {row.costCodes.map((c) => (
+                          <tr key={c.costCodeId ?? "uncoded"}>
+                            <td className="px-5 py-2">
+                              {c.code && <span className="font-mono text-xs text-gray-500 mr-2">{c.code}</span>}
+                              <span className={c.costCodeId ? "text-gray-900" : "italic text-gray-500"}>{c.name}</span>
+                            </td>
+                            <td className="px-3 py-2 text-right text-gray-700">
+                              ${fmtNum(c.revisedBudget)}
+                              {c.approvedChanges !== 0 && (
+                                <span className="block text-[11px] text-gray-400">
+                                  incl. {c.approvedChanges > 0 ? "+" : "-"}${fmtNum(Math.abs(c.approvedChanges))} CO
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-right text-gray-700">${fmtNum(c.committed)}</td>
+                            <td className="px-3 py-2 text-right text-gray-700">${fmtNum(c.actual)}</td>
+                            <td className="px-3 py-2 text-right">
+                              <span className={c.remaining >= 0 ? "text-green-600 font-medium" : "text-red-600 font-medium"}>
+                                {c.remaining >= 0 ? "" : "-"}${fmtNum(Math.abs(c.remaining))}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2 text-right text-gray-700 hidden sm:table-cell">
+                              {c.laborHours > 0 ? c.laborHours.toLocaleString("en-US") : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </details>
+              ))}
+          </div>
+        </div>
+      )}
+
       {canManage && (teamPerformance as ReturnType<typeof Array>).length > 0 && (
         <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
           <div className="px-5 py-4 border-b border-gray-100">
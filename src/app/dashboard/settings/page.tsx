@@ -1,8 +1,9 @@
 /**
  * @file src/app/dashboard/settings/page.tsx
- * @description User and organization settings page. Performs 10 parallel data
+ * @description User and organization settings page. Performs 13 parallel data
  * fetches to populate profile, TOTP, language, appearance, templates, QuickBooks
- * integration, webhooks, and report schedule settings.
+ * integration, webhooks, report schedules (with delivery history) and calendar
+ * feed settings.
  */
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
@@ -23,10 +24,16 @@ import { TotpSection } from "@/components/settings/TotpSection";
 import { ApiKeySection } from "@/components/settings/ApiKeySection";
 import { WebhookSection } from "@/components/settings/WebhookSection";
 import { ReportScheduleSection } from "@/components/settings/ReportScheduleSection";
+import { CalendarFeedSection } from "@/components/settings/CalendarFeedSection";
+import { ApprovalChainSection } from "@/components/settings/ApprovalChainSection";
+import { CostCodeSection } from "@/components/settings/CostCodeSection";
 import { getTotpStatus } from "@/actions/totp";
-import { getApiKeys } from "@/actions/api-keys";
+import { getApiKeys, getApiKeyProjectOptions } from "@/actions/api-keys";
 import { getWebhooks } from "@/actions/webhooks";
-import { getReportSchedules } from "@/actions/report-schedules";
+import { getReportSchedules, getReportDeliveries } from "@/actions/report-schedules";
+import { getCalendarFeeds, getCalendarFeedProjectOptions } from "@/actions/calendar-feeds";
+import { getApprovalChains, getApprovalChainApprovers } from "@/actions/approval-chains";
+import { getCostCodes } from "@/actions/cost-codes";
 import { QuickBooksSection } from "@/components/settings/QuickBooksSection";
 import { getQuickBooksConnection, getQuickBooksSyncLogs } from "@/actions/quickbooks";
 import { ProfileEditor } from "@/components/settings/ProfileEditor";
@@ -52,11 +59,15 @@ export default async function SettingsPage() {
   const templates = canManage ? await getChecklistTemplates() : [];
 
   // Sprint H — security & integrations (fetched in parallel, fall back gracefully)
-  const [totpStatus, apiKeys, webhooks, reportSchedules] = await Promise.all([
+  const [totpStatus, apiKeys, apiKeyProjects, webhooks, reportSchedules, reportDeliveries, calendarFeeds, calendarFeedProjects] = await Promise.all([
     getTotpStatus().catch(() => ({ enabled: false, verified: false })),
     getApiKeys().catch(() => []),
+    getApiKeyProjectOptions().catch(() => []),
     getWebhooks().catch(() => []),
     getReportSchedules().catch(() => []),
+    getReportDeliveries().catch(() => []),
+    getCalendarFeeds().catch(() => []),
+    getCalendarFeedProjectOptions().catch(() => []),
   ]);
 
   // Sprint N — QuickBooks integration
@@ -65,6 +76,15 @@ export default async function SettingsPage() {
     getQuickBooksSyncLogs().catch(() => []),
   ]);
 
+  // Change order approval chains and the cost code library (admin/PM only)
+  const [approvalChains, approvalChainApprovers, costCodes] = canManage
+    ? await Promise.all([
+        getApprovalChains().catch(() => []),
+        getApprovalChainApprovers().catch(() => []),
+        getCostCodes({ includeInactive: true }).catch(() => []),
+      ])
+    : [[], [], []];
+
   // Profile data + Keeney Mode status
   const [profile, keeneyMode] = await Promise.all([
     getProfile().catch(() => null),
@@ -141,9 +161,14 @@ export default async function SettingsPage() {
         <NotificationSettings preferences={notifPrefs} phone={userPhone} />
       </div>
 
+      {/* Calendar feeds (.ics subscriptions) */}
+      <div className="mt-6">
+        <CalendarFeedSection feeds={calendarFeeds} projects={calendarFeedProjects} />
+      </div>
+
       {/* API Keys */}
       <div className="mt-6">
-        <ApiKeySection apiKeys={apiKeys} />
+        <ApiKeySection apiKeys={apiKeys} projects={apiKeyProjects} />
       </div>
 
       {/* QuickBooks Integration */}
@@ -161,7 +186,21 @@ export default async function SettingsPage() {
       {/* Automated Report Schedules (admin/PM only) */}
       {canManage && (
         <div className="mt-6">
-          <ReportScheduleSection schedules={reportSchedules} />
+          <ReportScheduleSection schedules={reportSchedules} deliveries={reportDeliveries} projects={apiKeyProjects} />
+        </div>
+      )}
+
+      {/* Change Order Approval Chains (admin/PM only) */}
+      {canManage && (
+        <div className="mt-6">
+          <ApprovalChainSection chains={approvalChains} approvers={approvalChainApprovers} />
+        </div>
+      )}
+
+      {/* Cost Code Library (admin/PM only) */}
+      {canManage && (
+        <div className="mt-6">
+          <CostCodeSection costCodes={costCodes} />
         </div>
       )}
 
@@ -0,0 +1,47 @@
+"use client";
+
+/**
+ * @file components/contractor/OfflinePhaseCacheSync.tsx
+ * @description Effect-only component for the contractor portal that keeps the
+ * offline phase cache (lib/offline-phase-cache.ts) current: syncs on mount,
+ * when connectivity returns and every five minutes while online. It also asks
+ * the service worker to cache the `/contractor/offline` shell while signed in,
+ * so phase pages can be rendered from the cache without signal.
+ * Sync errors are ignored — the cache simply stays at its last good state.
+ * Returns null — no UI is rendered.
+ */
+
+import { useEffect } from "react";
+import { syncPhaseCache } from "@/lib/offline-phase-cache";
+
+/** How often (ms) to pull read-model changes while online. */
+const SYNC_INTERVAL_MS = 5 * 60_000;
+
+export function OfflinePhaseCacheSync() {
+  useEffect(() => {
+    let running = false;
+    const sync = () => {
+      if (running || !navigator.onLine) return;
+      running = true;
+      syncPhaseCache()
+        .catch(() => {})
+        .finally(() => {
+          running = false;
+        });
+    };
+
+    sync();
+    navigator.serviceWorker?.ready
+      .then((reg) => reg.active?.postMessage({ type: "CACHE_URLS", urls: ["/contractor/offline"] }))
+      .catch(() => {});
+
+    window.addEventListener("online", sync);
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", sync);
+      clearInterval(interval);
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,335 @@
+"use client";
+
+/**
+ * @file components/contractor/OfflinePhaseView.tsx
+ * @description Contractor phase view rendered from the offline phase cache
+ * (lib/offline-phase-cache.ts) — what `/contractor/phases/[phaseId]` shows when
+ * there is no signal. The service worker sends those pages to
+ * `/contractor/offline?phase=<id>`; without `phase` the view lists every
+ * cached phase by project.
+ *
+ * Structure (one phase):
+ *   - Header: project, phase, status, planned dates, progress, when the copy
+ *     was synced, and a link to the live page while online.
+ *   - Checklist: items can be ticked offline — the toggle is queued through
+ *     `offlineAction("toggleChecklistItem")` and mirrored into the cache.
+ *   - Punch list, drawings list, RFIs (question and answer) and recent photos,
+ *     read-only.
+ *
+ * The phase id is read from `window.location` on the client because the shell
+ * HTML is cached without it (the server render only shows the loading state).
+ * i18n namespace: `offlinePhases`.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ArrowLeft, Calendar, CheckSquare, ClipboardList, FileText, HelpCircle, Image as ImageIcon, MapPin, Square, WifiOff } from "lucide-react";
+import { getCachedPhase, getCachedPhases, getLastSync, updateCachedPhase, type OfflinePhase } from "@/lib/offline-phase-cache";
+import { offlineAction } from "@/lib/offline-action";
+import { toggleChecklistItem } from "@/actions/checklists";
+import { fmtLong, fmtShort, statusLabel } from "@/lib/utils";
+
+/** `?phase=` of the current URL; null during the server render. */
+function phaseFromUrl(): string | null {
+  return typeof window === "undefined" ? null : new URLSearchParams(window.location.search).get("phase");
+}
+
+interface CacheView {
+  phase: OfflinePhase | null;
+  phases: OfflinePhase[];
+  lastSync: string | null;
+}
+
+/** One cached phase (when `id` is given) or every cached phase, by project. */
+async function readCache(id: string | null): Promise<CacheView> {
+  try {
+    const [one, all, lastSync] = await Promise.all([
+      id ? getCachedPhase(id) : Promise.resolve(undefined),
+      id ? Promise.resolve([]) : getCachedPhases(),
+      getLastSync(),
+    ]);
+    return {
+      phase: one ?? null,
+      phases: all.sort((a, b) => a.projectName.localeCompare(b.projectName) || a.estStart.localeCompare(b.estStart)),
+      lastSync,
+    };
+  } catch {
+    // IndexedDB unavailable (private browsing) — render the empty state
+    return { phase: null, phases: [], lastSync: null };
+  }
+}
+
+export function OfflinePhaseView() {
+  const t = useTranslations("offlinePhases");
+  const [phaseId, setPhaseId] = useState(phaseFromUrl);
+  const [phase, setPhase] = useState<OfflinePhase | null>(null);
+  const [phases, setPhases] = useState<OfflinePhase[]>([]);
+  const [lastSync, setLastSync] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine);
+
+  const show = useCallback((view: CacheView) => {
+    setPhase(view.phase);
+    setPhases(view.phases);
+    setLastSync(view.lastSync);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    readCache(phaseFromUrl()).then(show);
+    const online = () => setIsOnline(true);
+    const offline = () => setIsOnline(false);
+    window.addEventListener("online", online);
+    window.addEventListener("offline", offline);
+    return () => {
+      window.removeEventListener("online", online);
+      window.removeEventListener("offline", offline);
+    };
+  }, [show]);
+
+  function open(id: string | null) {
+    window.history.pushState(null, "", id ? `/contractor/offline?phase=${id}` : "/contractor/offline");
+    setPhaseId(id);
+    setLoaded(false);
+    readCache(id).then(show);
+  }
+
+  async function toggle(itemId: string) {
+    if (!phase) return;
+    const flip = (p: OfflinePhase) => ({
+      ...p,
+      checklist: p.checklist.map((i) => (i.id === itemId ? { ...i, completed: !i.completed } : i)),
+    });
+    const completed = !phase.checklist.find((i) => i.id === itemId)?.completed;
+    setPhase(flip(phase));
+    try {
+      const result = await offlineAction(
+        "toggleChecklistItem",
+        () => toggleChecklistItem(itemId, completed),
+        { itemId, completed },
+        phase.syncedAt
+      );
+      await updateCachedPhase(phase.id, flip);
+      if (result.queued) toast.info(t("queuedOffline"));
+    } catch (err) {
+      setPhase(phase);
+      toast.error(err instanceof Error ? err.message : t("failed"));
+    }
+  }
+
+  const banner = (
+    <div className="flex items-center gap-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-xs text-amber-800">
+      <WifiOff className="w-4 h-4 shrink-0" />
+      <span>
+        {lastSync ? t("cachedCopy", { time: new Date(lastSync).toLocaleString() }) : t("neverSynced")}
+      </span>
+    </div>
+  );
+
+  if (!loaded) return <p className="text-sm text-gray-400">{t("loading")}</p>;
+
+  // ── Phase list ──
+  if (!phaseId || !phase) {
+    const byProject = new Map<string, OfflinePhase[]>();
+    for (const p of phases) byProject.set(p.projectName, [...(byProject.get(p.projectName) ?? []), p]);
+    return (
+      <div className="space-y-4">
+        {banner}
+        {phaseId && <p className="text-sm text-gray-600">{t("phaseNotCached")}</p>}
+        {phaseId && (
+          <button onClick={() => open(null)} className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="w-4 h-4" />
+            {t("allPhases")}
+          </button>
+        )}
+        {!phaseId && phases.length === 0 && <p className="text-sm text-gray-500">{t("empty")}</p>}
+        {!phaseId &&
+          [...byProject].map(([project, list]) => (
+            <div key={project} className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{project}</p>
+              <div className="divide-y divide-gray-100">
+                {list.map((p) => (
+                  <button key={p.id} onClick={() => open(p.id)} className="w-full flex items-center justify-between py-2 text-left hover:bg-gray-50">
+                    <span className="text-sm font-medium text-gray-900">{p.name}</span>
+                    <span className="text-xs text-gray-500">{statusLabel(p.status)} · {p.progress}%</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+      </div>
+    );
+  }
+
+  // ── One phase ──
+  const sectionClass = "bg-white rounded-xl border border-gray-200 p-4 sm:p-5";
+  const headingClass = "text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3 flex items-center gap-2";
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <button onClick={() => open(null)} className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="w-4 h-4" />
+          {t("allPhases")}
+        </button>
+        {isOnline && (
+          <a href={`/contractor/phases/${phase.id}`} className="text-sm font-medium text-[var(--color-primary)] hover:underline">
+            {t("openLive")}
+          </a>
+        )}
+      </div>
+      {banner}
+
+      {/* Header */}
+      <div className={sectionClass}>
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{phase.projectName}</p>
+        <div className="flex items-start justify-between gap-3">
+          <h1 className="text-lg sm:text-xl font-bold text-gray-900">{phase.name}</h1>
+          <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700 shrink-0">{statusLabel(phase.status)}</span>
+        </div>
+        {phase.detail && <p className="text-sm text-gray-600 mt-1">{phase.detail}</p>}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-3 text-sm text-gray-500">
+          <span className="flex items-center gap-1.5">
+            <Calendar className="w-4 h-4" />
+            {fmtLong(phase.estStart)} — {fmtLong(phase.estEnd)}
+          </span>
+          {phase.projectAddress && (
+            <span className="flex items-center gap-1.5">
+              <MapPin className="w-4 h-4" />
+              {phase.projectAddress}
+            </span>
+          )}
+        </div>
+        <div className="mt-3 h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-[var(--color-primary)] rounded-full" style={{ width: `${phase.progress}%` }} />
+        </div>
+      </div>
+
+      {/* Checklist */}
+      <div className={sectionClass}>
+        <h2 className={headingClass}>
+          <CheckSquare className="w-4 h-4 text-gray-400" />
+          {t("checklist")} ({phase.checklist.filter((i) => i.completed).length}/{phase.checklist.length})
+        </h2>
+        {phase.checklist.length === 0 ? (
+          <p className="text-sm text-gray-400">{t("none")}</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {phase.checklist.map((item) => (
+              <li key={item.id}>
+                <button onClick={() => toggle(item.id)} className="flex items-center gap-2 text-sm text-left">
+                  {item.completed ? <CheckSquare className="w-4 h-4 text-green-600 shrink-0" /> : <Square className="w-4 h-4 text-gray-400 shrink-0" />}
+                  <span className={item.completed ? "text-gray-400 line-through" : "text-gray-800"}>{item.title}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Punch list */}
+      <div className={sectionClass}>
+        <h2 className={headingClass}>
+          <ClipboardList className="w-4 h-4 text-gray-400" />
+          {t("punchList")} ({phase.punchList.length})
+        </h2>
+        {phase.punchList.length === 0 ? (
+          <p className="text-sm text-gray-400">{t("none")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {phase.punchList.map((item) => (
+              <li key={item.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <span className="font-mono text-xs text-gray-400 mr-1.5">#{item.itemNumber}</span>
+                  <span className="text-gray-900">{item.title}</span>
+                  {item.location && <p className="text-xs text-gray-500">{item.location}</p>}
+                </div>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {statusLabel(item.status)} · {statusLabel(item.priority)}
+                  {item.dueDate && ` · ${fmtShort(item.dueDate)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Drawings */}
+      <div className={sectionClass}>
+        <h2 className={headingClass}>
+          <FileText className="w-4 h-4 text-gray-400" />
+          {t("drawings")} ({phase.drawings.length})
+        </h2>
+        {phase.drawings.length === 0 ? (
+          <p className="text-sm text-gray-400">{t("none")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {phase.drawings.map((d) => (
+              <li key={d.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                <div>
+                  <span className="font-mono text-xs text-gray-500 mr-1.5">{d.drawingNumber}</span>
+                  {d.fileUrl ? (
+                    <a href={d.fileUrl} target="_blank" rel="noopener noreferrer" className="text-gray-900 hover:underline">{d.title}</a>
+                  ) : (
+                    <span className="text-gray-900">{d.title}</span>
+                  )}
+                </div>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {statusLabel(d.discipline)} · {t("revision", { revision: d.revision })} · {statusLabel(d.status)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* RFIs */}
+      <div className={sectionClass}>
+        <h2 className={headingClass}>
+          <HelpCircle className="w-4 h-4 text-gray-400" />
+          {t("rfis")} ({phase.rfis.length})
+        </h2>
+        {phase.rfis.length === 0 ? (
+          <p className="text-sm text-gray-400">{t("none")}</p>
+        ) : (
+          <ul className="space-y-3">
+            {phase.rfis.map((r) => (
+              <li key={r.id} className="text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium text-gray-900">
+                    <span className="font-mono text-xs text-gray-400 mr-1.5">RFI-{r.rfiNumber}</span>
+                    {r.subject}
+                  </span>
+                  <span className="text-xs text-gray-500 shrink-0">{statusLabel(r.status)}</span>
+                </div>
+                <p className="text-xs text-gray-600 mt-0.5 whitespace-pre-line">{r.question}</p>
+                {r.answer && (
+                  <p className="text-xs text-green-700 mt-1 pl-2 border-l-2 border-green-200 whitespace-pre-line">{r.answer}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Recent photos */}
+      <div className={sectionClass}>
+        <h2 className={headingClass}>
+          <ImageIcon className="w-4 h-4 text-gray-400" />
+          {t("recentPhotos")} ({phase.photos.length})
+        </h2>
+        {phase.photos.length === 0 ? (
+          <p className="text-sm text-gray-400">{t("none")}</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {phase.photos.map((p) => (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img key={p.id} src={p.url} alt={p.caption ?? ""} title={p.caption ?? undefined} className="aspect-square w-full object-cover rounded-lg bg-gray-100" />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,13 @@
  *
  * Charts rendered:
  *   - Budget summary cards: Estimated / Actual / Variance (red/green/neutral).
+ *   - Earned Value: CPI / SPI / EAC / ETC / VAC tiles, a weekly LineChart of
+ *     planned value vs earned value vs actual cost, a CPI / SPI trend against
+ *     the 1.0 line, and per-project indices (data.earnedValue; weekly
+ *     snapshots from lib/earned-value.ts).
+ *   - Cash Flow: org-wide cumulative cash in vs cash out with monthly net
+ *     (data.cashFlow, lib/cash-flow.ts) and an XLSX download from
+ *     `GET /api/export/cash-flow`.
  *   - Budget S-Curve: AreaChart of cumulative planned vs actual spend over time.
  *   - Project Budget Comparison: grouped BarChart per project (estimated vs actual).
  *   - Monthly Activity: grouped BarChart of phases created + documents added per month.
@@ -48,9 +55,13 @@ import {
   Legend,
   AreaChart,
   Area,
+  ReferenceLine,
+  ComposedChart,
 } from "recharts";
 import {
   TrendingUp,
+  Gauge,
+  Banknote,
   DollarSign,
   Users,
   BarChart2,
@@ -89,6 +100,12 @@ function fmt(n: number): string {
   return `$${n.toFixed(0)}`;
 }
 
+/** CPI / SPI colour: below 1.0 is behind (cost overrun or schedule slip). */
+function indexColor(v: number | null): string {
+  if (v === null) return "text-gray-400";
+  return v < 0.95 ? "text-red-600" : v < 1 ? "text-amber-600" : "text-green-600";
+}
+
 function SectionHeader({ icon, title }: { icon: React.ReactNode; title: string }) {
   return (
     <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2 mb-3">
@@ -162,6 +179,31 @@ export function AnalyticsWidgets({ data, onRangeChange }: Props) {
     }
     lines.push("");
 
+    // Earned value
+    if (data.earnedValue?.trend.length) {
+      lines.push("Week,Planned Value,Earned Value,Actual Cost,CPI,SPI");
+      for (const w of data.earnedValue.trend) {
+        lines.push(`${w.week},${w.plannedValue},${w.earnedValue},${w.actualCost},${w.cpi ?? ""},${w.spi ?? ""}`);
+      }
+      lines.push("");
+    }
+    if (data.earnedValue?.projects.length) {
+      lines.push("Project,CPI,SPI,EAC,VAC");
+      for (const p of data.earnedValue.projects) {
+        lines.push(`"${p.name}",${p.cpi ?? ""},${p.spi ?? ""},${p.estimateAtCompletion},${p.varianceAtCompletion}`);
+      }
+      lines.push("");
+    }
+
+    // Cash flow
+    if (data.cashFlow?.months.length) {
+      lines.push("Month,Cash In,Cash Out,Net,Cumulative Net");
+      for (const m of data.cashFlow.months) {
+        lines.push(`${m.month},${m.cashIn},${m.cashOut},${m.net},${m.cumulativeNet}`);
+      }
+      lines.push("");
+    }
+
     // Budget curve
     if (data.budgetCurve?.length) {
       lines.push("Month,Planned (Cumulative),Actual (Cumulative)");
@@ -291,6 +333,133 @@ export function AnalyticsWidgets({ data, onRangeChange }: Props) {
         </div>
       </div>
 
+      {/* Earned Value */}
+      {data.earnedValue?.current && (() => {
+        const ev = data.earnedValue.current;
+        const tiles: { key: string; value: string; color: string }[] = [
+          { key: "cpi", value: ev.cpi?.toFixed(2) ?? "—", color: indexColor(ev.cpi) },
+          { key: "spi", value: ev.spi?.toFixed(2) ?? "—", color: indexColor(ev.spi) },
+          { key: "eac", value: fmt(ev.estimateAtCompletion), color: "text-gray-900" },
+          { key: "etc", value: fmt(ev.estimateToComplete), color: "text-gray-900" },
+          {
+            key: "vac",
+            value: `${ev.varianceAtCompletion < 0 ? "−" : ev.varianceAtCompletion > 0 ? "+" : ""}${fmt(Math.abs(ev.varianceAtCompletion))}`,
+            color: ev.varianceAtCompletion < 0 ? "text-red-600" : "text-green-600",
+          },
+        ];
+        return (
+          <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-4">
+            <div className="flex items-start justify-between gap-3">
+              <SectionHeader icon={<Gauge className="w-4 h-4 text-[var(--color-primary)]" />} title={t("earnedValue")} />
+              <p className="text-[11px] text-gray-400 text-right">
+                {t("evmTotals", { pv: fmt(ev.plannedValue), ev: fmt(ev.earnedValue), ac: fmt(ev.actualCost), bac: fmt(ev.budgetAtCompletion) })}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {tiles.map((tile) => (
+                <div key={tile.key} className="bg-gray-50 rounded-lg px-3 py-2">
+                  <p className="text-[11px] text-gray-500" title={t(`${tile.key}Hint`)}>{t(tile.key)}</p>
+                  <p className={`text-lg font-bold ${tile.color}`}>{tile.value}</p>
+                </div>
+              ))}
+            </div>
+            {data.earnedValue.trend.length > 1 ? (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <ResponsiveContainer width="100%" height={200}>
+                  <LineChart data={data.earnedValue.trend} margin={{ top: 0, right: 4, left: -16, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                    <XAxis dataKey="week" tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v: string) => v.slice(5)} />
+                    <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v: number) => fmt(v)} />
+                    <Tooltip contentStyle={{ fontSize: 11, borderRadius: 8, border: "1px solid #e2e8f0" }} formatter={(v: number) => [fmt(v)]} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line type="monotone" dataKey="plannedValue" name={t("plannedValue")} stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 3" dot={false} />
+                    <Line type="monotone" dataKey="earnedValue" name={t("earnedValueShort")} stroke="#22c55e" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="actualCost" name={t("actualCost")} stroke="#3b82f6" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+                <ResponsiveContainer width="100%" height={200}>
+                  <LineChart data={data.earnedValue.trend} margin={{ top: 0, right: 4, left: -24, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                    <XAxis dataKey="week" tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v: string) => v.slice(5)} />
+                    <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} domain={[0, "auto"]} />
+                    <Tooltip contentStyle={{ fontSize: 11, borderRadius: 8, border: "1px solid #e2e8f0" }} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine y={1} stroke="#cbd5e1" strokeDasharray="4 4" />
+                    <Line type="monotone" dataKey="cpi" name={t("cpi")} stroke="#f97316" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                    <Line type="monotone" dataKey="spi" name={t("spi")} stroke="#a855f7" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">{t("evmTrendPending")}</p>
+            )}
+            {data.earnedValue.projects.length > 1 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-gray-100">
+                      <th className="text-left font-medium py-1">{t("project")}</th>
+                      <th className="text-right font-medium py-1">{t("cpi")}</th>
+                      <th className="text-right font-medium py-1">{t("spi")}</th>
+                      <th className="text-right font-medium py-1">{t("eac")}</th>
+                      <th className="text-right font-medium py-1">{t("vac")}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {data.earnedValue.projects.map((p) => (
+                      <tr key={p.name}>
+                        <td className="py-1 text-gray-700">{p.name}</td>
+                        <td className={`py-1 text-right font-medium ${indexColor(p.cpi)}`}>{p.cpi?.toFixed(2) ?? "—"}</td>
+                        <td className={`py-1 text-right font-medium ${indexColor(p.spi)}`}>{p.spi?.toFixed(2) ?? "—"}</td>
+                        <td className="py-1 text-right text-gray-700">{fmt(p.estimateAtCompletion)}</td>
+                        <td className={`py-1 text-right ${p.varianceAtCompletion < 0 ? "text-red-600" : "text-gray-700"}`}>
+                          {p.varianceAtCompletion < 0 ? "−" : ""}{fmt(Math.abs(p.varianceAtCompletion))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
+      {/* Cash Flow */}
+      {data.cashFlow?.months.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <SectionHeader icon={<Banknote className="w-4 h-4 text-[var(--color-primary)]" />} title={t("cashFlow")} />
+            <a
+              href="/api/export/cash-flow"
+              className="inline-flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 px-2.5 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {t("exportXlsx")}
+            </a>
+          </div>
+          <p className="text-[11px] text-gray-400">
+            {t("cashFlowTotals", {
+              cashIn: fmt(data.cashFlow.totals.cashIn),
+              cashOut: fmt(data.cashFlow.totals.cashOut),
+              lowest: fmt(data.cashFlow.totals.lowestBalance),
+            })}
+          </p>
+          <ResponsiveContainer width="100%" height={220}>
+            <ComposedChart data={data.cashFlow.months} margin={{ top: 0, right: 4, left: -16, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis dataKey="month" tick={{ fontSize: 10, fill: "#94a3b8" }} />
+              <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v: number) => fmt(v)} />
+              <Tooltip contentStyle={{ fontSize: 11, borderRadius: 8, border: "1px solid #e2e8f0" }} formatter={(v: number) => [fmt(v)]} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Area type="monotone" dataKey="cumulativeIn" name={t("cumulativeIn")} stroke="#22c55e" fill="#22c55e" fillOpacity={0.12} strokeWidth={2} />
+              <Area type="monotone" dataKey="cumulativeOut" name={t("cumulativeOut")} stroke="#ef4444" fill="#ef4444" fillOpacity={0.08} strokeWidth={2} />
+              <Bar dataKey="net" name={t("netCash")} fill="#3b82f6" barSize={12} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
       {/* Budget S-Curve + Project Budget Comparison */}
       {(data.budgetCurve?.length > 0 || data.projectBudgets?.length > 0) && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -10,13 +10,33 @@
  *
  * Status workflow:
  *   - Any team member with `canCreate` may submit a new CO (number,
- *     title, optional amount/reason/description).
+ *     title, optional amount/reason/description). The cost can instead be
+ *     itemized into line items (category, library cost code, qty × unit cost) with
+ *     overhead and profit percentages; the amount is then the live marked-up
+ *     total (lib/change-order-pricing.ts). A schedule impact in days extends
+ *     the phase finish when the CO is approved.
  *   - PMs and admins (`canApprove`) see Approve ✓ and Reject ✗ buttons
- *     on PENDING items.
+ *     on PENDING items that have no approval chain.
+ *   - COs routed through an approval chain show the chain as stage chips
+ *     (parallel steps side by side). Expanding it lists each step's
+ *     approver, delegate and decision, with Approve / Reject (optional
+ *     comment) and Delegate controls on steps the user can act on, followed
+ *     by the approval history.
  *   - Only `canApprove` users can delete change orders.
  *
+ * PCO → COR → CO lifecycle: the form can raise a potential change order
+ * (PCO) instead, from one of the phase's RFIs (`rfis`) or a field issue.
+ * `canApprove` users tick open PCOs to bundle them into a change order
+ * request (COR) to the owner, and tick owner-approved CORs to roll them into
+ * an executed CO. Rows show their type, source RFI, the bundle they belong
+ * to and what they include. The header total counts executed COs only, with
+ * the rest shown as pending exposure. PCOs can be rejected (voided) but are
+ * approved through their COR.
+ *
  * Server actions: `createChangeOrder`, `updateChangeOrderStatus`,
- *   `deleteChangeOrder`.
+ *   `decideChangeOrderApproval`, `delegateChangeOrderApproval`,
+ *   `getApprovalDelegates`, `bundleChangeOrderRequest`,
+ *   `executeOwnerChangeOrder`, `deleteChangeOrder`.
  * i18n: none (hardcoded English labels — see STATUS_CONFIG).
  */
 
@@ -34,20 +54,40 @@ import {
   Clock,
   CheckCircle2,
   XCircle,
+  ArrowRight,
+  UserPlus,
 } from "lucide-react";
 import {
   createChangeOrder,
   updateChangeOrderStatus,
+  decideChangeOrderApproval,
+  delegateChangeOrderApproval,
+  getApprovalDelegates,
+  bundleChangeOrderRequest,
+  executeOwnerChangeOrder,
   deleteChangeOrder,
 } from "@/actions/change-orders";
+import type { ChangeOrderApprovalStep, ChangeOrderApprovalHistoryEntry } from "@/actions/change-orders";
+import type { CostCodeOption } from "@/actions/cost-codes";
 import type { ChangeOrder } from "@/lib/db-types";
+import {
+  COST_CATEGORIES,
+  changeOrderExposure,
+  priceChangeOrder,
+  type CostCategory,
+} from "@/lib/change-order-pricing";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { GeneratePdfButton } from "@/components/phase/GeneratePdfButton";
 
 interface ChangeOrderSectionProps {
   phaseId: string;
   changeOrders: ChangeOrder[];
   canCreate: boolean;
   canApprove: boolean;
+  /** Phase RFIs a PCO can be raised from. */
+  rfis?: { id: string; rfiNumber: number; subject: string }[];
+  /** Active org library cost codes for line items. */
+  costCodes?: CostCodeOption[];
 }
 
 const STATUS_CONFIG: Record<
@@ -59,6 +99,63 @@ const STATUS_CONFIG: Record<
   REJECTED: { icon: XCircle, color: "text-red-500", bg: "bg-red-50", label: "Rejected" },
 };
 
+const STEP_STYLES: Record<ChangeOrderApprovalStep["status"], string> = {
+  WAITING: "bg-gray-100 text-gray-500",
+  PENDING: "bg-amber-50 text-amber-700 ring-1 ring-amber-200",
+  APPROVED: "bg-green-50 text-green-700",
+  REJECTED: "bg-red-50 text-red-600",
+  SKIPPED: "bg-gray-50 text-gray-400 line-through",
+};
+
+const HISTORY_LABELS: Record<ChangeOrderApprovalHistoryEntry["action"], string> = {
+  SUBMITTED: "Submitted for approval",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+  DELEGATED: "Delegated",
+  SKIPPED: "Skipped",
+  COMPLETED: "Fully approved",
+};
+
+/** Group steps by stage, in order — steps sharing a stage run in parallel. */
+function byStage(steps: ChangeOrderApprovalStep[]): ChangeOrderApprovalStep[][] {
+  const stages = new Map<number, ChangeOrderApprovalStep[]>();
+  for (const step of steps) stages.set(step.stage, [...(stages.get(step.stage) ?? []), step]);
+  return [...stages.entries()].sort(([a], [b]) => a - b).map(([, group]) => group);
+}
+
+interface LineForm {
+  category: CostCategory;
+  costCodeId: string;
+  description: string;
+  quantity: string;
+  unit: string;
+  unitCost: string;
+}
+
+const EMPTY_LINE: LineForm = { category: "LABOR", costCodeId: "", description: "", quantity: "1", unit: "", unitCost: "" };
+const TYPE_BADGES: Record<string, { label: string; className: string; title: string }> = {
+  PCO: { label: "PCO", className: "bg-purple-50 text-purple-700", title: "Potential change order" },
+  COR: { label: "COR", className: "bg-blue-50 text-blue-700", title: "Change order request to the owner" },
+};
+
+const rfiLabel = (n: number) => `RFI-${String(n).padStart(3, "0")}`;
+
+const EMPTY_FORM = {
+  type: "CO" as "CO" | "PCO",
+  rfiId: "",
+  number: "",
+  title: "",
+  description: "",
+  amount: "",
+  reason: "",
+  lines: [] as LineForm[],
+  overheadPercent: "",
+  profitPercent: "",
+  scheduleImpactDays: "",
+};
+
+const categoryLabel = (c: CostCategory) => c.charAt(0) + c.slice(1).toLowerCase();
+
 function fmtAmount(n: number | null): string {
   if (n == null) return "—";
   return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
@@ -69,23 +166,61 @@ export function ChangeOrderSection({
   changeOrders,
   canCreate,
   canApprove,
+  rfis = [],
+  costCodes = [],
 }: ChangeOrderSectionProps) {
   const confirm = useConfirmDialog();
   const [showForm, setShowForm] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [actionId, setActionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [form, setForm] = useState({
-    number: "",
-    title: "",
-    description: "",
-    amount: "",
-    reason: "",
-  });
-
-  const totalApproved = changeOrders
-    .filter((co) => co.status === "APPROVED" && co.amount)
-    .reduce((sum, co) => sum + Number(co.amount), 0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [delegates, setDelegates] = useState<{ id: string; name: string | null; email: string }[] | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bundle, setBundle] = useState({ number: "", title: "" });
+
+  const lineInputs = form.lines.map((l) => ({
+    category: l.category,
+    costCodeId: l.costCodeId || null,
+    description: l.description.trim(),
+    quantity: Number(l.quantity) || 0,
+    unit: l.unit.trim() || null,
+    unitCost: Number(l.unitCost) || 0,
+  }));
+  const price = priceChangeOrder(
+    lineInputs,
+    form.overheadPercent ? Number(form.overheadPercent) : null,
+    form.profitPercent ? Number(form.profitPercent) : null
+  );
+  const updateLine = (index: number, patch: Partial<LineForm>) =>
+    setForm((f) => ({ ...f, lines: f.lines.map((l, i) => (i === index ? { ...l, ...patch } : l)) }));
+
+  const { approved: totalApproved, pending: pendingExposure } = changeOrderExposure(
+    changeOrders.map((co) => ({
+      type: co.type ?? "CO",
+      status: co.status,
+      parentId: co.parentId ?? null,
+      amount: co.amount == null ? null : Number(co.amount),
+    }))
+  );
+
+  // Open PCOs can be bundled into a COR; owner-approved CORs into a CO
+  const selectableType = (co: ChangeOrder) =>
+    co.parentId ? null
+      : co.type === "PCO" && co.status === "PENDING" ? "PCO"
+      : co.type === "COR" && co.status === "APPROVED" ? "COR"
+      : null;
+  const selectedType = selected.length > 0
+    ? selectableType(changeOrders.find((co) => co.id === selected[0])!)
+    : null;
+  const toggleSelected = (co: ChangeOrder) =>
+    setSelected((ids) =>
+      ids.includes(co.id) ? ids.filter((id) => id !== co.id)
+        : selectedType && selectableType(co) !== selectedType ? [co.id]
+        : [...ids, co.id]
+    );
 
   const pendingCount = changeOrders.filter((co) => co.status === "PENDING").length;
 
@@ -102,8 +237,14 @@ export function ChangeOrderSection({
         description: form.description.trim() || undefined,
         amount: form.amount ? Number(form.amount) : undefined,
         reason: form.reason.trim() || undefined,
+        lineItems: lineInputs.length > 0 ? lineInputs : undefined,
+        overheadPercent: form.overheadPercent ? Number(form.overheadPercent) : null,
+        profitPercent: form.profitPercent ? Number(form.profitPercent) : null,
+        scheduleImpactDays: form.scheduleImpactDays ? Number(form.scheduleImpactDays) : 0,
+        type: form.type,
+        rfiId: form.type === "PCO" && form.rfiId ? form.rfiId : undefined,
       });
-      setForm({ number: "", title: "", description: "", amount: "", reason: "" });
+      setForm(EMPTY_FORM);
       setShowForm(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create change order");
@@ -124,6 +265,57 @@ export function ChangeOrderSection({
     }
   };
 
+  const toggleChain = (coId: string, steps: ChangeOrderApprovalStep[]) => {
+    setExpandedId((id) => (id === coId ? null : coId));
+    if (delegates === null && steps.some((s) => s.canAct)) {
+      getApprovalDelegates().then(setDelegates).catch(() => setDelegates([]));
+    }
+  };
+
+  const handleDecide = async (step: ChangeOrderApprovalStep, decision: "APPROVED" | "REJECTED") => {
+    setActionId(step.id);
+    setError(null);
+    try {
+      await decideChangeOrderApproval(step.id, decision, comments[step.id]?.trim() || undefined);
+      setComments((c) => ({ ...c, [step.id]: "" }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record decision");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleDelegate = async (step: ChangeOrderApprovalStep, delegateId: string) => {
+    if (!delegateId) return;
+    setActionId(step.id);
+    setError(null);
+    try {
+      await delegateChangeOrderApproval(step.id, delegateId, comments[step.id]?.trim() || undefined);
+      setComments((c) => ({ ...c, [step.id]: "" }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delegate");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleBundle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const data = { phaseId, number: bundle.number.trim(), title: bundle.title.trim() };
+      if (selectedType === "PCO") await bundleChangeOrderRequest({ ...data, pcoIds: selected });
+      else await executeOwnerChangeOrder({ ...data, corIds: selected });
+      setSelected([]);
+      setBundle({ number: "", title: "" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to bundle change orders");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!await confirm("Delete this change order?", { danger: true })) return;
     setActionId(id);
@@ -137,7 +329,7 @@ export function ChangeOrderSection({
   };
 
   return (
-    <div className="bg-white rounded-xl border border-gray-200 p-5">
+    <div id="change-orders" className="bg-white rounded-xl border border-gray-200 p-5">
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-2">
@@ -157,6 +349,11 @@ export function ChangeOrderSection({
               {fmtAmount(totalApproved)} approved
             </span>
           )}
+          {pendingExposure > 0 && (
+            <span className="text-xs text-gray-500" title="PCOs, CORs and change orders not yet executed">
+              {fmtAmount(pendingExposure)} exposure
+            </span>
+          )}
           {canCreate && (
             <button
               onClick={() => setShowForm((v) => !v)}
@@ -183,12 +380,40 @@ export function ChangeOrderSection({
         <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3">
           <div className="grid grid-cols-2 gap-3">
             <div>
-              <label className="block text-xs font-medium text-gray-700 mb-1">CO Number *</label>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm((f) => ({ ...f, type: e.target.value as "CO" | "PCO" }))}
+                className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 bg-white focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
+              >
+                <option value="CO">Change order</option>
+                <option value="PCO">Potential change order (PCO)</option>
+              </select>
+            </div>
+            {form.type === "PCO" && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Raised from</label>
+                <select
+                  value={form.rfiId}
+                  onChange={(e) => setForm((f) => ({ ...f, rfiId: e.target.value }))}
+                  className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 bg-white focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
+                >
+                  <option value="">Field issue</option>
+                  {rfis.map((r) => (
+                    <option key={r.id} value={r.id}>{rfiLabel(r.rfiNumber)}: {r.subject}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{form.type === "PCO" ? "PCO" : "CO"} Number *</label>
               <input
                 required
                 value={form.number}
                 onChange={(e) => setForm((f) => ({ ...f, number: e.target.value }))}
-                placeholder="CO-001"
+                placeholder={form.type === "PCO" ? "PCO-001" : "CO-001"}
                 className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
               />
             </div>
@@ -196,8 +421,10 @@ export function ChangeOrderSection({
               <label className="block text-xs font-medium text-gray-700 mb-1">Amount ($)</label>
               <input
                 type="number"
-                value={form.amount}
+                value={form.lines.length > 0 ? String(price.total) : form.amount}
                 onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))}
+                disabled={form.lines.length > 0}
+                title={form.lines.length > 0 ? "Calculated from line items" : undefined}
                 placeholder="0"
                 min="0"
                 step="0.01"
@@ -224,6 +451,124 @@ export function ChangeOrderSection({
               className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
             />
           </div>
+          <div className="space-y-1.5">
+            <label className="block text-xs font-medium text-gray-700">Line items</label>
+            {form.lines.map((line, i) => (
+              <div key={i} className="grid grid-cols-12 gap-1.5 items-center">
+                <select
+                  value={line.category}
+                  onChange={(e) => updateLine(i, { category: e.target.value as CostCategory })}
+                  className="col-span-2 text-xs border border-gray-200 rounded-md px-1.5 py-1.5 bg-white"
+                >
+                  {COST_CATEGORIES.map((c) => (
+                    <option key={c} value={c}>{categoryLabel(c)}</option>
+                  ))}
+                </select>
+                <select
+                  value={line.costCodeId}
+                  onChange={(e) => updateLine(i, { costCodeId: e.target.value })}
+                  title="Cost code"
+                  className="col-span-2 text-xs border border-gray-200 rounded-md px-1.5 py-1.5 bg-white"
+                >
+                  <option value="">Cost code</option>
+                  {costCodes.map((c) => (
+                    <option key={c.id} value={c.id}>{c.code} — {c.name}</option>
+                  ))}
+                </select>
+                <input
+                  required
+                  value={line.description}
+                  onChange={(e) => updateLine(i, { description: e.target.value })}
+                  placeholder="Description"
+                  className="col-span-3 text-xs border border-gray-200 rounded-md px-2 py-1.5"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(i, { quantity: e.target.value })}
+                  placeholder="Qty"
+                  className="col-span-1 text-xs border border-gray-200 rounded-md px-2 py-1.5"
+                />
+                <input
+                  value={line.unit}
+                  onChange={(e) => updateLine(i, { unit: e.target.value })}
+                  placeholder="Unit"
+                  className="col-span-1 text-xs border border-gray-200 rounded-md px-2 py-1.5"
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={line.unitCost}
+                  onChange={(e) => updateLine(i, { unitCost: e.target.value })}
+                  placeholder="Unit $"
+                  required
+                  className="col-span-2 text-xs border border-gray-200 rounded-md px-2 py-1.5"
+                />
+                <button
+                  type="button"
+                  onClick={() => setForm((f) => ({ ...f, lines: f.lines.filter((_, j) => j !== i) }))}
+                  className="col-span-1 p-1 text-gray-300 hover:text-red-500"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm((f) => ({ ...f, lines: [...f.lines, EMPTY_LINE] }))}
+              className="text-xs text-[var(--color-primary)] hover:underline"
+            >
+              + Add line item
+            </button>
+            {form.lines.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Cost {fmtAmount(price.cost)} + overhead {fmtAmount(price.overhead)} + profit {fmtAmount(price.profit)} ={" "}
+                <span className="font-medium text-gray-800">{fmtAmount(price.total)}</span>
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Overhead (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={form.overheadPercent}
+                onChange={(e) => setForm((f) => ({ ...f, overheadPercent: e.target.value }))}
+                placeholder="0"
+                className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Profit (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={form.profitPercent}
+                onChange={(e) => setForm((f) => ({ ...f, profitPercent: e.target.value }))}
+                placeholder="0"
+                className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Schedule impact (days)</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={form.scheduleImpactDays}
+                onChange={(e) => setForm((f) => ({ ...f, scheduleImpactDays: e.target.value }))}
+                placeholder="0"
+                className="w-full text-sm border border-gray-200 rounded-md px-3 py-1.5 focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
+              />
+            </div>
+          </div>
           <div>
             <label className="block text-xs font-medium text-gray-700 mb-1">Description</label>
             <textarea
@@ -254,6 +599,42 @@ export function ChangeOrderSection({
         </form>
       )}
 
+      {/* Bundle selected PCOs into a COR, or approved CORs into a CO */}
+      {canApprove && selectedType && (
+        <form onSubmit={handleBundle} className="mb-4 p-3 bg-blue-50 rounded-lg flex items-end gap-2 flex-wrap text-sm">
+          <p className="w-full text-xs text-blue-800">
+            {selectedType === "PCO"
+              ? `Bundle ${selected.length} PCO${selected.length === 1 ? "" : "s"} into a change order request to the owner`
+              : `Roll ${selected.length} owner-approved COR${selected.length === 1 ? "" : "s"} into an executed change order`}
+          </p>
+          <input
+            required
+            value={bundle.number}
+            onChange={(e) => setBundle((b) => ({ ...b, number: e.target.value }))}
+            placeholder={selectedType === "PCO" ? "COR-001" : "CO-001"}
+            className="w-28 text-sm border border-gray-200 rounded-md px-2 py-1.5 bg-white"
+          />
+          <input
+            required
+            value={bundle.title}
+            onChange={(e) => setBundle((b) => ({ ...b, title: e.target.value }))}
+            placeholder="Title"
+            className="flex-1 min-w-[10rem] text-sm border border-gray-200 rounded-md px-2 py-1.5 bg-white"
+          />
+          <button type="button" onClick={() => setSelected([])} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-blue-100 rounded-md">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded-md disabled:opacity-60 inline-flex items-center gap-1.5"
+          >
+            {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {selectedType === "PCO" ? "Create COR" : "Create CO"}
+          </button>
+        </form>
+      )}
+
       {/* Empty state */}
       {changeOrders.length === 0 && !showForm ? (
         <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
@@ -268,14 +649,32 @@ export function ChangeOrderSection({
           {changeOrders.map((co) => {
             const cfg = STATUS_CONFIG[co.status] ?? STATUS_CONFIG.PENDING;
             const StatusIcon = cfg.icon;
+            const approvals = co.approvals ?? [];
+            const expanded = expandedId === co.id;
+            const typeBadge = co.type ? TYPE_BADGES[co.type] : undefined;
+            const selectable = canApprove && selectableType(co) !== null;
             return (
               <div
                 key={co.id}
                 className="border border-gray-100 rounded-lg p-3 hover:border-gray-200 transition-colors"
               >
                 <div className="flex items-start justify-between gap-3">
+                  {selectable && (
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(co.id)}
+                      onChange={() => toggleSelected(co)}
+                      title={co.type === "PCO" ? "Select to bundle into a COR" : "Select to roll into an owner CO"}
+                      className="mt-0.5 rounded border-gray-300 text-[var(--color-primary)]"
+                    />
+                  )}
                   <div className="min-w-0 flex-1">
                     <div className="flex items-center gap-2 flex-wrap">
+                      {typeBadge && (
+                        <span title={typeBadge.title} className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${typeBadge.className}`}>
+                          {typeBadge.label}
+                        </span>
+                      )}
                       <span className="text-xs font-mono text-gray-500">{co.number}</span>
                       <span className="text-sm font-medium text-gray-900 truncate">{co.title}</span>
                       <span className={`inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded-full ${cfg.bg} ${cfg.color}`}>
@@ -286,10 +685,40 @@ export function ChangeOrderSection({
                     {co.reason && (
                       <p className="text-xs text-gray-500 mt-0.5">{co.reason}</p>
                     )}
+                    {(co.rfi || co.parent || (co.children && co.children.length > 0)) && (
+                      <div className="flex items-center gap-3 mt-0.5 text-xs text-gray-400 flex-wrap">
+                        {co.rfi && <span title={co.rfi.subject}>From {rfiLabel(co.rfi.rfiNumber)}</span>}
+                        {co.type === "PCO" && !co.rfi && <span>Field issue</span>}
+                        {co.children && co.children.length > 0 && (
+                          <span>Includes {co.children.map((c) => c.number).join(", ")}</span>
+                        )}
+                        {co.parent && <span className="text-blue-600">In {co.parent.number}</span>}
+                      </div>
+                    )}
+                    {co.lineItems && co.lineItems.length > 0 && (
+                      <ul className="mt-1 text-xs text-gray-500 space-y-0.5">
+                        {co.lineItems.map((l) => (
+                          <li key={l.id} className="flex gap-2">
+                            <span className="text-gray-400 w-20 shrink-0">{categoryLabel(l.category)}</span>
+                            {l.costCode && <span className="font-mono text-gray-400">{l.costCode}</span>}
+                            <span className="truncate">{l.description}</span>
+                            <span className="ml-auto text-gray-600">{fmtAmount(l.quantity * l.unitCost)}</span>
+                          </li>
+                        ))}
+                        {(co.overheadPercent || co.profitPercent) && (
+                          <li className="text-gray-400">
+                            Markup: {co.overheadPercent ?? 0}% overhead, {co.profitPercent ?? 0}% profit
+                          </li>
+                        )}
+                      </ul>
+                    )}
                     <div className="flex items-center gap-3 mt-1 text-xs text-gray-400">
                       {co.amount != null && (
                         <span className="font-medium text-gray-700">{fmtAmount(co.amount)}</span>
                       )}
+                      {!!co.scheduleImpactDays && (
+                        <span className="text-amber-600">+{co.scheduleImpactDays} day{co.scheduleImpactDays === 1 ? "" : "s"}</span>
+                      )}
                       <span>{co.requestedBy?.name || co.requestedBy?.email || "—"}</span>
                       <span>{new Date(co.createdAt).toLocaleDateString()}</span>
                     </div>
@@ -297,30 +726,33 @@ export function ChangeOrderSection({
 
                   <div className="flex items-center gap-1 shrink-0">
                     {/* Approve/Reject (PM/Admin on pending COs) */}
-                    {canApprove && co.status === "PENDING" && (
+                    {canApprove && co.status === "PENDING" && approvals.length === 0 && !co.parentId && (
                       <>
-                        <button
-                          onClick={() => handleStatus(co.id, "APPROVED")}
-                          disabled={actionId === co.id}
-                          title="Approve"
-                          className="p-1.5 text-green-600 hover:bg-green-50 rounded transition-colors"
-                        >
-                          {actionId === co.id ? (
-                            <Loader2 className="w-4 h-4 animate-spin" />
-                          ) : (
-                            <Check className="w-4 h-4" />
-                          )}
-                        </button>
+                        {co.type !== "PCO" && (
+                          <button
+                            onClick={() => handleStatus(co.id, "APPROVED")}
+                            disabled={actionId === co.id}
+                            title={co.type === "COR" ? "Owner approved" : "Approve"}
+                            className="p-1.5 text-green-600 hover:bg-green-50 rounded transition-colors"
+                          >
+                            {actionId === co.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Check className="w-4 h-4" />
+                            )}
+                          </button>
+                        )}
                         <button
                           onClick={() => handleStatus(co.id, "REJECTED")}
                           disabled={actionId === co.id}
-                          title="Reject"
+                          title={co.type === "PCO" ? "Void" : co.type === "COR" ? "Owner rejected" : "Reject"}
                           className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
                         >
                           <X className="w-4 h-4" />
                         </button>
                       </>
                     )}
+                    <GeneratePdfButton kind="changeOrder" id={co.id} />
                     {/* Delete */}
                     {canApprove && (
                       <button
@@ -334,6 +766,112 @@ export function ChangeOrderSection({
                     )}
                   </div>
                 </div>
+
+                {/* Approval chain */}
+                {approvals.length > 0 && (
+                  <div className="mt-2">
+                    <button
+                      onClick={() => toggleChain(co.id, approvals)}
+                      className="flex items-center gap-1.5 flex-wrap text-xs text-left"
+                      title={expanded ? "Hide approval details" : "Show approval details"}
+                    >
+                      {byStage(approvals).map((group, i) => (
+                        <span key={group[0].stage} className="flex items-center gap-1.5">
+                          {i > 0 && <ArrowRight className="w-3 h-3 text-gray-300" />}
+                          {group.map((step) => (
+                            <span key={step.id} className={`px-1.5 py-0.5 rounded-full ${STEP_STYLES[step.status]}`}>
+                              {step.name}
+                            </span>
+                          ))}
+                        </span>
+                      ))}
+                      <ChevronDown className={`w-3.5 h-3.5 text-gray-400 transition-transform ${expanded ? "rotate-180" : ""}`} />
+                    </button>
+
+                    {expanded && (
+                      <div className="mt-2 p-3 bg-gray-50 rounded-lg space-y-2 text-xs">
+                        {approvals.map((step) => (
+                          <div key={step.id} className="space-y-1.5">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="text-gray-400 w-14 shrink-0">Stage {step.stage}</span>
+                              <span className="font-medium text-gray-800">{step.name}</span>
+                              <span className={`px-1.5 py-0.5 rounded-full ${STEP_STYLES[step.status]}`}>
+                                {step.status.charAt(0) + step.status.slice(1).toLowerCase()}
+                              </span>
+                              <span className="text-gray-500">
+                                {step.approverLabel}
+                                {step.delegatedTo && <> → {step.delegatedTo}</>}
+                              </span>
+                              {step.decidedBy && step.decidedAt && (
+                                <span className="text-gray-400">
+                                  {step.decidedBy}, {new Date(step.decidedAt).toLocaleDateString()}
+                                </span>
+                              )}
+                            </div>
+                            {step.comment && <p className="ml-16 text-gray-500 italic">&ldquo;{step.comment}&rdquo;</p>}
+                            {step.canAct && (
+                              <div className="ml-16 flex items-center gap-1.5 flex-wrap">
+                                <input
+                                  value={comments[step.id] ?? ""}
+                                  onChange={(e) => setComments((c) => ({ ...c, [step.id]: e.target.value }))}
+                                  placeholder="Comment (optional)"
+                                  className="flex-1 min-w-[10rem] border border-gray-200 rounded-md px-2 py-1 text-xs focus:ring-1 focus:ring-[var(--color-primary)]"
+                                />
+                                <button
+                                  onClick={() => handleDecide(step, "APPROVED")}
+                                  disabled={actionId === step.id}
+                                  className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-green-700 bg-green-50 hover:bg-green-100 disabled:opacity-50"
+                                >
+                                  {actionId === step.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => handleDecide(step, "REJECTED")}
+                                  disabled={actionId === step.id}
+                                  className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-red-600 bg-red-50 hover:bg-red-100 disabled:opacity-50"
+                                >
+                                  <X className="w-3 h-3" />
+                                  Reject
+                                </button>
+                                <label className="inline-flex items-center gap-1 text-gray-500" title="Delegate this step">
+                                  <UserPlus className="w-3 h-3" />
+                                  <select
+                                    value=""
+                                    onChange={(e) => handleDelegate(step, e.target.value)}
+                                    disabled={actionId === step.id || delegates === null}
+                                    className="border border-gray-200 rounded-md px-1.5 py-1 text-xs bg-white"
+                                  >
+                                    <option value="">Delegate…</option>
+                                    {(delegates ?? []).map((u) => (
+                                      <option key={u.id} value={u.id}>{u.name || u.email}</option>
+                                    ))}
+                                  </select>
+                                </label>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+
+                        {(co.history ?? []).length > 0 && (
+                          <div className="pt-2 border-t border-gray-200">
+                            <p className="font-medium text-gray-600 mb-1">History</p>
+                            <ul className="space-y-0.5 text-gray-500">
+                              {(co.history ?? []).map((h) => (
+                                <li key={h.id}>
+                                  <span className="text-gray-400">{new Date(h.createdAt).toLocaleString()}</span>{" "}
+                                  {HISTORY_LABELS[h.action]}
+                                  {h.stepName && <> · {h.stepName}</>}
+                                  {h.actor && <> · {h.actor}</>}
+                                  {h.note && <span className="italic"> — {h.note}</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
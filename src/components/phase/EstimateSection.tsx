@@ -16,6 +16,8 @@
  *   - Optimistic UI: after create/add/delete, local state is updated immediately
  *     with recalculated `totalCost` before the next server render.
  *   - Toast notifications on every action success/failure (sonner).
+ *   - Takeoff items can be tagged with an org library cost code (`costCodes`),
+ *     which the job cost report uses as the estimate per cost code.
  *
  * Server actions: `createEstimate`, `addTakeoffItem`, `deleteTakeoffItem`,
  *   `updateEstimateStatus`, `deleteEstimate` (estimate).
@@ -36,6 +38,7 @@ import {
   CheckCircle2,
 } from "lucide-react";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import type { CostCodeOption } from "@/actions/cost-codes";
 
 const STATUS_STYLES: Record<string, { color: string; bg: string }> = {
   DRAFT: { color: "text-gray-700", bg: "bg-gray-100" },
@@ -49,9 +52,10 @@ interface EstimateSectionProps {
   estimates: any[];
   canEdit: boolean;
   canManage: boolean;
+  costCodes?: CostCodeOption[];
 }
 
-export function EstimateSection({ phaseId, estimates, canEdit, canManage }: EstimateSectionProps) {
+export function EstimateSection({ phaseId, estimates, canEdit, canManage, costCodes = [] }: EstimateSectionProps) {
   const confirm = useConfirmDialog();
   const t = useTranslations("estimate");
   const [items, setItems] = useState(estimates);
@@ -71,6 +75,7 @@ export function EstimateSection({ phaseId, estimates, canEdit, canManage }: Esti
   const [itemUnit, setItemUnit] = useState("");
   const [itemUnitCost, setItemUnitCost] = useState("");
   const [itemCategory, setItemCategory] = useState("");
+  const [itemCostCodeId, setItemCostCodeId] = useState("");
 
   const grandTotal = items.reduce((sum: number, e: any) => sum + (Number(e.totalCost) || 0), 0);
 
@@ -104,6 +109,7 @@ export function EstimateSection({ phaseId, estimates, canEdit, canManage }: Esti
         unit: itemUnit,
         unitCost: parseFloat(itemUnitCost),
         category: itemCategory || undefined,
+        costCodeId: itemCostCodeId || undefined,
       });
       setItems((prev) =>
         prev.map((est) => {
@@ -118,6 +124,7 @@ export function EstimateSection({ phaseId, estimates, canEdit, canManage }: Esti
       setItemUnit("");
       setItemUnitCost("");
       setItemCategory("");
+      setItemCostCodeId("");
       setShowItemForm(null);
       toast.success(t("itemAdded"));
     } catch {
@@ -256,6 +263,9 @@ export function EstimateSection({ phaseId, estimates, canEdit, canManage }: Esti
                               {est.items.map((item: any) => (
                                 <tr key={item.id} className="border-b border-gray-100 dark:border-gray-800">
                                   <td className="p-2 pl-4">
+                                    {item.costCodeId && (
+                                      <span className="mr-1 font-mono text-gray-400">{costCodes.find((c) => c.id === item.costCodeId)?.code}</span>
+                                    )}
                                     {item.description}
                                     {item.category && <span className="ml-1 text-gray-400">({item.category})</span>}
                                   </td>
@@ -279,12 +289,16 @@ export function EstimateSection({ phaseId, estimates, canEdit, canManage }: Esti
 
                       {showItemForm === est.id ? (
                         <form onSubmit={(e) => handleAddItem(est.id, e)} className="p-3 space-y-2">
-                          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                          <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
                             <input type="text" value={itemDesc} onChange={(e) => setItemDesc(e.target.value)} placeholder={t("itemDescPlaceholder")} className="col-span-2 sm:col-span-1 border rounded px-2 py-1.5 text-xs" required />
                             <input type="number" step="0.001" min="0" value={itemQty} onChange={(e) => setItemQty(e.target.value)} placeholder={t("qtyPlaceholder")} className="border rounded px-2 py-1.5 text-xs" required />
                             <input type="text" value={itemUnit} onChange={(e) => setItemUnit(e.target.value)} placeholder={t("unitPlaceholder")} className="border rounded px-2 py-1.5 text-xs" required />
                             <input type="number" step="0.01" min="0" value={itemUnitCost} onChange={(e) => setItemUnitCost(e.target.value)} placeholder={t("unitCostPlaceholder")} className="border rounded px-2 py-1.5 text-xs" required />
                             <input type="text" value={itemCategory} onChange={(e) => setItemCategory(e.target.value)} placeholder={t("categoryPlaceholder")} className="border rounded px-2 py-1.5 text-xs" />
+                            <select value={itemCostCodeId} onChange={(e) => setItemCostCodeId(e.target.value)} className="border rounded px-2 py-1.5 text-xs">
+                              <option value="">{t("costCodePlaceholder")}</option>
+                              {costCodes.map((c) => <option key={c.id} value={c.id}>{c.code} — {c.name}</option>)}
+                            </select>
                           </div>
                           <div className="flex justify-end gap-2">
                             <button type="button" onClick={() => setShowItemForm(null)} className="px-2 py-1 text-xs border rounded hover:bg-gray-100">{t("cancel")}</button>
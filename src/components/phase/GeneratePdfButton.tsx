@@ -0,0 +1,59 @@
+"use client";
+
+/**
+ * @file components/phase/GeneratePdfButton.tsx
+ * @description Icon button that renders a record as a branded PDF and files it
+ * under the phase's Documents (`generatePdfDocument`).
+ *
+ * Used on change orders, RFIs, submittals, inspections, pay applications and
+ * daily logs. On success the toast links to the new file and the page is
+ * refreshed so the Documents section picks it up.
+ *
+ * i18n namespace: `pdf`.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { FileDown, Loader2 } from "lucide-react";
+import { generatePdfDocument, type PdfDocumentKind } from "@/actions/pdf-documents";
+
+interface GeneratePdfButtonProps {
+  kind: PdfDocumentKind;
+  id: string;
+  className?: string;
+}
+
+export function GeneratePdfButton({ kind, id, className }: GeneratePdfButtonProps) {
+  const t = useTranslations("pdf");
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  async function handleGenerate() {
+    setLoading(true);
+    try {
+      const doc = await generatePdfDocument(kind, id);
+      toast.success(t("generated", { name: doc.name }), {
+        action: { label: t("open"), onClick: () => window.open(doc.url, "_blank", "noopener") },
+      });
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t("failed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <button
+      onClick={handleGenerate}
+      disabled={loading}
+      title={loading ? t("generating") : t("generate")}
+      aria-label={t("generate")}
+      className={className ?? "p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"}
+    >
+      {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileDown className="w-3.5 h-3.5" />}
+    </button>
+  );
+}
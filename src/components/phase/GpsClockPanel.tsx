@@ -4,6 +4,8 @@
  * @file GpsClockPanel.tsx
  * @description GPS-verified time clock-in/out panel — Sprint 28.
  * Allows field workers to clock in/out with GPS verification.
+ * Clock-ins outside the project's geofences are flagged (warning toast, badge
+ * on the active entry) or blocked (error toast) per the project policy.
  */
 
 import { useState, useEffect } from "react";
@@ -97,8 +99,18 @@ export default function GpsClockPanel({ phaseId }: GpsClockPanelProps) {
         accuracy: position.coords.accuracy,
       });
 
-      if (result.success) {
-        toast.success(t("clockedIn"));
+      if (result.geofence?.outcome === "BLOCKED") {
+        toast.error(t("outsideFenceBlocked", { distance: result.geofence.distance }));
+      } else if (result.success) {
+        if (result.geofence?.outcome === "FLAGGED") {
+          toast.warning(
+            result.geofence.check === "UNCERTAIN"
+              ? t("fenceUncertain", { accuracy: Math.round(position.coords.accuracy) })
+              : t("outsideFenceFlagged", { distance: result.geofence.distance })
+          );
+        } else {
+          toast.success(t("clockedIn"));
+        }
         // Refresh active entry
         const check = await getActiveClockEntry(phaseId);
         if (check.success && check.entry) {
@@ -184,6 +196,12 @@ export default function GpsClockPanel({ phaseId }: GpsClockPanelProps) {
               time: new Date(activeEntry.clockInAt).toLocaleTimeString(),
             })}
           </div>
+          {activeEntry.geofenceCheck && activeEntry.geofenceCheck !== "INSIDE" && (
+            <div className="flex items-center gap-1.5 text-xs text-amber-600">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {t("offSiteEntry")}
+            </div>
+          )}
           <button
             onClick={handleClockOut}
             disabled={loading}
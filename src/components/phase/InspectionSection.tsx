@@ -45,6 +45,7 @@ import {
 } from "@/actions/inspections";
 import type { Inspection } from "@/lib/db-types";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { GeneratePdfButton } from "@/components/phase/GeneratePdfButton";
 
 interface InspectionSectionProps {
   phaseId: string;
@@ -235,6 +236,7 @@ export function InspectionSection({ phaseId, inspections, canCreate, canRecord }
                         <Check className="w-3.5 h-3.5" />
                       </button>
                     )}
+                    <GeneratePdfButton kind="inspection" id={insp.id} />
                     <button onClick={() => handleDelete(insp.id)} disabled={actionId === insp.id}
                       className="p-1 text-gray-300 hover:text-red-500">
                       {actionId === insp.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
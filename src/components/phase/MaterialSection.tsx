@@ -15,11 +15,19 @@
  *     allowing quick inline status edits without a modal.
  *   - Supported units: ea, lf, sf, sy, cy, ton, lb, gal, bag, pcs, set.
  *   - `fmt` helper formats USD amounts with `Intl.NumberFormat`.
+ *   - Optional cost code from the org library (`costCodes`); ordered
+ *     materials count as committed cost and delivered/installed ones as
+ *     actual cost in job costing.
+ *   - Purchase orders: `canManage` users tick materials not yet on a PO and
+ *     create a draft PO for them (vendor defaults to their shared supplier).
+ *     Materials on a PO show its number; once the PO is approved their cost
+ *     is carried by it (see the project's commitments section).
  *
  * Permissions:
  *   - `canManage` — controls all add / status-change / delete actions.
  *
- * Server actions: `createMaterial`, `updateMaterialStatus`, `deleteMaterial`.
+ * Server actions: `createMaterial`, `updateMaterialStatus`, `deleteMaterial`,
+ * `createPurchaseOrder`.
  */
 
 import { useState } from "react";
@@ -35,15 +43,19 @@ import {
   Hammer,
   ShoppingCart,
   RotateCcw,
+  FileText,
 } from "lucide-react";
 import { createMaterial, updateMaterialStatus, deleteMaterial } from "@/actions/materials";
+import { createPurchaseOrder } from "@/actions/commitments";
 import type { Material, MaterialStatus } from "@/lib/db-types";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import type { CostCodeOption } from "@/actions/cost-codes";
 
 interface MaterialSectionProps {
   phaseId: string;
   materials: Material[];
   canManage: boolean;
+  costCodes?: CostCodeOption[];
 }
 
 const STATUS_CONFIG: Record<MaterialStatus, { label: string; color: string; bg: string; icon: React.ElementType }> = {
@@ -59,7 +71,7 @@ function fmt(n: number) {
   return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
 }
 
-export function MaterialSection({ phaseId, materials, canManage }: MaterialSectionProps) {
+export function MaterialSection({ phaseId, materials, canManage, costCodes = [] }: MaterialSectionProps) {
   const confirm = useConfirmDialog();
   const [showForm, setShowForm] = useState(false);
   const [submitting, setSubmitting] = useState(false);
@@ -72,7 +84,17 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
     cost: "",
     supplier: "",
     notes: "",
+    costCodeId: "",
   });
+  const [selected, setSelected] = useState<string[]>([]);
+  const [poVendor, setPoVendor] = useState("");
+  const [poMessage, setPoMessage] = useState<string | null>(null);
+
+  const onOpenPO = (m: Material) => !!m.purchaseOrder && m.purchaseOrder.status !== "VOID";
+  const toggleSelected = (id: string) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  const selectedMaterials = materials.filter((m) => selected.includes(m.id));
+  const selectedSuppliers = [...new Set(selectedMaterials.map((m) => m.supplier?.trim()).filter(Boolean))];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -88,8 +110,9 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
         cost: form.cost ? parseFloat(form.cost) : undefined,
         supplier: form.supplier || undefined,
         notes: form.notes || undefined,
+        costCodeId: form.costCodeId || undefined,
       });
-      setForm({ name: "", quantity: "", unit: "ea", cost: "", supplier: "", notes: "" });
+      setForm({ name: "", quantity: "", unit: "ea", cost: "", supplier: "", notes: "", costCodeId: "" });
       setShowForm(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to add material");
@@ -109,6 +132,21 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
     }
   };
 
+  const handleCreatePO = async () => {
+    setActionId("po");
+    setError(null);
+    try {
+      const { number } = await createPurchaseOrder({ phaseId, materialIds: selected, vendorName: poVendor.trim() || undefined });
+      setSelected([]);
+      setPoVendor("");
+      setPoMessage(`Draft ${number} created — approve it from the project's commitments.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create purchase order");
+    } finally {
+      setActionId(null);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!await confirm("Delete this material?", { danger: true })) return;
     setActionId(id);
@@ -176,6 +214,40 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
         </div>
       )}
 
+      {poMessage && (
+        <div className="mb-3 flex items-center gap-2 p-2.5 bg-green-50 text-green-700 text-sm rounded-lg">
+          <FileText className="w-4 h-4 shrink-0" />
+          <span className="flex-1">{poMessage}</span>
+          <button onClick={() => setPoMessage(null)}><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      {/* Purchase order from the ticked materials */}
+      {selected.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 p-2.5 bg-blue-50 rounded-lg text-sm">
+          <span className="text-blue-800">
+            {selected.length} selected · {fmt(selectedMaterials.reduce((s, m) => s + (m.cost ?? 0) * m.quantity, 0))}
+          </span>
+          <input
+            value={poVendor}
+            onChange={(e) => setPoVendor(e.target.value)}
+            placeholder={selectedSuppliers.length === 1 ? selectedSuppliers[0] : "Vendor"}
+            className="flex-1 min-w-[8rem] border border-gray-200 rounded-md px-2 py-1 text-sm focus:ring-1 focus:ring-[var(--color-primary)]"
+          />
+          <button
+            onClick={handleCreatePO}
+            disabled={actionId === "po"}
+            className="inline-flex items-center gap-1.5 px-3 py-1 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded-md disabled:opacity-60"
+          >
+            {actionId === "po" ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileText className="w-3.5 h-3.5" />}
+            Create PO
+          </button>
+          <button onClick={() => setSelected([])} className="text-xs text-gray-500 hover:text-gray-700">
+            Clear
+          </button>
+        </div>
+      )}
+
       {showForm && (
         <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
           <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
@@ -235,6 +307,19 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
                 className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
               />
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Cost Code</label>
+              <select
+                value={form.costCodeId}
+                onChange={(e) => setForm((f) => ({ ...f, costCodeId: e.target.value }))}
+                className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)] focus:border-[var(--color-primary)]"
+              >
+                <option value="">None</option>
+                {costCodes.map((c) => (
+                  <option key={c.id} value={c.id}>{c.code} — {c.name}</option>
+                ))}
+              </select>
+            </div>
           </div>
           <div className="flex gap-2 justify-end">
             <button
@@ -268,6 +353,16 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
             const StatusIcon = cfg.icon;
             return (
               <div key={mat.id} className="flex items-center gap-3 p-2.5 border border-gray-100 rounded-lg group hover:bg-gray-50">
+                {canManage && (
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(mat.id)}
+                    onChange={() => toggleSelected(mat.id)}
+                    disabled={onOpenPO(mat)}
+                    title={onOpenPO(mat) ? `On ${mat.purchaseOrder!.number}` : "Select for a purchase order"}
+                    className="shrink-0 rounded border-gray-300 disabled:opacity-30"
+                  />
+                )}
                 <StatusIcon className={`w-4 h-4 ${cfg.color} shrink-0`} />
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
@@ -281,8 +376,19 @@ export function MaterialSection({ phaseId, materials, canManage }: MaterialSecti
                       </span>
                     )}
                   </div>
-                  {mat.supplier && (
-                    <p className="text-xs text-gray-400 mt-0.5">{mat.supplier}</p>
+                  {(mat.supplier || mat.costCodeId || onOpenPO(mat)) && (
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {onOpenPO(mat) && (
+                        <span className="mr-2 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 font-medium">
+                          {mat.purchaseOrder!.number}
+                          {mat.purchaseOrder!.status === "DRAFT" && " · draft"}
+                        </span>
+                      )}
+                      {mat.costCodeId && (
+                        <span className="font-mono mr-2">{costCodes.find((c) => c.id === mat.costCodeId)?.code}</span>
+                      )}
+                      {mat.supplier}
+                    </p>
                   )}
                 </div>
                 <div className="flex items-center gap-1 shrink-0">
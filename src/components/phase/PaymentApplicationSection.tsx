@@ -7,6 +7,8 @@
  * Each application covers a billing period and tracks:
  *   scheduledValue, workCompleted, materialsStored, retainage,
  *   previousPayments → `currentDue` (computed by the server action).
+ * An optional vendor names the subcontractor billing, so approved retainage is
+ * held against that vendor in the project's retainage ledger.
  *
  * Status workflow:
  *   DRAFT → SUBMITTED (by `canEdit`) → APPROVED / REJECTED (by `canManage`)
@@ -43,6 +45,7 @@ import {
   DollarSign,
 } from "lucide-react";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { GeneratePdfButton } from "@/components/phase/GeneratePdfButton";
 
 const STATUS_STYLES: Record<string, { color: string; bg: string }> = {
   DRAFT: { color: "text-gray-700", bg: "bg-gray-100" },
@@ -76,6 +79,7 @@ export function PaymentApplicationSection({ phaseId, applications, canEdit, canM
   const [materialsStored, setMaterialsStored] = useState("");
   const [retainage, setRetainage] = useState("");
   const [previousPayments, setPreviousPayments] = useState("");
+  const [vendorName, setVendorName] = useState("");
   const [notes, setNotes] = useState("");
 
   const filtered = filter === "ALL" ? items : items.filter((i) => i.status === filter);
@@ -97,6 +101,7 @@ export function PaymentApplicationSection({ phaseId, applications, canEdit, canM
         materialsStored: materialsStored ? parseFloat(materialsStored) : 0,
         retainage: retainage ? parseFloat(retainage) : 0,
         previousPayments: previousPayments ? parseFloat(previousPayments) : 0,
+        vendorName: vendorName || undefined,
         notes: notes || undefined,
       });
       setItems((prev) => [{ ...item, createdBy: { name: "You" } }, ...prev]);
@@ -107,6 +112,7 @@ export function PaymentApplicationSection({ phaseId, applications, canEdit, canM
       setMaterialsStored("");
       setRetainage("");
       setPreviousPayments("");
+      setVendorName("");
       setNotes("");
       setShowForm(false);
       toast.success(t("created"));
@@ -194,6 +200,7 @@ export function PaymentApplicationSection({ phaseId, applications, canEdit, canM
               <input type="number" step="0.01" min="0" value={previousPayments} onChange={(e) => setPreviousPayments(e.target.value)} className="w-full border rounded-lg px-3 py-2 text-sm" />
             </div>
           </div>
+          <input type="text" value={vendorName} onChange={(e) => setVendorName(e.target.value)} placeholder={t("vendorPlaceholder")} className="w-full border rounded-lg px-3 py-2 text-sm" />
           <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder={t("notesPlaceholder")} className="w-full border rounded-lg px-3 py-2 text-sm" />
           <div className="flex justify-end gap-2">
             <button type="button" onClick={() => setShowForm(false)} className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-100">{t("cancel")}</button>
@@ -224,6 +231,7 @@ export function PaymentApplicationSection({ phaseId, applications, canEdit, canM
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 flex-wrap">
                         <span className="text-sm font-medium">#{app.number}</span>
+                        {app.vendorName && <span className="text-xs text-gray-500">{app.vendorName}</span>}
                         <span className={`text-xs px-2 py-0.5 rounded-full ${style.bg} ${style.color}`}>{t(`status${app.status.charAt(0) + app.status.slice(1).toLowerCase()}`)}</span>
                       </div>
                       <div className="text-xs text-gray-500 mt-0.5 flex gap-3 flex-wrap">
@@ -252,6 +260,7 @@ export function PaymentApplicationSection({ phaseId, applications, canEdit, canM
                       {app.status === "APPROVED" && canManage && (
                         <button onClick={() => handleStatusChange(app.id, "PAID")} className="px-2 py-1 text-xs text-emerald-600 hover:bg-emerald-50 rounded">{t("markPaid")}</button>
                       )}
+                      <GeneratePdfButton kind="paymentApplication" id={app.id} />
                       {canEdit && (
                         <button onClick={() => handleDelete(app.id)} className="p-1 text-gray-400 hover:bg-gray-100 rounded">
                           <Trash2 className="w-3.5 h-3.5" />
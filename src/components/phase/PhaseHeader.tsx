@@ -20,15 +20,21 @@
  * The `canManage` guard prevents non-PM users from approving or sending back
  * phases; they can still start and submit for review.
  *
- * Server actions: `updatePhaseStatus` (phases).
+ * Cascade: for managers, starting or completing a phase late first previews the
+ * dependent phases that would move (`previewScheduleCascade`). If any would,
+ * `CascadePreviewDialog` lets them apply the cascade or change only this phase.
+ *
+ * Server actions: `updatePhaseStatus`, `previewScheduleCascade` (phases).
  * i18n namespaces: `phases`, `status`.
  */
 
 import Link from "next/link";
 import { cn, statusColor } from "@/lib/utils";
-import { updatePhaseStatus } from "@/actions/phases";
+import { updatePhaseStatus, previewScheduleCascade } from "@/actions/phases";
 import { useState } from "react";
 import { useTranslations } from "next-intl";
+import { CascadePreviewDialog } from "@/components/timeline/CascadePreviewDialog";
+import type { CascadeShift } from "@/lib/schedule-cascade";
 
 interface StatusTransition {
   labelKey: string;
@@ -78,18 +84,45 @@ export function PhaseHeader({
   const t = useTranslations("phases");
   const ts = useTranslations("status");
   const [loading, setLoading] = useState<string | null>(null);
+  const [pending, setPending] = useState<{ status: string; shifts: CascadeShift[] } | null>(null);
 
   const transitions = STATUS_TRANSITION_KEYS[phase.status] || [];
   const reviewActions = ["UNDER_REVIEW", "COMPLETE"];
+  // Transitions that can move the phase's finish date
+  const scheduleActions = ["IN_PROGRESS", "COMPLETE"];
 
   async function handleTransition(nextStatus: string) {
     setLoading(nextStatus);
     try {
+      if (canManage && scheduleActions.includes(nextStatus)) {
+        const shifts = await previewScheduleCascade({
+          phaseId: phase.id,
+          status: nextStatus as "IN_PROGRESS" | "COMPLETE",
+        });
+        if (shifts.length > 0) {
+          setPending({ status: nextStatus, shifts });
+          return;
+        }
+      }
       await updatePhaseStatus(phase.id, nextStatus);
     } catch {
       // Error handling
+    } finally {
+      setLoading(null);
+    }
+  }
+
+  async function commitPending(cascade: boolean) {
+    if (!pending) return;
+    setLoading(pending.status);
+    try {
+      await updatePhaseStatus(phase.id, pending.status, { cascade });
+      setPending(null);
+    } catch {
+      // Error handling
+    } finally {
+      setLoading(null);
     }
-    setLoading(null);
   }
 
   return (
@@ -159,6 +192,16 @@ export function PhaseHeader({
           )}
         </div>
       </div>
+
+      {pending && (
+        <CascadePreviewDialog
+          shifts={pending.shifts}
+          busy={loading !== null}
+          onApply={() => commitPending(true)}
+          onSkip={() => commitPending(false)}
+          onCancel={() => setPending(null)}
+        />
+      )}
     </div>
   );
 }
@@ -5,11 +5,8 @@
  * @description Full-screen Leaflet map modal that plots geo-tagged photos on
  *   an OpenStreetMap tile layer.
  *
- * Leaflet is loaded lazily at runtime to avoid SSR issues:
- *   - CSS injected via a `<link>` element (id="leaflet-css") if not already present.
- *   - JS injected via a `<script>` element (id="leaflet-js") if not already present;
- *     `loaded` state is set `true` in the script's `onload` handler.
- *   - `_leaflet_id` on the map container prevents double-initialisation.
+ * Leaflet is loaded lazily at runtime by `useLeaflet` (hooks/useLeaflet.ts);
+ * `_leaflet_id` on the map container prevents double-initialisation.
  *
  * Map behaviour:
  *   - Center = average of all photo coordinates:
@@ -26,6 +23,7 @@
 
 import { useEffect, useRef, useState } from "react";
 import { MapPin, X } from "lucide-react";
+import { useLeaflet } from "@/hooks/useLeaflet";
 
 interface GeoPhoto {
   id: string;
@@ -40,45 +38,11 @@ interface PhotoMapViewProps {
   onClose: () => void;
 }
 
-declare global {
-  interface Window {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    L: any;
-  }
-}
-
 export function PhotoMapView({ photos, onClose }: PhotoMapViewProps) {
   const mapRef = useRef<HTMLDivElement>(null);
-  const [loaded, setLoaded] = useState(false);
+  const loaded = useLeaflet();
   const [activePhoto, setActivePhoto] = useState<GeoPhoto | null>(null);
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-
-    // Load Leaflet CSS
-    const cssId = "leaflet-css";
-    if (!document.getElementById(cssId)) {
-      const link = document.createElement("link");
-      link.id = cssId;
-      link.rel = "stylesheet";
-      link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css";
-      document.head.appendChild(link);
-    }
-
-    // Load Leaflet JS
-    const scriptId = "leaflet-js";
-    const existing = document.getElementById(scriptId);
-    if (existing) {
-      setLoaded(true);
-      return;
-    }
-    const script = document.createElement("script");
-    script.id = scriptId;
-    script.src = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js";
-    script.onload = () => setLoaded(true);
-    document.head.appendChild(script);
-  }, []);
-
   useEffect(() => {
     if (!loaded || !mapRef.current || photos.length === 0) return;
     const L = window.L;
@@ -14,6 +14,9 @@
  *      with Vercel Blob upload (`put` from `@vercel/blob/client`).
  *   2. On success, `createPhoto` / `createPhotoBatch` server action persists
  *      the record(s) with URL, size, MIME type, and optional GPS coordinates.
+ *   Offline (or when the upload drops), the files are queued in IndexedDB via
+ *   `queuePhotos` and uploaded as a `createPhotoBatch` on reconnect.
+ *   In the native app the camera button uses `takePhoto` (lib/capacitor.ts).
  *
  * Features:
  *   - Lightbox modal (`viewPhoto` state) for full-size image review.
@@ -55,6 +58,10 @@ import { createPhoto, createPhotoBatch, deletePhoto, flagPhoto, clearPhotoFlag }
 import { useTranslations } from "next-intl";
 import { PhotoMapView } from "./PhotoMapView";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { toast } from "sonner";
+import { isNative, takePhoto, photoToFile } from "@/lib/capacitor";
+import { isNetworkError } from "@/lib/offline-action";
+import { queuePhotos } from "@/lib/offline-uploads";
 
 interface Photo {
   id: string;
@@ -196,13 +203,25 @@ export function PhotoSection({
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
+  const handleCamera = async () => {
+    if (!isNative) return cameraInputRef.current?.click();
+    const photo = await takePhoto();
+    if (photo) await uploadPhotos([await photoToFile(photo)]);
+  };
+
   const uploadPhotos = async (files: File[]) => {
     setIsUploading(true);
     setError(null);
 
+    // Attempt GPS capture in parallel with first blob upload
+    const gpsPromise = captureGps();
+    const saveOffline = async () => {
+      await queuePhotos(phaseId, files, await gpsPromise);
+      toast.info(t("queuedOffline", { count: files.length }));
+    };
+
     try {
-      // Attempt GPS capture in parallel with first blob upload
-      const gpsPromise = captureGps();
+      if (!navigator.onLine) return await saveOffline();
 
       const uploadedUrls: { url: string }[] = [];
       for (let i = 0; i < files.length; i++) {
@@ -239,6 +258,10 @@ export function PhotoSection({
         });
       }
     } catch (err) {
+      if (isNetworkError(err) || !navigator.onLine) {
+        await saveOffline().catch(() => setError(t("uploadFailed")));
+        return;
+      }
       console.error("Photo upload error:", err);
       setError(
         err instanceof Error ? err.message : t("uploadFailed")
@@ -327,7 +350,7 @@ export function PhotoSection({
               ) : (
                 <>
                   <button
-                    onClick={() => cameraInputRef.current?.click()}
+                    onClick={handleCamera}
                     className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--color-primary)] hover:text-[var(--color-primary-dark)] sm:hidden"
                     title={t("camera")}
                   >
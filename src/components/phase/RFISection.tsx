@@ -19,7 +19,9 @@
  *   - Overdue detection: `item.dueDate && item.status === "OPEN" &&
  *     new Date(item.dueDate) < new Date()`.
  *   - Expandable rows show question, answer (if ANSWERED), metadata,
- *     and inline answer form (`answeringId` state).
+ *     the potential change orders (PCOs) raised from the RFI — linking to
+ *     the Change Orders section, where PCOs are raised — and inline answer
+ *     form (`answeringId` state).
  *   - Filter tabs: ALL / OPEN / ANSWERED / CLOSED (with counts).
  *
  * Permissions:
@@ -45,8 +47,10 @@ import {
   AlertTriangle,
   Trash2,
   MessageCircle,
+  FileDiff,
 } from "lucide-react";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { GeneratePdfButton } from "@/components/phase/GeneratePdfButton";
 
 const STATUS_CONFIG: Record<string, { icon: any; color: string }> = {
   OPEN: { icon: Clock, color: "text-blue-500" },
@@ -261,6 +265,28 @@ export function RFISection({ phaseId, rfis, allStaff, canEdit, canManage }: RFIS
                       <span>{t("createdBy")}: {rfi.createdBy?.name}</span>
                     </div>
 
+                    {/* PCOs raised from this RFI */}
+                    {rfi.changeOrders?.length > 0 && (
+                      <div>
+                        <p className="text-xs font-medium text-gray-500 mb-1">{t("pcos")}</p>
+                        <div className="flex gap-1.5 flex-wrap">
+                          {rfi.changeOrders.map((pco: any) => (
+                            <a
+                              key={pco.id}
+                              href="#change-orders"
+                              title={pco.title}
+                              className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 hover:bg-amber-100"
+                            >
+                              <FileDiff className="w-3 h-3" />
+                              {pco.number}
+                              {pco.amount != null && <span className="text-amber-600/70">${Number(pco.amount).toLocaleString()}</span>}
+                              <span className="text-amber-600/70">· {t(pco.status === "PENDING" && pco.parentId ? "pcoBundled" : `pcoStatus${pco.status.charAt(0) + pco.status.slice(1).toLowerCase()}`)}</span>
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Actions */}
                     <div className="flex gap-2 flex-wrap">
                       {rfi.status === "OPEN" && canEdit && (
@@ -272,6 +298,7 @@ export function RFISection({ phaseId, rfis, allStaff, canEdit, canManage }: RFIS
                       {rfi.status !== "VOID" && canManage && (
                         <button onClick={() => handleStatusChange(rfi.id, "VOID")} className="text-xs px-3 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200">{t("voidRFI")}</button>
                       )}
+                      <GeneratePdfButton kind="rfi" id={rfi.id} className="text-xs px-2 py-1 text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-50" />
                       {canManage && (
                         <button onClick={() => handleDelete(rfi.id)} className="text-xs px-2 py-1 text-red-500 hover:bg-red-50 rounded-lg">
                           <Trash2 className="w-3.5 h-3.5" />
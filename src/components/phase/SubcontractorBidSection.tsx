@@ -14,6 +14,9 @@
  *     bid can be awarded; previously awarded bids are not auto-revoked here
  *     (controlled server-side).
  *   - Awarded bid row is highlighted with a green background.
+ *   - Awarding opens a draft subcontract for the bid; its number and status
+ *     are shown beside the Awarded badge (managed in the project's
+ *     commitments section).
  *
  * Permissions:
  *   - `canManage` — all actions (add, award/revoke, delete).
@@ -269,6 +272,11 @@ export function SubcontractorBidSection({ phaseId, bids, canManage }: Subcontrac
                         <Trophy className="w-3 h-3" /> Awarded
                       </span>
                     )}
+                    {bid.subcontract && (
+                      <span className="text-xs px-1.5 py-0.5 rounded-full bg-white border border-green-200 text-green-700">
+                        {bid.subcontract.number} · {bid.subcontract.status.toLowerCase()}
+                      </span>
+                    )}
                     {!bid.awarded && lowestBid?.id === bid.id && bids.length > 1 && (
                       <span className="text-xs px-1.5 py-0.5 rounded-full bg-blue-50 text-blue-600">
                         Lowest bid
@@ -52,6 +52,7 @@ import {
   Eye,
 } from "lucide-react";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { GeneratePdfButton } from "@/components/phase/GeneratePdfButton";
 
 const STATUS_CONFIG: Record<string, { icon: any; color: string; label: string }> = {
   PENDING: { icon: Clock, color: "text-blue-500", label: "Pending" },
@@ -250,6 +251,7 @@ export function SubmittalSection({ phaseId, submittals, allStaff, canEdit, canMa
                     {/* Review actions (managers) */}
                     {canManage && (
                       <div className="flex gap-2 flex-wrap">
+                        <GeneratePdfButton kind="submittal" id={sub.id} className="text-xs px-2 py-1 text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-50" />
                         {sub.status === "PENDING" && (
                           <button onClick={() => handleStatusChange(sub.id, "UNDER_REVIEW")} className="text-xs px-3 py-1 bg-amber-100 text-amber-700 rounded-lg hover:bg-amber-200">{t("startReview")}</button>
                         )}
@@ -18,7 +18,7 @@
  *   - pendingCount: count of PENDING entries.
  *
  * Key behaviours:
- *   - Optional `costCode` field for budget tracking.
+ *   - Optional cost code from the org library (`costCodes`) for job costing.
  *   - Date field defaults to today (`new Date().toISOString().slice(0, 10)`).
  *   - Collapsible section with `expanded` state.
  *   - Filter tabs: ALL / PENDING / APPROVED / REJECTED.
@@ -48,6 +48,7 @@ import {
   ChevronUp,
 } from "lucide-react";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import type { CostCodeOption } from "@/actions/cost-codes";
 
 const STATUS_STYLES: Record<string, { color: string; bg: string }> = {
   PENDING: { color: "text-amber-700", bg: "bg-amber-100" },
@@ -61,9 +62,10 @@ interface TimeTrackingSectionProps {
   allStaff: any[];
   canEdit: boolean;
   canManage: boolean;
+  costCodes?: CostCodeOption[];
 }
 
-export function TimeTrackingSection({ phaseId, entries, allStaff, canEdit, canManage }: TimeTrackingSectionProps) {
+export function TimeTrackingSection({ phaseId, entries, allStaff, canEdit, canManage, costCodes = [] }: TimeTrackingSectionProps) {
   const confirm = useConfirmDialog();
   const t = useTranslations("timeTracking");
   const [items, setItems] = useState(entries);
@@ -76,7 +78,7 @@ export function TimeTrackingSection({ phaseId, entries, allStaff, canEdit, canMa
   const [workerId, setWorkerId] = useState("");
   const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
   const [hours, setHours] = useState("");
-  const [costCode, setCostCode] = useState("");
+  const [costCodeId, setCostCodeId] = useState("");
   const [description, setDescription] = useState("");
 
   const filtered = filter === "ALL" ? items : items.filter((i) => i.status === filter);
@@ -95,13 +97,13 @@ export function TimeTrackingSection({ phaseId, entries, allStaff, canEdit, canMa
         workerId,
         date,
         hours: parseFloat(hours),
-        costCode: costCode || undefined,
+        costCodeId: costCodeId || undefined,
         description: description || undefined,
       });
       setItems((prev) => [{ ...item, worker: allStaff.find((s) => s.id === workerId) || { name: "?" }, createdBy: { name: "You" } }, ...prev]);
       setWorkerId("");
       setHours("");
-      setCostCode("");
+      setCostCodeId("");
       setDescription("");
       setShowForm(false);
       toast.success(t("created"));
@@ -177,7 +179,10 @@ export function TimeTrackingSection({ phaseId, entries, allStaff, canEdit, canMa
             </select>
             <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="border rounded-lg px-3 py-2 text-sm" required />
             <input type="number" step="0.25" min="0.25" max="24" value={hours} onChange={(e) => setHours(e.target.value)} placeholder={t("hoursPlaceholder")} className="border rounded-lg px-3 py-2 text-sm" required />
-            <input type="text" value={costCode} onChange={(e) => setCostCode(e.target.value)} placeholder={t("costCodePlaceholder")} className="border rounded-lg px-3 py-2 text-sm" />
+            <select value={costCodeId} onChange={(e) => setCostCodeId(e.target.value)} className="border rounded-lg px-3 py-2 text-sm">
+              <option value="">{t("costCodePlaceholder")}</option>
+              {costCodes.map((c) => <option key={c.id} value={c.id}>{c.code} — {c.name}</option>)}
+            </select>
           </div>
           <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} placeholder={t("descriptionPlaceholder")} className="w-full border rounded-lg px-3 py-2 text-sm" />
           <div className="flex justify-end gap-2">
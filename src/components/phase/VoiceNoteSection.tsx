@@ -11,6 +11,8 @@
  *   - On stop, chunks are assembled into a Blob and uploaded directly to
  *     Vercel Blob via the `/api/upload` route using `@vercel/blob/client`.
  *     The resulting CDN URL is stored as `audioUrl` on the VoiceNote record.
+ *   - Offline (or when the upload drops), the recording is queued in
+ *     IndexedDB via `queueVoiceNote` and uploaded on reconnect.
  *
  * Playback uses a single shared `audioRef` (HTMLAudioElement). Clicking a
  *   different note pauses the current one before starting the new one.
@@ -38,6 +40,8 @@ import { upload } from "@vercel/blob/client";
 import { formatDistanceToNow } from "date-fns";
 import { useTranslations } from "next-intl";
 import { toast } from "sonner";
+import { isNetworkError } from "@/lib/offline-action";
+import { queueVoiceNote } from "@/lib/offline-uploads";
 
 interface User {
   id: string;
@@ -182,7 +186,17 @@ export function VoiceNoteSection({
       // Build a unique filename: voice-<phaseId>-<timestamp>.webm
       const filename = `voice-${phaseId}-${Date.now()}.webm`;
 
+      const saveOffline = async () => {
+        try {
+          await queueVoiceNote(phaseId, blob, filename, duration);
+          toast.info(t("queuedOffline"));
+        } catch {
+          toast.error(t("saveFailed"));
+        }
+      };
+
       startTransition(async () => {
+        if (!navigator.onLine) return saveOffline();
         try {
           // Upload to Vercel Blob via the existing /api/upload route
           const { url: audioUrl } = await upload(filename, blob, {
@@ -197,7 +211,8 @@ export function VoiceNoteSection({
           });
           setLocalNotes((prev) => [result, ...prev]);
           toast.success(t("saved"));
-        } catch {
+        } catch (err) {
+          if (isNetworkError(err) || !navigator.onLine) return saveOffline();
           toast.error(t("saveFailed"));
         }
       });
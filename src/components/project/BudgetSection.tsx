@@ -8,9 +8,15 @@
  * Structure:
  *   - Header: project total budget (inline-editable by `canManage` users via Pencil
  *     button → text input → Check/X). Change order impact row appears when
- *     `totalApprovedCOs > 0`, showing approved CO total and adjusted budget.
- *   - Summary cards: totalEstimated / totalActual / variance (red TrendingUp when
- *     actual > estimated, green TrendingDown when under).
+ *     `totalApprovedCOs > 0`, showing approved CO total and adjusted budget, the
+ *     schedule days approved COs added, and the CO value split by cost category
+ *     (labor / material / equipment / subcontract / other / markup). Pending
+ *     exposure (PCOs, CORs and unapproved COs) is shown beside it, never added
+ *     to the adjusted budget.
+ *   - Summary cards: totalEstimated / totalCommitted / totalActual / variance
+ *     (red TrendingUp when actual > estimated, green TrendingDown when under).
+ *     Committed is the value of approved subcontracts and purchase orders
+ *     (CommitmentSection).
  *   - Budget usage bar: width = `min(budgetUsed%, 100)%`; colour thresholds:
  *       green < 80 % | amber 80–100 % | red > 100 %.
  *   - EVM Forecast block (rendered only when `totalEstimated > 0 && totalActual > 0`):
@@ -19,8 +25,8 @@
  *       `EAC = BAC / CPI`   (projected final cost)
  *       `VAC = BAC − EAC`   (positive = under budget)
  *     Blue progress bar shows EV as a fraction of BAC.
- *   - Phase breakdown rows: each phase shows estimated / actual / phase-level approved
- *     COs / per-phase variance. `canManage` users click a row to open inline editing
+ *   - Phase breakdown rows: each phase shows estimated / committed / actual / phase-level approved
+ *     COs (with their schedule impact in days) / per-phase variance. `canManage` users click a row to open inline editing
  *     (two text inputs for estimated and actual cost, Enter to save).
  *
  * `fmt(n)` formats USD with no decimal places; returns "—" for null/0.
@@ -28,10 +34,13 @@
  *
  * @param projectId          Owning project ID.
  * @param projectBudget      Overall project budget (nullable).
- * @param phases             Array of phases with estimatedCost, actualCost, approvedCOs.
+ * @param phases             Array of phases with estimatedCost, actualCost, approvedCOs, committedCost.
  * @param canManage          Enables all edit controls.
  * @param totalApprovedCOs   Sum of all approved change orders (default 0).
  * @param adjustedBudget     Budget after CO impact (optional).
+ * @param approvedCOsByCategory  Approved CO value per cost category plus markup (optional).
+ * @param totalScheduleImpactDays Days approved COs added to phase finishes (default 0).
+ * @param pendingExposure    Value of change orders not yet executed (default 0).
  *
  * Server actions: `updateProjectBudget`, `updatePhaseCosts`.
  * i18n namespace: `budget`.
@@ -51,8 +60,21 @@ interface PhaseBudget {
   actualCost: number | null;
   approvedCOs?: number;
   adjustedEstimate?: number;
+  scheduleImpactDays?: number;
+  committedCost?: number;
 }
 
+type CategoryKey = "LABOR" | "MATERIAL" | "EQUIPMENT" | "SUBCONTRACT" | "OTHER" | "markup";
+
+const CATEGORY_LABEL_KEYS: Record<CategoryKey, string> = {
+  LABOR: "labor",
+  MATERIAL: "material",
+  EQUIPMENT: "equipment",
+  SUBCONTRACT: "subcontract",
+  OTHER: "other",
+  markup: "markup",
+};
+
 interface Props {
   projectId: string;
   projectBudget: number | null;
@@ -60,6 +82,9 @@ interface Props {
   canManage: boolean;
   totalApprovedCOs?: number;
   adjustedBudget?: number | null;
+  approvedCOsByCategory?: Record<CategoryKey, number>;
+  totalScheduleImpactDays?: number;
+  pendingExposure?: number;
 }
 
 function fmt(n: number | null): string {
@@ -79,6 +104,9 @@ export function BudgetSection({
   canManage,
   totalApprovedCOs = 0,
   adjustedBudget: initialAdjustedBudget,
+  approvedCOsByCategory,
+  totalScheduleImpactDays = 0,
+  pendingExposure = 0,
 }: Props) {
   const t = useTranslations("budget");
   const [projectBudget, setProjectBudget] = useState(initialBudget);
@@ -92,6 +120,7 @@ export function BudgetSection({
 
   const totalEstimated = phases.reduce((s, p) => s + (p.estimatedCost || 0), 0);
   const totalActual = phases.reduce((s, p) => s + (p.actualCost || 0), 0);
+  const totalCommitted = phases.reduce((s, p) => s + (p.committedCost || 0), 0);
   const variance = totalEstimated > 0 ? totalActual - totalEstimated : 0;
   const budgetUsed = projectBudget && projectBudget > 0 ? pct(totalActual, projectBudget) : null;
 
@@ -200,26 +229,51 @@ export function BudgetSection({
         )}
 
         {/* Change order impact on budget */}
-        {totalApprovedCOs > 0 && (
+        {(totalApprovedCOs > 0 || pendingExposure > 0) && (
           <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
             <span className="text-amber-600 font-medium">
               {t("approvedCOs")}: {fmt(totalApprovedCOs)}
             </span>
+            {pendingExposure > 0 && (
+              <span className="text-gray-500" title={t("pendingExposureHint")}>
+                {t("pendingExposure")}: <span className="font-semibold text-orange-600">{fmt(pendingExposure)}</span>
+              </span>
+            )}
             {initialAdjustedBudget !== null && initialAdjustedBudget !== undefined && (
               <span className="text-gray-500">
                 {t("adjustedBudget")}: <span className="font-semibold text-gray-900">{fmt(initialAdjustedBudget)}</span>
               </span>
             )}
+            {totalScheduleImpactDays > 0 && (
+              <span className="text-gray-500">
+                {t("scheduleImpact")}: <span className="font-semibold text-gray-900">{t("plusDays", { days: totalScheduleImpactDays })}</span>
+              </span>
+            )}
+          </div>
+        )}
+        {totalApprovedCOs > 0 && approvedCOsByCategory && (
+          <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5 text-[11px] text-gray-400">
+            {(Object.keys(CATEGORY_LABEL_KEYS) as CategoryKey[])
+              .filter((key) => approvedCOsByCategory[key] !== 0)
+              .map((key) => (
+                <span key={key}>
+                  {t(CATEGORY_LABEL_KEYS[key])} {fmt(approvedCOsByCategory[key])}
+                </span>
+              ))}
           </div>
         )}
       </div>
 
       {/* Summary cards */}
-      <div className="grid grid-cols-3 gap-0 border-b border-gray-100">
+      <div className="grid grid-cols-4 gap-0 border-b border-gray-100">
         <div className="px-2 sm:px-4 py-3 text-center border-r border-gray-100">
           <p className="text-[10px] sm:text-xs text-gray-500 mb-0.5">{t("estimated")}</p>
           <p className="text-sm sm:text-base font-bold text-gray-900">{fmt(totalEstimated)}</p>
         </div>
+        <div className="px-2 sm:px-4 py-3 text-center border-r border-gray-100" title={t("committedHint")}>
+          <p className="text-[10px] sm:text-xs text-gray-500 mb-0.5">{t("committed")}</p>
+          <p className="text-sm sm:text-base font-bold text-gray-900">{fmt(totalCommitted)}</p>
+        </div>
         <div className="px-2 sm:px-4 py-3 text-center border-r border-gray-100">
           <p className="text-[10px] sm:text-xs text-gray-500 mb-0.5">{t("actual")}</p>
           <p className="text-sm sm:text-base font-bold text-gray-900">{fmt(totalActual)}</p>
@@ -411,6 +465,12 @@ export function BudgetSection({
                       <p className="text-gray-400">{t("estShort")}</p>
                       <p className="text-gray-700 font-medium">{fmt(phase.estimatedCost)}</p>
                     </div>
+                    {!!phase.committedCost && (
+                      <div className="text-right min-w-[3.5rem]">
+                        <p className="text-gray-400">{t("committed")}</p>
+                        <p className="text-gray-700 font-medium">{fmt(phase.committedCost)}</p>
+                      </div>
+                    )}
                     <div className="text-right min-w-[3.5rem]">
                       <p className="text-gray-400">{t("actual")}</p>
                       <p className="text-gray-700 font-medium">{fmt(phase.actualCost)}</p>
@@ -419,6 +479,9 @@ export function BudgetSection({
                       <div className="text-right min-w-[3rem]">
                         <p className="text-gray-400">{t("cosShort")}</p>
                         <p className="text-amber-600 font-medium">+{fmt(phase.approvedCOs)}</p>
+                        {!!phase.scheduleImpactDays && (
+                          <p className="text-[10px] text-gray-400">{t("plusDays", { days: phase.scheduleImpactDays })}</p>
+                        )}
                       </div>
                     )}
                     {phaseVariance !== null && (
@@ -0,0 +1,194 @@
+"use client";
+
+/**
+ * @file components/project/CashFlowSection.tsx
+ * @description Project cash-flow projection — what the project will bill and
+ * pay each month (lib/cash-flow.ts).
+ *
+ * Structure:
+ *   - Totals: cash in, cash out, net and the lowest cumulative position.
+ *   - S-curve: cumulative cash in vs cash out (areas) with monthly net (bars).
+ *   - Month table: cash in, cash out, net and cumulative net per month.
+ *   - Terms: receivable / payable lag in days and the retainage rate applied;
+ *     `canManage` users can edit the lags.
+ *   - XLSX download via `GET /api/export/cash-flow?projectId=`.
+ *
+ * Server actions: `updateCashFlowTerms`.
+ * i18n namespace: `cashFlow`.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Banknote, Download } from "lucide-react";
+import {
+  ComposedChart,
+  Area,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { updateCashFlowTerms } from "@/actions/cash-flow";
+import type { CashFlowProjection } from "@/lib/cash-flow";
+
+const fmt = (n: number) =>
+  n.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+interface CashFlowSectionProps {
+  projectId: string;
+  cashFlow: CashFlowProjection;
+  canManage: boolean;
+}
+
+export function CashFlowSection({ projectId, cashFlow, canManage }: CashFlowSectionProps) {
+  const t = useTranslations("cashFlow");
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [terms, setTerms] = useState({
+    receivableLagDays: String(cashFlow.receivableLagDays),
+    payableLagDays: String(cashFlow.payableLagDays),
+  });
+  const { months, totals } = cashFlow;
+
+  function saveTerms() {
+    startTransition(async () => {
+      try {
+        await updateCashFlowTerms(projectId, {
+          receivableLagDays: Number(terms.receivableLagDays),
+          payableLagDays: Number(terms.payableLagDays),
+        });
+        toast.success(t("termsSaved"));
+        router.refresh();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : t("failed"));
+      }
+    });
+  }
+
+  const inputClass =
+    "w-16 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+  const termsChanged =
+    terms.receivableLagDays !== String(cashFlow.receivableLagDays) || terms.payableLagDays !== String(cashFlow.payableLagDays);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 sm:px-5 py-4 border-b border-gray-100 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+            <Banknote className="w-4 h-4 text-gray-500" />
+            {t("title")}
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">{t("hint")}</p>
+        </div>
+        <a
+          href={`/api/export/cash-flow?projectId=${projectId}`}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 shrink-0"
+        >
+          <Download className="w-3.5 h-3.5" />
+          {t("export")}
+        </a>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-0 border-b border-gray-100">
+        {([
+          ["cashIn", totals.cashIn],
+          ["cashOut", totals.cashOut],
+          ["net", totals.net],
+          ["lowestBalance", totals.lowestBalance],
+        ] as const).map(([key, value]) => (
+          <div key={key} className="px-2 sm:px-4 py-3 text-center border-r border-gray-100 last:border-r-0">
+            <p className="text-[10px] sm:text-xs text-gray-500 mb-0.5">{t(key)}</p>
+            <p className={`text-sm sm:text-base font-bold ${value < 0 ? "text-red-600" : "text-gray-900"}`}>{fmt(value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {months.length === 0 ? (
+        <p className="px-4 sm:px-5 py-6 text-center text-sm text-gray-400">{t("empty")}</p>
+      ) : (
+        <>
+          {/* S-curve */}
+          <div className="px-2 sm:px-4 pt-4">
+            <ResponsiveContainer width="100%" height={240}>
+              <ComposedChart data={months} margin={{ top: 0, right: 4, left: -8, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis dataKey="month" tick={{ fontSize: 10, fill: "#94a3b8" }} />
+                <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v: number) => fmt(v)} />
+                <Tooltip contentStyle={{ fontSize: 11, borderRadius: 8, border: "1px solid #e2e8f0" }} formatter={(v: number) => [fmt(v)]} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Area type="monotone" dataKey="cumulativeIn" name={t("cumulativeIn")} stroke="#22c55e" fill="#22c55e" fillOpacity={0.12} strokeWidth={2} />
+                <Area type="monotone" dataKey="cumulativeOut" name={t("cumulativeOut")} stroke="#ef4444" fill="#ef4444" fillOpacity={0.08} strokeWidth={2} />
+                <Bar dataKey="net" name={t("net")} fill="#3b82f6" barSize={12} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Months */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase tracking-wide border-b border-gray-100">
+                  <th className="text-left font-medium px-4 py-2">{t("month")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("cashIn")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("cashOut")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("net")}</th>
+                  <th className="text-right font-medium px-4 py-2">{t("cumulativeNet")}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {months.map((m) => (
+                  <tr key={m.month}>
+                    <td className="px-4 py-1.5 font-mono text-xs text-gray-600">{m.month}</td>
+                    <td className="px-2 py-1.5 text-right text-gray-700">{fmt(m.cashIn)}</td>
+                    <td className="px-2 py-1.5 text-right text-gray-700">{fmt(m.cashOut)}</td>
+                    <td className={`px-2 py-1.5 text-right ${m.net < 0 ? "text-red-600" : "text-gray-700"}`}>{fmt(m.net)}</td>
+                    <td className={`px-4 py-1.5 text-right font-medium ${m.cumulativeNet < 0 ? "text-red-600" : "text-gray-900"}`}>
+                      {fmt(m.cumulativeNet)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {/* Terms */}
+      <div className="px-4 sm:px-5 py-3 border-t border-gray-100 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-500">
+        {canManage ? (
+          <>
+            <label className="flex items-center gap-1.5">
+              {t("receivableLag")}
+              <input type="number" min={0} max={365} value={terms.receivableLagDays} onChange={(e) => setTerms({ ...terms, receivableLagDays: e.target.value })} className={inputClass} />
+              {t("days")}
+            </label>
+            <label className="flex items-center gap-1.5">
+              {t("payableLag")}
+              <input type="number" min={0} max={365} value={terms.payableLagDays} onChange={(e) => setTerms({ ...terms, payableLagDays: e.target.value })} className={inputClass} />
+              {t("days")}
+            </label>
+            {termsChanged && (
+              <button
+                onClick={saveTerms}
+                disabled={isPending}
+                className="px-3 py-1 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded disabled:opacity-50"
+              >
+                {t("save")}
+              </button>
+            )}
+          </>
+        ) : (
+          <span>{t("terms", { receivable: cashFlow.receivableLagDays, payable: cashFlow.payableLagDays })}</span>
+        )}
+        <span>{t("retainageRate", { rate: cashFlow.retainagePercent })}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+"use client";
+
+/**
+ * @file components/project/CommitmentSection.tsx
+ * @description Project subcontracts and purchase orders — the commitments
+ * behind the budget's committed cost (lib/commitments.ts).
+ *
+ * Structure:
+ *   - Totals: approved value, invoiced to date, remaining and pending
+ *     commitment change orders across open commitments.
+ *   - One row per commitment (SC-001, PO-001…) with vendor, phase, status,
+ *     approved value, invoiced and remaining. Clicking a row expands it to
+ *     show the original amount, its change orders and invoices, and — for
+ *     `canManage` users — the lifecycle buttons (approve / close / void), an
+ *     edit form (title, vendor, cost code; amount while draft), a change order
+ *     form with approve/reject on pending ones, and an invoice form.
+ *
+ * Subcontracts come from awarding a bid; purchase orders from the phase
+ * materials list.
+ *
+ * Server actions: `updateCommitment`, `setCommitmentStatus`,
+ * `addCommitmentChange`, `decideCommitmentChange`, `recordCommitmentInvoice`,
+ * `deleteCommitmentInvoice`.
+ * i18n namespace: `commitments`.
+ */
+
+import { Fragment, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { FileSignature, ChevronDown, ChevronRight, Check, X, Trash2, Pencil } from "lucide-react";
+import {
+  updateCommitment,
+  setCommitmentStatus,
+  addCommitmentChange,
+  decideCommitmentChange,
+  recordCommitmentInvoice,
+  deleteCommitmentInvoice,
+  type ProjectCommitment,
+} from "@/actions/commitments";
+import type { CostCodeOption } from "@/actions/cost-codes";
+import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+
+const fmt = (n: number) =>
+  n.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+const STATUS_STYLES: Record<ProjectCommitment["status"], string> = {
+  DRAFT: "bg-gray-100 text-gray-600",
+  APPROVED: "bg-green-50 text-green-700",
+  CLOSED: "bg-blue-50 text-blue-700",
+  VOID: "bg-red-50 text-red-600 line-through",
+};
+
+interface CommitmentSectionProps {
+  commitments: ProjectCommitment[];
+  costCodes: CostCodeOption[];
+  canManage: boolean;
+}
+
+export function CommitmentSection({ commitments, costCodes, canManage }: CommitmentSectionProps) {
+  const t = useTranslations("commitments");
+  const router = useRouter();
+  const confirm = useConfirmDialog();
+  const [isPending, startTransition] = useTransition();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [edit, setEdit] = useState({ title: "", vendorName: "", originalAmount: "", costCodeId: "" });
+  const [change, setChange] = useState({ description: "", amount: "" });
+  const [invoice, setInvoice] = useState({ number: "", amount: "", invoiceDate: "", notes: "" });
+
+  const open = commitments.filter((c) => c.status !== "VOID");
+  const totals = open.reduce(
+    (sum, c) => ({
+      approvedValue: sum.approvedValue + (c.status === "DRAFT" ? 0 : c.summary.approvedValue),
+      invoiced: sum.invoiced + c.summary.invoiced,
+      remaining: sum.remaining + (c.status === "DRAFT" ? 0 : c.summary.remaining),
+      pendingChanges: sum.pendingChanges + c.summary.pendingChanges,
+    }),
+    { approvedValue: 0, invoiced: 0, remaining: 0, pendingChanges: 0 }
+  );
+
+  function run(action: () => Promise<unknown>, success: string, after: () => void = () => {}) {
+    startTransition(async () => {
+      try {
+        await action();
+        after();
+        toast.success(success);
+        router.refresh();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : t("failed"));
+      }
+    });
+  }
+
+  function toggle(c: ProjectCommitment) {
+    setOpenId(openId === c.id ? null : c.id);
+    setEditing(false);
+    setChange({ description: "", amount: "" });
+    setInvoice({ number: "", amount: "", invoiceDate: new Date().toISOString().slice(0, 10), notes: "" });
+  }
+
+  function startEdit(c: ProjectCommitment) {
+    setEdit({ title: c.title, vendorName: c.vendorName, originalAmount: String(c.originalAmount), costCodeId: c.costCodeId ?? "" });
+    setEditing(true);
+  }
+
+  async function changeStatus(c: ProjectCommitment, status: "APPROVED" | "CLOSED" | "VOID") {
+    if (status !== "APPROVED" && !(await confirm(t(status === "VOID" ? "confirmVoid" : "confirmClose", { number: c.number }), { danger: status === "VOID" }))) {
+      return;
+    }
+    run(() => setCommitmentStatus(c.id, status), t(`status${status}`));
+  }
+
+  const inputClass =
+    "text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+  const buttonClass =
+    "px-3 py-1 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded disabled:opacity-50";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 sm:px-5 py-4 border-b border-gray-100">
+        <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+          <FileSignature className="w-4 h-4 text-gray-500" />
+          {t("title")}
+        </h2>
+        <p className="text-xs text-gray-500 mt-1">{t("hint")}</p>
+      </div>
+
+      {/* Totals */}
+      {open.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-0 border-b border-gray-100">
+          {([
+            ["approvedValue", totals.approvedValue],
+            ["invoiced", totals.invoiced],
+            ["remaining", totals.remaining],
+            ["pendingChanges", totals.pendingChanges],
+          ] as const).map(([key, value]) => (
+            <div key={key} className="px-2 sm:px-4 py-3 text-center border-r border-gray-100 last:border-r-0">
+              <p className="text-[10px] sm:text-xs text-gray-500 mb-0.5">{t(key)}</p>
+              <p className="text-sm sm:text-base font-bold text-gray-900">{fmt(value)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {commitments.length === 0 ? (
+        <p className="px-4 sm:px-5 py-6 text-center text-sm text-gray-400">{t("empty")}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wide border-b border-gray-100">
+                <th className="text-left font-medium px-4 py-2">{t("commitment")}</th>
+                <th className="text-left font-medium px-2 py-2">{t("status")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("approvedValue")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("invoiced")}</th>
+                <th className="text-right font-medium px-4 py-2">{t("remaining")}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {commitments.map((c) => {
+                const isOpen = openId === c.id;
+                return (
+                  <Fragment key={c.id}>
+                    <tr onClick={() => toggle(c)} className="hover:bg-gray-50 cursor-pointer">
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-1.5">
+                          {isOpen ? <ChevronDown className="w-3.5 h-3.5 text-gray-400" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400" />}
+                          <span className="font-mono text-xs text-gray-500">{c.number}</span>
+                          <span className="text-gray-900 font-medium">{c.vendorName}</span>
+                        </div>
+                        <span className="block pl-5 text-[11px] text-gray-400">
+                          {c.title} · {c.phaseName}
+                          {c.costCode && <span className="font-mono"> · {c.costCode}</span>}
+                        </span>
+                      </td>
+                      <td className="px-2 py-2">
+                        <span className={`text-xs px-1.5 py-0.5 rounded-full ${STATUS_STYLES[c.status]}`}>
+                          {t(`status${c.status}`)}
+                        </span>
+                      </td>
+                      <td className="px-2 py-2 text-right text-gray-700">
+                        {fmt(c.summary.approvedValue)}
+                        {c.summary.pendingChanges !== 0 && (
+                          <span className="block text-[11px] text-orange-600">{t("pendingAmount", { amount: fmt(c.summary.pendingChanges) })}</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-2 text-right text-gray-500">{fmt(c.summary.invoiced)}</td>
+                      <td className="px-4 py-2 text-right font-medium text-gray-900">{fmt(c.summary.remaining)}</td>
+                    </tr>
+
+                    {isOpen && (
+                      <tr className="bg-gray-50/60">
+                        <td colSpan={5} className="px-4 sm:px-5 py-3 space-y-3 text-xs text-gray-600">
+                          {/* Summary and lifecycle */}
+                          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                            <span>{t(c.type === "SUBCONTRACT" ? "typeSUBCONTRACT" : "typePURCHASE_ORDER")}</span>
+                            <span>{t("original")}: <span className="font-semibold text-gray-900">{fmt(c.originalAmount)}</span></span>
+                            {c.materials.length > 0 && (
+                              <span>{t("materials")}: {c.materials.map((m) => `${m.name} (${m.quantity} ${m.unit})`).join(", ")}</span>
+                            )}
+                            {canManage && (
+                              <span className="ml-auto flex items-center gap-2">
+                                {(c.status === "DRAFT" || c.status === "APPROVED") && !editing && (
+                                  <button onClick={() => startEdit(c)} className="inline-flex items-center gap-1 text-gray-500 hover:text-gray-800">
+                                    <Pencil className="w-3 h-3" /> {t("edit")}
+                                  </button>
+                                )}
+                                {c.status === "DRAFT" && (
+                                  <button onClick={() => changeStatus(c, "APPROVED")} disabled={isPending} className={buttonClass}>
+                                    {t("approve")}
+                                  </button>
+                                )}
+                                {c.status === "APPROVED" && (
+                                  <button onClick={() => changeStatus(c, "CLOSED")} disabled={isPending} className="text-gray-600 hover:text-gray-900">
+                                    {t("close")}
+                                  </button>
+                                )}
+                                {(c.status === "DRAFT" || c.status === "APPROVED") && c.invoices.length === 0 && (
+                                  <button onClick={() => changeStatus(c, "VOID")} disabled={isPending} className="text-red-500 hover:text-red-700">
+                                    {t("void")}
+                                  </button>
+                                )}
+                              </span>
+                            )}
+                          </div>
+
+                          {/* Edit */}
+                          {editing && (
+                            <form
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                run(
+                                  () =>
+                                    updateCommitment({
+                                      id: c.id,
+                                      title: edit.title,
+                                      vendorName: edit.vendorName,
+                                      originalAmount: parseFloat(edit.originalAmount) || 0,
+                                      costCodeId: edit.costCodeId || null,
+                                    }),
+                                  t("saved"),
+                                  () => setEditing(false)
+                                );
+                              }}
+                              className="flex flex-wrap items-end gap-2"
+                            >
+                              <label>
+                                {t("name")}
+                                <input value={edit.title} onChange={(e) => setEdit({ ...edit, title: e.target.value })} required className={`${inputClass} block w-48`} />
+                              </label>
+                              <label>
+                                {t("vendor")}
+                                <input value={edit.vendorName} onChange={(e) => setEdit({ ...edit, vendorName: e.target.value })} required className={`${inputClass} block w-40`} />
+                              </label>
+                              <label>
+                                {t("original")}
+                                <input
+                                  inputMode="decimal"
+                                  value={edit.originalAmount}
+                                  onChange={(e) => setEdit({ ...edit, originalAmount: e.target.value })}
+                                  disabled={c.status !== "DRAFT"}
+                                  title={c.status !== "DRAFT" ? t("amountLocked") : undefined}
+                                  className={`${inputClass} block w-28 text-right disabled:bg-gray-100`}
+                                />
+                              </label>
+                              <label>
+                                {t("costCode")}
+                                <select value={edit.costCodeId} onChange={(e) => setEdit({ ...edit, costCodeId: e.target.value })} className={`${inputClass} block w-56`}>
+                                  <option value="">{t("noCostCode")}</option>
+                                  {costCodes.map((code) => (
+                                    <option key={code.id} value={code.id}>{code.code} — {code.name}</option>
+                                  ))}
+                                </select>
+                              </label>
+                              <button type="submit" disabled={isPending} className={buttonClass}>{t("save")}</button>
+                              <button type="button" onClick={() => setEditing(false)} className="px-2 py-1 text-gray-500 hover:text-gray-700">{t("cancel")}</button>
+                            </form>
+                          )}
+
+                          <div className="grid gap-4 sm:grid-cols-2">
+                            {/* Change orders */}
+                            <div>
+                              <h3 className="font-semibold text-gray-700 uppercase tracking-wide mb-1">{t("changes")}</h3>
+                              {c.changes.length === 0 ? (
+                                <p className="text-gray-400">{t("noChanges")}</p>
+                              ) : (
+                                <ul className="divide-y divide-gray-100">
+                                  {c.changes.map((ch) => (
+                                    <li key={ch.id} className="flex items-center gap-2 py-1">
+                                      <span className="font-mono text-gray-400">{ch.number}</span>
+                                      <span className="flex-1 min-w-0 truncate text-gray-800">{ch.description}</span>
+                                      <span className={ch.status === "REJECTED" ? "line-through text-gray-400" : "text-gray-900"}>
+                                        {ch.amount > 0 ? "+" : ""}{fmt(ch.amount)}
+                                      </span>
+                                      {ch.status === "PENDING" && canManage && c.status === "APPROVED" ? (
+                                        <>
+                                          <button onClick={() => run(() => decideCommitmentChange(ch.id, true), t("changeDecided"))} disabled={isPending} title={t("approve")} className="p-0.5 text-green-600 hover:text-green-700">
+                                            <Check className="w-3.5 h-3.5" />
+                                          </button>
+                                          <button onClick={() => run(() => decideCommitmentChange(ch.id, false), t("changeDecided"))} disabled={isPending} title={t("reject")} className="p-0.5 text-gray-400 hover:text-red-500">
+                                            <X className="w-3.5 h-3.5" />
+                                          </button>
+                                        </>
+                                      ) : (
+                                        <span className="text-[11px] text-gray-400">{t(`change${ch.status}`)}</span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                              {canManage && c.status === "APPROVED" && (
+                                <form
+                                  onSubmit={(e) => {
+                                    e.preventDefault();
+                                    run(
+                                      () => addCommitmentChange({ commitmentId: c.id, description: change.description, amount: parseFloat(change.amount) || 0 }),
+                                      t("changeAdded"),
+                                      () => setChange({ description: "", amount: "" })
+                                    );
+                                  }}
+                                  className="mt-2 flex gap-2"
+                                >
+                                  <input value={change.description} onChange={(e) => setChange({ ...change, description: e.target.value })} required placeholder={t("description")} className={`${inputClass} flex-1 min-w-0`} />
+                                  <input inputMode="decimal" value={change.amount} onChange={(e) => setChange({ ...change, amount: e.target.value })} required placeholder="±0.00" className={`${inputClass} w-24 text-right`} />
+                                  <button type="submit" disabled={isPending} className={buttonClass}>{t("add")}</button>
+                                </form>
+                              )}
+                            </div>
+
+                            {/* Invoices */}
+                            <div>
+                              <h3 className="font-semibold text-gray-700 uppercase tracking-wide mb-1">{t("invoices")}</h3>
+                              {c.invoices.length === 0 ? (
+                                <p className="text-gray-400">{t("noInvoices")}</p>
+                              ) : (
+                                <ul className="divide-y divide-gray-100">
+                                  {c.invoices.map((inv) => (
+                                    <li key={inv.id} className="flex items-center gap-2 py-1">
+                                      <span className="text-gray-400">{new Date(inv.invoiceDate).toLocaleDateString(undefined, { timeZone: "UTC" })}</span>
+                                      <span className="flex-1 min-w-0 truncate text-gray-800" title={inv.notes ?? undefined}>#{inv.number}</span>
+                                      <span className="text-gray-900">{fmt(inv.amount)}</span>
+                                      {canManage && c.status === "APPROVED" && (
+                                        <button onClick={() => run(() => deleteCommitmentInvoice(inv.id), t("invoiceRemoved"))} disabled={isPending} title={t("remove")} className="p-0.5 text-gray-300 hover:text-red-500">
+                                          <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                              {canManage && c.status === "APPROVED" && c.summary.remaining > 0 && (
+                                <form
+                                  onSubmit={(e) => {
+                                    e.preventDefault();
+                                    run(
+                                      () =>
+                                        recordCommitmentInvoice({
+                                          commitmentId: c.id,
+                                          number: invoice.number,
+                                          amount: parseFloat(invoice.amount) || 0,
+                                          invoiceDate: invoice.invoiceDate,
+                                          notes: invoice.notes || undefined,
+                                        }),
+                                      t("invoiceRecorded"),
+                                      () => setInvoice({ ...invoice, number: "", amount: "", notes: "" })
+                                    );
+                                  }}
+                                  className="mt-2 flex flex-wrap gap-2"
+                                >
+                                  <input value={invoice.number} onChange={(e) => setInvoice({ ...invoice, number: e.target.value })} required placeholder={t("invoiceNumber")} className={`${inputClass} w-24`} />
+                                  <input type="date" value={invoice.invoiceDate} onChange={(e) => setInvoice({ ...invoice, invoiceDate: e.target.value })} required className={inputClass} />
+                                  <input inputMode="decimal" value={invoice.amount} onChange={(e) => setInvoice({ ...invoice, amount: e.target.value })} required placeholder={fmt(c.summary.remaining)} className={`${inputClass} w-24 text-right`} />
+                                  <button type="submit" disabled={isPending} className={buttonClass}>{t("recordInvoice")}</button>
+                                </form>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
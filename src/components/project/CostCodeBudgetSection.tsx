@@ -0,0 +1,238 @@
+"use client";
+
+/**
+ * @file components/project/CostCodeBudgetSection.tsx
+ * @description Project job cost by cost code — budget vs committed vs actual
+ * for each code in the org's cost code library (lib/cost-codes.ts).
+ *
+ * Structure:
+ *   - One row per cost code with activity: revised budget (budget line plus
+ *     approved change order lines), committed (unbilled subcontract and PO
+ *     balances, other materials on order), actual (invoiced to date, other
+ *     materials delivered or installed), remaining and approved labor hours.
+ *     Records without a code roll into a final "Uncoded" row.
+ *   - `canManage` users set a code's budget from the form at the bottom or by
+ *     editing a row; rows with a budget line can have it removed.
+ *
+ * Server actions: `saveCostCodeBudgetLine`, `deleteCostCodeBudgetLine`.
+ * i18n namespace: `costCodes`.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ListTree, Pencil, Trash2, Plus } from "lucide-react";
+import {
+  saveCostCodeBudgetLine,
+  deleteCostCodeBudgetLine,
+  type CostCodeOption,
+  type ProjectCostCodeBudget,
+} from "@/actions/cost-codes";
+
+const fmt = (n: number) =>
+  n.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+interface CostCodeBudgetSectionProps {
+  projectId: string;
+  budget: ProjectCostCodeBudget;
+  /** Active library codes a budget line can be set for. */
+  costCodes: CostCodeOption[];
+  canManage: boolean;
+}
+
+export function CostCodeBudgetSection({ projectId, budget, costCodes, canManage }: CostCodeBudgetSectionProps) {
+  const t = useTranslations("costCodes");
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [editing, setEditing] = useState(false);
+  const [costCodeId, setCostCodeId] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const lineFor = (id: string | null) => budget.lines.find((l) => l.costCodeId === id);
+  const totals = budget.breakdown.reduce(
+    (sum, r) => ({
+      revisedBudget: sum.revisedBudget + r.revisedBudget,
+      committed: sum.committed + r.committed,
+      actual: sum.actual + r.actual,
+      remaining: sum.remaining + r.remaining,
+      laborHours: sum.laborHours + r.laborHours,
+    }),
+    { revisedBudget: 0, committed: 0, actual: 0, remaining: 0, laborHours: 0 }
+  );
+
+  function run(action: () => Promise<unknown>, success: string, after: () => void) {
+    startTransition(async () => {
+      try {
+        await action();
+        after();
+        toast.success(success);
+        router.refresh();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : t("failed"));
+      }
+    });
+  }
+
+  function openForm(id = "") {
+    const line = id ? lineFor(id) : undefined;
+    setCostCodeId(id);
+    setAmount(line ? String(line.amount) : "");
+    setEditing(true);
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!costCodeId || amount === "") return;
+    run(
+      () => saveCostCodeBudgetLine({ projectId, costCodeId, amount: parseFloat(amount) || 0 }),
+      t("saved"),
+      () => setEditing(false)
+    );
+  }
+
+  const inputClass =
+    "text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 sm:px-5 py-4 border-b border-gray-100 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+            <ListTree className="w-4 h-4 text-gray-500" />
+            {t("title")}
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">{t("hint")}</p>
+        </div>
+        {canManage && !editing && (
+          <button
+            onClick={() => openForm()}
+            className="inline-flex items-center gap-1 text-sm font-medium text-[var(--color-primary)] hover:text-[var(--color-primary-dark)] shrink-0"
+          >
+            <Plus className="w-4 h-4" />
+            {t("setBudget")}
+          </button>
+        )}
+      </div>
+
+      {/* Budget line form */}
+      {editing && (
+        <form onSubmit={submit} className="px-4 sm:px-5 py-3 bg-gray-50 border-b border-gray-100 flex flex-wrap items-end gap-2">
+          <label className="text-xs text-gray-500">
+            {t("costCode")}
+            <select value={costCodeId} onChange={(e) => setCostCodeId(e.target.value)} required className={`${inputClass} block w-64`}>
+              <option value="">{t("selectCode")}</option>
+              {costCodes.map((c) => (
+                <option key={c.id} value={c.id}>{c.code} — {c.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500">
+            {t("budget")}
+            <input
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+              placeholder="0.00"
+              className={`${inputClass} block w-32 text-right`}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isPending}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded disabled:opacity-50"
+          >
+            {t("save")}
+          </button>
+          <button type="button" onClick={() => setEditing(false)} className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700">
+            {t("cancel")}
+          </button>
+        </form>
+      )}
+
+      {budget.breakdown.length === 0 ? (
+        <p className="px-4 sm:px-5 py-6 text-center text-sm text-gray-400">{t("empty")}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wide border-b border-gray-100">
+                <th className="text-left font-medium px-4 py-2">{t("costCode")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("budget")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("committed")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("actual")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("remaining")}</th>
+                <th className="text-right font-medium px-2 py-2 hidden sm:table-cell">{t("laborHours")}</th>
+                {canManage && <th className="w-16" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {budget.breakdown.map((row) => {
+                const line = lineFor(row.costCodeId);
+                return (
+                  <tr key={row.costCodeId ?? "uncoded"} className="hover:bg-gray-50">
+                    <td className="px-4 py-2">
+                      {row.code && <span className="font-mono text-xs text-gray-500 mr-2">{row.code}</span>}
+                      <span className={row.costCodeId ? "text-gray-900" : "italic text-gray-500"}>
+                        {row.costCodeId ? row.name : t("uncoded")}
+                      </span>
+                      {row.estimate > 0 && (
+                        <span className="block text-[11px] text-gray-400">{t("estimated", { amount: fmt(row.estimate) })}</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-right text-gray-700">
+                      {fmt(row.revisedBudget)}
+                      {row.approvedChanges !== 0 && (
+                        <span className="block text-[11px] text-gray-400">{t("inclChanges", { amount: fmt(row.approvedChanges) })}</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-right text-gray-500">{fmt(row.committed)}</td>
+                    <td className="px-2 py-2 text-right text-gray-500">{fmt(row.actual)}</td>
+                    <td className={`px-2 py-2 text-right font-medium ${row.remaining < 0 ? "text-red-600" : "text-gray-900"}`}>
+                      {fmt(row.remaining)}
+                    </td>
+                    <td className="px-2 py-2 text-right text-gray-500 hidden sm:table-cell">
+                      {row.laborHours > 0 ? row.laborHours.toLocaleString() : "—"}
+                    </td>
+                    {canManage && (
+                      <td className="px-2 py-2 text-right whitespace-nowrap">
+                        {row.costCodeId && (
+                          <button onClick={() => openForm(row.costCodeId!)} title={t("editBudget")} className="p-1 text-gray-400 hover:text-gray-700">
+                            <Pencil className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        {line && (
+                          <button
+                            onClick={() => run(() => deleteCostCodeBudgetLine(line.id), t("removed"), () => {})}
+                            disabled={isPending}
+                            title={t("remove")}
+                            className="p-1 text-gray-300 hover:text-red-500"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-gray-200 font-medium text-gray-900">
+                <td className="px-4 py-2">{t("total")}</td>
+                <td className="px-2 py-2 text-right">{fmt(totals.revisedBudget)}</td>
+                <td className="px-2 py-2 text-right">{fmt(totals.committed)}</td>
+                <td className="px-2 py-2 text-right">{fmt(totals.actual)}</td>
+                <td className={`px-2 py-2 text-right ${totals.remaining < 0 ? "text-red-600" : ""}`}>{fmt(totals.remaining)}</td>
+                <td className="px-2 py-2 text-right hidden sm:table-cell">{totals.laborHours > 0 ? totals.laborHours.toLocaleString() : "—"}</td>
+                {canManage && <td />}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ import { createDailyLog, deleteDailyLog } from "@/actions/daily-logs";
 import { generateDailyLogDraft } from "@/actions/ai-daily-log";
 import type { DailyLog } from "@/lib/db-types";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { GeneratePdfButton } from "@/components/phase/GeneratePdfButton";
 
 interface DailyLogSectionProps {
   projectId: string;
@@ -364,9 +365,12 @@ export function DailyLogSection({ projectId, logs, canCreate }: DailyLogSectionP
                       <p className="text-sm text-gray-800">{log.notes}</p>
                     </div>
                   )}
-                  <p className="text-xs text-gray-400">
-                    By {log.author?.name || log.author?.email || "—"}
-                  </p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-400">
+                      By {log.author?.name || log.author?.email || "—"}
+                    </p>
+                    <GeneratePdfButton kind="dailyLog" id={log.id} />
+                  </div>
                 </div>
               )}
             </div>
@@ -0,0 +1,412 @@
+"use client";
+
+/**
+ * @file components/project/GeofenceSection.tsx
+ * @description Project geofences for the GPS time clock and the PM queue of
+ * off-site clock-ins (actions/geofences.ts).
+ *
+ * Structure:
+ *   - Policy: FLAG (clock in, queue for review) or BLOCK (refuse, queue for
+ *     approval) for clock-ins outside every fence.
+ *   - Map: Leaflet (hooks/useLeaflet.ts) with the fences in teal and pending
+ *     exceptions as red pins, each with its accuracy circle. Drawing:
+ *       circle  — click the centre, set the radius in metres
+ *       polygon — click each vertex; "Undo point" removes the last one
+ *     then name the fence and save.
+ *   - Fence list with delete.
+ *   - Exception queue: pending clock-ins with distance from the site and GPS
+ *     accuracy, approve / reject with an optional note; reviewed ones below
+ *     (collapsed).
+ *
+ * Rendered for project managers only.
+ *
+ * Server actions: `saveGeofence`, `deleteGeofence`, `updateGeofencePolicy`,
+ * `reviewGeofenceException`.
+ * i18n namespace: `geofences`.
+ */
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Check, ChevronDown, ChevronUp, Circle, Hexagon, MapPinned, Trash2, Undo2, X } from "lucide-react";
+import { useLeaflet } from "@/hooks/useLeaflet";
+import {
+  deleteGeofence,
+  reviewGeofenceException,
+  saveGeofence,
+  updateGeofencePolicy,
+  type GeofenceExceptionRow,
+  type ProjectGeofence,
+} from "@/actions/geofences";
+import type { GeofencePolicy, LatLng } from "@/lib/geofence";
+import { fmtRelative } from "@/lib/utils";
+
+const FENCE_COLOR = "#0d9488";
+const DRAFT_COLOR = "#2563eb";
+const EXCEPTION_COLOR = "#dc2626";
+const DEFAULT_RADIUS_M = 100;
+
+type Draft =
+  | { shape: "CIRCLE"; center: LatLng | null; radius: string }
+  | { shape: "POLYGON"; points: LatLng[] };
+
+interface GeofenceSectionProps {
+  projectId: string;
+  policy: GeofencePolicy;
+  fences: ProjectGeofence[];
+  exceptions: GeofenceExceptionRow[];
+}
+
+export function GeofenceSection({ projectId, policy, fences, exceptions }: GeofenceSectionProps) {
+  const t = useTranslations("geofences");
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const loaded = useLeaflet();
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [showReviewed, setShowReviewed] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const mapRef = useRef<any>(null);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const layersRef = useRef<{ fences: any; draft: any } | null>(null);
+  // The map click handler is bound once; it reads the draft through this ref
+  const draftRef = useRef<Draft | null>(null);
+  useEffect(() => {
+    draftRef.current = draft;
+  }, [draft]);
+
+  const pending = exceptions.filter((e) => e.status === "PENDING");
+  const reviewed = exceptions.filter((e) => e.status !== "PENDING");
+
+  // Create the map once Leaflet is ready
+  useEffect(() => {
+    if (!loaded || !containerRef.current || mapRef.current) return;
+    const L = window.L;
+
+    const map = L.map(containerRef.current).setView([20, 0], 2);
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: '© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+      maxZoom: 19,
+    }).addTo(map);
+    layersRef.current = { fences: L.featureGroup().addTo(map), draft: L.layerGroup().addTo(map) };
+    mapRef.current = map;
+
+    map.on("click", (e: { latlng: { lat: number; lng: number } }) => {
+      const point: LatLng = [e.latlng.lat, e.latlng.lng];
+      const current = draftRef.current;
+      if (current?.shape === "CIRCLE") setDraft({ ...current, center: point });
+      else if (current?.shape === "POLYGON") setDraft({ ...current, points: [...current.points, point] });
+    });
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layersRef.current = null;
+    };
+  }, [loaded]);
+
+  // Fences and pending exceptions; fit the view to them, or to the user's location
+  useEffect(() => {
+    const map = mapRef.current;
+    const layers = layersRef.current;
+    if (!map || !layers) return;
+    const L = window.L;
+
+    layers.fences.clearLayers();
+    for (const fence of fences) {
+      const style = { color: FENCE_COLOR, weight: 2, fillOpacity: 0.15 };
+      const layer =
+        fence.shape === "CIRCLE"
+          ? L.circle([fence.centerLat, fence.centerLng], { ...style, radius: fence.radius })
+          : L.polygon(fence.points ?? [], style);
+      layer.bindTooltip(fence.name).addTo(layers.fences);
+    }
+    for (const e of pending) {
+      if (e.accuracy) {
+        L.circle([e.latitude, e.longitude], { radius: e.accuracy, color: EXCEPTION_COLOR, weight: 1, fillOpacity: 0.08, interactive: false }).addTo(layers.fences);
+      }
+      L.circleMarker([e.latitude, e.longitude], { radius: 6, color: "white", weight: 2, fillColor: EXCEPTION_COLOR, fillOpacity: 1 })
+        .bindTooltip(`${e.worker.name} — ${e.phase.name}`)
+        .addTo(layers.fences);
+    }
+
+    if (layers.fences.getLayers().length > 0) {
+      map.fitBounds(layers.fences.getBounds(), { padding: [30, 30], maxZoom: 17 });
+    } else if (navigator.geolocation) {
+      navigator.geolocation.getCurrentPosition((pos) => map.setView([pos.coords.latitude, pos.coords.longitude], 16));
+    }
+    // `pending` is derived from `exceptions`
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded, fences, exceptions]);
+
+  // Draft shape being drawn
+  useEffect(() => {
+    const layers = layersRef.current;
+    if (!layers) return;
+    const L = window.L;
+
+    layers.draft.clearLayers();
+    const style = { color: DRAFT_COLOR, weight: 2, dashArray: "6 4", fillOpacity: 0.1 };
+    if (draft?.shape === "CIRCLE" && draft.center) {
+      L.circle(draft.center, { ...style, radius: Number(draft.radius) || 0 }).addTo(layers.draft);
+    } else if (draft?.shape === "POLYGON" && draft.points.length > 0) {
+      (draft.points.length >= 3 ? L.polygon(draft.points, style) : L.polyline(draft.points, style)).addTo(layers.draft);
+      draft.points.forEach((p) => L.circleMarker(p, { radius: 4, color: DRAFT_COLOR, fillOpacity: 1 }).addTo(layers.draft));
+    }
+  }, [loaded, draft]);
+
+  function run(action: () => Promise<unknown>, success: string, after?: () => void) {
+    startTransition(async () => {
+      try {
+        await action();
+        after?.();
+        toast.success(success);
+        router.refresh();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : t("failed"));
+      }
+    });
+  }
+
+  function startDraft(shape: Draft["shape"]) {
+    setName("");
+    setDraft(shape === "CIRCLE" ? { shape, center: null, radius: String(DEFAULT_RADIUS_M) } : { shape, points: [] });
+  }
+
+  function saveDraft() {
+    if (!draft) return;
+    const input =
+      draft.shape === "CIRCLE"
+        ? { shape: "CIRCLE" as const, name, centerLat: draft.center?.[0] ?? NaN, centerLng: draft.center?.[1] ?? NaN, radius: Number(draft.radius) }
+        : { shape: "POLYGON" as const, name, points: draft.points };
+    run(() => saveGeofence(projectId, input), t("saved"), () => setDraft(null));
+  }
+
+  const canSave =
+    name.trim() !== "" &&
+    (draft?.shape === "CIRCLE" ? !!draft.center && Number(draft.radius) >= 10 : (draft?.points.length ?? 0) >= 3);
+
+  const inputClass =
+    "text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 sm:px-5 py-4 border-b border-gray-100 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+            <MapPinned className="w-4 h-4 text-gray-500" />
+            {t("title")}
+            {pending.length > 0 && (
+              <span className="text-[10px] font-medium normal-case tracking-normal px-1.5 py-0.5 bg-red-100 text-red-700 rounded-full">
+                {t("pendingCount", { count: pending.length })}
+              </span>
+            )}
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">{t("hint")}</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600 shrink-0">
+          {t("policy")}
+          <select
+            value={policy}
+            disabled={isPending}
+            onChange={(e) => run(() => updateGeofencePolicy(projectId, e.target.value as GeofencePolicy), t("policySaved"))}
+            className={inputClass}
+          >
+            <option value="FLAG">{t("policyFLAG")}</option>
+            <option value="BLOCK">{t("policyBLOCK")}</option>
+          </select>
+        </label>
+      </div>
+
+      {/* Drawing toolbar */}
+      <div className="px-4 sm:px-5 py-2 border-b border-gray-100 flex flex-wrap items-center gap-2 text-xs">
+        {!draft ? (
+          <>
+            <button onClick={() => startDraft("CIRCLE")} className="flex items-center gap-1 px-2.5 py-1.5 border border-gray-200 rounded-lg hover:bg-gray-50">
+              <Circle className="w-3.5 h-3.5" />
+              {t("addCircle")}
+            </button>
+            <button onClick={() => startDraft("POLYGON")} className="flex items-center gap-1 px-2.5 py-1.5 border border-gray-200 rounded-lg hover:bg-gray-50">
+              <Hexagon className="w-3.5 h-3.5" />
+              {t("addPolygon")}
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="text-gray-500">
+              {draft.shape === "CIRCLE"
+                ? t(draft.center ? "circleRadiusHint" : "circleCenterHint")
+                : t("polygonHint", { count: draft.points.length })}
+            </span>
+            {draft.shape === "CIRCLE" && draft.center && (
+              <label className="flex items-center gap-1 text-gray-600">
+                {t("radius")}
+                <input
+                  type="number"
+                  min={10}
+                  step={10}
+                  value={draft.radius}
+                  onChange={(e) => setDraft({ ...draft, radius: e.target.value })}
+                  className={`${inputClass} w-20`}
+                />
+                m
+              </label>
+            )}
+            {draft.shape === "POLYGON" && draft.points.length > 0 && (
+              <button
+                onClick={() => setDraft({ ...draft, points: draft.points.slice(0, -1) })}
+                className="flex items-center gap-1 px-2 py-1 text-gray-600 hover:text-gray-900"
+              >
+                <Undo2 className="w-3.5 h-3.5" />
+                {t("undoPoint")}
+              </button>
+            )}
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t("namePlaceholder")}
+              className={`${inputClass} w-40`}
+            />
+            <button
+              onClick={saveDraft}
+              disabled={!canSave || isPending}
+              className="px-3 py-1.5 font-medium text-white bg-[var(--color-primary)] rounded-lg disabled:opacity-50"
+            >
+              {t("save")}
+            </button>
+            <button onClick={() => setDraft(null)} className="px-2 py-1 text-gray-500 hover:text-gray-700">
+              {t("cancel")}
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Map */}
+      <div className="relative">
+        {!loaded && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-gray-50">
+            <p className="text-sm text-gray-500">{t("loadingMap")}</p>
+          </div>
+        )}
+        <div ref={containerRef} className={`w-full h-[360px] ${draft ? "cursor-crosshair" : ""}`} />
+      </div>
+
+      {/* Fences */}
+      <div className="px-4 sm:px-5 py-3 border-t border-gray-100">
+        {fences.length === 0 ? (
+          <p className="text-xs text-gray-400">{t("noFences")}</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2">
+            {fences.map((f) => (
+              <li key={f.id} className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 text-xs bg-teal-50 text-teal-800 rounded-full">
+                {f.shape === "CIRCLE" ? <Circle className="w-3 h-3" /> : <Hexagon className="w-3 h-3" />}
+                {f.name}
+                {f.shape === "CIRCLE" && <span className="text-teal-600">{t("radiusValue", { radius: Math.round(f.radius ?? 0) })}</span>}
+                <button
+                  onClick={() => {
+                    if (confirm(t("confirmDelete", { name: f.name }))) run(() => deleteGeofence(f.id), t("deleted"));
+                  }}
+                  disabled={isPending}
+                  title={t("delete")}
+                  className="p-0.5 text-teal-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Exception queue */}
+      <div className="border-t border-gray-100">
+        <h3 className="px-4 sm:px-5 pt-3 text-xs font-semibold text-gray-700">{t("queueTitle")}</h3>
+        {pending.length === 0 ? (
+          <p className="px-4 sm:px-5 py-3 text-xs text-gray-400">{t("queueEmpty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {pending.map((e) => (
+              <li key={e.id} className="px-4 sm:px-5 py-3 flex flex-wrap items-start gap-3">
+                <div className="flex-1 min-w-[200px]">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{e.worker.name}</span>
+                    <span className="text-gray-500"> · {e.phase.name}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    <span
+                      className={`inline-block mr-1.5 px-1.5 py-0.5 rounded text-[10px] font-medium ${
+                        e.outcome === "BLOCKED" ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"
+                      }`}
+                    >
+                      {t(`outcome${e.outcome}`)}
+                    </span>
+                    {fmtRelative(e.createdAt)} ·{" "}
+                    {e.check === "UNCERTAIN"
+                      ? t("uncertain", { accuracy: Math.round(e.accuracy ?? 0) })
+                      : t("distance", { distance: Math.round(e.distance ?? 0), accuracy: Math.round(e.accuracy ?? 0) })}
+                  </p>
+                  {e.notes && <p className="text-xs text-gray-600 mt-1 italic">{e.notes}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={notes[e.id] ?? ""}
+                    onChange={(ev) => setNotes({ ...notes, [e.id]: ev.target.value })}
+                    placeholder={t("notePlaceholder")}
+                    className={`${inputClass} w-40 text-xs`}
+                  />
+                  <button
+                    onClick={() => run(() => reviewGeofenceException(e.id, { decision: "APPROVED", note: notes[e.id] }), t("approved"))}
+                    disabled={isPending}
+                    className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                    {e.outcome === "BLOCKED" ? t("approveClockIn") : t("approve")}
+                  </button>
+                  <button
+                    onClick={() => run(() => reviewGeofenceException(e.id, { decision: "REJECTED", note: notes[e.id] }), t("rejected"))}
+                    disabled={isPending}
+                    className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-red-700 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                    {t("reject")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {reviewed.length > 0 && (
+          <div className="border-t border-gray-100">
+            <button
+              onClick={() => setShowReviewed(!showReviewed)}
+              className="w-full px-4 sm:px-5 py-2 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              {showReviewed ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+              {t("reviewed", { count: reviewed.length })}
+            </button>
+            {showReviewed && (
+              <ul className="px-4 sm:px-5 pb-3 space-y-1.5">
+                {reviewed.map((e) => (
+                  <li key={e.id} className="text-xs text-gray-600">
+                    <span className={e.status === "APPROVED" ? "text-green-700" : "text-red-700"}>{t(`status${e.status}`)}</span>
+                    {" · "}
+                    {e.worker.name} · {e.phase.name} · {t("distanceShort", { distance: Math.round(e.distance ?? 0) })}
+                    {e.reviewedBy && ` · ${t("reviewedBy", { name: e.reviewedBy })}`}
+                    {e.reviewNote && <span className="italic"> — {e.reviewNote}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
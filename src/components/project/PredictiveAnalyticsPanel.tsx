@@ -284,6 +284,16 @@ export default function PredictiveAnalyticsPanel({
               </div>
             </div>
 
+            {budget.earnedValue && (
+              <p className="text-xs text-gray-600">
+                {t("evmAnchor", {
+                  eac: `$${Math.round(budget.earnedValue.estimateAtCompletion).toLocaleString()}`,
+                  cpi: budget.earnedValue.cpi?.toFixed(2) ?? "—",
+                  spi: budget.earnedValue.spi?.toFixed(2) ?? "—",
+                })}
+              </p>
+            )}
+
             {budget.forecastAccuracy && (
               <p className="text-xs text-gray-500 italic">{budget.forecastAccuracy}</p>
             )}
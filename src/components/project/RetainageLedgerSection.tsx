@@ -0,0 +1,326 @@
+"use client";
+
+/**
+ * @file components/project/RetainageLedgerSection.tsx
+ * @description Project retainage ledger — balances held per vendor, variable
+ * rate tiers and partial/final releases.
+ *
+ * Structure:
+ *   - Balances: one row per vendor (the contractor's own retainage first) with
+ *     withheld, released and held amounts. `canManage` users open a release
+ *     form on a row; it lists only APPROVED unconditional final lien waivers
+ *     from that vendor, which the server requires (actions/retainage.ts).
+ *   - Rate tiers: "from X% billed → Y%" steps applied to new SOV billing, with
+ *     the project's current percent billed and the rate in force.
+ *   - History: every withholding and release, newest first (collapsed).
+ *
+ * Withholding rows are posted automatically when pay applications are approved.
+ *
+ * Server actions: `releaseRetainage`, `setRetainageRateTiers`.
+ * i18n namespace: `retainage`.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Landmark, ChevronDown, ChevronUp, Plus, Trash2, Pencil } from "lucide-react";
+import { releaseRetainage, setRetainageRateTiers, type RetainageLedger } from "@/actions/retainage";
+
+const fmt = (n: number) =>
+  n.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface RetainageLedgerSectionProps {
+  projectId: string;
+  ledger: RetainageLedger;
+  canManage: boolean;
+}
+
+export function RetainageLedgerSection({ projectId, ledger, canManage }: RetainageLedgerSectionProps) {
+  const t = useTranslations("retainage");
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Release form — keyed by vendor ("" = the contractor's own balance)
+  const [releasing, setReleasing] = useState<string | null>(null);
+  const [waiverId, setWaiverId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [final, setFinal] = useState(false);
+  const [note, setNote] = useState("");
+
+  // Tier editor
+  const [editingTiers, setEditingTiers] = useState(false);
+  const [tiers, setTiers] = useState<{ minPercentComplete: string; ratePercent: string }[]>([]);
+
+  const totalHeld = ledger.balances.reduce((s, b) => s + b.balance, 0);
+  const vendorLabel = (name: string | null) => name ?? t("contractor", { name: ledger.contractorName });
+
+  function run(action: () => Promise<unknown>, success: string, after: () => void) {
+    startTransition(async () => {
+      try {
+        await action();
+        after();
+        toast.success(success);
+        router.refresh();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : t("failed"));
+      }
+    });
+  }
+
+  function openRelease(balance: RetainageLedger["balances"][number]) {
+    setReleasing(balance.vendorName ?? "");
+    setWaiverId(balance.waivers[0]?.id ?? "");
+    setAmount("");
+    setFinal(false);
+    setNote("");
+  }
+
+  function submitRelease(vendorName: string | null) {
+    if (!waiverId) return;
+    run(
+      () =>
+        releaseRetainage({
+          projectId,
+          vendorName,
+          final,
+          amount: final ? undefined : parseFloat(amount) || 0,
+          lienWaiverId: waiverId,
+          note: note || undefined,
+        }),
+      t("released"),
+      () => setReleasing(null)
+    );
+  }
+
+  function startEditTiers() {
+    setTiers(
+      ledger.tiers.length > 0
+        ? ledger.tiers.map((tier) => ({ minPercentComplete: String(tier.minPercentComplete), ratePercent: String(tier.ratePercent) }))
+        : [{ minPercentComplete: "0", ratePercent: "10" }, { minPercentComplete: "50", ratePercent: "5" }]
+    );
+    setEditingTiers(true);
+  }
+
+  function saveTiers() {
+    const parsed = tiers
+      .filter((tier) => tier.minPercentComplete !== "" && tier.ratePercent !== "")
+      .map((tier) => ({ minPercentComplete: parseFloat(tier.minPercentComplete), ratePercent: parseFloat(tier.ratePercent) }));
+    run(() => setRetainageRateTiers(projectId, parsed), t("tiersSaved"), () => setEditingTiers(false));
+  }
+
+  const inputClass =
+    "text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 sm:px-5 py-4 border-b border-gray-100">
+        <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+          <Landmark className="w-4 h-4 text-amber-600" />
+          {t("title")}
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {t("totalHeld")} <span className="font-semibold text-gray-900">{fmt(totalHeld)}</span>
+        </p>
+      </div>
+
+      {/* Balances */}
+      {ledger.balances.length === 0 ? (
+        <p className="px-4 sm:px-5 py-6 text-center text-sm text-gray-400">{t("empty")}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wide border-b border-gray-100">
+                <th className="text-left font-medium px-4 py-2">{t("vendor")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("withheld")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("releasedColumn")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("held")}</th>
+                {canManage && <th className="w-24" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {ledger.balances.map((b) => {
+                const key = b.vendorName ?? "";
+                return [
+                  <tr key={key} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-gray-900">
+                      {vendorLabel(b.vendorName)}
+                      {b.closed && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700">{t("closed")}</span>}
+                    </td>
+                    <td className="px-2 py-2 text-right text-gray-500">{fmt(b.withheld)}</td>
+                    <td className="px-2 py-2 text-right text-gray-500">{fmt(b.released)}</td>
+                    <td className="px-2 py-2 text-right font-medium text-gray-900">{fmt(b.balance)}</td>
+                    {canManage && (
+                      <td className="px-2 py-2 text-right">
+                        {b.balance > 0 && releasing !== key && (
+                          <button onClick={() => openRelease(b)} className="text-xs text-amber-700 hover:text-amber-800">
+                            {t("release")}
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>,
+                  releasing === key && (
+                    <tr key={`${key}-release`} className="bg-amber-50/50">
+                      <td colSpan={5} className="px-4 py-3">
+                        {b.waivers.length === 0 ? (
+                          <div className="flex items-center justify-between gap-3">
+                            <p className="text-xs text-amber-800">{t("waiverRequired", { vendor: b.vendorName ?? ledger.contractorName })}</p>
+                            <button onClick={() => setReleasing(null)} className="text-xs text-gray-500 hover:text-gray-700">{t("cancel")}</button>
+                          </div>
+                        ) : (
+                          <div className="flex flex-wrap items-end gap-2">
+                            <label className="text-xs text-gray-500">
+                              {t("lienWaiver")}
+                              <select value={waiverId} onChange={(e) => setWaiverId(e.target.value)} className={`${inputClass} block w-56`}>
+                                {b.waivers.map((w) => (
+                                  <option key={w.id} value={w.id}>
+                                    {w.phaseName}{w.amount !== null ? ` — ${fmt(w.amount)}` : ""}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            <label className="text-xs text-gray-500">
+                              {t("amount")}
+                              <input
+                                inputMode="decimal"
+                                value={final ? String(b.balance) : amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                disabled={final}
+                                className={`${inputClass} block w-32 text-right disabled:bg-gray-100`}
+                                placeholder="0.00"
+                              />
+                            </label>
+                            <label className="text-xs text-gray-700 flex items-center gap-1 pb-1.5">
+                              <input type="checkbox" checked={final} onChange={(e) => setFinal(e.target.checked)} />
+                              {t("finalRelease")}
+                            </label>
+                            <input value={note} onChange={(e) => setNote(e.target.value)} className={`${inputClass} flex-1 min-w-[10rem]`} placeholder={t("notePlaceholder")} />
+                            <button onClick={() => setReleasing(null)} className="text-xs px-3 py-1.5 text-gray-600 hover:text-gray-800">{t("cancel")}</button>
+                            <button
+                              onClick={() => submitRelease(b.vendorName)}
+                              disabled={isPending || (!final && !(parseFloat(amount) > 0))}
+                              className="text-xs px-3 py-1.5 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+                            >
+                              {t("release")}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Rate tiers */}
+      <div className="border-t border-gray-100 px-4 sm:px-5 py-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{t("rateTiers")}</h3>
+          {canManage && !editingTiers && (
+            <button onClick={startEditTiers} className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1">
+              <Pencil className="w-3 h-3" />
+              {t("editTiers")}
+            </button>
+          )}
+        </div>
+        {editingTiers ? (
+          <div className="mt-2 space-y-2">
+            {tiers.map((tier, i) => (
+              <div key={i} className="flex items-center gap-2 text-xs text-gray-600">
+                {t("tierFrom")}
+                <input
+                  inputMode="decimal"
+                  value={tier.minPercentComplete}
+                  onChange={(e) => setTiers((prev) => prev.map((p, j) => (j === i ? { ...p, minPercentComplete: e.target.value } : p)))}
+                  className={`${inputClass} w-16 text-right`}
+                />
+                {t("tierBilled")}
+                <input
+                  inputMode="decimal"
+                  value={tier.ratePercent}
+                  onChange={(e) => setTiers((prev) => prev.map((p, j) => (j === i ? { ...p, ratePercent: e.target.value } : p)))}
+                  className={`${inputClass} w-16 text-right`}
+                />
+                %
+                <button onClick={() => setTiers((prev) => prev.filter((_, j) => j !== i))} className="p-1 text-gray-400 hover:text-red-500" aria-label={t("removeTier")}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setTiers((prev) => [...prev, { minPercentComplete: "", ratePercent: "" }])}
+                className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                {t("addTier")}
+              </button>
+              <div className="flex gap-2">
+                <button onClick={() => setEditingTiers(false)} className="text-xs px-3 py-1.5 text-gray-600 hover:text-gray-800">{t("cancel")}</button>
+                <button onClick={saveTiers} disabled={isPending} className="text-xs px-3 py-1.5 rounded bg-gray-900 text-white hover:bg-gray-800 disabled:opacity-50">
+                  {t("save")}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : ledger.tiers.length === 0 ? (
+          <p className="text-xs text-gray-400 mt-1">{t("noTiers")}</p>
+        ) : (
+          <div className="mt-1 text-xs text-gray-600 space-y-0.5">
+            {ledger.tiers.map((tier) => (
+              <p key={tier.minPercentComplete} className={tier.ratePercent === ledger.currentRate ? "font-medium text-gray-900" : ""}>
+                {t("tierSummary", { from: tier.minPercentComplete, rate: tier.ratePercent })}
+              </p>
+            ))}
+            <p className="text-gray-400">
+              {t("currentRate", { percent: ledger.percentComplete, rate: ledger.currentRate ?? "—" })}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      {ledger.entries.length > 0 && (
+        <div className="border-t border-gray-100">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="w-full px-4 sm:px-5 py-2 flex items-center justify-between text-xs font-semibold text-gray-700 uppercase tracking-wide hover:bg-gray-50"
+          >
+            {t("history", { count: ledger.entries.length })}
+            {showHistory ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+          </button>
+          {showHistory && (
+            <ul className="divide-y divide-gray-50 px-4 sm:px-5 pb-3">
+              {ledger.entries.map((e) => (
+                <li key={e.id} className="py-1.5 flex flex-wrap items-center gap-x-3 text-xs">
+                  <span className="text-gray-400 w-20">{e.createdAt.toISOString().slice(0, 10)}</span>
+                  <span className={e.type === "WITHHELD" ? "text-gray-700" : "text-amber-700"}>
+                    {e.type === "WITHHELD"
+                      ? t("entryWithheld", { number: e.payAppNumber ?? "—" })
+                      : e.final
+                        ? t("entryFinalRelease")
+                        : t("entryRelease")}
+                  </span>
+                  <span className="text-gray-500">{vendorLabel(e.vendorName)}</span>
+                  {e.ratePercent !== null && <span className="text-gray-400">{e.ratePercent}%</span>}
+                  {e.note && <span className="text-gray-400 truncate max-w-xs">{e.note}</span>}
+                  <span className={`ml-auto font-medium ${e.type === "WITHHELD" ? "text-gray-900" : "text-amber-700"}`}>
+                    {e.type === "WITHHELD" ? "" : "−"}
+                    {fmt(e.amount)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
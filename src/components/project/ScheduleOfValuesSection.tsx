@@ -0,0 +1,557 @@
+"use client";
+
+/**
+ * @file components/project/ScheduleOfValuesSection.tsx
+ * @description Project schedule of values (SOV) and AIA G702/G703 pay applications.
+ *
+ * Structure:
+ *   - SOV table: item no., description, linked phase, scheduled value,
+ *     retainage % and billed to date per line, with a contract-sum footer.
+ *     `canManage` users add, edit (inline) and delete lines; billed lines
+ *     cannot be deleted.
+ *   - Pay applications: one row per application with the G702 current payment
+ *     due, status badge, PDF download (`/api/export/pay-app?id=`) and status
+ *     actions DRAFT → SUBMITTED → APPROVED | REJECTED → PAID.
+ *   - Billing form: one row per SOV line with inputs for work this period,
+ *     materials stored and retainage % (prefilled with the rate tier in
+ *     force); G703 columns G/H and the G702 totals preview live with the same
+ *     math the server stores (lib/aia-billing.ts).
+ *     Also used to re-bill a DRAFT application.
+ *
+ * Data is refreshed from the server (`router.refresh()`) after every mutation,
+ * so previous-work columns always reflect the stored applications.
+ *
+ * Server actions: `createSovLineItem`, `updateSovLineItem`, `deleteSovLineItem`,
+ *   `createProjectPaymentApplication`, `updateProjectPaymentApplicationLines`,
+ *   `updatePaymentAppStatus`, `deletePaymentApplication`.
+ * i18n namespace: `sov`.
+ */
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ListOrdered, Plus, Pencil, Trash2, Check, X, FileDown, Send, CheckCircle2, XCircle, DollarSign } from "lucide-react";
+import {
+  createSovLineItem,
+  updateSovLineItem,
+  deleteSovLineItem,
+  createProjectPaymentApplication,
+  updateProjectPaymentApplicationLines,
+  type SovLineItemSummary,
+  type ProjectPayApplication,
+} from "@/actions/schedule-of-values";
+import { updatePaymentAppStatus, deletePaymentApplication } from "@/actions/paymentApp";
+import { computeG703Line, rollupG702 } from "@/lib/aia-billing";
+import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+
+const STATUS_STYLES: Record<string, string> = {
+  DRAFT: "text-gray-700 bg-gray-100",
+  SUBMITTED: "text-blue-700 bg-blue-100",
+  APPROVED: "text-green-700 bg-green-100",
+  REJECTED: "text-red-700 bg-red-100",
+  PAID: "text-emerald-700 bg-emerald-100",
+};
+
+const fmt = (n: number) =>
+  n.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const num = (s: string) => parseFloat(s.replace(/[^0-9.]/g, "")) || 0;
+
+interface LineForm {
+  itemNumber: string;
+  description: string;
+  scheduledValue: string;
+  retainagePercent: string;
+  phaseId: string;
+}
+
+const EMPTY_LINE: LineForm = { itemNumber: "", description: "", scheduledValue: "", retainagePercent: "10", phaseId: "" };
+
+interface BillingRow {
+  workThisPeriod: string;
+  materialsStored: string;
+  retainagePercent: string;
+}
+
+interface ScheduleOfValuesSectionProps {
+  projectId: string;
+  lineItems: SovLineItemSummary[];
+  applications: ProjectPayApplication[];
+  phases: { id: string; name: string }[];
+  /** Approved change orders to date — G702 line 2 for a new application. */
+  netChangeOrders: number;
+  /** Retainage rate tier in force (lib/retainage.ts); null = each line's own rate. */
+  retainageRate: number | null;
+  canManage: boolean;
+}
+
+export function ScheduleOfValuesSection({
+  projectId,
+  lineItems,
+  applications,
+  phases,
+  netChangeOrders,
+  retainageRate,
+  canManage,
+}: ScheduleOfValuesSectionProps) {
+  const t = useTranslations("sov");
+  const router = useRouter();
+  const confirm = useConfirmDialog();
+  const [isPending, startTransition] = useTransition();
+
+  // SOV line editing: null = closed, "new" = add form, otherwise the line ID
+  const [editing, setEditing] = useState<string | null>(null);
+  const [lineForm, setLineForm] = useState<LineForm>(EMPTY_LINE);
+
+  // Billing form: null = closed, "new" = new application, otherwise a DRAFT app ID
+  const [billing, setBilling] = useState<string | null>(null);
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [notes, setNotes] = useState("");
+  const [rows, setRows] = useState<Record<string, BillingRow>>({});
+
+  const contractSum = lineItems.reduce((s, l) => s + l.scheduledValue, 0);
+  const billedToDate = lineItems.reduce((s, l) => s + l.billedToDate, 0);
+  const hasOpenApp = applications.some((a) => a.status === "DRAFT" || a.status === "SUBMITTED");
+
+  function run(action: () => Promise<unknown>, success: string, after?: () => void) {
+    startTransition(async () => {
+      try {
+        await action();
+        after?.();
+        toast.success(success);
+        router.refresh();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : t("failed"));
+      }
+    });
+  }
+
+  // ── SOV lines ──
+
+  function startEditLine(line?: SovLineItemSummary) {
+    setEditing(line?.id ?? "new");
+    setLineForm(
+      line
+        ? {
+            itemNumber: line.itemNumber,
+            description: line.description,
+            scheduledValue: String(line.scheduledValue),
+            retainagePercent: String(line.retainagePercent),
+            phaseId: line.phaseId ?? "",
+          }
+        : { ...EMPTY_LINE, itemNumber: String(lineItems.length + 1) }
+    );
+  }
+
+  function saveLine() {
+    if (!lineForm.itemNumber.trim() || !lineForm.description.trim()) return;
+    const data = {
+      itemNumber: lineForm.itemNumber,
+      description: lineForm.description,
+      scheduledValue: num(lineForm.scheduledValue),
+      retainagePercent: num(lineForm.retainagePercent),
+      phaseId: lineForm.phaseId || null,
+    };
+    run(
+      () => (editing === "new" ? createSovLineItem({ ...data, projectId }) : updateSovLineItem(editing!, data)),
+      t("lineSaved"),
+      () => setEditing(null)
+    );
+  }
+
+  async function removeLine(id: string) {
+    if (!(await confirm(t("confirmDeleteLine"), { danger: true }))) return;
+    run(() => deleteSovLineItem(id), t("lineDeleted"));
+  }
+
+  // ── Billing ──
+
+  /** The application being re-billed, when editing a DRAFT. */
+  const draft = billing && billing !== "new" ? applications.find((a) => a.id === billing) : undefined;
+
+  function openBilling(app?: ProjectPayApplication) {
+    setBilling(app?.id ?? "new");
+    setPeriodStart(app ? app.periodStart.toISOString().slice(0, 10) : "");
+    setPeriodEnd(app ? app.periodEnd.toISOString().slice(0, 10) : "");
+    setNotes(app?.notes ?? "");
+    const billed = new Map(app?.lines.map((l) => [l.lineItemId, l]));
+    setRows(
+      Object.fromEntries(
+        lineItems.map((item) => {
+          const line = billed.get(item.id);
+          return [
+            item.id,
+            {
+              workThisPeriod: line?.workThisPeriod ? String(line.workThisPeriod) : "",
+              materialsStored: line?.materialsStored ? String(line.materialsStored) : "",
+              retainagePercent: String(line?.retainagePercent ?? retainageRate ?? item.retainagePercent),
+            },
+          ];
+        })
+      )
+    );
+  }
+
+  // Live G703/G702 preview — previous work is billed-to-date minus the draft's own lines
+  const preview = useMemo(() => {
+    if (!billing) return null;
+    const own = new Map(draft?.lines.map((l) => [l.lineItemId, l.workThisPeriod]));
+    const lines = lineItems.map((item) => {
+      const row = rows[item.id];
+      return computeG703Line({
+        itemNumber: item.itemNumber,
+        description: item.description,
+        scheduledValue: item.scheduledValue,
+        previousWork: item.billedToDate - (own.get(item.id) ?? 0),
+        workThisPeriod: num(row?.workThisPeriod ?? ""),
+        materialsStored: num(row?.materialsStored ?? ""),
+        retainagePercent: num(row?.retainagePercent ?? "0"),
+        ...(item.previousRetainage !== null
+          ? { previousRetainage: item.previousRetainage, previousMaterialsStored: item.previousMaterialsStored }
+          : {}),
+      });
+    });
+    const previousCertificates = applications
+      .filter((a) => a.status !== "REJECTED" && a.id !== draft?.id)
+      .reduce((s, a) => s + a.summary.currentPaymentDue, 0);
+    return { lines, summary: rollupG702(lines, draft?.summary.netChangeOrders ?? netChangeOrders, previousCertificates) };
+  }, [billing, draft, rows, lineItems, applications, netChangeOrders]);
+
+  function saveBilling() {
+    const lines = lineItems.map((item) => ({
+      lineItemId: item.id,
+      workThisPeriod: num(rows[item.id]?.workThisPeriod ?? ""),
+      materialsStored: num(rows[item.id]?.materialsStored ?? ""),
+      retainagePercent: num(rows[item.id]?.retainagePercent ?? "0"),
+    }));
+    if (draft) {
+      run(() => updateProjectPaymentApplicationLines(draft.id, lines), t("appUpdated"), () => setBilling(null));
+      return;
+    }
+    if (!periodStart || !periodEnd) return;
+    run(
+      () => createProjectPaymentApplication({ projectId, periodStart, periodEnd, lines, notes: notes || undefined }),
+      t("appCreated"),
+      () => setBilling(null)
+    );
+  }
+
+  function setStatus(id: string, status: string) {
+    run(() => updatePaymentAppStatus(id, status), t("statusUpdated"));
+  }
+
+  async function removeApp(id: string) {
+    if (!(await confirm(t("confirmDeleteApp"), { danger: true }))) return;
+    run(() => deletePaymentApplication(id), t("appDeleted"));
+  }
+
+  const inputClass =
+    "w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-4 sm:px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+            <ListOrdered className="w-4 h-4 text-teal-600" />
+            {t("title")}
+          </h2>
+          {lineItems.length > 0 && (
+            <p className="text-sm text-gray-500 mt-1">
+              {t("contractSum")} <span className="font-semibold text-gray-900">{fmt(contractSum)}</span>
+              {" · "}
+              {t("billedPercent", { percent: contractSum > 0 ? Math.round((billedToDate / contractSum) * 100) : 0 })}
+            </p>
+          )}
+        </div>
+        {canManage && editing === null && (
+          <button
+            onClick={() => startEditLine()}
+            className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            {t("addLine")}
+          </button>
+        )}
+      </div>
+
+      {/* SOV lines */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase tracking-wide border-b border-gray-100">
+              <th className="text-left font-medium px-4 py-2 w-16">{t("itemNumber")}</th>
+              <th className="text-left font-medium px-2 py-2">{t("description")}</th>
+              <th className="text-left font-medium px-2 py-2">{t("phase")}</th>
+              <th className="text-right font-medium px-2 py-2">{t("scheduledValue")}</th>
+              <th className="text-right font-medium px-2 py-2">{t("retainagePercent")}</th>
+              <th className="text-right font-medium px-2 py-2">{t("billedToDate")}</th>
+              {canManage && <th className="w-16" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {lineItems.map((line) =>
+              editing === line.id ? (
+                <LineEditorRow key={line.id} form={lineForm} setForm={setLineForm} phases={phases} onSave={saveLine} onCancel={() => setEditing(null)} disabled={isPending} inputClass={inputClass} />
+              ) : (
+                <tr key={line.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-gray-500">{line.itemNumber}</td>
+                  <td className="px-2 py-2 text-gray-900">{line.description}</td>
+                  <td className="px-2 py-2 text-gray-500">{line.phaseName ?? "—"}</td>
+                  <td className="px-2 py-2 text-right">{fmt(line.scheduledValue)}</td>
+                  <td className="px-2 py-2 text-right text-gray-500">{line.retainagePercent}%</td>
+                  <td className="px-2 py-2 text-right text-gray-700">{fmt(line.billedToDate)}</td>
+                  {canManage && (
+                    <td className="px-2 py-2 text-right whitespace-nowrap">
+                      <button onClick={() => startEditLine(line)} className="p-1 text-gray-400 hover:text-gray-600" aria-label={t("edit")}>
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      {line.billedToDate === 0 && (
+                        <button onClick={() => removeLine(line.id)} className="p-1 text-gray-400 hover:text-red-500" aria-label={t("delete")}>
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              )
+            )}
+            {editing === "new" && (
+              <LineEditorRow form={lineForm} setForm={setLineForm} phases={phases} onSave={saveLine} onCancel={() => setEditing(null)} disabled={isPending} inputClass={inputClass} />
+            )}
+            {lineItems.length === 0 && editing !== "new" && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-400">{t("empty")}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pay applications */}
+      {lineItems.length > 0 && (
+        <div className="border-t border-gray-100 px-4 sm:px-5 py-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{t("payApplications")}</h3>
+            {canManage && billing === null && !hasOpenApp && (
+              <button onClick={() => openBilling()} className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1">
+                <Plus className="w-3 h-3" />
+                {t("newApplication")}
+              </button>
+            )}
+          </div>
+
+          {billing !== null && preview && (
+            <div className="rounded-lg border border-teal-200 bg-teal-50/40 p-3 space-y-3">
+              <p className="text-sm font-medium text-gray-900">
+                {draft ? t("editApplication", { number: draft.number }) : t("newApplication")}
+              </p>
+              {!draft && (
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-gray-500">
+                    {t("periodStart")}
+                    <input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-500">
+                    {t("periodEnd")}
+                    <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} className={inputClass} />
+                  </label>
+                </div>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-500 uppercase tracking-wide">
+                      <th className="text-left font-medium py-1 pr-2">{t("description")}</th>
+                      <th className="text-right font-medium py-1 px-1">{t("previousWork")}</th>
+                      <th className="text-right font-medium py-1 px-1 w-28">{t("workThisPeriod")}</th>
+                      <th className="text-right font-medium py-1 px-1 w-28">{t("materialsStored")}</th>
+                      <th className="text-right font-medium py-1 px-1 w-16">{t("retainagePercent")}</th>
+                      <th className="text-right font-medium py-1 px-1">{t("percentComplete")}</th>
+                      <th className="text-right font-medium py-1 pl-1">{t("balanceToFinish")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lineItems.map((item, i) => {
+                      const line = preview.lines[i];
+                      const over = line.completedAndStored > line.scheduledValue;
+                      const update = (field: keyof BillingRow, value: string) =>
+                        setRows((prev) => ({ ...prev, [item.id]: { ...prev[item.id], [field]: value } }));
+                      return (
+                        <tr key={item.id}>
+                          <td className="py-1 pr-2 text-gray-900">
+                            <span className="text-gray-400 mr-1">{item.itemNumber}</span>
+                            {item.description}
+                          </td>
+                          <td className="py-1 px-1 text-right text-gray-500">{fmt(line.previousWork)}</td>
+                          <td className="py-1 px-1">
+                            <input inputMode="decimal" value={rows[item.id]?.workThisPeriod ?? ""} onChange={(e) => update("workThisPeriod", e.target.value)} className={`${inputClass} text-right`} placeholder="0" />
+                          </td>
+                          <td className="py-1 px-1">
+                            <input inputMode="decimal" value={rows[item.id]?.materialsStored ?? ""} onChange={(e) => update("materialsStored", e.target.value)} className={`${inputClass} text-right`} placeholder="0" />
+                          </td>
+                          <td className="py-1 px-1">
+                            <input inputMode="decimal" value={rows[item.id]?.retainagePercent ?? ""} onChange={(e) => update("retainagePercent", e.target.value)} className={`${inputClass} text-right`} />
+                          </td>
+                          <td className={`py-1 px-1 text-right ${over ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                            {line.percentComplete.toFixed(1)}%
+                          </td>
+                          <td className={`py-1 pl-1 text-right ${over ? "text-red-600 font-medium" : "text-gray-700"}`}>
+                            {fmt(line.balanceToFinish)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                <SummaryItem label={t("contractSumToDate")} value={fmt(preview.summary.contractSumToDate)} />
+                <SummaryItem label={t("completedAndStored")} value={fmt(preview.summary.totalCompletedAndStored)} />
+                <SummaryItem label={t("totalRetainage")} value={fmt(preview.summary.totalRetainage)} />
+                <SummaryItem label={t("currentPaymentDue")} value={fmt(preview.summary.currentPaymentDue)} strong />
+              </dl>
+              {!draft && (
+                <input value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} placeholder={t("notesPlaceholder")} />
+              )}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setBilling(null)} className="text-xs px-3 py-1.5 text-gray-600 hover:text-gray-800">
+                  {t("cancel")}
+                </button>
+                <button
+                  onClick={saveBilling}
+                  disabled={isPending || preview.lines.some((l) => l.completedAndStored > l.scheduledValue)}
+                  className="text-xs px-3 py-1.5 rounded bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {draft ? t("save") : t("create")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {applications.length === 0 ? (
+            <p className="text-sm text-gray-400">{t("noApplications")}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {applications.map((app) => (
+                <li key={app.id} className="py-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                  <span className="font-medium text-gray-900">#{app.number}</span>
+                  <span className="text-gray-500 text-xs">
+                    {app.periodStart.toISOString().slice(0, 10)} – {app.periodEnd.toISOString().slice(0, 10)}
+                  </span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[app.status] ?? STATUS_STYLES.DRAFT}`}>
+                    {t(`status${app.status.charAt(0)}${app.status.slice(1).toLowerCase()}`)}
+                  </span>
+                  <span className="ml-auto text-gray-900">
+                    {t("due")} <span className="font-semibold">{fmt(app.summary.currentPaymentDue)}</span>
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <a href={`/api/export/pay-app?id=${app.id}`} className="p-1 text-gray-400 hover:text-teal-600" title={t("downloadPdf")}>
+                      <FileDown className="w-4 h-4" />
+                    </a>
+                    {canManage && app.status === "DRAFT" && (
+                      <>
+                        <button onClick={() => openBilling(app)} className="p-1 text-gray-400 hover:text-gray-600" title={t("edit")}>
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setStatus(app.id, "SUBMITTED")} className="p-1 text-gray-400 hover:text-blue-600" title={t("submit")}>
+                          <Send className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                    {canManage && app.status === "SUBMITTED" && (
+                      <>
+                        <button onClick={() => setStatus(app.id, "APPROVED")} className="p-1 text-gray-400 hover:text-green-600" title={t("approve")}>
+                          <CheckCircle2 className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setStatus(app.id, "REJECTED")} className="p-1 text-gray-400 hover:text-red-600" title={t("reject")}>
+                          <XCircle className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                    {canManage && app.status === "APPROVED" && (
+                      <button onClick={() => setStatus(app.id, "PAID")} className="p-1 text-gray-400 hover:text-emerald-600" title={t("markPaid")}>
+                        <DollarSign className="w-4 h-4" />
+                      </button>
+                    )}
+                    {canManage && (app.status === "DRAFT" || app.status === "REJECTED") && (
+                      <button onClick={() => removeApp(app.id)} className="p-1 text-gray-400 hover:text-red-500" title={t("delete")}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LineEditorRow({
+  form,
+  setForm,
+  phases,
+  onSave,
+  onCancel,
+  disabled,
+  inputClass,
+}: {
+  form: LineForm;
+  setForm: (f: LineForm) => void;
+  phases: { id: string; name: string }[];
+  onSave: () => void;
+  onCancel: () => void;
+  disabled: boolean;
+  inputClass: string;
+}) {
+  const t = useTranslations("sov");
+  const set = (field: keyof LineForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+  return (
+    <tr className="bg-gray-50">
+      <td className="px-4 py-2">
+        <input value={form.itemNumber} onChange={set("itemNumber")} className={inputClass} aria-label={t("itemNumber")} />
+      </td>
+      <td className="px-2 py-2">
+        <input value={form.description} onChange={set("description")} className={inputClass} placeholder={t("descriptionPlaceholder")} autoFocus />
+      </td>
+      <td className="px-2 py-2">
+        <select value={form.phaseId} onChange={set("phaseId")} className={inputClass} aria-label={t("phase")}>
+          <option value="">{t("noPhase")}</option>
+          {phases.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </td>
+      <td className="px-2 py-2">
+        <input inputMode="decimal" value={form.scheduledValue} onChange={set("scheduledValue")} className={`${inputClass} text-right`} placeholder="0.00" aria-label={t("scheduledValue")} />
+      </td>
+      <td className="px-2 py-2">
+        <input inputMode="decimal" value={form.retainagePercent} onChange={set("retainagePercent")} className={`${inputClass} text-right`} aria-label={t("retainagePercent")} />
+      </td>
+      <td />
+      <td className="px-2 py-2 text-right whitespace-nowrap">
+        <button onClick={onSave} disabled={disabled} className="p-1 text-green-600 hover:text-green-700" aria-label={t("save")}>
+          <Check className="w-4 h-4" />
+        </button>
+        <button onClick={onCancel} className="p-1 text-gray-400 hover:text-gray-600" aria-label={t("cancel")}>
+          <X className="w-4 h-4" />
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function SummaryItem({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className="rounded bg-white border border-gray-100 px-2 py-1.5">
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={strong ? "font-semibold text-teal-700" : "text-gray-900"}>{value}</dd>
+    </div>
+  );
+}
@@ -14,6 +14,9 @@
  *     saved as `overdue-report.csv`.
  *   - "Team Performance"   — only shown when `data.teamPerformance` is non-empty;
  *     saved as `team-performance.csv`.
+ *   - "Schedule Variance"  — per-phase start/finish (days) and cost variance against
+ *     each project's latest baseline; only shown when `data.scheduleVariance` is
+ *     non-empty; saved as `schedule-variance.csv`.
  *
  * `toCSV(headers, rows)` produces RFC-4180-compliant CSV: values containing commas,
  * double-quotes, or newlines are quoted and internal double-quotes are doubled.
@@ -54,6 +57,19 @@ interface ExportData {
     active: number;
     overdue: number;
   }>;
+  scheduleVariance?: Array<{
+    projectName: string;
+    baselineName: string;
+    baselineDate: Date;
+    phaseName: string;
+    baselineStart: Date | null;
+    baselineEnd: Date | null;
+    currentStart: Date | null;
+    currentEnd: Date | null;
+    startVarianceDays: number | null;
+    finishVarianceDays: number | null;
+    costVariance: number | null;
+  }>;
 }
 
 interface Props {
@@ -72,6 +88,11 @@ function toCSV(headers: string[], rows: string[][]): string {
   return lines.join("\n");
 }
 
+/** ISO calendar date (YYYY-MM-DD), or empty for missing values. */
+function isoDate(d: Date | null): string {
+  return d ? new Date(d).toISOString().slice(0, 10) : "";
+}
+
 function downloadCSV(filename: string, content: string) {
   const blob = new Blob([content], { type: "text/csv;charset=utf-8;" });
   const url = URL.createObjectURL(blob);
@@ -121,6 +142,29 @@ export function ExportButton({ data }: Props) {
     setShowMenu(false);
   }
 
+  function scheduleVarianceCSV(): string {
+    return toCSV(
+      [
+        t("project"), t("baseline"), t("baselineDate"), t("phase"),
+        t("baselineStart"), t("baselineFinish"), t("currentStart"), t("currentFinish"),
+        t("startVarianceDays"), t("finishVarianceDays"), t("costVariance"),
+      ],
+      (data.scheduleVariance ?? []).map((v) => [
+        v.projectName, v.baselineName, isoDate(v.baselineDate), v.phaseName,
+        isoDate(v.baselineStart), isoDate(v.baselineEnd), isoDate(v.currentStart), isoDate(v.currentEnd),
+        v.startVarianceDays == null ? "" : String(v.startVarianceDays),
+        v.finishVarianceDays == null ? "" : String(v.finishVarianceDays),
+        v.costVariance == null ? "" : v.costVariance.toFixed(2),
+      ])
+    );
+  }
+
+  function exportScheduleVariance() {
+    if (!data.scheduleVariance) return;
+    downloadCSV("schedule-variance.csv", scheduleVarianceCSV());
+    setShowMenu(false);
+  }
+
   function exportAll() {
     let content = "=== PROJECT HEALTH ===\n";
     content += toCSV(
@@ -159,6 +203,11 @@ export function ExportButton({ data }: Props) {
       );
     }
 
+    if (data.scheduleVariance && data.scheduleVariance.length > 0) {
+      content += "\n\n=== SCHEDULE VARIANCE VS BASELINE ===\n";
+      content += scheduleVarianceCSV();
+    }
+
     downloadCSV("full-report.csv", content);
     setShowMenu(false);
   }
@@ -191,6 +240,11 @@ export function ExportButton({ data }: Props) {
                 {t("teamPerformance")}
               </button>
             )}
+            {data.scheduleVariance && data.scheduleVariance.length > 0 && (
+              <button onClick={exportScheduleVariance} className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50">
+                {t("scheduleVariance")}
+              </button>
+            )}
           </div>
         </>
       )}
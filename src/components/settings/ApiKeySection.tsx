@@ -3,11 +3,14 @@
 /**
  * @file ApiKeySection.tsx
  * @description API key management panel for the settings page. Allows users to create
- * named API keys with optional expiry dates. New key values are shown once in an amber
- * one-time banner with a clipboard copy button (Check/Copy toggle). Existing keys
- * display their prefix, creation date, last-used date, expiry, and Revoked/Expired
- * status badges. Individual keys can be revoked (ToggleRight) or permanently deleted.
- * Server actions: createApiKey, revokeApiKey, deleteApiKey.
+ * named API keys with scopes (read/write per resource), an optional project allow-list
+ * and optional expiry. New key values are shown once in an amber one-time banner with a
+ * clipboard copy button (Check/Copy toggle). Existing keys display their prefix, scope
+ * chips, allowed projects, creation date, last-used date and IP, expiry, and
+ * Revoked/Expired/Re-scope required status badges. Keys issued before scopes existed
+ * are denied by /api/v1 until re-scoped, so they are called out above the list. Keys can be edited (scopes/projects), rotated with a
+ * 24h overlap, revoked (ToggleRight) or permanently deleted.
+ * Server actions: createApiKey, updateApiKeyAccess, rotateApiKey, revokeApiKey, deleteApiKey.
  */
 
 import { useState } from "react";
@@ -24,16 +27,33 @@ import {
   Clock,
   Eye,
   EyeOff,
+  RefreshCw,
+  Pencil,
+  Globe,
 } from "lucide-react";
-import { createApiKey, revokeApiKey, deleteApiKey } from "@/actions/api-keys";
+import {
+  createApiKey,
+  updateApiKeyAccess,
+  rotateApiKey,
+  revokeApiKey,
+  deleteApiKey,
+} from "@/actions/api-keys";
 import type { ApiKey } from "@/lib/db-types";
+import { API_SCOPES } from "@/lib/api-scopes";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
 
 interface ApiKeySectionProps {
   apiKeys: ApiKey[];
+  /** Org projects selectable in the allow-list. */
+  projects: { id: string; name: string }[];
 }
 
-export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
+/** Scope collections in display order, e.g. ["projects", "rfis", …]. */
+const SCOPE_COLLECTIONS = [...new Set(API_SCOPES.map((s) => s.split(":")[0]))];
+
+const EMPTY_FORM = { name: "", expiresAt: "", scopes: [] as string[], projectIds: [] as string[] };
+
+export function ApiKeySection({ apiKeys, projects }: ApiKeySectionProps) {
   const confirm = useConfirmDialog();
   const [showForm, setShowForm] = useState(false);
   const [submitting, setSubmitting] = useState(false);
@@ -41,25 +61,67 @@ export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
   const [error, setError] = useState<string | null>(null);
   const [newKey, setNewKey] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [form, setForm] = useState({ name: "", expiresAt: "" });
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? "Unknown project";
+  const needsScopes = (key: ApiKey) =>
+    key.scopes.length === 0 && key.active && !(key.expiresAt && new Date(key.expiresAt) < new Date());
+  const unscopedCount = apiKeys.filter(needsScopes).length;
 
-  const handleCreate = async (e: React.FormEvent) => {
+  const toggleIn = (field: "scopes" | "projectIds", value: string) =>
+    setForm((f) => ({
+      ...f,
+      [field]: f[field].includes(value) ? f[field].filter((v) => v !== value) : [...f[field], value],
+    }));
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const startEdit = (key: ApiKey) => {
+    setEditingId(key.id);
+    setForm({ name: key.name, expiresAt: "", scopes: key.scopes, projectIds: key.projectIds });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.name.trim()) return;
     setSubmitting(true);
     setError(null);
     try {
-      const res = await createApiKey(form.name.trim(), form.expiresAt || undefined);
-      setNewKey(res.key);
-      setForm({ name: "", expiresAt: "" });
-      setShowForm(false);
+      if (editingId) {
+        await updateApiKeyAccess(editingId, form.scopes, form.projectIds);
+      } else {
+        const res = await createApiKey(form.name.trim(), form.scopes, {
+          expiresAt: form.expiresAt || undefined,
+          projectIds: form.projectIds,
+        });
+        setNewKey(res.key);
+      }
+      closeForm();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to create key");
+      setError(err instanceof Error ? err.message : "Failed to save key");
     } finally {
       setSubmitting(false);
     }
   };
 
+  const handleRotate = async (id: string) => {
+    if (!await confirm("Issue a new secret for this key? The current secret keeps working for 24 hours.")) return;
+    setActionId(id);
+    try {
+      const res = await rotateApiKey(id);
+      setNewKey(res.key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate key");
+    } finally {
+      setActionId(null);
+    }
+  };
+
   const handleCopy = (text: string) => {
     navigator.clipboard.writeText(text).then(() => {
       setCopied(true);
@@ -92,7 +154,7 @@ export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
             ({apiKeys.filter((k) => k.active).length} active)
           </span>
         </h2>
-        <button onClick={() => setShowForm((v) => !v)}
+        <button onClick={() => (showForm ? closeForm() : setShowForm(true))}
           className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--color-primary)] hover:text-[var(--color-primary-dark)]">
           <Plus className="w-4 h-4" />
           <span className="hidden sm:inline">New Key</span>
@@ -106,6 +168,16 @@ export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
         </div>
       )}
 
+      {unscopedCount > 0 && (
+        <div className="mb-3 flex items-center gap-2 p-2.5 bg-amber-50 text-amber-800 text-sm rounded-lg">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span>
+            {unscopedCount} key{unscopedCount === 1 ? " was" : "s were"} issued before scopes existed and
+            {unscopedCount === 1 ? " is" : " are"} rejected by the API. Edit {unscopedCount === 1 ? "it" : "them"} to grant access.
+          </span>
+        </div>
+      )}
+
       {newKey && (
         <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
           <p className="text-xs font-semibold text-amber-800 mb-1.5">⚠ Copy this key now — it will not be shown again:</p>
@@ -120,25 +192,59 @@ export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
       )}
 
       {showForm && (
-        <form onSubmit={handleCreate} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+        <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
           <div className="grid grid-cols-2 gap-3">
             <div className="col-span-2 sm:col-span-1">
               <label className="block text-xs font-medium text-gray-700 mb-1">Key Name *</label>
-              <input required value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              <input required value={form.name} disabled={!!editingId} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
                 placeholder="e.g. Production Integration"
-                className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]" />
+                className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)] disabled:bg-gray-100" />
             </div>
-            <div>
-              <label className="block text-xs font-medium text-gray-700 mb-1">Expiry (optional)</label>
-              <input type="date" value={form.expiresAt} onChange={(e) => setForm((f) => ({ ...f, expiresAt: e.target.value }))}
-                className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]" />
+            {!editingId && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Expiry (optional)</label>
+                <input type="date" value={form.expiresAt} onChange={(e) => setForm((f) => ({ ...f, expiresAt: e.target.value }))}
+                  className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]" />
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Scopes * <span className="font-normal text-gray-400">(write includes read)</span></label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+              {SCOPE_COLLECTIONS.map((c) => (
+                <div key={c} className="flex items-center gap-3 text-xs">
+                  <span className="w-24 font-mono text-gray-600">{c}</span>
+                  {(["read", "write"] as const).map((access) => (
+                    <label key={access} className="flex items-center gap-1 cursor-pointer">
+                      <input type="checkbox" checked={form.scopes.includes(`${c}:${access}`)}
+                        onChange={() => toggleIn("scopes", `${c}:${access}`)}
+                        className="rounded border-gray-300 text-[var(--color-primary)]" />
+                      {access}
+                    </label>
+                  ))}
+                </div>
+              ))}
             </div>
           </div>
+          {projects.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Projects <span className="font-normal text-gray-400">(none selected = all projects)</span></label>
+              <div className="max-h-32 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {projects.map((p) => (
+                  <label key={p.id} className="flex items-center gap-1.5 text-xs cursor-pointer">
+                    <input type="checkbox" checked={form.projectIds.includes(p.id)} onChange={() => toggleIn("projectIds", p.id)}
+                      className="rounded border-gray-300 text-[var(--color-primary)]" />
+                    <span className="truncate">{p.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="flex gap-2 justify-end">
-            <button type="button" onClick={() => setShowForm(false)} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-200 rounded-md">Cancel</button>
-            <button type="submit" disabled={submitting}
+            <button type="button" onClick={closeForm} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-200 rounded-md">Cancel</button>
+            <button type="submit" disabled={submitting || form.scopes.length === 0}
               className="px-4 py-1.5 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded-md disabled:opacity-60 inline-flex items-center gap-1.5">
-              {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}Generate Key
+              {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}{editingId ? "Save Access" : "Generate Key"}
             </button>
           </div>
         </form>
@@ -161,6 +267,21 @@ export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
                     <code className="text-xs text-gray-400 font-mono">{key.prefix}…</code>
                     {!key.active && <span className="text-xs bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">Revoked</span>}
                     {expired && <span className="text-xs bg-red-50 text-red-500 px-1.5 py-0.5 rounded">Expired</span>}
+                    {needsScopes(key) && <span className="text-xs bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded">Re-scope required</span>}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {key.scopes.length === 0 ? (
+                      <span className="text-[10px] bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded">No scopes — edit to grant access</span>
+                    ) : (
+                      key.scopes.map((s) => (
+                        <span key={s} className="text-[10px] font-mono bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{s}</span>
+                      ))
+                    )}
+                    {key.projectIds.length > 0 && (
+                      <span className="text-[10px] bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded" title={key.projectIds.map(projectName).join(", ")}>
+                        {key.projectIds.length} project{key.projectIds.length === 1 ? "" : "s"} only
+                      </span>
+                    )}
                   </div>
                   <div className="text-xs text-gray-400 mt-0.5 flex items-center gap-3">
                     <span>Created {new Date(key.createdAt).toLocaleDateString()}</span>
@@ -169,12 +290,29 @@ export function ApiKeySection({ apiKeys }: ApiKeySectionProps) {
                         <Clock className="w-3 h-3" /> Used {new Date(key.lastUsedAt).toLocaleDateString()}
                       </span>
                     )}
+                    {key.lastUsedIp && (
+                      <span className="flex items-center gap-1 font-mono">
+                        <Globe className="w-3 h-3" /> {key.lastUsedIp}
+                      </span>
+                    )}
                     {key.expiresAt && !expired && (
                       <span>Expires {new Date(key.expiresAt).toLocaleDateString()}</span>
                     )}
                   </div>
                 </div>
                 <div className="flex items-center gap-1 shrink-0">
+                  {key.active && !expired && (
+                    <>
+                      <button onClick={() => startEdit(key)} title="Edit scopes"
+                        className="p-1.5 text-gray-400 hover:text-[var(--color-primary)] rounded">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleRotate(key.id)} disabled={actionId === key.id}
+                        title="Rotate secret" className="p-1.5 text-gray-400 hover:text-[var(--color-primary)] rounded">
+                        <RefreshCw className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
                   {key.active && !expired && (
                     <button onClick={() => handleRevoke(key.id)} disabled={actionId === key.id}
                       title="Revoke" className="p-1.5 text-gray-400 hover:text-amber-500 hover:bg-amber-50 rounded">
@@ -0,0 +1,344 @@
+"use client";
+
+/**
+ * @file ApprovalChainSection.tsx
+ * @description Change order approval chain editor for the settings page. Each
+ * chain has a name, a minimum change order amount (the chain with the highest
+ * minimum not above a CO's amount is used) and an active flag. Steps are
+ * listed in order; each names its approver — a specific user or anyone with a
+ * role — an optional amount threshold below which the step is skipped, and a
+ * "parallel" box that runs it alongside the step above instead of after it.
+ * Existing chains show their stages as arrows between step chips, and can be
+ * edited, paused or deleted (with confirmation). Server actions:
+ * saveApprovalChain, deleteApprovalChain.
+ */
+
+import { useState } from "react";
+import {
+  GitBranch,
+  Plus,
+  Loader2,
+  AlertCircle,
+  X,
+  Trash2,
+  Pencil,
+  ToggleLeft,
+  ToggleRight,
+  ArrowRight,
+} from "lucide-react";
+import { saveApprovalChain, deleteApprovalChain } from "@/actions/approval-chains";
+import type { ApprovalChainSummary } from "@/actions/approval-chains";
+import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+
+interface ApprovalChainSectionProps {
+  chains: ApprovalChainSummary[];
+  /** Org users selectable as a step approver. */
+  approvers: { id: string; name: string | null; email: string; role: string }[];
+}
+
+type Role = NonNullable<ApprovalChainSummary["steps"][number]["approverRole"]>;
+
+const ROLE_LABELS: Record<Role, string> = {
+  ADMIN: "Any admin",
+  PROJECT_MANAGER: "Any project manager",
+  CONTRACTOR: "Any contractor",
+  STAKEHOLDER: "Any stakeholder (owner's rep)",
+};
+
+interface StepForm {
+  name: string;
+  /** "role:ADMIN" or "user:<id>" */
+  approver: string;
+  minAmount: string;
+  /** Run in the same stage as the previous step. */
+  parallel: boolean;
+}
+
+const EMPTY_STEP: StepForm = { name: "", approver: "role:PROJECT_MANAGER", minAmount: "", parallel: false };
+const EMPTY_FORM = { id: undefined as string | undefined, name: "", minAmount: "0", active: true, steps: [EMPTY_STEP] };
+
+const fmt = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
+
+/** Convert a saved chain back into the editable form. */
+function toForm(chain: ApprovalChainSummary): typeof EMPTY_FORM {
+  return {
+    id: chain.id,
+    name: chain.name,
+    minAmount: String(chain.minAmount),
+    active: chain.active,
+    steps: chain.steps.map((s, i) => ({
+      name: s.name,
+      approver: s.approverId ? `user:${s.approverId}` : `role:${s.approverRole}`,
+      minAmount: s.minAmount === null ? "" : String(s.minAmount),
+      parallel: i > 0 && chain.steps[i - 1].stage === s.stage,
+    })),
+  };
+}
+
+export function ApprovalChainSection({ chains, approvers }: ApprovalChainSectionProps) {
+  const confirm = useConfirmDialog();
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const updateStep = (index: number, patch: Partial<StepForm>) =>
+    setForm((f) => ({ ...f, steps: f.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+
+  const openForm = (chain?: ApprovalChainSummary) => {
+    setForm(chain ? toForm(chain) : EMPTY_FORM);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      let stage = 0;
+      await saveApprovalChain({
+        id: form.id,
+        name: form.name.trim(),
+        minAmount: Number(form.minAmount) || 0,
+        active: form.active,
+        steps: form.steps.map((s, i) => {
+          if (i === 0 || !s.parallel) stage++;
+          const [kind, value] = s.approver.split(":");
+          return {
+            stage,
+            name: s.name.trim(),
+            approverRole: kind === "role" ? (value as Role) : null,
+            approverId: kind === "user" ? value : null,
+            minAmount: s.minAmount === "" ? null : Number(s.minAmount),
+          };
+        }),
+      });
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save approval chain");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (chain: ApprovalChainSummary) => {
+    setActionId(chain.id);
+    try {
+      const { id, name, minAmount, active, steps } = chain;
+      await saveApprovalChain({ id, name, minAmount, active: !active, steps });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!await confirm("Delete this approval chain? Change orders already in review keep their steps.", { danger: true })) return;
+    setActionId(id);
+    try {
+      await deleteApprovalChain(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+          <GitBranch className="w-4 h-4 text-[var(--color-primary)]" />
+          Change Order Approvals
+          <span className="text-xs font-normal text-gray-400 normal-case">
+            ({chains.filter((c) => c.active).length} active)
+          </span>
+        </h2>
+        <button
+          onClick={() => (showForm ? setShowForm(false) : openForm())}
+          className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--color-primary)] hover:text-[var(--color-primary-dark)]"
+        >
+          <Plus className="w-4 h-4" />
+          <span className="hidden sm:inline">Add Chain</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 flex items-center gap-2 p-2.5 bg-red-50 text-red-700 text-sm rounded-lg">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Chain name *</label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                placeholder="e.g. Standard approval"
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Applies from CO amount ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.minAmount}
+                onChange={(e) => setForm((f) => ({ ...f, minAmount: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-gray-700">Steps (in order)</label>
+            {form.steps.map((step, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                <span className="col-span-1 text-xs text-gray-400 text-right">{i + 1}.</span>
+                <input
+                  value={step.name}
+                  onChange={(e) => updateStep(i, { name: e.target.value })}
+                  placeholder="Step name, e.g. Finance"
+                  required
+                  className={`${inputClass} col-span-3`}
+                />
+                <select
+                  value={step.approver}
+                  onChange={(e) => updateStep(i, { approver: e.target.value })}
+                  className={`${inputClass} col-span-3`}
+                >
+                  <optgroup label="By role">
+                    {(Object.keys(ROLE_LABELS) as Role[]).map((r) => (
+                      <option key={r} value={`role:${r}`}>{ROLE_LABELS[r]}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Specific person">
+                    {approvers.map((u) => (
+                      <option key={u.id} value={`user:${u.id}`}>{u.name || u.email}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={step.minAmount}
+                  onChange={(e) => updateStep(i, { minAmount: e.target.value })}
+                  placeholder="Only above $"
+                  title="Skip this step for change orders below this amount"
+                  className={`${inputClass} col-span-2`}
+                />
+                <label className="col-span-2 flex items-center gap-1 text-xs text-gray-600" title="Run alongside the previous step">
+                  <input
+                    type="checkbox"
+                    checked={step.parallel}
+                    disabled={i === 0}
+                    onChange={(e) => updateStep(i, { parallel: e.target.checked })}
+                    className="rounded border-gray-300 text-[var(--color-primary)]"
+                  />
+                  Parallel
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setForm((f) => ({ ...f, steps: f.steps.filter((_, j) => j !== i) }))}
+                  disabled={form.steps.length === 1}
+                  className="col-span-1 p-1 text-gray-300 hover:text-red-500 disabled:opacity-30"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm((f) => ({ ...f, steps: [...f.steps, EMPTY_STEP] }))}
+              className="text-xs text-[var(--color-primary)] hover:underline"
+            >
+              + Add step
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setShowForm(false)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium bg-[var(--color-primary)] text-white rounded-lg hover:bg-[var(--color-primary-dark)] disabled:opacity-50"
+            >
+              {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {form.id ? "Save Chain" : "Create Chain"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {chains.length === 0 && !showForm ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No approval chains — change orders are approved in one step by a PM or admin.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {chains.map((chain) => {
+            const stages = [...new Set(chain.steps.map((s) => s.stage))];
+            return (
+              <div key={chain.id} className="border border-gray-100 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium text-gray-900">{chain.name}</span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {chain.minAmount > 0 ? `COs from ${fmt(chain.minAmount)}` : "All change orders"}
+                    </span>
+                    {!chain.active && (
+                      <span className="ml-2 text-xs px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-500">Paused</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => handleToggle(chain)} disabled={actionId === chain.id} title={chain.active ? "Pause" : "Activate"} className="p-1 text-gray-400 hover:text-gray-700">
+                      {chain.active ? <ToggleRight className="w-4 h-4 text-green-600" /> : <ToggleLeft className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => openForm(chain)} title="Edit" className="p-1 text-gray-400 hover:text-gray-700">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => handleDelete(chain.id)} disabled={actionId === chain.id} title="Delete" className="p-1 text-gray-300 hover:text-red-500">
+                      {actionId === chain.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-2 flex items-center gap-1.5 flex-wrap text-xs">
+                  {stages.map((stage, i) => (
+                    <span key={stage} className="flex items-center gap-1.5">
+                      {i > 0 && <ArrowRight className="w-3 h-3 text-gray-300" />}
+                      {chain.steps.filter((s) => s.stage === stage).map((s) => (
+                        <span key={`${stage}-${s.name}`} className="px-2 py-0.5 rounded-full bg-[var(--color-primary-bg)] text-gray-700">
+                          {s.name}
+                          <span className="text-gray-400"> · {s.approverName ?? ROLE_LABELS[s.approverRole as Role]}</span>
+                          {s.minAmount !== null && <span className="text-gray-400"> · over {fmt(s.minAmount)}</span>}
+                        </span>
+                      ))}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+/**
+ * @file components/settings/CalendarFeedSection.tsx
+ * @description Settings panel for the user's subscribable calendar (.ics) feeds.
+ *
+ * A feed is created with a label and either one project or "all my projects".
+ * The feed URL contains the raw token, so — like API keys — it is shown once in
+ * an amber banner with copy and "Subscribe" (webcal://) buttons. Existing feeds
+ * list their scope, creation and last-fetched dates; they can be revoked
+ * (subscribed calendars stop updating) or deleted.
+ *
+ * Server actions: createCalendarFeed, revokeCalendarFeed, deleteCalendarFeed.
+ * i18n namespace: `settings`.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import {
+  CalendarDays,
+  Plus,
+  Loader2,
+  AlertCircle,
+  X,
+  Copy,
+  Check,
+  Trash2,
+  ToggleRight,
+  Clock,
+} from "lucide-react";
+import { createCalendarFeed, revokeCalendarFeed, deleteCalendarFeed } from "@/actions/calendar-feeds";
+import type { CalendarFeedSummary } from "@/actions/calendar-feeds";
+import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+
+interface CalendarFeedSectionProps {
+  feeds: CalendarFeedSummary[];
+  /** Projects the user is a member of. */
+  projects: { id: string; name: string }[];
+}
+
+export function CalendarFeedSection({ feeds, projects }: CalendarFeedSectionProps) {
+  const t = useTranslations("settings");
+  const confirm = useConfirmDialog();
+  const [showForm, setShowForm] = useState(false);
+  const [label, setLabel] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await createCalendarFeed({ label: label.trim(), projectId: projectId || undefined });
+      setFeedUrl(`${window.location.origin}/api/calendar/${res.rawToken}.ics`);
+      setShowForm(false);
+      setLabel("");
+      setProjectId("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("calendarFeedFailed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!await confirm(t("calendarFeedRevokeConfirm"))) return;
+    setActionId(id);
+    try { await revokeCalendarFeed(id); }
+    catch (err) { setError(err instanceof Error ? err.message : t("calendarFeedFailed")); }
+    finally { setActionId(null); }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!await confirm(t("calendarFeedDeleteConfirm"), { danger: true })) return;
+    setActionId(id);
+    try { await deleteCalendarFeed(id); }
+    catch (err) { setError(err instanceof Error ? err.message : t("calendarFeedFailed")); }
+    finally { setActionId(null); }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+          <CalendarDays className="w-4 h-4 text-[var(--color-primary)]" />
+          {t("calendarFeeds")}
+        </h2>
+        <button onClick={() => setShowForm(!showForm)}
+          className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--color-primary)] hover:text-[var(--color-primary-dark)]">
+          <Plus className="w-4 h-4" />
+          <span className="hidden sm:inline">{t("calendarFeedNew")}</span>
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">{t("calendarFeedsDescription")}</p>
+
+      {error && (
+        <div className="mb-3 flex items-center gap-2 p-2.5 bg-red-50 text-red-700 text-sm rounded-lg">
+          <AlertCircle className="w-4 h-4 shrink-0" /><span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      {feedUrl && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-xs font-semibold text-amber-800 mb-1.5">{t("calendarFeedUrlOnce")}</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white border border-amber-200 rounded px-2 py-1.5 truncate font-mono">{feedUrl}</code>
+            <button onClick={() => handleCopy(feedUrl)} className="shrink-0 p-1.5 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded">
+              {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            </button>
+            <a href={feedUrl.replace(/^https?:/, "webcal:")}
+              className="shrink-0 px-2 py-1 text-xs font-medium bg-amber-100 hover:bg-amber-200 text-amber-800 rounded">
+              {t("calendarFeedSubscribe")}
+            </a>
+          </div>
+          <button onClick={() => setFeedUrl(null)} className="text-xs text-amber-700 mt-1.5 hover:text-amber-900">{t("calendarFeedDismiss")}</button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-lg grid grid-cols-2 gap-3 text-sm">
+          <div className="col-span-2 sm:col-span-1">
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t("calendarFeedLabel")}</label>
+            <input required value={label} onChange={(e) => setLabel(e.target.value)} maxLength={200}
+              placeholder={t("calendarFeedLabelPlaceholder")}
+              className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]" />
+          </div>
+          <div className="col-span-2 sm:col-span-1">
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t("calendarFeedProject")}</label>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)}
+              className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]">
+              <option value="">{t("calendarFeedAllProjects")}</option>
+              {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2 flex gap-2 justify-end">
+            <button type="button" onClick={() => setShowForm(false)} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-200 rounded-md">{t("calendarFeedCancel")}</button>
+            <button type="submit" disabled={submitting}
+              className="px-4 py-1.5 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded-md disabled:opacity-60 inline-flex items-center gap-1.5">
+              {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}{t("calendarFeedCreate")}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {feeds.length === 0 && !showForm ? (
+        <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+          <CalendarDays className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">{t("calendarFeedsEmpty")}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {feeds.map((feed) => (
+            <div key={feed.id} className={`flex items-center gap-3 p-3 border rounded-lg ${feed.active ? "border-gray-200" : "opacity-60 border-gray-100"}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900 truncate">{feed.label}</span>
+                  <span className="text-[10px] bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded truncate">
+                    {feed.projectName ?? t("calendarFeedAllProjects")}
+                  </span>
+                  {!feed.active && <span className="text-xs bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">{t("calendarFeedRevoked")}</span>}
+                </div>
+                <div className="text-xs text-gray-400 mt-0.5 flex items-center gap-3">
+                  <span>{t("calendarFeedCreated", { date: new Date(feed.createdAt).toLocaleDateString() })}</span>
+                  {feed.lastAccessedAt && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {t("calendarFeedLastFetched", { date: new Date(feed.lastAccessedAt).toLocaleString() })}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {feed.active && (
+                  <button onClick={() => handleRevoke(feed.id)} disabled={actionId === feed.id}
+                    title={t("calendarFeedRevoke")} className="p-1.5 text-gray-400 hover:text-amber-500 hover:bg-amber-50 rounded">
+                    {actionId === feed.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ToggleRight className="w-3.5 h-3.5" />}
+                  </button>
+                )}
+                <button onClick={() => handleDelete(feed.id)} disabled={actionId === feed.id}
+                  title={t("calendarFeedDelete")} className="p-1.5 text-gray-300 hover:text-red-500">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+/**
+ * @file CostCodeSection.tsx
+ * @description Cost code library editor for the settings page. The library
+ * starts as the CSI MasterFormat divisions; codes can be renamed, added
+ * (e.g. section codes like "03 30 00", which file under their division),
+ * paused — hidden from pickers on time entries, materials, takeoffs and
+ * change order lines — or deleted while unused. Codes are grouped by
+ * division with a search box. "Restore divisions" adds back any MasterFormat
+ * division that was deleted. Server actions: saveCostCode, deleteCostCode,
+ * restoreMasterFormatDivisions.
+ */
+
+import { useState } from "react";
+import {
+  ListTree,
+  Plus,
+  Loader2,
+  AlertCircle,
+  X,
+  Trash2,
+  Pencil,
+  ToggleLeft,
+  ToggleRight,
+  RotateCcw,
+  Search,
+} from "lucide-react";
+import { saveCostCode, deleteCostCode, restoreMasterFormatDivisions } from "@/actions/cost-codes";
+import type { CostCodeOption } from "@/actions/cost-codes";
+import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+
+interface CostCodeSectionProps {
+  /** All library codes, including paused ones. */
+  costCodes: CostCodeOption[];
+}
+
+const EMPTY_FORM = { id: undefined as string | undefined, code: "", name: "", active: true };
+
+export function CostCodeSection({ costCodes }: CostCodeSectionProps) {
+  const confirm = useConfirmDialog();
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [query, setQuery] = useState("");
+
+  const q = query.trim().toLowerCase();
+  const visible = q
+    ? costCodes.filter((c) => c.code.toLowerCase().includes(q) || c.name.toLowerCase().includes(q))
+    : costCodes;
+  // Division headers are the "DD 00 00" codes; sections list beneath them
+  const divisions = [...new Set(visible.map((c) => c.division))];
+  const divisionName = (division: string) =>
+    costCodes.find((c) => c.code.replace(/\D/g, "") === `${division}0000`)?.name;
+
+  const openForm = (code?: CostCodeOption) => {
+    setForm(code ? { id: code.id, code: code.code, name: code.name, active: code.active } : EMPTY_FORM);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await saveCostCode(form);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save cost code");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (code: CostCodeOption) => {
+    setActionId(code.id);
+    try {
+      await saveCostCode({ id: code.id, code: code.code, name: code.name, active: !code.active });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleDelete = async (code: CostCodeOption) => {
+    if (!await confirm(`Delete cost code ${code.code}?`, { danger: true })) return;
+    setActionId(code.id);
+    try {
+      await deleteCostCode(code.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    setActionId("restore");
+    try {
+      await restoreMasterFormatDivisions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore divisions");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide flex items-center gap-2">
+          <ListTree className="w-4 h-4 text-[var(--color-primary)]" />
+          Cost Codes
+          <span className="text-xs font-normal text-gray-400 normal-case">
+            ({costCodes.filter((c) => c.active).length} active)
+          </span>
+        </h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleRestore}
+            disabled={actionId === "restore"}
+            title="Add back any deleted CSI MasterFormat divisions"
+            className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-800 disabled:opacity-50"
+          >
+            {actionId === "restore" ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            <span className="hidden sm:inline">Restore divisions</span>
+          </button>
+          <button
+            onClick={() => (showForm ? setShowForm(false) : openForm())}
+            className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--color-primary)] hover:text-[var(--color-primary-dark)]"
+          >
+            <Plus className="w-4 h-4" />
+            <span className="hidden sm:inline">Add Code</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 flex items-center gap-2 p-2.5 bg-red-50 text-red-700 text-sm rounded-lg">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Code *</label>
+              <input
+                value={form.code}
+                onChange={(e) => setForm((f) => ({ ...f, code: e.target.value }))}
+                placeholder="e.g. 03 30 00"
+                required
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                placeholder="e.g. Cast-in-Place Concrete"
+                required
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setShowForm(false)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium bg-[var(--color-primary)] text-white rounded-lg hover:bg-[var(--color-primary-dark)] disabled:opacity-50"
+            >
+              {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {form.id ? "Save Code" : "Add Code"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="relative mb-3">
+        <Search className="w-3.5 h-3.5 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search codes"
+          className={`${inputClass} pl-8`}
+        />
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No cost codes match.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {divisions.map((division) => (
+            <div key={division}>
+              <div className="px-3 py-1.5 bg-gray-50 text-xs font-medium text-gray-500 sticky top-0">
+                Division {division}
+                {divisionName(division) && <span className="font-normal"> · {divisionName(division)}</span>}
+              </div>
+              {visible
+                .filter((c) => c.division === division)
+                .map((code) => (
+                  <div key={code.id} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                    <div className="min-w-0 text-sm">
+                      <span className="font-mono text-xs text-gray-500 mr-2">{code.code}</span>
+                      <span className={code.active ? "text-gray-900" : "text-gray-400"}>{code.name}</span>
+                      {!code.active && (
+                        <span className="ml-2 text-xs px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-500">Paused</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button onClick={() => handleToggle(code)} disabled={actionId === code.id} title={code.active ? "Pause" : "Activate"} className="p-1 text-gray-400 hover:text-gray-700">
+                        {code.active ? <ToggleRight className="w-4 h-4 text-green-600" /> : <ToggleLeft className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => openForm(code)} title="Edit" className="p-1 text-gray-400 hover:text-gray-700">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDelete(code)} disabled={actionId === code.id} title="Delete" className="p-1 text-gray-300 hover:text-red-500">
+                        {actionId === code.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
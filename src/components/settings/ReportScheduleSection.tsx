@@ -8,6 +8,9 @@
  * format. Recipients are entered as email tag pills via Enter or an Add button; at least
  * one recipient is required. Existing schedules display a human-readable summary from
  * describeSchedule(), a last-sent date, and an active/paused badge with a toggle.
+ * Schedules pick an attachment format (XLSX workbook or CSV files) and optionally
+ * a subset of projects. Each schedule row shows the outcome of its latest send
+ * and expands to its delivery history (per-recipient SENT/FAILED with the error).
  * Deletes require confirmation. Server actions: createReportSchedule,
  * toggleReportSchedule, deleteReportSchedule.
  */
@@ -24,41 +27,67 @@ import {
   ToggleRight,
   Clock,
   Calendar,
+  CheckCircle2,
+  XCircle,
+  ChevronDown,
+  ChevronUp,
 } from "lucide-react";
 import {
   createReportSchedule,
   toggleReportSchedule,
   deleteReportSchedule,
 } from "@/actions/report-schedules";
-import type { ReportSchedule, ReportFrequency } from "@/lib/db-types";
+import type { ReportDeliveryEntry } from "@/actions/report-schedules";
+import type { ReportSchedule, ReportFrequency, ReportFormat } from "@/lib/db-types";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
 
 interface ReportScheduleSectionProps {
   schedules: ReportSchedule[];
+  /** Recent deliveries across all schedules, newest first. */
+  deliveries: ReportDeliveryEntry[];
+  /** Org projects selectable as the report scope. */
+  projects: { id: string; name: string }[];
 }
 
+/** Deliveries listed when a schedule's history is expanded. */
+const HISTORY_LIMIT = 10;
+
 const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
+const EMPTY_FORM = {
+  frequency: "WEEKLY" as ReportFrequency,
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  sendHour: 8,
+  recipients: [] as string[],
+  format: "XLSX" as ReportFormat,
+  includeProjects: [] as string[],
+};
+
 const HOURS = Array.from({ length: 24 }, (_, i) => {
   const h = i % 12 === 0 ? 12 : i % 12;
   const ampm = i < 12 ? "AM" : "PM";
   return { value: i, label: `${h}:00 ${ampm} UTC` };
 });
 
-export function ReportScheduleSection({ schedules }: ReportScheduleSectionProps) {
+export function ReportScheduleSection({ schedules, deliveries, projects }: ReportScheduleSectionProps) {
   const confirm = useConfirmDialog();
   const [showForm, setShowForm] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [actionId, setActionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [recipientInput, setRecipientInput] = useState("");
-  const [form, setForm] = useState({
-    frequency: "WEEKLY" as ReportFrequency,
-    dayOfWeek: 1,
-    dayOfMonth: 1,
-    sendHour: 8,
-    recipients: [] as string[],
-  });
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const deliveriesFor = (id: string) => deliveries.filter((d) => d.scheduleId === id);
+
+  const toggleProject = (id: string) =>
+    setForm((f) => ({
+      ...f,
+      includeProjects: f.includeProjects.includes(id)
+        ? f.includeProjects.filter((p) => p !== id)
+        : [...f.includeProjects, id],
+    }));
 
   const addRecipient = () => {
     const email = recipientInput.trim().toLowerCase();
@@ -84,8 +113,10 @@ export function ReportScheduleSection({ schedules }: ReportScheduleSectionProps)
         dayOfMonth: form.frequency === "MONTHLY" ? form.dayOfMonth : undefined,
         sendHour: form.sendHour,
         recipients: form.recipients,
+        format: form.format,
+        includeProjects: form.includeProjects,
       });
-      setForm({ frequency: "WEEKLY", dayOfWeek: 1, dayOfMonth: 1, sendHour: 8, recipients: [] });
+      setForm(EMPTY_FORM);
       setShowForm(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create schedule");
@@ -200,8 +231,34 @@ export function ReportScheduleSection({ schedules }: ReportScheduleSectionProps)
                 {HOURS.map((h) => <option key={h.value} value={h.value}>{h.label}</option>)}
               </select>
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Attachment</label>
+              <select
+                value={form.format}
+                onChange={(e) => setForm((f) => ({ ...f, format: e.target.value as ReportFormat }))}
+                className="w-full border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-[var(--color-primary)]"
+              >
+                <option value="XLSX">Excel workbook (.xlsx)</option>
+                <option value="CSV">CSV files</option>
+              </select>
+            </div>
           </div>
 
+          {projects.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Projects <span className="font-normal text-gray-400">(none selected = all projects)</span></label>
+              <div className="max-h-32 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {projects.map((p) => (
+                  <label key={p.id} className="flex items-center gap-1.5 text-xs cursor-pointer">
+                    <input type="checkbox" checked={form.includeProjects.includes(p.id)} onChange={() => toggleProject(p.id)}
+                      className="rounded border-gray-300 text-[var(--color-primary)]" />
+                    <span className="truncate">{p.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-xs font-medium text-gray-700 mb-1">Recipients</label>
             <div className="flex gap-2">
@@ -254,49 +311,84 @@ export function ReportScheduleSection({ schedules }: ReportScheduleSectionProps)
         </div>
       ) : (
         <div className="space-y-2">
-          {schedules.map((s) => (
-            <div key={s.id} className={`flex items-center gap-3 p-3 border rounded-lg ${!s.active ? "opacity-60 border-gray-100" : "border-gray-200"}`}>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2">
-                  <Calendar className="w-3.5 h-3.5 text-gray-400 shrink-0" />
-                  <span className="text-sm font-medium text-gray-900">{describeSchedule(s)}</span>
-                  {!s.active && <span className="text-xs bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">Paused</span>}
-                </div>
-                <div className="text-xs text-gray-400 mt-0.5 flex items-center gap-3">
-                  <span>{s.recipients.length} recipient{s.recipients.length !== 1 ? "s" : ""}: {s.recipients.slice(0, 2).join(", ")}{s.recipients.length > 2 ? ` +${s.recipients.length - 2}` : ""}</span>
-                  {s.lastSentAt && (
-                    <span className="flex items-center gap-1">
-                      <Clock className="w-3 h-3" />
-                      Last sent {new Date(s.lastSentAt).toLocaleDateString()}
-                    </span>
-                  )}
+          {schedules.map((s) => {
+            const history = deliveriesFor(s.id);
+            const latest = history[0];
+            const open = historyId === s.id;
+            return (
+              <div key={s.id} className={`border rounded-lg ${!s.active ? "opacity-60 border-gray-100" : "border-gray-200"}`}>
+                <div className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Calendar className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+                      <span className="text-sm font-medium text-gray-900">{describeSchedule(s)}</span>
+                      <span className="text-[10px] font-mono bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{s.format}</span>
+                      {s.includeProjects.length > 0 && (
+                        <span className="text-[10px] bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">
+                          {s.includeProjects.length} project{s.includeProjects.length === 1 ? "" : "s"}
+                        </span>
+                      )}
+                      {!s.active && <span className="text-xs bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">Paused</span>}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-0.5 flex items-center gap-3">
+                      <span>{s.recipients.length} recipient{s.recipients.length !== 1 ? "s" : ""}: {s.recipients.slice(0, 2).join(", ")}{s.recipients.length > 2 ? ` +${s.recipients.length - 2}` : ""}</span>
+                      {s.lastSentAt && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          Last sent {new Date(s.lastSentAt).toLocaleDateString()}
+                        </span>
+                      )}
+                      {latest && (
+                        <button onClick={() => setHistoryId(open ? null : s.id)}
+                          className={`flex items-center gap-1 ${latest.status === "FAILED" ? "text-red-500" : "text-green-600"} hover:underline`}>
+                          {latest.status === "FAILED" ? <XCircle className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+                          History
+                          {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => handleToggle(s)}
+                      disabled={actionId === s.id}
+                      title={s.active ? "Pause" : "Resume"}
+                      className="p-1.5 text-gray-400 hover:text-[var(--color-primary)]"
+                    >
+                      {actionId === s.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : s.active ? (
+                        <ToggleRight className="w-4 h-4 text-green-500" />
+                      ) : (
+                        <ToggleLeft className="w-4 h-4" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(s.id)}
+                      disabled={actionId === s.id}
+                      className="p-1.5 text-gray-300 hover:text-red-500"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
                 </div>
+                {open && (
+                  <div className="border-t border-gray-100 px-3 py-2 space-y-1">
+                    {history.slice(0, HISTORY_LIMIT).map((d) => (
+                      <div key={d.id} className="flex items-start gap-2 text-xs">
+                        {d.status === "FAILED"
+                          ? <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0 mt-px" />
+                          : <CheckCircle2 className="w-3.5 h-3.5 text-green-500 shrink-0 mt-px" />}
+                        <span className="text-gray-500 shrink-0">{new Date(d.createdAt).toLocaleString()}</span>
+                        <span className="text-gray-700 truncate">{d.recipient}</span>
+                        {d.error && <span className="text-red-500 truncate" title={d.error}>{d.error}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-              <div className="flex items-center gap-1 shrink-0">
-                <button
-                  onClick={() => handleToggle(s)}
-                  disabled={actionId === s.id}
-                  title={s.active ? "Pause" : "Resume"}
-                  className="p-1.5 text-gray-400 hover:text-[var(--color-primary)]"
-                >
-                  {actionId === s.id ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : s.active ? (
-                    <ToggleRight className="w-4 h-4 text-green-500" />
-                  ) : (
-                    <ToggleLeft className="w-4 h-4" />
-                  )}
-                </button>
-                <button
-                  onClick={() => handleDelete(s.id)}
-                  disabled={actionId === s.id}
-                  className="p-1.5 text-gray-300 hover:text-red-500"
-                >
-                  <Trash2 className="w-3.5 h-3.5" />
-                </button>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
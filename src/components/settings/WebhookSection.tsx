@@ -7,8 +7,10 @@
  * @/lib/webhook-events. Existing webhooks display the URL in monospace, up to three
  * event chips (with "+N more" overflow), last-triggered date, and an HTTP status icon
  * (CheckCircle2 green for 2xx responses, XCircle red otherwise). Each webhook can be
- * toggled active/paused or deleted (with confirmation). Server actions: createWebhook,
- * toggleWebhook, deleteWebhook.
+ * toggled active/paused or deleted (with confirmation). A "Deliveries" toggle lazily loads
+ * the 20 most recent outbox deliveries with status, attempt count and per-attempt log;
+ * any delivery can be replayed. Server actions: createWebhook, toggleWebhook,
+ * deleteWebhook, getWebhookDeliveries, replayWebhookDelivery.
  */
 
 import { useState } from "react";
@@ -24,8 +26,18 @@ import {
   Clock,
   CheckCircle2,
   XCircle,
+  History,
+  RotateCcw,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
-import { createWebhook, toggleWebhook, deleteWebhook } from "@/actions/webhooks";
+import {
+  createWebhook,
+  toggleWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
+} from "@/actions/webhooks";
 import { WEBHOOK_EVENTS } from "@/lib/webhook-events";
 import type { Webhook } from "@/lib/db-types";
 import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
@@ -34,6 +46,14 @@ interface WebhookSectionProps {
   webhooks: Webhook[];
 }
 
+type Delivery = Awaited<ReturnType<typeof getWebhookDeliveries>>[number];
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  PENDING: "bg-amber-50 text-amber-700",
+  DELIVERED: "bg-green-50 text-green-700",
+  FAILED: "bg-red-50 text-red-700",
+};
+
 export function WebhookSection({ webhooks }: WebhookSectionProps) {
   const confirm = useConfirmDialog();
   const [showForm, setShowForm] = useState(false);
@@ -41,6 +61,38 @@ export function WebhookSection({ webhooks }: WebhookSectionProps) {
   const [actionId, setActionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [form, setForm] = useState({ name: "", url: "", events: [] as string[] });
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loadingLog, setLoadingLog] = useState(false);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const loadDeliveries = async (webhookId: string) => {
+    setLoadingLog(true);
+    try { setDeliveries(await getWebhookDeliveries(webhookId)); }
+    catch (err) { setError(err instanceof Error ? err.message : "Failed to load deliveries"); }
+    finally { setLoadingLog(false); }
+  };
+
+  const handleToggleLog = async (webhookId: string) => {
+    if (openLogId === webhookId) { setOpenLogId(null); return; }
+    setOpenLogId(webhookId);
+    setDeliveries([]);
+    setExpandedDelivery(null);
+    await loadDeliveries(webhookId);
+  };
+
+  const handleReplay = async (webhookId: string, deliveryId: string) => {
+    setReplayingId(deliveryId);
+    try {
+      await replayWebhookDelivery(deliveryId);
+      await loadDeliveries(webhookId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Replay failed");
+    } finally {
+      setReplayingId(null);
+    }
+  };
 
   const toggleEvent = (ev: string) => {
     setForm((f) => ({
@@ -180,6 +232,10 @@ export function WebhookSection({ webhooks }: WebhookSectionProps) {
                   )}
                 </div>
                 <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => handleToggleLog(wh.id)} title="Deliveries"
+                    className={`p-1.5 hover:text-[var(--color-primary)] ${openLogId === wh.id ? "text-[var(--color-primary)]" : "text-gray-400"}`}>
+                    <History className="w-4 h-4" />
+                  </button>
                   <button onClick={() => handleToggle(wh)} disabled={actionId === wh.id}
                     title={wh.active ? "Pause" : "Resume"}
                     className="p-1.5 text-gray-400 hover:text-[var(--color-primary)]">
@@ -192,6 +248,58 @@ export function WebhookSection({ webhooks }: WebhookSectionProps) {
                   </button>
                 </div>
               </div>
+
+              {openLogId === wh.id && (
+                <div className="mt-3 border-t border-gray-100 pt-2">
+                  {loadingLog ? (
+                    <div className="flex justify-center py-3"><Loader2 className="w-4 h-4 animate-spin text-gray-400" /></div>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-xs text-gray-400 py-2 text-center">No deliveries yet</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {deliveries.map((d) => (
+                        <div key={d.id} className="text-xs">
+                          <div className="flex items-center gap-2 py-1">
+                            <button onClick={() => setExpandedDelivery((v) => v === d.id ? null : d.id)} className="text-gray-400 hover:text-gray-600">
+                              {expandedDelivery === d.id ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                            </button>
+                            <span className="font-mono text-gray-700 truncate">{d.event}</span>
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${DELIVERY_STATUS_STYLES[d.status] ?? ""}`}>{d.status}</span>
+                            {d.replayOfId && <span className="text-[10px] text-gray-400">replay</span>}
+                            <span className="text-gray-400 ml-auto shrink-0">
+                              {d.attemptCount} attempt{d.attemptCount === 1 ? "" : "s"}
+                              {d.lastStatusCode != null && ` · ${d.lastStatusCode}`}
+                              {" · "}{new Date(d.createdAt).toLocaleString()}
+                            </span>
+                            <button onClick={() => handleReplay(wh.id, d.id)} disabled={replayingId === d.id}
+                              title="Replay delivery" className="p-1 text-gray-400 hover:text-[var(--color-primary)] shrink-0">
+                              {replayingId === d.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                            </button>
+                          </div>
+                          {expandedDelivery === d.id && (
+                            <div className="ml-5 mb-2 space-y-1">
+                              {d.status === "PENDING" && d.attemptCount > 0 && (
+                                <p className="text-gray-400">Next retry {new Date(d.nextAttemptAt).toLocaleString()}</p>
+                              )}
+                              {d.attempts.map((a) => (
+                                <div key={a.id} className="flex items-center gap-2 text-gray-500">
+                                  <span className="w-6 text-gray-400">#{a.attemptNumber}</span>
+                                  <span className={a.statusCode && a.statusCode < 300 ? "text-green-600" : "text-red-600"}>
+                                    {a.statusCode ?? "—"}
+                                  </span>
+                                  <span>{a.durationMs} ms</span>
+                                  {a.error && <span className="text-red-500 truncate">{a.error}</span>}
+                                  <span className="ml-auto text-gray-400">{new Date(a.createdAt).toLocaleTimeString()}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
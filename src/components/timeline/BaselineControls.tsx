@@ -0,0 +1,152 @@
+"use client";
+
+/**
+ * @file components/timeline/BaselineControls.tsx
+ * @description Gantt toolbar controls for schedule baselines.
+ *
+ * A select picks which saved baseline (if any) to overlay; choosing one loads
+ * its phase snapshots via `getScheduleBaselinePhases` and hands them to
+ * `GanttChart` through `onSelect`. Managers also get a "Save baseline" button
+ * (inline name field → `createScheduleBaseline`) and a delete button for the
+ * selected baseline (`deleteScheduleBaseline`, behind a confirm dialog).
+ *
+ * Server actions: `createScheduleBaseline`, `deleteScheduleBaseline`,
+ * `getScheduleBaselinePhases` (baselines).
+ * i18n namespace: `gantt`.
+ */
+
+import { useState } from "react";
+import { Bookmark, Loader2, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import {
+  createScheduleBaseline,
+  deleteScheduleBaseline,
+  getScheduleBaselinePhases,
+  type BaselinePhaseSnapshot,
+  type BaselineSummary,
+} from "@/actions/baselines";
+import { useConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { fmtShort } from "@/lib/utils";
+
+interface BaselineControlsProps {
+  projectId: string;
+  baselines: BaselineSummary[];
+  canManage: boolean;
+  onSelect: (phases: BaselinePhaseSnapshot[] | null) => void;
+}
+
+export function BaselineControls({ projectId, baselines: initial, canManage, onSelect }: BaselineControlsProps) {
+  const t = useTranslations("gantt");
+  const confirm = useConfirmDialog();
+  const [baselines, setBaselines] = useState(initial);
+  const [selectedId, setSelectedId] = useState("");
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function select(id: string) {
+    setSelectedId(id);
+    if (!id) {
+      onSelect(null);
+      return;
+    }
+    setBusy(true);
+    try {
+      onSelect(await getScheduleBaselinePhases(id));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!name.trim()) return;
+    setBusy(true);
+    try {
+      const created = await createScheduleBaseline({ projectId, name });
+      setBaselines((prev) => [created, ...prev]);
+      setNaming(false);
+      setName("");
+      setSelectedId(created.id);
+      onSelect(await getScheduleBaselinePhases(created.id));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove() {
+    const baseline = baselines.find((b) => b.id === selectedId);
+    if (!baseline) return;
+    if (!(await confirm(t("baselineDeleteConfirm", { name: baseline.name }), { danger: true }))) return;
+    setBusy(true);
+    try {
+      await deleteScheduleBaseline(baseline.id);
+      setBaselines((prev) => prev.filter((b) => b.id !== baseline.id));
+    } finally {
+      setBusy(false);
+    }
+    await select("");
+  }
+
+  if (naming) {
+    return (
+      <span className="flex items-center gap-1">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save();
+            if (e.key === "Escape") setNaming(false);
+          }}
+          placeholder={t("baselineNamePlaceholder")}
+          maxLength={100}
+          className="px-2 py-0.5 text-xs border border-gray-300 rounded w-40"
+        />
+        <button
+          onClick={save}
+          disabled={busy || !name.trim()}
+          className="px-2 py-0.5 text-xs font-medium text-white bg-[var(--color-primary)] rounded disabled:opacity-50"
+        >
+          {t("baselineSave")}
+        </button>
+        <button onClick={() => setNaming(false)} className="px-2 py-0.5 text-xs text-gray-500 hover:text-gray-700">
+          {t("cascadeCancel")}
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1.5">
+      <Bookmark className="w-3.5 h-3.5 text-gray-400" />
+      <select
+        value={selectedId}
+        onChange={(e) => select(e.target.value)}
+        disabled={busy}
+        className="text-xs border border-gray-300 rounded px-1.5 py-0.5 bg-white max-w-[180px]"
+        aria-label={t("baseline")}
+      >
+        <option value="">{t("baselineNone")}</option>
+        {baselines.map((b) => (
+          <option key={b.id} value={b.id}>
+            {b.name} · {fmtShort(b.createdAt)}
+          </option>
+        ))}
+      </select>
+      {busy && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+      {canManage && selectedId && (
+        <button onClick={remove} disabled={busy} className="p-0.5 text-gray-400 hover:text-red-600" title={t("baselineDelete")}>
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {canManage && (
+        <button
+          onClick={() => setNaming(true)}
+          className="px-2 py-0.5 text-xs font-medium rounded border border-gray-300 text-gray-600 hover:bg-gray-100"
+        >
+          {t("baselineSaveNew")}
+        </button>
+      )}
+    </span>
+  );
+}
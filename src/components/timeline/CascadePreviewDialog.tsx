@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * @file components/timeline/CascadePreviewDialog.tsx
+ * @description Modal listing the dependent phases a schedule change would push out.
+ *
+ * Shown before a cascade is committed (Gantt drag with cascade on, or a late
+ * status transition from `PhaseHeader`). Each row shows the phase, its current
+ * and proposed dates and the shift in days. The user can apply the cascade,
+ * save only the changed phase, or cancel.
+ *
+ * The shifts come from `previewScheduleCascade` (phases); the server recomputes
+ * them when the change is applied.
+ * i18n namespace: `gantt`.
+ */
+
+import { ArrowRight, CalendarClock, Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import type { CascadeShift } from "@/lib/schedule-cascade";
+import { fmtShort } from "@/lib/utils";
+
+interface CascadePreviewDialogProps {
+  shifts: CascadeShift[];
+  busy?: boolean;
+  onApply: () => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+export function CascadePreviewDialog({ shifts, busy, onApply, onSkip, onCancel }: CascadePreviewDialogProps) {
+  const t = useTranslations("gantt");
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={busy ? undefined : onCancel} />
+      <div className="relative bg-white rounded-xl shadow-2xl w-full max-w-lg mx-auto p-6">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="shrink-0 w-9 h-9 rounded-full flex items-center justify-center bg-amber-50">
+            <CalendarClock className="w-5 h-5 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900">{t("cascadeTitle")}</h2>
+            <p className="mt-1 text-sm text-gray-500 leading-snug">
+              {t("cascadeDescription", { count: shifts.length })}
+            </p>
+          </div>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto border border-gray-100 rounded-lg divide-y divide-gray-100">
+          {shifts.map((s) => (
+            <div key={s.phaseId} className="flex items-center gap-3 px-3 py-2 text-xs">
+              <span className="flex-1 font-medium text-gray-900 truncate">{s.name}</span>
+              <span className="text-gray-400">{fmtShort(s.estStart)} – {fmtShort(s.estEnd)}</span>
+              <ArrowRight className="w-3 h-3 text-gray-300 shrink-0" />
+              <span className="text-gray-700">{fmtShort(s.newEstStart)} – {fmtShort(s.newEstEnd)}</span>
+              <span className="w-12 text-right font-semibold text-amber-600">+{s.deltaDays}d</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 mt-5">
+          <button onClick={onCancel} disabled={busy}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+            {t("cascadeCancel")}
+          </button>
+          <button onClick={onSkip} disabled={busy}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+            {t("cascadeOnlyThis")}
+          </button>
+          <button onClick={onApply} disabled={busy}
+            className="px-4 py-2 text-sm font-medium text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] rounded-lg disabled:opacity-50 inline-flex items-center gap-1.5">
+            {busy && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {t("cascadeApply", { count: shifts.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
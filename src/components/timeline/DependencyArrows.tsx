@@ -0,0 +1,158 @@
+"use client";
+
+/**
+ * @file components/timeline/DependencyArrows.tsx
+ * @description SVG overlay drawing dependency links between Gantt bars.
+ *
+ * Rendered inside the Gantt's phase-rows wrapper (which must be `relative`).
+ * Row and track geometry is measured from the DOM — each `PhaseRow` marks its
+ * root with `data-phase-row` and its bar track with `data-track` — and
+ * re-measured by a ResizeObserver when the wrapper changes size (zoom, window
+ * resize, rows added). Horizontal positions come from the same
+ * `tlStart`/`totalDays` coordinate system `PhaseRow` uses, so arrows follow
+ * bars during a drag without re-measuring.
+ *
+ * Each link leaves the predecessor's finish (FS/FF) or start (SS/SF) and enters
+ * the successor's start (FS/SS) or finish (FF/SF). Link types are drawn with
+ * distinct colours and dash patterns; see `LINK_STYLES`.
+ */
+
+import { useLayoutEffect, useState, type RefObject } from "react";
+import { differenceInDays } from "date-fns";
+import type { DependencyLinkType } from "@/lib/critical-path";
+
+export interface GanttDependency {
+  id: string;
+  phaseId: string;
+  dependsOnId: string;
+  type: DependencyLinkType;
+}
+
+/** Stroke colour and dash pattern per link type (also used by the legend). */
+export const LINK_STYLES: Record<DependencyLinkType, { stroke: string; dash?: string }> = {
+  FS: { stroke: "#6b7280" },
+  SS: { stroke: "#3b82f6", dash: "6 3" },
+  FF: { stroke: "#8b5cf6", dash: "2 3" },
+  SF: { stroke: "#f59e0b", dash: "8 3 2 3" },
+};
+
+interface Geometry {
+  width: number;
+  height: number;
+  trackLeft: number;
+  trackWidth: number;
+  rows: Record<string, { top: number; height: number }>;
+}
+
+interface ArrowPhase {
+  id: string;
+  isMilestone: boolean;
+  estStart: Date;
+  estEnd: Date;
+}
+
+interface DependencyArrowsProps {
+  containerRef: RefObject<HTMLDivElement | null>;
+  phases: ArrowPhase[];
+  dependencies: GanttDependency[];
+  tlStart: Date;
+  totalDays: number;
+}
+
+// Vertical centre of the estimated bar within a row (top-[8px] + h-6 / 2)
+const BAR_CENTER_Y = 20;
+// Horizontal run out of the anchor before turning
+const STUB_PX = 10;
+
+export function DependencyArrows({ containerRef, phases, dependencies, tlStart, totalDays }: DependencyArrowsProps) {
+  const [geo, setGeo] = useState<Geometry | null>(null);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    function measure() {
+      if (!el) return;
+      const rows: Geometry["rows"] = {};
+      let trackLeft = 0;
+      let trackWidth = 0;
+      el.querySelectorAll<HTMLElement>("[data-phase-row]").forEach((row) => {
+        rows[row.dataset.phaseRow!] = { top: row.offsetTop, height: row.offsetHeight };
+        const track = row.querySelector<HTMLElement>("[data-track]");
+        if (track && !trackWidth) {
+          trackLeft = track.offsetLeft;
+          trackWidth = track.offsetWidth;
+        }
+      });
+      setGeo({ width: el.offsetWidth, height: el.offsetHeight, trackLeft, trackWidth, rows });
+    }
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [containerRef, phases.length]);
+
+  if (!geo || !geo.trackWidth || dependencies.length === 0) return null;
+
+  const byId = new Map(phases.map((p) => [p.id, p]));
+  const x = (d: Date) => geo.trackLeft + (differenceInDays(d, tlStart) / totalDays) * geo.trackWidth;
+  const y = (p: ArrowPhase) => {
+    const row = geo.rows[p.id];
+    return p.isMilestone ? row.top + row.height / 2 : row.top + BAR_CENTER_Y;
+  };
+
+  return (
+    <svg
+      className="absolute inset-0 pointer-events-none z-30"
+      width={geo.width}
+      height={geo.height}
+      aria-hidden="true"
+    >
+      <defs>
+        {(Object.keys(LINK_STYLES) as DependencyLinkType[]).map((type) => (
+          <marker
+            key={type}
+            id={`dep-arrow-${type}`}
+            viewBox="0 0 8 8"
+            refX="7"
+            refY="4"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto-start-reverse"
+          >
+            <path d="M0,0 L8,4 L0,8 z" fill={LINK_STYLES[type].stroke} />
+          </marker>
+        ))}
+      </defs>
+      {dependencies.map((dep) => {
+        const pred = byId.get(dep.dependsOnId);
+        const succ = byId.get(dep.phaseId);
+        if (!pred || !succ || !geo.rows[pred.id] || !geo.rows[succ.id]) return null;
+
+        const fromFinish = dep.type === "FS" || dep.type === "FF";
+        const toStart = dep.type === "FS" || dep.type === "SS";
+        const x1 = x(fromFinish ? pred.estEnd : pred.estStart);
+        const x2 = x(toStart ? succ.estStart : succ.estEnd);
+        const y1 = y(pred);
+        const y2 = y(succ);
+        // Leave away from the bar, enter from the outside of the target edge
+        const out = x1 + (fromFinish ? STUB_PX : -STUB_PX);
+        const entry = x2 + (toStart ? -STUB_PX : STUB_PX);
+        const style = LINK_STYLES[dep.type];
+
+        return (
+          <path
+            key={dep.id}
+            d={`M${x1},${y1} H${out} V${(y1 + y2) / 2} H${entry} V${y2} H${x2}`}
+            fill="none"
+            stroke={style.stroke}
+            strokeWidth={1.5}
+            strokeDasharray={style.dash}
+            markerEnd={`url(#dep-arrow-${dep.type})`}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -18,21 +18,40 @@
  *   - Date changes from `PhaseRow` are applied optimistically to local state
  *     and then debounced (500 ms) before calling `updatePhaseDates` to avoid
  *     a server round-trip on every pointer move.
+ *   - With "Cascade" switched on, a saved drag first asks `previewScheduleCascade`
+ *     which dependents would move; if any, `CascadePreviewDialog` shows the diff
+ *     and the user applies it (`updatePhaseDates` with `cascade: true`), saves only
+ *     the dragged phase, or cancels (the bar snaps back to its pre-drag dates).
+ *   - `schedule` carries CPM results computed server-side (lib/critical-path.ts).
+ *     Critical phases get an orange outline; every row shows its total float.
+ *     The overlay reflects the dates at page load and refreshes on navigation.
+ *   - `BaselineControls` picks a saved schedule baseline; its phase snapshots
+ *     render as dashed ghost bars behind each row with start/finish variance
+ *     in days. Baseline dates widen the timeline range so ghosts stay visible.
+ *   - `dependencies` are drawn as arrows by `DependencyArrows`, one line style
+ *     per link type (FS/SS/FF/SF), following bars as they are dragged.
  *
- * Server actions: `updatePhaseDates` (phases).
+ * Server actions: `updatePhaseDates`, `previewScheduleCascade` (phases).
  * i18n namespace: `gantt`.
  */
 
 import { useState, useRef, useCallback } from "react";
+import { useRouter } from "next/navigation";
 import { format, addMonths, startOfMonth, differenceInDays } from "date-fns";
 import { ZoomIn, ZoomOut } from "lucide-react";
 import { PhaseRow } from "./PhaseRow";
-import { updatePhaseDates } from "@/actions/phases";
+import { CascadePreviewDialog } from "./CascadePreviewDialog";
+import { BaselineControls } from "./BaselineControls";
+import { DependencyArrows, LINK_STYLES, type GanttDependency } from "./DependencyArrows";
+import { updatePhaseDates, previewScheduleCascade } from "@/actions/phases";
+import type { CascadeShift } from "@/lib/schedule-cascade";
+import type { BaselinePhaseSnapshot, BaselineSummary } from "@/actions/baselines";
 import { cn } from "@/lib/utils";
 import { useTranslations } from "next-intl";
 
 const ZOOM_STEPS = [0.5, 0.75, 1, 1.5, 2, 3];
 const BASE_WIDTH_PX = 1000;
+const LINK_TYPES = ["FS", "SS", "FF", "SF"] as const;
 
 interface Phase {
   id: string;
@@ -45,6 +64,8 @@ interface Phase {
   estEnd: Date;
   worstStart?: Date | null;
   worstEnd?: Date | null;
+  actualStart?: Date | null;
+  actualEnd?: Date | null;
   sortOrder: number;
   createdAt?: Date;
   updatedAt?: Date;
@@ -62,10 +83,19 @@ type PhaseWithAssignments = Phase & {
   _count?: { documents: number; photos: number };
 };
 
+type DatesPayload = Parameters<typeof updatePhaseDates>[0];
+
+/** Per-phase CPM summary keyed by phase ID. */
+export type GanttSchedule = Record<string, { totalFloat: number; critical: boolean }>;
+
 interface GanttChartProps {
   projectId: string;
   phases: PhaseWithAssignments[];
   planApproval: Date;
+  schedule?: GanttSchedule;
+  dependencies?: GanttDependency[];
+  baselines?: BaselineSummary[];
+  canManage?: boolean;
 }
 
 /**
@@ -74,12 +104,32 @@ interface GanttChartProps {
  * @param projectId     - Used to build per-phase detail links inside `PhaseRow`.
  * @param phases        - Array of phases with assignments; displayed sorted by `sortOrder`.
  * @param planApproval  - Project plan approval date (available for future milestone marker).
+ * @param schedule      - Optional CPM float/critical flags per phase (omitted if the graph is cyclic).
+ * @param dependencies  - Dependency edges to draw as arrows between bars.
+ * @param baselines     - Saved schedule baselines offered in the overlay picker.
+ * @param canManage     - Whether the user may save and delete baselines.
  */
-export function GanttChart({ projectId, phases: initialPhases, planApproval }: GanttChartProps) {
+export function GanttChart({
+  projectId,
+  phases: initialPhases,
+  planApproval,
+  schedule,
+  dependencies = [],
+  baselines = [],
+  canManage = false,
+}: GanttChartProps) {
   const t = useTranslations("gantt");
   const [phases, setPhases] = useState(initialPhases);
   const [zoomIdx, setZoomIdx] = useState(2); // default = 1x (index 2 in ZOOM_STEPS)
+  const [cascade, setCascade] = useState(false);
+  const [pending, setPending] = useState<{ payload: DatesPayload; shifts: CascadeShift[] } | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [baseline, setBaseline] = useState<Map<string, BaselinePhaseSnapshot> | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  // Dates each phase had before the current unsaved drag, for cancelling a cascade
+  const dragOrigin = useRef(new Map<string, PhaseWithAssignments>());
+  const router = useRouter();
 
   const zoomLevel = ZOOM_STEPS[zoomIdx];
   const chartWidth = Math.round(BASE_WIDTH_PX * zoomLevel);
@@ -90,7 +140,7 @@ export function GanttChart({ projectId, phases: initialPhases, planApproval }: G
     p.estEnd,
     ...(p.worstStart ? [p.worstStart] : []),
     ...(p.worstEnd ? [p.worstEnd] : []),
-  ]);
+  ]).concat(baseline ? [...baseline.values()].flatMap((b) => [b.estStart, b.estEnd]) : []);
   const minDate = new Date(
     Math.min(...allDates.map((d) => d.getTime())) - 14 * 86400000
   );
@@ -127,6 +177,11 @@ const saveTimeout = useRef<NodeJS.Timeout | undefined>(undefined);
       worstStart?: Date | null;
       worstEnd?: Date | null;
     }) => {
+      if (!dragOrigin.current.has(phaseId)) {
+        const origin = phases.find((p) => p.id === phaseId);
+        if (origin) dragOrigin.current.set(phaseId, origin);
+      }
+
       // Optimistic update
       setPhases((prev) =>
         prev.map((p) =>
@@ -148,7 +203,7 @@ const saveTimeout = useRef<NodeJS.Timeout | undefined>(undefined);
         const phase = phases.find((p) => p.id === phaseId);
         if (!phase) return;
         const merged = { ...phase, ...updates };
-        await updatePhaseDates({
+        const payload: DatesPayload = {
           phaseId,
           estStart: (merged.estStart as Date).toISOString(),
           estEnd: (merged.estEnd as Date).toISOString(),
@@ -158,12 +213,72 @@ const saveTimeout = useRef<NodeJS.Timeout | undefined>(undefined);
           worstEnd: merged.worstEnd
             ? (merged.worstEnd as Date).toISOString()
             : null,
-        });
+        };
+        if (cascade) {
+          const shifts = await previewScheduleCascade({
+            phaseId,
+            estStart: payload.estStart,
+            estEnd: payload.estEnd,
+          });
+          if (shifts.length > 0) {
+            setPending({ payload, shifts });
+            return;
+          }
+        }
+        await updatePhaseDates(payload);
+        dragOrigin.current.delete(phaseId);
       }, 500);
     },
-    [phases]
+    [phases, cascade]
   );
 
+  async function applyCascade() {
+    if (!pending) return;
+    setApplying(true);
+    try {
+      const applied = await updatePhaseDates({ ...pending.payload, cascade: true });
+      const byId = new Map(applied.map((s) => [s.phaseId, s]));
+      setPhases((prev) =>
+        prev.map((p) => {
+          const s = byId.get(p.id);
+          if (!s) return p;
+          return {
+            ...p,
+            estStart: new Date(s.newEstStart),
+            estEnd: new Date(s.newEstEnd),
+            ...(s.newWorstStart && { worstStart: new Date(s.newWorstStart) }),
+            ...(s.newWorstEnd && { worstEnd: new Date(s.newWorstEnd) }),
+          };
+        })
+      );
+      dragOrigin.current.delete(pending.payload.phaseId);
+      setPending(null);
+      router.refresh(); // recompute CPM overlay with the new dates
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  async function saveWithoutCascade() {
+    if (!pending) return;
+    setApplying(true);
+    try {
+      await updatePhaseDates(pending.payload);
+      dragOrigin.current.delete(pending.payload.phaseId);
+      setPending(null);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  function cancelCascade() {
+    if (!pending) return;
+    const origin = dragOrigin.current.get(pending.payload.phaseId);
+    if (origin) setPhases((prev) => prev.map((p) => (p.id === origin.id ? origin : p)));
+    dragOrigin.current.delete(pending.payload.phaseId);
+    setPending(null);
+  }
+
   return (
     <div className="min-h-0 flex flex-col">
       {/* Legend */}
@@ -180,9 +295,47 @@ const saveTimeout = useRef<NodeJS.Timeout | undefined>(undefined);
           <span className="w-2 h-3 bg-green-500 rounded-sm" />
           {t("today")}
         </span>
+        {schedule && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm ring-2 ring-orange-500" />
+            {t("criticalPath")}
+          </span>
+        )}
+        {LINK_TYPES.filter((type) => dependencies.some((d) => d.type === type)).map((type) => (
+          <span key={type} className="flex items-center gap-1.5" title={t(`link${type}Help`)}>
+            <svg width="18" height="4" aria-hidden="true">
+              <line x1="0" y1="2" x2="18" y2="2" stroke={LINK_STYLES[type].stroke}
+                strokeWidth="2" strokeDasharray={LINK_STYLES[type].dash} />
+            </svg>
+            {t(`link${type}`)}
+          </span>
+        ))}
+        {baseline && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm border-2 border-dashed border-gray-400 bg-gray-300/30" />
+            {t("baseline")}
+          </span>
+        )}
         <span className="hidden sm:inline text-gray-400">
           {t("dragHelp")}
         </span>
+        <label className="flex items-center gap-1.5 cursor-pointer" title={t("cascadeHelp")}>
+          <input
+            type="checkbox"
+            checked={cascade}
+            onChange={(e) => setCascade(e.target.checked)}
+            className="rounded border-gray-300 text-[var(--color-primary)]"
+          />
+          {t("cascadeToggle")}
+        </label>
+        <BaselineControls
+          projectId={projectId}
+          baselines={baselines}
+          canManage={canManage}
+          onSelect={(snapshots) =>
+            setBaseline(snapshots ? new Map(snapshots.map((b) => [b.phaseId, b])) : null)
+          }
+        />
         {/* Zoom controls */}
         <span className="ml-auto flex items-center gap-1">
           <button
@@ -234,7 +387,7 @@ const saveTimeout = useRef<NodeJS.Timeout | undefined>(undefined);
           </div>
 
           {/* Phase rows */}
-          <div>
+          <div ref={rowsRef} className="relative">
             {phases.map((phase) => (
               <PhaseRow
                 key={phase.id}
@@ -243,12 +396,31 @@ const saveTimeout = useRef<NodeJS.Timeout | undefined>(undefined);
                 tlStart={tlStart}
                 totalDays={totalDays}
                 todayPct={todayPct}
+                cpm={schedule?.[phase.id]}
+                baseline={baseline ? (baseline.get(phase.id) ?? null) : undefined}
                 onDatesChange={handleDatesChange}
               />
             ))}
+            <DependencyArrows
+              containerRef={rowsRef}
+              phases={phases}
+              dependencies={dependencies}
+              tlStart={tlStart}
+              totalDays={totalDays}
+            />
           </div>
         </div>
       </div>
+
+      {pending && (
+        <CascadePreviewDialog
+          shifts={pending.shifts}
+          busy={applying}
+          onApply={applyCascade}
+          onSkip={saveWithoutCascade}
+          onCancel={cancelCascade}
+        />
+      )}
     </div>
   );
 }
@@ -21,13 +21,23 @@
  *   resize handle overlays that appear on hover.
  * Milestones render a rotated diamond div instead of a bar.
  *
+ * CPM: when `cpm` is supplied, critical phases get an orange outline on the
+ *   estimated bar/diamond and a "Critical" badge; other phases show their float.
+ *
+ * Baseline: when `baseline` is supplied, the baselined dates render as a dashed
+ *   "ghost" bar behind the estimated bar, and the label column shows the start
+ *   and finish variance in days (lib/baseline-variance.ts). `baseline === null`
+ *   means a baseline is selected but this phase was added after it was taken.
+ *
  * Utilities: `statusColor`, `statusLabel`, `fmtShort` from `@/lib/utils`.
  */
 
 import { useRef, useCallback } from "react";
 import Link from "next/link";
 import { differenceInDays, addDays, format } from "date-fns";
+import { useTranslations } from "next-intl";
 import { cn, statusColor, statusLabel, fmtShort } from "@/lib/utils";
+import { varianceDays } from "@/lib/baseline-variance";
 
 interface Phase {
   id: string;
@@ -40,6 +50,8 @@ interface Phase {
   estEnd: Date;
   worstStart?: Date | null;
   worstEnd?: Date | null;
+  actualStart?: Date | null;
+  actualEnd?: Date | null;
   sortOrder: number;
   createdAt?: Date;
   updatedAt?: Date;
@@ -63,6 +75,10 @@ interface PhaseRowProps {
   tlStart: Date;
   totalDays: number;
   todayPct: number;
+  /** CPM float/critical flag for this phase, when a schedule was computed. */
+  cpm?: { totalFloat: number; critical: boolean };
+  /** Baselined dates for this phase; null when it is not in the selected baseline. */
+  baseline?: { estStart: Date; estEnd: Date } | null;
   onDatesChange: (
     phaseId: string,
     updates: {
@@ -80,9 +96,13 @@ export function PhaseRow({
   tlStart,
   totalDays,
   todayPct,
+  cpm,
+  baseline,
   onDatesChange,
 }: PhaseRowProps) {
+  const t = useTranslations("gantt");
   const trackRef = useRef<HTMLDivElement>(null);
+  const critical = cpm?.critical ?? false;
 
   const pct = (date: Date) =>
     (differenceInDays(date, tlStart) / totalDays) * 100;
@@ -149,6 +169,11 @@ export function PhaseRow({
   const estLeft = pct(phase.estStart);
   const estWidth = Math.max(pct(phase.estEnd) - estLeft, 0.3);
 
+  const baseLeft = baseline ? pct(baseline.estStart) : 0;
+  const baseWidth = baseline ? Math.max(pct(baseline.estEnd) - baseLeft, 0.3) : 0;
+  const startVariance = baseline ? varianceDays(baseline.estStart, phase.actualStart ?? phase.estStart) : 0;
+  const finishVariance = baseline ? varianceDays(baseline.estEnd, phase.actualEnd ?? phase.estEnd) : 0;
+
   const hasWorst = phase.worstStart && phase.worstEnd;
   const worstLeft = hasWorst ? pct(phase.worstStart!) : 0;
   const worstWidth = hasWorst
@@ -156,7 +181,7 @@ export function PhaseRow({
     : 0;
 
   return (
-    <div className="flex border-b border-gray-100 hover:bg-gray-50/50 group">
+    <div data-phase-row={phase.id} className="flex border-b border-gray-100 hover:bg-gray-50/50 group">
       {/* Label column */}
       <div className="w-32 min-w-32 sm:w-44 sm:min-w-44 lg:w-52 lg:min-w-52 px-2 sm:px-4 py-3 flex flex-col justify-center border-r border-gray-100">
         <div className="flex items-center gap-2">
@@ -186,6 +211,27 @@ export function PhaseRow({
             </span>
           )}
         </div>
+        {cpm && (
+          <span className={cn("text-[10px] mt-0.5", critical ? "text-orange-600 font-semibold" : "text-gray-400")}>
+            {critical ? t("critical") : t("floatDays", { days: cpm.totalFloat })}
+          </span>
+        )}
+        {baseline && (
+          <span className="text-[10px] text-gray-400 mt-0.5">
+            {t("baselineVariance", {
+              start: formatVariance(startVariance),
+              finish: formatVariance(finishVariance),
+            })}
+            {finishVariance !== 0 && (
+              <span className={cn("ml-1 font-semibold", finishVariance > 0 ? "text-red-500" : "text-green-600")}>
+                {finishVariance > 0 ? "▲" : "▼"}
+              </span>
+            )}
+          </span>
+        )}
+        {baseline === null && (
+          <span className="text-[10px] text-gray-400 mt-0.5 italic">{t("baselineNotIncluded")}</span>
+        )}
         {owner && (
           <span className="text-[10px] text-gray-400 mt-0.5 truncate">
             {owner.name}
@@ -194,17 +240,33 @@ export function PhaseRow({
       </div>
 
       {/* Bar track */}
-      <div ref={trackRef} className="flex-1 relative py-2 min-h-[56px]">
+      <div ref={trackRef} data-track className="flex-1 relative py-2 min-h-[56px]">
         {/* Today marker */}
         <div
           className="absolute top-0 bottom-0 w-px bg-green-500 z-10"
           style={{ left: `${todayPct}%` }}
         />
 
+        {/* Baseline ghost — the plan as it stood when the baseline was saved */}
+        {baseline && (phase.isMilestone ? (
+          <div
+            className="absolute top-1/2 -translate-y-1/2 w-4 h-4 rotate-45 border-2 border-dashed border-gray-400 pointer-events-none"
+            style={{ left: `${baseLeft}%`, marginLeft: "-8px" }}
+          />
+        ) : (
+          <div
+            className="absolute top-[4px] h-8 rounded border-2 border-dashed border-gray-400 bg-gray-300/30 pointer-events-none"
+            style={{ left: `${baseLeft}%`, width: `${baseWidth}%`, minWidth: "4px" }}
+          />
+        ))}
+
         {/* Milestone diamond — draggable to move date */}
         {phase.isMilestone ? (
           <div
-            className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-blue-500 rotate-45 z-20 cursor-grab active:cursor-grabbing hover:bg-blue-600 transition-colors"
+            className={cn(
+              "absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-blue-500 rotate-45 z-20 cursor-grab active:cursor-grabbing hover:bg-blue-600 transition-colors",
+              critical && "ring-2 ring-orange-500"
+            )}
             style={{ left: `${estLeft}%`, marginLeft: "-8px" }}
             title={`${phase.name}: ${format(phase.estStart, "MMM d, yyyy")}`}
             onPointerDown={(e) => handlePointerDown(e, "estimated", "move")}
@@ -221,10 +283,13 @@ export function PhaseRow({
                   ? `${fmtShort(phase.estStart)} – ${fmtShort(phase.estEnd)}`
                   : ""
               }
-              tooltip={`${phase.name} (Estimated): ${fmtShort(phase.estStart)} – ${fmtShort(phase.estEnd)}`}
+              tooltip={`${phase.name} (Estimated): ${fmtShort(phase.estStart)} – ${fmtShort(phase.estEnd)}${
+                cpm ? ` · ${critical ? t("critical") : t("floatDays", { days: cpm.totalFloat })}` : ""
+              }`}
               onPointerDown={(e, mode) =>
                 handlePointerDown(e, "estimated", mode)
               }
+              critical={critical}
             />
 
             {/* Worst case bar (red) */}
@@ -252,6 +317,11 @@ export function PhaseRow({
   );
 }
 
+/** Signed day count for variance labels ("+3d", "-2d", "0d"). */
+function formatVariance(days: number): string {
+  return `${days > 0 ? "+" : ""}${days}d`;
+}
+
 function TimelineBar({
   left,
   width,
@@ -260,6 +330,7 @@ function TimelineBar({
   tooltip,
   onPointerDown,
   isBottom,
+  critical,
 }: {
   left: number;
   width: number;
@@ -271,6 +342,7 @@ function TimelineBar({
     mode: "move" | "resize-left" | "resize-right"
   ) => void;
   isBottom?: boolean;
+  critical?: boolean;
 }) {
   const bgColor =
     color === "blue"
@@ -282,7 +354,8 @@ function TimelineBar({
       className={cn(
         "absolute h-6 rounded cursor-grab active:cursor-grabbing select-none group/bar",
         bgColor,
-        isBottom ? "top-[30px]" : "top-[8px]"
+        isBottom ? "top-[30px]" : "top-[8px]",
+        critical && "ring-2 ring-orange-500 ring-offset-1"
       )}
       style={{
         left: `${left}%`,
@@ -0,0 +1,98 @@
+"use client";
+
+/**
+ * @file components/timeline/ScheduleInterchangeMenu.tsx
+ * @description Import/export menu for MS Project XML and Primavera P6 XER schedules.
+ *
+ * Export items link to `GET /api/export/schedule` (the browser downloads the
+ * attachment). Managers also get an import item: the chosen .xml/.xer file is
+ * POSTed to `POST /api/import/schedule`, the result (phases updated/created,
+ * dependencies) is shown inline and the timeline is refreshed.
+ *
+ * i18n namespace: `gantt`.
+ */
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowDownUp, Loader2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+
+interface ScheduleInterchangeMenuProps {
+  projectId: string;
+  canImport: boolean;
+}
+
+export function ScheduleInterchangeMenu({ projectId, canImport }: ScheduleInterchangeMenuProps) {
+  const t = useTranslations("gantt");
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const exportHref = (format: "mspdi" | "xer") =>
+    `/api/export/schedule?projectId=${encodeURIComponent(projectId)}&format=${format}`;
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setOpen(false);
+    setImporting(true);
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("projectId", projectId);
+
+    try {
+      const res = await fetch("/api/import/schedule", { method: "POST", body: formData });
+      const json = await res.json();
+      if (!res.ok) {
+        toast.error(json.error ?? t("scheduleImportFailed"));
+      } else {
+        toast.success(t("scheduleImported", json));
+        router.refresh();
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t("scheduleImportFailed"));
+    } finally {
+      setImporting(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={importing}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowDownUp className="w-4 h-4" />}
+        {t("scheduleInterchange")}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-1 z-20 bg-white rounded-lg border border-gray-200 shadow-lg py-1 w-56">
+            <a href={exportHref("mspdi")} onClick={() => setOpen(false)}
+              className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+              {t("exportMspdi")}
+            </a>
+            <a href={exportHref("xer")} onClick={() => setOpen(false)}
+              className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+              {t("exportXer")}
+            </a>
+            {canImport && (
+              <button onClick={() => fileRef.current?.click()}
+                className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 border-t border-gray-100">
+                {t("importSchedule")}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+      <input ref={fileRef} type="file" accept=".xml,.xer" onChange={handleFile} className="sr-only" />
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+/**
+ * @file OfflineConflictResolver.tsx
+ * @description Resolve dialog for offline mutations that went stale while
+ * queued — the server copy changed after the change was made (see
+ * lib/offline-conflicts.ts). Rendered by OfflineSyncProvider; opens whenever
+ * the queue holds "conflict" entries and walks through them oldest-first.
+ *
+ * Each conflict shows mine vs theirs per field with three choices:
+ *   - Keep mine:   replay as queued, overwriting the server copy.
+ *   - Keep theirs: drop the queued change.
+ *   - Merge:       pick mine or theirs per field; text fields (checklist item,
+ *                  comment) open in an editor prefilled with mine, with theirs
+ *                  shown alongside.
+ *
+ * Resolving fires `OFFLINE_QUEUE_EVENT` so useOfflineSync drains right away.
+ * i18n: pwa.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { GitMerge } from "lucide-react";
+import {
+  getConflictedMutations,
+  resolveConflict,
+  OFFLINE_QUEUE_EVENT,
+  type ConflictResolution,
+  type QueuedMutation,
+} from "@/lib/offline-queue";
+import type { ConflictField, OfflineConflict } from "@/lib/offline-conflicts";
+
+const fmt = (n: number) =>
+  n.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+const ENTITY_LABELS: Record<OfflineConflict["entity"], string> = {
+  phase: "entityPhase",
+  project: "entityProject",
+  checklistItem: "entityChecklistItem",
+  checklist: "entityChecklist",
+  comments: "entityComments",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "fieldStatus",
+  estStart: "fieldEstStart",
+  estEnd: "fieldEstEnd",
+  worstStart: "fieldWorstStart",
+  worstEnd: "fieldWorstEnd",
+  estimatedCost: "fieldEstimatedCost",
+  actualCost: "fieldActualCost",
+  budget: "fieldBudget",
+  completed: "fieldCompleted",
+  text: "fieldChecklistItem",
+  title: "fieldChecklistItem",
+  content: "fieldComment",
+};
+
+const MONEY_FIELDS = new Set(["estimatedCost", "actualCost", "budget"]);
+const DATE_FIELDS = new Set(["estStart", "estEnd", "worstStart", "worstEnd"]);
+
+export function OfflineConflictResolver() {
+  const t = useTranslations("pwa");
+  const [conflicts, setConflicts] = useState<QueuedMutation[]>([]);
+  const [merging, setMerging] = useState(false);
+  const [merged, setMerged] = useState<Record<string, ConflictField["mine"]>>({});
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const entries = await getConflictedMutations();
+      setConflicts(entries.filter((m) => m.conflict).sort((a, b) => a.timestamp - b.timestamp));
+    } catch {
+      // IndexedDB unavailable — nothing to resolve
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    window.addEventListener(OFFLINE_QUEUE_EVENT, load);
+    return () => window.removeEventListener(OFFLINE_QUEUE_EVENT, load);
+  }, [load]);
+
+  const current = conflicts[0];
+  if (!current?.conflict) return null;
+  const conflict = current.conflict;
+
+  function startMerge() {
+    setMerged(Object.fromEntries(conflict.fields.map((f) => [f.field, f.mine])));
+    setMerging(true);
+  }
+
+  async function resolve(resolution: ConflictResolution) {
+    setBusy(true);
+    try {
+      await resolveConflict(current.id!, resolution, resolution === "merge" ? merged : undefined);
+      toast.success(resolution === "theirs" ? t("conflictDiscarded") : t("conflictResolved"));
+      setMerging(false);
+      window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t("conflictFailed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function display(field: string, value: ConflictField["mine"]) {
+    if (value === null || value === "") return "—";
+    if (typeof value === "boolean") return value ? t("done") : t("notDone");
+    if (MONEY_FIELDS.has(field)) return fmt(Number(value));
+    if (DATE_FIELDS.has(field)) return new Date(String(value)).toLocaleDateString();
+    return String(value);
+  }
+
+  const label = (field: string) => (FIELD_LABELS[field] ? t(FIELD_LABELS[field]) : field);
+  const btn = "px-3 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-[9998] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="offline-conflict-title">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" />
+
+      <div className="relative bg-white rounded-xl shadow-2xl w-full max-w-lg mx-auto p-5 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-start gap-3 mb-4">
+          <div className="shrink-0 w-9 h-9 rounded-full flex items-center justify-center bg-amber-100">
+            <GitMerge className="w-5 h-5 text-amber-600" />
+          </div>
+          <div className="min-w-0">
+            <h2 id="offline-conflict-title" className="text-sm font-semibold text-gray-900">
+              {t("conflictTitle")}
+              {conflicts.length > 1 && (
+                <span className="ml-2 text-xs font-normal text-gray-400">{t("conflictCount", { count: conflicts.length })}</span>
+              )}
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 leading-snug">
+              {t("conflictHint", {
+                entity: t(ENTITY_LABELS[conflict.entity]),
+                label: conflict.label,
+                time: new Date(conflict.theirsUpdatedAt).toLocaleString(),
+              })}
+            </p>
+          </div>
+        </div>
+
+        {/* Fields */}
+        <div className="space-y-3">
+          {conflict.fields.map((f) => (
+            <div key={f.field} className="rounded-lg border border-gray-200 p-3">
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{label(f.field)}</p>
+              {merging && f.text ? (
+                <>
+                  <p className="text-[11px] text-gray-400 mb-1">{t("theirs")}</p>
+                  <p className="text-sm text-gray-600 whitespace-pre-wrap bg-gray-50 rounded p-2 mb-2">{display(f.field, f.theirs)}</p>
+                  <p className="text-[11px] text-gray-400 mb-1">{t("mergedText")}</p>
+                  <textarea
+                    value={String(merged[f.field] ?? "")}
+                    onChange={(e) => setMerged({ ...merged, [f.field]: e.target.value })}
+                    rows={3}
+                    className="w-full text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]"
+                  />
+                </>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {(["mine", "theirs"] as const).map((side) => {
+                    const value = f[side];
+                    const chosen = merging && merged[f.field] === value;
+                    return (
+                      <button
+                        key={side}
+                        type="button"
+                        disabled={!merging}
+                        onClick={() => setMerged({ ...merged, [f.field]: value })}
+                        className={`text-left rounded-lg border px-2.5 py-2 disabled:cursor-default ${
+                          chosen ? "border-[var(--color-primary)] bg-blue-50" : "border-gray-200"
+                        }`}
+                      >
+                        <span className="block text-[11px] text-gray-400">{t(side)}</span>
+                        <span className="block text-sm text-gray-900 whitespace-pre-wrap break-words">{display(f.field, value)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap justify-end gap-2 mt-5">
+          {merging ? (
+            <>
+              <button onClick={() => setMerging(false)} disabled={busy} className={`${btn} text-gray-700 border border-gray-300 hover:bg-gray-50`}>
+                {t("cancel")}
+              </button>
+              <button onClick={() => resolve("merge")} disabled={busy} className={`${btn} text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)]`}>
+                {t("applyMerge")}
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => resolve("theirs")} disabled={busy} className={`${btn} text-gray-700 border border-gray-300 hover:bg-gray-50`}>
+                {t("keepTheirs")}
+              </button>
+              <button onClick={startMerge} disabled={busy} className={`${btn} text-gray-700 border border-gray-300 hover:bg-gray-50`}>
+                {t("merge")}
+              </button>
+              <button onClick={() => resolve("mine")} disabled={busy} className={`${btn} text-white bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)]`}>
+                {t("keepMine")}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
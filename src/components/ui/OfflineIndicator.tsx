@@ -7,15 +7,18 @@
  * an empty mutation queue. Displays four mutually-exclusive states: an amber offline
  * banner (WifiOff icon), a blue syncing spinner (RefreshCw animate-spin), an indigo
  * pending-sync button that triggers syncAll(), and a red failed-sync banner with a Retry
- * button. i18n: pwa.
+ * button. While queued photos / voice notes upload, the syncing state shows a progress
+ * bar. i18n: pwa.
  */
 
 import { useOfflineSync } from "@/hooks/useOfflineSync";
 import { WifiOff, Wifi, RefreshCw, AlertTriangle } from "lucide-react";
 import { useTranslations } from "next-intl";
 
+const formatMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
 export function OfflineIndicator() {
-  const { isOnline, isSyncing, queueStatus, syncAll } = useOfflineSync();
+  const { isOnline, isSyncing, queueStatus, uploadProgress, syncAll } = useOfflineSync();
   const t = useTranslations("pwa");
 
   // Fully online with empty queue — show nothing
@@ -35,11 +38,26 @@ export function OfflineIndicator() {
 
       {/* Syncing indicator */}
       {isOnline && isSyncing && (
-        <div className="flex items-center gap-2 rounded-lg bg-blue-500 px-4 py-2.5 text-sm font-medium text-white shadow-lg">
-          <RefreshCw className="h-4 w-4 flex-shrink-0 animate-spin" />
-          <span>
-            {t("syncing", { count: queueStatus.pending })}
-          </span>
+        <div className="rounded-lg bg-blue-500 px-4 py-2.5 text-sm font-medium text-white shadow-lg">
+          <div className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4 flex-shrink-0 animate-spin" />
+            <span>
+              {uploadProgress
+                ? t("uploadingFiles", {
+                    loaded: formatMb(uploadProgress.loaded),
+                    total: formatMb(uploadProgress.total),
+                  })
+                : t("syncing", { count: queueStatus.pending })}
+            </span>
+          </div>
+          {uploadProgress && uploadProgress.total > 0 && (
+            <div className="mt-2 h-1.5 rounded-full bg-white/30 overflow-hidden">
+              <div
+                className="h-full bg-white transition-all"
+                style={{ width: `${Math.round((uploadProgress.loaded / uploadProgress.total) * 100)}%` }}
+              />
+            </div>
+          )}
         </div>
       )}
 
@@ -5,11 +5,13 @@
  * @description Context provider that initialises all offline mutation replay handlers
  * exactly once on mount using a useRef(false) guard. Wraps the application tree to
  * guarantee that registerAllOfflineHandlers() is called before any sync attempt is made.
- * Renders children directly with no additional UI output.
+ * Renders children plus OfflineConflictResolver, the dialog for queued changes that
+ * went stale against a newer server copy.
  */
 
 import { useEffect, useRef } from "react";
 import { registerAllOfflineHandlers } from "@/lib/offline-handlers";
+import { OfflineConflictResolver } from "@/components/ui/OfflineConflictResolver";
 
 export function OfflineSyncProvider({ children }: { children: React.ReactNode }) {
   const registered = useRef(false);
@@ -21,5 +23,10 @@ export function OfflineSyncProvider({ children }: { children: React.ReactNode })
     }
   }, []);
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      <OfflineConflictResolver />
+    </>
+  );
 }
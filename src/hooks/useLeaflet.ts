@@ -0,0 +1,62 @@
+"use client";
+
+/**
+ * @file hooks/useLeaflet.ts
+ * @description Loads Leaflet from the CDN on first use and reports when
+ * `window.L` is ready. Shared by the map views (PhotoMapView, GeofenceEditor).
+ *
+ * Leaflet is loaded lazily at runtime to avoid SSR issues:
+ *   - CSS injected via a `<link>` element (id="leaflet-css") if not already present.
+ *   - JS injected via a `<script>` element (id="leaflet-js") if not already present;
+ *     a second map mounting while the script is still downloading waits for
+ *     the same element's `load` event.
+ *
+ * Usage:
+ *   const loaded = useLeaflet();
+ *   useEffect(() => { if (loaded) window.L.map(ref.current) ... }, [loaded]);
+ */
+
+import { useEffect, useState } from "react";
+
+const LEAFLET_VERSION = "1.9.4";
+
+declare global {
+  interface Window {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    L: any;
+  }
+}
+
+export function useLeaflet(): boolean {
+  // Already on the page (another map loaded it) — ready on the first render
+  const [loaded, setLoaded] = useState(() => typeof window !== "undefined" && !!window.L);
+
+  useEffect(() => {
+    // Load Leaflet CSS
+    const cssId = "leaflet-css";
+    if (!document.getElementById(cssId)) {
+      const link = document.createElement("link");
+      link.id = cssId;
+      link.rel = "stylesheet";
+      link.href = `https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.css`;
+      document.head.appendChild(link);
+    }
+
+    if (window.L) return;
+
+    // Load Leaflet JS
+    const scriptId = "leaflet-js";
+    let script = document.getElementById(scriptId) as HTMLScriptElement | null;
+    if (!script) {
+      script = document.createElement("script");
+      script.id = scriptId;
+      script.src = `https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.js`;
+      document.head.appendChild(script);
+    }
+    const onLoad = () => setLoaded(true);
+    script.addEventListener("load", onLoad);
+    return () => script.removeEventListener("load", onLoad);
+  }, []);
+
+  return loaded;
+}
@@ -20,6 +20,20 @@
  *   - Failed mutations are retried up to `MAX_RETRIES` times before being
  *     marked as permanently "failed".
  *
+ * Stale writes:
+ *   - Before replaying, `checkOfflineConflict` compares the mutation's
+ *     `baseUpdatedAt` with the server copy (lib/offline-conflicts.ts). If the
+ *     entity changed since, the mutation is parked as "conflict" instead of
+ *     overwriting it, and `OFFLINE_QUEUE_EVENT` is fired so the resolve UI
+ *     (OfflineConflictResolver) picks it up. Resolved mutations return to
+ *     "pending" with `force` set and are drained on the next pass.
+ *
+ * Photos and voice notes:
+ *   - Blobs queued with a mutation (`queueMutationWithBlobs`) are uploaded
+ *     first through `uploadMutationBlobs` — resumable multipart uploads via
+ *     `/api/upload` — and their URLs substituted into the payload before the
+ *     handler runs. Progress is exposed as `uploadProgress`.
+ *
  * Retry policy:
  *   - If `retries + 1 < MAX_RETRIES` (5): mutation stays "pending" with the
  *     error message stored for debugging.
@@ -39,10 +53,18 @@ import {
   getPendingMutations,
   updateMutationStatus,
   removeMutation,
+  markConflict,
   getQueueStatus,
+  OFFLINE_QUEUE_EVENT,
   type QueueStatus,
   type QueuedMutation,
 } from "@/lib/offline-queue";
+import {
+  uploadMutationBlobs,
+  UPLOAD_PROGRESS_EVENT,
+  type UploadProgress,
+} from "@/lib/offline-uploads";
+import { checkOfflineConflict } from "@/actions/offline-sync";
 
 /** How often (ms) to poll the queue for pending mutations while online. */
 const SYNC_INTERVAL_MS = 10_000;
@@ -52,8 +74,11 @@ const MAX_RETRIES = 5;
 
 // ── Action Handler Registry ──
 
-/** Signature for an offline action replay handler. */
-type ActionHandler = (payload: Record<string, unknown>) => Promise<void>;
+/**
+ * Signature for an offline action replay handler. `queuedAt` is when the
+ * mutation was made, for actions that record the time of the original attempt.
+ */
+type ActionHandler = (payload: Record<string, unknown>, queuedAt: Date) => Promise<void>;
 
 /**
  * Module-level registry mapping action strings to their replay handlers.
@@ -102,7 +127,8 @@ export function registerOfflineAction(
  * @returns
  *   - `isOnline`     — current connectivity state
  *   - `isSyncing`    — true while a drain pass is in progress
- *   - `queueStatus`  — `{ pending, failed, isOnline }` from the queue
+ *   - `queueStatus`  — `{ pending, failed, conflicts, isOnline }` from the queue
+ *   - `uploadProgress` — bytes uploaded / total for queued files, while uploading
  *   - `syncAll`      — manually trigger a full queue drain
  *   - `refreshStatus` — re-read `queueStatus` from IndexedDB
  */
@@ -111,9 +137,11 @@ export function useOfflineSync() {
   const [queueStatus, setQueueStatus] = useState<QueueStatus>({
     pending: 0,
     failed: 0,
+    conflicts: 0,
     isOnline: true,
   });
   const [isSyncing, setIsSyncing] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const syncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // ── Online/Offline detection ──
@@ -151,7 +179,8 @@ export function useOfflineSync() {
    * Attempt to replay a single queued mutation.
    *
    * Status flow:
-   *   pending → syncing → (success) removed from queue
+   *   pending → syncing → (server copy changed since base) conflict
+   *                     → (success) removed from queue
    *                     → (failure, retries < MAX_RETRIES) back to pending
    *                     → (failure, retries >= MAX_RETRIES) marked failed
    *
@@ -172,7 +201,20 @@ export function useOfflineSync() {
 
       try {
         await updateMutationStatus(mutation.id!, "syncing");
-        await handler(mutation.payload);
+        if (mutation.payload.force !== true) {
+          const conflict = await checkOfflineConflict({
+            action: mutation.action,
+            payload: mutation.payload,
+            timestamp: mutation.timestamp,
+            baseUpdatedAt: mutation.baseUpdatedAt,
+          });
+          if (conflict) {
+            await markConflict(mutation.id!, conflict);
+            window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+            return false;
+          }
+        }
+        await handler(await uploadMutationBlobs(mutation.id!, mutation.payload), new Date(mutation.timestamp));
         await removeMutation(mutation.id!); // Clean up on success
         return true;
       } catch (err) {
@@ -215,6 +257,7 @@ export function useOfflineSync() {
       }
     } finally {
       setIsSyncing(false);
+      setUploadProgress(null);
       await refreshStatus();
     }
   }, [isSyncing, replayMutation, refreshStatus]);
@@ -247,6 +290,23 @@ export function useOfflineSync() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOnline]);
 
+  // ── Conflicts found or resolved elsewhere ──
+  useEffect(() => {
+    const onQueueChanged = () => {
+      refreshStatus();
+      if (navigator.onLine) syncAll();
+    };
+    window.addEventListener(OFFLINE_QUEUE_EVENT, onQueueChanged);
+    return () => window.removeEventListener(OFFLINE_QUEUE_EVENT, onQueueChanged);
+  }, [refreshStatus, syncAll]);
+
+  // ── Upload progress for queued photos / voice notes ──
+  useEffect(() => {
+    const onProgress = (e: Event) => setUploadProgress((e as CustomEvent<UploadProgress>).detail);
+    window.addEventListener(UPLOAD_PROGRESS_EVENT, onProgress);
+    return () => window.removeEventListener(UPLOAD_PROGRESS_EVENT, onProgress);
+  }, []);
+
   // ── Initial status read ──
   useEffect(() => {
     refreshStatus();
@@ -256,6 +316,7 @@ export function useOfflineSync() {
     isOnline,
     isSyncing,
     queueStatus,
+    uploadProgress,
     syncAll,
     refreshStatus,
   };
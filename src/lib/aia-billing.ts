@@ -0,0 +1,164 @@
+/**
+ * @file aia-billing.ts
+ * @description AIA G702/G703 pay application math.
+ *
+ * A project's schedule of values (SovLineItem) is billed line by line on the
+ * G703 continuation sheet; the G702 application rolls those lines up:
+ *
+ *   G703, per line                         G702
+ *   C  scheduled value                     1  original contract sum      = ΣC
+ *   D  work completed, previous apps       2  net change by change orders
+ *   E  work completed, this period         3  contract sum to date       = 1 + 2
+ *   F  materials presently stored          4  completed & stored to date = ΣG
+ *   G  completed & stored to date = D+E+F  5  retainage                  = ΣI
+ *   %  G / C                               6  total earned less retainage = 4 − 5
+ *   H  balance to finish = C − G           7  less previous certificates
+ *   I  retainage = G × line retainage %    8  current payment due        = 6 − 7
+ *                                          9  balance to finish incl. retainage = 3 − 6
+ *
+ * Variable retainage (rate tiers, lib/retainage.ts): when a line carries the
+ * retainage already held from the previous application, only the value added
+ * since then is retained at the current rate — dropping from 10% to 5% does not
+ * shrink what is already held; that is released separately through the ledger.
+ *
+ * Amounts are rounded to cents at every step so the PDF, the stored rows and
+ * the on-screen totals always agree.
+ */
+
+/** Round to cents. */
+export const toCents = (n: number) => Math.round(n * 100) / 100;
+
+export interface G703LineInput {
+  itemNumber: string;
+  description: string;
+  scheduledValue: number;
+  previousWork: number;
+  workThisPeriod: number;
+  materialsStored: number;
+  /** 0–100. */
+  retainagePercent: number;
+  /** Column I on the previous application — enables variable-rate retainage. */
+  previousRetainage?: number;
+  /** Column F on the previous application (paired with `previousRetainage`). */
+  previousMaterialsStored?: number;
+}
+
+export interface G703Line extends G703LineInput {
+  /** G = D + E + F */
+  completedAndStored: number;
+  /** G / C × 100, 0 when C is 0. */
+  percentComplete: number;
+  /** H = C − G */
+  balanceToFinish: number;
+  /** I */
+  retainage: number;
+}
+
+export interface G702Summary {
+  originalContractSum: number;
+  netChangeOrders: number;
+  contractSumToDate: number;
+  totalCompletedAndStored: number;
+  /** 5a — retainage on completed work (D + E). */
+  retainageOnWork: number;
+  /** 5b — retainage on stored material (F). */
+  retainageOnStored: number;
+  totalRetainage: number;
+  totalEarnedLessRetainage: number;
+  previousCertificates: number;
+  currentPaymentDue: number;
+  balanceToFinish: number;
+}
+
+/** Fill in the computed G703 columns for one line. */
+export function computeG703Line(input: G703LineInput): G703Line {
+  const completedAndStored = toCents(input.previousWork + input.workThisPeriod + input.materialsStored);
+  const retainage =
+    input.previousRetainage === undefined
+      ? (completedAndStored * input.retainagePercent) / 100
+      : input.previousRetainage +
+        ((completedAndStored - input.previousWork - (input.previousMaterialsStored ?? 0)) * input.retainagePercent) / 100;
+  return {
+    ...input,
+    completedAndStored,
+    percentComplete: input.scheduledValue > 0 ? (completedAndStored / input.scheduledValue) * 100 : 0,
+    balanceToFinish: toCents(input.scheduledValue - completedAndStored),
+    retainage: toCents(Math.max(0, retainage)),
+  };
+}
+
+/**
+ * Reject lines that bill more than their scheduled value or carry negative
+ * amounts.
+ *
+ * @returns An error message, or null when the line is valid.
+ */
+export function validateG703Line(line: G703Line): string | null {
+  if (line.workThisPeriod < 0 || line.materialsStored < 0) {
+    return `Item ${line.itemNumber}: amounts cannot be negative`;
+  }
+  if (line.retainagePercent < 0 || line.retainagePercent > 100) {
+    return `Item ${line.itemNumber}: retainage must be between 0 and 100%`;
+  }
+  if (line.completedAndStored > line.scheduledValue) {
+    return `Item ${line.itemNumber}: billed to date exceeds the scheduled value`;
+  }
+  return null;
+}
+
+/**
+ * Roll G703 lines up into the G702 summary.
+ *
+ * @param netChangeOrders      - Approved change orders to date (G702 line 2)
+ * @param previousCertificates - Sum of payments certified on earlier applications
+ */
+export function rollupG702(lines: G703Line[], netChangeOrders: number, previousCertificates: number): G702Summary {
+  const sum = (pick: (l: G703Line) => number) => toCents(lines.reduce((s, l) => s + pick(l), 0));
+
+  const originalContractSum = sum((l) => l.scheduledValue);
+  const contractSumToDate = toCents(originalContractSum + netChangeOrders);
+  const totalCompletedAndStored = sum((l) => l.completedAndStored);
+  const totalRetainage = sum((l) => l.retainage);
+  // Stored material is retained at the current rate; the rest of I is on completed work
+  const retainageOnStored = sum((l) => Math.min(l.retainage, (l.materialsStored * l.retainagePercent) / 100));
+  const totalEarnedLessRetainage = toCents(totalCompletedAndStored - totalRetainage);
+
+  return {
+    originalContractSum,
+    netChangeOrders: toCents(netChangeOrders),
+    contractSumToDate,
+    totalCompletedAndStored,
+    retainageOnWork: toCents(totalRetainage - retainageOnStored),
+    retainageOnStored,
+    totalRetainage,
+    totalEarnedLessRetainage,
+    previousCertificates: toCents(previousCertificates),
+    currentPaymentDue: toCents(totalEarnedLessRetainage - previousCertificates),
+    balanceToFinish: toCents(contractSumToDate - totalEarnedLessRetainage),
+  };
+}
+
+/**
+ * Express a phase-level (lump-sum) pay application as a single G703 line so it
+ * can print on the same G702/G703 form as schedule-of-values applications.
+ * Its stored retainage is used as-is rather than recomputed from a rate.
+ */
+export function lumpSumG703Line(app: {
+  description: string;
+  scheduledValue: number;
+  workCompleted: number;
+  materialsStored: number;
+  retainage: number;
+}): G703Line {
+  const line = computeG703Line({
+    itemNumber: "1",
+    description: app.description,
+    scheduledValue: app.scheduledValue,
+    previousWork: 0,
+    workThisPeriod: app.workCompleted,
+    materialsStored: app.materialsStored,
+    retainagePercent: 0,
+  });
+  const retainagePercent = line.completedAndStored > 0 ? (app.retainage / line.completedAndStored) * 100 : 0;
+  return { ...line, retainagePercent, retainage: toCents(app.retainage) };
+}
@@ -0,0 +1,265 @@
+/**
+ * @file aia-pdf.ts
+ * @description Printable pay application in the AIA G702/G703 layout, rendered
+ * with the dependency-free writer in lib/pdf.ts.
+ *
+ *   Page 1     G702 — Application and Certificate for Payment: project and
+ *              contractor block, the nine summary lines (lib/aia-billing.ts),
+ *              contractor certification and architect's certificate with
+ *              signature lines.
+ *   Page 2+    G703 — Continuation Sheet (landscape): one row per schedule-of-
+ *              values line with columns A–I, repeated headers on every page
+ *              and a grand-total row at the end.
+ *
+ * The form follows the AIA document structure so owners and lenders can review
+ * it as they would the official forms; it does not reproduce AIA's artwork.
+ * With `branding` set, the organisation logo heads page 1 and shaded bands use
+ * the brand tint (lib/pdf-branding.ts).
+ */
+
+import type { G702Summary, G703Line } from "@/lib/aia-billing";
+import type { PdfBranding } from "@/lib/pdf-branding";
+import { createPdf, fitText, wrapText, LETTER, LETTER_LANDSCAPE, type PdfColor, type PdfDocument } from "@/lib/pdf";
+
+export interface PayAppPdfData {
+  applicationNumber: number;
+  applicationDate: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  projectName: string;
+  projectAddress: string | null;
+  contractorName: string;
+  lines: G703Line[];
+  summary: G702Summary;
+  branding?: PdfBranding;
+}
+
+const MARGIN = 36;
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const SHADE: PdfColor = [0.93, 0.93, 0.93];
+
+const money = (n: number) =>
+  `${n < 0 ? "-" : ""}$${Math.abs(n).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const plain = (n: number) =>
+  n === 0 ? "" : n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const date = (d: Date) =>
+  d.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+
+// ── G702 ──
+
+function drawG702(pdf: PdfDocument, data: PayAppPdfData) {
+  const { width } = pdf.addPage(LETTER);
+  const right = width - MARGIN;
+  const s = data.summary;
+  const shade = data.branding?.tint ?? SHADE;
+  const logo = data.branding?.logo;
+
+  if (logo) {
+    const scale = Math.min(120 / logo.width, 26 / logo.height);
+    pdf.image(right - logo.width * scale, 16, logo.width * scale, logo.height * scale, logo);
+  }
+  pdf.text(right, 54, "AIA G702 format", { size: 8, color: GRAY, align: "right" });
+  pdf.text(MARGIN, 54, "APPLICATION AND CERTIFICATE FOR PAYMENT", { font: "bold", size: 14, color: data.branding?.primary });
+  pdf.line(MARGIN, 62, right, 62, { width: 1, color: data.branding?.primary });
+
+  // Project / contractor block
+  const info: [string, string][] = [
+    ["PROJECT:", data.projectName],
+    ["", data.projectAddress ?? ""],
+    ["FROM CONTRACTOR:", data.contractorName],
+    ["TO OWNER:", ""],
+  ];
+  info.forEach(([label, value], i) => {
+    const y = 82 + i * 14;
+    pdf.text(MARGIN, y, label, { font: "bold", size: 8 });
+    pdf.text(MARGIN + 90, y, fitText(value, 200, "regular", 9), { size: 9 });
+  });
+  const appInfo: [string, string][] = [
+    ["APPLICATION NO:", String(data.applicationNumber)],
+    ["APPLICATION DATE:", date(data.applicationDate)],
+    ["PERIOD FROM:", date(data.periodStart)],
+    ["PERIOD TO:", date(data.periodEnd)],
+  ];
+  appInfo.forEach(([label, value], i) => {
+    const y = 82 + i * 14;
+    pdf.text(360, y, label, { font: "bold", size: 8 });
+    pdf.text(right, y, value, { size: 9, align: "right" });
+  });
+
+  // Summary lines
+  let y = 158;
+  pdf.rect(MARGIN, y - 12, right - MARGIN, 18, { fill: shade });
+  pdf.text(MARGIN + 6, y, "CONTRACTOR'S APPLICATION FOR PAYMENT", { font: "bold", size: 10 });
+  y += 14;
+  pdf.text(MARGIN, y + 8, "Application is made for payment, as shown below, in connection with the Contract.", { size: 8, color: GRAY });
+  pdf.text(MARGIN, y + 18, "The Continuation Sheet (G703 format) is attached.", { size: 8, color: GRAY });
+  y += 40;
+
+  const row = (label: string, amount: number, opts: { bold?: boolean; indent?: boolean } = {}) => {
+    const font = opts.bold ? "bold" : "regular";
+    pdf.text(MARGIN + (opts.indent ? 24 : 0), y, label, { font, size: 9 });
+    pdf.text(opts.indent ? right - 110 : right, y, money(amount), { font, size: 9, align: "right" });
+    pdf.line(opts.indent ? right - 190 : right - 100, y + 3, opts.indent ? right - 110 : right, y + 3, { width: 0.3, color: GRAY });
+    y += 18;
+  };
+  row("1. ORIGINAL CONTRACT SUM", s.originalContractSum);
+  row("2. NET CHANGE BY CHANGE ORDERS", s.netChangeOrders);
+  row("3. CONTRACT SUM TO DATE (Line 1 ± 2)", s.contractSumToDate, { bold: true });
+  row("4. TOTAL COMPLETED & STORED TO DATE (Column G on G703)", s.totalCompletedAndStored);
+  pdf.text(MARGIN, y, "5. RETAINAGE:", { size: 9 });
+  y += 16;
+  row("a. On completed work (Columns D + E on G703)", s.retainageOnWork, { indent: true });
+  row("b. On stored material (Column F on G703)", s.retainageOnStored, { indent: true });
+  y -= 4;
+  row("   Total Retainage (Lines 5a + 5b)", s.totalRetainage);
+  row("6. TOTAL EARNED LESS RETAINAGE (Line 4 minus Line 5 Total)", s.totalEarnedLessRetainage);
+  row("7. LESS PREVIOUS CERTIFICATES FOR PAYMENT (Line 6 from prior Certificate)", s.previousCertificates);
+  pdf.rect(MARGIN, y - 12, right - MARGIN, 18, { fill: shade });
+  row("8. CURRENT PAYMENT DUE", s.currentPaymentDue, { bold: true });
+  row("9. BALANCE TO FINISH, INCLUDING RETAINAGE (Line 3 minus Line 6)", s.balanceToFinish);
+
+  // Contractor certification
+  y += 10;
+  const certification =
+    "The undersigned Contractor certifies that to the best of the Contractor's knowledge, information and belief " +
+    "the Work covered by this Application for Payment has been completed in accordance with the Contract Documents, " +
+    "that all amounts have been paid by the Contractor for Work for which previous Certificates for Payment were " +
+    "issued and payments received from the Owner, and that current payment shown herein is now due.";
+  for (const line of wrapText(certification, right - MARGIN, "regular", 8)) {
+    pdf.text(MARGIN, y, line, { size: 8 });
+    y += 10;
+  }
+  y += 22;
+  pdf.text(MARGIN, y, `CONTRACTOR: ${data.contractorName}`, { font: "bold", size: 8 });
+  y += 26;
+  pdf.line(MARGIN + 20, y, 300, y);
+  pdf.line(360, y, right, y);
+  pdf.text(MARGIN, y, "By:", { size: 8 });
+  pdf.text(336, y, "Date:", { size: 8 });
+
+  // Architect's certificate
+  y += 30;
+  pdf.rect(MARGIN, y - 12, right - MARGIN, 18, { fill: shade });
+  pdf.text(MARGIN + 6, y, "ARCHITECT'S CERTIFICATE FOR PAYMENT", { font: "bold", size: 10 });
+  y += 18;
+  const architect =
+    "In accordance with the Contract Documents, based on evaluations of the Work and the data comprising this " +
+    "application, the Architect certifies to the Owner that to the best of the Architect's knowledge, information and " +
+    "belief the Work has progressed as indicated, the quality of the Work is in accordance with the Contract Documents, " +
+    "and the Contractor is entitled to payment of the AMOUNT CERTIFIED.";
+  for (const line of wrapText(architect, right - MARGIN, "regular", 8)) {
+    pdf.text(MARGIN, y, line, { size: 8 });
+    y += 10;
+  }
+  y += 16;
+  pdf.text(MARGIN, y, "AMOUNT CERTIFIED:", { font: "bold", size: 9 });
+  pdf.line(MARGIN + 110, y + 2, 300, y + 2);
+  y += 30;
+  pdf.text(MARGIN, y, "ARCHITECT:", { font: "bold", size: 8 });
+  y += 26;
+  pdf.line(MARGIN + 20, y, 300, y);
+  pdf.line(360, y, right, y);
+  pdf.text(MARGIN, y, "By:", { size: 8 });
+  pdf.text(336, y, "Date:", { size: 8 });
+}
+
+// ── G703 ──
+
+interface Column {
+  letter: string;
+  label: string;
+  width: number;
+  value: (l: G703Line) => string;
+  total?: (s: G702Summary, lines: G703Line[]) => string;
+}
+
+const sumOf = (lines: G703Line[], pick: (l: G703Line) => number) => lines.reduce((s, l) => s + pick(l), 0);
+
+const COLUMNS: Column[] = [
+  { letter: "A", label: "ITEM NO.", width: 40, value: (l) => l.itemNumber },
+  { letter: "B", label: "DESCRIPTION OF WORK", width: 166, value: (l) => l.description, total: () => "GRAND TOTAL" },
+  { letter: "C", label: "SCHEDULED VALUE", width: 70, value: (l) => plain(l.scheduledValue), total: (s) => plain(s.originalContractSum) },
+  { letter: "D", label: "FROM PREVIOUS APPLICATION", width: 70, value: (l) => plain(l.previousWork), total: (_, ls) => plain(sumOf(ls, (l) => l.previousWork)) },
+  { letter: "E", label: "THIS PERIOD", width: 70, value: (l) => plain(l.workThisPeriod), total: (_, ls) => plain(sumOf(ls, (l) => l.workThisPeriod)) },
+  { letter: "F", label: "MATERIALS PRESENTLY STORED", width: 66, value: (l) => plain(l.materialsStored), total: (_, ls) => plain(sumOf(ls, (l) => l.materialsStored)) },
+  { letter: "G", label: "COMPLETED & STORED TO DATE", width: 74, value: (l) => plain(l.completedAndStored), total: (s) => plain(s.totalCompletedAndStored) },
+  { letter: "%", label: "(G ÷ C)", width: 38, value: (l) => `${l.percentComplete.toFixed(1)}%`, total: (s) => (s.originalContractSum > 0 ? `${((s.totalCompletedAndStored / s.originalContractSum) * 100).toFixed(1)}%` : "") },
+  { letter: "H", label: "BALANCE TO FINISH", width: 66, value: (l) => plain(l.balanceToFinish), total: (_, ls) => plain(sumOf(ls, (l) => l.balanceToFinish)) },
+  { letter: "I", label: "RETAINAGE", width: 60, value: (l) => plain(l.retainage), total: (s) => plain(s.totalRetainage) },
+];
+
+const ROW_HEIGHT = 16;
+const TABLE_TOP = 104;
+
+function drawG703(pdf: PdfDocument, data: PayAppPdfData) {
+  const { height } = LETTER_LANDSCAPE;
+  const rowsPerPage = Math.floor((height - TABLE_TOP - 40 - 60) / ROW_HEIGHT);
+  const pageCount = Math.max(1, Math.ceil((data.lines.length + 1) / rowsPerPage));
+
+  for (let page = 0; page < pageCount; page++) {
+    const { width } = pdf.addPage(LETTER_LANDSCAPE);
+    const right = width - MARGIN;
+    const shade = data.branding?.tint ?? SHADE;
+
+    pdf.text(MARGIN, 48, "CONTINUATION SHEET", { font: "bold", size: 14 });
+    pdf.text(MARGIN, 62, "AIA G703 format — attached to the Application and Certificate for Payment", { size: 8, color: GRAY });
+    pdf.text(MARGIN, 78, fitText(data.projectName, 300, "bold", 9), { font: "bold", size: 9 });
+    pdf.text(right, 48, `APPLICATION NO: ${data.applicationNumber}`, { font: "bold", size: 9, align: "right" });
+    pdf.text(right, 62, `APPLICATION DATE: ${date(data.applicationDate)}`, { size: 8, align: "right" });
+    pdf.text(right, 74, `PERIOD TO: ${date(data.periodEnd)}`, { size: 8, align: "right" });
+
+    // Header: letters row + wrapped labels
+    let x = MARGIN;
+    pdf.rect(MARGIN, TABLE_TOP - 24, right - MARGIN, 40, { fill: shade });
+    for (const col of COLUMNS) {
+      pdf.text(x + col.width / 2, TABLE_TOP - 14, col.letter, { font: "bold", size: 8, align: "center" });
+      wrapText(col.label, col.width - 4, "bold", 6).slice(0, 3).forEach((line, i) => {
+        pdf.text(x + col.width / 2, TABLE_TOP - 4 + i * 7, line, { font: "bold", size: 6, align: "center" });
+      });
+      x += col.width;
+    }
+
+    const rows = data.lines.slice(page * rowsPerPage, (page + 1) * rowsPerPage);
+    let y = TABLE_TOP + 16;
+    for (const line of rows) {
+      drawRow(pdf, y, COLUMNS.map((c) => c.value(line)), "regular");
+      y += ROW_HEIGHT;
+    }
+    if (page === pageCount - 1) {
+      pdf.rect(MARGIN, y, right - MARGIN, ROW_HEIGHT, { fill: shade });
+      drawRow(pdf, y, COLUMNS.map((c) => c.total?.(data.summary, data.lines) ?? ""), "bold");
+      y += ROW_HEIGHT;
+    }
+
+    // Grid
+    pdf.rect(MARGIN, TABLE_TOP - 24, right - MARGIN, y - TABLE_TOP + 24);
+    x = MARGIN;
+    for (const col of COLUMNS.slice(0, -1)) {
+      x += col.width;
+      pdf.line(x, TABLE_TOP - 24, x, y);
+    }
+
+    pdf.text(right, height - 24, `Page ${page + 1} of ${pageCount}`, { size: 7, color: GRAY, align: "right" });
+  }
+}
+
+function drawRow(pdf: PdfDocument, top: number, cells: string[], font: "regular" | "bold") {
+  let x = MARGIN;
+  cells.forEach((cell, i) => {
+    const col = COLUMNS[i];
+    const baseline = top + 11;
+    // A and B are text; every other column is a right-aligned amount
+    if (i < 2) pdf.text(x + 3, baseline, fitText(cell, col.width - 6, font, 7), { font, size: 7 });
+    else pdf.text(x + col.width - 3, baseline, cell, { font, size: 7, align: "right" });
+    x += col.width;
+  });
+  pdf.line(MARGIN, top + ROW_HEIGHT, x, top + ROW_HEIGHT, { width: 0.25, color: GRAY });
+}
+
+/** Render the G702 summary page followed by the G703 continuation sheet(s). */
+export function renderPayApplicationPdf(data: PayAppPdfData): Buffer {
+  const pdf = createPdf();
+  drawG702(pdf, data);
+  drawG703(pdf, data);
+  return pdf.toBuffer();
+}
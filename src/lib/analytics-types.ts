@@ -8,6 +8,9 @@
  * AnalyticsWidgets component.
  */
 
+import type { EvmMetrics } from "@/lib/earned-value";
+import type { CashFlowProjection } from "@/lib/cash-flow";
+
 /** Full analytics payload for the dashboard analytics page. */
 export interface AnalyticsData {
   /** Breakdown of projects by status enum (e.g. ACTIVE, COMPLETE, ON_HOLD). */
@@ -26,6 +29,17 @@ export interface AnalyticsData {
   budgetCurve: { month: string; planned: number; actual: number }[];
   /** Per-project budget breakdown for the comparison bar chart. */
   projectBudgets: { name: string; estimated: number; actual: number }[];
+  /** Earned value across the user's projects (lib/earned-value.ts). */
+  earnedValue: {
+    /** Live totals as of now; null when no phase has a budget. */
+    current: EvmMetrics | null;
+    /** Weekly PV / EV / AC and indices from stored snapshots, ending with the live week. */
+    trend: { week: string; plannedValue: number; earnedValue: number; actualCost: number; cpi: number | null; spi: number | null }[];
+    /** Per-project indices and forecast (top 8 by budget at completion). */
+    projects: { name: string; cpi: number | null; spi: number | null; estimateAtCompletion: number; varianceAtCompletion: number }[];
+  };
+  /** Monthly cash in / out across the user's open projects in the org (lib/cash-flow.ts). */
+  cashFlow: Pick<CashFlowProjection, "months" | "totals">;
 }
 
 /**
@@ -0,0 +1,68 @@
+/**
+ * @file api-scopes.ts
+ * @description Scope vocabulary for API keys used by the `/api/v1` REST API.
+ *
+ * A scope string is `<collection>:<access>`, e.g. `projects:read`, `rfis:write`,
+ * `time:write`. Checks are expressed with the same `Action` names as the role
+ * matrix in `lib/permissions.ts` and mapped onto scopes:
+ *   - "view"                        → `:read`
+ *   - "create" | "update" | "delete" | "manage" → `:write`
+ *
+ * A `:write` scope implies `:read` on the same collection.
+ *
+ * Kept free of server imports so the settings UI can render the scope picker.
+ */
+
+import type { Action, Resource } from "@/lib/permissions";
+
+/** Resources reachable through `/api/v1`. Shares names with `Resource` where they overlap. */
+export type ApiResource =
+  | Extract<Resource, "project" | "phase">
+  | "change_order"
+  | "rfi"
+  | "submittal"
+  | "daily_log"
+  | "time";
+
+export type ApiScopeAccess = "read" | "write";
+
+/** Collection name used in scope strings for each resource. */
+const scopeCollections: Record<ApiResource, string> = {
+  project: "projects",
+  phase: "phases",
+  change_order: "change_orders",
+  rfi: "rfis",
+  submittal: "submittals",
+  daily_log: "daily_logs",
+  time: "time",
+};
+
+/** Every valid scope string, in display order. */
+export const API_SCOPES: string[] = Object.values(scopeCollections).flatMap((c) => [
+  `${c}:read`,
+  `${c}:write`,
+]);
+
+/** Scope string required to perform `action` on `resource`. */
+export function apiScopeFor(action: Action, resource: ApiResource): string {
+  const access: ApiScopeAccess = action === "view" ? "read" : "write";
+  return `${scopeCollections[resource]}:${access}`;
+}
+
+/**
+ * Check whether a key's scopes allow an action on a resource.
+ * Keys with no scopes (issued before scoping existed) are denied everything.
+ *
+ * @param scopes - The key's granted scope strings
+ * @param action - The action to check (e.g. "view", "create")
+ * @param resource - The API resource (e.g. "rfi")
+ */
+export function keyCan(scopes: string[], action: Action, resource: ApiResource): boolean {
+  if (scopes.includes(apiScopeFor(action, resource))) return true;
+  return action === "view" && scopes.includes(apiScopeFor("update", resource));
+}
+
+/** Drop unknown entries and duplicates from user-supplied scope input. */
+export function normalizeScopes(scopes: string[]): string[] {
+  return API_SCOPES.filter((s) => scopes.includes(s));
+}
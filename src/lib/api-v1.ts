@@ -0,0 +1,276 @@
+/**
+ * @file api-v1.ts
+ * @description Shared plumbing for the versioned public REST API under `/api/v1`.
+ *
+ * Every v1 route handler is wrapped in `withApiKey(resource, handler)`, which:
+ *   1. Extracts the `Authorization: Bearer cpk_...` header
+ *   2. Resolves the key via `resolveApiKey` (hash lookup, active/expiry check,
+ *      fire-and-forget `lastUsedAt` / `lastUsedIp` update)
+ *   3. Checks the key's scopes — GET needs `<resource>:read`, other methods
+ *      need `<resource>:write` (see lib/api-scopes.ts) → 403 insufficient_scope
+ *   4. Applies the per-key rate limit using the shared `rateLimitHeaders` helper
+ *   5. Converts thrown ZodErrors into 400s and anything else into a 500
+ *
+ * Error bodies are always shaped `{ error: { code, message } }` so integrators
+ * can branch on `code` without parsing human-readable text.
+ *
+ * List endpoints use cursor pagination: `?limit=50&cursor=<id>`. Rows are
+ * ordered newest first (createdAt desc, id desc as tiebreaker) and the
+ * response carries `nextCursor` (null on the last page).
+ *
+ * Org isolation: routes MUST build their `where` clauses with the scoping
+ * helpers below — an API key never sees data outside its `orgId`, nor outside
+ * its project allow-list when one is set.
+ */
+
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { db } from "@/lib/db";
+import { rateLimitHeaders } from "@/lib/rate-limit";
+import { keyCan, apiScopeFor, type ApiResource } from "@/lib/api-scopes";
+import type { Action } from "@/lib/permissions";
+
+// ── Types ──
+
+/** Resolved caller identity passed to every v1 handler. */
+export interface ApiContext {
+  request: NextRequest;
+  orgId: string;
+  keyId: string;
+  /** User the key was issued by — writes are attributed to them. Null = read-only. */
+  userId: string | null;
+  /** Projects the key is limited to. Empty = every project in the org. */
+  projectIds: string[];
+  /** Rate-limit headers to echo on the response. */
+  headers: Record<string, string>;
+}
+
+type RouteSegment<P> = { params: Promise<P> };
+
+// ── Constants ──
+
+/** Requests per minute allowed for a single API key. */
+const RATE_LIMIT_PER_MINUTE = 120;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/** Permission action implied by each HTTP method. */
+const METHOD_ACTIONS: Record<string, Action> = {
+  GET: "view",
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+// ── Key resolution ──
+
+/**
+ * Look up an API key by its plaintext value.
+ * Returns null for unknown, revoked, or expired keys. On success, `lastUsedAt`
+ * (and `lastUsedIp` when known) is updated fire-and-forget so the request is
+ * never blocked on the write.
+ */
+export async function resolveApiKey(rawKey: string, ip?: string | null) {
+  const keyHash = createHash("sha256").update(rawKey).digest("hex");
+  const record = await db.apiKey.findUnique({ where: { keyHash } });
+  if (!record || !record.active) return null;
+  if (record.expiresAt && record.expiresAt < new Date()) return null;
+
+  db.apiKey
+    .update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date(), ...(ip ? { lastUsedIp: ip } : {}) },
+    })
+    .catch(() => {});
+  return record;
+}
+
+/** First hop of `x-forwarded-for`, or null when the header is absent. */
+function clientIp(request: NextRequest): string | null {
+  return request.headers.get("x-forwarded-for")?.split(",")[0].trim() || null;
+}
+
+// ── Responses ──
+
+/** Build a JSON error response with the standard v1 error body. */
+export function apiError(
+  status: number,
+  code: string,
+  message: string,
+  headers?: Record<string, string>
+) {
+  return NextResponse.json({ error: { code, message } }, { status, headers });
+}
+
+/** Build a JSON success response, echoing rate-limit headers from the context. */
+export function apiJson(ctx: ApiContext, body: unknown, status = 200) {
+  return NextResponse.json(body, { status, headers: ctx.headers });
+}
+
+/** Shortcut for the 404 every detail route returns for missing/foreign rows. */
+export function apiNotFound(ctx: ApiContext, resource: string) {
+  return apiError(404, "not_found", `${resource} not found`, ctx.headers);
+}
+
+// ── Handler wrapper ──
+
+/**
+ * Wrap a v1 route handler with API key auth, scope check, rate limiting and
+ * error mapping. The required scope is derived from `resource` and the HTTP method.
+ *
+ * @example
+ *   export const GET = withApiKey("project", async (ctx) => apiJson(ctx, { ok: true }));
+ */
+export function withApiKey<P = Record<string, never>>(
+  resource: ApiResource,
+  handler: (ctx: ApiContext, params: P) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, segment: RouteSegment<P>) => {
+    const header = request.headers.get("authorization") ?? "";
+    const match = /^Bearer\s+(cpk_[A-Za-z0-9]+)$/.exec(header.trim());
+    if (!match) {
+      return apiError(401, "unauthorized", "Missing or malformed Authorization header");
+    }
+
+    const key = await resolveApiKey(match[1], clientIp(request));
+    if (!key) {
+      return apiError(401, "unauthorized", "Invalid, revoked or expired API key");
+    }
+
+    const action = METHOD_ACTIONS[request.method] ?? "manage";
+    if (!keyCan(key.scopes, action, resource)) {
+      return apiError(
+        403,
+        "insufficient_scope",
+        `This API key is missing the "${apiScopeFor(action, resource)}" scope`
+      );
+    }
+
+    const rl = await rateLimitHeaders(`api-v1:${key.id}`, RATE_LIMIT_PER_MINUTE, 60_000);
+    if (rl.limited) {
+      return apiError(429, "rate_limited", "Rate limit exceeded. Try again later.", rl.headers);
+    }
+
+    const ctx: ApiContext = {
+      request,
+      orgId: key.orgId,
+      keyId: key.id,
+      userId: key.createdById,
+      projectIds: key.projectIds,
+      headers: rl.headers,
+    };
+
+    try {
+      return await handler(ctx, await segment.params);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return apiError(
+          400,
+          "validation_error",
+          err.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; "),
+          ctx.headers
+        );
+      }
+      console.error("[api/v1]", err);
+      return apiError(500, "internal_error", "Unexpected server error", ctx.headers);
+    }
+  };
+}
+
+/**
+ * Parse a JSON request body, returning null on malformed input so callers
+ * can reply with a 400 instead of a 500.
+ */
+export async function readJson(request: NextRequest): Promise<unknown | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+/** Reject writes from keys that have no owning user to attribute them to. */
+export function requireActor(ctx: ApiContext): NextResponse | null {
+  if (ctx.userId) return null;
+  return apiError(
+    403,
+    "read_only_key",
+    "This API key has no owning user and cannot perform writes — issue a new key",
+    ctx.headers
+  );
+}
+
+// ── Pagination ──
+
+/**
+ * Read `limit` and `cursor` from the query string and return the matching
+ * Prisma `findMany` arguments. One extra row is fetched to detect a next page.
+ */
+export function pageArgs(ctx: ApiContext) {
+  const params = ctx.request.nextUrl.searchParams;
+  const requested = parseInt(params.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requested)
+    ? Math.min(Math.max(requested, 1), MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE;
+  const cursor = params.get("cursor");
+
+  return {
+    limit,
+    args: {
+      take: limit + 1,
+      orderBy: [{ createdAt: "desc" as const }, { id: "desc" as const }],
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    },
+  };
+}
+
+/** Trim the look-ahead row and compute `nextCursor` for a page of results. */
+export function toPage<T extends { id: string }>(rows: T[], limit: number) {
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+  return { data, nextCursor: hasMore ? data[data.length - 1].id : null };
+}
+
+// ── Org scoping ──
+
+/** Optional `?projectId=` / `?phaseId=` / `?status=` filters shared by list routes. */
+export function queryFilter(ctx: ApiContext, name: string): string | undefined {
+  return ctx.request.nextUrl.searchParams.get(name) || undefined;
+}
+
+/**
+ * `where` for the Project model itself: the key's org, narrowed to its project
+ * allow-list and, optionally, to one requested project. A requested project
+ * outside the allow-list yields `id: { in: [] }`, i.e. no rows.
+ */
+export function projectWhere(ctx: ApiContext, projectId?: string) {
+  const allowed = ctx.projectIds.length > 0 ? ctx.projectIds : null;
+  const ids = projectId
+    ? [projectId].filter((id) => !allowed || allowed.includes(id))
+    : allowed;
+  return { orgId: ctx.orgId, ...(ids ? { id: { in: ids } } : {}) };
+}
+
+/** `where` fragment for models that hang directly off a project. */
+export function projectScope(ctx: ApiContext) {
+  return { project: projectWhere(ctx, queryFilter(ctx, "projectId")) };
+}
+
+/** `where` fragment for models that hang off a phase. */
+export function phaseScope(ctx: ApiContext) {
+  const phaseId = queryFilter(ctx, "phaseId");
+  return {
+    phase: { project: projectWhere(ctx, queryFilter(ctx, "projectId")) },
+    ...(phaseId ? { phaseId } : {}),
+  };
+}
+
+/** Confirm a phase is visible to the key before writing under it. */
+export async function findOrgPhase(ctx: ApiContext, phaseId: string) {
+  return db.phase.findFirst({
+    where: { id: phaseId, project: projectWhere(ctx) },
+    select: { id: true, projectId: true },
+  });
+}
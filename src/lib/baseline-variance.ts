@@ -0,0 +1,102 @@
+/**
+ * @file baseline-variance.ts
+ * @description Compares the current schedule against a saved ScheduleBaseline.
+ *
+ * Pure and synchronous — shared by the Gantt baseline overlay (client) and the
+ * "schedule variance vs baseline" report export (server).
+ *
+ * Conventions:
+ *   - Variance is measured in whole calendar days, current − baseline, so a
+ *     positive value means the phase is starting or finishing late.
+ *   - "Current" prefers actual dates where recorded, falling back to estimates.
+ *   - Cost variance is current cost (actual, else estimated) − baseline
+ *     estimated cost; null when either side has no cost.
+ */
+
+// ── Types ──
+
+export interface BaselineSnapshot {
+  phaseId: string;
+  name: string;
+  estStart: Date;
+  estEnd: Date;
+  estimatedCost?: number | null;
+}
+
+export interface CurrentPhase {
+  id: string;
+  name: string;
+  estStart: Date;
+  estEnd: Date;
+  actualStart?: Date | null;
+  actualEnd?: Date | null;
+  estimatedCost?: number | null;
+  actualCost?: number | null;
+}
+
+export interface PhaseVariance {
+  phaseId: string;
+  name: string;
+  /** Null for phases added after the baseline was taken. */
+  baselineStart: Date | null;
+  baselineEnd: Date | null;
+  /** Null for phases deleted since the baseline was taken. */
+  currentStart: Date | null;
+  currentEnd: Date | null;
+  startVarianceDays: number | null;
+  finishVarianceDays: number | null;
+  costVariance: number | null;
+}
+
+const DAY_MS = 86_400_000;
+
+/** Whole days from `baseline` to `current` (positive = later). */
+export function varianceDays(baseline: Date, current: Date): number {
+  return Math.round((current.getTime() - baseline.getTime()) / DAY_MS);
+}
+
+/**
+ * Per-phase variance between `phases` and a baseline snapshot.
+ * Rows follow the current phase order, then phases that only exist in the baseline.
+ */
+export function computeBaselineVariance(
+  phases: CurrentPhase[],
+  baseline: BaselineSnapshot[]
+): PhaseVariance[] {
+  const byPhase = new Map(baseline.map((b) => [b.phaseId, b]));
+  const rows: PhaseVariance[] = phases.map((p) => {
+    const b = byPhase.get(p.id);
+    const currentStart = p.actualStart ?? p.estStart;
+    const currentEnd = p.actualEnd ?? p.estEnd;
+    const currentCost = p.actualCost ?? p.estimatedCost ?? null;
+    return {
+      phaseId: p.id,
+      name: p.name,
+      baselineStart: b?.estStart ?? null,
+      baselineEnd: b?.estEnd ?? null,
+      currentStart,
+      currentEnd,
+      startVarianceDays: b ? varianceDays(b.estStart, currentStart) : null,
+      finishVarianceDays: b ? varianceDays(b.estEnd, currentEnd) : null,
+      costVariance: b?.estimatedCost != null && currentCost != null ? currentCost - b.estimatedCost : null,
+    };
+  });
+
+  const current = new Set(phases.map((p) => p.id));
+  for (const b of baseline) {
+    if (current.has(b.phaseId)) continue;
+    rows.push({
+      phaseId: b.phaseId,
+      name: b.name,
+      baselineStart: b.estStart,
+      baselineEnd: b.estEnd,
+      currentStart: null,
+      currentEnd: null,
+      startVarianceDays: null,
+      finishVarianceDays: null,
+      costVariance: null,
+    });
+  }
+
+  return rows;
+}
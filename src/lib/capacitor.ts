@@ -69,6 +69,16 @@ export async function takePhoto(): Promise<PhotoResult | null> {
   }
 }
 
+/**
+ * Turn a captured photo into a File, e.g. to upload it or to queue it for
+ * upload while offline (lib/offline-uploads.ts).
+ */
+export async function photoToFile(photo: PhotoResult): Promise<File> {
+  const blob = await (await fetch(photo.dataUrl)).blob();
+  const type = blob.type || `image/${photo.format}`;
+  return new File([blob], `photo-${Date.now()}.${photo.format}`, { type });
+}
+
 // ──────────────────────────────────────────────
 // Geolocation
 // ──────────────────────────────────────────────
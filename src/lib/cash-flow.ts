@@ -0,0 +1,351 @@
+/**
+ * @file cash-flow.ts
+ * @description Monthly cash-in / cash-out projection per project and per org,
+ * and its XLSX export.
+ *
+ * Work still to do on each phase is spread evenly by day over what is left of
+ * its planned window (today → estEnd; overdue phases land this month). Work
+ * done in a month is billed and invoiced at month end, then:
+ *   cash in  = billing × (1 − retainage %), received `receivableLagDays` later
+ *   cash out = vendor cost, paid `payableLagDays` later; subcontract cost is
+ *              paid net of the same retainage %
+ * Retainage (already held on the ledger plus what the remaining work will
+ * withhold) is received / paid when the last phase finishes, after the lag.
+ *
+ * Amounts:
+ *   billing    = phase estimate (+ executed owner COs) × remaining %, scaled to the
+ *                schedule of values' contract sum when the project has one
+ *   vendor cost = the larger of the remaining estimate and the unbilled
+ *                balance of approved subcontracts / POs on the phase
+ *   retainage % = the project's current rate tier, else the effective rate on
+ *                its latest contractor pay application, else 0
+ * Submitted or approved contractor pay applications not yet PAID, and vendor
+ * invoices still inside the payment lag, are scheduled from their own dates.
+ */
+
+import * as XLSX from "xlsx";
+import { db } from "@/lib/db";
+import { summarizeCommitment } from "@/lib/commitments";
+import { rateForCompletion, summarizeRetainage } from "@/lib/retainage";
+
+export interface CashFlowPhaseInput {
+  id: string;
+  estStart: Date;
+  estEnd: Date;
+  progress: number;
+  status: string;
+  /** Estimated cost plus approved change orders. */
+  estimate: number;
+}
+
+export interface CashFlowInput {
+  receivableLagDays: number;
+  payableLagDays: number;
+  retainagePercent: number;
+  /** Contract sum ÷ total estimate (1 without a schedule of values). */
+  billingFactor: number;
+  phases: CashFlowPhaseInput[];
+  /** Unbilled balance of approved commitments. */
+  commitments: { phaseId: string | null; type: "SUBCONTRACT" | "PURCHASE_ORDER"; remaining: number }[];
+  /** Billed, not yet paid: contractor pay apps (in) and vendor invoices (out). */
+  receivables: { date: Date; amount: number }[];
+  payables: { date: Date; amount: number }[];
+  /** Retainage balances already on the ledger. */
+  retainageHeld: { receivable: number; payable: number };
+}
+
+export interface CashFlowMonth {
+  /** "YYYY-MM" */
+  month: string;
+  cashIn: number;
+  cashOut: number;
+  net: number;
+  cumulativeIn: number;
+  cumulativeOut: number;
+  cumulativeNet: number;
+}
+
+export interface CashFlowProjection {
+  receivableLagDays: number;
+  payableLagDays: number;
+  retainagePercent: number;
+  months: CashFlowMonth[];
+  totals: {
+    cashIn: number;
+    cashOut: number;
+    net: number;
+    /** Lowest cumulative position — the most cash the projects will need. */
+    lowestBalance: number;
+  };
+}
+
+const DAY = 86_400_000;
+const cents = (n: number) => Math.round(n * 100) / 100;
+const monthKey = (d: Date) => d.toISOString().slice(0, 7);
+const utcDay = (d: Date) => Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+const monthEnd = (key: string) => new Date(Date.UTC(Number(key.slice(0, 4)), Number(key.slice(5, 7)), 0));
+
+/** Split `amount` over calendar months by day, evenly from `start` to `end` (inclusive). */
+export function spreadByMonth(amount: number, start: Date, end: Date): Map<string, number> {
+  const result = new Map<string, number>();
+  const from = utcDay(start);
+  const days = Math.max(1, Math.round((utcDay(end) - from) / DAY) + 1);
+  for (let i = 0; i < days; i++) {
+    const key = monthKey(new Date(from + i * DAY));
+    result.set(key, (result.get(key) ?? 0) + amount / days);
+  }
+  return result;
+}
+
+/** Build the month-by-month projection from `asOf`'s month onward. */
+export function projectCashFlow(input: CashFlowInput, asOf: Date = new Date()): CashFlowProjection {
+  const cashIn = new Map<string, number>();
+  const cashOut = new Map<string, number>();
+  const today = new Date(utcDay(asOf));
+  const add = (into: Map<string, number>, date: Date, amount: number) => {
+    if (amount === 0) return;
+    const key = monthKey(date < today ? today : date);
+    into.set(key, (into.get(key) ?? 0) + amount);
+  };
+  const after = (date: Date, days: number) => new Date(date.getTime() + days * DAY);
+  const rate = input.retainagePercent / 100;
+
+  let retainageIn = input.retainageHeld.receivable;
+  let retainageOut = input.retainageHeld.payable;
+  let completion = today;
+
+  for (const phase of input.phases) {
+    if (phase.estEnd > completion) completion = phase.estEnd;
+    if (phase.status === "COMPLETE") continue;
+    const remainingShare = 1 - Math.min(100, Math.max(0, phase.progress)) / 100;
+    const billing = phase.estimate * remainingShare * input.billingFactor;
+    const commitments = input.commitments.filter((c) => c.phaseId === phase.id);
+    const subcontracted = commitments.filter((c) => c.type === "SUBCONTRACT").reduce((s, c) => s + c.remaining, 0);
+    const committed = commitments.reduce((s, c) => s + c.remaining, 0);
+    const cost = Math.max(phase.estimate * remainingShare, committed);
+    if (billing <= 0 && cost <= 0) continue;
+
+    const start = phase.estStart > today ? phase.estStart : today;
+    const end = phase.estEnd > start ? phase.estEnd : start;
+    for (const [key, share] of spreadByMonth(1, start, end)) {
+      const billed = monthEnd(key);
+      add(cashIn, after(billed, input.receivableLagDays), billing * share * (1 - rate));
+      add(cashOut, after(billed, input.payableLagDays), (cost - subcontracted * rate) * share);
+    }
+    retainageIn += billing * rate;
+    retainageOut += subcontracted * rate;
+  }
+
+  // Commitments not tied to a phase are paid across the rest of the project
+  const unphased = input.commitments.filter((c) => c.phaseId === null);
+  for (const c of unphased) {
+    const held = c.type === "SUBCONTRACT" ? c.remaining * rate : 0;
+    for (const [key, share] of spreadByMonth(1, today, completion)) {
+      add(cashOut, after(monthEnd(key), input.payableLagDays), (c.remaining - held) * share);
+    }
+    retainageOut += held;
+  }
+
+  for (const r of input.receivables) add(cashIn, after(r.date, input.receivableLagDays), r.amount);
+  for (const p of input.payables) add(cashOut, after(p.date, input.payableLagDays), p.amount);
+  add(cashIn, after(completion, input.receivableLagDays), retainageIn);
+  add(cashOut, after(completion, input.payableLagDays), retainageOut);
+
+  return {
+    receivableLagDays: input.receivableLagDays,
+    payableLagDays: input.payableLagDays,
+    retainagePercent: input.retainagePercent,
+    ...accumulate(cashIn, cashOut),
+  };
+}
+
+/** Turn per-month totals into a continuous, cumulative month series. */
+function accumulate(cashIn: Map<string, number>, cashOut: Map<string, number>): Pick<CashFlowProjection, "months" | "totals"> {
+  const keys = [...cashIn.keys(), ...cashOut.keys()].sort();
+  const months: CashFlowMonth[] = [];
+  let cumulativeIn = 0;
+  let cumulativeOut = 0;
+  let lowestBalance = 0;
+  if (keys.length > 0) {
+    const last = keys[keys.length - 1];
+    for (let d = new Date(`${keys[0]}-01T00:00:00Z`); monthKey(d) <= last; d.setUTCMonth(d.getUTCMonth() + 1)) {
+      const month = monthKey(d);
+      const inflow = cents(cashIn.get(month) ?? 0);
+      const outflow = cents(cashOut.get(month) ?? 0);
+      cumulativeIn = cents(cumulativeIn + inflow);
+      cumulativeOut = cents(cumulativeOut + outflow);
+      lowestBalance = Math.min(lowestBalance, cents(cumulativeIn - cumulativeOut));
+      months.push({
+        month,
+        cashIn: inflow,
+        cashOut: outflow,
+        net: cents(inflow - outflow),
+        cumulativeIn,
+        cumulativeOut,
+        cumulativeNet: cents(cumulativeIn - cumulativeOut),
+      });
+    }
+  }
+  return {
+    months,
+    totals: { cashIn: cumulativeIn, cashOut: cumulativeOut, net: cents(cumulativeIn - cumulativeOut), lowestBalance },
+  };
+}
+
+/** Org roll-up: months summed across projects (lags and rate vary, so they are zeroed). */
+export function combineCashFlows(projections: CashFlowProjection[]): CashFlowProjection {
+  const cashIn = new Map<string, number>();
+  const cashOut = new Map<string, number>();
+  for (const p of projections) {
+    for (const m of p.months) {
+      cashIn.set(m.month, (cashIn.get(m.month) ?? 0) + m.cashIn);
+      cashOut.set(m.month, (cashOut.get(m.month) ?? 0) + m.cashOut);
+    }
+  }
+  return { receivableLagDays: 0, payableLagDays: 0, retainagePercent: 0, ...accumulate(cashIn, cashOut) };
+}
+
+// ── Persistence ──
+
+/** Cash flow for each project (projects with no phases are omitted). */
+export async function loadProjectCashFlows(projectIds: string[], asOf: Date = new Date()): Promise<Map<string, CashFlowProjection>> {
+  const result = new Map<string, CashFlowProjection>();
+  if (projectIds.length === 0) return result;
+  const [projects, commitments, payApps, invoices, ledger] = await Promise.all([
+    db.project.findMany({
+      where: { id: { in: projectIds } },
+      select: {
+        id: true,
+        receivableLagDays: true,
+        payableLagDays: true,
+        phases: {
+          select: {
+            id: true, estStart: true, estEnd: true, progress: true, status: true, estimatedCost: true,
+            changeOrders: { where: { type: "CO", status: "APPROVED" }, select: { amount: true } },
+          },
+        },
+        sovLineItems: {
+          select: {
+            scheduledValue: true,
+            payAppLines: { where: { paymentApplication: { status: { not: "REJECTED" } } }, select: { workThisPeriod: true } },
+          },
+        },
+        retainageRateTiers: { select: { minPercentComplete: true, ratePercent: true } },
+      },
+    }),
+    db.commitment.findMany({
+      where: { projectId: { in: projectIds }, status: "APPROVED" },
+      select: {
+        projectId: true, phaseId: true, type: true, status: true, originalAmount: true,
+        changes: { select: { amount: true, status: true } },
+        invoices: { select: { amount: true } },
+      },
+    }),
+    // Contractor pay applications: latest sets the retainage rate; unpaid ones are receivable
+    db.paymentApplication.findMany({
+      where: {
+        vendorName: null,
+        status: { in: ["SUBMITTED", "APPROVED", "PAID"] },
+        OR: [{ projectId: { in: projectIds } }, { phase: { projectId: { in: projectIds } } }],
+      },
+      select: {
+        projectId: true, status: true, periodEnd: true, workCompleted: true, materialsStored: true,
+        retainage: true, currentDue: true, phase: { select: { projectId: true } },
+      },
+      orderBy: { periodEnd: "desc" },
+    }),
+    db.commitmentInvoice.findMany({
+      where: { commitment: { projectId: { in: projectIds } } },
+      select: { amount: true, invoiceDate: true, commitment: { select: { projectId: true } } },
+    }),
+    db.retainageEntry.findMany({
+      where: { projectId: { in: projectIds } },
+      select: { projectId: true, type: true, amount: true, vendorName: true, final: true },
+    }),
+  ]);
+
+  for (const project of projects) {
+    if (project.phases.length === 0) continue;
+    const apps = payApps.filter((a) => (a.projectId ?? a.phase?.projectId) === project.id);
+
+    const tiers = project.retainageRateTiers.map((t) => ({ minPercentComplete: Number(t.minPercentComplete), ratePercent: Number(t.ratePercent) }));
+    const contractSum = project.sovLineItems.reduce((s, i) => s + Number(i.scheduledValue), 0);
+    const billedSov = project.sovLineItems.reduce((s, i) => s + i.payAppLines.reduce((a, l) => a + Number(l.workThisPeriod), 0), 0);
+    const latest = apps[0];
+    const latestBase = latest ? Number(latest.workCompleted) + Number(latest.materialsStored) : 0;
+    const retainagePercent =
+      (tiers.length > 0 ? rateForCompletion(tiers, contractSum > 0 ? (billedSov / contractSum) * 100 : 0) : null) ??
+      (latestBase > 0 ? Math.round((Number(latest.retainage) / latestBase) * 10000) / 100 : 0);
+
+    const phases = project.phases.map((p) => ({
+      id: p.id,
+      estStart: p.estStart,
+      estEnd: p.estEnd,
+      progress: p.progress,
+      status: p.status,
+      estimate: Number(p.estimatedCost ?? 0) + p.changeOrders.reduce((s, co) => s + Number(co.amount ?? 0), 0),
+    }));
+    const totalEstimate = phases.reduce((s, p) => s + p.estimate, 0);
+
+    const balances = summarizeRetainage(
+      ledger
+        .filter((e) => e.projectId === project.id)
+        .map((e) => ({ type: e.type, amount: Number(e.amount), vendorName: e.vendorName, final: e.final }))
+    );
+    const paymentWindow = new Date(asOf.getTime() - project.payableLagDays * DAY);
+
+    result.set(
+      project.id,
+      projectCashFlow(
+        {
+          receivableLagDays: project.receivableLagDays,
+          payableLagDays: project.payableLagDays,
+          retainagePercent,
+          billingFactor: contractSum > 0 && totalEstimate > 0 ? contractSum / totalEstimate : 1,
+          phases,
+          commitments: commitments
+            .filter((c) => c.projectId === project.id)
+            .map((c) => ({
+              phaseId: c.phaseId,
+              type: c.type,
+              remaining: summarizeCommitment({
+                status: c.status,
+                originalAmount: Number(c.originalAmount),
+                changes: c.changes.map((ch) => ({ amount: Number(ch.amount), status: ch.status })),
+                invoices: c.invoices.map((i) => ({ amount: Number(i.amount) })),
+              }).remaining,
+            })),
+          receivables: apps.filter((a) => a.status !== "PAID").map((a) => ({ date: a.periodEnd, amount: Number(a.currentDue) })),
+          payables: invoices
+            .filter((i) => i.commitment.projectId === project.id && i.invoiceDate > paymentWindow)
+            .map((i) => ({ date: i.invoiceDate, amount: Number(i.amount) })),
+          retainageHeld: {
+            receivable: balances.filter((b) => b.vendorName === null).reduce((s, b) => s + b.balance, 0),
+            payable: balances.filter((b) => b.vendorName !== null).reduce((s, b) => s + b.balance, 0),
+          },
+        },
+        asOf
+      )
+    );
+  }
+  return result;
+}
+
+// ── Export ──
+
+const HEADER = ["Month", "Cash in", "Cash out", "Net", "Cumulative in", "Cumulative out", "Cumulative net"];
+const monthRow = (m: CashFlowMonth) => [m.month, m.cashIn, m.cashOut, m.net, m.cumulativeIn, m.cumulativeOut, m.cumulativeNet];
+
+/**
+ * XLSX workbook: a "Cash flow" sheet with the (combined) months, plus a
+ * "By project" sheet when more than one project is included.
+ */
+export function cashFlowWorkbook(total: CashFlowProjection, projects: { name: string; projection: CashFlowProjection }[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([HEADER, ...total.months.map(monthRow)]), "Cash flow");
+  if (projects.length > 1) {
+    const rows = projects.flatMap((p) => p.projection.months.map((m) => [p.name, ...monthRow(m)]));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["Project", ...HEADER], ...rows]), "By project");
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,98 @@
+/**
+ * @file change-order-approvals.ts
+ * @description Routing rules for multi-step change order approval chains.
+ *
+ * A chain is a list of steps grouped into stages. Stages run in ascending
+ * order; steps that share a stage run in parallel and all must approve before
+ * the next stage opens. Any rejection rejects the change order.
+ *
+ * Amount-based routing happens at two levels, both on the change order's
+ * absolute amount:
+ *   - chain:  the active chain with the highest `minAmount` not above the amount
+ *   - step:   a step with `minAmount` above the amount is SKIPPED; when every
+ *             step is skipped the chain does not apply at all
+ *
+ * A step is assigned either to a specific user or to everyone with a role, and
+ * may be delegated to another user while pending. ADMINs can act on any step.
+ *
+ * Pure functions only — persistence and notifications live in
+ * actions/change-orders.ts.
+ */
+
+export type ApprovalStepStatus = "WAITING" | "PENDING" | "APPROVED" | "REJECTED" | "SKIPPED";
+
+export interface ApprovalChainStepInput {
+  stage: number;
+  name: string;
+  approverRole: string | null;
+  approverId: string | null;
+  minAmount: number | null;
+}
+
+export interface PlannedApproval extends Omit<ApprovalChainStepInput, "minAmount"> {
+  status: ApprovalStepStatus;
+}
+
+/** Pick the chain that applies to a change order of `amount`, or null. */
+export function selectApprovalChain<T extends { minAmount: number; active: boolean }>(
+  chains: T[],
+  amount: number | null
+): T | null {
+  const value = Math.abs(amount ?? 0);
+  return (
+    chains
+      .filter((c) => c.active && c.minAmount <= value)
+      .sort((a, b) => b.minAmount - a.minAmount)[0] ?? null
+  );
+}
+
+/**
+ * Expand chain steps into approval rows for a new change order: steps below
+ * their threshold are SKIPPED, the first remaining stage is PENDING and the
+ * rest WAITING.
+ *
+ * @returns An empty plan when every step is skipped — no one would be asked to
+ *          decide, so the change order is decided in one step as if no chain applied.
+ */
+export function planApprovals(steps: ApprovalChainStepInput[], amount: number | null): PlannedApproval[] {
+  const value = Math.abs(amount ?? 0);
+  const planned = [...steps]
+    .sort((a, b) => a.stage - b.stage)
+    .map(({ minAmount, ...step }) => ({
+      ...step,
+      status: (minAmount !== null && value < minAmount ? "SKIPPED" : "WAITING") as ApprovalStepStatus,
+    }));
+  const firstStage = planned.find((p) => p.status === "WAITING")?.stage;
+  if (firstStage === undefined) return [];
+  return planned.map((p) => (p.status === "WAITING" && p.stage === firstStage ? { ...p, status: "PENDING" } : p));
+}
+
+/**
+ * Work out where a chain stands after a decision.
+ *
+ * @returns `outcome` for the change order and the WAITING rows to open next
+ *          (the lowest waiting stage, once no row is PENDING).
+ */
+export function nextApprovalState(rows: { id: string; stage: number; status: ApprovalStepStatus }[]): {
+  outcome: "PENDING" | "APPROVED" | "REJECTED";
+  activate: string[];
+} {
+  if (rows.some((r) => r.status === "REJECTED")) return { outcome: "REJECTED", activate: [] };
+  if (rows.some((r) => r.status === "PENDING")) return { outcome: "PENDING", activate: [] };
+  const waiting = rows.filter((r) => r.status === "WAITING");
+  if (waiting.length === 0) return { outcome: "APPROVED", activate: [] };
+  const stage = Math.min(...waiting.map((r) => r.stage));
+  return { outcome: "PENDING", activate: waiting.filter((r) => r.stage === stage).map((r) => r.id) };
+}
+
+/** Whether `user` may approve, reject or delegate this approval row. */
+export function canActOnApproval(
+  row: { status: ApprovalStepStatus; approverId: string | null; approverRole: string | null; delegatedToId: string | null },
+  user: { id: string; role: string }
+): boolean {
+  if (row.status !== "PENDING") return false;
+  if (user.role === "ADMIN") return true;
+  if (row.delegatedToId) return row.delegatedToId === user.id;
+  if (row.approverId) return row.approverId === user.id;
+  return row.approverRole !== null && row.approverRole === user.role;
+}
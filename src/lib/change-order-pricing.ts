@@ -0,0 +1,94 @@
+/**
+ * @file change-order-pricing.ts
+ * @description Prices a change order from its line items and markup.
+ *
+ * Line items are grouped by cost category (labor, material, equipment,
+ * subcontract, other). Markup follows the usual contractor convention:
+ *   overhead = cost × overhead%
+ *   profit   = (cost + overhead) × profit%
+ *   total    = cost + overhead + profit
+ * Amounts are rounded to cents at each step so the stored CO amount matches
+ * what the breakdown shows.
+ *
+ * `changeOrderExposure` splits value across the PCO → COR → owner CO
+ * lifecycle into executed and pending amounts without double counting.
+ *
+ * Pure functions only — shared by actions/change-orders.ts (stored amount),
+ * actions/budget.ts (category roll-up, exposure) and ChangeOrderSection
+ * (live totals).
+ */
+
+export const COST_CATEGORIES = ["LABOR", "MATERIAL", "EQUIPMENT", "SUBCONTRACT", "OTHER"] as const;
+export type CostCategory = (typeof COST_CATEGORIES)[number];
+
+export interface ChangeOrderLineInput {
+  category: CostCategory;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface ChangeOrderPrice {
+  byCategory: Record<CostCategory, number>;
+  cost: number;
+  overhead: number;
+  profit: number;
+  total: number;
+}
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/** Empty per-category totals. */
+export function emptyCategoryTotals(): Record<CostCategory, number> {
+  return { LABOR: 0, MATERIAL: 0, EQUIPMENT: 0, SUBCONTRACT: 0, OTHER: 0 };
+}
+
+/**
+ * Total a change order's line items and apply markup.
+ *
+ * @param overheadPercent - e.g. 10 for 10 %; null/undefined means none
+ * @param profitPercent   - applied on cost + overhead
+ */
+export function priceChangeOrder(
+  lines: ChangeOrderLineInput[],
+  overheadPercent?: number | null,
+  profitPercent?: number | null
+): ChangeOrderPrice {
+  const byCategory = emptyCategoryTotals();
+  for (const line of lines) {
+    byCategory[line.category] = cents(byCategory[line.category] + line.quantity * line.unitCost);
+  }
+  const cost = cents(COST_CATEGORIES.reduce((sum, c) => sum + byCategory[c], 0));
+  const overhead = cents(cost * ((overheadPercent ?? 0) / 100));
+  const profit = cents((cost + overhead) * ((profitPercent ?? 0) / 100));
+  return { byCategory, cost, overhead, profit, total: cents(cost + overhead + profit) };
+}
+
+// ── Exposure ──
+
+export interface ChangeOrderExposureRow {
+  type: "PCO" | "COR" | "CO";
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  parentId: string | null;
+  amount: number | null;
+}
+
+/**
+ * Split change order value into what is executed and what is still exposure.
+ *
+ * Each dollar is counted once, at the furthest stage it has reached:
+ *   approved = executed (type CO) change orders that are APPROVED
+ *   pending  = open PCOs not yet bundled + CORs awaiting the owner or awaiting
+ *              execution + owner COs not yet approved
+ * Rejected items and anything already rolled into a parent are excluded.
+ */
+export function changeOrderExposure(rows: ChangeOrderExposureRow[]): { approved: number; pending: number } {
+  let approved = 0;
+  let pending = 0;
+  for (const row of rows) {
+    const amount = row.amount ?? 0;
+    if (row.type === "CO" && row.status === "APPROVED") approved += amount;
+    else if (row.status === "REJECTED" || row.parentId) continue;
+    else if (row.type === "COR" || row.status === "PENDING") pending += amount;
+  }
+  return { approved: cents(approved), pending: cents(pending) };
+}
@@ -0,0 +1,121 @@
+/**
+ * @file commitments.ts
+ * @description Commitments — the subcontracts and purchase orders a project
+ * has signed with its vendors, and the committed cost they carry.
+ *
+ * A SUBCONTRACT is opened from an awarded SubcontractorBid; a PURCHASE_ORDER
+ * from a set of a phase's materials (quantity × unit cost). Both start as
+ * DRAFT and only count against the budget once APPROVED:
+ *   approved value = original amount + APPROVED commitment change orders
+ *   invoiced       = sum of vendor invoices recorded against it
+ *   remaining      = approved value − invoiced
+ * A CLOSED commitment is settled at what was invoiced; the unbilled balance
+ * is released. VOID commitments carry no cost.
+ *
+ * Materials on an approved purchase order are costed through the PO rather
+ * than by their own status (see `materialCostedByCommitment`).
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export type CommitmentType = "SUBCONTRACT" | "PURCHASE_ORDER";
+export type CommitmentStatus = "DRAFT" | "APPROVED" | "CLOSED" | "VOID";
+
+/** Statuses whose value counts as committed cost. */
+export const COUNTED_COMMITMENT_STATUSES: CommitmentStatus[] = ["APPROVED", "CLOSED"];
+
+interface CommitmentLike {
+  status: CommitmentStatus;
+  originalAmount: number;
+  changes: { amount: number; status: "PENDING" | "APPROVED" | "REJECTED" }[];
+  invoices: { amount: number }[];
+}
+
+export interface CommitmentSummary {
+  /** Original amount plus approved commitment change orders. */
+  approvedValue: number;
+  /** Commitment change orders awaiting a decision. */
+  pendingChanges: number;
+  invoiced: number;
+  /** Left to bill: approved value − invoiced (0 once closed or void). */
+  remaining: number;
+  /** What the commitment contributes to committed cost. */
+  committed: number;
+}
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+export function summarizeCommitment(c: CommitmentLike): CommitmentSummary {
+  const approvedChanges = c.changes.filter((ch) => ch.status === "APPROVED").reduce((s, ch) => s + ch.amount, 0);
+  const pendingChanges = c.changes.filter((ch) => ch.status === "PENDING").reduce((s, ch) => s + ch.amount, 0);
+  const approvedValue = cents(c.originalAmount + approvedChanges);
+  const invoiced = cents(c.invoices.reduce((s, i) => s + i.amount, 0));
+  const settled = c.status === "CLOSED" || c.status === "VOID";
+  return {
+    approvedValue,
+    pendingChanges: cents(pendingChanges),
+    invoiced,
+    remaining: settled ? 0 : cents(approvedValue - invoiced),
+    committed: c.status === "APPROVED" ? approvedValue : c.status === "CLOSED" ? invoiced : 0,
+  };
+}
+
+/**
+ * Whether a material's cost is carried by its purchase order. Materials not
+ * on a PO, or on one still in draft or voided, are costed by their own status.
+ */
+export function materialCostedByCommitment(purchaseOrderStatus: CommitmentStatus | null | undefined): boolean {
+  return !!purchaseOrderStatus && COUNTED_COMMITMENT_STATUSES.includes(purchaseOrderStatus);
+}
+
+/** Next number in a project's "SC-001" / "PO-001" sequence. */
+export function nextCommitmentNumber(type: CommitmentType, existing: string[]): string {
+  const prefix = type === "SUBCONTRACT" ? "SC" : "PO";
+  const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+  const max = existing.reduce((m, n) => Math.max(m, Number(pattern.exec(n)?.[1] ?? 0)), 0);
+  return `${prefix}-${String(max + 1).padStart(3, "0")}`;
+}
+
+/**
+ * Open a DRAFT subcontract for an awarded bid, priced at the bid amount.
+ * No-op when the bid already has one. Pass `tx` to run inside the caller's
+ * transaction.
+ */
+export async function openSubcontractForBid(
+  bidId: string,
+  userId: string,
+  tx: Prisma.TransactionClient = db
+): Promise<void> {
+  const bid = await tx.subcontractorBid.findUnique({
+    where: { id: bidId },
+    select: {
+      id: true, companyName: true, amount: true, phaseId: true,
+      phase: { select: { name: true, projectId: true } },
+      subcontract: { select: { id: true } },
+    },
+  });
+  if (!bid || bid.subcontract) return;
+  const existing = await tx.commitment.findMany({ where: { projectId: bid.phase.projectId }, select: { number: true } });
+  await tx.commitment.create({
+    data: {
+      type: "SUBCONTRACT",
+      number: nextCommitmentNumber("SUBCONTRACT", existing.map((c) => c.number)),
+      title: bid.phase.name,
+      vendorName: bid.companyName,
+      originalAmount: bid.amount,
+      projectId: bid.phase.projectId,
+      phaseId: bid.phaseId,
+      bidId: bid.id,
+      createdById: userId,
+    },
+  });
+}
+
+/**
+ * Undo `openSubcontractForBid` when a bid is un-awarded: its subcontract is
+ * removed while still a draft with nothing billed, otherwise kept as-is.
+ */
+export async function releaseSubcontractForBid(bidId: string, tx: Prisma.TransactionClient = db): Promise<void> {
+  await tx.commitment.deleteMany({ where: { bidId, status: "DRAFT", invoices: { none: {} } } });
+}
@@ -0,0 +1,40 @@
+/**
+ * @file cost-code-lookup.ts
+ * @description Resolves the cost code a labor, material, takeoff or change
+ * order record is saved against (library rules in lib/cost-codes.ts).
+ *
+ * Forms send a library `costCodeId`; the REST API, imports and older clients
+ * send the code as text, which is matched onto the org's library. Text that
+ * matches nothing is kept as-is on models that have a free-text column.
+ */
+
+import { db } from "@/lib/db";
+import { matchCostCode } from "@/lib/cost-codes";
+
+export interface ResolvedCostCode {
+  costCodeId: string | null;
+  /** The library code, or the trimmed text when it matched nothing. */
+  costCode: string | null;
+}
+
+/**
+ * @throws "Cost code not found" if `costCodeId` is not in the org's library.
+ */
+export async function resolveCostCode(
+  orgId: string,
+  input: { costCodeId?: string | null; costCode?: string | null }
+): Promise<ResolvedCostCode> {
+  if (input.costCodeId) {
+    const code = await db.costCode.findFirst({
+      where: { id: input.costCodeId, orgId },
+      select: { id: true, code: true },
+    });
+    if (!code) throw new Error("Cost code not found");
+    return { costCodeId: code.id, costCode: code.code };
+  }
+  const text = input.costCode?.trim();
+  if (!text) return { costCodeId: null, costCode: null };
+  const codes = await db.costCode.findMany({ where: { orgId }, select: { id: true, code: true } });
+  const match = matchCostCode(codes, text);
+  return match ? { costCodeId: match.id, costCode: match.code } : { costCodeId: null, costCode: text };
+}
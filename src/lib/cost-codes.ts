@@ -0,0 +1,224 @@
+/**
+ * @file cost-codes.ts
+ * @description The org cost code library and job cost roll-up by cost code.
+ *
+ * Every org starts with the CSI MasterFormat (2016) divisions as its library;
+ * codes are stored in the "DD SS SS" form ("03 00 00") and can be renamed,
+ * deactivated or extended with finer section codes ("03 30 00").
+ *
+ * Labor, materials, takeoff items, change order lines, commitments and project
+ * budget lines all reference a library code, and `costCodeBreakdown` compares
+ * them per code:
+ *   budget     = project budget line + approved change order line cost
+ *   committed  = unbilled balance of approved subcontracts and purchase orders,
+ *                plus materials ordered but not on an approved PO
+ *   actual     = invoiced against commitments, plus materials not on an
+ *                approved PO that were delivered or installed (returns count
+ *                as neither)
+ *   remaining  = revised budget − committed − actual
+ * Labor has no pay rate in the app, so it is reported in hours.
+ *
+ * Records saved before the library existed only have a free-text code;
+ * `matchCostCode` maps them onto the library when the code matches.
+ *
+ * Pure functions only — persistence lives in actions/cost-codes.ts and the
+ * Job P&L query in lib/report-data.ts.
+ */
+
+/** CSI MasterFormat 2016 divisions — the seed for every org's library. */
+export const MASTERFORMAT_DIVISIONS: { code: string; name: string }[] = [
+  { code: "00 00 00", name: "Procurement and Contracting Requirements" },
+  { code: "01 00 00", name: "General Requirements" },
+  { code: "02 00 00", name: "Existing Conditions" },
+  { code: "03 00 00", name: "Concrete" },
+  { code: "04 00 00", name: "Masonry" },
+  { code: "05 00 00", name: "Metals" },
+  { code: "06 00 00", name: "Wood, Plastics, and Composites" },
+  { code: "07 00 00", name: "Thermal and Moisture Protection" },
+  { code: "08 00 00", name: "Openings" },
+  { code: "09 00 00", name: "Finishes" },
+  { code: "10 00 00", name: "Specialties" },
+  { code: "11 00 00", name: "Equipment" },
+  { code: "12 00 00", name: "Furnishings" },
+  { code: "13 00 00", name: "Special Construction" },
+  { code: "14 00 00", name: "Conveying Equipment" },
+  { code: "21 00 00", name: "Fire Suppression" },
+  { code: "22 00 00", name: "Plumbing" },
+  { code: "23 00 00", name: "Heating, Ventilating, and Air Conditioning (HVAC)" },
+  { code: "25 00 00", name: "Integrated Automation" },
+  { code: "26 00 00", name: "Electrical" },
+  { code: "27 00 00", name: "Communications" },
+  { code: "28 00 00", name: "Electronic Safety and Security" },
+  { code: "31 00 00", name: "Earthwork" },
+  { code: "32 00 00", name: "Exterior Improvements" },
+  { code: "33 00 00", name: "Utilities" },
+  { code: "34 00 00", name: "Transportation" },
+  { code: "35 00 00", name: "Waterway and Marine Construction" },
+  { code: "40 00 00", name: "Process Interconnections" },
+  { code: "41 00 00", name: "Material Processing and Handling Equipment" },
+  { code: "42 00 00", name: "Process Heating, Cooling, and Drying Equipment" },
+  { code: "43 00 00", name: "Process Gas and Liquid Handling, Purification, and Storage Equipment" },
+  { code: "44 00 00", name: "Pollution and Waste Control Equipment" },
+  { code: "45 00 00", name: "Industry-Specific Manufacturing Equipment" },
+  { code: "46 00 00", name: "Water and Wastewater Equipment" },
+  { code: "48 00 00", name: "Electrical Power Generation" },
+];
+
+/** Material statuses that count as committed (ordered, not yet on site). */
+export const COMMITTED_MATERIAL_STATUSES = ["ORDERED"];
+/** Material statuses that count as actual cost. */
+export const ACTUAL_MATERIAL_STATUSES = ["DELIVERED", "INSTALLED"];
+
+export interface CostCodeRef {
+  id: string;
+  code: string;
+  name: string;
+}
+
+const compact = (code: string) => code.replace(/[^0-9a-z]/gi, "").toUpperCase();
+
+/** Tidy a code as typed: trimmed, single spaces. */
+export function normalizeCostCode(code: string): string {
+  return code.trim().replace(/\s+/g, " ");
+}
+
+/** The two-digit MasterFormat division a code falls under ("03 30 00" → "03"). */
+export function divisionOf(code: string): string {
+  return compact(code).slice(0, 2);
+}
+
+/**
+ * Find the library code a free-text code refers to, ignoring spacing and
+ * punctuation ("033000" and "03-30-00" both match "03 30 00").
+ */
+export function matchCostCode<T extends { code: string }>(codes: T[], text: string | null | undefined): T | null {
+  if (!text) return null;
+  const key = compact(text);
+  if (!key) return null;
+  return codes.find((c) => compact(c.code) === key) ?? null;
+}
+
+// ── Roll-up ──
+
+/** A cost record tagged with a library code; null = uncoded. */
+interface CodedAmount {
+  costCodeId: string | null;
+  amount: number;
+}
+
+export interface CostCodeBreakdownInput {
+  codes: CostCodeRef[];
+  budgets: CodedAmount[];
+  /** Approved change order line cost (before markup); lump sums are uncoded. */
+  changes: CodedAmount[];
+  /** Materials not costed through an approved purchase order. */
+  materials: (CodedAmount & { status: string })[];
+  /** Approved or closed subcontracts and purchase orders (lib/commitments.ts). */
+  commitments?: { costCodeId: string | null; remaining: number; invoiced: number }[];
+  labor: { costCodeId: string | null; hours: number }[];
+  /** Takeoff totals from final/approved estimates, for reference. */
+  estimates?: CodedAmount[];
+}
+
+export interface CostCodeBreakdownRow {
+  /** null for the "Uncoded" row. */
+  costCodeId: string | null;
+  code: string;
+  name: string;
+  estimate: number;
+  budget: number;
+  approvedChanges: number;
+  revisedBudget: number;
+  committed: number;
+  actual: number;
+  laborHours: number;
+  remaining: number;
+}
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Compare budget, committed and actual cost per cost code. Only codes with
+ * some activity are returned, in code order, with uncoded records last.
+ */
+export function costCodeBreakdown(input: CostCodeBreakdownInput): CostCodeBreakdownRow[] {
+  const byId = new Map(input.codes.map((c) => [c.id, c]));
+  const rows = new Map<string, CostCodeBreakdownRow>();
+  const row = (costCodeId: string | null) => {
+    const known = costCodeId ? byId.get(costCodeId) : undefined;
+    const key = known ? known.id : "";
+    let r = rows.get(key);
+    if (!r) {
+      r = {
+        costCodeId: known?.id ?? null, code: known?.code ?? "", name: known?.name ?? "Uncoded",
+        estimate: 0, budget: 0, approvedChanges: 0, revisedBudget: 0,
+        committed: 0, actual: 0, laborHours: 0, remaining: 0,
+      };
+      rows.set(key, r);
+    }
+    return r;
+  };
+
+  for (const b of input.budgets) row(b.costCodeId).budget += b.amount;
+  for (const c of input.changes) row(c.costCodeId).approvedChanges += c.amount;
+  for (const e of input.estimates ?? []) row(e.costCodeId).estimate += e.amount;
+  for (const m of input.materials) {
+    if (COMMITTED_MATERIAL_STATUSES.includes(m.status)) row(m.costCodeId).committed += m.amount;
+    else if (ACTUAL_MATERIAL_STATUSES.includes(m.status)) row(m.costCodeId).actual += m.amount;
+  }
+  for (const c of input.commitments ?? []) {
+    row(c.costCodeId).committed += c.remaining;
+    row(c.costCodeId).actual += c.invoiced;
+  }
+  for (const l of input.labor) row(l.costCodeId).laborHours += l.hours;
+
+  return [...rows.values()]
+    .map((r) => {
+      const revisedBudget = cents(r.budget + r.approvedChanges);
+      return {
+        ...r,
+        estimate: cents(r.estimate),
+        budget: cents(r.budget),
+        approvedChanges: cents(r.approvedChanges),
+        revisedBudget,
+        committed: cents(r.committed),
+        actual: cents(r.actual),
+        laborHours: Math.round(r.laborHours * 100) / 100,
+        remaining: cents(revisedBudget - r.committed - r.actual),
+      };
+    })
+    .sort((a, b) => {
+      if (a.costCodeId === null) return 1;
+      if (b.costCodeId === null) return -1;
+      return a.code.localeCompare(b.code);
+    });
+}
+
+/**
+ * Change order lines that count against budget: those of executed (type CO,
+ * APPROVED) change orders. A rolled-up CO without its own lines is priced
+ * from the lines of the items beneath it; one with no lines anywhere counts
+ * as an uncoded lump sum.
+ */
+export function executedChangeLines<
+  T extends {
+    id: string;
+    type: string;
+    status: string;
+    parentId: string | null;
+    amount: number | null;
+    lines: { costCodeId: string | null; amount: number }[];
+  },
+>(changeOrders: T[]): CodedAmount[] {
+  const childrenOf = new Map<string, T[]>();
+  for (const co of changeOrders) {
+    if (co.parentId) childrenOf.set(co.parentId, [...(childrenOf.get(co.parentId) ?? []), co]);
+  }
+  const collect = (co: T): CodedAmount[] => {
+    if (co.lines.length > 0) return co.lines;
+    const children = childrenOf.get(co.id) ?? [];
+    if (children.length > 0) return children.flatMap(collect);
+    return [{ costCodeId: null, amount: co.amount ?? 0 }];
+  };
+  return changeOrders.filter((co) => co.type === "CO" && co.status === "APPROVED").flatMap(collect);
+}
@@ -0,0 +1,278 @@
+/**
+ * @file critical-path.ts
+ * @description Critical Path Method (CPM) engine over phases and PhaseDependency edges.
+ *
+ * Pure and synchronous — callers load phases/dependencies and pass them in, so the
+ * same engine serves the timeline page, AI risk scoring and tests.
+ *
+ * Model:
+ *   - Work is measured in whole calendar days. A phase's duration is
+ *     `end - start` (milestones are zero-duration).
+ *   - Each edge has a type and a lag (negative lag = lead):
+ *       FS  successor start  ≥ predecessor finish + lag   (default)
+ *       SS  successor start  ≥ predecessor start  + lag
+ *       FF  successor finish ≥ predecessor finish + lag
+ *       SF  successor finish ≥ predecessor start  + lag
+ *   - A phase's planned start acts as a "start no earlier than" constraint, so
+ *     phases without predecessors stay where they were scheduled.
+ *
+ * Passes:
+ *   1. Forward (topological order): ES = max(planned start, earliest start
+ *      allowed by each incoming link), EF = ES + duration.
+ *   2. Backward (reverse order): LF = min(latest finish allowed by each outgoing
+ *      link), or the project finish for phases with no successors; LS = LF − duration.
+ *
+ * Total float = LS − ES. Free float = the smallest slack on any outgoing link
+ * (or to the project finish). A phase is critical when its total float is zero
+ * (or negative).
+ */
+
+// ── Types ──
+
+/** Mirrors the `DependencyType` enum in schema.prisma. */
+export type DependencyLinkType = "FS" | "SS" | "FF" | "SF";
+
+export interface CpmActivity {
+  id: string;
+  start: Date;
+  end: Date;
+  isMilestone?: boolean;
+}
+
+export interface CpmLink {
+  /** The predecessor phase (`PhaseDependency.dependsOnId`). */
+  predecessorId: string;
+  /** The successor phase (`PhaseDependency.phaseId`). */
+  successorId: string;
+  lagDays: number;
+  /** Defaults to "FS". */
+  type?: DependencyLinkType;
+}
+
+export interface CpmPhaseResult {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  /** Days the phase can slip without delaying the project finish. */
+  totalFloat: number;
+  /** Days the phase can slip without delaying any successor. */
+  freeFloat: number;
+  critical: boolean;
+}
+
+export interface CpmResult {
+  phases: Record<string, CpmPhaseResult>;
+  /** Critical phase IDs ordered by early start. */
+  criticalPath: string[];
+  projectFinish: Date | null;
+}
+
+const DAY_MS = 86_400_000;
+
+const toDay = (d: Date) => Math.round(d.getTime() / DAY_MS);
+const fromDay = (n: number) => new Date(n * DAY_MS);
+
+// ── Link arithmetic ──
+//
+// Unit-agnostic (days or milliseconds) so the cascade planner can share it.
+
+/** Earliest successor start a link allows, given the predecessor's dates. */
+export function linkEarliestStart(
+  type: DependencyLinkType,
+  lag: number,
+  pred: { start: number; finish: number },
+  succDuration: number
+): number {
+  switch (type) {
+    case "SS": return pred.start + lag;
+    case "FF": return pred.finish + lag - succDuration;
+    case "SF": return pred.start + lag - succDuration;
+    default:   return pred.finish + lag;
+  }
+}
+
+/** Latest predecessor finish a link allows, given the successor's late dates. */
+function linkLatestFinish(
+  type: DependencyLinkType,
+  lag: number,
+  succ: { start: number; finish: number },
+  predDuration: number
+): number {
+  switch (type) {
+    case "SS": return succ.start - lag + predDuration;
+    case "FF": return succ.finish - lag;
+    case "SF": return succ.finish - lag + predDuration;
+    default:   return succ.start - lag;
+  }
+}
+
+/**
+ * Would adding `predecessorId → successorId` close a loop at any depth?
+ * True when the predecessor is already reachable from the successor.
+ */
+export function wouldCreateCycle(
+  links: Pick<CpmLink, "predecessorId" | "successorId">[],
+  predecessorId: string,
+  successorId: string
+): boolean {
+  if (predecessorId === successorId) return true;
+  const succs = new Map<string, string[]>();
+  for (const l of links) {
+    if (!succs.has(l.predecessorId)) succs.set(l.predecessorId, []);
+    succs.get(l.predecessorId)!.push(l.successorId);
+  }
+  const seen = new Set<string>();
+  const stack = [successorId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === predecessorId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(succs.get(id) ?? []));
+  }
+  return false;
+}
+
+// ── Engine ──
+
+/**
+ * Run forward and backward passes over the activity network.
+ * Links referencing unknown activities are ignored.
+ *
+ * @throws Error if the dependency graph contains a cycle.
+ */
+export function computeCriticalPath(activities: CpmActivity[], links: CpmLink[]): CpmResult {
+  if (activities.length === 0) return { phases: {}, criticalPath: [], projectFinish: null };
+
+  const ids = new Set(activities.map((a) => a.id));
+  const edges = links.filter((l) => ids.has(l.predecessorId) && ids.has(l.successorId));
+
+  const preds = new Map<string, CpmLink[]>();
+  const succs = new Map<string, CpmLink[]>();
+  for (const a of activities) {
+    preds.set(a.id, []);
+    succs.set(a.id, []);
+  }
+  for (const e of edges) {
+    preds.get(e.successorId)!.push(e);
+    succs.get(e.predecessorId)!.push(e);
+  }
+
+  // Kahn's algorithm — anything left unvisited sits on a cycle
+  const indegree = new Map(activities.map((a) => [a.id, preds.get(a.id)!.length]));
+  const queue = activities.filter((a) => indegree.get(a.id) === 0).map((a) => a.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const e of succs.get(id)!) {
+      const left = indegree.get(e.successorId)! - 1;
+      indegree.set(e.successorId, left);
+      if (left === 0) queue.push(e.successorId);
+    }
+  }
+  if (order.length !== activities.length) throw new Error("Dependency cycle detected");
+
+  const byId = new Map(activities.map((a) => [a.id, a]));
+  const duration = new Map(
+    activities.map((a) => [a.id, a.isMilestone ? 0 : Math.max(0, toDay(a.end) - toDay(a.start))])
+  );
+
+  // Forward pass
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  for (const id of order) {
+    let start = toDay(byId.get(id)!.start);
+    for (const e of preds.get(id)!) {
+      const pred = { start: es.get(e.predecessorId)!, finish: ef.get(e.predecessorId)! };
+      start = Math.max(start, linkEarliestStart(e.type ?? "FS", e.lagDays, pred, duration.get(id)!));
+    }
+    es.set(id, start);
+    ef.set(id, start + duration.get(id)!);
+  }
+
+  const finish = Math.max(...ef.values());
+
+  // Backward pass
+  const ls = new Map<string, number>();
+  const lf = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    let late = finish;
+    for (const e of succs.get(id)!) {
+      const succ = { start: ls.get(e.successorId)!, finish: lf.get(e.successorId)! };
+      late = Math.min(late, linkLatestFinish(e.type ?? "FS", e.lagDays, succ, duration.get(id)!));
+    }
+    lf.set(id, late);
+    ls.set(id, late - duration.get(id)!);
+  }
+
+  const phases: Record<string, CpmPhaseResult> = {};
+  for (const id of order) {
+    const totalFloat = ls.get(id)! - es.get(id)!;
+    const next = succs.get(id)!;
+    // Slack on each outgoing link = how far this phase can slip before the
+    // successor's early dates must move
+    const freeFloat = next.length
+      ? Math.min(
+          ...next.map((e) => {
+            const allowed = linkEarliestStart(
+              e.type ?? "FS",
+              e.lagDays,
+              { start: es.get(id)!, finish: ef.get(id)! },
+              duration.get(e.successorId)!
+            );
+            return es.get(e.successorId)! - allowed;
+          })
+        )
+      : finish - ef.get(id)!;
+    phases[id] = {
+      earlyStart: fromDay(es.get(id)!),
+      earlyFinish: fromDay(ef.get(id)!),
+      lateStart: fromDay(ls.get(id)!),
+      lateFinish: fromDay(lf.get(id)!),
+      totalFloat,
+      freeFloat,
+      critical: totalFloat <= 0,
+    };
+  }
+
+  const criticalPath = order
+    .filter((id) => phases[id].critical)
+    .sort((a, b) => es.get(a)! - es.get(b)!);
+
+  return { phases, criticalPath, projectFinish: fromDay(finish) };
+}
+
+/**
+ * Build CPM inputs from Phase rows, preferring actual dates where recorded so
+ * finished work is not re-planned.
+ */
+export function phasesToActivities(
+  phases: {
+    id: string;
+    estStart: Date;
+    estEnd: Date;
+    actualStart?: Date | null;
+    actualEnd?: Date | null;
+    isMilestone: boolean;
+  }[]
+): CpmActivity[] {
+  return phases.map((p) => {
+    const start = p.actualStart ?? p.estStart;
+    const end = p.actualEnd ?? p.estEnd;
+    return { id: p.id, start, end: end < start ? start : end, isMilestone: p.isMilestone };
+  });
+}
+
+/** Map PhaseDependency rows onto CPM links. */
+export function dependenciesToLinks(
+  deps: { phaseId: string; dependsOnId: string; lagDays: number; type?: DependencyLinkType }[]
+): CpmLink[] {
+  return deps.map((d) => ({
+    predecessorId: d.dependsOnId,
+    successorId: d.phaseId,
+    lagDays: d.lagDays,
+    type: d.type ?? "FS",
+  }));
+}
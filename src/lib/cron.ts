@@ -0,0 +1,22 @@
+/**
+ * @file cron.ts
+ * @description Shared guard for scheduled-job routes under `/api/cron`.
+ *
+ * Vercel Cron (and most external schedulers) send `Authorization: Bearer <CRON_SECRET>`.
+ * Cron routes are excluded from session middleware, so this check is their only
+ * gate. If CRON_SECRET is not configured every request is rejected — a missing
+ * secret must never leave the job callable by anyone.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/** True when the request carries the configured cron bearer secret. */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
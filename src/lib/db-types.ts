@@ -12,6 +12,11 @@
  */
 
 import { db as _db } from "./db";
+import type {
+  ChangeOrderApprovalStep,
+  ChangeOrderApprovalHistoryEntry,
+  ChangeOrderLineItemInput,
+} from "@/actions/change-orders";
 
 // Re-export the db client cast to include new model delegates
 export const db = _db as typeof _db & {
@@ -42,6 +47,7 @@ export type ChangeOrderStatus = "PENDING" | "APPROVED" | "REJECTED";
 export type InspectionResult = "PASS" | "FAIL" | "CONDITIONAL";
 export type MaterialStatus = "ORDERED" | "DELIVERED" | "INSTALLED" | "RETURNED";
 export type ReportFrequency = "WEEKLY" | "MONTHLY";
+export type ReportFormat = "CSV" | "XLSX";
 
 export interface ChangeOrder {
   id: string;
@@ -51,6 +57,9 @@ export interface ChangeOrder {
   status: ChangeOrderStatus;
   amount: number | null;
   reason: string | null;
+  overheadPercent?: number | null;
+  profitPercent?: number | null;
+  scheduleImpactDays?: number;
   phaseId: string;
   requestedById: string;
   approvedById: string | null;
@@ -60,6 +69,17 @@ export interface ChangeOrder {
   requestedBy?: { id: string; name: string | null; email: string | null };
   approvedBy?: { id: string; name: string | null } | null;
   phase?: { id: string; name: string };
+  /** PCO → COR → CO lifecycle (see actions/change-orders.ts) */
+  type?: "PCO" | "COR" | "CO";
+  rfiId?: string | null;
+  parentId?: string | null;
+  rfi?: { id: string; rfiNumber: number; subject: string } | null;
+  parent?: { id: string; number: string } | null;
+  children?: { id: string; number: string }[];
+  lineItems?: (ChangeOrderLineItemInput & { id: string })[];
+  /** Approval chain steps and history (empty when decided in one step). */
+  approvals?: ChangeOrderApprovalStep[];
+  history?: ChangeOrderApprovalHistoryEntry[];
 }
 
 export interface DailyLog {
@@ -105,6 +125,8 @@ export interface SubcontractorBid {
   awarded: boolean;
   submittedAt: Date;
   phaseId: string;
+  /** Subcontract opened when the bid was awarded. */
+  subcontract?: { id: string; number: string; status: string } | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -122,6 +144,10 @@ export interface Material {
   installedAt: Date | null;
   notes: string | null;
   phaseId: string;
+  costCodeId?: string | null;
+  purchaseOrderId?: string | null;
+  /** Purchase order the material was ordered on. */
+  purchaseOrder?: { id: string; number: string; status: string } | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -132,8 +158,13 @@ export interface ApiKey {
   keyHash: string;
   prefix: string;
   lastUsedAt: Date | null;
+  lastUsedIp: string | null;
   expiresAt: Date | null;
   active: boolean;
+  scopes: string[];
+  projectIds: string[];
+  rotatedFromId: string | null;
+  createdById: string | null;
   createdAt: Date;
 }
 
@@ -166,6 +197,7 @@ export interface ReportSchedule {
   sendHour: number;
   recipients: string[];
   includeProjects: string[];
+  format: ReportFormat;
   lastSentAt: Date | null;
   active: boolean;
   createdAt: Date;
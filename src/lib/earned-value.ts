@@ -0,0 +1,219 @@
+/**
+ * @file earned-value.ts
+ * @description Earned value management (EVM) per phase and per project, and
+ * the weekly snapshots that chart it over time.
+ *
+ * For each phase, as of a date:
+ *   BAC  budget at completion  = baselined estimated cost (latest
+ *                                ScheduleBaseline), else current estimatedCost
+ *   PV   planned value         = BAC × share of the planned duration elapsed
+ *                                (baseline dates, else estStart → estEnd)
+ *   EV   earned value          = BAC × progress % (100% once COMPLETE)
+ *   AC   actual cost           = actualCost
+ *   CPI = EV / AC   SPI = EV / PV   (null while the divisor is 0)
+ *   EAC = BAC / CPI (until work is earned: BAC, or AC if already higher)
+ *   ETC = EAC − AC   VAC = BAC − EAC   CV = EV − AC   SV = EV − PV
+ * Project figures sum PV, EV, AC and BAC over phases, then derive the ratios,
+ * so large phases weigh more than small ones.
+ *
+ * `GET /api/cron/earned-value` stores one EarnedValueSnapshot per active
+ * project each week (keyed by the week's Monday, so reruns overwrite);
+ * the analytics dashboard charts them (actions/analytics.ts) and the AI
+ * budget forecast is anchored on the live EAC (actions/ai-predictive.ts).
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export interface EvmPhaseInput {
+  id: string;
+  name: string;
+  status: string;
+  progress: number;
+  plannedStart: Date;
+  plannedEnd: Date;
+  budgetAtCompletion: number;
+  actualCost: number;
+}
+
+export interface EvmMetrics {
+  budgetAtCompletion: number;
+  plannedValue: number;
+  earnedValue: number;
+  actualCost: number;
+  cpi: number | null;
+  spi: number | null;
+  estimateAtCompletion: number;
+  estimateToComplete: number;
+  varianceAtCompletion: number;
+  costVariance: number;
+  scheduleVariance: number;
+}
+
+export interface PhaseEvm extends EvmMetrics {
+  phaseId: string;
+  name: string;
+}
+
+export interface ProjectEvm extends EvmMetrics {
+  asOf: Date;
+  phases: PhaseEvm[];
+}
+
+const DAY = 86_400_000;
+const cents = (n: number) => Math.round(n * 100) / 100;
+const ratio = (a: number, b: number) => (b > 0 ? Math.round((a / b) * 1000) / 1000 : null);
+
+/**
+ * Largest CPI / SPI a snapshot column (Decimal(8,3)) holds. SPI explodes while
+ * PV is still near zero — progress recorded on a phase's planned start day —
+ * so stored ratios are capped rather than overflowing the insert.
+ */
+export const MAX_SNAPSHOT_RATIO = 99_999.999;
+const snapshotRatio = (r: number | null) => (r === null ? null : Math.min(r, MAX_SNAPSHOT_RATIO));
+
+/** Share of a planned window elapsed at `asOf`, 0–1 (a zero-length window flips at its end). */
+export function plannedPercent(start: Date, end: Date, asOf: Date): number {
+  const span = end.getTime() - start.getTime();
+  if (span <= 0) return asOf.getTime() >= end.getTime() ? 1 : 0;
+  return Math.min(1, Math.max(0, (asOf.getTime() - start.getTime()) / span));
+}
+
+/** Derive the ratios and forecasts from summed BAC / PV / EV / AC. */
+export function deriveMetrics(bac: number, pv: number, ev: number, ac: number): EvmMetrics {
+  const cpi = ratio(ev, ac);
+  const spi = ratio(ev, pv);
+  const eac = cpi ? bac / cpi : Math.max(bac, ac);
+  return {
+    budgetAtCompletion: cents(bac),
+    plannedValue: cents(pv),
+    earnedValue: cents(ev),
+    actualCost: cents(ac),
+    cpi,
+    spi,
+    estimateAtCompletion: cents(eac),
+    estimateToComplete: cents(Math.max(0, eac - ac)),
+    varianceAtCompletion: cents(bac - eac),
+    costVariance: cents(ev - ac),
+    scheduleVariance: cents(ev - pv),
+  };
+}
+
+export function computeProjectEvm(phases: EvmPhaseInput[], asOf: Date = new Date()): ProjectEvm {
+  const rows = phases.map((p) => {
+    const bac = p.budgetAtCompletion;
+    const pv = bac * plannedPercent(p.plannedStart, p.plannedEnd, asOf);
+    const earned = p.status === "COMPLETE" ? 1 : Math.min(100, Math.max(0, p.progress)) / 100;
+    return { phase: p, bac, pv, ev: bac * earned, ac: p.actualCost };
+  });
+  const sum = (key: "bac" | "pv" | "ev" | "ac") => rows.reduce((s, r) => s + r[key], 0);
+  return {
+    asOf,
+    ...deriveMetrics(sum("bac"), sum("pv"), sum("ev"), sum("ac")),
+    phases: rows.map((r) => ({ phaseId: r.phase.id, name: r.phase.name, ...deriveMetrics(r.bac, r.pv, r.ev, r.ac) })),
+  };
+}
+
+/** Monday 00:00 UTC of the week containing `date` — the snapshot key. */
+export function weekStart(date: Date): Date {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return new Date(d.getTime() - ((d.getUTCDay() + 6) % 7) * DAY);
+}
+
+// ── Persistence ──
+
+/**
+ * Current EVM for each project, planned against its latest schedule baseline
+ * where one exists. Projects with no phases are omitted.
+ */
+export async function loadProjectEvm(projectIds: string[], asOf: Date = new Date()): Promise<Map<string, ProjectEvm>> {
+  const result = new Map<string, ProjectEvm>();
+  if (projectIds.length === 0) return result;
+  const [phases, baselines] = await Promise.all([
+    db.phase.findMany({
+      where: { projectId: { in: projectIds } },
+      select: {
+        id: true, name: true, status: true, progress: true, projectId: true,
+        estStart: true, estEnd: true, estimatedCost: true, actualCost: true,
+      },
+      orderBy: { sortOrder: "asc" },
+    }),
+    // Latest baseline per project only — older ones carry every phase too
+    db.scheduleBaseline.findMany({
+      where: { projectId: { in: projectIds } },
+      distinct: ["projectId"],
+      select: {
+        projectId: true,
+        phases: { select: { phaseId: true, estStart: true, estEnd: true, estimatedCost: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  for (const projectId of projectIds) {
+    const projectPhases = phases.filter((p) => p.projectId === projectId);
+    if (projectPhases.length === 0) continue;
+    const baseline = baselines.find((b) => b.projectId === projectId);
+    const planned = new Map((baseline?.phases ?? []).map((b) => [b.phaseId, b]));
+    result.set(
+      projectId,
+      computeProjectEvm(
+        projectPhases.map((p) => {
+          const base = planned.get(p.id);
+          const budget = base?.estimatedCost ?? p.estimatedCost;
+          return {
+            id: p.id,
+            name: p.name,
+            status: p.status,
+            progress: p.progress,
+            plannedStart: base?.estStart ?? p.estStart,
+            plannedEnd: base?.estEnd ?? p.estEnd,
+            budgetAtCompletion: budget ? Number(budget) : 0,
+            actualCost: p.actualCost ? Number(p.actualCost) : 0,
+          };
+        }),
+        asOf
+      )
+    );
+  }
+  return result;
+}
+
+/**
+ * Store this week's snapshot for every ACTIVE project (all orgs). Called by
+ * the weekly cron; re-running in the same week overwrites that week's row.
+ * A project whose snapshot fails to save is logged and skipped so the rest
+ * still get theirs.
+ */
+export async function captureEarnedValueSnapshots(
+  now: Date = new Date()
+): Promise<{ projects: number; failed: number }> {
+  const projects = await db.project.findMany({ where: { status: "ACTIVE" }, select: { id: true } });
+  const evm = await loadProjectEvm(projects.map((p) => p.id), now);
+  const weekOf = weekStart(now);
+  let failed = 0;
+
+  for (const [projectId, m] of evm) {
+    const values = {
+      plannedValue: m.plannedValue,
+      earnedValue: m.earnedValue,
+      actualCost: m.actualCost,
+      budgetAtCompletion: m.budgetAtCompletion,
+      estimateAtCompletion: m.estimateAtCompletion,
+      cpi: snapshotRatio(m.cpi),
+      spi: snapshotRatio(m.spi),
+      phases: m.phases as unknown as Prisma.InputJsonValue,
+    };
+    try {
+      await db.earnedValueSnapshot.upsert({
+        where: { projectId_weekOf: { projectId, weekOf } },
+        create: { projectId, weekOf, ...values },
+        update: values,
+      });
+    } catch (err) {
+      console.error(`Earned value snapshot failed for project ${projectId}:`, err);
+      failed++;
+    }
+  }
+  return { projects: evm.size - failed, failed };
+}
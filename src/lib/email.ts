@@ -7,16 +7,23 @@ const RESEND_API_KEY = process.env.RESEND_API_KEY;
 const FROM_EMAIL = "AccuDone <noreply@constructionpm.app>";
 const APP_URL = process.env.NEXTAUTH_URL || "https://construction-pm-theta.vercel.app";
 
+interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
 interface SendEmailOptions {
   to: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
 }
 
-async function sendEmail(options: SendEmailOptions): Promise<boolean> {
+/** Post to Resend. Returns null on success, otherwise the failure reason. */
+async function deliverEmail(options: SendEmailOptions): Promise<string | null> {
   if (!RESEND_API_KEY) {
     console.log("[email] Skipped — RESEND_API_KEY not set");
-    return false;
+    return "RESEND_API_KEY not set";
   }
 
   try {
@@ -31,22 +38,34 @@ async function sendEmail(options: SendEmailOptions): Promise<boolean> {
         to: options.to,
         subject: options.subject,
         html: options.html,
+        ...(options.attachments?.length
+          ? {
+              attachments: options.attachments.map((a) => ({
+                filename: a.filename,
+                content: a.content.toString("base64"),
+              })),
+            }
+          : {}),
       }),
     });
 
     if (!res.ok) {
       const err = await res.text();
       console.error("[email] Resend error:", err);
-      return false;
+      return `Resend ${res.status}: ${err}`;
     }
 
-    return true;
+    return null;
   } catch (error) {
     console.error("[email] Failed to send:", error);
-    return false;
+    return error instanceof Error ? error.message : String(error);
   }
 }
 
+async function sendEmail(options: SendEmailOptions): Promise<boolean> {
+  return (await deliverEmail(options)) === null;
+}
+
 // ── Email wrapper (HTML layout) ──
 
 function wrapHTML(content: string): string {
@@ -245,3 +264,28 @@ export async function sendChecklistCompleteEmail(
     `),
   });
 }
+
+/**
+ * Send a scheduled report (see lib/report-delivery.ts) with its CSV/XLSX
+ * attachments. Unlike the notification emails above, the failure reason is
+ * returned so it can be kept in the delivery history.
+ *
+ * @returns `{ error: null }` on success.
+ */
+export async function sendScheduledReportEmail(
+  email: string,
+  subject: string,
+  summaryHtml: string,
+  attachments: EmailAttachment[]
+): Promise<{ error: string | null }> {
+  const error = await deliverEmail({
+    to: email,
+    subject,
+    html: wrapHTML(`
+      ${summaryHtml}
+      ${btnHTML("Open Reports", `${APP_URL}/dashboard/reports`)}
+    `),
+    attachments,
+  });
+  return { error };
+}
@@ -0,0 +1,137 @@
+/**
+ * @file lib/geofence.ts
+ * @description Geofence geometry for the GPS time clock (actions/gps-time-clock.ts).
+ *
+ * A project may have several fences — circles (centre + radius) or polygons
+ * (lat/lng vertices). A GPS fix is checked against the nearest one:
+ *
+ *   - INSIDE     the fix is within `accuracy` metres of a fence, i.e. the
+ *                position the device reports could be on site
+ *   - OUTSIDE    every fence is further away than the fix's accuracy
+ *   - UNCERTAIN  the reported accuracy is worse than GEOFENCE_MAX_ACCURACY_M,
+ *                so the fix can neither place the worker on site nor off it
+ *
+ * The project policy decides what happens to a clock-in that is not INSIDE
+ * (`geofenceOutcome`): FLAG lets it through into the PM exception queue; BLOCK
+ * refuses OUTSIDE fixes, but only flags UNCERTAIN ones — a worker indoors with
+ * a poor signal is not locked out.
+ *
+ * Distances use a local equirectangular projection around the fix, accurate
+ * to well under a metre at job-site scale.
+ */
+
+export type GeofenceShape = "CIRCLE" | "POLYGON";
+export type GeofencePolicy = "FLAG" | "BLOCK";
+export type GeofenceCheck = "INSIDE" | "OUTSIDE" | "UNCERTAIN";
+export type GeofenceOutcome = "FLAGGED" | "BLOCKED";
+
+/** [latitude, longitude] */
+export type LatLng = [number, number];
+
+export interface GeofenceShapeInput {
+  shape: GeofenceShape;
+  centerLat?: number | null;
+  centerLng?: number | null;
+  /** Metres */
+  radius?: number | null;
+  points?: LatLng[] | null;
+}
+
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  /** Reported accuracy radius in metres (missing = taken as exact) */
+  accuracy?: number | null;
+}
+
+export interface GeofenceResult {
+  check: GeofenceCheck;
+  /** Metres from the fix to the nearest fence edge (0 = inside) */
+  distance: number;
+  /** Index of the nearest fence in the list checked */
+  nearest: number;
+}
+
+/** Fixes less precise than this cannot place a worker on or off site. */
+export const GEOFENCE_MAX_ACCURACY_M = 150;
+
+const EARTH_RADIUS_M = 6_371_000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance in metres. */
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b[0] - a[0]);
+  const dLng = toRad(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Project `p` to metres (x east, y north) relative to `origin`. */
+function toLocal(origin: LatLng, p: LatLng): [number, number] {
+  return [
+    toRad(p[1] - origin[1]) * EARTH_RADIUS_M * Math.cos(toRad(origin[0])),
+    toRad(p[0] - origin[0]) * EARTH_RADIUS_M,
+  ];
+}
+
+function segmentDistance(p: [number, number], a: [number, number], b: [number, number]): number {
+  const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/** Ray-casting point-in-polygon test on projected coordinates. */
+function insidePolygon(p: [number, number], ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > p[1] !== yj > p[1] && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Metres from a point to a fence's edge; 0 when the point is inside.
+ * Malformed fences (no radius, fewer than 3 vertices) are infinitely far.
+ */
+export function distanceToGeofence(point: LatLng, fence: GeofenceShapeInput): number {
+  if (fence.shape === "CIRCLE") {
+    if (fence.centerLat == null || fence.centerLng == null || !fence.radius) return Infinity;
+    return Math.max(0, haversineDistance(point, [fence.centerLat, fence.centerLng]) - fence.radius);
+  }
+  const points = fence.points ?? [];
+  if (points.length < 3) return Infinity;
+  const ring = points.map((v) => toLocal(point, v));
+  if (insidePolygon([0, 0], ring)) return 0;
+  return Math.min(...ring.map((a, i) => segmentDistance([0, 0], a, ring[(i + 1) % ring.length])));
+}
+
+/**
+ * Check a GPS fix against a project's fences.
+ * @returns null when there are no fences to check against.
+ */
+export function checkGeofences(fix: GpsFix, fences: GeofenceShapeInput[]): GeofenceResult | null {
+  if (fences.length === 0) return null;
+
+  let nearest = 0;
+  let distance = Infinity;
+  fences.forEach((fence, i) => {
+    const d = distanceToGeofence([fix.latitude, fix.longitude], fence);
+    if (d < distance) [distance, nearest] = [d, i];
+  });
+
+  const accuracy = fix.accuracy ?? 0;
+  const check: GeofenceCheck =
+    distance <= Math.min(accuracy, GEOFENCE_MAX_ACCURACY_M) ? "INSIDE"
+    : accuracy > GEOFENCE_MAX_ACCURACY_M ? "UNCERTAIN"
+    : "OUTSIDE";
+  return { check, distance: Math.round(distance), nearest };
+}
+
+/** What the project policy does with a clock-in; null when it goes through unflagged. */
+export function geofenceOutcome(check: GeofenceCheck, policy: GeofencePolicy): GeofenceOutcome | null {
+  if (check === "INSIDE") return null;
+  return policy === "BLOCK" && check === "OUTSIDE" ? "BLOCKED" : "FLAGGED";
+}
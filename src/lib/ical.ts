@@ -0,0 +1,144 @@
+/**
+ * @file ical.ts
+ * @description iCalendar (RFC 5545) writer for the subscribable calendar feeds
+ * served by `GET /api/calendar/:token`.
+ *
+ * Calendar apps poll a subscribed feed and reconcile events by UID, so every
+ * event gets a UID derived from its source record (`inspection-<id>@accudone`)
+ * rather than from its date — moving an inspection or an RFI due date updates
+ * the existing event instead of adding a second one. Items that drop out of the
+ * feed (closed punch items, answered RFIs) disappear on the next refresh.
+ *
+ * Due dates and milestones are all-day events (DATE values); inspections are
+ * timed events in UTC with a one-hour slot.
+ */
+
+// ── Types ──
+
+export type CalendarEventKind = "inspection" | "milestone" | "punch" | "rfi" | "submittal";
+
+export interface CalendarEvent {
+  kind: CalendarEventKind;
+  /** Source record ID — combined with `kind` into the stable UID. */
+  sourceId: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  start: Date;
+  /** All-day events use the UTC calendar date of `start`. */
+  allDay: boolean;
+  /** Source record's last update; drives DTSTAMP, LAST-MODIFIED and SEQUENCE. */
+  updatedAt: Date;
+  url?: string;
+}
+
+const UID_DOMAIN = "accudone";
+const TIMED_EVENT_MS = 60 * 60 * 1000;
+const DAY_MS = 86_400_000;
+
+// ── Helpers ──
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 §3.1).
+ * Continuation lines start with a single space; multi-byte characters are
+ * never split.
+ */
+export function foldLine(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // First line holds 75 octets, continuations 74 plus the leading space
+    if (bytes + size > (out.length === 0 ? 75 : 74)) {
+      out.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** UTC DATE value, e.g. "20250301". */
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+/** UTC DATE-TIME value, e.g. "20250301T140000Z". */
+function formatDateTime(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/** Stable UID for a source record. */
+export function eventUid(kind: CalendarEventKind, sourceId: string): string {
+  return `${kind}-${sourceId}@${UID_DOMAIN}`;
+}
+
+// ── Writer ──
+
+function eventLines(event: CalendarEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${eventUid(event.kind, event.sourceId)}`,
+    `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+    // Any edit bumps updatedAt, so its epoch seconds only ever increase
+    `SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`,
+  ];
+  if (event.allDay) {
+    const day = new Date(Date.UTC(event.start.getUTCFullYear(), event.start.getUTCMonth(), event.start.getUTCDate()));
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(day)}`,
+      `DTEND;VALUE=DATE:${formatDate(new Date(day.getTime() + DAY_MS))}`,
+      "TRANSP:TRANSPARENT"
+    );
+  } else {
+    lines.push(
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(new Date(event.start.getTime() + TIMED_EVENT_MS))}`
+    );
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`CATEGORIES:${event.kind.toUpperCase()}`, "END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document.
+ *
+ * @param name - Calendar display name (X-WR-CALNAME)
+ * @returns CRLF-delimited, folded iCalendar text
+ */
+export function buildICalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AccuDone//Construction PM//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint to clients to re-poll hourly (Apple / Outlook respectively)
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...events.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,188 @@
+/**
+ * @file mspdi.ts
+ * @description Reader and writer for Microsoft Project XML (MSPDI) schedules.
+ *
+ * Only the parts of the schema that map onto phases are handled, so a small
+ * tag scanner is used instead of a full XML parser:
+ *   - `<Task>`: UID, Name, Start, Finish, ActualStart, ActualFinish, Milestone,
+ *     PercentComplete. Summary tasks, null tasks and the project summary
+ *     (UID 0) are skipped.
+ *   - `<PredecessorLink>`: PredecessorUID, Type (0 FF, 1 FS, 2 SF, 3 SS) and
+ *     LinkLag, which MSPDI stores in tenths of a minute. Elapsed lag formats
+ *     count 24-hour days; all others count `HOURS_PER_DAY` working hours.
+ *
+ * Exported tasks are manually scheduled (`<Manual>1</Manual>`) so MS Project
+ * keeps the dates as planned here instead of re-levelling them on open.
+ */
+
+import type { DependencyLinkType } from "@/lib/critical-path";
+import {
+  HOURS_PER_DAY,
+  calendarDays,
+  formatCalendarDate,
+  parseCalendarDate,
+  type InterchangeLink,
+  type InterchangeSchedule,
+  type InterchangeTask,
+} from "@/lib/schedule-interchange";
+
+const LINK_TYPES: Record<string, DependencyLinkType> = { "0": "FF", "1": "FS", "2": "SF", "3": "SS" };
+const LINK_CODES: Record<DependencyLinkType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+
+// Elapsed (calendar-time) lag formats: em, eh, ed, ew, emo, e%
+const ELAPSED_LAG_FORMATS = new Set(["4", "6", "8", "10", "12", "20"]);
+// LagFormat 7 = working days
+const LAG_FORMAT_DAYS = 7;
+
+// Child elements whose own <Start>/<Name>/… tags must not be read as the task's
+const NESTED_ELEMENTS = /<(Baseline|ExtendedAttribute|TimephasedData|PredecessorLink|OutlineCode)>[\s\S]*?<\/\1>/g;
+
+// ── Reader ──
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Text of the first `<tag>` directly inside `block`, or null. */
+function tag(block: string, name: string): string | null {
+  const match = block.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return match ? unescapeXml(match[1].trim()) : null;
+}
+
+/**
+ * Parse an MSPDI document.
+ *
+ * @throws Error if the text is not an MS Project XML file.
+ */
+export function parseMspdi(xml: string): InterchangeSchedule {
+  if (!/<Project[\s>]/.test(xml) || !xml.includes("<Tasks>")) {
+    throw new Error("Not a Microsoft Project XML file");
+  }
+
+  // Project-level fields come before the first collection element
+  const header = xml.slice(0, xml.search(/<(Calendars|Tasks|ExtendedAttributes|OutlineCodes)>/));
+  const name = tag(header, "Title") || tag(header, "Name") || "Imported schedule";
+
+  const tasks: InterchangeTask[] = [];
+  const links: InterchangeLink[] = [];
+
+  for (const [, raw] of xml.matchAll(/<Task>([\s\S]*?)<\/Task>/g)) {
+    const own = raw.replace(NESTED_ELEMENTS, "");
+    const uid = tag(own, "UID");
+    if (!uid || uid === "0") continue;
+    if (tag(own, "Summary") === "1" || tag(own, "IsNull") === "1") continue;
+
+    const start = parseCalendarDate(tag(own, "Start"));
+    const finish = parseCalendarDate(tag(own, "Finish"));
+    if (!start || !finish) continue;
+
+    tasks.push({
+      uid,
+      name: tag(own, "Name") || `Task ${uid}`,
+      start,
+      finish: finish < start ? start : finish,
+      actualStart: parseCalendarDate(tag(own, "ActualStart")),
+      actualFinish: parseCalendarDate(tag(own, "ActualFinish")),
+      isMilestone: tag(own, "Milestone") === "1",
+      percentComplete: Math.min(100, Math.max(0, Number(tag(own, "PercentComplete")) || 0)),
+    });
+
+    for (const [, link] of raw.matchAll(/<PredecessorLink>([\s\S]*?)<\/PredecessorLink>/g)) {
+      const predecessorUid = tag(link, "PredecessorUID");
+      if (!predecessorUid) continue;
+      const hoursPerDay = ELAPSED_LAG_FORMATS.has(tag(link, "LagFormat") ?? "") ? 24 : HOURS_PER_DAY;
+      const lagMinutes = (Number(tag(link, "LinkLag")) || 0) / 10;
+      links.push({
+        predecessorUid,
+        successorUid: uid,
+        type: LINK_TYPES[tag(link, "Type") ?? "1"] ?? "FS",
+        lagDays: Math.round(lagMinutes / 60 / hoursPerDay),
+      });
+    }
+  }
+
+  // Drop links to tasks that were skipped (summaries, other projects)
+  const kept = new Set(tasks.map((t) => t.uid));
+  return {
+    name,
+    tasks,
+    links: links.filter((l) => kept.has(l.predecessorUid) && kept.has(l.successorUid)),
+  };
+}
+
+// ── Writer ──
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const startTime = (d: Date) => `${formatCalendarDate(d)}T08:00:00`;
+const finishTime = (d: Date) => `${formatCalendarDate(d)}T17:00:00`;
+
+/** Build an MSPDI document. Task UIDs must be positive integers. */
+export function buildMspdi(schedule: InterchangeSchedule): string {
+  const preds = new Map<string, InterchangeLink[]>();
+  for (const l of schedule.links) {
+    if (!preds.has(l.successorUid)) preds.set(l.successorUid, []);
+    preds.get(l.successorUid)!.push(l);
+  }
+  const projectStart = schedule.tasks.reduce<Date | null>(
+    (min, t) => (!min || t.start < min ? t.start : min),
+    null
+  );
+
+  const tasks = schedule.tasks.map((t, i) => {
+    const hours = t.isMilestone ? 0 : calendarDays(t.start, t.finish) * HOURS_PER_DAY;
+    const lines = [
+      `<UID>${t.uid}</UID>`,
+      `<ID>${i + 1}</ID>`,
+      `<Name>${escapeXml(t.name)}</Name>`,
+      `<Manual>1</Manual>`,
+      `<OutlineLevel>1</OutlineLevel>`,
+      `<Start>${startTime(t.start)}</Start>`,
+      `<Finish>${t.isMilestone ? startTime(t.start) : finishTime(t.finish)}</Finish>`,
+      `<Duration>PT${hours}H0M0S</Duration>`,
+      `<DurationFormat>7</DurationFormat>`,
+      `<Milestone>${t.isMilestone ? 1 : 0}</Milestone>`,
+      `<Summary>0</Summary>`,
+      `<PercentComplete>${Math.round(t.percentComplete)}</PercentComplete>`,
+      ...(t.actualStart ? [`<ActualStart>${startTime(t.actualStart)}</ActualStart>`] : []),
+      ...(t.actualFinish ? [`<ActualFinish>${finishTime(t.actualFinish)}</ActualFinish>`] : []),
+      ...(preds.get(t.uid) ?? []).map(
+        (l) =>
+          `<PredecessorLink><PredecessorUID>${l.predecessorUid}</PredecessorUID>` +
+          `<Type>${LINK_CODES[l.type]}</Type>` +
+          `<LinkLag>${l.lagDays * HOURS_PER_DAY * 60 * 10}</LinkLag>` +
+          `<LagFormat>${LAG_FORMAT_DAYS}</LagFormat></PredecessorLink>`
+      ),
+    ];
+    return `    <Task>\n${lines.map((l) => `      ${l}`).join("\n")}\n    </Task>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<Project xmlns="http://schemas.microsoft.com/project">`,
+    `  <SaveVersion>14</SaveVersion>`,
+    `  <Name>${escapeXml(schedule.name)}.xml</Name>`,
+    `  <Title>${escapeXml(schedule.name)}</Title>`,
+    `  <ScheduleFromStart>1</ScheduleFromStart>`,
+    ...(projectStart ? [`  <StartDate>${startTime(projectStart)}</StartDate>`] : []),
+    `  <MinutesPerDay>${HOURS_PER_DAY * 60}</MinutesPerDay>`,
+    `  <Tasks>`,
+    ...tasks,
+    `  </Tasks>`,
+    `</Project>`,
+    ``,
+  ].join("\n");
+}
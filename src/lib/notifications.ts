@@ -27,6 +27,8 @@ type NotificationType =
   | "CHANGE_ORDER_SUBMITTED"
   | "CHANGE_ORDER_APPROVED"
   | "CHANGE_ORDER_REJECTED"
+  | "CHANGE_ORDER_APPROVAL_REQUESTED"
+  | "GEOFENCE_EXCEPTION"
   | "INSPECTION_SCHEDULED"
   | "INSPECTION_RESULT";
 
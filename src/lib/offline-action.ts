@@ -11,6 +11,7 @@
 //   if (result.queued) toast.info(t("queuedOffline"));
 
 import { queueMutation } from "@/lib/offline-queue";
+import type { OfflineActionName, OfflinePayload } from "@/lib/offline-actions";
 
 interface OfflineActionResult<T> {
   /** Whether the action was queued for later (offline) rather than executed immediately */
@@ -19,17 +20,34 @@ interface OfflineActionResult<T> {
   data?: T;
 }
 
+/** Whether a failed call looks like lost connectivity rather than a server-side rejection. */
+export function isNetworkError(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : "";
+  return (
+    msg.includes("fetch") ||
+    msg.includes("network") ||
+    msg.includes("Failed to fetch") ||
+    msg.includes("NetworkError") ||
+    msg.includes("503")
+  );
+}
+
 /**
  * Execute a server action with offline fallback.
  *
- * @param actionName - Unique name matching a registered offline handler
+ * @param actionName - Action from the offline registry (lib/offline-actions.ts)
  * @param execute - Function that calls the actual server action
- * @param payload - Serializable payload to store if offline (for replay later)
+ * @param payload - Serializable payload to store if offline, matching the
+ *   action's schema (validated again on replay)
+ * @param baseUpdatedAt - Version (ISO updatedAt) of the data the change was
+ *   made against; defaults to now. Replay reports a conflict if the server copy
+ *   changed after it.
  */
-export async function offlineAction<T>(
-  actionName: string,
+export async function offlineAction<T, A extends OfflineActionName>(
+  actionName: A,
   execute: () => Promise<T>,
-  payload: Record<string, unknown>
+  payload: OfflinePayload<A>,
+  baseUpdatedAt?: string
 ): Promise<OfflineActionResult<T>> {
   // If online, try executing directly
   if (navigator.onLine) {
@@ -38,16 +56,8 @@ export async function offlineAction<T>(
       return { queued: false, data };
     } catch (err) {
       // If the error looks like a network failure, queue it
-      const msg = err instanceof Error ? err.message : "";
-      const isNetworkError =
-        msg.includes("fetch") ||
-        msg.includes("network") ||
-        msg.includes("Failed to fetch") ||
-        msg.includes("NetworkError") ||
-        msg.includes("503");
-
-      if (isNetworkError) {
-        await queueMutation({ action: actionName, payload });
+      if (isNetworkError(err)) {
+        await queueMutation({ action: actionName, payload, baseUpdatedAt });
         return { queued: true };
       }
       // Re-throw non-network errors (validation, auth, etc.)
@@ -56,6 +66,6 @@ export async function offlineAction<T>(
   }
 
   // Offline — queue it
-  await queueMutation({ action: actionName, payload });
+  await queueMutation({ action: actionName, payload, baseUpdatedAt });
   return { queued: true };
 }
@@ -0,0 +1,222 @@
+// Offline action registry — every mutation that can be queued while offline,
+// with the zod schema its payload must match. The single source of truth for
+// both replay paths:
+//   - the client queue (useOfflineSync, handlers from lib/offline-handlers.ts)
+//   - POST /api/sync (server-side batch replay)
+// Both go through `replayOfflineAction` in lib/offline-replay.ts, whose
+// replayer table is typed against this file so an action cannot be added
+// here without a replayer (and vice versa).
+//
+// Client-safe: schemas only, no server imports. `offlineAction()` takes an
+// `OfflineActionName` and a matching `OfflinePayload`, so callers are
+// type-checked against the schema.
+//
+// Payload shapes are stored in IndexedDB — keep changes backwards compatible
+// (new fields optional) or older queued entries will fail validation.
+
+import { z } from "zod";
+
+const id = z.string().min(1);
+const optionalText = z.string().optional();
+const money = z.number().nullable();
+
+const phaseStatus = z.enum(["PENDING", "IN_PROGRESS", "REVIEW_REQUESTED", "UNDER_REVIEW", "COMPLETE"]);
+const photoFlagType = z.enum(["REPLACEMENT_NEEDED", "ADDITIONAL_ANGLES", "ADDITIONAL_PHOTOS", "CLARIFICATION_NEEDED"]);
+const documentStatus = z.enum(["PENDING", "APPROVED", "REJECTED", "EXPIRED"]);
+const materialStatus = z.enum(["ORDERED", "DELIVERED", "INSTALLED", "RETURNED"]);
+const inspectionResult = z.enum(["PASS", "FAIL", "CONDITIONAL"]);
+const punchListStatus = z.enum(["OPEN", "IN_PROGRESS", "READY_FOR_REVIEW", "CLOSED"]);
+const punchListPriority = z.enum(["CRITICAL", "MAJOR", "MINOR", "COSMETIC"]);
+const rfiStatus = z.enum(["OPEN", "ANSWERED", "CLOSED", "VOID"]);
+const rfiPriority = z.enum(["URGENT", "HIGH", "NORMAL", "LOW"]);
+
+const changeOrderLineItem = z.object({
+  category: z.enum(["LABOR", "MATERIAL", "EQUIPMENT", "SUBCONTRACT", "OTHER"]),
+  costCodeId: z.string().nullable().optional(),
+  costCode: z.string().nullable().optional(),
+  description: z.string(),
+  quantity: z.number(),
+  unit: z.string().nullable().optional(),
+  unitCost: z.number(),
+});
+
+const gpsFix = {
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: z.number().optional(),
+  notes: optionalText,
+};
+
+export const offlineActionSchemas = {
+  // ── Phases ──
+  updatePhaseStatus: z.object({ phaseId: id, status: phaseStatus }),
+  updatePhaseDates: z.object({
+    phaseId: id,
+    estStart: z.string(),
+    estEnd: z.string(),
+    worstStart: z.string().nullable().optional(),
+    worstEnd: z.string().nullable().optional(),
+  }),
+  assignStaff: z.object({ phaseId: id, staffId: id, isOwner: z.boolean().optional() }),
+  unassignStaff: z.object({ assignmentId: id }),
+  addDependency: z.object({
+    phaseId: id,
+    dependsOnId: id,
+    type: z.enum(["FS", "SS", "FF", "SF"]).optional(),
+    lagDays: z.number().int().optional(),
+  }),
+  removeDependency: z.object({ dependencyId: id }),
+
+  // ── Checklists & comments ──
+  // `completed` is the target state, so a replay never flips a newer change back
+  toggleChecklistItem: z.object({ itemId: id, completed: z.boolean().optional() }),
+  addChecklistItem: z.object({ checklistId: id, text: z.string().min(1) }),
+  deleteChecklistItem: z.object({ itemId: id }),
+  addComment: z.object({ phaseId: id, content: z.string().min(1) }),
+  deleteComment: z.object({ commentId: id }),
+
+  // ── Budget & change orders ──
+  updateProjectBudget: z.object({ projectId: id, budget: money }),
+  updatePhaseCosts: z.object({ phaseId: id, estimatedCost: money.optional(), actualCost: money.optional() }),
+  createChangeOrder: z.object({
+    phaseId: id,
+    number: z.string(),
+    title: z.string(),
+    description: optionalText,
+    amount: z.number().optional(),
+    reason: optionalText,
+    lineItems: z.array(changeOrderLineItem).optional(),
+    overheadPercent: z.number().nullable().optional(),
+    profitPercent: z.number().nullable().optional(),
+    scheduleImpactDays: z.number().optional(),
+    type: z.enum(["PCO", "CO"]).optional(),
+    rfiId: optionalText,
+  }),
+  updateChangeOrderStatus: z.object({ changeOrderId: id, status: z.enum(["APPROVED", "REJECTED"]) }),
+  deleteChangeOrder: z.object({ changeOrderId: id }),
+  submitBid: z.object({
+    phaseId: id,
+    companyName: z.string().min(1),
+    contactName: optionalText,
+    email: optionalText,
+    phone: optionalText,
+    amount: z.number(),
+    notes: optionalText,
+  }),
+
+  // ── Daily logs ──
+  createDailyLog: z.object({
+    projectId: id,
+    date: z.string(),
+    weather: optionalText,
+    tempHigh: z.number().optional(),
+    tempLow: z.number().optional(),
+    crewCount: z.number().optional(),
+    equipment: optionalText,
+    workSummary: z.string(),
+    issues: optionalText,
+    notes: optionalText,
+  }),
+  deleteDailyLog: z.object({ logId: id }),
+
+  // ── Photos & voice notes (URLs filled in from queued blobs, lib/offline-uploads.ts) ──
+  createPhotoBatch: z.object({
+    phaseId: id,
+    photos: z.array(z.object({ url: z.string(), caption: optionalText })).min(1),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+  }),
+  updatePhotoCaption: z.object({ photoId: id, caption: z.string() }),
+  flagPhoto: z.object({ photoId: id, flagType: photoFlagType, flagNote: optionalText }),
+  clearPhotoFlag: z.object({ photoId: id }),
+  updatePhotoGps: z.object({ photoId: id, latitude: z.number(), longitude: z.number() }),
+  createVoiceNote: z.object({ phaseId: id, audioUrl: z.string(), duration: z.number(), label: optionalText }),
+
+  // ── Documents, inspections, materials ──
+  updateDocumentStatus: z.object({ documentId: id, status: documentStatus }),
+  createInspection: z.object({
+    phaseId: id,
+    title: z.string(),
+    inspectorName: optionalText,
+    scheduledAt: z.string(),
+    notifyOnResult: z.boolean().optional(),
+  }),
+  recordInspectionResult: z.object({ inspectionId: id, result: inspectionResult, notes: optionalText }),
+  createMaterial: z.object({
+    phaseId: id,
+    name: z.string(),
+    quantity: z.number(),
+    unit: z.string(),
+    cost: z.number().optional(),
+    supplier: optionalText,
+    notes: optionalText,
+  }),
+  updateMaterialStatus: z.object({ materialId: id, status: materialStatus }),
+
+  // ── Punch list ──
+  createPunchListItem: z.object({
+    phaseId: id,
+    title: z.string().min(1),
+    description: optionalText,
+    priority: punchListPriority,
+    location: optionalText,
+    assignedToId: optionalText,
+    dueDate: optionalText,
+  }),
+  updatePunchListStatus: z.object({ itemId: id, status: punchListStatus }),
+  updatePunchListItem: z.object({
+    itemId: id,
+    title: optionalText,
+    description: optionalText,
+    priority: punchListPriority.optional(),
+    location: optionalText,
+    assignedToId: z.string().nullable().optional(),
+    dueDate: z.string().nullable().optional(),
+  }),
+  deletePunchListItem: z.object({ itemId: id }),
+
+  // ── RFIs ──
+  createRFI: z.object({
+    phaseId: id,
+    subject: z.string().min(1),
+    question: z.string().min(1),
+    priority: rfiPriority,
+    ballInCourt: optionalText,
+    assignedToId: optionalText,
+    dueDate: optionalText,
+  }),
+  answerRFI: z.object({ rfiId: id, answer: z.string().min(1) }),
+  updateRFIStatus: z.object({ rfiId: id, status: rfiStatus }),
+
+  // ── Time entries & GPS clock ──
+  createTimeEntry: z.object({
+    phaseId: id,
+    workerId: id,
+    date: z.string(),
+    hours: z.number().positive(),
+    costCodeId: optionalText,
+    costCode: optionalText,
+    description: optionalText,
+  }),
+  deleteTimeEntry: z.object({ entryId: id }),
+  clockIn: z.object({ phaseId: id, ...gpsFix }),
+  clockOut: z.object({ clockEntryId: id, ...gpsFix }),
+
+  // ── Notifications ──
+  markNotificationRead: z.object({ notificationId: id }),
+  markAllNotificationsRead: z.object({}),
+};
+
+export type OfflineActionName = keyof typeof offlineActionSchemas;
+
+/** Payload accepted when queueing an action. */
+export type OfflinePayload<A extends OfflineActionName> = z.input<(typeof offlineActionSchemas)[A]>;
+
+/** Payload handed to the replayer after validation. */
+export type ParsedOfflinePayload<A extends OfflineActionName> = z.output<(typeof offlineActionSchemas)[A]>;
+
+export const OFFLINE_ACTION_NAMES = Object.keys(offlineActionSchemas) as OfflineActionName[];
+
+export function isOfflineAction(action: string): action is OfflineActionName {
+  return Object.prototype.hasOwnProperty.call(offlineActionSchemas, action);
+}
@@ -0,0 +1,176 @@
+/**
+ * @file offline-conflicts.ts
+ * @description Stale-write detection for replayed offline mutations.
+ *
+ * Every queued mutation carries `baseUpdatedAt` — the version of the entity
+ * the user was looking at when they made the change (the read-model sync
+ * time, or the moment it was queued). Before a mutation is replayed, by
+ * `POST /api/sync` or by the client queue (actions/offline-sync.ts), the
+ * check registered for its action compares that with the entity's current
+ * `updatedAt`:
+ *   - unchanged since the base      → no conflict, replay
+ *   - changed, but already matching → no conflict (the replay is a no-op)
+ *   - changed to something else     → OfflineConflict listing mine vs theirs
+ *     per field, which the user resolves (OfflineConflictResolver): keep mine
+ *     (replay with `force`), keep theirs (drop it) or merge (pick per field,
+ *     edit text fields, then replay with `force`).
+ *
+ * Appends — a comment or checklist item — conflict when others added to the
+ * same thread or checklist since the base, so the author can reword their
+ * own in light of what was added. Actions without a registered check replay as
+ * before.
+ */
+
+import { db } from "@/lib/db";
+
+export interface ConflictField {
+  field: string;
+  mine: string | number | boolean | null;
+  theirs: string | number | boolean | null;
+  /** Free text — merging lets the user edit the final value. */
+  text?: boolean;
+}
+
+export interface OfflineConflict {
+  action: string;
+  /** What was changed — shown through the `pwa` i18n namespace. */
+  entity: "phase" | "project" | "checklistItem" | "checklist" | "comments";
+  entityId: string;
+  /** The record's name or title. */
+  label: string;
+  fields: ConflictField[];
+  /** When the server copy last changed. */
+  theirsUpdatedAt: string;
+}
+
+type Value = ConflictField["mine"];
+type Check = (payload: Record<string, unknown>, base: Date, userId: string) => Promise<OfflineConflict | null>;
+
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+/** JSON-safe form of a DB value (dates as ISO strings, decimals as numbers). */
+function plain(value: unknown): Value {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object" && "toNumber" in value) return Number(value);
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+}
+
+/** Loose equality across the shapes a payload and a DB row use for the same value. */
+export function sameValue(mine: unknown, theirs: unknown): boolean {
+  const a = plain(mine);
+  const b = plain(theirs);
+  if (a === null || b === null) return a === b;
+  if (typeof a === "string" && typeof b === "string" && DATE_PREFIX.test(a) && DATE_PREFIX.test(b)) {
+    return a.slice(0, 10) === b.slice(0, 10);
+  }
+  if (a !== "" && b !== "" && !isNaN(Number(a)) && !isNaN(Number(b))) return Number(a) === Number(b);
+  return a === b;
+}
+
+/** Fields the mutation sets that the server now holds differently. */
+export function diffFields(mine: Record<string, unknown>, theirs: Record<string, unknown>): ConflictField[] {
+  return Object.entries(mine)
+    .filter(([, value]) => value !== undefined)
+    .filter(([field, value]) => !sameValue(value, theirs[field]))
+    .map(([field, value]) => ({ field, mine: plain(value), theirs: plain(theirs[field]) }));
+}
+
+/** Only the keys of `payload` that the action writes. */
+function pick(payload: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.filter((k) => k in payload).map((k) => [k, payload[k]]));
+}
+
+function conflict(
+  action: string,
+  entity: OfflineConflict["entity"],
+  row: { id: string; updatedAt: Date },
+  label: string,
+  fields: ConflictField[]
+): OfflineConflict | null {
+  if (fields.length === 0) return null;
+  return { action, entity, entityId: row.id, label, fields, theirsUpdatedAt: row.updatedAt.toISOString() };
+}
+
+async function phaseCheck(action: string, payload: Record<string, unknown>, base: Date, keys: string[]) {
+  const phase = await db.phase.findUnique({
+    where: { id: payload.phaseId as string },
+    select: { id: true, name: true, updatedAt: true, status: true, estStart: true, estEnd: true, worstStart: true, worstEnd: true, estimatedCost: true, actualCost: true },
+  });
+  if (!phase || phase.updatedAt <= base) return null;
+  return conflict(action, "phase", phase, phase.name, diffFields(pick(payload, keys), phase));
+}
+
+/** Per-action checks; the payload shapes are the schemas in lib/offline-actions.ts. */
+const CHECKS: Record<string, Check> = {
+  updatePhaseStatus: (p, base) => phaseCheck("updatePhaseStatus", p, base, ["status"]),
+  updatePhaseDates: (p, base) => phaseCheck("updatePhaseDates", p, base, ["estStart", "estEnd", "worstStart", "worstEnd"]),
+  updatePhaseCosts: (p, base) => phaseCheck("updatePhaseCosts", p, base, ["estimatedCost", "actualCost"]),
+
+  updateProjectBudget: async (p, base) => {
+    const project = await db.project.findUnique({
+      where: { id: p.projectId as string },
+      select: { id: true, name: true, updatedAt: true, budget: true },
+    });
+    if (!project || project.updatedAt <= base) return null;
+    return conflict("updateProjectBudget", "project", project, project.name, diffFields(pick(p, ["budget"]), project));
+  },
+
+  toggleChecklistItem: async (p, base) => {
+    const item = await db.checklistItem.findUnique({
+      where: { id: p.itemId as string },
+      select: { id: true, title: true, updatedAt: true, completed: true },
+    });
+    if (!item || item.updatedAt <= base) return null;
+    // Older queue entries have no target state: the toggle would flip the other change back
+    const completed = typeof p.completed === "boolean" ? p.completed : !item.completed;
+    return conflict("toggleChecklistItem", "checklistItem", item, item.title, diffFields({ completed }, item));
+  },
+
+  addChecklistItem: async (p, base) => {
+    const checklist = await db.checklist.findUnique({
+      where: { id: p.checklistId as string },
+      select: { id: true, phase: { select: { name: true } }, items: { where: { updatedAt: { gt: base } }, select: { title: true, updatedAt: true } } },
+    });
+    if (!checklist || checklist.items.length === 0) return null;
+    const latest = checklist.items.reduce((d, i) => (i.updatedAt > d ? i.updatedAt : d), base);
+    return conflict("addChecklistItem", "checklist", { id: checklist.id, updatedAt: latest }, checklist.phase.name, [
+      { field: "text", mine: String(p.text ?? ""), theirs: checklist.items.map((i) => i.title).join("\n"), text: true },
+    ]);
+  },
+
+  addComment: async (p, base, userId) => {
+    const comments = await db.phaseComment.findMany({
+      where: { phaseId: p.phaseId as string, createdAt: { gt: base }, userId: { not: userId } },
+      select: { content: true, createdAt: true, user: { select: { name: true } }, phase: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+    if (comments.length === 0) return null;
+    const last = comments[comments.length - 1];
+    return conflict("addComment", "comments", { id: last.phase.id, updatedAt: last.createdAt }, last.phase.name, [
+      {
+        field: "content",
+        mine: String(p.content ?? ""),
+        theirs: comments.map((c) => `${c.user.name ?? "—"}: ${c.content}`).join("\n"),
+        text: true,
+      },
+    ]);
+  },
+};
+
+/**
+ * Check a queued mutation against the server copy of what it changes.
+ * Returns null when it can be replayed: no check for the action, the
+ * mutation is forced (already resolved), or nothing changed underneath it.
+ */
+export async function detectOfflineConflict(
+  mutation: { action: string; payload: Record<string, unknown>; baseUpdatedAt?: string | null; timestamp: number },
+  userId: string
+): Promise<OfflineConflict | null> {
+  const check = CHECKS[mutation.action];
+  if (!check || mutation.payload.force === true) return null;
+  const base = new Date(mutation.baseUpdatedAt ?? mutation.timestamp);
+  if (isNaN(base.getTime())) return null;
+  return check(mutation.payload, base, userId);
+}
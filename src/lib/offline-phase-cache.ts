@@ -0,0 +1,139 @@
+// Offline read model — the user's phases (checklist, punch list, drawings,
+// RFIs, recent photos) cached in IndexedDB so the contractor app can open
+// them without signal. Kept in sync from GET /api/sync/read-model.
+//
+// Usage in components:
+//   import { syncPhaseCache, getCachedPhase } from "@/lib/offline-phase-cache";
+//   await syncPhaseCache();                 // when online
+//   const phase = await getCachedPhase(id); // any time
+
+import type { OfflinePhase, ReadModelDelta } from "@/lib/offline-read-model";
+
+export type { OfflinePhase } from "@/lib/offline-read-model";
+
+// Separate database from the mutation queue so either can change version alone
+const DB_NAME = "construction-pm-read-model";
+const DB_VERSION = 1;
+const PHASES = "phases";
+const META = "meta";
+
+interface SyncMeta {
+  key: "sync";
+  cursor: string;
+  userId: string;
+}
+
+// ── IndexedDB helpers ──
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PHASES)) {
+        const store = db.createObjectStore(PHASES, { keyPath: "id" });
+        store.createIndex("projectId", "projectId", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function read<T>(storeName: string, query: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDB().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const req = query(db.transaction(storeName, "readonly").objectStore(storeName));
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
+
+// ── Public API ──
+
+export async function getCachedPhase(phaseId: string): Promise<OfflinePhase | undefined> {
+  return read<OfflinePhase | undefined>(PHASES, (store) => store.get(phaseId));
+}
+
+export async function getCachedPhases(): Promise<OfflinePhase[]> {
+  return read<OfflinePhase[]>(PHASES, (store) => store.getAll());
+}
+
+/** When the cache was last synced, or null if it never has been. */
+export async function getLastSync(): Promise<string | null> {
+  const meta = await read<SyncMeta | undefined>(META, (store) => store.get("sync"));
+  return meta?.cursor ?? null;
+}
+
+/**
+ * Apply a local change to a cached phase (e.g. a checklist item toggled while
+ * offline) so the view reflects it before the queued mutation replays.
+ */
+export async function updateCachedPhase(phaseId: string, update: (phase: OfflinePhase) => OfflinePhase): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHASES, "readwrite");
+    const store = tx.objectStore(PHASES);
+    const getReq = store.get(phaseId);
+    getReq.onsuccess = () => {
+      if (getReq.result) store.put(update(getReq.result as OfflinePhase));
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Pull changes since the stored cursor and apply them in one transaction.
+ * A full sync, or a different signed-in user, replaces the whole cache.
+ *
+ * @returns Number of phase bundles written.
+ */
+export async function syncPhaseCache(): Promise<number> {
+  const db = await openDB();
+  const meta = await read<SyncMeta | undefined>(META, (store) => store.get("sync"));
+  const res = await fetch(`/api/sync/read-model${meta ? `?since=${encodeURIComponent(meta.cursor)}` : ""}`, {
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error(`Read model sync failed (${res.status})`);
+  const delta = (await res.json()) as ReadModelDelta;
+
+  // Someone else's cursor: start over with a full sync for this user
+  if (meta && meta.userId !== delta.userId && !delta.full) {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([PHASES, META], "readwrite");
+      tx.objectStore(PHASES).clear();
+      tx.objectStore(META).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    return syncPhaseCache();
+  }
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([PHASES, META], "readwrite");
+    const phases = tx.objectStore(PHASES);
+    const inScope = new Set(delta.phaseIds);
+
+    if (delta.full) {
+      phases.clear();
+    } else {
+      const keysReq = phases.getAllKeys();
+      keysReq.onsuccess = () => {
+        for (const key of keysReq.result) {
+          if (!inScope.has(key as string)) phases.delete(key);
+        }
+      };
+    }
+    for (const phase of delta.phases) phases.put(phase);
+    tx.objectStore(META).put({ key: "sync", cursor: delta.cursor, userId: delta.userId } satisfies SyncMeta);
+
+    tx.oncomplete = () => resolve(delta.phases.length);
+    tx.onerror = () => reject(tx.error);
+  });
+}
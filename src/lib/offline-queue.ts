@@ -3,25 +3,76 @@
 //
 // Usage in components:
 //   import { queueMutation, getQueueStatus } from "@/lib/offline-queue";
-//   await queueMutation({ action: "createComment", payload: { ... } });
+//   await queueMutation({ action: "addComment", payload: { ... } });
+//
+// Each entry records `baseUpdatedAt` — the version of the data the change was
+// made against (defaults to when it was queued). Replays that find the server
+// copy changed since are parked as "conflict" until the user resolves them.
+//
+// Binary captures (photos, voice notes) are stored as Blobs in a second store,
+// keyed by id and referenced from the payload as `{ $blob: id }`; they are
+// uploaded before the mutation replays (lib/offline-uploads.ts):
+//   await queueMutationWithBlobs(
+//     { action: "createVoiceNote", payload: { phaseId, audioUrl: blobRef(id), duration } },
+//     [{ id, name: "note.webm", data: blob }]
+//   );
+
+import type { OfflineConflict } from "@/lib/offline-conflicts";
 
 const DB_NAME = "construction-pm-offline";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = "mutations";
+const BLOB_STORE = "blobs";
+
+/** Window event fired when entries change outside the sync loop (conflicts found or resolved). */
+export const OFFLINE_QUEUE_EVENT = "offline-queue:changed";
 
 export interface QueuedMutation {
   id?: number;
   action: string;
   payload: Record<string, unknown>;
   timestamp: number;
+  /** ISO updatedAt of the entity the change was based on. */
+  baseUpdatedAt?: string;
   retries: number;
-  status: "pending" | "syncing" | "failed";
+  status: "pending" | "syncing" | "failed" | "conflict";
   error?: string;
+  /** Server copy vs this change, set when status is "conflict". */
+  conflict?: OfflineConflict;
 }
 
+/** A photo or recording waiting to be uploaded for a queued mutation. */
+export interface QueuedBlob {
+  id: string;
+  mutationId: number;
+  name: string;
+  type: string;
+  size: number;
+  data: Blob;
+  /** Multipart upload in flight — kept so an interrupted upload resumes. */
+  upload?: {
+    pathname: string;
+    key: string;
+    uploadId: string;
+    parts: { partNumber: number; etag: string }[];
+  };
+  /** Set once the upload completed. */
+  url?: string;
+}
+
+/** Placeholder for a queued blob's URL inside a mutation payload. */
+export interface BlobRef {
+  $blob: string;
+}
+
+export const blobRef = (id: string): BlobRef => ({ $blob: id });
+
+export type ConflictResolution = "mine" | "theirs" | "merge";
+
 export interface QueueStatus {
   pending: number;
   failed: number;
+  conflicts: number;
   isOnline: boolean;
 }
 
@@ -40,6 +91,10 @@ function openDB(): Promise<IDBDatabase> {
         store.createIndex("status", "status", { unique: false });
         store.createIndex("timestamp", "timestamp", { unique: false });
       }
+      if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        const blobs = db.createObjectStore(BLOB_STORE, { keyPath: "id" });
+        blobs.createIndex("mutationId", "mutationId", { unique: false });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
@@ -55,9 +110,11 @@ export async function queueMutation(
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, "readwrite");
     const store = tx.objectStore(STORE_NAME);
+    const timestamp = Date.now();
     const entry: QueuedMutation = {
       ...mutation,
-      timestamp: Date.now(),
+      baseUpdatedAt: mutation.baseUpdatedAt ?? new Date(timestamp).toISOString(),
+      timestamp,
       retries: 0,
       status: "pending",
     };
@@ -67,6 +124,62 @@ export async function queueMutation(
   });
 }
 
+/**
+ * Queue a mutation together with the blobs its payload references, in one
+ * transaction so a mutation is never stored without its files.
+ */
+export async function queueMutationWithBlobs(
+  mutation: Omit<QueuedMutation, "id" | "timestamp" | "retries" | "status">,
+  blobs: { id: string; name: string; data: Blob }[]
+): Promise<number> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, BLOB_STORE], "readwrite");
+    const timestamp = Date.now();
+    const req = tx.objectStore(STORE_NAME).add({
+      ...mutation,
+      baseUpdatedAt: mutation.baseUpdatedAt ?? new Date(timestamp).toISOString(),
+      timestamp,
+      retries: 0,
+      status: "pending",
+    } satisfies QueuedMutation);
+    req.onsuccess = () => {
+      const mutationId = req.result as number;
+      for (const b of blobs) {
+        tx.objectStore(BLOB_STORE).put({
+          id: b.id,
+          mutationId,
+          name: b.name,
+          type: b.data.type,
+          size: b.data.size,
+          data: b.data,
+        } satisfies QueuedBlob);
+      }
+    };
+    tx.oncomplete = () => resolve(req.result as number);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getMutationBlobs(mutationId: number): Promise<QueuedBlob[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(BLOB_STORE, "readonly").objectStore(BLOB_STORE).index("mutationId").getAll(mutationId);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Save upload progress (multipart parts, final URL) for a queued blob. */
+export async function updateQueuedBlob(blob: QueuedBlob): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(BLOB_STORE, "readwrite").objectStore(BLOB_STORE).put(blob);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+}
+
 export async function getPendingMutations(): Promise<QueuedMutation[]> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -91,6 +204,72 @@ export async function getFailedMutations(): Promise<QueuedMutation[]> {
   });
 }
 
+export async function getConflictedMutations(): Promise<QueuedMutation[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, "readonly");
+    const store = tx.objectStore(STORE_NAME);
+    const index = store.index("status");
+    const req = index.getAll("conflict");
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Park a mutation whose entity changed on the server since it was made. */
+export async function markConflict(id: number, conflict: OfflineConflict): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    const getReq = store.get(id);
+    getReq.onsuccess = () => {
+      const entry = getReq.result as QueuedMutation;
+      if (!entry) return resolve();
+      const putReq = store.put({ ...entry, status: "conflict", conflict });
+      putReq.onsuccess = () => resolve();
+      putReq.onerror = () => reject(putReq.error);
+    };
+    getReq.onerror = () => reject(getReq.error);
+  });
+}
+
+/**
+ * Resolve a conflicted mutation.
+ *   - "theirs": drop it, the server copy stands.
+ *   - "mine":   replay it as queued, overwriting the server copy.
+ *   - "merge":  replay it with `merged` field values (from the resolve UI).
+ * Replays are marked `force` so they skip the stale-write check.
+ */
+export async function resolveConflict(
+  id: number,
+  resolution: ConflictResolution,
+  merged?: Record<string, unknown>
+): Promise<void> {
+  if (resolution === "theirs") return removeMutation(id);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    const getReq = store.get(id);
+    getReq.onsuccess = () => {
+      const entry = getReq.result as QueuedMutation;
+      if (!entry) return resolve();
+      const putReq = store.put({
+        ...entry,
+        payload: { ...entry.payload, ...(resolution === "merge" ? merged : {}), force: true },
+        status: "pending",
+        retries: 0,
+        conflict: undefined,
+        error: undefined,
+      });
+      putReq.onsuccess = () => resolve();
+      putReq.onerror = () => reject(putReq.error);
+    };
+    getReq.onerror = () => reject(getReq.error);
+  });
+}
+
 export async function updateMutationStatus(
   id: number,
   status: QueuedMutation["status"],
@@ -118,21 +297,26 @@ export async function updateMutationStatus(
 export async function removeMutation(id: number): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    const req = tx.objectStore(STORE_NAME).delete(id);
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error);
+    const tx = db.transaction([STORE_NAME, BLOB_STORE], "readwrite");
+    tx.objectStore(STORE_NAME).delete(id);
+    const blobs = tx.objectStore(BLOB_STORE);
+    const keysReq = blobs.index("mutationId").getAllKeys(id);
+    keysReq.onsuccess = () => keysReq.result.forEach((key) => blobs.delete(key));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
   });
 }
 
 export async function getQueueStatus(): Promise<QueueStatus> {
-  const [pending, failed] = await Promise.all([
+  const [pending, failed, conflicts] = await Promise.all([
     getPendingMutations(),
     getFailedMutations(),
+    getConflictedMutations(),
   ]);
   return {
     pending: pending.length,
     failed: failed.length,
+    conflicts: conflicts.length,
     isOnline: typeof navigator !== "undefined" ? navigator.onLine : true,
   };
 }
@@ -140,9 +324,10 @@ export async function getQueueStatus(): Promise<QueueStatus> {
 export async function clearQueue(): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    const req = tx.objectStore(STORE_NAME).clear();
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error);
+    const tx = db.transaction([STORE_NAME, BLOB_STORE], "readwrite");
+    tx.objectStore(STORE_NAME).clear();
+    tx.objectStore(BLOB_STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
   });
 }
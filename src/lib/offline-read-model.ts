@@ -0,0 +1,145 @@
+/**
+ * @file offline-read-model.ts
+ * @description Server side of the contractor app's offline read model — the
+ * phases a user can open without signal, served incrementally from a `since`
+ * cursor by `GET /api/sync/read-model`.
+ *
+ * Scope: every phase of every project the user is a member of (the same set
+ * the contractor "My Work" list shows). Each phase is sent as one bundle —
+ * header, checklist, punch list, drawings list, RFIs and the most recent
+ * photos — and the client replaces its cached copy wholesale.
+ *
+ * Incremental sync: a phase is re-sent when it, its project or any row in its
+ * bundle has `updatedAt` after the cursor. `phaseIds` always lists the full
+ * scope so the client can drop phases it lost access to. Deleted child rows
+ * do not bump a timestamp, so the bundle is only refreshed once something
+ * else in the phase changes or on the periodic full sync (`FULL_SYNC_AFTER_MS`).
+ *
+ * The cursor is the server time taken before querying, so writes that land
+ * while a sync is running are picked up by the next one.
+ */
+
+import { db } from "@/lib/db";
+
+/** Cursors older than this get a full sync, which also clears out deleted rows. */
+export const FULL_SYNC_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/** Photos kept per phase — enough to recognise the work, small enough to store. */
+const RECENT_PHOTOS = 24;
+
+export interface OfflinePhase {
+  id: string;
+  projectId: string;
+  projectName: string;
+  projectAddress: string | null;
+  name: string;
+  detail: string | null;
+  status: string;
+  progress: number;
+  estStart: string;
+  estEnd: string;
+  checklist: { id: string; title: string; completed: boolean; order: number }[];
+  punchList: { id: string; itemNumber: number; title: string; status: string; priority: string; location: string | null; dueDate: string | null }[];
+  drawings: { id: string; drawingNumber: string; title: string; discipline: string; revision: string; status: string; fileUrl: string | null }[];
+  rfis: { id: string; rfiNumber: number; subject: string; question: string; answer: string | null; status: string; priority: string; dueDate: string | null }[];
+  photos: { id: string; url: string; caption: string | null; takenAt: string }[];
+  /** Server time the bundle was built (the sync cursor). */
+  syncedAt: string;
+}
+
+export interface ReadModelDelta {
+  /** Pass back as `since` on the next sync. */
+  cursor: string;
+  /** Cache owner — the client clears its store when a different user signs in. */
+  userId: string;
+  /** True when every phase in scope is included (first sync or stale cursor). */
+  full: boolean;
+  /** Every phase currently in scope; anything else cached is removed. */
+  phaseIds: string[];
+  phases: OfflinePhase[];
+}
+
+const iso = (d: Date | null) => (d ? d.toISOString() : null);
+
+/** Phases the user can see whose bundle changed after `since`. */
+async function changedPhaseIds(userId: string, since: Date): Promise<Set<string>> {
+  const phase = { project: { members: { some: { userId } } } };
+  const changed = { updatedAt: { gt: since } };
+  const [phases, checklist, punchList, drawings, rfis, photos] = await Promise.all([
+    db.phase.findMany({
+      where: { ...phase, OR: [changed, { project: changed }] },
+      select: { id: true },
+    }),
+    db.checklistItem.findMany({ where: { ...changed, checklist: { phase } }, select: { checklist: { select: { phaseId: true } } } }),
+    db.punchListItem.findMany({ where: { ...changed, phase }, select: { phaseId: true } }),
+    db.drawing.findMany({ where: { ...changed, phase }, select: { phaseId: true } }),
+    db.rFI.findMany({ where: { ...changed, phase }, select: { phaseId: true } }),
+    db.photo.findMany({ where: { ...changed, phase }, select: { phaseId: true } }),
+  ]);
+  return new Set([
+    ...phases.map((p) => p.id),
+    ...checklist.map((c) => c.checklist.phaseId),
+    ...[...punchList, ...drawings, ...rfis, ...photos].map((r) => r.phaseId),
+  ]);
+}
+
+/**
+ * Build the read-model delta for a user.
+ * @param since - Cursor from the previous sync; null (or stale) for a full sync.
+ */
+export async function loadReadModelDelta(userId: string, since: Date | null, now: Date = new Date()): Promise<ReadModelDelta> {
+  const full = !since || now.getTime() - since.getTime() > FULL_SYNC_AFTER_MS;
+  const scope = await db.phase.findMany({
+    where: { project: { members: { some: { userId } } } },
+    select: { id: true },
+  });
+  const phaseIds = scope.map((p) => p.id);
+  const wanted = full ? phaseIds : [...(await changedPhaseIds(userId, since!))];
+
+  const rows = wanted.length === 0 ? [] : await db.phase.findMany({
+    where: { id: { in: wanted } },
+    select: {
+      id: true, name: true, detail: true, status: true, progress: true, estStart: true, estEnd: true,
+      project: { select: { id: true, name: true, address: true } },
+      checklist: { select: { items: { select: { id: true, title: true, completed: true, order: true }, orderBy: { order: "asc" } } } },
+      punchListItems: {
+        select: { id: true, itemNumber: true, title: true, status: true, priority: true, location: true, dueDate: true },
+        orderBy: { itemNumber: "asc" },
+      },
+      drawings: {
+        select: { id: true, drawingNumber: true, title: true, discipline: true, revision: true, status: true, fileUrl: true },
+        orderBy: [{ discipline: "asc" }, { drawingNumber: "asc" }],
+      },
+      rfis: {
+        select: { id: true, rfiNumber: true, subject: true, question: true, answer: true, status: true, priority: true, dueDate: true },
+        orderBy: { rfiNumber: "desc" },
+      },
+      photos: { select: { id: true, url: true, caption: true, takenAt: true }, orderBy: { takenAt: "desc" }, take: RECENT_PHOTOS },
+    },
+  });
+
+  return {
+    cursor: now.toISOString(),
+    userId,
+    full,
+    phaseIds,
+    phases: rows.map((p) => ({
+      id: p.id,
+      projectId: p.project.id,
+      projectName: p.project.name,
+      projectAddress: p.project.address,
+      name: p.name,
+      detail: p.detail,
+      status: p.status,
+      progress: p.progress,
+      estStart: p.estStart.toISOString(),
+      estEnd: p.estEnd.toISOString(),
+      checklist: p.checklist?.items ?? [],
+      punchList: p.punchListItems.map((i) => ({ ...i, dueDate: iso(i.dueDate) })),
+      drawings: p.drawings,
+      rfis: p.rfis.map((r) => ({ ...r, dueDate: iso(r.dueDate) })),
+      photos: p.photos.map((ph) => ({ ...ph, takenAt: ph.takenAt.toISOString() })),
+      syncedAt: now.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,139 @@
+// Offline replay — runs a queued mutation against its server action.
+//
+// `replayers` is keyed by every action in lib/offline-actions.ts (the mapped
+// type makes a missing or extra entry a compile error) and receives the
+// payload already validated by that action's schema. Used by the client
+// queue (lib/offline-handlers.ts) and by POST /api/sync, so both replay the
+// same set of actions the same way.
+//
+// Server actions that report failure in their return value instead of
+// throwing (the GPS clock) are unwrapped so the queue retries them — except a
+// clock-in blocked by the geofence, which is settled: it waits in the PM
+// exception queue, stamped with the time the mutation was queued.
+
+import { z } from "zod";
+import {
+  offlineActionSchemas,
+  isOfflineAction,
+  type OfflineActionName,
+  type ParsedOfflinePayload,
+} from "@/lib/offline-actions";
+
+import { updatePhaseStatus, updatePhaseDates, assignStaffToPhase, unassignStaffFromPhase } from "@/actions/phases";
+import { addPhaseDependency, removePhaseDependency } from "@/actions/dependencies";
+import { toggleChecklistItem, addCustomChecklistItem, deleteChecklistItem } from "@/actions/checklists";
+import { addPhaseComment, deletePhaseComment } from "@/actions/comments";
+import { updateProjectBudget, updatePhaseCosts } from "@/actions/budget";
+import { createChangeOrder, updateChangeOrderStatus, deleteChangeOrder } from "@/actions/change-orders";
+import { createSubcontractorBid } from "@/actions/subcontractor-bids";
+import { createDailyLog, deleteDailyLog } from "@/actions/daily-logs";
+import { createPhotoBatch, updatePhotoCaption, flagPhoto, clearPhotoFlag, updatePhotoGps } from "@/actions/photos";
+import { createVoiceNote } from "@/actions/voiceNotes";
+import { updateDocumentStatus } from "@/actions/documents";
+import { createInspection, recordInspectionResult } from "@/actions/inspections";
+import { createMaterial, updateMaterialStatus } from "@/actions/materials";
+import { createPunchListItem, updatePunchListStatus, updatePunchListItem, deletePunchListItem } from "@/actions/punchList";
+import { createRFI, answerRFI, updateRFIStatus } from "@/actions/rfi";
+import { createTimeEntry, deleteTimeEntry } from "@/actions/timeEntry";
+import { clockIn, clockOut } from "@/actions/gps-time-clock";
+import { markAsRead, markAllAsRead } from "@/actions/notifications";
+
+type Replayers = { [A in OfflineActionName]: (p: ParsedOfflinePayload<A>, queuedAt?: Date) => Promise<unknown> };
+
+/**
+ * Throw when an action reports `{ success: false }` so the queue retries it,
+ * unless `settled` says the failure is final.
+ */
+async function ok<T extends { success: boolean; error?: string }>(
+  result: Promise<T>,
+  settled?: (r: T) => boolean
+): Promise<T> {
+  const r = await result;
+  if (!r.success && !settled?.(r)) throw new Error(r.error || "Action failed");
+  return r;
+}
+
+const replayers: Replayers = {
+  // ── Phases ──
+  updatePhaseStatus: (p) => updatePhaseStatus(p.phaseId, p.status),
+  updatePhaseDates: (p) => updatePhaseDates(p),
+  assignStaff: (p) => assignStaffToPhase(p.phaseId, p.staffId, p.isOwner ?? false),
+  unassignStaff: (p) => unassignStaffFromPhase(p.assignmentId),
+  addDependency: (p) => addPhaseDependency(p),
+  removeDependency: (p) => removePhaseDependency(p),
+
+  // ── Checklists & comments ──
+  toggleChecklistItem: (p) => toggleChecklistItem(p.itemId, p.completed),
+  addChecklistItem: (p) => addCustomChecklistItem(p.checklistId, p.text),
+  deleteChecklistItem: (p) => deleteChecklistItem(p.itemId),
+  addComment: (p) => addPhaseComment(p),
+  deleteComment: (p) => deletePhaseComment(p.commentId),
+
+  // ── Budget & change orders ──
+  updateProjectBudget: (p) => updateProjectBudget(p.projectId, p.budget),
+  updatePhaseCosts: ({ phaseId, ...costs }) => updatePhaseCosts(phaseId, costs),
+  createChangeOrder: (p) => createChangeOrder(p),
+  updateChangeOrderStatus: (p) => updateChangeOrderStatus(p.changeOrderId, p.status),
+  deleteChangeOrder: (p) => deleteChangeOrder(p.changeOrderId),
+  submitBid: (p) => createSubcontractorBid(p),
+
+  // ── Daily logs ──
+  createDailyLog: (p) => createDailyLog(p),
+  deleteDailyLog: (p) => deleteDailyLog(p.logId),
+
+  // ── Photos & voice notes ──
+  createPhotoBatch: (p) => createPhotoBatch(p),
+  updatePhotoCaption: (p) => updatePhotoCaption(p.photoId, p.caption),
+  flagPhoto: (p) => flagPhoto(p.photoId, p.flagType, p.flagNote),
+  clearPhotoFlag: (p) => clearPhotoFlag(p.photoId),
+  updatePhotoGps: (p) => updatePhotoGps(p.photoId, p.latitude, p.longitude),
+  createVoiceNote: (p) => createVoiceNote(p),
+
+  // ── Documents, inspections, materials ──
+  updateDocumentStatus: (p) => updateDocumentStatus(p.documentId, p.status),
+  createInspection: (p) => createInspection(p),
+  recordInspectionResult: (p) => recordInspectionResult(p.inspectionId, p.result, p.notes),
+  createMaterial: (p) => createMaterial(p),
+  updateMaterialStatus: (p) => updateMaterialStatus(p.materialId, p.status),
+
+  // ── Punch list ──
+  createPunchListItem: (p) => createPunchListItem(p),
+  updatePunchListStatus: (p) => updatePunchListStatus(p.itemId, p.status),
+  updatePunchListItem: ({ itemId, ...data }) => updatePunchListItem(itemId, data),
+  deletePunchListItem: (p) => deletePunchListItem(p.itemId),
+
+  // ── RFIs ──
+  createRFI: (p) => createRFI(p),
+  answerRFI: (p) => answerRFI(p.rfiId, p.answer),
+  updateRFIStatus: (p) => updateRFIStatus(p.rfiId, p.status),
+
+  // ── Time entries & GPS clock ──
+  createTimeEntry: (p) => createTimeEntry(p),
+  deleteTimeEntry: (p) => deleteTimeEntry(p.entryId),
+  clockIn: (p, queuedAt) => ok(clockIn(p, queuedAt), (r) => r.geofence?.outcome === "BLOCKED"),
+  clockOut: (p) => ok(clockOut(p)),
+
+  // ── Notifications ──
+  markNotificationRead: (p) => markAsRead(p.notificationId),
+  markAllNotificationsRead: () => markAllAsRead(),
+};
+
+/** Actions that have a replayer — compared against the schemas by the registry test. */
+export const REPLAYABLE_ACTIONS = Object.keys(replayers) as OfflineActionName[];
+
+/**
+ * Validate a queued payload against its action's schema and replay it.
+ * @param queuedAt - When the mutation was queued (defaults to now)
+ * @throws For unknown actions and payloads that fail validation (not retryable).
+ */
+export async function replayOfflineAction(
+  action: string,
+  payload: Record<string, unknown>,
+  queuedAt?: Date
+): Promise<void> {
+  if (!isOfflineAction(action)) throw new Error(`Unknown action: ${action}`);
+  const parsed = offlineActionSchemas[action].safeParse(payload);
+  if (!parsed.success) throw new Error(`Invalid ${action} payload: ${z.prettifyError(parsed.error)}`);
+  const replay = replayers[action] as (p: typeof parsed.data, queuedAt?: Date) => Promise<unknown>;
+  await replay(parsed.data, queuedAt);
+}
@@ -0,0 +1,170 @@
+// Resumable upload of blobs queued offline (photos, voice notes) to Vercel
+// Blob, ahead of replaying the mutation that references them.
+//
+// Each blob goes up as a multipart upload in UPLOAD_CHUNK_SIZE parts through
+// the client-token route `/api/upload`. The upload id and every finished part
+// are saved on the queued blob, so a dropped connection or a closed tab picks
+// up at the next missing part instead of starting over. Payload placeholders
+// (`{ $blob: id }`) are then swapped for the uploaded URLs.
+//
+// Progress is broadcast as an `UPLOAD_PROGRESS_EVENT` window event for
+// useOfflineSync / OfflineIndicator.
+//
+// Capture side: `queuePhotos` / `queueVoiceNote` store the files with the
+// createPhotoBatch / createVoiceNote mutation when the device is offline.
+
+import { createMultipartUpload, uploadPart, completeMultipartUpload } from "@vercel/blob/client";
+import {
+  blobRef,
+  getMutationBlobs,
+  queueMutationWithBlobs,
+  updateQueuedBlob,
+  OFFLINE_QUEUE_EVENT,
+  type QueuedBlob,
+} from "@/lib/offline-queue";
+
+/** Part size — Vercel Blob's minimum for every part but the last. */
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export const UPLOAD_PROGRESS_EVENT = "offline-upload:progress";
+
+export interface UploadProgress {
+  /** Bytes uploaded across the blobs of the mutation being replayed. */
+  loaded: number;
+  total: number;
+}
+
+/** Ask `/api/upload` for a client token scoped to one pathname. */
+async function clientToken(pathname: string): Promise<string> {
+  const res = await fetch("/api/upload", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      type: "blob.generate-client-token",
+      payload: { pathname, multipart: true, clientPayload: null },
+    }),
+  });
+  const json = (await res.json()) as { clientToken?: string; error?: string };
+  if (!res.ok || !json.clientToken) throw new Error(json.error || `Upload token failed (${res.status})`);
+  return json.clientToken;
+}
+
+/**
+ * Upload one queued blob, resuming a multipart upload already in flight.
+ * @param onBytes - Called with the blob's uploaded byte count after each part.
+ * @returns The public URL.
+ */
+export async function uploadQueuedBlob(blob: QueuedBlob, onBytes?: (loaded: number) => void): Promise<string> {
+  if (blob.url) return blob.url;
+
+  const pathname = blob.upload?.pathname ?? `offline/${blob.id}-${blob.name}`;
+  const token = await clientToken(pathname);
+  // MediaRecorder types carry codec parameters ("audio/webm;codecs=opus"); /api/upload allows the bare type
+  const options = { access: "public" as const, token, contentType: blob.type.split(";")[0] || undefined };
+
+  if (!blob.upload) {
+    const { key, uploadId } = await createMultipartUpload(pathname, options);
+    blob.upload = { pathname, key, uploadId, parts: [] };
+    await updateQueuedBlob(blob);
+  }
+  const { key, uploadId } = blob.upload;
+
+  const partCount = Math.max(1, Math.ceil(blob.size / UPLOAD_CHUNK_SIZE));
+  const done = new Set(blob.upload.parts.map((p) => p.partNumber));
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (done.has(partNumber)) continue;
+    const chunk = blob.data.slice((partNumber - 1) * UPLOAD_CHUNK_SIZE, partNumber * UPLOAD_CHUNK_SIZE);
+    const part = await uploadPart(pathname, chunk, { ...options, key, uploadId, partNumber });
+    blob.upload.parts.push(part);
+    await updateQueuedBlob(blob); // Resume point
+    onBytes?.(Math.min(blob.size, blob.upload.parts.length * UPLOAD_CHUNK_SIZE));
+  }
+
+  const parts = [...blob.upload.parts].sort((a, b) => a.partNumber - b.partNumber);
+  const { url } = await completeMultipartUpload(pathname, parts, { ...options, key, uploadId });
+  blob.url = url;
+  await updateQueuedBlob(blob);
+  return url;
+}
+
+/** Replace every `{ $blob: id }` in a payload with the uploaded URL. */
+export function resolveBlobRefs(value: unknown, urls: Map<string, string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => resolveBlobRefs(v, urls));
+  if (value && typeof value === "object") {
+    const ref = (value as { $blob?: unknown }).$blob;
+    if (typeof ref === "string") {
+      const url = urls.get(ref);
+      if (!url) throw new Error(`Queued file ${ref} is missing`);
+      return url;
+    }
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveBlobRefs(v, urls)]));
+  }
+  return value;
+}
+
+/**
+ * Upload every blob a queued mutation references and return its payload with
+ * the URLs filled in. Mutations without blobs are returned unchanged.
+ */
+export async function uploadMutationBlobs(
+  mutationId: number,
+  payload: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const blobs = await getMutationBlobs(mutationId);
+  if (blobs.length === 0) return payload;
+
+  const total = blobs.reduce((sum, b) => sum + b.size, 0);
+  let finished = 0;
+  const report = (loaded: number) =>
+    window.dispatchEvent(
+      new CustomEvent<UploadProgress>(UPLOAD_PROGRESS_EVENT, { detail: { loaded: finished + loaded, total } })
+    );
+
+  const urls = new Map<string, string>();
+  for (const blob of blobs) {
+    report(0);
+    urls.set(blob.id, await uploadQueuedBlob(blob, report));
+    finished += blob.size;
+  }
+  report(0);
+  return resolveBlobRefs(payload, urls) as Record<string, unknown>;
+}
+
+// ── Capture side ──
+
+/** Queue photos for a phase; they upload and become a photo batch once online. */
+export async function queuePhotos(
+  phaseId: string,
+  files: File[],
+  gps?: { latitude: number; longitude: number } | null
+): Promise<void> {
+  const blobs = files.map((file) => ({ id: crypto.randomUUID(), name: file.name, data: file as Blob }));
+  await queueMutationWithBlobs(
+    {
+      action: "createPhotoBatch",
+      payload: {
+        phaseId,
+        photos: blobs.map((b) => ({ url: blobRef(b.id) })),
+        latitude: gps?.latitude,
+        longitude: gps?.longitude,
+      },
+    },
+    blobs
+  );
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+}
+
+/** Queue a recorded voice note; it uploads and is saved once online. */
+export async function queueVoiceNote(
+  phaseId: string,
+  recording: Blob,
+  filename: string,
+  duration: number
+): Promise<void> {
+  const id = crypto.randomUUID();
+  await queueMutationWithBlobs(
+    { action: "createVoiceNote", payload: { phaseId, audioUrl: blobRef(id), duration } },
+    [{ id, name: filename, data: recording }]
+  );
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+}
@@ -0,0 +1,90 @@
+/**
+ * @file pdf-branding.ts
+ * @description Organisation branding for generated PDFs — the same logo and
+ * colours the app chrome uses (OrgSettings + lib/themes.ts).
+ *
+ * Colour resolution mirrors the root layout: custom / logo-derived colours
+ * win when `colorMode` is not "preset" and a primary colour is set; otherwise
+ * the preset theme's palette is used.
+ *
+ * Logos are fetched from their Blob URL and embedded when they are JPEG or
+ * 8-bit PNG (see `loadPdfImage`). SVG and WebP logos — and any fetch failure —
+ * fall back to printing the company name, so branding never blocks a render.
+ */
+
+import { db } from "@/lib/db";
+import { darkenHex, getThemeById, lightenHex } from "@/lib/themes";
+import { loadPdfImage, type PdfColor, type PdfImage } from "@/lib/pdf";
+
+export interface PdfBranding {
+  companyName: string;
+  /** Headings, rules and table header text. */
+  primary: PdfColor;
+  /** Darker shade for emphasis. */
+  primaryDark: PdfColor;
+  /** Very light tint for shaded bands. */
+  tint: PdfColor;
+  logo: PdfImage | null;
+}
+
+type BrandSettings = {
+  theme: string;
+  companyName: string | null;
+  colorMode: string;
+  colorPrimary: string | null;
+  colorSecondary: string | null;
+  colorTertiary: string | null;
+};
+
+/** "#2563eb" → [0.15, 0.39, 0.92]. Invalid input yields black. */
+export function hexToPdfColor(hex: string): PdfColor {
+  const value = parseInt(hex.replace("#", ""), 16);
+  if (!/^#?[0-9a-f]{6}$/i.test(hex) || Number.isNaN(value)) return [0, 0, 0];
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+/**
+ * Resolve branding from an OrgSettings row (or null when none exists yet).
+ * `fallbackName` is used when no company name has been configured.
+ */
+export function resolvePdfBranding(
+  settings: BrandSettings | null,
+  fallbackName: string,
+  logo: PdfImage | null = null
+): PdfBranding {
+  let primary: string, primaryDark: string, tint: string;
+  if (settings && settings.colorMode !== "preset" && settings.colorPrimary) {
+    primary = settings.colorPrimary;
+    primaryDark = settings.colorSecondary || darkenHex(primary, 25);
+    tint = settings.colorTertiary || lightenHex(primary, 90);
+  } else {
+    const { colors } = getThemeById(settings?.theme ?? "blue");
+    ({ primary, primaryDark, primaryBg: tint } = colors);
+  }
+  return {
+    companyName: settings?.companyName || fallbackName,
+    primary: hexToPdfColor(primary),
+    primaryDark: hexToPdfColor(primaryDark),
+    tint: hexToPdfColor(tint),
+    logo,
+  };
+}
+
+/**
+ * Load the organisation's PDF branding, fetching and decoding the logo.
+ *
+ * @param orgName - Used as the company name when OrgSettings has none.
+ */
+export async function loadPdfBranding(orgName: string): Promise<PdfBranding> {
+  const settings = await db.orgSettings.findFirst();
+  let logo: PdfImage | null = null;
+  if (settings?.logoUrl && (settings.logoMimeType === "image/png" || settings.logoMimeType === "image/jpeg")) {
+    try {
+      const res = await fetch(settings.logoUrl);
+      if (res.ok) logo = loadPdfImage(Buffer.from(await res.arrayBuffer()));
+    } catch {
+      // Logo unreachable — print the company name instead
+    }
+  }
+  return resolvePdfBranding(settings, orgName, logo);
+}
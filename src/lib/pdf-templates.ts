@@ -0,0 +1,460 @@
+/**
+ * @file pdf-templates.ts
+ * @description Branded printable forms for phase records, rendered with the
+ * dependency-free writer in lib/pdf.ts:
+ *
+ *   renderChangeOrderPdf        Change order with cost breakdown, contract sum/time adjustment and signatures
+ *   renderRfiPdf                Request for information with question / response
+ *   renderSubmittalTransmittalPdf  Transmittal with item table and review action boxes
+ *   renderDailyLogPdf           Daily log: weather, crew, work performed, issues
+ *   renderInspectionReportPdf   Inspection result with notes and inspector sign-off
+ *
+ * Pay applications use the G702/G703 layout in lib/aia-pdf.ts instead.
+ *
+ * Every page carries the organisation letterhead (logo, or company name when
+ * there is no embeddable logo) in the brand colours from lib/pdf-branding.ts,
+ * and a "Page x of y" footer. Templates take plain data objects so they can be
+ * rendered and tested without the database.
+ */
+
+import type { PdfBranding } from "@/lib/pdf-branding";
+import { createPdf, fitText, wrapText, LETTER, type PdfColor } from "@/lib/pdf";
+import { priceChangeOrder, type CostCategory } from "@/lib/change-order-pricing";
+
+// ── Data shapes ──
+
+interface ProjectHeading {
+  projectName: string;
+  projectAddress: string | null;
+  phaseName: string;
+}
+
+export interface ChangeOrderPdfData extends ProjectHeading {
+  number: string;
+  title: string;
+  description: string | null;
+  reason: string | null;
+  status: string;
+  amount: number | null;
+  requestedBy: string;
+  requestedAt: Date;
+  approvedBy: string | null;
+  approvedAt: Date | null;
+  lineItems?: {
+    category: CostCategory;
+    costCode: string | null;
+    description: string;
+    quantity: number;
+    unit: string | null;
+    unitCost: number;
+  }[];
+  overheadPercent?: number | null;
+  profitPercent?: number | null;
+  scheduleImpactDays?: number;
+}
+
+export interface RfiPdfData extends ProjectHeading {
+  rfiNumber: number;
+  subject: string;
+  question: string;
+  answer: string | null;
+  status: string;
+  priority: string;
+  dueDate: Date | null;
+  ballInCourt: string | null;
+  createdBy: string;
+  assignedTo: string | null;
+  createdAt: Date;
+  answeredAt: Date | null;
+}
+
+export interface SubmittalPdfData extends ProjectHeading {
+  submittalNumber: number;
+  revision: number;
+  title: string;
+  specSection: string | null;
+  description: string | null;
+  status: string;
+  dueDate: Date | null;
+  submittedBy: string;
+  assignedTo: string | null;
+  createdAt: Date;
+  returnedAt: Date | null;
+}
+
+export interface DailyLogPdfData extends Omit<ProjectHeading, "phaseName"> {
+  date: Date;
+  weather: string | null;
+  tempHigh: number | null;
+  tempLow: number | null;
+  crewCount: number | null;
+  equipment: string | null;
+  workSummary: string;
+  issues: string | null;
+  notes: string | null;
+  author: string;
+}
+
+export interface InspectionPdfData extends ProjectHeading {
+  title: string;
+  inspectorName: string | null;
+  scheduledAt: Date;
+  completedAt: Date | null;
+  result: string | null;
+  notes: string | null;
+}
+
+// ── Layout ──
+
+const MARGIN = 48;
+const CONTENT_TOP = 112;
+const CONTENT_BOTTOM = LETTER.height - 60;
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.8, 0.8, 0.8];
+
+const money = (n: number) =>
+  `${n < 0 ? "-" : ""}$${Math.abs(n).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const date = (d: Date | null) =>
+  d ? d.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" }) : "—";
+/** "APPROVED_AS_NOTED" → "Approved as noted". */
+const humanize = (value: string) => value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ");
+
+/**
+ * A flowing single-column form: blocks are stacked down the page and a new
+ * page (with letterhead) starts whenever the next block would not fit.
+ */
+function createForm(branding: PdfBranding, title: string, reference: string) {
+  const pdf = createPdf(LETTER);
+  const right = LETTER.width - MARGIN;
+  const width = right - MARGIN;
+  let y = CONTENT_TOP;
+
+  const letterhead = () => {
+    pdf.addPage();
+    if (branding.logo) {
+      // Fit within 160 × 44 pt, keeping the aspect ratio
+      const scale = Math.min(160 / branding.logo.width, 44 / branding.logo.height);
+      pdf.image(MARGIN, 36, branding.logo.width * scale, branding.logo.height * scale, branding.logo);
+    } else {
+      pdf.text(MARGIN, 62, fitText(branding.companyName, 260, "bold", 16), { font: "bold", size: 16, color: branding.primary });
+    }
+    pdf.text(right, 56, title, { font: "bold", size: 16, color: branding.primary, align: "right" });
+    pdf.text(right, 72, reference, { font: "bold", size: 10, color: branding.primaryDark, align: "right" });
+    pdf.rect(MARGIN, 88, width, 3, { fill: branding.primary });
+    y = CONTENT_TOP;
+  };
+
+  const ensure = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) letterhead();
+  };
+
+  letterhead();
+
+  return {
+    /** Label/value pairs laid out two per row. */
+    fields(pairs: [string, string][]) {
+      const colWidth = width / 2;
+      for (let i = 0; i < pairs.length; i += 2) {
+        ensure(26);
+        pairs.slice(i, i + 2).forEach(([label, value], j) => {
+          const x = MARGIN + j * colWidth;
+          pdf.text(x, y, label.toUpperCase(), { font: "bold", size: 7, color: GRAY });
+          pdf.text(x, y + 12, fitText(value || "—", colWidth - 12, "regular", 10), { size: 10 });
+        });
+        y += 28;
+      }
+      y += 4;
+    },
+
+    /** Shaded section heading in the brand tint. */
+    section(heading: string) {
+      ensure(40);
+      y += 6;
+      pdf.rect(MARGIN, y - 12, width, 18, { fill: branding.tint });
+      pdf.text(MARGIN + 6, y, heading.toUpperCase(), { font: "bold", size: 9, color: branding.primaryDark });
+      y += 20;
+    },
+
+    /** Word-wrapped body text; a dash when empty. */
+    paragraph(text: string | null, opts: { font?: "regular" | "bold"; size?: number } = {}) {
+      const size = opts.size ?? 10;
+      for (const line of wrapText(text?.trim() || "—", width, opts.font, size)) {
+        ensure(size + 4);
+        pdf.text(MARGIN, y, line, { font: opts.font, size });
+        y += size + 4;
+      }
+      y += 6;
+    },
+
+    /** Simple ruled table; `widths` are fractions of the content width. */
+    table(headers: string[], widths: number[], rows: string[][]) {
+      const cols = widths.map((w) => w * width);
+      const drawHeader = () => {
+        pdf.rect(MARGIN, y - 12, width, 18, { fill: branding.tint });
+        let x = MARGIN;
+        headers.forEach((h, i) => {
+          pdf.text(x + 4, y, h.toUpperCase(), { font: "bold", size: 7, color: branding.primaryDark });
+          x += cols[i];
+        });
+        y += 18;
+      };
+      ensure(40);
+      drawHeader();
+      for (const row of rows) {
+        if (y + 16 > CONTENT_BOTTOM) {
+          letterhead();
+          drawHeader();
+        }
+        let x = MARGIN;
+        row.forEach((cell, i) => {
+          pdf.text(x + 4, y, fitText(cell, cols[i] - 8, "regular", 9), { size: 9 });
+          x += cols[i];
+        });
+        pdf.line(MARGIN, y + 5, right, y + 5, { width: 0.25, color: RULE });
+        y += 16;
+      }
+      y += 8;
+    },
+
+    /** Row of tick boxes; `checked` marks the selected option. */
+    checkboxes(options: { label: string; checked: boolean }[]) {
+      const colWidth = width / 2;
+      for (let i = 0; i < options.length; i += 2) {
+        ensure(18);
+        options.slice(i, i + 2).forEach((option, j) => {
+          const x = MARGIN + j * colWidth;
+          pdf.rect(x, y - 9, 10, 10, { stroke: [0, 0, 0], lineWidth: 0.75 });
+          if (option.checked) pdf.text(x + 5, y - 0.5, "X", { font: "bold", size: 9, color: branding.primary, align: "center" });
+          pdf.text(x + 16, y, option.label, { size: 10 });
+        });
+        y += 18;
+      }
+      y += 6;
+    },
+
+    /** A large coloured status line, e.g. an inspection result. */
+    banner(text: string, color: PdfColor) {
+      ensure(30);
+      pdf.rect(MARGIN, y - 16, width, 26, { fill: color });
+      pdf.text(MARGIN + width / 2, y + 2, text, { font: "bold", size: 14, color: [1, 1, 1], align: "center" });
+      y += 24;
+    },
+
+    /** Signature and date lines, two per row. */
+    signatures(labels: string[]) {
+      const colWidth = width / 2;
+      y += 10;
+      for (let i = 0; i < labels.length; i += 2) {
+        ensure(56);
+        labels.slice(i, i + 2).forEach((label, j) => {
+          const x = MARGIN + j * colWidth;
+          pdf.line(x, y + 24, x + colWidth - 24, y + 24);
+          pdf.text(x, y + 34, label, { font: "bold", size: 8 });
+          pdf.text(x + colWidth - 24, y + 34, "Date", { size: 8, color: GRAY, align: "right" });
+        });
+        y += 56;
+      }
+    },
+
+    /** Add footers to every page and serialize. */
+    finish(): Buffer {
+      const generated = `${branding.companyName} · Generated ${date(new Date())}`;
+      for (let i = 0; i < pdf.pageCount; i++) {
+        pdf.goToPage(i);
+        pdf.line(MARGIN, LETTER.height - 40, right, LETTER.height - 40, { width: 0.5, color: RULE });
+        pdf.text(MARGIN, LETTER.height - 28, fitText(generated, width - 80, "regular", 7), { size: 7, color: GRAY });
+        pdf.text(right, LETTER.height - 28, `Page ${i + 1} of ${pdf.pageCount}`, { size: 7, color: GRAY, align: "right" });
+      }
+      return pdf.toBuffer();
+    },
+  };
+}
+
+const projectFields = (data: ProjectHeading): [string, string][] => [
+  ["Project", data.projectName],
+  ["Phase", data.phaseName],
+  ["Project address", data.projectAddress ?? ""],
+];
+
+// ── Templates ──
+
+/** Change order with description, reason and the contract-sum adjustment. */
+export function renderChangeOrderPdf(data: ChangeOrderPdfData, branding: PdfBranding): Buffer {
+  const form = createForm(branding, "CHANGE ORDER", `CO ${data.number}`);
+  form.fields([
+    ...projectFields(data),
+    ["Status", humanize(data.status)],
+    ["Requested by", data.requestedBy],
+    ["Date requested", date(data.requestedAt)],
+    ["Approved by", data.approvedBy ?? ""],
+    ["Date approved", date(data.approvedAt)],
+  ]);
+
+  form.section("Description of change");
+  form.paragraph(data.title, { font: "bold" });
+  if (data.description) form.paragraph(data.description);
+  form.section("Reason for change");
+  form.paragraph(data.reason);
+
+  const lines = data.lineItems ?? [];
+  if (lines.length > 0) {
+    const price = priceChangeOrder(lines, data.overheadPercent, data.profitPercent);
+    form.section("Cost breakdown");
+    form.table(
+      ["Category", "Cost code", "Description", "Qty", "Unit cost", "Amount"],
+      [0.14, 0.12, 0.36, 0.12, 0.13, 0.13],
+      [
+        ...lines.map((l) => [
+          humanize(l.category),
+          l.costCode ?? "",
+          l.description,
+          `${l.quantity}${l.unit ? ` ${l.unit}` : ""}`,
+          money(l.unitCost),
+          money(l.quantity * l.unitCost),
+        ]),
+        ["", "", "Subtotal", "", "", money(price.cost)],
+        ["", "", `Overhead (${data.overheadPercent ?? 0}%)`, "", "", money(price.overhead)],
+        ["", "", `Profit (${data.profitPercent ?? 0}%)`, "", "", money(price.profit)],
+      ]
+    );
+  }
+
+  form.section("Contract sum and time adjustment");
+  const amount = data.amount ?? 0;
+  form.paragraph(
+    amount === 0
+      ? "This change order does not change the contract sum."
+      : `The contract sum will be ${amount > 0 ? "increased" : "decreased"} by ${money(Math.abs(amount))}.`,
+    { font: "bold", size: 11 }
+  );
+  const days = data.scheduleImpactDays ?? 0;
+  form.paragraph(
+    days === 0
+      ? "This change order does not change the contract time."
+      : `The contract time will be increased by ${days} day${days === 1 ? "" : "s"}.`,
+    { font: "bold", size: 11 }
+  );
+
+  form.signatures(["Contractor", "Owner", "Architect"]);
+  return form.finish();
+}
+
+/** Request for information: question, response and routing. */
+export function renderRfiPdf(data: RfiPdfData, branding: PdfBranding): Buffer {
+  const form = createForm(branding, "REQUEST FOR INFORMATION", `RFI #${data.rfiNumber}`);
+  form.fields([
+    ...projectFields(data),
+    ["Status", humanize(data.status)],
+    ["From", data.createdBy],
+    ["To", data.assignedTo ?? ""],
+    ["Date sent", date(data.createdAt)],
+    ["Response due", date(data.dueDate)],
+    ["Priority", humanize(data.priority)],
+    ["Ball in court", data.ballInCourt ?? ""],
+  ]);
+
+  form.section("Subject");
+  form.paragraph(data.subject, { font: "bold" });
+  form.section("Question");
+  form.paragraph(data.question);
+  form.section(data.answeredAt ? `Response — ${date(data.answeredAt)}` : "Response");
+  form.paragraph(data.answer ?? "Awaiting response.");
+
+  form.signatures(["Requested by", "Responded by"]);
+  return form.finish();
+}
+
+const SUBMITTAL_ACTIONS: [string, string][] = [
+  ["APPROVED", "Approved"],
+  ["APPROVED_AS_NOTED", "Approved as noted"],
+  ["REVISE_AND_RESUBMIT", "Revise and resubmit"],
+  ["REJECTED", "Rejected"],
+];
+
+/** Submittal transmittal: item table and the reviewer's action. */
+export function renderSubmittalTransmittalPdf(data: SubmittalPdfData, branding: PdfBranding): Buffer {
+  const form = createForm(branding, "SUBMITTAL TRANSMITTAL", `Submittal #${data.submittalNumber} · Rev ${data.revision}`);
+  form.fields([
+    ...projectFields(data),
+    ["Status", humanize(data.status)],
+    ["Submitted by", data.submittedBy],
+    ["Reviewer", data.assignedTo ?? ""],
+    ["Date transmitted", date(data.createdAt)],
+    ["Review due", date(data.dueDate)],
+  ]);
+
+  form.section("Items transmitted");
+  form.table(
+    ["No.", "Rev", "Spec section", "Description", "Copies"],
+    [0.08, 0.07, 0.3, 0.45, 0.1],
+    [[String(data.submittalNumber), String(data.revision), data.specSection ?? "", data.title, "1"]]
+  );
+  if (data.description) {
+    form.section("Remarks");
+    form.paragraph(data.description);
+  }
+
+  form.section(data.returnedAt ? `Review action — returned ${date(data.returnedAt)}` : "Review action");
+  form.checkboxes(SUBMITTAL_ACTIONS.map(([status, label]) => ({ label, checked: data.status === status })));
+
+  form.signatures(["Submitted by", "Reviewed by"]);
+  return form.finish();
+}
+
+/** Daily log for one project day. */
+export function renderDailyLogPdf(data: DailyLogPdfData, branding: PdfBranding): Buffer {
+  const form = createForm(branding, "DAILY LOG", date(data.date));
+  const temps = [data.tempHigh, data.tempLow].some((t) => t !== null)
+    ? `${data.tempHigh ?? "—"}° / ${data.tempLow ?? "—"}°`
+    : "";
+  form.fields([
+    ["Project", data.projectName],
+    ["Project address", data.projectAddress ?? ""],
+    ["Date", date(data.date)],
+    ["Prepared by", data.author],
+    ["Weather", data.weather ?? ""],
+    ["High / low", temps],
+    ["Crew on site", data.crewCount === null ? "" : String(data.crewCount)],
+  ]);
+
+  form.section("Work performed");
+  form.paragraph(data.workSummary);
+  form.section("Equipment on site");
+  form.paragraph(data.equipment);
+  form.section("Issues and delays");
+  form.paragraph(data.issues);
+  if (data.notes) {
+    form.section("Notes");
+    form.paragraph(data.notes);
+  }
+
+  form.signatures(["Superintendent"]);
+  return form.finish();
+}
+
+const RESULT_COLORS: Record<string, PdfColor> = {
+  PASS: [0.13, 0.55, 0.29],
+  FAIL: [0.8, 0.15, 0.15],
+  CONDITIONAL: [0.85, 0.55, 0.05],
+};
+
+/** Inspection report with the result banner and inspector sign-off. */
+export function renderInspectionReportPdf(data: InspectionPdfData, branding: PdfBranding): Buffer {
+  const form = createForm(branding, "INSPECTION REPORT", fitText(data.title, 260, "bold", 10));
+  form.fields([
+    ...projectFields(data),
+    ["Inspection", data.title],
+    ["Inspector", data.inspectorName ?? ""],
+    ["Scheduled", date(data.scheduledAt)],
+    ["Completed", date(data.completedAt)],
+  ]);
+
+  form.section("Result");
+  if (data.result) form.banner(humanize(data.result).toUpperCase(), RESULT_COLORS[data.result] ?? GRAY);
+  else form.paragraph("Pending — no result recorded.");
+  form.section("Inspector notes");
+  form.paragraph(data.notes);
+
+  form.signatures(["Inspector", "Contractor"]);
+  return form.finish();
+}
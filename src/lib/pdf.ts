@@ -0,0 +1,440 @@
+/**
+ * @file pdf.ts
+ * @description Minimal PDF 1.4 writer for generated forms (pay applications and
+ * other printable documents).
+ *
+ * Only what printable forms need is supported: pages of any size, text in the
+ * standard Helvetica / Helvetica-Bold fonts, lines, rectangles and raster
+ * images (JPEG, and 8-bit non-interlaced PNG — enough for a letterhead logo).
+ * The standard
+ * fonts are built into every PDF viewer, so nothing is embedded and files stay a
+ * few kilobytes. Text is encoded as WinAnsi (Latin-1 plus curly quotes, dashes,
+ * € and •); other characters print as "?".
+ *
+ * Coordinates are in points (1/72 in) from the TOP-LEFT corner of the page —
+ * the writer flips them to PDF's bottom-left origin. Text `y` is the baseline.
+ *
+ * Usage:
+ *   const pdf = createPdf();
+ *   pdf.addPage();
+ *   pdf.text(36, 50, "Hello", { font: "bold", size: 14 });
+ *   const bytes = pdf.toBuffer();
+ */
+
+import { deflateSync, inflateSync } from "zlib";
+
+// ── Types ──
+
+export type PdfFont = "regular" | "bold";
+/** RGB, each 0–1. */
+export type PdfColor = [number, number, number];
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  /** `x` is the left edge, right edge or centre of the text. */
+  align?: "left" | "right" | "center";
+}
+
+export const LETTER: PdfPageSize = { width: 612, height: 792 };
+export const LETTER_LANDSCAPE: PdfPageSize = { width: 792, height: 612 };
+
+/** A decoded raster image ready to embed; see `loadPdfImage`. */
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: "DeviceRGB" | "DeviceGray" | "DeviceCMYK";
+  filter: "DCTDecode" | "FlateDecode";
+  data: Buffer;
+  /** Flate-compressed 8-bit alpha channel, for PNGs with transparency. */
+  alpha?: Buffer;
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// ── Font metrics ──
+
+// Advance widths (1/1000 em) for ASCII 32–126 from the standard Adobe AFMs
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Unicode → WinAnsi for the non-Latin-1 characters forms commonly contain
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+function winAnsiCode(char: string): number {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // "?"
+}
+
+/** Width of `text` in points at the given font and size. */
+export function textWidth(text: string, font: PdfFont = "regular", size: number = 10): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Shorten `text` with "…" so it fits within `maxWidth` points.
+ */
+export function fitText(text: string, maxWidth: number, font: PdfFont = "regular", size: number = 10): string {
+  if (textWidth(text, font, size) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 0 && textWidth(`${cut}…`, font, size) > maxWidth) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}…`;
+}
+
+/** Word-wrap `text` into lines no wider than `maxWidth` points. */
+export function wrapText(text: string, maxWidth: number, font: PdfFont = "regular", size: number = 10): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, font, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Encode text as a PDF literal string: WinAnsi bytes with ( ) \ escaped. */
+function pdfString(text: string): string {
+  let out = "";
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += `\\${String.fromCharCode(code)}`;
+    else if (code > 126) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += String.fromCharCode(code);
+  }
+  return `(${out})`;
+}
+
+// ── Images ──
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Read dimensions and component count from a JPEG's start-of-frame marker. */
+function loadJpeg(bytes: Buffer): PdfImage | null {
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    const length = bytes.readUInt16BE(i + 2);
+    // SOF0–SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = bytes[i + 9];
+      return {
+        height: bytes.readUInt16BE(i + 5),
+        width: bytes.readUInt16BE(i + 7),
+        colorSpace: components === 1 ? "DeviceGray" : components === 4 ? "DeviceCMYK" : "DeviceRGB",
+        filter: "DCTDecode",
+        data: bytes,
+      };
+    }
+    i += 2 + length;
+  }
+  return null;
+}
+
+/** Undo PNG scanline filters, returning the raw pixel rows. */
+function unfilterPng(data: Buffer, width: number, height: number, bpp: number): Buffer {
+  const stride = width * bpp;
+  const out = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[row + x - stride] : 0;
+      const c = x >= bpp && y > 0 ? out[row + x - stride - bpp] : 0;
+      let v = data[src + x];
+      if (filter === 1) v += a;
+      else if (filter === 2) v += b;
+      else if (filter === 3) v += (a + b) >> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+        v += pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      out[row + x] = v & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG (grey, RGB, palette, with or without
+ * alpha) into colour and alpha planes. Other variants return null.
+ */
+function loadPng(bytes: Buffer): PdfImage | null {
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+  for (let i = 8; i + 8 <= bytes.length; ) {
+    const length = bytes.readUInt32BE(i);
+    const type = bytes.toString("latin1", i + 4, i + 8);
+    const body = bytes.subarray(i + 8, i + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") palette = body;
+    else if (type === "tRNS") transparency = body;
+    else if (type === "IDAT") idat.push(body);
+    else if (type === "IEND") break;
+    i += 12 + length;
+  }
+  const channels: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  if (!width || !height || bitDepth !== 8 || interlace !== 0 || !(colorType in channels)) return null;
+  if (colorType === 3 && !palette) return null;
+
+  const bpp = channels[colorType];
+  const pixels = unfilterPng(inflateSync(Buffer.concat(idat)), width, height, bpp);
+  const count = width * height;
+  const gray = colorType === 0 || colorType === 4;
+  const color = Buffer.alloc(count * (gray ? 1 : 3));
+  const alpha = Buffer.alloc(count);
+  let hasAlpha = colorType === 4 || colorType === 6;
+  for (let p = 0; p < count; p++) {
+    const s = p * bpp;
+    if (colorType === 3) {
+      const index = pixels[s];
+      palette!.copy(color, p * 3, index * 3, index * 3 + 3);
+      alpha[p] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else if (gray) {
+      color[p] = pixels[s];
+      alpha[p] = colorType === 4 ? pixels[s + 1] : 255;
+    } else {
+      pixels.copy(color, p * 3, s, s + 3);
+      alpha[p] = colorType === 6 ? pixels[s + 3] : 255;
+    }
+  }
+  if (colorType === 3 && transparency) hasAlpha = true;
+
+  return {
+    width,
+    height,
+    colorSpace: gray ? "DeviceGray" : "DeviceRGB",
+    filter: "FlateDecode",
+    data: deflateSync(color),
+    alpha: hasAlpha ? deflateSync(alpha) : undefined,
+  };
+}
+
+/**
+ * Prepare image bytes for embedding. Supports JPEG and 8-bit PNG; returns null
+ * for anything else (SVG, WebP, 16-bit or interlaced PNG) so callers can fall
+ * back to text.
+ */
+export function loadPdfImage(bytes: Buffer): PdfImage | null {
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return loadJpeg(bytes);
+    if (bytes.subarray(0, 8).equals(PNG_SIGNATURE)) return loadPng(bytes);
+  } catch {
+    // Truncated or corrupt file
+  }
+  return null;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rgb = (c: PdfColor) => c.map(num).join(" ");
+
+// ── Writer ──
+
+interface Page {
+  size: PdfPageSize;
+  ops: string[];
+}
+
+/** Start a new, empty PDF document. Call `addPage` before drawing. */
+export function createPdf(defaultSize: PdfPageSize = LETTER) {
+  const pages: Page[] = [];
+  const images: PdfImage[] = [];
+  let target = -1;
+
+  const current = () => {
+    const page = pages[target];
+    if (!page) throw new Error("Call addPage() before drawing");
+    return page;
+  };
+  const flipY = (y: number) => current().size.height - y;
+
+  return {
+    /** Append a page; later drawing calls target it. */
+    addPage(size: PdfPageSize = defaultSize): PdfPageSize {
+      target = pages.push({ size, ops: [] }) - 1;
+      return size;
+    },
+
+    /** Draw on an earlier page (0-based) again, e.g. to add "Page x of y" footers. */
+    goToPage(index: number) {
+      if (!pages[index]) throw new Error(`No page ${index}`);
+      target = index;
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    text(x: number, y: number, value: string, opts: PdfTextOptions = {}) {
+      const font = opts.font ?? "regular";
+      const size = opts.size ?? 10;
+      const width = opts.align && opts.align !== "left" ? textWidth(value, font, size) : 0;
+      const left = opts.align === "right" ? x - width : opts.align === "center" ? x - width / 2 : x;
+      current().ops.push(
+        `BT /${FONT_RESOURCES[font]} ${num(size)} Tf ${rgb(opts.color ?? [0, 0, 0])} rg ` +
+          `${num(left)} ${num(flipY(y))} Td ${pdfString(value)} Tj ET`
+      );
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, opts: { width?: number; color?: PdfColor } = {}) {
+      current().ops.push(
+        `${num(opts.width ?? 0.5)} w ${rgb(opts.color ?? [0, 0, 0])} RG ` +
+          `${num(x1)} ${num(flipY(y1))} m ${num(x2)} ${num(flipY(y2))} l S`
+      );
+    },
+
+    /** Rectangle with its top-left corner at (x, y). Stroked unless only `fill` is given. */
+    rect(
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      opts: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number } = {}
+    ) {
+      const box = `${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re`;
+      const stroke = opts.stroke ?? (opts.fill ? undefined : [0, 0, 0]);
+      const paint = opts.fill && stroke ? "B" : opts.fill ? "f" : "S";
+      current().ops.push(
+        [
+          opts.fill ? `${rgb(opts.fill)} rg` : "",
+          stroke ? `${num(opts.lineWidth ?? 0.5)} w ${rgb(stroke)} RG` : "",
+          `${box} ${paint}`,
+        ].filter(Boolean).join(" ")
+      );
+    },
+
+    /** Draw `image` scaled into the box with its top-left corner at (x, y). */
+    image(x: number, y: number, width: number, height: number, image: PdfImage) {
+      let index = images.indexOf(image);
+      if (index < 0) index = images.push(image) - 1;
+      current().ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(flipY(y + height))} cm /Im${index} Do Q`);
+    },
+
+    /** Serialize the document. */
+    toBuffer(): Buffer {
+      if (pages.length === 0) throw new Error("PDF has no pages");
+
+      // Object numbers: 1 catalog, 2 page tree, 3–4 fonts, page + content per
+      // page, then each image followed by its alpha mask (if any)
+      const objects: Buffer[] = [];
+      const pageIds = pages.map((_, i) => 5 + i * 2);
+      const imageIds: number[] = [];
+      let nextId = 5 + pages.length * 2;
+      for (const image of images) {
+        imageIds.push(nextId);
+        nextId += image.alpha ? 2 : 1;
+      }
+      const xObjects = images.length
+        ? ` /XObject << ${imageIds.map((id, i) => `/Im${i} ${id} 0 R`).join(" ")} >>`
+        : "";
+      objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"));
+      objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`));
+      objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"));
+      objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"));
+      pages.forEach((page, i) => {
+        objects.push(
+          Buffer.from(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.size.width)} ${num(page.size.height)}] ` +
+              `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageIds[i] + 1} 0 R >>`
+          )
+        );
+        // Content is ASCII with octal escapes, so latin1 round-trips every byte
+        const content = deflateSync(Buffer.from(page.ops.join("\n"), "latin1"));
+        objects.push(
+          Buffer.concat([
+            Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+            content,
+            Buffer.from("\nendstream"),
+          ])
+        );
+      });
+      const stream = (dict: string, data: Buffer) =>
+        Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, Buffer.from("\nendstream")]);
+      images.forEach((image, i) => {
+        const size = `/Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+        const mask = image.alpha ? ` /SMask ${imageIds[i] + 1} 0 R` : "";
+        objects.push(
+          stream(`/Type /XObject /Subtype /Image ${size} /ColorSpace /${image.colorSpace} /Filter /${image.filter}${mask}`, image.data)
+        );
+        if (image.alpha) {
+          objects.push(stream(`/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray /Filter /FlateDecode`, image.alpha));
+        }
+      });
+
+      const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+      let offset = chunks[0].length;
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        const obj = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from("\nendobj\n")]);
+        offsets.push(offset);
+        chunks.push(obj);
+        offset += obj.length;
+      });
+
+      const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        "startxref",
+        String(offset),
+        "%%EOF",
+        "",
+      ].join("\n");
+      chunks.push(Buffer.from(xref));
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+export type PdfDocument = ReturnType<typeof createPdf>;
@@ -0,0 +1,352 @@
+/**
+ * @file report-data.ts
+ * @description Report queries shared by the Reports dashboard (actions/reports.ts)
+ * and scheduled report delivery (lib/report-delivery.ts).
+ *
+ * The dashboard scopes reports to the signed-in user's projects; the cron job
+ * has no session and scopes them to a schedule's org and `includeProjects`.
+ * Both describe that with a `ReportScope`, so the numbers emailed on Monday
+ * morning are the ones the Reports page shows.
+ *
+ * All Prisma `Decimal` fields are coerced with `Number()` before being returned.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import {
+  costCodeBreakdown,
+  executedChangeLines,
+  matchCostCode,
+  type CostCodeBreakdownRow,
+} from "@/lib/cost-codes";
+import { COUNTED_COMMITMENT_STATUSES, materialCostedByCommitment, summarizeCommitment } from "@/lib/commitments";
+
+/** Which projects a report covers. */
+export interface ReportScope {
+  orgId: string;
+  /** Only projects this user is a member of (dashboard reports). */
+  memberId?: string;
+  /** Only these projects; empty or omitted = all. */
+  projectIds?: string[];
+}
+
+function projectWhere(scope: ReportScope): Prisma.ProjectWhereInput {
+  return {
+    orgId: scope.orgId,
+    ...(scope.memberId ? { members: { some: { userId: scope.memberId } } } : {}),
+    ...(scope.projectIds?.length ? { id: { in: scope.projectIds } } : {}),
+  };
+}
+
+// ── Project health ──
+
+/**
+ * Compute a health summary for every project in scope.
+ *
+ * Health classification:
+ *   - "at-risk"     — any phase is overdue (past estEnd, not COMPLETE)
+ *   - "on-track"    — no overdue phases, at least one active phase
+ *   - "not-started" — no active or overdue phases
+ *
+ * @returns Array of project summary objects ordered by most recently updated.
+ */
+export async function queryProjectHealth(scope: ReportScope) {
+  const projects = await db.project.findMany({
+    where: projectWhere(scope),
+    include: {
+      phases: {
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          progress: true,
+          estStart: true,
+          estEnd: true,
+          actualStart: true,
+          actualEnd: true,
+          isMilestone: true,
+        },
+      },
+      _count: { select: { phases: true, members: true } },
+    },
+    orderBy: { updatedAt: "desc" },
+  });
+
+  const now = new Date();
+
+  return projects.map((project: typeof projects[number]) => {
+    const phases = project.phases;
+    const completed = phases.filter((p: typeof phases[number]) => p.status === "COMPLETE").length;
+    const active = phases.filter(
+      (p: typeof phases[number]) =>
+        p.status === "IN_PROGRESS" ||
+        p.status === "REVIEW_REQUESTED" ||
+        p.status === "UNDER_REVIEW"
+    ).length;
+    const overdue = phases.filter(
+      (p: typeof phases[number]) => p.status !== "COMPLETE" && new Date(p.estEnd) < now
+    ).length;
+    const pending = phases.filter((p: typeof phases[number]) => p.status === "PENDING").length;
+    const total = phases.length;
+    const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+    // "at-risk" takes precedence; "not-started" when no phases are moving
+    const health =
+      overdue > 0 ? "at-risk" : active > 0 ? "on-track" : "not-started";
+
+    return {
+      id: project.id,
+      name: project.name,
+      address: project.address,
+      status: project.status,
+      budget: project.budget ? Number(project.budget) : null, // Decimal → number
+      estCompletion: project.estCompletion,
+      memberCount: project._count.members,
+      phases: { total, completed, active, overdue, pending },
+      progress,
+      health,
+    };
+  });
+}
+
+// ── Overdue phases ──
+
+/**
+ * List phases past their estimated end date that are not yet COMPLETE.
+ * Includes the primary owner (isOwner=true assignment, up to 1) for accountability.
+ *
+ * @returns Array sorted by estEnd ascending (oldest overdue first).
+ */
+export async function queryOverduePhases(scope: ReportScope) {
+  const now = new Date();
+
+  const overduePhases = await db.phase.findMany({
+    where: {
+      project: projectWhere(scope),
+      status: { not: "COMPLETE" },
+      estEnd: { lt: now },
+    },
+    include: {
+      project: { select: { id: true, name: true } },
+      assignments: {
+        include: { staff: { select: { name: true, company: true } } },
+        where: { isOwner: true },
+        take: 1, // Only the primary owner
+      },
+    },
+    orderBy: { estEnd: "asc" }, // Most overdue first
+  });
+
+  return overduePhases.map((p: typeof overduePhases[number]) => {
+    const daysOver = Math.ceil(
+      (now.getTime() - new Date(p.estEnd).getTime()) / 86400000
+    );
+    return {
+      id: p.id,
+      name: p.name,
+      status: p.status,
+      projectId: p.project.id,
+      projectName: p.project.name,
+      estEnd: p.estEnd,
+      daysOverdue: daysOver,
+      progress: p.progress,
+      owner: p.assignments[0]?.staff?.name || "Unassigned",
+      ownerCompany: p.assignments[0]?.staff?.company || null,
+    };
+  });
+}
+
+// ── Job P&L ──
+
+/** Row shape for the Job Profit & Loss report. */
+export interface JobPLRow {
+  projectId: string;
+  projectName: string;
+  status: string;
+  /** Original project budget (from project.budget). */
+  budget: number;
+  /** Sum of all phase estimatedCost values. */
+  totalEstimatedCost: number;
+  /** Sum of all phase actualCost values. */
+  totalActualCost: number;
+  /** Sum of all approved change order amounts across all phases. */
+  changeOrderTotal: number;
+  /** budget + changeOrderTotal — the revenue-adjusted contract value. */
+  adjustedBudget: number;
+  /** adjustedBudget - totalActualCost — gross profit before overhead. */
+  grossProfit: number;
+  /** grossProfit / adjustedBudget * 100 — percentage margin. */
+  profitMargin: number;
+  phaseCount: number;
+  completedPhases: number;
+  /** Budget vs committed vs actual per cost code. */
+  costCodes: CostCodeBreakdownRow[];
+}
+
+/**
+ * Build one Job P&L row per active (non-archived) project in scope.
+ *
+ * Note: Only approved change orders are included in `changeOrderTotal` —
+ * pending/rejected COs have no financial impact until approved.
+ */
+export async function queryJobPL(scope: ReportScope): Promise<JobPLRow[]> {
+  const projects = await db.project.findMany({
+    where: { ...projectWhere(scope), status: { not: "ARCHIVED" } },
+    include: {
+      phases: {
+        select: {
+          id: true,
+          status: true,
+          estimatedCost: true,
+          actualCost: true,
+          changeOrders: {
+            where: { type: "CO", status: "APPROVED" }, // Only executed COs affect P&L
+            select: { amount: true },
+          },
+        },
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+  const costCodes = await queryCostCodeBreakdowns(scope.orgId, projects.map((p) => p.id));
+
+  return projects.map((project: typeof projects[number]) => {
+    const budget = Number(project.budget || 0);
+    const totalEstimatedCost = project.phases.reduce(
+      (sum: number, p: typeof project.phases[number]) => sum + Number(p.estimatedCost || 0),
+      0
+    );
+    const totalActualCost = project.phases.reduce(
+      (sum: number, p: typeof project.phases[number]) => sum + Number(p.actualCost || 0),
+      0
+    );
+    const changeOrderTotal = project.phases.reduce(
+      (sum: number, p: typeof project.phases[number]) =>
+        sum + p.changeOrders.reduce((s: number, co: typeof p.changeOrders[number]) => s + Number(co.amount || 0), 0),
+      0
+    );
+    const adjustedBudget = budget + changeOrderTotal;
+    const grossProfit = adjustedBudget - totalActualCost;
+    const profitMargin = adjustedBudget > 0 ? (grossProfit / adjustedBudget) * 100 : 0;
+    const completedPhases = project.phases.filter((p: typeof project.phases[number]) => p.status === "COMPLETE").length;
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      status: project.status,
+      budget,
+      totalEstimatedCost,
+      totalActualCost,
+      changeOrderTotal,
+      adjustedBudget,
+      grossProfit,
+      profitMargin,
+      phaseCount: project.phases.length,
+      completedPhases,
+      costCodes: costCodes.get(project.id) ?? [],
+    };
+  });
+}
+
+// ── Job cost by cost code ──
+
+/**
+ * Budget vs committed vs actual per cost code for each project, keyed by
+ * project ID (lib/cost-codes.ts). Callers scope `projectIds` to the org.
+ */
+export async function queryCostCodeBreakdowns(
+  orgId: string,
+  projectIds: string[]
+): Promise<Map<string, CostCodeBreakdownRow[]>> {
+  const result = new Map<string, CostCodeBreakdownRow[]>();
+  if (projectIds.length === 0) return result;
+  const inProjects = { projectId: { in: projectIds } };
+
+  const [codes, budgets, changeOrders, materials, labor, takeoffs, commitments] = await Promise.all([
+    db.costCode.findMany({ where: { orgId }, select: { id: true, code: true, name: true } }),
+    db.costCodeBudget.findMany({ where: inProjects, select: { projectId: true, costCodeId: true, amount: true } }),
+    db.changeOrder.findMany({
+      where: { phase: inProjects, status: { not: "REJECTED" } },
+      select: {
+        id: true, type: true, status: true, parentId: true, amount: true,
+        phase: { select: { projectId: true } },
+        lineItems: { select: { costCodeId: true, costCode: true, quantity: true, unitCost: true } },
+      },
+    }),
+    db.material.findMany({
+      where: { phase: inProjects },
+      select: {
+        costCodeId: true, status: true, quantity: true, cost: true,
+        phase: { select: { projectId: true } },
+        purchaseOrder: { select: { status: true } },
+      },
+    }),
+    db.timeEntry.findMany({
+      where: { phase: inProjects, status: "APPROVED" },
+      select: { costCodeId: true, costCode: true, hours: true, phase: { select: { projectId: true } } },
+    }),
+    db.takeoffItem.findMany({
+      where: { estimate: { phase: inProjects, status: { in: ["FINAL", "APPROVED"] } } },
+      select: { costCodeId: true, totalCost: true, estimate: { select: { phase: { select: { projectId: true } } } } },
+    }),
+    db.commitment.findMany({
+      where: { ...inProjects, status: { in: COUNTED_COMMITMENT_STATUSES } },
+      select: {
+        projectId: true, costCodeId: true, status: true, originalAmount: true,
+        changes: { select: { amount: true, status: true } },
+        invoices: { select: { amount: true } },
+      },
+    }),
+  ]);
+
+  // Older records only carry the code as text — match it onto the library
+  const resolve = (id: string | null, text?: string | null) => id ?? matchCostCode(codes, text)?.id ?? null;
+
+  for (const projectId of projectIds) {
+    const projectCOs = changeOrders.filter((co) => co.phase.projectId === projectId);
+    result.set(
+      projectId,
+      costCodeBreakdown({
+        codes,
+        budgets: budgets
+          .filter((b) => b.projectId === projectId)
+          .map((b) => ({ costCodeId: b.costCodeId, amount: Number(b.amount) })),
+        changes: executedChangeLines(
+          projectCOs.map((co) => ({
+            id: co.id,
+            type: co.type,
+            status: co.status,
+            parentId: co.parentId,
+            amount: co.amount === null ? null : Number(co.amount),
+            lines: co.lineItems.map((l) => ({
+              costCodeId: resolve(l.costCodeId, l.costCode),
+              amount: Number(l.quantity) * Number(l.unitCost),
+            })),
+          }))
+        ),
+        // Materials on an approved PO are costed through the commitment
+        materials: materials
+          .filter((m) => m.phase.projectId === projectId && !materialCostedByCommitment(m.purchaseOrder?.status))
+          .map((m) => ({ costCodeId: m.costCodeId, status: m.status, amount: m.quantity * Number(m.cost ?? 0) })),
+        labor: labor
+          .filter((t) => t.phase.projectId === projectId)
+          .map((t) => ({ costCodeId: resolve(t.costCodeId, t.costCode), hours: t.hours })),
+        estimates: takeoffs
+          .filter((t) => t.estimate.phase.projectId === projectId)
+          .map((t) => ({ costCodeId: t.costCodeId, amount: Number(t.totalCost) })),
+        commitments: commitments
+          .filter((c) => c.projectId === projectId)
+          .map((c) => {
+            const { remaining, invoiced } = summarizeCommitment({
+              status: c.status,
+              originalAmount: Number(c.originalAmount),
+              changes: c.changes.map((ch) => ({ amount: Number(ch.amount), status: ch.status })),
+              invoices: c.invoices.map((i) => ({ amount: Number(i.amount) })),
+            });
+            return { costCodeId: c.costCodeId, remaining, invoiced };
+          }),
+      })
+    );
+  }
+  return result;
+}
@@ -0,0 +1,227 @@
+/**
+ * @file report-delivery.ts
+ * @description Scheduled report delivery — evaluates ReportSchedule rows, renders
+ * the report and emails it with CSV or XLSX attachments.
+ *
+ * Runs without a session: `GET /api/cron/reports` calls `deliverDueReports()`
+ * hourly across all orgs, and the `sendDueReports` action calls it for the
+ * caller's org only. Reports are built with the same queries as the Reports
+ * dashboard (lib/report-data.ts), scoped to the schedule's org and
+ * `includeProjects` (empty = all projects):
+ *   - Project Health  — progress, phase counts and health per project
+ *   - Overdue Phases  — phases past estEnd, oldest first
+ *   - Job P&L         — budget vs actual vs approved change orders
+ *
+ * XLSX schedules get one workbook with a sheet per report; CSV schedules get one
+ * file per report. Every recipient is emailed separately and each outcome is
+ * stored as a ReportDelivery row (the delivery history shown in settings).
+ *
+ * Duplicate-fire protection: a due schedule is claimed by moving `lastSentAt`
+ * forward with a compare-and-set before anything is sent, so overlapping cron
+ * runs cannot both deliver it. Failed sends are recorded, not retried — the
+ * schedule fires again next period.
+ */
+
+import * as XLSX from "xlsx";
+import { db } from "@/lib/db";
+import { sendScheduledReportEmail } from "@/lib/email";
+import { queryJobPL, queryOverduePhases, queryProjectHealth, type ReportScope } from "@/lib/report-data";
+
+type Cell = string | number;
+
+/** One report rendered as a table — a workbook sheet or a CSV file. */
+export interface ReportTable {
+  name: string;
+  header: string[];
+  rows: Cell[][];
+}
+
+interface DueCheck {
+  frequency: "WEEKLY" | "MONTHLY";
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  sendHour: number;
+  lastSentAt: Date | null;
+}
+
+// ── Scheduling ──
+
+/**
+ * Determine whether a schedule should fire at the given `now` timestamp.
+ *
+ * Rules (all must pass):
+ *   1. Not sent in the last 20 hours — prevents double-fire on frequent cron runs.
+ *   2. Current UTC hour matches `sendHour`.
+ *   3. For WEEKLY: current UTC day-of-week matches `dayOfWeek` (default Monday=1).
+ *   4. For MONTHLY: current UTC date matches `dayOfMonth` (default 1st).
+ */
+export function isScheduleDue(schedule: DueCheck, now: Date): boolean {
+  if (schedule.lastSentAt) {
+    const last = new Date(schedule.lastSentAt);
+    const hoursSince = (now.getTime() - last.getTime()) / 3600000;
+    // 20-hour buffer prevents duplicate delivery on hourly cron runs
+    if (hoursSince < 20) return false;
+  }
+
+  const hour = now.getUTCHours();
+  if (hour !== schedule.sendHour) return false;
+
+  if (schedule.frequency === "WEEKLY") {
+    // dayOfWeek: 0=Sunday, 1=Monday, …, 6=Saturday (UTC)
+    return now.getUTCDay() === (schedule.dayOfWeek ?? 1);
+  }
+  if (schedule.frequency === "MONTHLY") {
+    // dayOfMonth: 1–31 (UTC)
+    return now.getUTCDate() === (schedule.dayOfMonth ?? 1);
+  }
+  return false;
+}
+
+// ── Rendering ──
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+/** Serialize a table as CSV, quoting every value (names often contain commas). */
+export function tableToCsv(table: ReportTable): string {
+  return [table.header, ...table.rows]
+    .map((row) => row.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))
+    .join("\n");
+}
+
+/** Build an XLSX workbook with one sheet per table. */
+export function tablesToXlsx(tables: ReportTable[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const table of tables) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([table.header, ...table.rows]), table.name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Query and tabulate the three reports for a scope. */
+async function buildReportTables(scope: ReportScope) {
+  const [health, overdue, jobPL] = await Promise.all([
+    queryProjectHealth(scope),
+    queryOverduePhases(scope),
+    queryJobPL(scope),
+  ]);
+
+  const tables: ReportTable[] = [
+    {
+      name: "Project Health",
+      header: ["Project", "Status", "Health", "Progress %", "Phases", "Completed", "Active", "Overdue", "Budget", "Est. Completion"],
+      rows: health.map((p) => [
+        p.name, p.status, p.health, p.progress, p.phases.total, p.phases.completed, p.phases.active,
+        p.phases.overdue, p.budget ?? "", p.estCompletion ? isoDate(p.estCompletion) : "",
+      ]),
+    },
+    {
+      name: "Overdue Phases",
+      header: ["Project", "Phase", "Status", "Est. End", "Days Overdue", "Progress %", "Owner", "Company"],
+      rows: overdue.map((p) => [
+        p.projectName, p.name, p.status, isoDate(p.estEnd), p.daysOverdue, p.progress, p.owner, p.ownerCompany ?? "",
+      ]),
+    },
+    {
+      name: "Job P&L",
+      header: ["Project", "Status", "Budget", "Estimated Cost", "Actual Cost", "Change Orders", "Adjusted Budget", "Gross Profit", "Profit Margin %", "Phases", "Completed"],
+      rows: jobPL.map((r) => [
+        r.projectName, r.status, r.budget, r.totalEstimatedCost, r.totalActualCost, r.changeOrderTotal,
+        r.adjustedBudget, r.grossProfit, Number(r.profitMargin.toFixed(1)), r.phaseCount, r.completedPhases,
+      ]),
+    },
+  ];
+
+  const atRisk = health.filter((p) => p.health === "at-risk").length;
+  const summaryHtml = `
+    <p style="color:#374151;font-size:14px;line-height:1.6;margin:0 0 12px;">
+      <strong>${health.length}</strong> project${health.length === 1 ? "" : "s"} ·
+      <strong>${atRisk}</strong> at risk ·
+      <strong>${overdue.length}</strong> overdue phase${overdue.length === 1 ? "" : "s"}
+    </p>
+    <table style="width:100%;border-collapse:collapse;font-size:13px;color:#374151;">
+      ${health
+        .map(
+          (p) => `<tr style="border-top:1px solid #e5e7eb;">
+        <td style="padding:6px 0;">${escapeHtml(p.name)}</td>
+        <td style="padding:6px 0;text-align:right;">${p.progress}%</td>
+        <td style="padding:6px 0 6px 12px;text-align:right;color:${p.health === "at-risk" ? "#dc2626" : "#6b7280"};">${p.health}</td>
+      </tr>`
+        )
+        .join("")}
+    </table>
+    <p style="color:#9ca3af;font-size:12px;margin-top:12px;">Full details are attached.</p>`;
+
+  return { tables, summaryHtml, projectCount: health.length };
+}
+
+// ── Delivery ──
+
+/**
+ * Send every active schedule that is due at `now`.
+ *
+ * @param now   - Evaluation time (the cron run's start).
+ * @param orgId - Restrict to one org; omit to process all orgs (cron).
+ * @returns Count of schedules delivered and of individual emails sent/failed.
+ */
+export async function deliverDueReports(
+  now: Date = new Date(),
+  orgId?: string
+): Promise<{ schedules: number; sent: number; failed: number }> {
+  const schedules = await db.reportSchedule.findMany({
+    where: { active: true, ...(orgId ? { orgId } : {}) },
+    include: { org: { select: { name: true } } },
+  });
+
+  const result = { schedules: 0, sent: 0, failed: 0 };
+  for (const schedule of schedules) {
+    if (!isScheduleDue(schedule, now)) continue;
+
+    // Claim the run: only one caller can move lastSentAt off its old value
+    const claimed = await db.reportSchedule.updateMany({
+      where: { id: schedule.id, lastSentAt: schedule.lastSentAt },
+      data: { lastSentAt: now },
+    });
+    if (claimed.count === 0) continue;
+    result.schedules++;
+
+    let outcomes: { recipient: string; error: string | null }[];
+    let projectCount = 0;
+    try {
+      const report = await buildReportTables({ orgId: schedule.orgId, projectIds: schedule.includeProjects });
+      projectCount = report.projectCount;
+      const stamp = isoDate(now);
+      const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+      const attachments =
+        schedule.format === "CSV"
+          ? report.tables.map((t) => ({ filename: `${slug(t.name)}-${stamp}.csv`, content: Buffer.from(tableToCsv(t), "utf8") }))
+          : [{ filename: `project-report-${stamp}.xlsx`, content: tablesToXlsx(report.tables) }];
+      const subject = `${schedule.org.name} — ${schedule.frequency === "WEEKLY" ? "Weekly" : "Monthly"} project report (${stamp})`;
+
+      outcomes = [];
+      for (const recipient of schedule.recipients) {
+        const { error } = await sendScheduledReportEmail(recipient, subject, report.summaryHtml, attachments);
+        outcomes.push({ recipient, error });
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      outcomes = schedule.recipients.map((recipient) => ({ recipient, error }));
+    }
+
+    await db.reportDelivery.createMany({
+      data: outcomes.map((o) => ({
+        scheduleId: schedule.id,
+        recipient: o.recipient,
+        status: o.error ? ("FAILED" as const) : ("SENT" as const),
+        error: o.error,
+        projectCount,
+      })),
+    });
+    result.sent += outcomes.filter((o) => !o.error).length;
+    result.failed += outcomes.filter((o) => o.error).length;
+  }
+  return result;
+}
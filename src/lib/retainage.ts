@@ -0,0 +1,140 @@
+/**
+ * @file retainage.ts
+ * @description Retainage ledger — what is held per project and per vendor, and
+ * the variable-rate tiers applied to new billing.
+ *
+ * Ledger entries (RetainageEntry):
+ *   WITHHELD  posted when a pay application is APPROVED (or PAID directly) and
+ *             removed again if it is moved back or rejected. The amount is the
+ *             retainage added by that application: its own `retainage` for a
+ *             phase-level (lump-sum) application, or the change in cumulative
+ *             G703 column I since the previous approved SOV application.
+ *   RELEASED  partial or final payouts, recorded by actions/retainage.ts only
+ *             against an APPROVED UNCONDITIONAL_FINAL lien waiver from the
+ *             same vendor.
+ *
+ * Balances are grouped by `vendorName` (case-insensitive); null is the
+ * retainage the owner holds on the contractor's own applications.
+ *
+ * Rate tiers: a project may step its retainage rate down as its schedule of
+ * values is billed — e.g. 10% from 0% complete, 5% from 50%. The tier in force
+ * is picked from the percent billed BEFORE the period being billed.
+ */
+
+import { db } from "@/lib/db";
+import { toCents } from "@/lib/aia-billing";
+
+export interface RetainageRateTierInput {
+  minPercentComplete: number;
+  ratePercent: number;
+}
+
+/** Held / released totals for one vendor (or the contractor when `vendorName` is null). */
+export interface RetainageBalance {
+  vendorName: string | null;
+  withheld: number;
+  released: number;
+  balance: number;
+  /** A final release has been recorded. */
+  closed: boolean;
+}
+
+interface LedgerEntryLike {
+  type: "WITHHELD" | "RELEASED";
+  amount: number;
+  vendorName: string | null;
+  final: boolean;
+}
+
+/** Compare vendor names the way people type them ("ACME Framing " = "Acme framing"). */
+export function sameVendor(a: string | null, b: string | null): boolean {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+/**
+ * The rate of the highest tier whose threshold has been reached.
+ * @returns null when no tier applies (callers fall back to the line's own rate).
+ */
+export function rateForCompletion(tiers: RetainageRateTierInput[], percentComplete: number): number | null {
+  const tier = [...tiers]
+    .sort((a, b) => b.minPercentComplete - a.minPercentComplete)
+    .find((t) => percentComplete >= t.minPercentComplete);
+  return tier ? tier.ratePercent : null;
+}
+
+/** Group ledger entries into per-vendor balances, contractor first, then A–Z. */
+export function summarizeRetainage(entries: LedgerEntryLike[]): RetainageBalance[] {
+  const balances: RetainageBalance[] = [];
+  for (const entry of entries) {
+    let row = balances.find((b) => sameVendor(b.vendorName, entry.vendorName));
+    if (!row) {
+      row = { vendorName: entry.vendorName?.trim() || null, withheld: 0, released: 0, balance: 0, closed: false };
+      balances.push(row);
+    }
+    if (entry.type === "WITHHELD") row.withheld = toCents(row.withheld + entry.amount);
+    else row.released = toCents(row.released + entry.amount);
+    row.balance = toCents(row.withheld - row.released);
+    if (entry.type === "RELEASED" && entry.final) row.closed = true;
+  }
+  return balances.sort((a, b) =>
+    a.vendorName === null ? -1 : b.vendorName === null ? 1 : a.vendorName.localeCompare(b.vendorName)
+  );
+}
+
+// ── Ledger posting ──
+
+const APPROVED_STATUSES = ["APPROVED", "PAID"] as const;
+
+/**
+ * Post (or remove) the WITHHELD entry for a pay application to match its status.
+ * Idempotent — safe to call on every status change.
+ *
+ * @param paymentApplicationId - Application whose status just changed.
+ * @param userId               - Recorded as the entry's creator.
+ */
+export async function syncRetainageWithholding(paymentApplicationId: string, userId: string): Promise<void> {
+  const app = await db.paymentApplication.findUnique({
+    where: { id: paymentApplicationId },
+    include: { phase: { select: { projectId: true } }, retainageEntry: { select: { id: true } } },
+  });
+  if (!app) return;
+
+  const approved = (APPROVED_STATUSES as readonly string[]).includes(app.status);
+  if (!approved) {
+    if (app.retainageEntry) await db.retainageEntry.delete({ where: { id: app.retainageEntry.id } });
+    return;
+  }
+  if (app.retainageEntry) return;
+
+  const projectId = app.projectId ?? app.phase?.projectId;
+  if (!projectId) return;
+
+  let amount = Number(app.retainage);
+  let billed = Number(app.workCompleted) + Number(app.materialsStored);
+  if (app.projectId) {
+    // SOV applications carry cumulative retainage — post only what this one added
+    const previous = await db.paymentApplication.findFirst({
+      where: { projectId: app.projectId, number: { lt: app.number }, status: { in: [...APPROVED_STATUSES] } },
+      orderBy: { number: "desc" },
+      select: { retainage: true, workCompleted: true, materialsStored: true },
+    });
+    if (previous) {
+      amount -= Number(previous.retainage);
+      billed -= Number(previous.workCompleted) + Number(previous.materialsStored);
+    }
+  }
+  amount = toCents(amount);
+  if (amount === 0) return;
+
+  await db.retainageEntry.create({
+    data: {
+      type: "WITHHELD",
+      amount,
+      vendorName: app.vendorName,
+      ratePercent: amount > 0 && billed > 0 ? Math.min(100, Math.round((amount / billed) * 10000) / 100) : null,
+      projectId,
+      paymentApplicationId: app.id,
+      createdById: userId,
+    },
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * @file schedule-cascade.ts
+ * @description Plans how downstream phases move when a phase's finish slips.
+ *
+ * Pure and synchronous — `actions/phases.ts` uses it both to build the preview
+ * diff shown before a cascade and to compute the updates applied in one transaction.
+ *
+ * Rules:
+ *   - Only transitive dependents of the changed phase are considered.
+ *   - A dependent moves just far enough to satisfy every link from a
+ *     predecessor that moved, honouring the link type (FS/SS/FF/SF) and lag.
+ *     Float already in the plan absorbs part or all of the slip.
+ *   - Moves are forward only: finishing early never pulls successors in.
+ *   - Durations are preserved; worst-case dates move by the same number of days.
+ */
+
+import { linkEarliestStart, type CpmLink } from "@/lib/critical-path";
+
+// ── Types ──
+
+export interface CascadePhase {
+  id: string;
+  name: string;
+  estStart: Date;
+  estEnd: Date;
+  worstStart?: Date | null;
+  worstEnd?: Date | null;
+}
+
+export interface CascadeShift {
+  phaseId: string;
+  name: string;
+  deltaDays: number;
+  estStart: Date;
+  estEnd: Date;
+  newEstStart: Date;
+  newEstEnd: Date;
+  newWorstStart: Date | null;
+  newWorstEnd: Date | null;
+}
+
+const DAY_MS = 86_400_000;
+
+const addDays = (d: Date, days: number) => new Date(d.getTime() + days * DAY_MS);
+
+// ── Planner ──
+
+/**
+ * Compute the shifts caused by `changedId` now running from `moved.start` to `moved.end`.
+ *
+ * @param phases    - Every phase in the project
+ * @param links     - The project's dependency edges
+ * @param changedId - The phase whose dates moved
+ * @param moved     - Its new (estimated or actual) start and finish
+ * @returns Shifts in dependency order; empty when nothing needs to move.
+ * @throws Error if a cycle is reachable from the changed phase.
+ */
+export function planCascade(
+  phases: CascadePhase[],
+  links: CpmLink[],
+  changedId: string,
+  moved: { start: Date; end: Date }
+): CascadeShift[] {
+  const byId = new Map(phases.map((p) => [p.id, p]));
+  const succs = new Map<string, CpmLink[]>();
+  for (const l of links) {
+    if (!byId.has(l.predecessorId) || !byId.has(l.successorId)) continue;
+    if (!succs.has(l.predecessorId)) succs.set(l.predecessorId, []);
+    succs.get(l.predecessorId)!.push(l);
+  }
+
+  // Transitive dependents of the changed phase
+  const reachable = new Set<string>();
+  const stack = [changedId];
+  while (stack.length > 0) {
+    for (const l of succs.get(stack.pop()!) ?? []) {
+      if (l.successorId === changedId) throw new Error("Dependency cycle detected");
+      if (!reachable.has(l.successorId)) {
+        reachable.add(l.successorId);
+        stack.push(l.successorId);
+      }
+    }
+  }
+  if (reachable.size === 0) return [];
+
+  // Topological order of the affected sub-graph (Kahn)
+  const indegree = new Map<string, number>([...reachable].map((id) => [id, 0]));
+  for (const id of [changedId, ...reachable]) {
+    for (const l of succs.get(id) ?? []) {
+      indegree.set(l.successorId, indegree.get(l.successorId)! + 1);
+    }
+  }
+  const queue = [changedId];
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id !== changedId) order.push(id);
+    for (const l of succs.get(id) ?? []) {
+      const left = indegree.get(l.successorId)! - 1;
+      indegree.set(l.successorId, left);
+      if (left === 0) queue.push(l.successorId);
+    }
+  }
+  if (order.length !== reachable.size) throw new Error("Dependency cycle detected");
+
+  // Dates (ms) of phases that have moved so far
+  const movedDates = new Map([[changedId, { start: moved.start.getTime(), finish: moved.end.getTime() }]]);
+  const shifts: CascadeShift[] = [];
+
+  for (const id of order) {
+    const phase = byId.get(id)!;
+    const duration = phase.estEnd.getTime() - phase.estStart.getTime();
+    let deltaDays = 0;
+    for (const [predId, pred] of movedDates) {
+      for (const l of succs.get(predId) ?? []) {
+        if (l.successorId !== id) continue;
+        const required = linkEarliestStart(l.type ?? "FS", l.lagDays * DAY_MS, pred, duration);
+        deltaDays = Math.max(deltaDays, Math.ceil((required - phase.estStart.getTime()) / DAY_MS));
+      }
+    }
+    if (deltaDays <= 0) continue;
+
+    const newEstStart = addDays(phase.estStart, deltaDays);
+    const newEstEnd = addDays(phase.estEnd, deltaDays);
+    movedDates.set(id, { start: newEstStart.getTime(), finish: newEstEnd.getTime() });
+    shifts.push({
+      phaseId: id,
+      name: phase.name,
+      deltaDays,
+      estStart: phase.estStart,
+      estEnd: phase.estEnd,
+      newEstStart,
+      newEstEnd,
+      newWorstStart: phase.worstStart ? addDays(phase.worstStart, deltaDays) : null,
+      newWorstEnd: phase.worstEnd ? addDays(phase.worstEnd, deltaDays) : null,
+    });
+  }
+
+  return shifts;
+}
@@ -0,0 +1,217 @@
+/**
+ * @file schedule-interchange.ts
+ * @description Format-neutral schedule model shared by the MS Project (MSPDI XML)
+ * and Primavera P6 (XER) readers/writers in `lib/mspdi.ts` and `lib/xer.ts`.
+ *
+ * Each format is parsed into an `InterchangeSchedule` and built from one, so the
+ * import/export routes only deal with this shape:
+ *   - tasks map 1:1 onto Phase rows (summary / WBS / level-of-effort rows are
+ *     dropped by the readers — phases are a flat list)
+ *   - links map onto PhaseDependency rows (type + lag in whole days)
+ *
+ * `phasesToSchedule` builds the export shape from Phase/PhaseDependency rows;
+ * `planScheduleImport` decides which phases an import updates or creates.
+ *
+ * Dates are calendar days at UTC midnight, matching how phases store them. The
+ * writers add working-day times (08:00 start, 17:00 finish) and the readers
+ * drop them again, so a schedule round-trips without drifting.
+ */
+
+import { wouldCreateCycle, type DependencyLinkType } from "@/lib/critical-path";
+
+// ── Types ──
+
+export type ScheduleFormat = "mspdi" | "xer";
+
+export interface InterchangeTask {
+  /** Identifier unique within the file (MSPDI UID / XER task_id). */
+  uid: string;
+  name: string;
+  start: Date;
+  finish: Date;
+  actualStart: Date | null;
+  actualFinish: Date | null;
+  isMilestone: boolean;
+  /** 0–100. */
+  percentComplete: number;
+}
+
+export interface InterchangeLink {
+  predecessorUid: string;
+  successorUid: string;
+  type: DependencyLinkType;
+  /** Negative = lead. */
+  lagDays: number;
+}
+
+export interface InterchangeSchedule {
+  name: string;
+  tasks: InterchangeTask[];
+  links: InterchangeLink[];
+}
+
+/** File extension and MIME type per format, for uploads and downloads. */
+export const SCHEDULE_FORMATS: Record<ScheduleFormat, { extension: string; mimeType: string }> = {
+  mspdi: { extension: "xml", mimeType: "application/xml" },
+  xer: { extension: "xer", mimeType: "text/plain" },
+};
+
+/** Working hours per day assumed when converting durations and lags. */
+export const HOURS_PER_DAY = 8;
+
+const DAY_MS = 86_400_000;
+
+// ── Helpers ──
+
+/** Pick the format from a file name, or null if it is neither .xml nor .xer. */
+export function detectScheduleFormat(filename: string): ScheduleFormat | null {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  if (ext === "xml") return "mspdi";
+  if (ext === "xer") return "xer";
+  return null;
+}
+
+/**
+ * Parse the calendar date at the start of a timestamp ("2025-03-01T08:00:00",
+ * "2025-03-01 08:00") as UTC midnight. Returns null for empty or invalid input.
+ */
+export function parseCalendarDate(value: string | null | undefined): Date | null {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** "YYYY-MM-DD" for a calendar date. */
+export function formatCalendarDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Whole calendar days from `start` to `finish` (never negative). */
+export function calendarDays(start: Date, finish: Date): number {
+  return Math.max(0, Math.round((finish.getTime() - start.getTime()) / DAY_MS));
+}
+
+// ── Phases ↔ schedule ──
+
+interface SchedulePhase {
+  id: string;
+  name: string;
+  isMilestone: boolean;
+  progress: number;
+  estStart: Date;
+  estEnd: Date;
+  actualStart: Date | null;
+  actualEnd: Date | null;
+}
+
+/**
+ * Build an exportable schedule from phases (in display order) and their
+ * dependencies. Phases get sequential integer UIDs, as both formats require.
+ */
+export function phasesToSchedule(
+  name: string,
+  phases: SchedulePhase[],
+  dependencies: { phaseId: string; dependsOnId: string; type: DependencyLinkType; lagDays: number }[]
+): InterchangeSchedule {
+  const uids = new Map(phases.map((p, i) => [p.id, String(i + 1)]));
+  return {
+    name,
+    tasks: phases.map((p) => ({
+      uid: uids.get(p.id)!,
+      name: p.name,
+      start: p.estStart,
+      finish: p.estEnd,
+      actualStart: p.actualStart,
+      actualFinish: p.actualEnd,
+      isMilestone: p.isMilestone,
+      percentComplete: p.progress,
+    })),
+    links: dependencies
+      .filter((d) => uids.has(d.phaseId) && uids.has(d.dependsOnId))
+      .map((d) => ({
+        predecessorUid: uids.get(d.dependsOnId)!,
+        successorUid: uids.get(d.phaseId)!,
+        type: d.type,
+        lagDays: d.lagDays,
+      })),
+  };
+}
+
+export interface ScheduleImportPlan {
+  /** Tasks matched to an existing phase by name. */
+  updates: { phaseId: string; task: InterchangeTask }[];
+  /** Tasks with no matching phase. */
+  creates: InterchangeTask[];
+  /**
+   * Links between imported tasks, keyed by phase ID for matched tasks and by
+   * `new:<uid>` for tasks that will be created.
+   */
+  links: { successorKey: string; predecessorKey: string; type: DependencyLinkType; lagDays: number }[];
+}
+
+/** Key used in `ScheduleImportPlan.links` for a task that will be created. */
+export const newTaskKey = (uid: string) => `new:${uid}`;
+
+/**
+ * Match imported tasks to existing phases and translate links onto them.
+ *
+ * Tasks match phases by name (case- and whitespace-insensitive, each phase at
+ * most once), so exporting, editing in MS Project/P6 and re-importing updates
+ * the same phases. Links between imported tasks replace the existing
+ * dependencies among those phases; dependencies touching other phases are kept
+ * and checked together with the new ones for cycles.
+ *
+ * @param phases       - The project's current phases
+ * @param dependencies - The project's current dependency edges
+ * @throws Error if the resulting dependency graph would contain a cycle.
+ */
+export function planScheduleImport(
+  schedule: InterchangeSchedule,
+  phases: { id: string; name: string }[],
+  dependencies: { phaseId: string; dependsOnId: string }[]
+): ScheduleImportPlan {
+  const norm = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+  const unmatched = new Map<string, string[]>();
+  for (const p of phases) {
+    const key = norm(p.name);
+    if (!unmatched.has(key)) unmatched.set(key, []);
+    unmatched.get(key)!.push(p.id);
+  }
+
+  const plan: ScheduleImportPlan = { updates: [], creates: [], links: [] };
+  const keyByUid = new Map<string, string>();
+  for (const task of schedule.tasks) {
+    const phaseId = unmatched.get(norm(task.name))?.shift();
+    if (phaseId) {
+      plan.updates.push({ phaseId, task });
+      keyByUid.set(task.uid, phaseId);
+    } else {
+      plan.creates.push(task);
+      keyByUid.set(task.uid, newTaskKey(task.uid));
+    }
+  }
+
+  // Existing edges that the import does not replace
+  const imported = new Set(keyByUid.values());
+  const graph = dependencies
+    .filter((d) => !(imported.has(d.phaseId) && imported.has(d.dependsOnId)))
+    .map((d) => ({ predecessorId: d.dependsOnId, successorId: d.phaseId }));
+
+  const seen = new Set<string>();
+  for (const link of schedule.links) {
+    const predecessorKey = keyByUid.get(link.predecessorUid);
+    const successorKey = keyByUid.get(link.successorUid);
+    if (!predecessorKey || !successorKey || predecessorKey === successorKey) continue;
+    // One edge per pair (PhaseDependency is unique on phaseId + dependsOnId)
+    if (seen.has(`${predecessorKey}>${successorKey}`)) continue;
+    seen.add(`${predecessorKey}>${successorKey}`);
+    if (wouldCreateCycle(graph, predecessorKey, successorKey)) {
+      throw new Error("Dependency cycle detected in imported schedule");
+    }
+    graph.push({ predecessorId: predecessorKey, successorId: successorKey });
+    plan.links.push({ successorKey, predecessorKey, type: link.type, lagDays: link.lagDays });
+  }
+
+  return plan;
+}
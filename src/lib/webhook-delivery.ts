@@ -0,0 +1,233 @@
+/**
+ * @file webhook-delivery.ts
+ * @description Durable webhook outbox: enqueue, deliver, retry.
+ *
+ * Flow:
+ *   1. A server action calls `emitWebhookEvent(orgId, event, data)` after its
+ *      DB write. One `WebhookDelivery` row (status PENDING) is created per
+ *      active endpoint subscribed to the event — this is the outbox.
+ *   2. Each new row gets an immediate fire-and-forget delivery attempt so the
+ *      happy path has no cron latency.
+ *   3. Failed attempts are rescheduled with exponential backoff
+ *      (30s, 1m, 2m, 4m … capped at 6h). After MAX_ATTEMPTS the row is FAILED.
+ *   4. `/api/cron/webhooks` calls `processDueDeliveries()` to retry rows whose
+ *      `nextAttemptAt` has passed.
+ *
+ * Every attempt is logged to `WebhookDeliveryAttempt` for the settings UI.
+ *
+ * Claiming: before sending, a row's `nextAttemptAt` is pushed forward by a
+ * lease via a conditional `updateMany`. Only the caller whose update matched
+ * sends, so the inline attempt and the cron worker never double-deliver.
+ *
+ * This module is NOT a server action file — it takes an explicit `orgId` so it
+ * can be called from actions, API routes and cron jobs alike.
+ */
+
+import { createHmac } from "crypto";
+import { db } from "@/lib/db";
+import type { WebhookEvent } from "@/lib/webhook-events";
+
+// ── Constants ──
+
+/** Attempts before a delivery is marked FAILED. */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** How long a claimed row is hidden from other workers while in flight. */
+const CLAIM_LEASE_MS = 60_000;
+
+// ── Backoff ──
+
+/**
+ * Delay before the next attempt, given how many attempts have already run.
+ * attempt 1 → 30s, 2 → 60s, 3 → 120s … capped at 6 hours.
+ */
+export function webhookBackoffMs(attemptsMade: number): number {
+  const exp = BASE_BACKOFF_MS * 2 ** Math.max(0, attemptsMade - 1);
+  return Math.min(exp, MAX_BACKOFF_MS);
+}
+
+// ── Enqueue ──
+
+/**
+ * Enqueue a webhook event for every active endpoint in the org subscribed to it.
+ * Fire-and-forget: logs errors but never throws, so a webhook problem can never
+ * fail the domain action that emitted it.
+ *
+ * @param orgId - Organization whose endpoints should receive the event
+ * @param event - Event string from WEBHOOK_EVENTS
+ * @param data  - Event payload (must be JSON-serialisable — convert Decimals/Dates)
+ */
+export async function emitWebhookEvent(
+  orgId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const webhooks = await db.webhook.findMany({
+      where: { orgId, active: true },
+      select: { id: true, events: true },
+    });
+
+    for (const wh of webhooks) {
+      // "*" = subscribed to all events
+      if (!wh.events.includes(event) && !wh.events.includes("*")) continue;
+      const delivery = await db.webhookDelivery.create({
+        data: { webhookId: wh.id, event, payload: data as object },
+        select: { id: true },
+      });
+      attemptDelivery(delivery.id).catch((err) =>
+        console.error("[webhooks] Inline delivery failed:", err)
+      );
+    }
+  } catch (error) {
+    console.error("[webhooks] Failed to enqueue event:", event, error);
+  }
+}
+
+/**
+ * Re-send a previous delivery's payload as a brand-new delivery row.
+ * The original row and its attempt log are left untouched for auditing.
+ *
+ * @returns The new delivery ID.
+ */
+export async function replayDelivery(deliveryId: string): Promise<string> {
+  const original = await db.webhookDelivery.findUnique({ where: { id: deliveryId } });
+  if (!original) throw new Error("Delivery not found");
+
+  const replay = await db.webhookDelivery.create({
+    data: {
+      webhookId: original.webhookId,
+      event: original.event,
+      payload: original.payload as object,
+      replayOfId: original.id,
+    },
+    select: { id: true },
+  });
+  await attemptDelivery(replay.id);
+  return replay.id;
+}
+
+// ── Delivery ──
+
+/**
+ * Try to deliver one outbox row. No-op if the row is not due or another worker
+ * holds the claim. Records the attempt and reschedules or finalises the row.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<void> {
+  const now = new Date();
+  const claimed = await db.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: "PENDING", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+  });
+  if (claimed.count === 0) return;
+
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+  if (!delivery) return;
+
+  const attemptNumber = delivery.attemptCount + 1;
+
+  // Endpoint paused since the event was enqueued — stop retrying
+  if (!delivery.webhook.active) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: "FAILED", lastError: "Webhook is paused" },
+    });
+    return;
+  }
+
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    timestamp: delivery.createdAt.toISOString(),
+    data: delivery.payload,
+  });
+  const sig = createHmac("sha256", delivery.webhook.secret).update(body).digest("hex");
+
+  const started = Date.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let responseBody: string | null = null;
+
+  try {
+    const res = await fetch(delivery.webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Signature": `sha256=${sig}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    statusCode = res.status;
+    responseBody = (await res.text().catch(() => "")).slice(0, 1024) || null;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Network error";
+  }
+
+  const succeeded = statusCode !== null && statusCode >= 200 && statusCode < 300;
+  const exhausted = attemptNumber >= MAX_WEBHOOK_ATTEMPTS;
+
+  await db.$transaction([
+    db.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId: delivery.id,
+        attemptNumber,
+        statusCode,
+        error,
+        responseBody,
+        durationMs: Date.now() - started,
+      },
+    }),
+    db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attemptCount: attemptNumber,
+        lastStatusCode: statusCode,
+        lastError: error,
+        ...(succeeded
+          ? { status: "DELIVERED", deliveredAt: new Date() }
+          : exhausted
+            ? { status: "FAILED" }
+            : { nextAttemptAt: new Date(Date.now() + webhookBackoffMs(attemptNumber)) }),
+      },
+    }),
+    // Endpoint-level summary used by the settings list (0 = network failure)
+    db.webhook.update({
+      where: { id: delivery.webhookId },
+      data: { lastTriggeredAt: new Date(), lastStatusCode: statusCode ?? 0 },
+    }),
+  ]);
+}
+
+/**
+ * Retry every PENDING delivery whose backoff has elapsed, oldest first.
+ * Called by the cron route; processes sequentially to keep outbound
+ * concurrency (and serverless memory) bounded.
+ *
+ * @param limit - Max rows to process in one run
+ * @returns Count of rows picked up
+ */
+export async function processDueDeliveries(limit = 50): Promise<{ processed: number }> {
+  const due = await db.webhookDelivery.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    await attemptDelivery(id).catch((err) =>
+      console.error("[webhooks] Retry failed:", id, err)
+    );
+  }
+  return { processed: due.length };
+}
@@ -9,7 +9,8 @@
  * Adding a new event:
  *   1. Add the event string to WEBHOOK_EVENTS below.
  *   2. Update the webhook settings UI (event checkboxes) in the locales.
- *   3. Call `triggerWebhooks(event, payload)` from the relevant server action.
+ *   3. Call `emitWebhookEvent(orgId, event, payload)` (lib/webhook-delivery.ts)
+ *      from the relevant server action.
  */
 
 /** All webhook event types that can be subscribed to via the webhooks settings. */
@@ -23,6 +24,8 @@ export const WEBHOOK_EVENTS = [
   "change_order.approved",    // A change order was approved
   "change_order.rejected",    // A change order was rejected
   "daily_log.created",        // A daily log entry was created
+  "rfi.created",              // An RFI was opened on a phase
+  "time_entry.created",       // A time entry was logged against a phase
   "document.uploaded",        // A document was uploaded to a phase
   "photo.uploaded",           // A photo was uploaded to a phase
 ] as const;
@@ -0,0 +1,179 @@
+/**
+ * @file xer.ts
+ * @description Reader and writer for Primavera P6 XER exchange files.
+ *
+ * XER is tab-separated text made of tables:
+ *   ERMHDR  <version> <date> …      file header
+ *   %T      <TABLE>                 start of a table
+ *   %F      <field> <field> …       column names
+ *   %R      <value> <value> …       one row
+ *   %E                              end of file
+ *
+ * Tables used:
+ *   - PROJECT   proj_id, proj_short_name — only the first project is imported
+ *   - TASK      task_id, task_name, task_type, target/early start and end,
+ *               act_start_date, act_end_date, phys_complete_pct.
+ *               Level-of-effort and WBS summary activities are skipped;
+ *               TT_Mile / TT_FinMile become milestones.
+ *   - TASKPRED  task_id, pred_task_id, pred_type (PR_FS/SS/FF/SF), lag_hr_cnt
+ *               (converted to days at `HOURS_PER_DAY`)
+ *
+ * The writer emits those tables plus the CALENDAR and PROJWBS rows P6 needs to
+ * accept the file (one standard calendar and one project-level WBS node).
+ */
+
+import type { DependencyLinkType } from "@/lib/critical-path";
+import {
+  HOURS_PER_DAY,
+  calendarDays,
+  formatCalendarDate,
+  parseCalendarDate,
+  type InterchangeSchedule,
+  type InterchangeTask,
+} from "@/lib/schedule-interchange";
+
+type XerTables = Record<string, Record<string, string>[]>;
+
+const SKIPPED_TASK_TYPES = new Set(["TT_LOE", "TT_WBS"]);
+const MILESTONE_TASK_TYPES = new Set(["TT_Mile", "TT_FinMile"]);
+
+// ── Reader ──
+
+function readTables(text: string): XerTables {
+  const tables: XerTables = {};
+  let table: Record<string, string>[] | null = null;
+  let fields: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split("\t");
+    switch (cells[0]) {
+      case "%T":
+        table = tables[cells[1]] = [];
+        fields = [];
+        break;
+      case "%F":
+        fields = cells.slice(1);
+        break;
+      case "%R":
+        table?.push(Object.fromEntries(fields.map((f, i) => [f, cells[i + 1] ?? ""])));
+        break;
+    }
+  }
+  return tables;
+}
+
+/**
+ * Parse an XER file.
+ *
+ * @throws Error if the text is not a P6 XER export.
+ */
+export function parseXer(text: string): InterchangeSchedule {
+  if (!text.startsWith("ERMHDR")) throw new Error("Not a Primavera P6 XER file");
+
+  const tables = readTables(text);
+  const project = tables.PROJECT?.[0];
+  const projId = project?.proj_id;
+
+  const tasks: InterchangeTask[] = [];
+  for (const row of tables.TASK ?? []) {
+    if (projId && row.proj_id !== projId) continue;
+    if (SKIPPED_TASK_TYPES.has(row.task_type)) continue;
+    const start = parseCalendarDate(row.target_start_date) ?? parseCalendarDate(row.early_start_date);
+    const finish = parseCalendarDate(row.target_end_date) ?? parseCalendarDate(row.early_end_date) ?? start;
+    if (!start || !finish) continue;
+    tasks.push({
+      uid: row.task_id,
+      name: row.task_name || row.task_code || `Activity ${row.task_id}`,
+      start,
+      finish: finish < start ? start : finish,
+      actualStart: parseCalendarDate(row.act_start_date),
+      actualFinish: parseCalendarDate(row.act_end_date),
+      isMilestone: MILESTONE_TASK_TYPES.has(row.task_type),
+      percentComplete: Math.min(100, Math.max(0, Number(row.phys_complete_pct) || 0)),
+    });
+  }
+
+  const kept = new Set(tasks.map((t) => t.uid));
+  const links = (tables.TASKPRED ?? [])
+    .filter((row) => kept.has(row.pred_task_id) && kept.has(row.task_id))
+    .map((row) => ({
+      predecessorUid: row.pred_task_id,
+      successorUid: row.task_id,
+      type: (row.pred_type?.replace(/^PR_/, "") || "FS") as DependencyLinkType,
+      lagDays: Math.round((Number(row.lag_hr_cnt) || 0) / HOURS_PER_DAY),
+    }))
+    .filter((l) => ["FS", "SS", "FF", "SF"].includes(l.type));
+
+  return { name: project?.proj_short_name || "Imported schedule", tasks, links };
+}
+
+// ── Writer ──
+
+/** Tabs and line breaks would split a cell, so flatten them to spaces. */
+const cell = (value: string | number) => String(value).replace(/[\t\r\n]+/g, " ");
+
+function table(name: string, fields: string[], rows: (string | number)[][]): string[] {
+  return [
+    `%T\t${name}`,
+    `%F\t${fields.join("\t")}`,
+    ...rows.map((r) => `%R\t${r.map(cell).join("\t")}`),
+  ];
+}
+
+const startTime = (d: Date) => `${formatCalendarDate(d)} 08:00`;
+const finishTime = (d: Date) => `${formatCalendarDate(d)} 17:00`;
+
+/** Build an XER file. Task UIDs must be positive integers. */
+export function buildXer(schedule: InterchangeSchedule, exportedAt: Date = new Date()): string {
+  const PROJ_ID = 1;
+  const WBS_ID = 1;
+  const CLNDR_ID = 1;
+  const shortName = schedule.name.slice(0, 40);
+  const projectStart = schedule.tasks.reduce<Date | null>(
+    (min, t) => (!min || t.start < min ? t.start : min),
+    null
+  );
+
+  const taskRows = schedule.tasks.map((t, i) => {
+    const hours = t.isMilestone ? 0 : calendarDays(t.start, t.finish) * HOURS_PER_DAY;
+    const status = t.actualFinish ? "TK_Complete" : t.actualStart ? "TK_Active" : "TK_NotStart";
+    const remaining = t.actualFinish ? 0 : Math.round(hours * (1 - t.percentComplete / 100));
+    return [
+      t.uid, PROJ_ID, WBS_ID, CLNDR_ID,
+      Math.round(t.percentComplete), status,
+      `A${1000 + i * 10}`, t.name,
+      t.isMilestone ? "TT_Mile" : "TT_Task",
+      hours, remaining,
+      t.actualStart ? startTime(t.actualStart) : "",
+      t.actualFinish ? finishTime(t.actualFinish) : "",
+      startTime(t.start), t.isMilestone ? startTime(t.start) : finishTime(t.finish),
+      startTime(t.start), t.isMilestone ? startTime(t.start) : finishTime(t.finish),
+    ];
+  });
+
+  const predRows = schedule.links.map((l, i) => [
+    i + 1, l.successorUid, l.predecessorUid, PROJ_ID, PROJ_ID, `PR_${l.type}`, l.lagDays * HOURS_PER_DAY,
+  ]);
+
+  return [
+    ["ERMHDR", "19.12", formatCalendarDate(exportedAt), "Project", "admin", "admin", "dbxDatabaseNoName", "Project Management", "USD"].join("\t"),
+    ...table("CALENDAR",
+      ["clndr_id", "default_flag", "clndr_name", "proj_id", "base_clndr_id", "clndr_type", "day_hr_cnt", "week_hr_cnt"],
+      [[CLNDR_ID, "Y", "Standard", "", "", "CA_Base", HOURS_PER_DAY, HOURS_PER_DAY * 5]]),
+    ...table("PROJECT",
+      ["proj_id", "proj_short_name", "clndr_id", "plan_start_date"],
+      [[PROJ_ID, shortName, CLNDR_ID, projectStart ? startTime(projectStart) : ""]]),
+    ...table("PROJWBS",
+      ["wbs_id", "proj_id", "seq_num", "proj_node_flag", "status_code", "wbs_short_name", "wbs_name"],
+      [[WBS_ID, PROJ_ID, 0, "Y", "WS_Open", shortName, schedule.name]]),
+    ...table("TASK",
+      ["task_id", "proj_id", "wbs_id", "clndr_id", "phys_complete_pct", "status_code", "task_code", "task_name",
+        "task_type", "target_drtn_hr_cnt", "remain_drtn_hr_cnt", "act_start_date", "act_end_date",
+        "target_start_date", "target_end_date", "early_start_date", "early_end_date"],
+      taskRows),
+    ...table("TASKPRED",
+      ["task_pred_id", "task_id", "pred_task_id", "proj_id", "pred_proj_id", "pred_type", "lag_hr_cnt"],
+      predRows),
+    "%E",
+    "",
+  ].join("\r\n");
+}
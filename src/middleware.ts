@@ -4,6 +4,8 @@
  *
  * Route rules:
  * - Public: /login, /register, /api/auth, /invite, /signup, /client/*
+ * - /api/v1/* — bypasses session auth; routes authenticate via API key (lib/api-v1.ts)
+ * - /api/cron/* — bypasses session auth; routes check CRON_SECRET (lib/cron.ts)
  * - /system-admin/* — SYSTEM_ADMIN only
  * - /contractor/* — CONTRACTOR only
  * - /dashboard/* — all non-contractor authenticated users
@@ -17,7 +19,7 @@ export default auth((req) => {
   const isLoggedIn = !!req.auth;
 
   // Public routes — no auth required
-  const publicPaths = ["/login", "/register", "/signup", "/forgot-password", "/reset-password", "/api/auth", "/api/stripe/webhook", "/api/onboarding", "/api/health", "/onboarding", "/invite", "/client", "/terms", "/privacy"];
+  const publicPaths = ["/login", "/register", "/signup", "/forgot-password", "/reset-password", "/api/auth", "/api/stripe/webhook", "/api/onboarding", "/api/health", "/api/v1", "/api/cron", "/api/calendar", "/onboarding", "/invite", "/client", "/terms", "/privacy"];
   if (publicPaths.some((p) => pathname.startsWith(p))) {
     // Redirect logged-in users away from login page
     if (isLoggedIn && pathname === "/login") {